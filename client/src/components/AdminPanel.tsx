@@ -1,10 +1,12 @@
 /**
- * Admin Panel - Create Test Auctions
- * Visible only to accounts holding the auction manager or admin role.
+ * Admin Panel - Create Test Auctions and edit the game / auction config
+ * Auction creation is visible only to accounts holding the auction manager or admin role.
  */
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { toBeHex } from 'ethers';
 import { useWeb3 } from '../hooks/useWeb3';
+import { useGameConfig } from '../hooks/useGameConfig';
+import { ConfigPanel } from './ConfigPanel';
 
 const GOOD_TYPES = [
   { id: 1, name: '🌶️ Rare Spices' },
@@ -23,6 +25,7 @@ const toHandle = (value: number) => toBeHex(BigInt(value), 32);
 
 const AdminPanelComponent: React.FC<AdminPanelProps> = ({ showPanel, setShowPanel }) => {
   const { marketAuctionContract, account, connected } = useWeb3();
+  const { auctionConfig } = useGameConfig();
   const [selectedGoodType, setSelectedGoodType] = useState(1);
   const [reservePrice, setReservePrice] = useState<number>(100);
   const [loading, setLoading] = useState(false);
@@ -298,12 +301,16 @@ const AdminPanelComponent: React.FC<AdminPanelProps> = ({ showPanel, setShowPane
               <li>Create 3-5 auctions to make the game fun</li>
               <li>Vary the good types and reserve prices</li>
               <li>Reserve prices are encrypted on-chain</li>
-              <li>Each auction lasts 5 minutes</li>
+              <li>
+                Each auction lasts {auctionConfig ? `${Math.round(auctionConfig.auctionDuration / 60)} minutes` : 'the configured duration'}
+              </li>
             </ul>
           </div>
         </div>
       )}
 
+      {showPanel && <ConfigPanel />}
+
       {!hasAuctionAccess && status.ok === false && hasAuctionAccess !== null && (
         <div style={{ marginTop: '10px', fontSize: '13px', color: '#856404' }}>
           Have an auction manager grant your wallet the required role to use this panel.
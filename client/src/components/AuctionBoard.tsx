@@ -7,6 +7,13 @@
  * Step 3: Coprocessor listens to events, performs FHE operations off-chain
  * Step 4: Gateway updates encrypted results on-chain
  * Step 5: User can decrypt results via Relayer (KMS)
+ * Reveal (opt-in): Resolved winning bid is publicly decrypted as the clearing price
+ * Second-price auctions: the winner pays (and the reveal shows) the runner-up bid
+ * Commit-reveal auctions (no FHE): bids are committed with a salt kept in localStorage
+ * (useBidCommitments) and revealed from this board after the auction ends
+ * Dutch auctions: the price falls over time (DutchPriceCurve) and the first bid covering it buys
+ * at that price; an encrypted bid waits for its acceptance to be decrypted
+ * Live updates: pushed by the event indexer feed (useAuctionFeed), 60s polling while it is offline
  *
  * Permissionless marketplace: anyone can create auctions, bid, and claim rewards
  * No game sessions, no join/leave mechanics
@@ -15,6 +22,10 @@ import React, { useState, useEffect } from 'react';
 import { toBeHex } from 'ethers';
 import { useWeb3 } from '../hooks/useWeb3';
 import { useFHEEncryption } from '../hooks/useFHEEncryption';
+import { useGameConfig } from '../hooks/useGameConfig';
+import { useAuctionFeed, AuctionFeedEvent } from '../hooks/useAuctionFeed';
+import { useBidCommitments } from '../hooks/useBidCommitments';
+import { DutchPriceCurve } from './DutchPriceCurve';
 
 interface Auction {
   auctionId: string;
@@ -25,6 +36,21 @@ interface Auction {
   isResolved: boolean;
   participantCount: number;
   creator: string;
+  format: number; // MarketAuction.AuctionFormat
+  usesCommitReveal: boolean;
+  revealEndTime: number; // commit-reveal only
+  startPrice: number; // Dutch only
+  floorPrice: number; // The public reserve (Dutch floor, commit-reveal deposit), 0 when it is encrypted
+  dutchPending: boolean; // Dutch: an encrypted bid awaits its decrypted decision
+}
+
+interface ResolvedAuction {
+  auctionId: string;
+  goodType: number;
+  creator: string;
+  winner: string;
+  clearingPrice: string | null; // null until revealed
+  revealPending: boolean;
 }
 
 interface WonAuction {
@@ -41,6 +67,14 @@ const GOOD_TYPE_NAMES: { [key: number]: string } = {
   5: '🏺 Ancient Artifacts',
 };
 
+// MarketAuction.AuctionFormat
+const AUCTION_FORMAT_FIRST_PRICE = 0;
+const AUCTION_FORMAT_SECOND_PRICE = 1;
+const AUCTION_FORMAT_DUTCH = 2;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const RESOLVED_AUCTIONS_SHOWN = 10;
+
 const GOOD_TYPE_COLORS: { [key: number]: string } = {
   1: '#FF6B35',
   2: '#F8B88B',
@@ -51,25 +85,38 @@ const GOOD_TYPE_COLORS: { [key: number]: string } = {
 
 export const AuctionBoard: React.FC = () => {
   const { marketAuctionContract, account, connected, provider, chainId } = useWeb3();
+  const { auctionConfig } = useGameConfig();
   const { instance, initializeFHE } = useFHEEncryption();
+  const { commitments, createCommitment, removeCommitment } = useBidCommitments();
 
   // Auction management
   const [auctions, setAuctions] = useState<Auction[]>([]);
   const [wonAuctions, setWonAuctions] = useState<WonAuction[]>([]);
+  const [resolvedAuctions, setResolvedAuctions] = useState<ResolvedAuction[]>([]);
   const [loading, setLoading] = useState(false);
   const [bidding, setBidding] = useState<{ [key: string]: boolean }>({});
   const [bidAmounts, setBidAmounts] = useState<{ [key: string]: number }>({});
   const [userBids, setUserBids] = useState<{ [key: string]: boolean }>({});
   const [timeRemaining, setTimeRemaining] = useState<{ [key: string]: number }>({});
+  const [revealTimeRemaining, setRevealTimeRemaining] = useState<{ [key: string]: number }>({});
+  const [revealingBid, setRevealingBid] = useState<{ [key: string]: boolean }>({});
   const [claiming, setClaiming] = useState<{ [key: string]: boolean }>({});
   const [resolving, setResolving] = useState<{ [key: string]: boolean }>({});
+  const [revealing, setRevealing] = useState<{ [key: string]: boolean }>({});
 
   // Admin state - for future role-based access control
   const [isAdmin, setIsAdmin] = useState(true); // Temporarily allow everyone to create auctions
 
   // Create auction form
   const [showCreateForm, setShowCreateForm] = useState(false);
-  const [createForm, setCreateForm] = useState({ goodType: 1, reservePrice: 100, durationSeconds: 300 });
+  const [createForm, setCreateForm] = useState({
+    goodType: 1,
+    reservePrice: 100,
+    durationSeconds: 0,
+    format: AUCTION_FORMAT_FIRST_PRICE,
+    commitReveal: false,
+    startPrice: 1000, // Dutch only
+  });
   const [creating, setCreating] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -107,6 +154,8 @@ export const AuctionBoard: React.FC = () => {
         try {
           const info = await marketAuctionContract.getAuctionInfo(idStr);
           const hasBid = await marketAuctionContract.hasUserBid(idStr, account);
+          const stored = await marketAuctionContract.auctions(idStr);
+          const format = Number(stored.format);
 
           newAuctionsMap.set(idStr, {
             auctionId: idStr,
@@ -117,6 +166,13 @@ export const AuctionBoard: React.FC = () => {
             isResolved: info.isResolved,
             participantCount: Number(info.participantCount),
             creator: info.creator,
+            format,
+            usesCommitReveal: stored.usesCommitReveal,
+            revealEndTime: Number(stored.revealEndTime),
+            startPrice: Number(stored.startPricePlain),
+            floorPrice: stored.usesPlaintext ? Number(stored.reservePricePlain) : 0,
+            dutchPending: format === AUCTION_FORMAT_DUTCH
+              && (await marketAuctionContract.dutchPendingBidder(idStr)) !== ZERO_ADDRESS,
           });
           newBids[idStr] = hasBid;
         } catch (err: any) {
@@ -196,18 +252,54 @@ export const AuctionBoard: React.FC = () => {
     }
   };
 
+  // Fetch the most recent resolved auctions with their clearing price (if revealed)
+  const fetchResolvedAuctions = async () => {
+    if (!marketAuctionContract || !connected) return;
+
+    try {
+      const counter = Number(await marketAuctionContract.auctionCounter());
+      const resolved: ResolvedAuction[] = [];
+
+      for (let id = counter; id >= 1 && resolved.length < RESOLVED_AUCTIONS_SHOWN; id--) {
+        try {
+          const auction = await marketAuctionContract.auctions(id);
+          if (!auction.isResolved) continue;
+
+          const revealed = await marketAuctionContract.clearingPriceRevealed(id);
+          resolved.push({
+            auctionId: id.toString(),
+            goodType: Number(auction.goodType),
+            creator: auction.creator,
+            winner: auction.resolvedWinner,
+            clearingPrice: revealed ? (await marketAuctionContract.clearingPrices(id)).toString() : null,
+            revealPending: revealed ? false : await marketAuctionContract.clearingPriceRevealPending(id),
+          });
+        } catch (err: any) {
+          console.warn('⚠️ Error fetching resolved auction', id, ':', err.message);
+        }
+      }
+
+      setResolvedAuctions(resolved);
+    } catch (err: any) {
+      console.error('❌ Error fetching resolved auctions:', err.message);
+    }
+  };
+
   // Update time remaining
   useEffect(() => {
     const updateTimer = () => {
       const now = Math.floor(Date.now() / 1000);
       const remaining: { [key: string]: number } = {};
+      const revealRemaining: { [key: string]: number } = {};
 
       auctions.forEach((auction) => {
         const timeLeft = Math.max(0, auction.endTime - now);
         remaining[auction.auctionId] = timeLeft;
+        revealRemaining[auction.auctionId] = auction.usesCommitReveal ? Math.max(0, auction.revealEndTime - now) : 0;
       });
 
       setTimeRemaining(remaining);
+      setRevealTimeRemaining(revealRemaining);
     };
 
     updateTimer();
@@ -223,89 +315,158 @@ export const AuctionBoard: React.FC = () => {
     initializeFHE(provider, chainId);
   }, [connected, provider, chainId, initializeFHE]);
 
-  // Fetch data on mount and set up event listeners
+  // Refresh a single auction's on-chain info after a bid
+  const refreshAuction = async (auctionId: string) => {
+    if (!marketAuctionContract) return;
+
+    try {
+      const auctionInfo = await marketAuctionContract.getAuctionInfo(auctionId);
+      const pendingBidder = await marketAuctionContract.dutchPendingBidder(auctionId);
+      setAuctions(prev => prev.map(a =>
+        a.auctionId === auctionId
+          ? { ...a, participantCount: Number(auctionInfo.participantCount), dutchPending: pendingBidder !== ZERO_ADDRESS }
+          : a
+      ));
+    } catch (err: any) {
+      console.warn('⚠️ Error refreshing auction', auctionId, ':', err.message);
+    }
+  };
+
+  // Apply events pushed by the event indexer, touching only what they affect
+  const handleFeedEvents = (events: AuctionFeedEvent[]) => {
+    const isMine = (player: string | null) => !!account && player?.toLowerCase() === account.toLowerCase();
+    let refreshList = false;
+    let refreshWins = false;
+    let refreshResolved = false;
+
+    for (const event of events) {
+      if (event.contract !== 'MarketAuction' || event.auctionId === null) continue;
+      const auctionId = event.auctionId.toString();
+
+      switch (event.name) {
+        case 'AuctionCreated':
+          console.log(`🆕 Auction #${auctionId} created`);
+          refreshList = true;
+          break;
+
+        case 'BidPlaced':
+          console.log(`💰 New bid on auction #${auctionId}`);
+          if (isMine(event.player)) {
+            setUserBids(prev => ({ ...prev, [auctionId]: true }));
+          }
+          refreshAuction(auctionId);
+          break;
+
+        case 'AuctionResolved':
+          console.log(`🎉 Auction #${auctionId} resolved! Winner: ${event.args.winner}`);
+          setAuctions(prev => prev.map(a =>
+            a.auctionId === auctionId
+              ? { ...a, isActive: false, isResolved: true }
+              : a
+          ));
+          refreshWins = refreshWins || isMine(event.player);
+          refreshResolved = true;
+          break;
+
+        case 'AuctionEnded':
+          // Drops the auction from the active list
+          refreshList = true;
+          break;
+
+        case 'RewardClaimed':
+          refreshWins = refreshWins || isMine(event.player);
+          break;
+
+        case 'DutchBidDecided':
+          // Accepted bids also resolve the auction (AuctionResolved)
+          console.log(`📉 Dutch bid on auction #${auctionId} ${event.args.accepted ? 'accepted' : 'refused'}`);
+          if (isMine(event.player) && !event.args.accepted) {
+            alert(`❌ Your bid on auction #${auctionId} did not cover the price (or your gold), it was refused.`);
+          }
+          refreshAuction(auctionId);
+          break;
+
+        case 'ClearingPriceRevealed':
+          console.log(`🔓 Auction #${auctionId} clearing price revealed: ${event.args.clearingPrice}`);
+          setResolvedAuctions(prev => prev.map(a =>
+            a.auctionId === auctionId
+              ? { ...a, clearingPrice: String(event.args.clearingPrice), revealPending: false }
+              : a
+          ));
+          break;
+      }
+    }
+
+    if (refreshList) fetchAuctions();
+    if (refreshWins) fetchMyWins();
+    if (refreshResolved) fetchResolvedAuctions();
+  };
+
+  const { status: feedStatus } = useAuctionFeed({
+    enabled: connected && !!marketAuctionContract,
+    onEvents: handleFeedEvents,
+    // First subscription or reorg: state derived from earlier events may be stale
+    onResync: () => {
+      fetchAuctions();
+      fetchMyWins();
+      fetchResolvedAuctions();
+    },
+  });
+
+  // Fetch data on mount
   useEffect(() => {
     if (!marketAuctionContract || !connected) return;
 
-    // Initial load
     fetchAuctions();
     fetchMyWins();
+    fetchResolvedAuctions();
     checkAdminStatus();
+  }, [marketAuctionContract, connected, account]);
 
-    // Listen for AuctionResolved events - update wins immediately
-    const handleAuctionResolved = async (
-      auctionId: any,
-      winner: string,
-      goodType: number,
-      resolvedAt: number
-    ) => {
-      console.log(`🎉 Auction #${auctionId.toString()} resolved! Winner: ${winner}`);
-      // Only refresh wins and the specific auction
-      await fetchMyWins();
-      // Update just the resolved auction in the list
-      setAuctions(prev => prev.map(a =>
-        a.auctionId === auctionId.toString()
-          ? { ...a, isActive: false, isResolved: true }
-          : a
-      ));
-    };
-
-    // Listen for BidPlaced events - update auction participant count
-    const handleBidPlaced = async (
-      auctionId: any,
-      bidder: string,
-      timestamp: number
-    ) => {
-      console.log(`💰 New bid on auction #${auctionId.toString()}`);
-      // Lightly update just that auction's participant count
-      const auctionInfo = await marketAuctionContract.getAuctionInfo(auctionId.toString());
-      setAuctions(prev => prev.map(a =>
-        a.auctionId === auctionId.toString()
-          ? { ...a, participantCount: Number(auctionInfo.participantCount) }
-          : a
-      ));
-    };
-
-    // Set up event listeners
-    if (marketAuctionContract.on) {
-      marketAuctionContract.on('AuctionResolved', handleAuctionResolved);
-      marketAuctionContract.on('BidPlaced', handleBidPlaced);
-    }
+  // Fallback while the indexer feed is unreachable: full refresh every 60 seconds
+  useEffect(() => {
+    if (!marketAuctionContract || !connected || feedStatus === 'live') return;
 
-    // Long-tail safety poll: every 60 seconds, do a full refresh
-    // This catches any missed events and ensures eventual consistency
     const safetyInterval = setInterval(() => {
-      console.log('🔄 Safety refresh (60s interval)');
+      console.log('🔄 Safety refresh (60s interval, auction feed offline)');
       fetchAuctions();
       fetchMyWins();
+      fetchResolvedAuctions();
     }, 60000);
 
-    // Cleanup
-    return () => {
-      clearInterval(safetyInterval);
-      if (marketAuctionContract.off) {
-        marketAuctionContract.off('AuctionResolved', handleAuctionResolved);
-        marketAuctionContract.off('BidPlaced', handleBidPlaced);
-      }
-    };
-  }, [marketAuctionContract, connected, account]);
+    return () => clearInterval(safetyInterval);
+  }, [marketAuctionContract, connected, account, feedStatus]);
 
-  // Handle place bid
-  const handlePlaceBid = async (auctionId: string) => {
+  // Handle place bid (Dutch auctions: `amount` is the current price)
+  const handlePlaceBid = async (auctionId: string, amount?: number) => {
     if (!marketAuctionContract || !account) {
       alert('Contract or account not ready');
       return;
     }
 
-    const bidAmount = bidAmounts[auctionId];
+    const bidAmount = amount ?? bidAmounts[auctionId];
     if (!bidAmount || bidAmount <= 0) {
       alert('Please enter a valid bid amount');
       return;
     }
 
+    const auction = auctions.find(a => a.auctionId === auctionId);
+
     try {
       setBidding({ ...bidding, [auctionId]: true });
 
+      if (auction?.usesCommitReveal) {
+        // Saved before sending: a lost salt means a forfeited bid and deposit
+        const { commitment } = createCommitment(auctionId, bidAmount);
+        const tx = await marketAuctionContract.commitBid(auctionId, commitment);
+        await tx.wait();
+
+        setBidAmounts({ ...bidAmounts, [auctionId]: 0 });
+        alert(`✅ Bid committed with a ${auction.floorPrice} gold deposit! Come back after the auction ends to reveal it, or the deposit is forfeited.`);
+        await fetchAuctions();
+        return;
+      }
+
       let bidHandle: string;
       let bidProof: string;
 
@@ -325,7 +486,13 @@ export const AuctionBoard: React.FC = () => {
       await tx.wait();
 
       setBidAmounts({ ...bidAmounts, [auctionId]: 0 });
-      alert('✅ Bid placed successfully!');
+      if (auction?.format !== AUCTION_FORMAT_DUTCH) {
+        alert('✅ Bid placed successfully!');
+      } else if (instance) {
+        alert('✅ Bid placed! It wins once its decrypted decision confirms it covers the price.');
+      } else {
+        alert(`✅ Bought at ${bidAmount} or less!`);
+      }
       await fetchAuctions();
     } catch (err: any) {
       console.error('❌ Bid error:', err);
@@ -335,6 +502,31 @@ export const AuctionBoard: React.FC = () => {
     }
   };
 
+  // Handle commit-reveal bid reveal (between endTime and revealEndTime)
+  const handleRevealBid = async (auctionId: string) => {
+    const stored = commitments[auctionId];
+    if (!marketAuctionContract || !stored) {
+      alert('Contract not ready or no stored bid for this auction');
+      return;
+    }
+
+    try {
+      setRevealingBid({ ...revealingBid, [auctionId]: true });
+
+      const tx = await marketAuctionContract.revealBid(auctionId, stored.amount, stored.salt);
+      await tx.wait();
+
+      removeCommitment(auctionId);
+      alert(`✅ Bid of ${stored.amount} revealed!`);
+      await fetchAuctions();
+    } catch (err: any) {
+      console.error('❌ Reveal bid error:', err);
+      alert(`Error revealing bid: ${err.message}`);
+    } finally {
+      setRevealingBid({ ...revealingBid, [auctionId]: false });
+    }
+  };
+
   // Handle claim reward
   const handleClaimReward = async (auctionId: string) => {
     if (!marketAuctionContract) {
@@ -358,6 +550,38 @@ export const AuctionBoard: React.FC = () => {
     }
   };
 
+  // Handle clearing price reveal (creator, auction manager or winner)
+  const handleRevealClearingPrice = async (auctionId: string) => {
+    if (!marketAuctionContract) {
+      alert('Contract not ready');
+      return;
+    }
+
+    try {
+      setRevealing({ ...revealing, [auctionId]: true });
+
+      const tx = await marketAuctionContract.revealClearingPrice(auctionId);
+      await tx.wait();
+
+      // Plaintext auctions reveal immediately; encrypted ones wait for the KMS result
+      await fetchResolvedAuctions();
+    } catch (err: any) {
+      console.error('❌ Reveal error:', err);
+      alert(`Error revealing clearing price: ${err.message}`);
+    } finally {
+      setRevealing({ ...revealing, [auctionId]: false });
+    }
+  };
+
+  const canReveal = (auction: ResolvedAuction) => {
+    if (!account) return false;
+    const me = account.toLowerCase();
+    return isAdmin || auction.creator.toLowerCase() === me || auction.winner.toLowerCase() === me;
+  };
+
+  const formatAddress = (address: string) =>
+    address === ZERO_ADDRESS ? '—' : `${address.slice(0, 6)}...${address.slice(-4)}`;
+
   // Handle resolve auction (admin only) - OPTIMIZED RETRY APPROACH
   const handleResolveAuction = async (auctionId: string) => {
     if (!marketAuctionContract || !provider) {
@@ -373,7 +597,7 @@ export const AuctionBoard: React.FC = () => {
       const auction = auctions.find(a => a.auctionId === auctionId);
       if (auction) {
         const now = Math.floor(Date.now() / 1000);
-        const timeUntilExpiry = auction.endTime - now;
+        const timeUntilExpiry = (auction.usesCommitReveal ? auction.revealEndTime : auction.endTime) - now;
         console.log(`⏱️ Time until expiry: ${timeUntilExpiry}s`);
 
         if (timeUntilExpiry > 0) {
@@ -416,6 +640,7 @@ export const AuctionBoard: React.FC = () => {
           // Refresh UI
           await fetchAuctions();
           await fetchMyWins();
+          await fetchResolvedAuctions();
           return; // Success!
         } catch (err: any) {
           lastError = err;
@@ -452,7 +677,7 @@ export const AuctionBoard: React.FC = () => {
         errorMessage =
           '⏰ RPC sync lag detected. All frontend retries exhausted.\n\n' +
           '💡 Solution: Use CLI command:\n' +
-          'npx hardhat run scripts/resolve-auction.ts --network sepolia\n\n' +
+          `npm run shadow -- auction resolve ${auctionId} --network sepolia\n\n` +
           'The CLI bypasses RPC lag by running directly from the server.';
       } else if (err.message.includes('NotAuthorized') || err.message.includes('DEFAULT_ADMIN_ROLE')) {
         errorMessage = 'Only administrators can resolve auctions';
@@ -479,7 +704,14 @@ export const AuctionBoard: React.FC = () => {
       let reserveHandle: string;
       let reserveProof: string;
 
-      if (instance) {
+      const isDutch = createForm.format === AUCTION_FORMAT_DUTCH;
+      if (isDutch && createForm.startPrice < createForm.reservePrice) {
+        alert('The start price must be at least the reserve price');
+        return;
+      }
+
+      // Commit-reveal auctions take a public plaintext reserve
+      if (instance && !createForm.commitReveal) {
         const contractAddress = marketAuctionContract.target || marketAuctionContract.address;
         const encryptedInput = instance.createEncryptedInput(contractAddress, account);
         encryptedInput.add64(createForm.reservePrice);
@@ -498,17 +730,40 @@ export const AuctionBoard: React.FC = () => {
         reserveProof = '0x';
       }
 
-      const tx = await marketAuctionContract.createAuction(
-        createForm.goodType,
-        reserveHandle,
-        reserveProof,
-        createForm.durationSeconds
-      );
+      const tx = isDutch
+        ? await marketAuctionContract.createDutchAuction(
+          createForm.goodType,
+          reserveHandle,
+          reserveProof,
+          createForm.durationSeconds,
+          createForm.startPrice
+        )
+        : createForm.commitReveal
+        ? await marketAuctionContract.createCommitRevealAuction(
+          createForm.goodType,
+          createForm.reservePrice,
+          createForm.durationSeconds,
+          createForm.format
+        )
+        : await marketAuctionContract.createAuctionWithFormat(
+          createForm.goodType,
+          reserveHandle,
+          reserveProof,
+          createForm.durationSeconds,
+          createForm.format
+        );
       await tx.wait();
 
       alert('✅ Auction created!');
       setShowCreateForm(false);
-      setCreateForm({ goodType: 1, reservePrice: 100, durationSeconds: 300 });
+      setCreateForm({
+        goodType: 1,
+        reservePrice: 100,
+        durationSeconds: 0,
+        format: AUCTION_FORMAT_FIRST_PRICE,
+        commitReveal: false,
+        startPrice: 1000,
+      });
       await fetchAuctions();
     } catch (err: any) {
       console.error('❌ Create auction error:', err);
@@ -533,6 +788,7 @@ export const AuctionBoard: React.FC = () => {
       console.log('🔄 Manual refresh triggered');
       await fetchAuctions();
       await fetchMyWins();
+      await fetchResolvedAuctions();
     } catch (err: any) {
       console.error('❌ Refresh error:', err);
     } finally {
@@ -623,14 +879,76 @@ export const AuctionBoard: React.FC = () => {
                       boxSizing: 'border-box',
                     }}
                   >
+                    <option value={0}>Default{auctionConfig ? ` (${Math.round(auctionConfig.auctionDuration / 60)} minutes)` : ''}</option>
                     <option value={180}>3 minutes</option>
-                    <option value={300}>5 minutes (default)</option>
+                    <option value={300}>5 minutes</option>
                     <option value={600}>10 minutes</option>
                     <option value={900}>15 minutes</option>
                     <option value={1800}>30 minutes</option>
                     <option value={3600}>1 hour</option>
                   </select>
                 </div>
+
+                <div>
+                  <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '14px' }}>Pricing</label>
+                  <select
+                    value={createForm.format}
+                    onChange={(e) => {
+                      const format = parseInt(e.target.value);
+                      // Dutch bids are open offers at the current price, never sealed commitments
+                      setCreateForm({ ...createForm, format, commitReveal: format === AUCTION_FORMAT_DUTCH ? false : createForm.commitReveal });
+                    }}
+                    style={{
+                      width: '100%',
+                      padding: '8px',
+                      border: '1px solid #ddd',
+                      borderRadius: '4px',
+                      fontSize: '14px',
+                      boxSizing: 'border-box',
+                    }}
+                  >
+                    <option value={AUCTION_FORMAT_FIRST_PRICE}>First price (winner pays their bid)</option>
+                    <option value={AUCTION_FORMAT_SECOND_PRICE}>Second price (winner pays the runner-up bid)</option>
+                    <option value={AUCTION_FORMAT_DUTCH}>Dutch (price falls until someone buys)</option>
+                  </select>
+                </div>
+
+                {createForm.format === AUCTION_FORMAT_DUTCH && (
+                  <div>
+                    <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold', fontSize: '14px' }}>Start Price</label>
+                    <input
+                      type="number"
+                      min={createForm.reservePrice}
+                      value={createForm.startPrice}
+                      onChange={(e) => setCreateForm({ ...createForm, startPrice: parseInt(e.target.value) || 0 })}
+                      style={{
+                        width: '100%',
+                        padding: '8px',
+                        border: '1px solid #ddd',
+                        borderRadius: '4px',
+                        fontSize: '14px',
+                        boxSizing: 'border-box',
+                      }}
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={createForm.commitReveal}
+                      disabled={createForm.format === AUCTION_FORMAT_DUTCH}
+                      onChange={(e) => setCreateForm({ ...createForm, commitReveal: e.target.checked })}
+                    />
+                    <span>
+                      <strong>Commit-reveal bids</strong>{' '}
+                      <small style={{ color: '#666' }}>
+                        (for networks without FHE: bids stay sealed until a{auctionConfig ? ` ${Math.round(auctionConfig.revealDuration / 60)} minute` : ''} reveal window after the end)
+                      </small>
+                    </span>
+                  </label>
+                </div>
               </div>
 
               <button
@@ -657,7 +975,12 @@ export const AuctionBoard: React.FC = () => {
 
       {/* Active Auctions */}
       <div style={{ marginBottom: '30px' }}>
-        <h2 style={{ margin: 0, marginBottom: '15px' }}>🎯 Active Auctions</h2>
+        <h2 style={{ margin: 0, marginBottom: '15px' }}>
+          🎯 Active Auctions{' '}
+          <span style={{ fontSize: '12px', fontWeight: 'normal', color: feedStatus === 'live' ? '#28a745' : '#999' }}>
+            {feedStatus === 'live' ? '📡 Live' : '🔄 Polling every 60s'}
+          </span>
+        </h2>
 
         {loading ? (
           <div style={{ textAlign: 'center', color: '#666', padding: '20px' }}>Loading...</div>
@@ -680,9 +1003,18 @@ export const AuctionBoard: React.FC = () => {
                   <div>
                     <h3 style={{ margin: '0 0 8px 0' }}>{GOOD_TYPE_NAMES[auction.goodType]}</h3>
                     <div style={{ fontSize: '14px', color: '#666' }}>
+                      {auction.usesCommitReveal && (
+                        <p style={{ margin: '2px 0' }}>🔏 <strong>Commit-reveal</strong>: bids are revealed after the auction ends</p>
+                      )}
+                      {auction.format === AUCTION_FORMAT_SECOND_PRICE && (
+                        <p style={{ margin: '2px 0' }}>🥈 <strong>Second price</strong>: the winner pays the runner-up bid</p>
+                      )}
+                      {auction.format === AUCTION_FORMAT_DUTCH && (
+                        <p style={{ margin: '2px 0' }}>📉 <strong>Dutch</strong>: the first bid covering the falling price wins</p>
+                      )}
                       <p style={{ margin: '2px 0' }}>👥 Bidders: <strong>{auction.participantCount}</strong></p>
                       <p style={{ margin: '2px 0' }}>⏱️ Time: <strong style={{ color: timeRemaining[auction.auctionId] <= 60 ? '#ff6b6b' : '#000' }}>{formatTime(timeRemaining[auction.auctionId])}</strong></p>
-                      <p style={{ margin: '2px 0' }}>Status: {userBids[auction.auctionId] ? '✅ You bid' : '⭕ No bid'}</p>
+                      <p style={{ margin: '2px 0' }}>Status: {commitments[auction.auctionId] ? `🔏 Committed ${commitments[auction.auctionId].amount}` : userBids[auction.auctionId] ? '✅ You bid' : '⭕ No bid'}</p>
                     </div>
                   </div>
                   <div style={{ padding: '6px 12px', backgroundColor: '#4CAF50', color: 'white', borderRadius: '4px', fontSize: '12px', fontWeight: 'bold' }}>
@@ -690,7 +1022,19 @@ export const AuctionBoard: React.FC = () => {
                   </div>
                 </div>
 
-                {auction.isActive && (
+                {auction.isActive && auction.format === AUCTION_FORMAT_DUTCH && timeRemaining[auction.auctionId] > 0 && (
+                  <DutchPriceCurve
+                    startPrice={auction.startPrice}
+                    floorPrice={auction.floorPrice}
+                    startTime={auction.startTime}
+                    endTime={auction.endTime}
+                    pending={auction.dutchPending}
+                    buying={!!bidding[auction.auctionId]}
+                    onBuy={(price) => handlePlaceBid(auction.auctionId, price)}
+                  />
+                )}
+
+                {auction.isActive && auction.format !== AUCTION_FORMAT_DUTCH && !(auction.usesCommitReveal && timeRemaining[auction.auctionId] === 0) && (
                   <div style={{ marginTop: '12px', display: 'flex', gap: '8px' }}>
                     <input
                       type="number"
@@ -714,12 +1058,36 @@ export const AuctionBoard: React.FC = () => {
                         fontWeight: 'bold',
                       }}
                     >
-                      {bidding[auction.auctionId] ? 'Bidding...' : '🔐 Bid'}
+                      {bidding[auction.auctionId] ? 'Bidding...' : auction.usesCommitReveal ? '🔏 Commit' : '🔐 Bid'}
                     </button>
                   </div>
                 )}
 
-                {auction.isActive && isAdmin && !auction.isResolved && timeRemaining[auction.auctionId] === 0 && (
+                {auction.usesCommitReveal && commitments[auction.auctionId] && timeRemaining[auction.auctionId] === 0 && revealTimeRemaining[auction.auctionId] > 0 && (
+                  <div style={{ marginTop: '12px', padding: '12px', backgroundColor: '#e3f2fd', borderRadius: '4px', border: '1px solid #2196F3', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px' }}>
+                    <span style={{ color: '#0d47a1', fontWeight: 'bold' }}>
+                      🔓 Reveal your bid of {commitments[auction.auctionId].amount} ({formatTime(revealTimeRemaining[auction.auctionId])} left, unrevealed bids forfeit their deposit)
+                    </span>
+                    <button
+                      onClick={() => handleRevealBid(auction.auctionId)}
+                      disabled={revealingBid[auction.auctionId]}
+                      style={{
+                        padding: '8px 16px',
+                        backgroundColor: revealingBid[auction.auctionId] ? '#ccc' : '#2196F3',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: revealingBid[auction.auctionId] ? 'not-allowed' : 'pointer',
+                        fontWeight: 'bold',
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      {revealingBid[auction.auctionId] ? 'Revealing...' : '🔓 Reveal'}
+                    </button>
+                  </div>
+                )}
+
+                {auction.isActive && isAdmin && !auction.isResolved && timeRemaining[auction.auctionId] === 0 && !revealTimeRemaining[auction.auctionId] && (
                   <div style={{ marginTop: '12px', padding: '12px', backgroundColor: '#fff3cd', borderRadius: '4px', border: '1px solid #ffc107', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px' }}>
                     <span style={{ color: '#856404', fontWeight: 'bold' }}>⏳ Auction expired - ready to resolve</span>
                     <button
@@ -746,6 +1114,62 @@ export const AuctionBoard: React.FC = () => {
         )}
       </div>
 
+      {/* Resolved Auctions */}
+      <div style={{ marginBottom: '30px' }}>
+        <h2 style={{ margin: 0, marginBottom: '15px' }}>📜 Resolved Auctions</h2>
+
+        {resolvedAuctions.length === 0 ? (
+          <div style={{ textAlign: 'center', color: '#999', padding: '20px' }}>No resolved auctions yet</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+            <thead>
+              <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                <th style={{ padding: '8px' }}>Auction</th>
+                <th style={{ padding: '8px' }}>Good</th>
+                <th style={{ padding: '8px' }}>Winner</th>
+                <th style={{ padding: '8px' }}>Clearing price</th>
+              </tr>
+            </thead>
+            <tbody>
+              {resolvedAuctions.map((auction) => (
+                <tr key={auction.auctionId} style={{ borderBottom: '1px solid #eee' }}>
+                  <td style={{ padding: '8px' }}>#{auction.auctionId}</td>
+                  <td style={{ padding: '8px' }}>{GOOD_TYPE_NAMES[auction.goodType]}</td>
+                  <td style={{ padding: '8px', fontFamily: 'monospace' }}>{formatAddress(auction.winner)}</td>
+                  <td style={{ padding: '8px' }}>
+                    {auction.clearingPrice !== null ? (
+                      <strong>💰 {auction.clearingPrice}</strong>
+                    ) : auction.winner === ZERO_ADDRESS ? (
+                      <span style={{ color: '#999' }}>No bids</span>
+                    ) : auction.revealPending ? (
+                      <span style={{ color: '#856404' }}>⏳ Decrypting...</span>
+                    ) : canReveal(auction) ? (
+                      <button
+                        onClick={() => handleRevealClearingPrice(auction.auctionId)}
+                        disabled={revealing[auction.auctionId]}
+                        style={{
+                          padding: '4px 10px',
+                          backgroundColor: revealing[auction.auctionId] ? '#ccc' : '#673AB7',
+                          color: 'white',
+                          border: 'none',
+                          borderRadius: '4px',
+                          cursor: revealing[auction.auctionId] ? 'not-allowed' : 'pointer',
+                          fontWeight: 'bold',
+                        }}
+                      >
+                        {revealing[auction.auctionId] ? 'Revealing...' : '🔓 Reveal'}
+                      </button>
+                    ) : (
+                      <span style={{ color: '#999' }}>🔒 Sealed</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
       {/* My Wins */}
       <div style={{ marginBottom: '30px' }}>
         <h2 style={{ margin: 0, marginBottom: '15px' }}>🏆 My Wins</h2>
@@ -1,10 +1,12 @@
 /**
  * Auction Marketplace Component
  * Displays active auctions and allows players to place encrypted bids
+ * Live updates come from the event indexer feed (useAuctionFeed)
  */
 import React, { useState, useEffect } from 'react';
 import { useWeb3 } from '../hooks/useWeb3';
 import { useFHEEncryption } from '../hooks/useFHEEncryption';
+import { useAuctionFeed, AuctionFeedEvent } from '../hooks/useAuctionFeed';
 
 interface Auction {
   auctionId: string;
@@ -119,13 +121,50 @@ export const AuctionMarketplace: React.FC = () => {
     initializeFHE(provider, chainId);
   }, [connected, provider, chainId, initializeFHE]);
 
-  // Fetch auctions on mount and periodically
+  // Apply events pushed by the event indexer
+  const handleFeedEvents = async (events: AuctionFeedEvent[]) => {
+    const auctionEvents = events.filter(e => e.contract === 'MarketAuction' && e.auctionId !== null);
+
+    // New or finished auctions change the active list
+    if (auctionEvents.some(e => e.name === 'AuctionCreated' || e.name === 'AuctionEnded')) {
+      await fetchAuctions();
+      return;
+    }
+
+    for (const event of auctionEvents.filter(e => e.name === 'BidPlaced')) {
+      const idStr = event.auctionId!.toString();
+      if (account && event.player?.toLowerCase() === account.toLowerCase()) {
+        setUserBids(prev => ({ ...prev, [idStr]: true }));
+      }
+      try {
+        const info = await marketAuctionContract.getAuctionInfo(idStr);
+        setAuctions(prev => prev.map(a =>
+          a.auctionId === idStr ? { ...a, participantCount: Number(info.participantCount) } : a
+        ));
+      } catch (err: any) {
+        console.warn('⚠️ Error refreshing auction', idStr, ':', err.message);
+      }
+    }
+  };
+
+  const { status: feedStatus } = useAuctionFeed({
+    enabled: connected && !!marketAuctionContract,
+    onEvents: handleFeedEvents,
+    onResync: fetchAuctions,
+  });
+
+  // Fetch auctions on mount
   useEffect(() => {
     fetchAuctions();
-    // Refresh every 60 seconds to minimize page flickering
+  }, [marketAuctionContract, connected, account]);
+
+  // Fallback while the indexer feed is unreachable: refresh every 60 seconds
+  useEffect(() => {
+    if (feedStatus === 'live') return;
+
     const interval = setInterval(fetchAuctions, 60000);
     return () => clearInterval(interval);
-  }, [marketAuctionContract, connected, account]);
+  }, [marketAuctionContract, connected, account, feedStatus]);
 
   // Handle bid placement
   const handlePlaceBid = async (auctionId: string) => {
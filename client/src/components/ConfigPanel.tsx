@@ -0,0 +1,158 @@
+/**
+ * Config Panel - Edit game and auction parameters
+ * Game fields need GAME_MANAGER_ROLE on ShadowMerchants, auction fields DEFAULT_ADMIN_ROLE on MarketAuction.
+ */
+import React, { useEffect, useState } from 'react';
+import { useWeb3 } from '../hooks/useWeb3';
+import { useGameConfig, GameConfig, AuctionConfig } from '../hooks/useGameConfig';
+
+const GAME_FIELDS: { key: keyof GameConfig; label: string; hint: string }[] = [
+  { key: 'initialGold', label: 'Starting Gold', hint: 'at most 1,000,000' },
+  { key: 'energyRegenAmount', label: 'Energy per Regen', hint: '1-100' },
+  { key: 'maxPlayers', label: 'Max Players per Game', hint: '1-50' },
+  { key: 'maxRounds', label: 'Max Rounds per Game', hint: '1-100' },
+  { key: 'roundDuration', label: 'Round Duration (seconds)', hint: '60-86400' },
+];
+
+const AUCTION_FIELDS: { key: keyof AuctionConfig; label: string; hint: string }[] = [
+  { key: 'auctionDuration', label: 'Default Auction Duration (seconds)', hint: '60-86400' },
+  { key: 'maxSimultaneousAuctions', label: 'Max Unresolved Auctions', hint: '1-50' },
+  { key: 'revealDuration', label: 'Commit-Reveal Window (seconds)', hint: '60-86400' },
+];
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '14px',
+  boxSizing: 'border-box',
+};
+
+const ConfigPanelComponent: React.FC = () => {
+  const { shadowMerchantsContract, marketAuctionContract, account } = useWeb3();
+  const { gameConfig, auctionConfig, refresh } = useGameConfig();
+  const [gameForm, setGameForm] = useState<GameConfig | null>(null);
+  const [auctionForm, setAuctionForm] = useState<AuctionConfig | null>(null);
+  const [canEditGame, setCanEditGame] = useState(false);
+  const [canEditAuction, setCanEditAuction] = useState(false);
+  const [saving, setSaving] = useState<'game' | 'auction' | null>(null);
+
+  // Forms start from the live values
+  useEffect(() => setGameForm(gameConfig), [gameConfig]);
+  useEffect(() => setAuctionForm(auctionConfig), [auctionConfig]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const runCheck = async () => {
+      if (!account) return;
+      try {
+        const [isGameManager, isAuctionAdmin] = await Promise.all([
+          shadowMerchantsContract
+            ? shadowMerchantsContract.hasRole(await shadowMerchantsContract.GAME_MANAGER_ROLE(), account)
+            : false,
+          marketAuctionContract
+            ? marketAuctionContract.hasRole(await marketAuctionContract.DEFAULT_ADMIN_ROLE(), account)
+            : false,
+        ]);
+        if (mounted) {
+          setCanEditGame(Boolean(isGameManager));
+          setCanEditAuction(Boolean(isAuctionAdmin));
+        }
+      } catch (error) {
+        console.error('Error determining config permissions:', error);
+      }
+    };
+
+    void runCheck();
+    return () => {
+      mounted = false;
+    };
+  }, [shadowMerchantsContract, marketAuctionContract, account]);
+
+  const save = async (target: 'game' | 'auction') => {
+    const contract = target === 'game' ? shadowMerchantsContract : marketAuctionContract;
+    const config = target === 'game' ? gameForm : auctionForm;
+    if (!contract || !config) return;
+
+    try {
+      setSaving(target);
+      console.log(`⚙️ Updating ${target} config:`, config);
+      const tx = await contract.updateConfig(config);
+      console.log('📤 updateConfig transaction hash:', tx.hash);
+      await tx.wait();
+      console.log('✅ Config updated');
+      await refresh();
+    } catch (error: any) {
+      console.error('❌ Error updating config:', error);
+      const invalid = error?.errorName === 'InvalidConfig' || error?.data?.errorName === 'InvalidConfig';
+      alert(invalid ? '❌ A value is out of bounds (see the hints next to each field).' : `Error updating config: ${error.reason || error.message}`);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const renderForm = <T extends object>(
+    title: string,
+    target: 'game' | 'auction',
+    fields: { key: keyof T; label: string; hint: string }[],
+    form: T | null,
+    setForm: (form: T) => void,
+    canEdit: boolean,
+    role: string
+  ) => (
+    <div style={{ marginBottom: '15px' }}>
+      <h4 style={{ margin: '0 0 10px' }}>{title}</h4>
+      {!form ? (
+        <p style={{ fontSize: '13px', color: '#999' }}>⏳ Loading...</p>
+      ) : (
+        <>
+          {fields.map((field) => (
+            <div key={String(field.key)} style={{ marginBottom: '8px' }}>
+              <label style={{ display: 'block', marginBottom: '4px', fontWeight: 'bold', fontSize: '13px' }}>
+                {field.label} <small style={{ fontWeight: 'normal', color: '#999' }}>({field.hint})</small>
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={Number(form[field.key])}
+                onChange={(event) => setForm({ ...form, [field.key]: Number(event.target.value) })}
+                disabled={!canEdit || saving !== null}
+                style={{ ...inputStyle, opacity: canEdit ? 1 : 0.6 }}
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => save(target)}
+            disabled={!canEdit || saving !== null}
+            style={{
+              width: '100%',
+              padding: '10px',
+              backgroundColor: !canEdit || saving !== null ? '#ccc' : '#ff6b6b',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: !canEdit || saving !== null ? 'not-allowed' : 'pointer',
+              fontWeight: 'bold',
+            }}
+          >
+            {saving === target ? '⏳ Saving...' : canEdit ? '💾 Save' : `🔒 Requires ${role}`}
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div style={{ paddingTop: '15px', marginTop: '15px', borderTop: '1px solid #ffcccc' }}>
+      <p style={{ fontSize: '14px', color: '#666' }}>
+        Game parameters apply to games created and players joining from now on; running auctions keep their end time.
+      </p>
+      {renderForm('🎮 Game Settings', 'game', GAME_FIELDS, gameForm, setGameForm, canEditGame, 'GAME_MANAGER_ROLE')}
+      {renderForm('🔨 Auction Settings', 'auction', AUCTION_FIELDS, auctionForm, setAuctionForm, canEditAuction, 'DEFAULT_ADMIN_ROLE')}
+    </div>
+  );
+};
+
+export const ConfigPanel = React.memo(ConfigPanelComponent);
@@ -49,22 +49,27 @@ export const DiagnosticsPage: React.FC = () => {
         console.log('Contract address being used:', shadowMerchantsContract.address || shadowMerchantsContract.target);
 
         try {
-          // Try calling directly on the contract
-          const gameInfo = await shadowMerchantsContract.getGameInfo();
-          console.log('Raw response:', gameInfo);
-          console.log('Response type:', typeof gameInfo);
-          console.log('Response keys:', Object.keys(gameInfo));
+          // Try calling directly on the contract: the newest game, if any
+          const gameCount = Number(await shadowMerchantsContract.gameCounter());
+          info.gameCount = gameCount;
+          if (gameCount > 0) {
+            const gameInfo = await shadowMerchantsContract.getGameInfo(gameCount);
+            console.log('Raw response:', gameInfo);
+            console.log('Response type:', typeof gameInfo);
+            console.log('Response keys:', Object.keys(gameInfo));
 
-          info.gameInfo = {
-            currentRound: Number(gameInfo[0]),
-            gameStartTime: Number(gameInfo[1]),
-            lastRoundTime: Number(gameInfo[2]),
-            playerCount: Number(gameInfo[3]),
-            gameActive: gameInfo[4],
-            gameEnded: gameInfo[5],
-            winner: gameInfo[6],
-          };
-          info.rawGameInfo = gameInfo;
+            info.gameInfo = {
+              gameId: gameCount,
+              currentRound: Number(gameInfo[0]),
+              gameStartTime: Number(gameInfo[1]),
+              lastRoundTime: Number(gameInfo[2]),
+              playerCount: Number(gameInfo[3]),
+              gameActive: gameInfo[4],
+              gameEnded: gameInfo[5],
+              winner: gameInfo[6],
+            };
+            info.rawGameInfo = gameInfo;
+          }
         } catch (contractErr: any) {
           console.error('Contract call error:', contractErr);
           info.gameInfoError = contractErr.message;
@@ -0,0 +1,105 @@
+/**
+ * Dutch Price Curve - Falling price of a Dutch auction, with a countdown and a buy button
+ * Mirrors MarketAuction.dutchPrice: linear from the start price at startTime to the floor at endTime.
+ * The floor is the reserve for plaintext auctions and 0 when the reserve is encrypted
+ * (bids below the hidden reserve are refused once decrypted).
+ */
+import React, { useEffect, useState } from 'react';
+
+interface DutchPriceCurveProps {
+  startPrice: number;
+  floorPrice: number;
+  startTime: number; // unix seconds
+  endTime: number;
+  pending: boolean; // an encrypted bid is awaiting its decrypted decision
+  buying: boolean;
+  onBuy: (price: number) => void;
+}
+
+const WIDTH = 300;
+const HEIGHT = 90;
+const PADDING = 6;
+
+// Same integer arithmetic as MarketAuction.dutchPrice
+export const dutchPriceAt = (startPrice: number, floorPrice: number, startTime: number, endTime: number, now: number) => {
+  if (now >= endTime || startPrice <= floorPrice) return floorPrice;
+  const elapsed = Math.max(0, now - startTime);
+  return startPrice - Math.floor(((startPrice - floorPrice) * elapsed) / (endTime - startTime));
+};
+
+const DutchPriceCurveComponent: React.FC<DutchPriceCurveProps> = ({
+  startPrice,
+  floorPrice,
+  startTime,
+  endTime,
+  pending,
+  buying,
+  onBuy,
+}) => {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const price = dutchPriceAt(startPrice, floorPrice, startTime, endTime, now);
+  const secondsLeft = Math.max(0, endTime - now);
+  const progress = Math.min(1, Math.max(0, (now - startTime) / (endTime - startTime)));
+
+  // Price axis from 0 to the start price, time axis from startTime to endTime
+  const x = (fraction: number) => PADDING + fraction * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - (startPrice > 0 ? value / startPrice : 0) * (HEIGHT - 2 * PADDING);
+
+  const disabled = buying || pending || secondsLeft === 0;
+
+  return (
+    <div style={{ marginTop: '12px', padding: '12px', backgroundColor: '#f3e5f5', borderRadius: '4px', border: '1px solid #9C27B0' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '6px' }}>
+        <span style={{ fontSize: '14px', color: '#4a148c' }}>
+          📉 Price now: <strong style={{ fontSize: '18px' }}>{price}</strong>
+        </span>
+        <span style={{ fontSize: '13px', color: secondsLeft <= 60 ? '#ff6b6b' : '#666' }}>
+          ⏱️ {secondsLeft > 0
+            ? `${Math.floor(secondsLeft / 60)}:${(secondsLeft % 60).toString().padStart(2, '0')} to the floor of ${floorPrice}`
+            : 'Ended'}
+        </span>
+      </div>
+
+      <svg width="100%" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ display: 'block', backgroundColor: '#fff', borderRadius: '4px' }}>
+        <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(0)} stroke="#ddd" />
+        {/* Price already passed, then the rest of the curve */}
+        <line x1={x(0)} y1={y(startPrice)} x2={x(progress)} y2={y(price)} stroke="#ce93d8" strokeWidth={2} />
+        <line x1={x(progress)} y1={y(price)} x2={x(1)} y2={y(floorPrice)} stroke="#7B1FA2" strokeWidth={2} strokeDasharray="4 3" />
+        <circle cx={x(progress)} cy={y(price)} r={4} fill="#7B1FA2" />
+        <text x={x(0)} y={y(startPrice) + 10} fontSize="9" fill="#666">{startPrice}</text>
+        <text x={x(1)} y={y(floorPrice) - 4} fontSize="9" fill="#666" textAnchor="end">{floorPrice}</text>
+      </svg>
+
+      <button
+        onClick={() => onBuy(price)}
+        disabled={disabled}
+        style={{
+          width: '100%',
+          marginTop: '8px',
+          padding: '8px 16px',
+          backgroundColor: disabled ? '#ccc' : '#9C27B0',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: disabled ? 'not-allowed' : 'pointer',
+          fontWeight: 'bold',
+        }}
+      >
+        {buying ? 'Buying...' : pending ? '⏳ A bid is being decided...' : `🛒 Buy at ${price}`}
+      </button>
+      {floorPrice === 0 && (
+        <small style={{ display: 'block', marginTop: '4px', color: '#666' }}>
+          The reserve is encrypted: a bid below it is refused once decrypted.
+        </small>
+      )}
+    </div>
+  );
+};
+
+export const DutchPriceCurve = React.memo(DutchPriceCurveComponent);
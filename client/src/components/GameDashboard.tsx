@@ -4,12 +4,15 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useWeb3 } from '../hooks/useWeb3';
 import { useFHEEncryption } from '../hooks/useFHEEncryption';
+import { useUserDecrypt } from '../hooks/useUserDecrypt';
+import { useGameConfig } from '../hooks/useGameConfig';
 import { AuctionMarketplace } from './AuctionMarketplace';
 import { AdminPanel } from './AdminPanel';
 import { AdminUtils } from './AdminUtils';
 import { BrowserProvider, Contract, ethers } from 'ethers';
 
 interface GameInfo {
+  gameId: number;
   currentRound: number;
   gameStartTime: number;
   lastRoundTime: number;
@@ -17,22 +20,67 @@ interface GameInfo {
   gameActive: boolean;
   gameEnded: boolean;
   winner: string;
+  maxPlayers: number;
+  maxRounds: number;
+  roundDuration: number;
+  creator: string;
 }
 
-const INITIAL_GOLD = 1000;
+// Players can join during a game's first rounds only (ShadowMerchants.joinGame)
+const JOIN_ROUNDS = 3;
+
+const parseGameInfo = (gameId: number, rawInfo: any): GameInfo => ({
+  gameId,
+  currentRound: Number(rawInfo[0]),
+  gameStartTime: Number(rawInfo[1]),
+  lastRoundTime: Number(rawInfo[2]),
+  playerCount: Number(rawInfo[3]),
+  gameActive: rawInfo[4],
+  gameEnded: rawInfo[5],
+  winner: rawInfo[6],
+  maxPlayers: Number(rawInfo[7]),
+  maxRounds: Number(rawInfo[8]),
+  roundDuration: Number(rawInfo[9]),
+  creator: rawInfo[10],
+});
+
+const isJoinable = (game: GameInfo) =>
+  game.gameActive && game.currentRound <= JOIN_ROUNDS && game.playerCount < game.maxPlayers;
+
 const INITIAL_REPUTATION = 100;
 const INITIAL_ENERGY = 100;
 
+// Inventory slot i holds good type i + 1 (see ShadowMerchants.settleAuctionWin)
+const GOOD_TYPE_NAMES: { [key: number]: string } = {
+  1: '🌶️ Rare Spices',
+  2: '🧵 Fine Silk',
+  3: '💎 Precious Gems',
+  4: '🏆 Gold Bars',
+  5: '🏺 Ancient Artifacts',
+};
+
 export const GameDashboard: React.FC = () => {
   const { shadowMerchantsContract, marketAuctionContract, account, connected, provider, chainId } = useWeb3();
   const { instance, isLoading: fheLoading, error: fheError, initializeFHE, encryptStartingResources } = useFHEEncryption();
+  const {
+    decryptBalances,
+    clearDecrypted,
+    decrypted: playerResources,
+    needsSignature,
+    loading: decryptLoading,
+    error: decryptError,
+  } = useUserDecrypt();
+  const { gameConfig } = useGameConfig();
   const [gameInfo, setGameInfo] = useState<GameInfo | null>(null);
+  const [lobbyGames, setLobbyGames] = useState<GameInfo[]>([]);
+  const [selectedGameId, setSelectedGameId] = useState<number | null>(null);
+  const [currentGameId, setCurrentGameId] = useState<number>(0);
+  const [newGame, setNewGame] = useState({ maxPlayers: '', roundDuration: '', maxRounds: '' });
   const [playerInfo, setPlayerInfo] = useState<any>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
   const [fheInitialized, setFheInitialized] = useState(false);
-  const [playerResources, setPlayerResources] = useState<{ gold: number; energy: number; reputation: number } | null>(null);
   const [showAdminPanel, setShowAdminPanel] = useState(false);
   const [hasActiveAuctions, setHasActiveAuctions] = useState(false);
 
@@ -43,62 +91,52 @@ export const GameDashboard: React.FC = () => {
     }
     try {
       setLoading(true);
-      console.log('🔄 Fetching game info...');
+      console.log('🔄 Fetching game lobby...');
 
       // Try with the main contract first
-      let rawInfo;
+      let reader = shadowMerchantsContract;
+      let activeGameIds: bigint[];
       try {
-        rawInfo = await shadowMerchantsContract.getGameInfo();
+        activeGameIds = await reader.getActiveGames();
         console.log('✅ Called via MetaMask provider');
       } catch (mainErr: any) {
         console.warn('⚠️ Main provider failed, trying fallback RPC...', mainErr.message);
         // Fallback to direct RPC provider
         const fallbackProvider = new ethers.JsonRpcProvider(import.meta.env.VITE_RPC_URL);
         const contractAddr = shadowMerchantsContract.target || shadowMerchantsContract.address;
-        const fallbackContract = new Contract(
+        reader = new Contract(
           contractAddr,
           shadowMerchantsContract.interface,
           fallbackProvider
         );
-        rawInfo = await fallbackContract.getGameInfo();
+        activeGameIds = await reader.getActiveGames();
         console.log('✅ Called via fallback RPC provider');
       }
 
-      console.log('📋 RAW response:', rawInfo);
-      console.log('📋 RAW response keys:', Object.keys(rawInfo));
-      console.log('📋 Response [0] (currentRound):', rawInfo[0], '-> Number:', Number(rawInfo[0]));
-      console.log('📋 Response [4] (gameActive):', rawInfo[4]);
-      console.log('📋 Response [3] (playerCount):', rawInfo[3], '-> Number:', Number(rawInfo[3]));
-
-      const info = {
-        currentRound: Number(rawInfo[0]),
-        gameStartTime: Number(rawInfo[1]),
-        lastRoundTime: Number(rawInfo[2]),
-        playerCount: Number(rawInfo[3]),
-        gameActive: rawInfo[4],
-        gameEnded: rawInfo[5],
-        winner: rawInfo[6],
-      };
+      const lobby = await Promise.all(
+        activeGameIds.map(async (id) => parseGameInfo(Number(id), await reader.getGameInfo(id)))
+      );
+      console.log('📋 Active games:', lobby);
+      setLobbyGames(lobby);
+
+      // The player's own game comes first; otherwise keep the lobby selection
+      const ownGameId = Number(await reader.currentGame(account));
+      setCurrentGameId(ownGameId);
+      const gameId = selectedGameId ?? (ownGameId || null);
+      if (gameId === null) {
+        setGameInfo(null);
+        setPlayerInfo(null);
+        return;
+      }
+      if (selectedGameId === null) setSelectedGameId(gameId);
 
+      const info = parseGameInfo(gameId, await reader.getGameInfo(gameId));
       console.log('📊 Parsed game info:', info);
       setGameInfo(info);
 
       // Fetch player info if player has joined
       try {
-        let pInfo;
-        try {
-          pInfo = await shadowMerchantsContract.getPlayerInfo(account);
-        } catch (mainErr: any) {
-          console.warn('⚠️ Main provider failed for player info, trying fallback...', mainErr.message);
-          const fallbackProvider = new ethers.JsonRpcProvider(import.meta.env.VITE_RPC_URL);
-          const contractAddr = shadowMerchantsContract.target || shadowMerchantsContract.address;
-          const fallbackContract = new Contract(
-            contractAddr,
-            shadowMerchantsContract.interface,
-            fallbackProvider
-          );
-          pInfo = await fallbackContract.getPlayerInfo(account);
-        }
+        const pInfo = await reader.getPlayerInfo(gameId, account);
 
         console.log('👤 Player info received:', {
           isActive: pInfo[0],
@@ -142,40 +180,43 @@ export const GameDashboard: React.FC = () => {
     }
   };
 
-  const handleStartGame = useCallback(async () => {
+  const handleCreateGame = useCallback(async () => {
     if (!shadowMerchantsContract) return;
     try {
       setActionLoading(true);
-      console.log('🎮 Starting game...');
+      // Empty fields fall back to the contract defaults (0)
+      const maxPlayers = Number(newGame.maxPlayers || 0);
+      const roundDuration = Number(newGame.roundDuration || 0);
+      const maxRounds = Number(newGame.maxRounds || 0);
+      console.log('🎮 Creating game...', { maxPlayers, roundDuration, maxRounds });
+
+      const tx = await shadowMerchantsContract.createGame(maxPlayers, roundDuration, maxRounds);
+      console.log('✅ Create game transaction sent:', tx.hash);
+      const receipt = await tx.wait();
 
-      // Try with signer first
-      try {
-        const tx = await shadowMerchantsContract.startGame();
-        console.log('✅ Start game transaction sent:', tx.hash);
-        await tx.wait();
-        console.log('✅ Game started successfully!');
-      } catch (mainErr: any) {
-        console.warn('⚠️ Main provider failed, trying fallback...', mainErr.message);
-        const fallbackProvider = new ethers.JsonRpcProvider(import.meta.env.VITE_RPC_URL);
-        const fallbackContract = new Contract(
-          shadowMerchantsContract.address,
-          shadowMerchantsContract.interface,
-          fallbackProvider
-        );
-        const tx = await fallbackContract.startGame();
-        await tx.wait();
-        console.log('✅ Game started via fallback!');
+      const created = receipt?.logs
+        .map((log: any) => {
+          try {
+            return shadowMerchantsContract.interface.parseLog(log);
+          } catch {
+            return null;
+          }
+        })
+        .find((event: any) => event?.name === 'GameCreated');
+      if (created) {
+        setSelectedGameId(Number(created.args.gameId));
+        console.log('✅ Game created:', Number(created.args.gameId));
       }
 
-      await fetchGameInfo();
-      alert('✅ Game started successfully!');
+      setNewGame({ maxPlayers: '', roundDuration: '', maxRounds: '' });
+      alert(`✅ Game ${created ? `#${created.args.gameId} ` : ''}created! Pick it in the lobby to join.`);
     } catch (err: any) {
-      console.error('❌ Error starting game:', err);
-      alert(`Error starting game: ${err.message}`);
+      console.error('❌ Error creating game:', err);
+      alert(`Error creating game: ${err.reason || err.message}`);
     } finally {
       setActionLoading(false);
     }
-  }, [shadowMerchantsContract]);
+  }, [shadowMerchantsContract, newGame]);
 
   const handleJoinGame = useCallback(async () => {
     // Check if there are any active auctions FIRST (before anything else)
@@ -206,6 +247,11 @@ export const GameDashboard: React.FC = () => {
       return;
     }
 
+    if (selectedGameId === null) {
+      alert('Pick a game in the lobby first (or create one).');
+      return;
+    }
+
     // Wait for FHE to be ready
     if (fheLoading) {
       alert('⏳ FHE is still initializing. Please wait a moment and try again...');
@@ -220,7 +266,7 @@ export const GameDashboard: React.FC = () => {
 
     try {
       setActionLoading(true);
-      console.log('🎮 Attempting to join game with encrypted resources...');
+      console.log(`🎮 Attempting to join game #${selectedGameId} with encrypted resources...`);
       console.log('📍 Account:', account);
 
       // Get contract address (ethers v6 uses .target)
@@ -233,10 +279,11 @@ export const GameDashboard: React.FC = () => {
         throw new Error('Contract address not found');
       }
 
-      // Step 1: Encrypt starting resources
-      console.log('🔐 Encrypting starting resources...');
-      const encrypted = encryptStartingResources(
-        INITIAL_GOLD,
+      // Step 1: Encrypt starting resources (the configured gold, as plaintext players get)
+      const { initialGold } = await shadowMerchantsContract.config();
+      console.log('🔐 Encrypting starting resources...', { initialGold: Number(initialGold) });
+      const encrypted = await encryptStartingResources(
+        Number(initialGold),
         INITIAL_REPUTATION,
         INITIAL_ENERGY,
         contractAddress as string,
@@ -253,6 +300,7 @@ export const GameDashboard: React.FC = () => {
       console.log('🔧 Estimating gas for joinGame with encrypted inputs...');
       try {
         const gasEstimate = await shadowMerchantsContract.joinGame.estimateGas(
+          selectedGameId,
           encrypted.encryptedGold,
           encrypted.goldProof,
           encrypted.encryptedReputation,
@@ -270,6 +318,7 @@ export const GameDashboard: React.FC = () => {
 
       console.log('📤 Sending joinGame transaction with encrypted inputs...');
       const tx = await shadowMerchantsContract.joinGame(
+        selectedGameId,
         encrypted.encryptedGold,
         encrypted.goldProof,
         encrypted.encryptedReputation,
@@ -283,13 +332,6 @@ export const GameDashboard: React.FC = () => {
       const receipt = await tx.wait();
       console.log('✅ Transaction confirmed:', receipt?.transactionHash);
 
-      // Store unencrypted starting resources for display
-      setPlayerResources({
-        gold: INITIAL_GOLD,
-        energy: INITIAL_ENERGY,
-        reputation: INITIAL_REPUTATION,
-      });
-
       await fetchGameInfo();
       alert('✅ Successfully joined the game with encrypted resources!');
     } catch (err: any) {
@@ -298,7 +340,7 @@ export const GameDashboard: React.FC = () => {
     } finally {
       setActionLoading(false);
     }
-  }, [shadowMerchantsContract, account, instance, marketAuctionContract, provider]);
+  }, [shadowMerchantsContract, account, instance, marketAuctionContract, provider, selectedGameId]);
 
   const handleLeaveGame = useCallback(async () => {
     if (!shadowMerchantsContract) return;
@@ -306,7 +348,7 @@ export const GameDashboard: React.FC = () => {
       setActionLoading(true);
       const tx = await shadowMerchantsContract.leaveGame();
       await tx.wait();
-      setPlayerResources(null);
+      clearDecrypted();
       await fetchGameInfo();
       alert('Left the game!');
     } catch (err: any) {
@@ -314,7 +356,7 @@ export const GameDashboard: React.FC = () => {
     } finally {
       setActionLoading(false);
     }
-  }, [shadowMerchantsContract]);
+  }, [shadowMerchantsContract, clearDecrypted]);
 
   const handleResolveAuctions = useCallback(async () => {
     if (!marketAuctionContract) return;
@@ -401,19 +443,57 @@ export const GameDashboard: React.FC = () => {
     }
 
     return () => clearTimeout(timeoutId);
-  }, [connected, shadowMerchantsContract, account, provider, chainId, fheInitialized, fheLoading, instance]);
+  }, [connected, shadowMerchantsContract, account, provider, chainId, fheInitialized, fheLoading, instance, selectedGameId]);
+
+  // Read the player's own balances once they are in the game.
+  // Plaintext profiles load immediately; encrypted ones wait for the user to sign.
+  useEffect(() => {
+    if (!playerInfo?.hasJoined) {
+      clearDecrypted();
+      return;
+    }
+    console.log('📊 Player is in game, reading resources');
+    decryptBalances({ allowSignature: false }).catch(() => {
+      // error is surfaced by useUserDecrypt
+    });
+  }, [playerInfo, decryptBalances, clearDecrypted]);
 
-  // Update playerResources when playerInfo changes (for already-joined players)
+  // Claimed auction wins change gold and inventory; re-read them when it happens
   useEffect(() => {
-    if (playerInfo && !playerResources) {
-      console.log('📊 Player is already in game, setting resources');
-      setPlayerResources({
-        gold: INITIAL_GOLD,
-        energy: INITIAL_ENERGY,
-        reputation: INITIAL_REPUTATION,
+    if (!shadowMerchantsContract?.on || !account || !playerInfo?.hasJoined) return;
+
+    const handleInventoryCredited = (player: string, goodType: bigint) => {
+      if (player.toLowerCase() !== account.toLowerCase()) return;
+      console.log(`🎒 Inventory credited: ${GOOD_TYPE_NAMES[Number(goodType)] ?? `Good #${goodType}`}`);
+      decryptBalances({ allowSignature: false }).catch(() => {
+        // error is surfaced by useUserDecrypt
       });
+    };
+
+    shadowMerchantsContract.on('InventoryCredited', handleInventoryCredited);
+    return () => {
+      shadowMerchantsContract.off?.('InventoryCredited', handleInventoryCredited);
+    };
+  }, [shadowMerchantsContract, account, playerInfo, decryptBalances]);
+
+  const handleDecryptBalances = async () => {
+    try {
+      await decryptBalances();
+    } catch (err: any) {
+      alert(`Error decrypting balances: ${err.message}`);
     }
-  }, [playerInfo]);
+  };
+
+  const renderResource = (value: bigint | undefined) => {
+    if (value !== undefined) return value.toString();
+    if (decryptLoading) return 'Decrypting...';
+    if (needsSignature) return '🔒 Encrypted';
+    return 'Loading...';
+  };
+
+  // A game the player left keeps hasJoined set and cannot be rejoined
+  const inGame = Boolean(playerInfo?.hasJoined && playerInfo.isActive);
+  const leftGame = Boolean(playerInfo?.hasJoined && !playerInfo.isActive && !gameInfo?.gameEnded);
 
   if (!connected) {
     return <div style={{ padding: '20px' }}>Please connect your wallet first.</div>;
@@ -441,9 +521,104 @@ export const GameDashboard: React.FC = () => {
       {/* Admin Utils - Grant Roles */}
       <AdminUtils />
 
+      {/* Game Lobby */}
+      <div style={{ marginBottom: '20px' }}>
+        <h3>🏛️ Game Lobby</h3>
+        {lobbyGames.length === 0 ? (
+          <p style={{ color: '#999', fontSize: '14px' }}>No games running. Create one below.</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                <th style={{ padding: '8px' }}>Game</th>
+                <th style={{ padding: '8px' }}>Round</th>
+                <th style={{ padding: '8px' }}>Players</th>
+                <th style={{ padding: '8px' }}>Round Length</th>
+                <th style={{ padding: '8px' }}>Creator</th>
+                <th style={{ padding: '8px' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {lobbyGames.map((game) => (
+                <tr
+                  key={game.gameId}
+                  style={{
+                    borderBottom: '1px solid #eee',
+                    backgroundColor: game.gameId === selectedGameId ? '#e3f2fd' : 'transparent',
+                  }}
+                >
+                  <td style={{ padding: '8px', fontWeight: 'bold' }}>
+                    #{game.gameId}
+                    {game.gameId === currentGameId && ' (yours)'}
+                  </td>
+                  <td style={{ padding: '8px' }}>{game.currentRound}/{game.maxRounds}</td>
+                  <td style={{ padding: '8px' }}>{game.playerCount}/{game.maxPlayers}</td>
+                  <td style={{ padding: '8px' }}>{Math.round(game.roundDuration / 60)} min</td>
+                  <td style={{ padding: '8px', fontSize: '12px' }}>
+                    {game.creator.slice(0, 6)}...{game.creator.slice(-4)}
+                  </td>
+                  <td style={{ padding: '8px' }}>
+                    <button
+                      onClick={() => setSelectedGameId(game.gameId)}
+                      disabled={game.gameId === selectedGameId}
+                      style={{ padding: '4px 10px', cursor: game.gameId === selectedGameId ? 'default' : 'pointer' }}
+                    >
+                      {game.gameId === selectedGameId ? 'Selected' : isJoinable(game) ? 'Pick' : 'View'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div style={{ marginTop: '10px', display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+          <input
+            type="number"
+            min="0"
+            placeholder={`Max players (${gameConfig?.maxPlayers ?? 'default'})`}
+            value={newGame.maxPlayers}
+            onChange={(e) => setNewGame({ ...newGame, maxPlayers: e.target.value })}
+            style={{ padding: '6px', width: '140px' }}
+          />
+          <input
+            type="number"
+            min="0"
+            placeholder={`Round seconds (${gameConfig?.roundDuration ?? 'default'})`}
+            value={newGame.roundDuration}
+            onChange={(e) => setNewGame({ ...newGame, roundDuration: e.target.value })}
+            style={{ padding: '6px', width: '160px' }}
+          />
+          <input
+            type="number"
+            min="0"
+            placeholder={`Max rounds (${gameConfig?.maxRounds ?? 'default'})`}
+            value={newGame.maxRounds}
+            onChange={(e) => setNewGame({ ...newGame, maxRounds: e.target.value })}
+            style={{ padding: '6px', width: '140px' }}
+          />
+          <button
+            onClick={handleCreateGame}
+            disabled={actionLoading}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#4CAF50',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: actionLoading ? 'not-allowed' : 'pointer',
+              fontWeight: 'bold',
+              opacity: actionLoading ? 0.6 : 1,
+            }}
+          >
+            {actionLoading ? 'Creating...' : '➕ Create Game'}
+          </button>
+        </div>
+      </div>
+
       {gameInfo && (
         <div style={{ marginBottom: '20px' }}>
-          <h3>Game Status</h3>
+          <h3>Game #{gameInfo.gameId} Status</h3>
           <table style={{ width: '100%', borderCollapse: 'collapse' }}>
             <tbody>
               <tr style={{ borderBottom: '1px solid #eee' }}>
@@ -454,11 +629,11 @@ export const GameDashboard: React.FC = () => {
               </tr>
               <tr style={{ borderBottom: '1px solid #eee' }}>
                 <td style={{ padding: '8px' }}>Current Round:</td>
-                <td style={{ padding: '8px' }}>{gameInfo.currentRound}/20</td>
+                <td style={{ padding: '8px' }}>{gameInfo.currentRound}/{gameInfo.maxRounds}</td>
               </tr>
               <tr style={{ borderBottom: '1px solid #eee' }}>
                 <td style={{ padding: '8px' }}>Players:</td>
-                <td style={{ padding: '8px' }}>{gameInfo.playerCount}/20</td>
+                <td style={{ padding: '8px' }}>{gameInfo.playerCount}/{gameInfo.maxPlayers}</td>
               </tr>
               {gameInfo.gameEnded && (
                 <tr style={{ borderBottom: '1px solid #eee' }}>
@@ -468,27 +643,6 @@ export const GameDashboard: React.FC = () => {
               )}
             </tbody>
           </table>
-
-          {!gameInfo.gameActive && !gameInfo.gameEnded && (
-            <button
-              onClick={handleStartGame}
-              disabled={actionLoading}
-              style={{
-                marginTop: '10px',
-                padding: '10px 20px',
-                backgroundColor: '#4CAF50',
-                color: 'white',
-                border: 'none',
-                borderRadius: '4px',
-                cursor: actionLoading ? 'not-allowed' : 'pointer',
-                fontSize: '16px',
-                fontWeight: 'bold',
-                opacity: actionLoading ? 0.6 : 1,
-              }}
-            >
-              {actionLoading ? 'Starting...' : '🎮 Start Game'}
-            </button>
-          )}
         </div>
       )}
 
@@ -507,13 +661,19 @@ export const GameDashboard: React.FC = () => {
               <tr style={{ borderBottom: '1px solid #eee' }}>
                 <td style={{ padding: '8px' }}>💰 Gold:</td>
                 <td style={{ padding: '8px', fontWeight: 'bold', color: '#FFD700' }}>
-                  {playerResources?.gold ?? 'Loading...'}
+                  {renderResource(playerResources?.gold)}
                 </td>
               </tr>
               <tr style={{ borderBottom: '1px solid #eee' }}>
                 <td style={{ padding: '8px' }}>⚡ Energy:</td>
                 <td style={{ padding: '8px', fontWeight: 'bold', color: '#FF6B6B' }}>
-                  {playerResources?.energy ?? 'Loading...'} / 100
+                  {renderResource(playerResources?.energy)} / 100
+                </td>
+              </tr>
+              <tr style={{ borderBottom: '1px solid #eee' }}>
+                <td style={{ padding: '8px' }}>🏅 Reputation:</td>
+                <td style={{ padding: '8px', fontWeight: 'bold' }}>
+                  {renderResource(playerResources?.reputation)}
                 </td>
               </tr>
               <tr style={{ borderBottom: '1px solid #eee' }}>
@@ -526,23 +686,58 @@ export const GameDashboard: React.FC = () => {
               </tr>
             </tbody>
           </table>
+          <div style={{ marginTop: '10px' }}>
+            <button
+              onClick={handleDecryptBalances}
+              disabled={decryptLoading}
+              style={{ padding: '6px 12px', cursor: decryptLoading ? 'not-allowed' : 'pointer' }}
+            >
+              {decryptLoading ? 'Decrypting...' : '🔓 Decrypt balances'}
+            </button>
+            {playerResources && (
+              <span style={{ marginLeft: '10px', fontSize: '12px', color: '#666' }}>
+                {playerResources.mode === 'relayer' ? 'Decrypted via Relayer/KMS' : 'Plaintext fallback (mock mode)'}
+              </span>
+            )}
+            {decryptError && (
+              <div style={{ marginTop: '6px', fontSize: '12px', color: '#c00' }}>{decryptError}</div>
+            )}
+          </div>
+
+          <h4 style={{ marginTop: '20px' }}>🎒 Inventory</h4>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <tbody>
+              {Object.entries(GOOD_TYPE_NAMES).map(([goodType, name]) => (
+                <tr key={goodType} style={{ borderBottom: '1px solid #eee' }}>
+                  <td style={{ padding: '8px' }}>{name}</td>
+                  <td style={{ padding: '8px', fontWeight: 'bold' }}>
+                    {renderResource(playerResources?.inventory[Number(goodType) - 1])}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p style={{ marginTop: '6px', fontSize: '12px', color: '#666' }}>
+            Claiming an auction win pays the winning bid from your gold and adds the good here.
+          </p>
         </div>
       )}
 
       {/* Join/Leave Button */}
       <div style={{ marginTop: '20px' }}>
         <button
-          onClick={playerInfo && playerInfo.hasJoined ? handleLeaveGame : handleJoinGame}
+          onClick={inGame ? handleLeaveGame : handleJoinGame}
           disabled={
             actionLoading ||
             (gameInfo?.gameEnded ?? false) ||
-            (!playerInfo && !gameInfo?.gameActive) ||
-            (playerInfo && playerInfo.hasJoined && hasActiveAuctions)
+            (!playerInfo && !(gameInfo && isJoinable(gameInfo))) ||
+            leftGame ||
+            (inGame && hasActiveAuctions)
           }
           style={{
             padding: '10px 20px',
             backgroundColor:
-              playerInfo && playerInfo.hasJoined
+              inGame
                 ? hasActiveAuctions
                   ? '#ccc' // Grey when auctions active
                   : '#ff9800' // Orange for Leave
@@ -550,22 +745,22 @@ export const GameDashboard: React.FC = () => {
             color: 'white',
             border: 'none',
             borderRadius: '4px',
-            cursor: actionLoading || (playerInfo && playerInfo.hasJoined && hasActiveAuctions) ? 'not-allowed' : 'pointer',
+            cursor: actionLoading || (inGame && hasActiveAuctions) ? 'not-allowed' : 'pointer',
             fontSize: '16px',
             fontWeight: 'bold',
-            opacity: actionLoading || (playerInfo && playerInfo.hasJoined && hasActiveAuctions) ? 0.6 : 1,
+            opacity: actionLoading || (inGame && hasActiveAuctions) ? 0.6 : 1,
           }}
           title={
-            playerInfo && playerInfo.hasJoined && hasActiveAuctions
+            inGame && hasActiveAuctions
               ? '⏳ Cannot leave while auctions are active. Wait for all auctions to finish.'
               : ''
           }
         >
           {actionLoading
-            ? playerInfo && playerInfo.hasJoined
+            ? inGame
               ? 'Leaving...'
               : 'Joining...'
-            : playerInfo && playerInfo.hasJoined
+            : inGame
               ? hasActiveAuctions
                 ? '⏳ Leave Game (Auctions Active)'
                 : 'Leave Game'
@@ -594,10 +789,20 @@ export const GameDashboard: React.FC = () => {
           </button>
         )}
 
-        {!gameInfo?.gameActive && !playerInfo && (
-          <p style={{ marginTop: '10px', color: '#999', fontSize: '14px' }}>Game is not active. Wait for the next round to join.</p>
+        {!gameInfo && (
+          <p style={{ marginTop: '10px', color: '#999', fontSize: '14px' }}>Pick a game in the lobby or create one to join.</p>
+        )}
+        {gameInfo && !isJoinable(gameInfo) && !playerInfo && (
+          <p style={{ marginTop: '10px', color: '#999', fontSize: '14px' }}>
+            {gameInfo.gameActive
+              ? `Joining closes after round ${JOIN_ROUNDS} or when the game is full. Pick another game or create one.`
+              : 'This game has ended. Pick another game or create one.'}
+          </p>
+        )}
+        {leftGame && (
+          <p style={{ marginTop: '10px', color: '#999', fontSize: '14px' }}>You left this game and cannot rejoin it. Pick another game or create one.</p>
         )}
-        {playerInfo && playerInfo.hasJoined && hasActiveAuctions && (
+        {inGame && hasActiveAuctions && (
           <p style={{ marginTop: '10px', color: '#ff9800', fontSize: '14px' }}>⏳ Auctions are still active. Click "✓ Resolve Auctions" to finish expired auctions, then you can leave.</p>
         )}
       </div>
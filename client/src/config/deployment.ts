@@ -0,0 +1,66 @@
+/**
+ * Deployment manifest (deployments/<network>.json) bundled by vite.config.ts
+ *
+ * Contract addresses come from VITE_SHADOW_MERCHANTS_ADDRESS / VITE_MARKET_AUCTION_ADDRESS
+ * when set, otherwise from the manifest. Addresses recorded in the manifest are only used
+ * once the bytecode on the wallet's chain matches the recorded code hash.
+ */
+import { ethers } from 'ethers';
+
+export type DeployedContractName = 'ShadowMerchants' | 'MarketAuction' | 'InputVerification';
+
+export interface ContractDeployment {
+  address: string;
+  blockNumber: number;
+  transactionHash: string;
+  constructorArgs: unknown[];
+  abiHash: string;
+  codeHash: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  deployer: string;
+  deployedAt: string;
+  gatewayMode: 'direct' | 'gateway';
+  contracts: Partial<Record<DeployedContractName, ContractDeployment>>;
+}
+
+export const deployment: DeploymentManifest | null = __DEPLOYMENT_MANIFEST__;
+
+const ADDRESS_OVERRIDES: Record<DeployedContractName, string | undefined> = {
+  ShadowMerchants: import.meta.env.VITE_SHADOW_MERCHANTS_ADDRESS,
+  MarketAuction: import.meta.env.VITE_MARKET_AUCTION_ADDRESS,
+  InputVerification: import.meta.env.VITE_INPUT_VERIFICATION_ADDRESS,
+};
+
+export const getContractAddress = (name: DeployedContractName): string | undefined =>
+  ADDRESS_OVERRIDES[name] || deployment?.contracts[name]?.address;
+
+/**
+ * Throw when a manifest address is used on another chain or its bytecode changed
+ * (redeployed contracts, reset local node). Explicit env overrides are not checked.
+ */
+export const verifyDeployedContract = async (
+  provider: ethers.Provider,
+  name: DeployedContractName,
+  address: string
+): Promise<void> => {
+  const recorded = deployment?.contracts[name];
+  if (!deployment || !recorded || recorded.address.toLowerCase() !== address.toLowerCase()) return;
+
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== deployment.chainId) {
+    throw new Error(
+      `${name} is deployed on chain ${deployment.chainId} (${deployment.network}), but the wallet is on chain ${chainId}`
+    );
+  }
+
+  const code = await provider.getCode(address);
+  if (code === '0x' || ethers.keccak256(code) !== recorded.codeHash) {
+    throw new Error(
+      `${name} at ${address} does not match the ${deployment.network} deployment manifest. Redeploy or rebuild the client.`
+    );
+  }
+};
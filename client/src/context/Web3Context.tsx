@@ -6,6 +6,7 @@ import { ethers, BrowserProvider, Contract } from 'ethers';
 
 // Import ABIs from local TypeScript file
 import { SHADOW_MERCHANTS_ABI, MARKET_AUCTION_ABI } from '../abi';
+import { getContractAddress, verifyDeployedContract } from '../config/deployment';
 import { Web3Context, Web3ContextType } from './Web3Context.types';
 
 export const Web3Provider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -86,10 +87,18 @@ export const Web3Provider: React.FC<{ children: ReactNode }> = ({ children }) =>
       }
 
       // Initialize contracts
-      const shadowMerchantsAddress = import.meta.env.VITE_SHADOW_MERCHANTS_ADDRESS;
-      const marketAuctionAddress = import.meta.env.VITE_MARKET_AUCTION_ADDRESS;
+      const shadowMerchantsAddress = getContractAddress('ShadowMerchants');
+      const marketAuctionAddress = getContractAddress('MarketAuction');
       const rpcUrl = import.meta.env.VITE_RPC_URL;
 
+      // Refuse contracts whose bytecode no longer matches the deployment manifest
+      if (shadowMerchantsAddress) {
+        await verifyDeployedContract(ethersProvider, 'ShadowMerchants', shadowMerchantsAddress);
+      }
+      if (marketAuctionAddress) {
+        await verifyDeployedContract(ethersProvider, 'MarketAuction', marketAuctionAddress);
+      }
+
       // Comprehensive network and provider diagnostics
       const signerAddress = await ethersSigner.getAddress();
       const networkInfo = await ethersProvider.getNetwork();
@@ -139,11 +148,10 @@ export const Web3Provider: React.FC<{ children: ReactNode }> = ({ children }) =>
         // Test the contract call with provider (read-only calls)
         try {
           console.log('🔧 Testing contract call with provider (read-only)...');
-          const testCall = await shadowContractWithProvider.getGameInfo();
+          const activeGames = await shadowContractWithProvider.getActiveGames();
           console.log('✅ Test call succeeded:', {
-            currentRound: Number(testCall[0]),
-            gameActive: testCall[4],
-            playerCount: Number(testCall[3]),
+            gameCount: Number(await shadowContractWithProvider.gameCounter()),
+            activeGames: activeGames.map(Number),
           });
         } catch (testErr: any) {
           console.error('❌ Test call with provider failed:', testErr.message);
@@ -153,7 +161,7 @@ export const Web3Provider: React.FC<{ children: ReactNode }> = ({ children }) =>
         setShadowMerchantsContract(shadowContractWithSigner);
         console.log('✅ ShadowMerchants contract initialized:', shadowMerchantsAddress);
       } else {
-        console.error('❌ VITE_SHADOW_MERCHANTS_ADDRESS not set');
+        console.error('❌ No ShadowMerchants address (deployment manifest or VITE_SHADOW_MERCHANTS_ADDRESS)');
       }
 
       if (marketAuctionAddress) {
@@ -165,7 +173,7 @@ export const Web3Provider: React.FC<{ children: ReactNode }> = ({ children }) =>
         setMarketAuctionContract(marketContractWithSigner);
         console.log('✅ MarketAuction contract initialized:', marketAuctionAddress);
       } else {
-        console.error('❌ VITE_MARKET_AUCTION_ADDRESS not set');
+        console.error('❌ No MarketAuction address (deployment manifest or VITE_MARKET_AUCTION_ADDRESS)');
       }
 
       setConnected(true);
@@ -0,0 +1,147 @@
+import { useState, useEffect, useRef } from 'react';
+
+/**
+ * Hook subscribing to the event indexer's WebSocket feed (server/eventIndexer.ts)
+ *
+ * The indexer pushes normalized MarketAuction events (AuctionCreated, BidPlaced,
+ * AuctionResolved, AuctionEnded, RewardClaimed, ClearingPriceRevealed, DutchBidDecided)
+ * as soon as it indexes them, so boards no longer need contract listeners or tight polling.
+ *
+ * After a disconnect the hook reconnects with ?fromBlock=<last block seen + 1> and the
+ * indexer replays what was missed. onResync fires when derived state must be refetched
+ * instead: on the first connection and after a reorg.
+ */
+
+export interface AuctionFeedEvent {
+  name: string;
+  contract: 'MarketAuction' | 'ShadowMerchants';
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  auctionId: number | null;
+  player: string | null;
+  args: Record<string, string | number | boolean>; // uint256 values are decimal strings
+}
+
+type AuctionFeedMessage =
+  | { type: 'hello'; chainId: number | null; cursor: number | null }
+  | { type: 'events'; events: AuctionFeedEvent[]; cursor: number | null }
+  | { type: 'synced'; cursor: number | null }
+  | { type: 'reorg'; rolledBackTo: number; cursor: number | null }
+  | { type: 'error'; error: string };
+
+export type AuctionFeedStatus = 'connecting' | 'live' | 'offline';
+
+interface AuctionFeedOptions {
+  enabled?: boolean;
+  onEvents?: (events: AuctionFeedEvent[]) => void;
+  onResync?: () => void;
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// VITE_AUCTION_FEED_URL overrides the Vite dev proxy (/ws/auctions → indexer on :4100)
+const feedUrl = (): string => {
+  if (import.meta.env.VITE_AUCTION_FEED_URL) return import.meta.env.VITE_AUCTION_FEED_URL;
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}/ws/auctions`;
+};
+
+export const useAuctionFeed = ({ enabled = true, onEvents, onResync }: AuctionFeedOptions = {}) => {
+  const [status, setStatus] = useState<AuctionFeedStatus>('offline');
+  const [lastBlock, setLastBlock] = useState<number | null>(null);
+
+  // Handlers change on every render; keep the latest without reconnecting
+  const handlersRef = useRef({ onEvents, onResync });
+  handlersRef.current = { onEvents, onResync };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let closed = false;
+    let resumeBlock: number | null = null; // last block delivered, null before the first hello
+
+    const advance = (blockNumber: number) => {
+      resumeBlock = resumeBlock === null ? blockNumber : Math.max(resumeBlock, blockNumber);
+      setLastBlock(resumeBlock);
+    };
+
+    const handleMessage = (message: AuctionFeedMessage) => {
+      switch (message.type) {
+        case 'hello':
+          if (resumeBlock === null) {
+            // Fresh subscription: state comes from a full fetch, live events from here on
+            advance(message.cursor ?? -1);
+            setStatus('live');
+            handlersRef.current.onResync?.();
+          }
+          break;
+        case 'events':
+          if (message.events.length === 0) break;
+          advance(message.events[message.events.length - 1].blockNumber);
+          handlersRef.current.onEvents?.(message.events);
+          break;
+        case 'synced':
+          console.log('📡 [AuctionFeed] Caught up at block', message.cursor);
+          setStatus('live');
+          break;
+        case 'reorg':
+          console.warn('♻️ [AuctionFeed] Reorg: indexer rolled back to block', message.rolledBackTo);
+          resumeBlock = message.rolledBackTo;
+          setLastBlock(resumeBlock);
+          handlersRef.current.onResync?.();
+          break;
+        case 'error':
+          console.error('❌ [AuctionFeed] Server error:', message.error);
+          break;
+      }
+    };
+
+    const connect = () => {
+      const url = resumeBlock === null ? feedUrl() : `${feedUrl()}?fromBlock=${resumeBlock + 1}`;
+      setStatus('connecting');
+      socket = new WebSocket(url);
+
+      socket.onopen = () => {
+        attempts = 0;
+        console.log('📡 [AuctionFeed] Connected to', url);
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          handleMessage(JSON.parse(message.data));
+        } catch (err: any) {
+          console.error('❌ [AuctionFeed] Bad message:', err.message);
+        }
+      };
+
+      socket.onclose = () => {
+        socket = null;
+        if (closed) return;
+
+        setStatus('offline');
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+        attempts++;
+        console.warn(`⚠️ [AuctionFeed] Disconnected, reconnecting in ${delay / 1000}s`);
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+      setStatus('offline');
+    };
+  }, [enabled]);
+
+  return { status, lastBlock };
+};
@@ -0,0 +1,75 @@
+import { useState, useCallback, useEffect } from 'react';
+import { AbiCoder, hexlify, keccak256, randomBytes } from 'ethers';
+import { useWeb3 } from './useWeb3';
+
+/**
+ * Hook keeping the amounts and salts of commit-reveal bids (MarketAuction.commitBid) in localStorage
+ *
+ * The contract only stores keccak256(bidder, auctionId, amount, salt); without the salt a bid
+ * cannot be revealed and its deposit is forfeited, so it is saved before the commit transaction is sent.
+ * Entries are scoped to the chain, the auction contract and the account.
+ */
+
+export interface StoredBidCommitment {
+  amount: number;
+  salt: string; // bytes32 hex
+  commitment: string; // MarketAuction.bidCommitment(bidder, auctionId, amount, salt)
+}
+
+const STORAGE_PREFIX = 'shadow-merchants:bid-commitments';
+
+// Same encoding as MarketAuction.bidCommitment
+export const computeBidCommitment = (bidder: string, auctionId: string, amount: number, salt: string) =>
+  keccak256(AbiCoder.defaultAbiCoder().encode(
+    ['address', 'uint256', 'uint64', 'bytes32'],
+    [bidder, auctionId, amount, salt]
+  ));
+
+export const useBidCommitments = () => {
+  const { marketAuctionContract, account, chainId } = useWeb3();
+  const contractAddress = marketAuctionContract ? String(marketAuctionContract.target) : null;
+  const storageKey = account && contractAddress && chainId
+    ? `${STORAGE_PREFIX}:${chainId}:${contractAddress.toLowerCase()}:${account.toLowerCase()}`
+    : null;
+
+  const [commitments, setCommitments] = useState<{ [auctionId: string]: StoredBidCommitment }>({});
+
+  useEffect(() => {
+    if (!storageKey) {
+      setCommitments({});
+      return;
+    }
+    try {
+      setCommitments(JSON.parse(localStorage.getItem(storageKey) || '{}'));
+    } catch (error) {
+      console.error('❌ Unreadable stored bid commitments, ignoring them:', error);
+      setCommitments({});
+    }
+  }, [storageKey]);
+
+  const persist = useCallback((next: { [auctionId: string]: StoredBidCommitment }) => {
+    if (storageKey) localStorage.setItem(storageKey, JSON.stringify(next));
+    setCommitments(next);
+  }, [storageKey]);
+
+  /**
+   * Draw a fresh salt for `amount` and store it for `auctionId` (replacing an earlier commitment)
+   */
+  const createCommitment = useCallback((auctionId: string, amount: number): StoredBidCommitment => {
+    if (!storageKey || !account) throw new Error('Connect a wallet before committing a bid');
+    const salt = hexlify(randomBytes(32));
+    const stored = { amount, salt, commitment: computeBidCommitment(account, auctionId, amount, salt) };
+
+    const current = JSON.parse(localStorage.getItem(storageKey) || '{}');
+    persist({ ...current, [auctionId]: stored });
+    return stored;
+  }, [storageKey, account, persist]);
+
+  const removeCommitment = useCallback((auctionId: string) => {
+    const rest = { ...commitments };
+    delete rest[auctionId];
+    persist(rest);
+  }, [commitments, persist]);
+
+  return { commitments, createCommitment, removeCommitment };
+};
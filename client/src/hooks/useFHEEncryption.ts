@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import { BrowserProvider } from 'ethers';
+import { BrowserProvider, getAddress } from 'ethers';
 
 /**
  * Hook to manage FHEVM encryption following Zama's 5-Step Architecture
@@ -14,7 +14,7 @@ import { BrowserProvider } from 'ethers';
  */
 
 interface FHEInstance {
-  encrypt64: (value: number | bigint) => Promise<any>;
+  encrypt64: (value: number | bigint, contractAddress: string, userAddress: string) => Promise<any>;
   createEncryptedInput: (contractAddress: string, userAddress: string) => any;
 }
 
@@ -24,6 +24,18 @@ interface EncryptionResult {
   originalValue: string;
 }
 
+type EncryptedInputType = 'bool' | 'uint8' | 'uint16' | 'uint32' | 'uint64' | 'address';
+
+interface TypedInput {
+  type: EncryptedInputType;
+  value: number | bigint | boolean | string;
+}
+
+interface EncryptedInputResult {
+  handles: string[];
+  inputProof: string;
+}
+
 export const useFHEEncryption = () => {
   const [instance, setInstance] = useState<FHEInstance | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -51,9 +63,9 @@ export const useFHEEncryption = () => {
 
       // Create proxy instance that calls backend server
       const proxyInstance: FHEInstance = {
-        encrypt64: async (value: number | bigint) => {
+        encrypt64: async (value: number | bigint, contractAddress: string, userAddress: string) => {
           console.log('🔐 [FHE Hook] Encrypting uint64:', value);
-          const encrypted = await encryptViaBackend(value);
+          const encrypted = await encryptViaBackend(value, contractAddress, userAddress);
           return encrypted;
         },
         createEncryptedInput: (contractAddress: string, userAddress: string) => {
@@ -62,46 +74,27 @@ export const useFHEEncryption = () => {
             user: userAddress,
           });
 
-          const inputs: any[] = [];
+          const inputs: TypedInput[] = [];
+          const add = (type: EncryptedInputType) => (val: number | bigint | boolean | string) => {
+            inputs.push({ type, value: val });
+            return builder;
+          };
 
-          return {
-            add64: (val: number) => {
-              inputs.push({ type: 'uint64', value: val });
-              return this;
-            },
-            add16: (val: number) => {
-              inputs.push({ type: 'uint16', value: val });
-              return this;
-            },
-            add8: (val: number) => {
-              inputs.push({ type: 'uint8', value: val });
-              return this;
-            },
-            encrypt: async () => {
+          const builder = {
+            addBool: add('bool'),
+            add8: add('uint8'),
+            add16: add('uint16'),
+            add32: add('uint32'),
+            add64: add('uint64'),
+            addAddress: add('address'),
+            encrypt: async (): Promise<EncryptedInputResult> => {
               console.log('🔐 [FHE Hook] Encrypting', inputs.length, 'values via backend Relayer...');
-              const handles: string[] = [];
-              const proofs: string[] = [];
-
-              for (const inp of inputs) {
-                const encrypted = await encryptViaBackend(inp.value);
-                handles.push(encrypted.handle);
-                proofs.push(encrypted.proof);
-              }
-
-              // Return first handle/proof for single value, or combined for multiple
-              if (inputs.length === 1) {
-                return {
-                  handles: [handles[0]],
-                  inputProof: proofs[0],
-                };
-              } else {
-                return {
-                  handles: handles,
-                  inputProof: proofs[0], // Or combine proofs if needed
-                };
-              }
+              // One round-trip: every handle shares the same input proof
+              return encryptInputViaBackend(inputs, contractAddress, userAddress);
             },
           };
+
+          return builder;
         },
       };
 
@@ -119,9 +112,13 @@ export const useFHEEncryption = () => {
 
   /**
    * Call backend Relayer API for Step 1 encryption
-   * Sends plaintext → gets ciphertext + ZK proof
+   * Sends plaintext → gets ciphertext + ZK proof bound to the target contract and connected account
    */
-  const encryptViaBackend = async (value: number | bigint): Promise<EncryptionResult> => {
+  const encryptViaBackend = async (
+    value: number | bigint,
+    contractAddress: string,
+    userAddress: string
+  ): Promise<EncryptionResult> => {
     try {
       // Use relative URL so Vite proxy can forward to backend
       // In dev: Vite proxies /api/* to http://localhost:4000
@@ -129,7 +126,12 @@ export const useFHEEncryption = () => {
       const response = await fetch('/api/encrypt/uint64', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ value: value.toString() }),
+        body: JSON.stringify({
+          value: value.toString(),
+          // Backend requires EIP-55 checksummed addresses
+          contractAddress: getAddress(contractAddress),
+          userAddress: getAddress(userAddress),
+        }),
       });
 
       if (!response.ok) {
@@ -158,9 +160,54 @@ export const useFHEEncryption = () => {
     }
   };
 
+  /**
+   * Call backend Relayer API to encrypt several typed values in one input
+   * Returns one handle per value plus a single shared ZK proof
+   */
+  const encryptInputViaBackend = async (
+    inputs: TypedInput[],
+    contractAddress: string,
+    userAddress: string
+  ): Promise<EncryptedInputResult> => {
+    try {
+      const response = await fetch('/api/encrypt/input', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          values: inputs.map((inp) => ({
+            type: inp.type,
+            value: typeof inp.value === 'bigint' ? inp.value.toString() : inp.value,
+          })),
+          // Backend requires EIP-55 checksummed addresses
+          contractAddress: getAddress(contractAddress),
+          userAddress: getAddress(userAddress),
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      console.log('✅ [Relayer] Step 1 encryption successful');
+      console.log('   Handles received:', data.handles.length);
+      console.log('   Shared proof received:', data.proof.substring(0, 20) + '...');
+
+      return {
+        handles: data.handles,
+        inputProof: data.proof,
+      };
+    } catch (err: any) {
+      console.error('❌ [Relayer] Encryption error:', err.message);
+      throw err;
+    }
+  };
+
   /**
    * Encrypt starting resources for game initialization
-   * Returns encrypted gold, reputation, energy + proofs
+   * Matches joinGame(euint64 gold, euint16 reputation, euint8 energy) in one round-trip;
+   * the three handles share one input proof
    */
   const encryptStartingResources = async (
     gold: number,
@@ -176,20 +223,25 @@ export const useFHEEncryption = () => {
     try {
       console.log('🔐 [FHE Hook] Encrypting starting resources via Relayer...');
 
-      // Encrypt each resource value
-      const goldEncrypted = await encryptViaBackend(gold);
-      const reputationEncrypted = await encryptViaBackend(reputation);
-      const energyEncrypted = await encryptViaBackend(energy);
+      const { handles, inputProof } = await encryptInputViaBackend(
+        [
+          { type: 'uint64', value: gold },
+          { type: 'uint16', value: reputation },
+          { type: 'uint8', value: energy },
+        ],
+        contractAddress,
+        userAddress
+      );
 
       console.log('✅ [FHE Hook] All resources encrypted');
 
       return {
-        encryptedGold: goldEncrypted.handle,
-        goldProof: goldEncrypted.proof,
-        encryptedReputation: reputationEncrypted.handle,
-        reputationProof: reputationEncrypted.proof,
-        encryptedEnergy: energyEncrypted.handle,
-        energyProof: energyEncrypted.proof,
+        encryptedGold: handles[0] as string,
+        goldProof: inputProof,
+        encryptedReputation: handles[1] as string,
+        reputationProof: inputProof,
+        encryptedEnergy: handles[2] as string,
+        energyProof: inputProof,
       };
     } catch (err: any) {
       console.error('❌ [FHE Hook] Resource encryption failed:', err);
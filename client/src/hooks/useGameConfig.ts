@@ -0,0 +1,63 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useWeb3 } from './useWeb3';
+
+/**
+ * Hook reading the live game and auction parameters (ShadowMerchants.config, MarketAuction.config)
+ *
+ * Game managers and admins change them with updateConfig, so components read them here
+ * instead of duplicating the contract defaults.
+ */
+
+export interface GameConfig {
+  initialGold: number;
+  energyRegenAmount: number;
+  maxPlayers: number;
+  maxRounds: number;
+  roundDuration: number; // seconds
+}
+
+export interface AuctionConfig {
+  auctionDuration: number; // seconds
+  maxSimultaneousAuctions: number;
+  revealDuration: number; // seconds, commit-reveal auctions
+}
+
+export const useGameConfig = () => {
+  const { shadowMerchantsContract, marketAuctionContract } = useWeb3();
+  const [gameConfig, setGameConfig] = useState<GameConfig | null>(null);
+  const [auctionConfig, setAuctionConfig] = useState<AuctionConfig | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setError(null);
+      if (shadowMerchantsContract) {
+        const config = await shadowMerchantsContract.config();
+        setGameConfig({
+          initialGold: Number(config.initialGold),
+          energyRegenAmount: Number(config.energyRegenAmount),
+          maxPlayers: Number(config.maxPlayers),
+          maxRounds: Number(config.maxRounds),
+          roundDuration: Number(config.roundDuration),
+        });
+      }
+      if (marketAuctionContract) {
+        const config = await marketAuctionContract.config();
+        setAuctionConfig({
+          auctionDuration: Number(config.auctionDuration),
+          maxSimultaneousAuctions: Number(config.maxSimultaneousAuctions),
+          revealDuration: Number(config.revealDuration),
+        });
+      }
+    } catch (err: any) {
+      console.error('❌ Error reading config:', err);
+      setError(err.message || 'Failed to read config');
+    }
+  }, [shadowMerchantsContract, marketAuctionContract]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { gameConfig, auctionConfig, error, refresh };
+};
@@ -0,0 +1,217 @@
+import { useState, useCallback } from 'react';
+import { ZeroHash, getAddress } from 'ethers';
+import { useWeb3 } from './useWeb3';
+
+/**
+ * Hook implementing Step 5 of Zama's Architecture: User decrypts via Relayer/KMS
+ *
+ * 1. Read the player's encrypted handles (players[gameId][user], getInventory(gameId, user),
+ *    bids[auctionId][user]); gameId defaults to the player's current game
+ * 2. Backend generates a keypair + EIP-712 user-decryption request
+ * 3. Wallet signs the EIP-712 request
+ * 4. Backend asks the Relayer/KMS to decrypt the handles for the signer
+ *
+ * Plaintext fallback (mock mode): profiles/bids with usesPlaintext=true expose
+ * goldPlain, reputationPlain, energyPlain, the plaintext inventory and amountPlain,
+ * which are read directly without any signature.
+ */
+
+export interface DecryptedBalances {
+  gold: bigint;
+  reputation: bigint;
+  energy: bigint;
+  inventory: bigint[]; // units held per inventory slot (slot = goodType - 1)
+  bidAmount: bigint | null; // bids[auctionId][user].amount, null when no auctionId/bid
+  mode: 'plaintext' | 'relayer';
+}
+
+interface DecryptOptions {
+  auctionId?: number | bigint;
+  gameId?: number | bigint; // default: currentGame(user)
+  // When false, stop before prompting the wallet if encrypted handles remain
+  allowSignature?: boolean;
+}
+
+interface HandleSlot {
+  key: 'gold' | 'reputation' | 'energy' | 'inventory' | 'bidAmount';
+  handle: string;
+  contractAddress: string;
+  inventorySlot?: number;
+}
+
+export const useUserDecrypt = () => {
+  const { account, signer, chainId, shadowMerchantsContract, marketAuctionContract } = useWeb3();
+  const [decrypted, setDecrypted] = useState<DecryptedBalances | null>(null);
+  const [needsSignature, setNeedsSignature] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Decrypt the connected player's gold, reputation, energy, inventory and (optionally) own bid
+   */
+  const decryptBalances = useCallback(async (options: DecryptOptions = {}): Promise<DecryptedBalances | null> => {
+    const { auctionId, gameId: requestedGameId, allowSignature = true } = options;
+
+    if (!account || !shadowMerchantsContract) {
+      throw new Error('Wallet or contract not ready');
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const userAddress = getAddress(account);
+      const shadowAddress = getAddress(shadowMerchantsContract.target || shadowMerchantsContract.address);
+
+      const gameId = requestedGameId ?? await shadowMerchantsContract.currentGame(userAddress);
+      console.log('🔓 [Step 5] Reading encrypted state for', userAddress, 'in game', gameId.toString());
+      const player = await shadowMerchantsContract.players(gameId, userAddress);
+
+      let bid: any = null;
+      let auctionAddress: string | null = null;
+      if (auctionId !== undefined && marketAuctionContract) {
+        auctionAddress = getAddress(marketAuctionContract.target || marketAuctionContract.address);
+        bid = await marketAuctionContract.bids(auctionId, userAddress);
+      }
+
+      const result: DecryptedBalances = {
+        gold: 0n,
+        reputation: 0n,
+        energy: 0n,
+        inventory: [],
+        bidAmount: null,
+        mode: 'plaintext',
+      };
+      const slots: HandleSlot[] = [];
+
+      // Plaintext fallback fields need no decryption
+      if (player.usesPlaintext) {
+        const resources = await shadowMerchantsContract.getPlaintextResources(gameId, userAddress);
+        result.gold = BigInt(player.goldPlain);
+        result.reputation = BigInt(player.reputationPlain);
+        result.energy = BigInt(player.energyPlain);
+        result.inventory = Array.from(resources.inventory, (amount: any) => BigInt(amount));
+      } else {
+        const inventoryHandles: string[] = Array.from(await shadowMerchantsContract.getInventory(gameId, userAddress));
+        result.inventory = inventoryHandles.map(() => 0n);
+        slots.push(
+          { key: 'gold', handle: player.gold, contractAddress: shadowAddress },
+          { key: 'reputation', handle: player.reputation, contractAddress: shadowAddress },
+          { key: 'energy', handle: player.energy, contractAddress: shadowAddress },
+          ...inventoryHandles.map((handle, inventorySlot): HandleSlot => ({
+            key: 'inventory',
+            handle,
+            contractAddress: shadowAddress,
+            inventorySlot,
+          })),
+        );
+      }
+
+      if (bid && auctionAddress && (bid.isActive || bid.amount !== ZeroHash)) {
+        if (bid.usesPlaintext) {
+          result.bidAmount = BigInt(bid.amountPlain);
+        } else if (bid.amount !== ZeroHash) {
+          slots.push({ key: 'bidAmount', handle: bid.amount, contractAddress: auctionAddress });
+        }
+      }
+
+      // Uninitialized handles decrypt to zero
+      const encryptedSlots = slots.filter((slot) => slot.handle !== ZeroHash);
+
+      if (encryptedSlots.length > 0) {
+        if (!allowSignature) {
+          console.log('ℹ️ [Step 5] Encrypted balances found, waiting for user to sign');
+          setNeedsSignature(true);
+          return null;
+        }
+        if (!signer) {
+          throw new Error('Wallet signer not available');
+        }
+
+        const contractAddresses = Array.from(new Set(encryptedSlots.map((slot) => slot.contractAddress)));
+
+        // Backend generates the keypair and the EIP-712 request
+        const requestResponse = await fetch('/api/decrypt/user/request', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ contractAddresses, userAddress, chainId }),
+        });
+        const request = await requestResponse.json().catch(() => ({}));
+        if (!requestResponse.ok || !request.success) {
+          throw new Error(request.error || `HTTP ${requestResponse.status}`);
+        }
+
+        // Wallet signs the user-decryption authorization (ethers adds EIP712Domain itself)
+        console.log('✍️ [Step 5] Requesting wallet signature for user decryption...');
+        const { EIP712Domain: _domainType, ...types } = request.eip712.types;
+        const signature = await signer.signTypedData(request.eip712.domain, types, request.eip712.message);
+
+        const decryptResponse = await fetch('/api/decrypt/user', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            requestId: request.requestId,
+            signature,
+            handles: encryptedSlots.map(({ handle, contractAddress }) => ({ handle, contractAddress })),
+          }),
+        });
+        const data = await decryptResponse.json().catch(() => ({}));
+        if (!decryptResponse.ok || !data.success) {
+          throw new Error(data.error || `HTTP ${decryptResponse.status}`);
+        }
+
+        for (const slot of encryptedSlots) {
+          const value = data.values[slot.handle.toLowerCase()];
+          if (value === undefined) {
+            throw new Error(`Relayer did not return a value for ${slot.key}`);
+          }
+          if (slot.key === 'inventory') {
+            result.inventory[slot.inventorySlot!] = BigInt(value);
+          } else {
+            result[slot.key] = BigInt(value);
+          }
+        }
+        result.mode = 'relayer';
+      }
+
+      console.log('✅ [Step 5 ✓] Balances decrypted:', {
+        gold: result.gold.toString(),
+        reputation: result.reputation.toString(),
+        energy: result.energy.toString(),
+        inventory: result.inventory.map((amount) => amount.toString()),
+        bidAmount: result.bidAmount?.toString() ?? null,
+        mode: result.mode,
+      });
+
+      setNeedsSignature(false);
+      setDecrypted(result);
+      return result;
+    } catch (err: any) {
+      console.error('❌ [Step 5 ✗] User decryption failed:', err.message);
+      setError(err.message || 'User decryption failed');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [account, signer, chainId, shadowMerchantsContract, marketAuctionContract]);
+
+  /**
+   * Forget decrypted values (e.g. after leaving the game)
+   */
+  const clearDecrypted = useCallback(() => {
+    setDecrypted(null);
+    setNeedsSignature(false);
+    setError(null);
+  }, []);
+
+  return {
+    decryptBalances,
+    clearDecrypted,
+    decrypted,
+    needsSignature,
+    loading,
+    error,
+  };
+};
+
+export default useUserDecrypt;
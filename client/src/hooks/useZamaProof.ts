@@ -20,18 +20,24 @@ export const useZamaProof = () => {
 
   /**
    * Generate proof for a value (auction creation or bid)
+   * The proof is bound to the auction contract and the connected account
    */
   const generateProof = useCallback(
-    async (value: number | bigint, type: "reserve" | "bid" = "bid") => {
+    async (
+      value: number | bigint,
+      contractAddress: string,
+      userAddress: string,
+      type: "reserve" | "bid" = "bid"
+    ) => {
       setState({ loading: true, error: null, encryptedValue: null });
 
       try {
         let encrypted: EncryptedValue;
 
         if (type === "reserve") {
-          encrypted = await zamaGateway.generateReservePriceProof(value);
+          encrypted = await zamaGateway.generateReservePriceProof(value, contractAddress, userAddress);
         } else {
-          encrypted = await zamaGateway.generateBidProof(value);
+          encrypted = await zamaGateway.generateBidProof(value, contractAddress, userAddress);
         }
 
         setState({
@@ -58,11 +64,11 @@ export const useZamaProof = () => {
    * Generate proofs for multiple values
    */
   const generateBatchProofs = useCallback(
-    async (values: (number | bigint)[]) => {
+    async (values: (number | bigint)[], contractAddress: string, userAddress: string) => {
       setState({ loading: true, error: null, encryptedValue: null });
 
       try {
-        const encrypted = await zamaGateway.encryptBatch(values);
+        const encrypted = await zamaGateway.encryptBatch(values, contractAddress, userAddress);
 
         setState({
           loading: false,
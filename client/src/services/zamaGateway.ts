@@ -1,8 +1,13 @@
 /**
  * Zama Gateway API Service
  * Calls local Node.js backend API for FHEVM encryption using real fhevmjs SDK
+ *
+ * Every encrypted input is bound to a (contract, user) pair: pass the target
+ * contract and the connected account, otherwise proofs fail in FHE.fromExternal.
  */
 
+import { getAddress } from "ethers";
+
 export interface ProofResponse {
   data: string; // Encrypted value handle (bytes32)
   proof: string; // ZK proof (bytes)
@@ -16,6 +21,24 @@ export interface EncryptedValue {
   proofHex?: string; // Hex format for Etherscan (0x...)
 }
 
+export type EncryptedInputType =
+  | "bool"
+  | "uint8"
+  | "uint16"
+  | "uint32"
+  | "uint64"
+  | "address";
+
+export interface TypedInputValue {
+  type: EncryptedInputType;
+  value: number | bigint | boolean | string;
+}
+
+export interface EncryptedInput {
+  handles: string[]; // One handle per input value, in request order
+  inputProof: string; // Single ZK proof shared by all handles
+}
+
 class ZamaGatewayService {
   // Local backend server endpoint
   private backendUrl = "http://localhost:4000";
@@ -27,7 +50,11 @@ class ZamaGatewayService {
   /**
    * Call local backend to encrypt a value using real fhevmjs SDK
    */
-  async encryptUint64(value: number | bigint): Promise<EncryptedValue> {
+  async encryptUint64(
+    value: number | bigint,
+    contractAddress: string,
+    userAddress: string
+  ): Promise<EncryptedValue> {
     try {
       console.log(`🔐 Encrypting uint64 value via backend: ${value}`);
 
@@ -41,6 +68,7 @@ class ZamaGatewayService {
         },
         body: JSON.stringify({
           value: bigintValue.toString(),
+          ...this.target(contractAddress, userAddress),
         }),
       });
 
@@ -90,7 +118,9 @@ class ZamaGatewayService {
    * Batch encrypt multiple values
    */
   async encryptBatch(
-    values: (number | bigint)[]
+    values: (number | bigint)[],
+    contractAddress: string,
+    userAddress: string
   ): Promise<EncryptedValue[]> {
     console.log(`🔐 Encrypting ${values.length} values...`);
 
@@ -101,6 +131,7 @@ class ZamaGatewayService {
       },
       body: JSON.stringify({
         values: values.map((v) => BigInt(v).toString()),
+        ...this.target(contractAddress, userAddress),
       }),
     });
 
@@ -129,22 +160,80 @@ class ZamaGatewayService {
     return results;
   }
 
+  /**
+   * Encrypt several typed values into one input bound to a contract and user
+   * All handles share a single proof (relayer SDK add8/add16/add64 chain)
+   */
+  async encryptInput(
+    values: TypedInputValue[],
+    contractAddress: string,
+    userAddress: string
+  ): Promise<EncryptedInput> {
+    console.log(
+      `🔐 Encrypting ${values.length} typed values (${values
+        .map((v) => v.type)
+        .join(", ")}) via backend`
+    );
+
+    const response = await fetch(`${this.backendUrl}/api/encrypt/input`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        values: values.map((v) => ({
+          type: v.type,
+          value: typeof v.value === "bigint" ? v.value.toString() : v.value,
+        })),
+        ...this.target(contractAddress, userAddress),
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Backend error: ${response.status}`);
+    }
+
+    console.log(`✅ Encrypted ${data.handles.length} values with one shared proof`);
+    return {
+      handles: data.handles,
+      inputProof: data.proof,
+    };
+  }
+
   /**
    * Generate proof for auction creation (reserve price)
    */
   async generateReservePriceProof(
-    reservePrice: number | bigint
+    reservePrice: number | bigint,
+    auctionContractAddress: string,
+    creatorAddress: string
   ): Promise<EncryptedValue> {
     console.log(`📊 Generating reserve price proof for: ${reservePrice}`);
-    return this.encryptUint64(reservePrice);
+    return this.encryptUint64(reservePrice, auctionContractAddress, creatorAddress);
   }
 
   /**
    * Generate proof for bid placement
    */
-  async generateBidProof(bidAmount: number | bigint): Promise<EncryptedValue> {
+  async generateBidProof(
+    bidAmount: number | bigint,
+    auctionContractAddress: string,
+    bidderAddress: string
+  ): Promise<EncryptedValue> {
     console.log(`💰 Generating bid proof for amount: ${bidAmount}`);
-    return this.encryptUint64(bidAmount);
+    return this.encryptUint64(bidAmount, auctionContractAddress, bidderAddress);
+  }
+
+  /**
+   * Normalize the (contract, user) pair; the backend requires EIP-55 checksums
+   */
+  private target(contractAddress: string, userAddress: string) {
+    return {
+      contractAddress: getAddress(contractAddress),
+      userAddress: getAddress(userAddress),
+    };
   }
 
   /**
@@ -188,11 +277,15 @@ class ZamaGatewayService {
   /**
    * Encrypt value and display formatted output for Etherscan Write Contract
    * @param value - The plaintext value to encrypt
+   * @param contractAddress - Contract that will receive the input
+   * @param userAddress - Account that will send the transaction
    * @param description - Description of what is being encrypted
    * @returns EncryptedValue with hex formatting
    */
   async encryptForEtherscan(
     value: number | bigint,
+    contractAddress: string,
+    userAddress: string,
     description: string = "Value"
   ): Promise<EncryptedValue> {
     console.log("");
@@ -201,7 +294,7 @@ class ZamaGatewayService {
     console.log("═══════════════════════════════════════════════════════════");
     console.log("");
 
-    const encrypted = await this.encryptUint64(value);
+    const encrypted = await this.encryptUint64(value, contractAddress, userAddress);
 
     console.log("");
     console.log("📋 COPY THESE VALUES TO ETHERSCAN:");
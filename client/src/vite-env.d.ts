@@ -0,0 +1,4 @@
+/// <reference types="vite/client" />
+
+// Injected by vite.config.ts from deployments/<VITE_DEPLOYMENT_NETWORK>.json
+declare const __DEPLOYMENT_MANIFEST__: import('./config/deployment').DeploymentManifest | null;
@@ -1,7 +1,22 @@
-import { defineConfig } from 'vite'
+import fs from 'fs'
+import { fileURLToPath } from 'url'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
-export default defineConfig({
+/**
+ * Deployment manifest written by `npx hardhat shadow:deploy` (deployments/<network>.json),
+ * selected with VITE_DEPLOYMENT_NETWORK (default: localhost). VITE_*_ADDRESS still override it.
+ */
+const loadDeployment = (network: string): unknown => {
+  const file = fileURLToPath(new URL(`../deployments/${network}.json`, import.meta.url))
+  if (!fs.existsSync(file)) {
+    console.warn(`⚠️ No deployment manifest at ${file}, contract addresses must come from VITE_*_ADDRESS`)
+    return null
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
+
+export default defineConfig(({ mode }) => ({
   plugins: [react()],
   server: {
     port: 3000,
@@ -13,6 +28,23 @@ export default defineConfig({
       protocol: 'http',
     },
     proxy: {
+      // Event indexer (server/eventIndexer.ts)
+      '/api/auctions': {
+        target: 'http://localhost:4100',
+        changeOrigin: true,
+      },
+      '/api/players': {
+        target: 'http://localhost:4100',
+        changeOrigin: true,
+      },
+      '/api/indexer': {
+        target: 'http://localhost:4100',
+        changeOrigin: true,
+      },
+      '/ws/auctions': {
+        target: 'ws://localhost:4100',
+        ws: true,
+      },
       '/api': {
         target: 'http://localhost:4000',
         changeOrigin: true,
@@ -26,5 +58,8 @@ export default defineConfig({
   },
   define: {
     'process.env': {},
+    __DEPLOYMENT_MANIFEST__: JSON.stringify(
+      loadDeployment(loadEnv(mode, process.cwd()).VITE_DEPLOYMENT_NETWORK || 'localhost')
+    ),
   },
-})
+}))
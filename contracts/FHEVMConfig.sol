@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, IKMSVerifier} from "@fhevm/solidity/lib/FHE.sol";
+import {FHEVMConfigStruct} from "@fhevm/solidity/lib/Impl.sol";
+
+address constant SEPOLIA_ACL = 0x687820221192C5B662b25367F70076A37bc79b6c;
+address constant SEPOLIA_FHEVM_EXECUTOR = 0x848B0066793BcC60346Da1F49049357399B8D595;
+address constant SEPOLIA_KMS_VERIFIER = 0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC;
+address constant SEPOLIA_INPUT_VERIFIER = 0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4;
+address constant SEPOLIA_DECRYPTION_ORACLE = 0xa02Cda4Ca3a71D7C46997716F4283aa851C28812;
+
+/**
+ * @title FHEVMConfig
+ * @dev Points FHE operations at Zama's Sepolia coprocessor contracts and decryption oracle
+ *
+ * Same addresses as the SepoliaConfig shipped in fhevm/solidity (config/ZamaConfig.sol), inlined
+ * so the contracts do not need the zama-fhe/oracle-solidity package just for the oracle address.
+ *
+ * On networks where these addresses hold no code (e.g. a plain Hardhat node) every FHE call
+ * reverts, so contracts keep using their plaintext fallback paths. Tests can install the
+ * contracts/mocks FHEVM at the same addresses (see test/helpers/fhevm.ts).
+ */
+abstract contract FHEVMConfig {
+    error InvalidKMSSignatures();
+
+    constructor() {
+        FHE.setCoprocessor(
+            FHEVMConfigStruct({
+                ACLAddress: SEPOLIA_ACL,
+                FHEVMExecutorAddress: SEPOLIA_FHEVM_EXECUTOR,
+                KMSVerifierAddress: SEPOLIA_KMS_VERIFIER,
+                InputVerifierAddress: SEPOLIA_INPUT_VERIFIER
+            })
+        );
+        FHE.setDecryptionOracle(SEPOLIA_DECRYPTION_ORACLE);
+    }
+
+    /**
+     * @dev Verify KMS signatures for a decryption callback
+     * @notice Equivalent of FHE.checkSignatures without its calldatacopy assembly, which is not
+     * memory-safe and pushes large contracts (e.g. 16-field struct getters) into stack-too-deep.
+     * @param requestId Decryption request ID returned by FHE.requestDecryption
+     * @param decryptedResult ABI-encoded cleartexts followed by the offset of the signatures array,
+     * exactly as they appear in the callback calldata after requestId
+     * @param signatures KMS signatures passed to the callback
+     */
+    function _checkDecryptionSignatures(
+        uint256 requestId,
+        bytes memory decryptedResult,
+        bytes[] memory signatures
+    ) internal {
+        bytes32[] memory handles = FHE.loadRequestedHandles(requestId);
+        bool verified = IKMSVerifier(SEPOLIA_KMS_VERIFIER).verifyDecryptionEIP712KMSSignatures(
+            handles,
+            decryptedResult,
+            signatures
+        );
+        if (!verified) revert InvalidKMSSignatures();
+    }
+}
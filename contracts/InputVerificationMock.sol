@@ -2,10 +2,20 @@
 
 pragma solidity ^0.8.24;
 
+/**
+ * @title IProofVerificationCallback
+ * @dev Callbacks implemented by dApp contracts that submit proofs to InputVerification
+ */
+interface IProofVerificationCallback {
+    function onProofVerified(uint256 zkProofId, bytes32[] calldata verifiedHandles) external;
+    function onProofRejected(uint256 zkProofId) external;
+}
+
 /**
  * @title InputVerificationMock
  * @dev Mock implementation of InputVerification for testing on Sepolia
  * Follows Zama's pattern for proof verification
+ * Only the coprocessor account fixed at deployment may answer requests
  */
 contract InputVerificationMock {
     /**
@@ -34,6 +44,9 @@ contract InputVerificationMock {
      */
     event RejectProofResponse(uint256 indexed zkProofId);
 
+    // Account of the off-chain coprocessor allowed to verify or reject proofs
+    address public immutable coprocessor;
+
     // Counter for ZK proof IDs
     uint256 public zkProofIdCounter = 0;
 
@@ -49,6 +62,26 @@ contract InputVerificationMock {
     // Map zkProofId to its request
     mapping(uint256 => ProofRequest) public proofRequests;
 
+    // Track answered requests so a proof can only be verified or rejected once
+    mapping(uint256 => bool) public isProofProcessed;
+
+    error ProofAlreadyProcessed(uint256 zkProofId);
+    error NotCoprocessor();
+    error InvalidCoprocessor();
+
+    modifier onlyCoprocessor() {
+        if (msg.sender != coprocessor) revert NotCoprocessor();
+        _;
+    }
+
+    /**
+     * @param _coprocessor Account the proof verifier daemon sends its responses from
+     */
+    constructor(address _coprocessor) {
+        if (_coprocessor == address(0)) revert InvalidCoprocessor();
+        coprocessor = _coprocessor;
+    }
+
     /**
      * @notice Submit a proof verification request
      * @param contractChainId The chain ID of the requesting contract
@@ -92,30 +125,46 @@ contract InputVerificationMock {
 
     /**
      * @notice Submit a proof verification response (called by off-chain coprocessor)
-     * In mock mode, this immediately approves the proof
+     * In mock mode, this immediately approves the proof and forwards the verified
+     * handles to the requesting contract via onProofVerified
      * In production, this would contain actual signatures from coprocessors
      */
     function verifyProofResponse(
         uint256 zkProofId,
         bytes32[] calldata ctHandles,
         bytes calldata signature,
-        bytes calldata extraData
-    ) external {
+        bytes calldata /* extraData */
+    ) external onlyCoprocessor {
         require(zkProofId > 0 && zkProofId <= zkProofIdCounter, "Invalid zkProofId");
+        if (isProofProcessed[zkProofId]) revert ProofAlreadyProcessed(zkProofId);
+        isProofProcessed[zkProofId] = true;
 
         ProofRequest storage request = proofRequests[zkProofId];
         bytes[] memory signatures = new bytes[](1);
         signatures[0] = signature;
 
-        // Emit response event for the dApp contract to listen
+        // Deliver the verified handles to the dApp contract (reverts roll back the response)
+        IProofVerificationCallback(request.contractAddress).onProofVerified(zkProofId, ctHandles);
+
+        // Emit response event for off-chain listeners
         emit VerifyProofResponse(zkProofId, ctHandles, signatures);
     }
 
     /**
      * @notice Reject a proof verification (called by off-chain coprocessor)
+     * The requesting contract is notified via onProofRejected when it implements the callback
      */
-    function rejectProofResponse(uint256 zkProofId, bytes calldata /* unusedVariable */) external {
+    function rejectProofResponse(uint256 zkProofId, bytes calldata /* unusedVariable */) external onlyCoprocessor {
         require(zkProofId > 0 && zkProofId <= zkProofIdCounter, "Invalid zkProofId");
+        if (isProofProcessed[zkProofId]) revert ProofAlreadyProcessed(zkProofId);
+        isProofProcessed[zkProofId] = true;
+
+        // Best effort: a rejection must be recorded even if the requester has no callback
+        address requester = proofRequests[zkProofId].contractAddress;
+        if (requester.code.length > 0) {
+            try IProofVerificationCallback(requester).onProofRejected(zkProofId) {
+            } catch {}
+        }
 
         emit RejectProofResponse(zkProofId);
     }
@@ -3,6 +3,7 @@ pragma solidity ^0.8.24;
 
 import {FHE, euint8, euint16, euint64, ebool, eaddress, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {FHEVMConfig} from "./FHEVMConfig.sol";
 
 /**
  * @title IInputVerification
@@ -27,6 +28,37 @@ interface IInputVerification {
     ) external returns (uint256 zkProofId);
 }
 
+/**
+ * @title IShadowMerchants
+ * @dev Game contract hooks used to escrow bids and settle claimed wins (requires AUCTION_ROLE)
+ */
+interface IShadowMerchants {
+    function lockBidGold(
+        address playerAddress,
+        uint256 auctionId,
+        euint64 amount,
+        uint64 amountPlain,
+        bool amountIsPlaintext
+    ) external returns (euint64 locked);
+
+    function releaseBidGold(address playerAddress, uint256 auctionId) external;
+
+    function forfeitBidGold(address playerAddress, uint256 auctionId) external;
+
+    function releaseBidGoldIf(address playerAddress, uint256 auctionId, ebool release) external;
+
+    function settleBidGoldIf(address playerAddress, uint256 auctionId, euint64 locked, ebool accepted) external;
+
+    function settleAuctionWin(
+        address playerAddress,
+        uint256 auctionId,
+        uint8 goodType,
+        euint64 price,
+        uint64 pricePlain,
+        bool priceIsPlaintext
+    ) external;
+}
+
 /**
  * @title MarketAuction
  * @dev Confidential auction system for the Shadow Merchants game
@@ -37,6 +69,9 @@ interface IInputVerification {
  * Step 3 (Offchain): Coprocessor performs homomorphic bid comparisons
  * Step 4 (HERE): Gateway stores encrypted results on-chain
  * Step 5 (Backend): User decrypts results via Relayer/KMS
+ * Reveal (opt-in): Resolved highestBid is publicly decrypted as the clearing price
+ * Commit-reveal (no FHE): bidders commit keccak256(amount, salt), then reveal after endTime
+ * Dutch: the price falls until a bid covers it; that bid wins at once (encrypted: once its acceptance is decrypted)
  *
  * Key Features:
  * - Blind auctions: bid amounts encrypted until resolution
@@ -47,14 +82,16 @@ interface IInputVerification {
  * @notice Handles blind auctions where bid amounts remain encrypted until resolution
  * @notice Integrates with Zama's InputVerification pattern for proof validation (Step 2)
  */
-contract MarketAuction is AccessControl {
+contract MarketAuction is AccessControl, FHEVMConfig {
 
     // ============ CONSTANTS ============
 
     bytes32 public constant AUCTION_MANAGER_ROLE = keccak256("AUCTION_MANAGER_ROLE");
 
-    uint256 public constant AUCTION_DURATION = 300; // 5 minutes
-    uint8 public constant MAX_SIMULTANEOUS_AUCTIONS = 10;
+    // Bounds for the AuctionConfig set by updateConfig (reveal windows share the duration bounds)
+    uint256 public constant MIN_AUCTION_DURATION = 60;
+    uint256 public constant MAX_AUCTION_DURATION = 1 days;
+    uint8 public constant MAX_AUCTIONS_LIMIT = 50;
 
     // Good types for auction items
     uint8 public constant GOOD_TYPE_SPICES = 1;
@@ -65,6 +102,27 @@ contract MarketAuction is AccessControl {
 
     // ============ STRUCTS ============
 
+    /**
+     * @dev Pricing rule of an auction
+     * @notice FirstPrice: the winner pays their own bid. SecondPrice (Vickrey): the winner pays the
+     * runner-up bid, or the reserve price without one. Dutch: the first bid covering dutchPrice wins
+     * immediately and pays that price
+     */
+    enum AuctionFormat {
+        FirstPrice,
+        SecondPrice,
+        Dutch
+    }
+
+    /**
+     * @dev Tunable auction parameters, set by admins through updateConfig
+     */
+    struct AuctionConfig {
+        uint256 auctionDuration;        // Default length of auctions created with durationSeconds = 0
+        uint8 maxSimultaneousAuctions;  // Cap on unresolved auctions
+        uint256 revealDuration;         // Reveal window after endTime of commit-reveal auctions
+    }
+
     struct Auction {
         uint256 auctionId;
         uint8 goodType;            // Public: what's being sold
@@ -77,11 +135,17 @@ contract MarketAuction is AccessControl {
         bool isResolved;           // Public: resolution status
         uint8 participantCount;    // Public: number of bidders
         address creator;           // Public: who created the auction
-        address currentWinner;     // Public: track provisional winner
+        address currentWinner;     // Public: provisional winner (encrypted auctions: set once highestBidder is decrypted)
         address resolvedWinner;    // Public: final winner after resolution
         bool usesPlaintext;        // If true, fallback logic without FHE precompiles is used
         uint64 reservePricePlain;  // Plaintext reserve price when usesPlaintext is true
         uint64 highestBidPlain;    // Plaintext highest bid when usesPlaintext is true
+        AuctionFormat format;      // Public: pricing rule
+        euint64 secondHighestBid;  // Private: runner-up bid (starts at the reserve), SecondPrice only
+        uint64 secondHighestBidPlain; // Plaintext runner-up bid when usesPlaintext is true
+        bool usesCommitReveal;     // Public: bids are commitments until revealed (plaintext only)
+        uint256 revealEndTime;     // Public: end of the reveal window, commit-reveal only
+        uint64 startPricePlain;    // Public: price at startTime, Dutch only
     }
 
     struct Bid {
@@ -93,6 +157,7 @@ contract MarketAuction is AccessControl {
         uint64 amountPlain;        // Plaintext bid amount for fallback mode
         bool isPendingVerification; // True if proof verification is pending
         uint256 zkProofId;         // ZK proof ID from InputVerification (if using gateway)
+        bytes32 commitment;        // Commit-reveal: keccak256(amount, salt) until revealed
     }
 
     /**
@@ -103,10 +168,12 @@ contract MarketAuction is AccessControl {
         address bidder;
         externalEuint64 bidAmount;
         bool isValid;
+        bool isReservePrice;       // True if the proof covers an auction reserve price, not a bid
     }
 
     // ============ STATE VARIABLES ============
 
+    AuctionConfig public config;
     mapping(uint256 => Auction) public auctions;
     mapping(uint256 => mapping(address => Bid)) public bids;
     mapping(uint256 => address[]) public auctionParticipants;
@@ -117,12 +184,29 @@ contract MarketAuction is AccessControl {
     address public inputVerificationAddress;
     bool public useInputVerificationGateway;
 
+    // Game contract escrowing bids in gold and credited on claimReward (address(0) = free bids, claims only set the flag)
+    IShadowMerchants public shadowMerchants;
+
     // Track pending bids waiting for proof verification
     mapping(uint256 => PendingBid) public pendingBids; // zkProofId => PendingBid
 
     uint256 public auctionCounter;
     uint256 public activeAuctionCount;
 
+    // Clearing price reveal (opt-in public decryption of the winning bid)
+    mapping(uint256 => uint64) public clearingPrices;            // auctionId => revealed winning bid
+    mapping(uint256 => bool) public clearingPriceRevealed;       // auctionId => reveal completed
+    mapping(uint256 => bool) public clearingPriceRevealPending;  // auctionId => decryption requested
+    mapping(uint256 => uint256) public revealRequestAuction;     // decryption requestId => auctionId
+
+    // Encrypted Dutch bids: one at a time, decided by public decryption of its acceptance
+    mapping(uint256 => address) public dutchPendingBidder;       // auctionId => bidder awaiting the decision
+    mapping(uint256 => uint256) public dutchBidRequestAuction;   // decryption requestId => auctionId
+
+    // Encrypted auctions resolve once their highestBidder is publicly decrypted
+    mapping(uint256 => bool) public winnerDecryptionPending;     // auctionId => decryption requested
+    mapping(uint256 => uint256) public winnerRequestAuction;     // decryption requestId => auctionId
+
     // Events for client synchronization
     event AuctionCreated(
         uint256 indexed auctionId,
@@ -178,6 +262,96 @@ contract MarketAuction is AccessControl {
         uint256 timestamp
     );
 
+    /**
+     * @notice Emitted when InputVerification rejects a pending bid or reserve price proof
+     */
+    event BidProofRejected(
+        uint256 indexed zkProofId,
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when a reserve price submitted through the gateway is verified
+     */
+    event ReservePriceVerified(
+        uint256 indexed auctionId,
+        uint256 indexed zkProofId,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when the winning bid of a resolved auction is made publicly decryptable
+     */
+    event ClearingPriceRevealRequested(
+        uint256 indexed auctionId,
+        uint256 indexed requestId,
+        bytes32 highestBidHandle,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when the clearing price of a resolved auction becomes public
+     */
+    event ClearingPriceRevealed(
+        uint256 indexed auctionId,
+        uint64 clearingPrice,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when a bidder commits (or replaces) a commit-reveal bid
+     */
+    event BidCommitted(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        bytes32 commitment,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when a commit-reveal bid is revealed, escrowed and ranked
+     */
+    event BidRevealed(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint64 amount,
+        uint256 timestamp
+    );
+
+    event BidForfeited(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 timestamp
+    );
+
+    event DutchBidDecryptionRequested(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 indexed requestId,
+        uint256 timestamp
+    );
+
+    event DutchBidDecided(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        bool accepted,
+        uint256 timestamp
+    );
+
+    event WinnerDecryptionRequested(
+        uint256 indexed auctionId,
+        uint256 indexed requestId,
+        uint256 timestamp
+    );
+
+    /**
+     * @notice Emitted when the game contract settling claimed wins changes
+     */
+    event ShadowMerchantsUpdated(address indexed shadowMerchants);
+    event ConfigUpdated(AuctionConfig config);
+
     // ============ ERRORS ============
 
     error AuctionNotFound();
@@ -191,11 +365,27 @@ contract MarketAuction is AccessControl {
     error NotAuthorized();
     error NotWinner();
     error RewardAlreadyClaimed();
+    error NoWinningBid();
+    error ClearingPriceAlreadyRevealed();
+    error ClearingPriceRevealInProgress();
+    error UnknownRevealRequest();
+    error InvalidConfig();
+    error WrongBiddingMode();
+    error RevealWindowNotOpen();
+    error RevealWindowClosed();
+    error NoBidCommitment();
+    error CommitmentMismatch();
+    error InvalidStartPrice();
+    error DutchBidPending();
+    error UnknownDutchBidRequest();
+    error WinnerDecryptionInProgress();
+    error UnknownWinnerRequest();
+    error ReservePricePending();
 
     // ============ MODIFIERS ============
 
     modifier validAuction(uint256 auctionId) {
-        if (auctionId == 0 || auctionId > auctionCounter) revert AuctionNotFound();
+        _requireAuction(auctionId);
         _;
     }
 
@@ -205,6 +395,10 @@ contract MarketAuction is AccessControl {
         _;
     }
 
+    function _requireAuction(uint256 auctionId) internal view {
+        if (auctionId == 0 || auctionId > auctionCounter) revert AuctionNotFound();
+    }
+
     // ============ CONSTRUCTOR ============
 
     constructor(address _inputVerificationAddress) {
@@ -212,6 +406,7 @@ contract MarketAuction is AccessControl {
         _grantRole(AUCTION_MANAGER_ROLE, msg.sender);
         auctionCounter = 0;
         activeAuctionCount = 0;
+        config = AuctionConfig({auctionDuration: 300, maxSimultaneousAuctions: 10, revealDuration: 300}); // 5 minutes
 
         // Set InputVerification address and enable gateway if provided
         inputVerificationAddress = _inputVerificationAddress;
@@ -221,11 +416,11 @@ contract MarketAuction is AccessControl {
     // ============ AUCTION MANAGEMENT ============
 
     /**
-     * @dev Create a new auction for a specific good type (Admin only)
+     * @dev Create a new first-price auction for a specific good type (Admin only)
      * @param goodType Type of good being auctioned (1-5)
      * @param reservePrice Encrypted minimum bid required
      * @param proof Input proof for the encrypted reserve price
-     * @param durationSeconds Custom auction duration in seconds (0 = use default 300s)
+     * @param durationSeconds Custom auction duration in seconds (0 = config.auctionDuration)
      */
     function createAuction(
         uint8 goodType,
@@ -233,7 +428,76 @@ contract MarketAuction is AccessControl {
         bytes calldata proof,
         uint256 durationSeconds
     ) external returns (uint256) {
-        if (activeAuctionCount >= MAX_SIMULTANEOUS_AUCTIONS) {
+        return _createAuction(goodType, reservePrice, proof, durationSeconds, AuctionFormat.FirstPrice, 0);
+    }
+
+    /**
+     * @dev Create a new auction with the given pricing rule
+     * @param format FirstPrice or SecondPrice (Vickrey); Dutch auctions need createDutchAuction
+     * @notice Other parameters as in createAuction
+     */
+    function createAuctionWithFormat(
+        uint8 goodType,
+        externalEuint64 reservePrice,
+        bytes calldata proof,
+        uint256 durationSeconds,
+        AuctionFormat format
+    ) external returns (uint256) {
+        return _createAuction(goodType, reservePrice, proof, durationSeconds, format, 0);
+    }
+
+    /**
+     * @dev Create a Dutch auction: the price falls linearly from startPrice until a bid covers it
+     * @param startPrice Public price at creation; at least the reserve in plaintext mode
+     * @notice Other parameters as in createAuction. See dutchPrice for the curve.
+     */
+    function createDutchAuction(
+        uint8 goodType,
+        externalEuint64 reservePrice,
+        bytes calldata proof,
+        uint256 durationSeconds,
+        uint64 startPrice
+    ) external returns (uint256) {
+        return _createAuction(goodType, reservePrice, proof, durationSeconds, AuctionFormat.Dutch, startPrice);
+    }
+
+    /**
+     * @dev Create a commit-reveal auction, for networks without FHE where plaintext bids would be public
+     * @notice Bidders commitBid until endTime, then revealBid within config.revealDuration;
+     * commitments still unrevealed at resolution are forfeited
+     * @param reservePrice Public minimum bid
+     * @notice Other parameters as in createAuctionWithFormat
+     */
+    function createCommitRevealAuction(
+        uint8 goodType,
+        uint64 reservePrice,
+        uint256 durationSeconds,
+        AuctionFormat format
+    ) external returns (uint256 auctionId) {
+        // An empty proof selects the plaintext fallback
+        auctionId = _createAuction(
+            goodType,
+            externalEuint64.wrap(bytes32(uint256(reservePrice))),
+            "",
+            durationSeconds,
+            format,
+            0
+        );
+
+        Auction storage auction = auctions[auctionId];
+        auction.usesCommitReveal = true;
+        auction.revealEndTime = auction.endTime + config.revealDuration;
+    }
+
+    function _createAuction(
+        uint8 goodType,
+        externalEuint64 reservePrice,
+        bytes memory proof,
+        uint256 durationSeconds,
+        AuctionFormat format,
+        uint64 startPrice
+    ) internal returns (uint256) {
+        if (activeAuctionCount >= config.maxSimultaneousAuctions) {
             revert MaxAuctionsReached();
         }
         if (goodType < 1 || goodType > 5) revert InvalidGoodType();
@@ -241,13 +505,14 @@ contract MarketAuction is AccessControl {
         auctionCounter++;
         uint256 auctionId = auctionCounter;
 
-        // Use custom duration or default to AUCTION_DURATION
-        uint256 duration = (durationSeconds > 0) ? durationSeconds : AUCTION_DURATION;
+        // Use custom duration or default to the configured one
+        uint256 duration = (durationSeconds > 0) ? durationSeconds : config.auctionDuration;
 
         // Convert external input to encrypted value, falling back to plaintext handles.
         bytes32 reserveHandle = externalEuint64.unwrap(reservePrice);
         bool usesPlaintext = proof.length == 0;
         uint64 reservePlain = 0;
+        bool reservePending = false;
         euint64 encryptedReservePrice;
         if (usesPlaintext) {
             // For plaintext mode: treat handle as plaintext uint64
@@ -273,10 +538,12 @@ contract MarketAuction is AccessControl {
                 auctionId: auctionId,
                 bidder: msg.sender,
                 bidAmount: reservePrice,
-                isValid: true
+                isValid: true,
+                isReservePrice: true
             });
 
             // Will be processed in onProofVerified callback
+            reservePending = true;
             encryptedReservePrice = euint64.wrap(bytes32(0));
         } else {
             // Direct FHE mode: attempt to decrypt proof
@@ -296,7 +563,10 @@ contract MarketAuction is AccessControl {
         euint64 zeroBid = euint64.wrap(bytes32(0));
         eaddress noBidder = eaddress.wrap(bytes32(uint256(uint160(address(0)))));
 
-        if (!usesPlaintext) {
+        if (!usesPlaintext && !reservePending) {
+            // Encrypted zeros: FHE.select cannot read uninitialized handles
+            zeroBid = FHE.asEuint64(0);
+            noBidder = FHE.asEaddress(address(0));
             FHE.allowThis(zeroBid);
             FHE.allowThis(noBidder);
         }
@@ -321,6 +591,15 @@ contract MarketAuction is AccessControl {
         auction.usesPlaintext = usesPlaintext;
         auction.reservePricePlain = reservePlain;
         auction.highestBidPlain = 0;
+        auction.format = format;
+        if (format == AuctionFormat.SecondPrice) {
+            // Without a runner-up the winner pays the reserve
+            auction.secondHighestBid = encryptedReservePrice;
+            auction.secondHighestBidPlain = reservePlain;
+        } else if (format == AuctionFormat.Dutch) {
+            if (startPrice == 0 || startPrice < reservePlain) revert InvalidStartPrice();
+            auction.startPricePlain = startPrice;
+        }
 
         activeAuctionCount++;
 
@@ -340,8 +619,11 @@ contract MarketAuction is AccessControl {
         bytes calldata proof
     ) external validAuction(auctionId) auctionActive(auctionId) {
         Auction storage auction = auctions[auctionId];
+        if (auction.usesCommitReveal) revert WrongBiddingMode();
 
         if (useInputVerificationGateway && proof.length > 0) {
+            // Until its reserve is verified the auction has nothing to check bids against
+            if (!auction.usesPlaintext) revert ReservePricePending();
             // Use InputVerification gateway pattern for proof verification
             _handleBidViaGateway(auctionId, bidAmount, proof);
         } else {
@@ -350,22 +632,87 @@ contract MarketAuction is AccessControl {
             _resetPreviousBid(bidderState);
 
             if (auction.usesPlaintext) {
-                _handlePlaintextBid(auctionId, auction, bidderState, bidAmount);
+                _handlePlaintextBid(auctionId, auction, bidderState, bidAmount, msg.sender);
             } else {
                 _handleEncryptedBid(auctionId, auction, bidderState, bidAmount, proof);
             }
 
-            // Register participant
-            if (!participantRegistry[auctionId][msg.sender]) {
-                participantRegistry[auctionId][msg.sender] = true;
-                auctionParticipants[auctionId].push(msg.sender);
-                auction.participantCount++;
-            }
+            _registerParticipant(auctionId, msg.sender);
 
             emit BidPlaced(auctionId, msg.sender, block.timestamp);
+            _closeIfDutchSold(auctionId);
         }
     }
 
+    /**
+     * @dev Commit to a bid on a commit-reveal auction; a new commitment replaces the previous one
+     * @notice Escrows the reserve price as a deposit: revealing returns it (the revealed bid is escrowed
+     * instead), leaving the commitment unrevealed forfeits it
+     * @param auctionId ID of the auction to bid on
+     * @param commitment bidCommitment(msg.sender, auctionId, amount, salt), with a random salt kept by the bidder
+     */
+    function commitBid(uint256 auctionId, bytes32 commitment)
+        external
+        validAuction(auctionId)
+        auctionActive(auctionId)
+    {
+        Auction storage auction = auctions[auctionId];
+        if (!auction.usesCommitReveal) revert WrongBiddingMode();
+        if (commitment == bytes32(0)) revert BidRejected();
+
+        _lockPlainBidGold(msg.sender, auctionId, auction.reservePricePlain);
+
+        bids[auctionId][msg.sender].commitment = commitment;
+        bids[auctionId][msg.sender].timestamp = block.timestamp;
+
+        _registerParticipant(auctionId, msg.sender);
+
+        emit BidCommitted(auctionId, msg.sender, commitment, block.timestamp);
+        emit BidPlaced(auctionId, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Reveal a committed bid between endTime and revealEndTime
+     * @notice The revealed amount is escrowed and ranked like a plaintext placeBid in place of the
+     * deposit. A bid that is already outranked only gets its deposit back; one the bidder's gold
+     * cannot cover reverts and stays unrevealed
+     * @param auctionId ID of the commit-reveal auction
+     * @param amount Committed bid amount
+     * @param salt Committed salt
+     */
+    function revealBid(uint256 auctionId, uint64 amount, bytes32 salt) external validAuction(auctionId) {
+        Auction storage auction = auctions[auctionId];
+        if (!auction.usesCommitReveal) revert WrongBiddingMode();
+        if (auction.isResolved) revert AuctionAlreadyResolved();
+        if (block.timestamp <= auction.endTime) revert RevealWindowNotOpen();
+        if (block.timestamp > auction.revealEndTime) revert RevealWindowClosed();
+
+        Bid storage bidderState = bids[auctionId][msg.sender];
+        if (bidderState.commitment == bytes32(0)) revert NoBidCommitment();
+        if (bidCommitment(msg.sender, auctionId, amount, salt) != bidderState.commitment) revert CommitmentMismatch();
+        bidderState.commitment = bytes32(0);
+
+        if (!_isOutranked(auction, amount, msg.sender)) {
+            _handlePlaintextBid(auctionId, auction, bidderState, externalEuint64.wrap(bytes32(uint256(amount))), msg.sender);
+        } else {
+            _releaseBidGold(msg.sender, auctionId);
+        }
+
+        emit BidRevealed(auctionId, msg.sender, amount, block.timestamp);
+    }
+
+    /**
+     * @dev Commitment to a commit-reveal bid, bound to the bidder and the auction so that it cannot
+     * be copied by another account or replayed on another auction
+     */
+    function bidCommitment(address bidder, uint256 auctionId, uint64 amount, bytes32 salt)
+        public
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(bidder, auctionId, amount, salt));
+    }
+
     /**
      * @dev Handle bid placement via InputVerification gateway
      * @notice Follows Zama's async proof verification pattern
@@ -375,6 +722,7 @@ contract MarketAuction is AccessControl {
         externalEuint64 bidAmount,
         bytes calldata proof
     ) internal {
+
         // Prepare the ciphertext with proof for gateway
         bytes memory ciphertextWithProof = abi.encodePacked(bidAmount, proof);
 
@@ -395,7 +743,8 @@ contract MarketAuction is AccessControl {
             auctionId: auctionId,
             bidder: msg.sender,
             bidAmount: bidAmount,
-            isValid: true
+            isValid: true,
+            isReservePrice: false
         });
 
         // Mark bid as pending verification
@@ -409,27 +758,48 @@ contract MarketAuction is AccessControl {
 
     /**
      * @dev Callback function to handle proof verification response from InputVerification
-     * @notice Called by off-chain system after proof is validated
+     * @notice Called by InputVerification once the off-chain coprocessor has validated the proof
      * @param zkProofId The ZK proof ID from InputVerification
-     * @param verifiedHandles The verified encrypted handles (unused in mock, for future use)
+     * @param verifiedHandles The verified encrypted handles (first entry must match the submitted handle)
      */
     function onProofVerified(
         uint256 zkProofId,
         bytes32[] calldata verifiedHandles
     ) external {
-        // Verify caller is the InputVerification contract
-        require(msg.sender == inputVerificationAddress, "Only InputVerification can call this");
-
-        // Get pending bid information
-        PendingBid memory pendingBid = pendingBids[zkProofId];
-        require(pendingBid.isValid, "Proof not found or already processed");
+        PendingBid memory pendingBid = _takePendingBid(zkProofId);
+        require(
+            verifiedHandles.length > 0 && verifiedHandles[0] == externalEuint64.unwrap(pendingBid.bidAmount),
+            "Verified handle mismatch"
+        );
 
         uint256 auctionId = pendingBid.auctionId;
         address bidder = pendingBid.bidder;
 
-        // Verify auction still exists and is active
+        // Verify auction still exists
         if (auctionId == 0 || auctionId > auctionCounter) revert AuctionNotFound();
         Auction storage auction = auctions[auctionId];
+
+        if (pendingBid.isReservePrice) {
+            if (auction.isResolved) revert AuctionAlreadyResolved();
+
+            // Mock verification resolves the reserve price in plaintext fallback mode
+            auction.usesPlaintext = true;
+            auction.reservePricePlain = uint64(uint256(verifiedHandles[0]));
+            auction.reservePrice = euint64.wrap(verifiedHandles[0]);
+            if (auction.format == AuctionFormat.SecondPrice) {
+                auction.secondHighestBidPlain = auction.reservePricePlain;
+                auction.secondHighestBid = auction.reservePrice;
+            }
+
+            emit ReservePriceVerified(auctionId, zkProofId, block.timestamp);
+            // createDutchAuction could not check the start price against the pending reserve
+            if (auction.format == AuctionFormat.Dutch && auction.startPricePlain < auction.reservePricePlain) {
+                _cancelAuction(auctionId);
+            }
+            return;
+        }
+
+        // Bids can only land while the auction is still running
         if (!auction.isActive || block.timestamp > auction.endTime) revert AuctionNotActive();
 
         // Get or create bid state
@@ -438,20 +808,48 @@ contract MarketAuction is AccessControl {
 
         // For now, use plaintext mode (mock verification)
         // In production with real FHEVM, would use the verified handles
-        _handlePlaintextBid(auctionId, auction, bidderState, pendingBid.bidAmount);
+        _handlePlaintextBid(auctionId, auction, bidderState, pendingBid.bidAmount, bidder);
+        bidderState.isPendingVerification = false;
 
-        // Register participant if not already registered
-        if (!participantRegistry[auctionId][bidder]) {
-            participantRegistry[auctionId][bidder] = true;
-            auctionParticipants[auctionId].push(bidder);
-            auction.participantCount++;
-        }
-
-        // Clear pending bid
-        pendingBids[zkProofId].isValid = false;
+        _registerParticipant(auctionId, bidder);
 
         emit BidProofVerified(zkProofId, auctionId, bidder, block.timestamp);
         emit BidPlaced(auctionId, bidder, block.timestamp);
+        _closeIfDutchSold(auctionId);
+    }
+
+    /**
+     * @dev Callback function to handle proof rejection from InputVerification
+     * @notice A rejected bid is dropped; a rejected reserve price cancels the auction
+     * @param zkProofId The ZK proof ID from InputVerification
+     */
+    function onProofRejected(uint256 zkProofId) external {
+        PendingBid memory pendingBid = _takePendingBid(zkProofId);
+
+        uint256 auctionId = pendingBid.auctionId;
+
+        if (pendingBid.isReservePrice) {
+            // Without a verified reserve price the auction cannot run
+            _cancelAuction(auctionId);
+        } else {
+            Bid storage bidderState = bids[auctionId][pendingBid.bidder];
+            if (bidderState.zkProofId == zkProofId) {
+                bidderState.isPendingVerification = false;
+            }
+        }
+
+        emit BidProofRejected(zkProofId, auctionId, pendingBid.bidder, block.timestamp);
+    }
+
+    /**
+     * @dev Consume a pending proof; only InputVerification may answer, once per proof
+     */
+    function _takePendingBid(uint256 zkProofId) internal returns (PendingBid memory pendingBid) {
+        require(msg.sender == inputVerificationAddress, "Only InputVerification can call this");
+
+        pendingBid = pendingBids[zkProofId];
+        require(pendingBid.isValid, "Proof not found or already processed");
+        pendingBids[zkProofId].isValid = false;
     }
 
     /**
@@ -480,7 +878,9 @@ contract MarketAuction is AccessControl {
             if (auctionId > 0 &&
                 auctionId <= auctionCounter &&
                 !auctions[auctionId].isResolved &&
-                block.timestamp > auctions[auctionId].endTime) {
+                block.timestamp > resolutionTime(auctionId) &&
+                dutchPendingBidder[auctionId] == address(0) &&
+                !winnerDecryptionPending[auctionId]) {
                 _resolveAuctionInternal(auctionId);
             }
         }
@@ -493,19 +893,76 @@ contract MarketAuction is AccessControl {
         Auction storage auction = auctions[auctionId];
 
         if (auction.isResolved) revert AuctionAlreadyResolved();
-        if (block.timestamp <= auction.endTime) revert AuctionNotExpired();
-
-        if (auction.isActive) {
-            auction.isActive = false;
-            if (activeAuctionCount > 0) {
-                activeAuctionCount--;
-            }
+        if (block.timestamp <= resolutionTime(auctionId)) revert AuctionNotExpired();
+        if (dutchPendingBidder[auctionId] != address(0)) revert DutchBidPending();
+        if (winnerDecryptionPending[auctionId]) revert WinnerDecryptionInProgress();
+
+        if (_hasEncryptedWinner(auction)) {
+            // Resolved by onWinnerDecrypted
+            _requestWinnerDecryption(auctionId);
+            return false;
         }
+        return _closeAuction(auctionId, true);
+    }
+
+    /**
+     * @dev Encrypted auctions with bids only know their winner once highestBidder is decrypted
+     * (encrypted Dutch bids are decided one at a time and set currentWinner themselves)
+     */
+    function _hasEncryptedWinner(Auction storage auction) internal view returns (bool) {
+        return !auction.usesPlaintext && auction.format != AuctionFormat.Dutch && auction.participantCount > 0;
+    }
+
+    function _requestWinnerDecryption(uint256 auctionId) internal {
+        Auction storage auction = auctions[auctionId];
+
+        // No more bids; the auction leaves the active list while the oracle decrypts the winner
+        _deactivate(auction);
+
+        uint256 requestId = _requestDecryption(eaddress.unwrap(auction.highestBidder), this.onWinnerDecrypted.selector);
+        winnerRequestAuction[requestId] = auctionId;
+        winnerDecryptionPending[auctionId] = true;
+
+        emit WinnerDecryptionRequested(auctionId, requestId, block.timestamp);
+    }
+
+    /**
+     * @dev Decryption callback naming the winner of an encrypted auction, which then resolves
+     * @notice Anyone may submit the result; the KMS signatures are what make it trustworthy
+     * @param requestId Decryption request ID from the resolution
+     * @param winner Decrypted highestBidder (address(0) when no bid met the reserve)
+     * @param signatures KMS signatures over the decrypted result
+     */
+    function onWinnerDecrypted(
+        uint256 requestId,
+        address winner,
+        bytes[] memory signatures
+    ) external {
+        uint256 auctionId = winnerRequestAuction[requestId];
+        if (auctionId == 0) revert UnknownWinnerRequest();
+
+        // Signed payload: cleartext word + offset of `signatures` (3 head words => 0x60)
+        _checkDecryptionSignatures(requestId, abi.encode(winner, uint256(0x60)), signatures);
+
+        delete winnerRequestAuction[requestId];
+        winnerDecryptionPending[auctionId] = false;
+        auctions[auctionId].currentWinner = winner;
+        _closeAuction(auctionId, true);
+    }
+
+    /**
+     * @dev Resolve an auction now: the provisional winner wins, every other escrow is released
+     */
+    function _closeAuction(uint256 auctionId, bool announceNoWinner) internal returns (bool) {
+        Auction storage auction = auctions[auctionId];
+
+        _deactivate(auction);
 
         auction.isResolved = true;
 
         address winner = auction.currentWinner;
         auction.resolvedWinner = winner;
+        _releaseLosingBids(auctionId, winner);
 
         bool hadWinner = winner != address(0);
         if (hadWinner) {
@@ -513,12 +970,147 @@ contract MarketAuction is AccessControl {
             winningBid.isWinning = true;
         }
 
-        emit AuctionResolved(auctionId, winner, auction.goodType, block.timestamp);
+        if (hadWinner || announceNoWinner) {
+            emit AuctionResolved(auctionId, winner, auction.goodType, block.timestamp);
+        }
 
         emit AuctionEnded(auctionId, hadWinner, block.timestamp);
         return hadWinner;
     }
 
+    // ============ CLEARING PRICE REVEAL ============
+
+    /**
+     * @dev Opt-in reveal of a resolved auction's clearing price (creator, auction manager or winner)
+     * @notice The clearing price is the price the winner pays (see _winningPrice). Plaintext
+     * auctions are revealed immediately. Encrypted auctions make it publicly decryptable and
+     * wait for the KMS-signed result in onClearingPriceDecrypted.
+     * @param auctionId ID of the resolved auction
+     */
+    function revealClearingPrice(uint256 auctionId) external validAuction(auctionId) {
+        Auction storage auction = auctions[auctionId];
+
+        if (!auction.isResolved) revert AuctionNotExpired();
+        if (
+            msg.sender != auction.creator &&
+            msg.sender != auction.resolvedWinner &&
+            !hasRole(AUCTION_MANAGER_ROLE, msg.sender)
+        ) revert NotAuthorized();
+        if (auction.resolvedWinner == address(0)) revert NoWinningBid();
+        if (clearingPriceRevealed[auctionId]) revert ClearingPriceAlreadyRevealed();
+        if (clearingPriceRevealPending[auctionId]) revert ClearingPriceRevealInProgress();
+
+        (euint64 price, uint64 pricePlain) = _winningPrice(auction);
+        if (auction.usesPlaintext) {
+            // Plaintext fallback: the price is already known on-chain
+            _recordClearingPrice(auctionId, pricePlain);
+            return;
+        }
+
+        uint256 requestId = _requestDecryption(euint64.unwrap(price), this.onClearingPriceDecrypted.selector);
+        revealRequestAuction[requestId] = auctionId;
+        clearingPriceRevealPending[auctionId] = true;
+
+        emit ClearingPriceRevealRequested(auctionId, requestId, euint64.unwrap(price), block.timestamp);
+    }
+
+    /**
+     * @dev Decryption callback carrying the KMS-signed clearing price
+     * @notice Anyone may submit the result (oracle relayer or the clearing price revealer service);
+     * the KMS signatures are what make it trustworthy.
+     * @param requestId Decryption request ID from revealClearingPrice
+     * @param clearingPrice Decrypted clearing price
+     * @param signatures KMS signatures over the decrypted result
+     */
+    function onClearingPriceDecrypted(
+        uint256 requestId,
+        uint64 clearingPrice,
+        bytes[] memory signatures
+    ) external {
+        uint256 auctionId = revealRequestAuction[requestId];
+        if (auctionId == 0) revert UnknownRevealRequest();
+        if (clearingPriceRevealed[auctionId]) revert ClearingPriceAlreadyRevealed();
+
+        // Signed payload: cleartext word + offset of `signatures` (3 head words => 0x60)
+        _checkDecryptionSignatures(requestId, abi.encode(uint256(clearingPrice), uint256(0x60)), signatures);
+
+        clearingPriceRevealPending[auctionId] = false;
+        _recordClearingPrice(auctionId, clearingPrice);
+    }
+
+    // ============ DUTCH AUCTIONS ============
+
+    /**
+     * @dev Current Dutch price: falls linearly from startPricePlain at startTime to the reserve at endTime
+     * @notice With an encrypted reserve the public curve falls to zero instead; bids below the hidden
+     * reserve are still refused when their acceptance is decrypted. Never below the reserve, even
+     * when a gateway-verified reserve exceeds the start price (such auctions are cancelled)
+     */
+    function dutchPrice(uint256 auctionId) public view returns (uint64) {
+        Auction storage auction = auctions[auctionId];
+        if (auction.format != AuctionFormat.Dutch) revert WrongBiddingMode();
+
+        uint64 floor = auction.usesPlaintext ? auction.reservePricePlain : 0;
+        if (block.timestamp >= auction.endTime || auction.startPricePlain <= floor) return floor;
+
+        uint256 elapsed = block.timestamp - auction.startTime;
+        uint256 duration = auction.endTime - auction.startTime;
+        uint256 drop = (uint256(auction.startPricePlain - floor) * elapsed) / duration;
+        return auction.startPricePlain - uint64(drop);
+    }
+
+    /**
+     * @dev Decryption callback deciding a pending encrypted Dutch bid
+     * @notice Anyone may submit the result; the KMS signatures are what make it trustworthy.
+     * An accepted bid wins even if the auction expired meanwhile, since it was placed in time.
+     * @param requestId Decryption request ID from the bid
+     * @param accepted Decrypted acceptance: the bid covered the price and the escrowed gold paid it
+     * @param signatures KMS signatures over the decrypted result
+     */
+    function onDutchBidDecrypted(
+        uint256 requestId,
+        bool accepted,
+        bytes[] memory signatures
+    ) external {
+        uint256 auctionId = dutchBidRequestAuction[requestId];
+        if (auctionId == 0) revert UnknownDutchBidRequest();
+
+        // Signed payload: cleartext word + offset of `signatures` (3 head words => 0x60)
+        _checkDecryptionSignatures(requestId, abi.encode(accepted ? uint256(1) : uint256(0), uint256(0x60)), signatures);
+
+        delete dutchBidRequestAuction[requestId];
+        address bidder = dutchPendingBidder[auctionId];
+        delete dutchPendingBidder[auctionId];
+
+        // emergencyEndAuction may have closed the auction (and released the escrow) meanwhile
+        if (auctions[auctionId].isResolved) accepted = false;
+        emit DutchBidDecided(auctionId, bidder, accepted, block.timestamp);
+
+        if (accepted) {
+            auctions[auctionId].currentWinner = bidder;
+            _closeAuction(auctionId, true);
+        } else {
+            bids[auctionId][bidder].isActive = false;
+            _releaseBidGold(bidder, auctionId);
+        }
+    }
+
+    /**
+     * @dev Allow a handle for public decryption and ask the oracle to call `callback` with its cleartext
+     */
+    function _requestDecryption(bytes32 handle, bytes4 callback) internal returns (uint256 requestId) {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = handle;
+        return FHE.requestDecryption(handles, callback);
+    }
+
+    function _recordClearingPrice(uint256 auctionId, uint64 clearingPrice) internal {
+        clearingPrices[auctionId] = clearingPrice;
+        clearingPriceRevealed[auctionId] = true;
+
+        emit ClearingPriceRevealed(auctionId, clearingPrice, block.timestamp);
+    }
+
     // ============ VIEW FUNCTIONS ============
 
     /**
@@ -538,7 +1130,7 @@ contract MarketAuction is AccessControl {
             address creator
         )
     {
-        Auction memory auction = auctions[auctionId];
+        Auction storage auction = auctions[auctionId];
         return (
             auction.goodType,
             auction.startTime,
@@ -550,6 +1142,14 @@ contract MarketAuction is AccessControl {
         );
     }
 
+    /**
+     * @dev Time after which an auction can be resolved: endTime, or revealEndTime for commit-reveal auctions
+     */
+    function resolutionTime(uint256 auctionId) public view validAuction(auctionId) returns (uint256) {
+        Auction storage auction = auctions[auctionId];
+        return auction.usesCommitReveal ? auction.revealEndTime : auction.endTime;
+    }
+
     /**
      * @dev Get list of active auctions - includes auctions that are active OR expired but not yet resolved
      */
@@ -644,6 +1244,23 @@ contract MarketAuction is AccessControl {
         // Mark reward as claimed
         rewardsClaimed[auctionId][msg.sender] = true;
 
+        // Pay the price from the escrowed gold (the rest is refunded) and credit the good to the winner's inventory
+        if (address(shadowMerchants) != address(0)) {
+            // Plaintext auctions pay pricePlain, encrypted ones the encrypted price
+            (euint64 price, uint64 pricePlain) = _winningPrice(auction);
+            if (!auction.usesPlaintext) {
+                FHE.allowTransient(price, address(shadowMerchants));
+            }
+            shadowMerchants.settleAuctionWin(
+                msg.sender,
+                auctionId,
+                auction.goodType,
+                price,
+                pricePlain,
+                auction.usesPlaintext
+            );
+        }
+
         // Emit reward claimed event
         emit RewardClaimed(auctionId, msg.sender, auction.goodType, block.timestamp);
 
@@ -703,38 +1320,44 @@ contract MarketAuction is AccessControl {
         validAuction(auctionId)
     {
         Auction storage auction = auctions[auctionId];
-        if (auction.isResolved) {
+        if (auction.isResolved || winnerDecryptionPending[auctionId]) {
             return;
         }
 
-        if (auction.isActive) {
-            auction.isActive = false;
-            if (activeAuctionCount > 0) {
-                activeAuctionCount--;
-            }
+        auction.endTime = block.timestamp;
+        if (_hasEncryptedWinner(auction)) {
+            // Resolved by onWinnerDecrypted
+            _requestWinnerDecryption(auctionId);
+            return;
         }
 
-        auction.endTime = block.timestamp;
-        auction.isResolved = true;
-        auction.resolvedWinner = auction.currentWinner;
+        _closeAuction(auctionId, false);
+    }
 
-        address winner = auction.resolvedWinner;
-        if (winner != address(0)) {
-            Bid storage winningBid = bids[auctionId][winner];
-            winningBid.isWinning = true;
-            emit AuctionResolved(auctionId, winner, auction.goodType, block.timestamp);
-        }
+    /**
+     * @dev Set the game contract that settles claimed wins
+     * @notice The game contract must grant this auction AUCTION_ROLE (ShadowMerchants.grantAuctionRole)
+     */
+    function setShadowMerchants(address shadowMerchantsAddress) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        shadowMerchants = IShadowMerchants(shadowMerchantsAddress);
+        emit ShadowMerchantsUpdated(shadowMerchantsAddress);
+    }
 
-        bool hadWinner = winner != address(0);
-        emit AuctionEnded(auctionId, hadWinner, block.timestamp);
+    /**
+     * @dev Replace the auction parameters; running auctions keep their endTime and revealEndTime
+     * @param newConfig Durations within MIN_AUCTION_DURATION..MAX_AUCTION_DURATION, 1..MAX_AUCTIONS_LIMIT auctions
+     */
+    function updateConfig(AuctionConfig calldata newConfig) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setConfig(newConfig);
     }
 
     /**
      * @dev Update auction duration for future auctions
      */
     function updateAuctionDuration(uint256 newDuration) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        // Note: This would require a state variable for auction duration
-        // For simplicity, using constant for now
+        AuctionConfig memory newConfig = config;
+        newConfig.auctionDuration = newDuration;
+        _setConfig(newConfig);
     }
 
     /**
@@ -748,6 +1371,53 @@ contract MarketAuction is AccessControl {
         if (goodType == GOOD_TYPE_ARTIFACTS) return "Ancient Artifacts";
         return "Unknown Good";
     }
+
+    /**
+     * @dev Validate and store the auction parameters
+     */
+    function _setConfig(AuctionConfig memory newConfig) internal {
+        if (
+            newConfig.auctionDuration < MIN_AUCTION_DURATION ||
+            newConfig.auctionDuration > MAX_AUCTION_DURATION ||
+            newConfig.maxSimultaneousAuctions == 0 ||
+            newConfig.maxSimultaneousAuctions > MAX_AUCTIONS_LIMIT ||
+            newConfig.revealDuration < MIN_AUCTION_DURATION ||
+            newConfig.revealDuration > MAX_AUCTION_DURATION
+        ) revert InvalidConfig();
+
+        config = newConfig;
+        emit ConfigUpdated(newConfig);
+    }
+
+    function _registerParticipant(uint256 auctionId, address bidder) internal {
+        if (!participantRegistry[auctionId][bidder]) {
+            participantRegistry[auctionId][bidder] = true;
+            auctionParticipants[auctionId].push(bidder);
+            auctions[auctionId].participantCount++;
+        }
+    }
+
+    /**
+     * @dev End an auction that never got a usable reserve price, without a winner
+     */
+    function _cancelAuction(uint256 auctionId) internal {
+        Auction storage auction = auctions[auctionId];
+        if (auction.isResolved) return;
+
+        _deactivate(auction);
+        auction.isResolved = true;
+        emit AuctionEnded(auctionId, false, block.timestamp);
+    }
+
+    function _deactivate(Auction storage auction) internal {
+        if (auction.isActive) {
+            auction.isActive = false;
+            if (activeAuctionCount > 0) {
+                activeAuctionCount--;
+            }
+        }
+    }
+
     function _resetPreviousBid(Bid storage bidderState) internal {
         if (bidderState.isActive) {
             bidderState.isActive = false;
@@ -760,24 +1430,47 @@ contract MarketAuction is AccessControl {
         uint256 auctionId,
         Auction storage auction,
         Bid storage bidderState,
-        externalEuint64 bidAmount
+        externalEuint64 bidAmount,
+        address bidder
     ) internal {
         uint64 plainBid = uint64(uint256(externalEuint64.unwrap(bidAmount)));
+        if (auction.format == AuctionFormat.Dutch) {
+            // A bid covering the current price buys at that price (placeBid then closes the auction)
+            uint64 price = dutchPrice(auctionId);
+            if (plainBid < price) revert BidRejected();
+            plainBid = price;
+        }
         if (plainBid < auction.reservePricePlain) revert BidRejected();
-        if (plainBid <= auction.highestBidPlain) revert BidRejected();
+        if (plainBid <= auction.highestBidPlain) {
+            _handlePlaintextRunnerUpBid(auctionId, auction, bidderState, plainBid, bidder);
+            return;
+        }
+
+        // Lock the bid in gold; reverts when the bidder cannot cover it
+        _lockPlainBidGold(bidder, auctionId, plainBid);
 
         address previousWinner = auction.currentWinner;
+        if (auction.format == AuctionFormat.SecondPrice && previousWinner != address(0) && previousWinner != bidder) {
+            // The outbid leader becomes the runner-up
+            auction.secondHighestBidPlain = auction.highestBidPlain;
+            auction.secondHighestBid = auction.highestBid;
+        }
         if (previousWinner != address(0)) {
             Bid storage previousBid = bids[auctionId][previousWinner];
             previousBid.isWinning = false;
             previousBid.isActive = false;
             previousBid.amountPlain = 0;
+
+            // Outbid: return the previous winner's gold (raising your own bid re-locked it above)
+            if (previousWinner != bidder) {
+                _releaseBidGold(previousWinner, auctionId);
+            }
         }
 
         auction.highestBidPlain = plainBid;
-        auction.highestBid = euint64.wrap(externalEuint64.unwrap(bidAmount));
-        auction.currentWinner = msg.sender;
-        auction.highestBidder = eaddress.wrap(bytes32(uint256(uint160(msg.sender))));
+        auction.highestBid = euint64.wrap(bytes32(uint256(plainBid)));
+        auction.currentWinner = bidder;
+        auction.highestBidder = eaddress.wrap(bytes32(uint256(uint160(bidder))));
 
         bidderState.amount = auction.highestBid;
         bidderState.timestamp = block.timestamp;
@@ -787,6 +1480,92 @@ contract MarketAuction is AccessControl {
         bidderState.amountPlain = plainBid;
     }
 
+    /**
+     * @dev A plaintext bid that does not beat the leader: rejected, except in second-price auctions
+     * where it raises the runner-up price (ties with the leader included)
+     */
+    function _handlePlaintextRunnerUpBid(
+        uint256 auctionId,
+        Auction storage auction,
+        Bid storage bidderState,
+        uint64 plainBid,
+        address bidder
+    ) internal {
+        if (_isOutranked(auction, plainBid, bidder)) revert BidRejected();
+
+        // The bid must be covered like any other, but only the leader's gold stays locked
+        _lockPlainBidGold(bidder, auctionId, plainBid);
+        _releaseBidGold(bidder, auctionId);
+
+        auction.secondHighestBidPlain = plainBid;
+        auction.secondHighestBid = euint64.wrap(bytes32(uint256(plainBid)));
+
+        bidderState.amount = auction.secondHighestBid;
+        bidderState.timestamp = block.timestamp;
+        bidderState.isActive = true;
+        bidderState.isWinning = false;
+        bidderState.usesPlaintext = true;
+        bidderState.amountPlain = plainBid;
+    }
+
+    /**
+     * @dev Whether a plaintext bid can neither lead nor (in second-price auctions) raise the runner-up
+     * price; the leader cannot set their own price
+     */
+    function _isOutranked(Auction storage auction, uint64 plainBid, address bidder) internal view returns (bool) {
+        if (plainBid < auction.reservePricePlain) return true;
+        if (plainBid > auction.highestBidPlain) return false;
+        return auction.format != AuctionFormat.SecondPrice ||
+            plainBid <= auction.secondHighestBidPlain ||
+            bidder == auction.currentWinner;
+    }
+
+    /**
+     * @dev An encrypted Dutch bid escrows max(price, reserve) and asks for public decryption of
+     * whether it covers it; onDutchBidDecrypted decides. Only one bid is pending at a time.
+     */
+    function _handleEncryptedDutchBid(
+        uint256 auctionId,
+        Auction storage auction,
+        Bid storage bidderState,
+        euint64 encryptedBid
+    ) internal {
+        if (dutchPendingBidder[auctionId] != address(0)) revert DutchBidPending();
+
+        euint64 price = FHE.max(FHE.asEuint64(dutchPrice(auctionId)), auction.reservePrice);
+        ebool accepted = FHE.ge(encryptedBid, price);
+        if (address(shadowMerchants) != address(0)) {
+            // lockBidGold locks zero when the gold does not cover the price
+            FHE.allowTransient(price, address(shadowMerchants));
+            euint64 locked = shadowMerchants.lockBidGold(msg.sender, auctionId, price, 0, false);
+            accepted = FHE.and(accepted, FHE.eq(locked, price));
+        }
+        FHE.allowThis(price);
+        FHE.allow(price, msg.sender);
+
+        auction.highestBid = price;
+        dutchPendingBidder[auctionId] = msg.sender;
+
+        bidderState.amount = price;
+        bidderState.timestamp = block.timestamp;
+        bidderState.isActive = true;
+
+        uint256 requestId = _requestDecryption(ebool.unwrap(accepted), this.onDutchBidDecrypted.selector);
+        dutchBidRequestAuction[requestId] = auctionId;
+
+        emit DutchBidDecryptionRequested(auctionId, msg.sender, requestId, block.timestamp);
+    }
+
+    /**
+     * @dev A Dutch auction ends with its first accepted bid
+     */
+    function _closeIfDutchSold(uint256 auctionId) internal {
+        Auction storage auction = auctions[auctionId];
+        if (auction.format == AuctionFormat.Dutch && auction.currentWinner != address(0)) {
+            _closeAuction(auctionId, true);
+        }
+    }
+
     function _handleEncryptedBid(
         uint256 auctionId,
         Auction storage auction,
@@ -796,45 +1575,144 @@ contract MarketAuction is AccessControl {
     ) internal {
         if (proof.length == 0) revert BidRejected();
         euint64 encryptedBid = FHE.fromExternal(bidAmount, proof);
+        if (auction.format == AuctionFormat.Dutch) {
+            _handleEncryptedDutchBid(auctionId, auction, bidderState, encryptedBid);
+            return;
+        }
+        if (address(shadowMerchants) != address(0)) {
+            // The effective bid is the gold actually locked: zero when the bidder cannot cover it
+            FHE.allowTransient(encryptedBid, address(shadowMerchants));
+            encryptedBid = shadowMerchants.lockBidGold(msg.sender, auctionId, encryptedBid, 0, false);
+        }
         FHE.allowThis(encryptedBid);
         FHE.allow(encryptedBid, msg.sender);
 
         euint64 previousHighest = auction.highestBid;
+        eaddress bidder = FHE.asEaddress(msg.sender);
         ebool meetsReserve = FHE.ge(encryptedBid, auction.reservePrice);
         ebool isHigherBid = FHE.gt(encryptedBid, auction.highestBid);
         ebool isValidBid = FHE.and(meetsReserve, isHigherBid);
 
+        if (auction.format == AuctionFormat.SecondPrice) {
+            _updateEncryptedRunnerUp(auction, encryptedBid, bidder, meetsReserve, isValidBid);
+        }
+
+        // The leader stays encrypted: a lower bid landing last must not take its place
         auction.highestBid = FHE.select(isValidBid, encryptedBid, auction.highestBid);
-        auction.highestBidder = FHE.select(
-            isValidBid,
-            FHE.asEaddress(msg.sender),
-            auction.highestBidder
-        );
+        auction.highestBidder = FHE.select(isValidBid, bidder, auction.highestBidder);
 
         bool bidAccepted = euint64.unwrap(auction.highestBid) != euint64.unwrap(previousHighest);
         if (!bidAccepted) revert BidRejected();
 
-        address previousWinner = auction.currentWinner;
-        if (previousWinner != address(0)) {
-            Bid storage previousBid = bids[auctionId][previousWinner];
-            previousBid.isWinning = false;
-            previousBid.isActive = false;
+        if (address(shadowMerchants) != address(0)) {
+            _settleEncryptedBidEscrows(auctionId, encryptedBid, isValidBid);
         }
 
-        auction.currentWinner = msg.sender;
-
         bidderState.amount = encryptedBid;
         bidderState.timestamp = block.timestamp;
         bidderState.isActive = true;
-        bidderState.isWinning = true;
         bidderState.usesPlaintext = false;
         bidderState.amountPlain = 0;
 
         FHE.allowThis(auction.highestBid);
-        FHE.allow(auction.highestBid, msg.sender);
-        auction.highestBidder = FHE.asEaddress(msg.sender);
         FHE.allowThis(auction.highestBidder);
-        FHE.allow(auction.highestBidder, msg.sender);
+    }
+
+    /**
+     * @dev Second-price bookkeeping, before highestBid changes: a new leader pushes the previous
+     * highest bid (or the reserve, without one) to runner-up, a lower bid above the runner-up replaces it.
+     * The leader's own bids leave the runner-up unchanged (they cannot set their own price)
+     */
+    function _updateEncryptedRunnerUp(
+        Auction storage auction,
+        euint64 encryptedBid,
+        eaddress bidder,
+        ebool meetsReserve,
+        ebool isValidBid
+    ) internal {
+        ebool raisesRunnerUp = FHE.and(meetsReserve, FHE.gt(encryptedBid, auction.secondHighestBid));
+        auction.secondHighestBid = FHE.select(
+            FHE.eq(bidder, auction.highestBidder),
+            auction.secondHighestBid,
+            FHE.select(
+                isValidBid,
+                FHE.max(auction.highestBid, auction.secondHighestBid),
+                FHE.select(raisesRunnerUp, encryptedBid, auction.secondHighestBid)
+            )
+        );
+        FHE.allowThis(auction.secondHighestBid);
+    }
+
+    /**
+     * @dev Price the winner pays: their own bid, or the runner-up bid in second-price auctions
+     */
+    function _winningPrice(Auction storage auction) internal view returns (euint64 price, uint64 pricePlain) {
+        if (auction.format == AuctionFormat.SecondPrice) {
+            return (auction.secondHighestBid, auction.secondHighestBidPlain);
+        }
+        return (auction.highestBid, auction.highestBidPlain);
+    }
+
+    /**
+     * @dev Homomorphic outbid refunds: a valid bid refunds every other bidder (only the previous
+     * leader still has gold locked) and the bidder's own previous escrow, a rejected one refunds
+     * only the gold it just locked
+     */
+    function _settleEncryptedBidEscrows(uint256 auctionId, euint64 locked, ebool isValidBid) internal {
+        FHE.allowTransient(isValidBid, address(shadowMerchants));
+        address[] storage participants = auctionParticipants[auctionId];
+        for (uint256 i = 0; i < participants.length; i++) {
+            if (participants[i] != msg.sender) {
+                shadowMerchants.releaseBidGoldIf(participants[i], auctionId, isValidBid);
+            }
+        }
+
+        shadowMerchants.settleBidGoldIf(msg.sender, auctionId, locked, isValidBid);
+    }
+
+    /**
+     * @dev Escrow a plaintext amount of the bidder's gold, when linked to the game
+     */
+    function _lockPlainBidGold(address bidder, uint256 auctionId, uint64 amount) internal {
+        if (address(shadowMerchants) != address(0)) {
+            shadowMerchants.lockBidGold(bidder, auctionId, euint64.wrap(bytes32(0)), amount, true);
+        }
+    }
+
+    /**
+     * @dev Return a bidder's escrowed gold, when linked to the game
+     */
+    function _releaseBidGold(address bidder, uint256 auctionId) internal {
+        if (address(shadowMerchants) != address(0)) {
+            shadowMerchants.releaseBidGold(bidder, auctionId);
+        }
+    }
+
+    /**
+     * @dev Once an auction ends, return the escrowed gold of every bidder except the winner and drop
+     * the commitments nobody revealed with their deposits. An auction ended early by an admin, before
+     * its reveal window closed, returns those deposits too
+     */
+    function _releaseLosingBids(uint256 auctionId, address winner) internal {
+        bool forfeitDeposits = block.timestamp > auctions[auctionId].revealEndTime;
+        address[] storage participants = auctionParticipants[auctionId];
+        for (uint256 i = 0; i < participants.length; i++) {
+            address bidder = participants[i];
+            // Only commit-reveal bids have commitments
+            Bid storage bidderState = bids[auctionId][bidder];
+            bool unrevealed = bidderState.commitment != bytes32(0);
+            if (unrevealed) {
+                bidderState.commitment = bytes32(0);
+                emit BidForfeited(auctionId, bidder, block.timestamp);
+            }
+
+            if (bidder == winner || address(shadowMerchants) == address(0)) continue;
+            // A single external call site: _closeAuction is inlined where auctions end
+            (unrevealed && forfeitDeposits ? shadowMerchants.forfeitBidGold : shadowMerchants.releaseBidGold)(
+                bidder,
+                auctionId
+            );
+        }
     }
 
     function _decryptReservePrice(externalEuint64 reservePrice, bytes calldata proof)
@@ -3,6 +3,7 @@ pragma solidity ^0.8.24;
 
 import {FHE, euint8, euint16, euint64, ebool, eaddress, externalEuint8, externalEuint16, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {FHEVMConfig} from "./FHEVMConfig.sol";
 
 /**
  * @title ShadowMerchants
@@ -10,7 +11,7 @@ import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
  * @notice A confidential strategy game where players manage encrypted resources
  * and compete in a hidden marketplace using Fully Homomorphic Encryption
  */
-contract ShadowMerchants is AccessControl {
+contract ShadowMerchants is AccessControl, FHEVMConfig {
 
     // ============ CONSTANTS ============
 
@@ -18,27 +19,49 @@ contract ShadowMerchants is AccessControl {
     bytes32 public constant AUCTION_ROLE = keccak256("AUCTION_ROLE");
     bytes32 public constant MISSION_ROLE = keccak256("MISSION_ROLE");
 
-    uint256 public constant INITIAL_GOLD = 1000;
     uint8 public constant INITIAL_REPUTATION = 100;
     uint8 public constant INITIAL_ENERGY = 100;
     uint8 public constant MAX_ENERGY = 100;
-    uint8 public constant ENERGY_REGEN_AMOUNT = 10;
     uint256 public constant ENERGY_REGEN_INTERVAL = 300; // 5 minutes
-    uint8 public constant MAX_PLAYERS = 20;
-    uint256 public constant ROUND_DURATION = 900; // 15 minutes
-    uint8 public constant MAX_ROUNDS = 20;
+
+    // Bounds for the GameConfig set by updateConfig (and for per-game round lengths)
+    uint64 public constant MAX_INITIAL_GOLD = 1_000_000;
+    uint256 public constant MIN_ROUND_DURATION = 60;
+    uint256 public constant MAX_ROUND_DURATION = 1 days;
+    uint8 public constant MAX_PLAYERS_LIMIT = 50;
+    uint8 public constant MAX_ROUNDS_LIMIT = 100;
+
+    // End-of-game score: gold + reputation * weight + inventory items * item value
+    uint64 public constant SCORE_REPUTATION_WEIGHT = 10;
+    uint64 public constant SCORE_ITEM_VALUE = 50;
 
     // ============ STRUCTS ============
 
+    /**
+     * @dev Tunable game parameters, set by game managers through updateConfig
+     * @notice roundDuration, maxRounds and maxPlayers are the createGame defaults and caps;
+     * running games keep the values they were created with
+     */
+    struct GameConfig {
+        uint64 initialGold;       // Starting gold of plaintext players (clients encrypt the same amount)
+        uint8 energyRegenAmount;  // Energy regained per regeneration / round
+        uint8 maxPlayers;
+        uint8 maxRounds;
+        uint256 roundDuration;
+    }
+
     struct GameState {
         uint256 currentRound;
         uint256 gameStartTime;
         uint256 lastRoundTime;
+        uint256 roundDuration;
         uint8 maxPlayers;
+        uint8 maxRounds;
         uint8 playerCount;
         bool gameActive;
         bool gameEnded;
         address winner;
+        address creator;
     }
 
     struct PlayerProfile {
@@ -53,6 +76,7 @@ contract ShadowMerchants is AccessControl {
         uint64 goldPlain;
         uint16 reputationPlain;
         uint8 energyPlain;
+        uint8[10] inventoryPlain;
 
         // Public data
         bool isActive;
@@ -63,48 +87,86 @@ contract ShadowMerchants is AccessControl {
         uint8 publicReputationTier; // 1-5, derived from private reputation
     }
 
+    struct BidEscrow {
+        euint64 amount;      // Encrypted gold locked by an encrypted player
+        uint64 amountPlain;  // Gold locked by a plaintext player
+        uint256 gameId;      // Game whose profile the gold came from (and returns to)
+        bool active;
+    }
+
     // ============ STATE VARIABLES ============
 
-    GameState public gameState;
-    mapping(address => PlayerProfile) public players;
-    address[] public activePlayers;
-    mapping(address => uint256) private playerIndex; // Optimize: player => index in activePlayers for O(1) removal
+    GameConfig public config;
+    uint256 public gameCounter;
+    mapping(uint256 => GameState) public games;
+    mapping(uint256 => mapping(address => PlayerProfile)) public players; // gameId => player => profile
+    mapping(uint256 => address[]) public activePlayers;
+    mapping(uint256 => mapping(address => uint256)) private playerIndex; // Optimize: gameId => player => index in activePlayers for O(1) removal
+    mapping(address => uint256) public currentGame; // Game a player last joined (0 = none); player actions apply to it
+    mapping(uint256 => mapping(address => BidEscrow)) public bidEscrows; // auctionId => bidder => gold locked by the bid
+
+    // Encrypted winner selection: only the arg-max address is decrypted
+    mapping(uint256 => uint256) public winnerDecryptionRequestId; // gameId => decryption requestId
+    mapping(uint256 => bool) public winnerDecryptionPending;      // gameId => waiting for the oracle
+    mapping(uint256 => uint256) public winnerDecryptionGame;      // decryption requestId => gameId
 
     // Events for client synchronization
-    event GameStarted(uint256 startTime, uint8 maxPlayers);
-    event GameEnded(address indexed winner, uint256 endTime);
-    event PlayerJoined(address indexed player, uint256 round);
-    event PlayerLeft(address indexed player, uint256 round);
-    event RoundProgressed(uint256 newRound, uint256 timestamp);
+    event GameCreated(
+        uint256 indexed gameId,
+        address indexed creator,
+        uint8 maxPlayers,
+        uint256 roundDuration,
+        uint8 maxRounds,
+        uint256 startTime
+    );
+    event GameEnded(uint256 indexed gameId, address indexed winner, uint256 endTime);
+    event PlayerJoined(uint256 indexed gameId, address indexed player, uint256 round);
+    event PlayerLeft(uint256 indexed gameId, address indexed player, uint256 round);
+    event RoundProgressed(uint256 indexed gameId, uint256 newRound, uint256 timestamp);
     event EnergyRegenerated(address indexed player, uint256 timestamp);
     event ResourcesUpdated(address indexed player, uint256 timestamp);
+    event BidGoldLocked(address indexed player, uint256 indexed auctionId, uint256 timestamp);
+    event BidGoldReleased(address indexed player, uint256 indexed auctionId, uint256 timestamp);
+    event BidGoldForfeited(address indexed player, uint256 indexed auctionId, uint256 timestamp);
+    event InventoryCredited(address indexed player, uint8 indexed goodType, uint256 timestamp);
+    event WinnerDecryptionRequested(uint256 indexed gameId, uint256 indexed requestId, uint256 timestamp);
+    event ConfigUpdated(GameConfig config);
 
     // ============ ERRORS ============
 
+    error GameNotFound();
     error GameNotActive();
-    error GameAlreadyStarted();
     error GameFull();
+    error InvalidGameSettings();
+    error InvalidConfig();
     error PlayerAlreadyJoined();
+    error PlayerInAnotherGame();
     error PlayerNotActive();
     error InsufficientResources();
     error InvalidInput();
     error ActionTooFrequent();
     error GameNotEnded();
+    error UnknownDecryptionRequest();
 
     // ============ MODIFIERS ============
 
+    modifier validGame(uint256 gameId) {
+        if (gameId == 0 || gameId > gameCounter) revert GameNotFound();
+        _;
+    }
+
     modifier onlyActiveGame() {
-        if (!gameState.gameActive) revert GameNotActive();
+        if (!games[currentGame[msg.sender]].gameActive) revert GameNotActive();
         _;
     }
 
     modifier onlyActivePlayers() {
-        if (!players[msg.sender].isActive) revert PlayerNotActive();
+        if (!_profile(msg.sender).isActive) revert PlayerNotActive();
         _;
     }
 
     modifier rateLimited() {
-        if (block.timestamp < players[msg.sender].lastActionTime + 10) {
+        if (block.timestamp < _profile(msg.sender).lastActionTime + 10) {
             revert ActionTooFrequent();
         }
         _;
@@ -116,76 +178,123 @@ contract ShadowMerchants is AccessControl {
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
         _grantRole(GAME_MANAGER_ROLE, msg.sender);
 
-        // Initialize game state
-        gameState = GameState({
-            currentRound: 0,
-            gameStartTime: 0,
-            lastRoundTime: 0,
-            maxPlayers: MAX_PLAYERS,
-            playerCount: 0,
-            gameActive: false,
-            gameEnded: false,
-            winner: address(0)
+        config = GameConfig({
+            initialGold: 1000,
+            energyRegenAmount: 10,
+            maxPlayers: 20,
+            maxRounds: 20,
+            roundDuration: 900 // 15 minutes
         });
     }
 
     // ============ GAME MANAGEMENT ============
 
     /**
-     * @dev Start a new game
-     * @notice Only game managers can start games
+     * @dev Create and start a new game, open for joining during its first 3 rounds
+     * @notice Anyone can create a game; several games run side by side
+     * @param maxPlayers Player cap (0 = config.maxPlayers, at most config.maxPlayers)
+     * @param roundDuration Round length in seconds (0 = config.roundDuration, MIN_ROUND_DURATION..MAX_ROUND_DURATION)
+     * @param maxRounds Rounds before the game finalizes (0 = config.maxRounds, at most config.maxRounds)
+     * @return gameId ID of the new game
      */
-    function startGame() external onlyRole(GAME_MANAGER_ROLE) {
-        if (gameState.gameActive) revert GameAlreadyStarted();
+    function createGame(uint8 maxPlayers, uint256 roundDuration, uint8 maxRounds) external returns (uint256 gameId) {
+        GameConfig memory defaults = config;
+        if (maxPlayers == 0) maxPlayers = defaults.maxPlayers;
+        if (roundDuration == 0) roundDuration = defaults.roundDuration;
+        if (maxRounds == 0) maxRounds = defaults.maxRounds;
+        if (
+            maxPlayers > defaults.maxPlayers ||
+            maxRounds > defaults.maxRounds ||
+            roundDuration < MIN_ROUND_DURATION ||
+            roundDuration > MAX_ROUND_DURATION
+        ) revert InvalidGameSettings();
+
+        gameCounter++;
+        gameId = gameCounter;
+
+        games[gameId] = GameState({
+            currentRound: 1,
+            gameStartTime: block.timestamp,
+            lastRoundTime: block.timestamp,
+            roundDuration: roundDuration,
+            maxPlayers: maxPlayers,
+            maxRounds: maxRounds,
+            playerCount: 0,
+            gameActive: true,
+            gameEnded: false,
+            winner: address(0),
+            creator: msg.sender
+        });
 
-        gameState.gameActive = true;
-        gameState.gameStartTime = block.timestamp;
-        gameState.lastRoundTime = block.timestamp;
-        gameState.currentRound = 1;
-        gameState.gameEnded = false;
-        gameState.winner = address(0);
+        emit GameCreated(gameId, msg.sender, maxPlayers, roundDuration, maxRounds, block.timestamp);
+    }
 
-        emit GameStarted(block.timestamp, gameState.maxPlayers);
+    /**
+     * @dev Replace the game parameters
+     * @notice Only game managers; applies to games created and players joining afterwards, while
+     * energy regeneration uses the new amount right away
+     * @param newConfig Parameters within MAX_INITIAL_GOLD, 1..MAX_ENERGY regen,
+     * MIN_ROUND_DURATION..MAX_ROUND_DURATION, 1..MAX_PLAYERS_LIMIT players, 1..MAX_ROUNDS_LIMIT rounds
+     */
+    function updateConfig(GameConfig calldata newConfig) external onlyRole(GAME_MANAGER_ROLE) {
+        if (
+            newConfig.initialGold > MAX_INITIAL_GOLD ||
+            newConfig.energyRegenAmount == 0 ||
+            newConfig.energyRegenAmount > MAX_ENERGY ||
+            newConfig.maxPlayers == 0 ||
+            newConfig.maxPlayers > MAX_PLAYERS_LIMIT ||
+            newConfig.maxRounds == 0 ||
+            newConfig.maxRounds > MAX_ROUNDS_LIMIT ||
+            newConfig.roundDuration < MIN_ROUND_DURATION ||
+            newConfig.roundDuration > MAX_ROUND_DURATION
+        ) revert InvalidConfig();
+
+        config = newConfig;
+        emit ConfigUpdated(newConfig);
     }
 
     /**
-     * @dev End the current game
+     * @dev End a game early
      * @notice Only game managers can end games
      */
-    function endGame() external onlyRole(GAME_MANAGER_ROLE) {
-        if (!gameState.gameActive) revert GameNotActive();
+    function endGame(uint256 gameId) external onlyRole(GAME_MANAGER_ROLE) validGame(gameId) {
+        if (!games[gameId].gameActive) revert GameNotActive();
 
-        _finalizeGame();
+        _finalizeGame(gameId);
     }
 
     /**
-     * @dev Progress to the next round
-     * @notice Can be called by anyone when round time expires
+     * @dev Progress a game to its next round
+     * @notice Can be called by anyone when the game's round time expires
      */
-    function progressRound() external onlyActiveGame {
-        if (block.timestamp < gameState.lastRoundTime + ROUND_DURATION) {
+    function progressRound(uint256 gameId) external validGame(gameId) {
+        GameState storage game = games[gameId];
+        if (!game.gameActive) revert GameNotActive();
+        if (block.timestamp < game.lastRoundTime + game.roundDuration) {
             revert ActionTooFrequent();
         }
 
-        if (gameState.currentRound >= MAX_ROUNDS) {
-            _finalizeGame();
+        if (game.currentRound >= game.maxRounds) {
+            _finalizeGame(gameId);
             return;
         }
 
-        gameState.currentRound++;
-        gameState.lastRoundTime = block.timestamp;
+        game.currentRound++;
+        game.lastRoundTime = block.timestamp;
 
         // Regenerate energy for all players
-        _regenerateAllPlayersEnergy();
+        _regenerateAllPlayersEnergy(gameId);
 
-        emit RoundProgressed(gameState.currentRound, block.timestamp);
+        emit RoundProgressed(gameId, game.currentRound, block.timestamp);
     }
 
     // ============ PLAYER MANAGEMENT ============
 
     /**
-     * @dev Join the current game
-     * @notice Players can join during the first 3 rounds
+     * @dev Join a game
+     * @notice Players can join during the first 3 rounds, and only once the game they are
+     * currently in has ended or been left
+     * @param gameId Game to join
      * @param encryptedGold Encrypted starting gold amount
      * @param goldProof Proof for encrypted gold
      * @param encryptedReputation Encrypted starting reputation amount
@@ -194,17 +303,24 @@ contract ShadowMerchants is AccessControl {
      * @param energyProof Proof for encrypted energy
      */
     function joinGame(
+        uint256 gameId,
         externalEuint64 encryptedGold,
         bytes calldata goldProof,
         externalEuint16 encryptedReputation,
         bytes calldata reputationProof,
         externalEuint8 encryptedEnergy,
         bytes calldata energyProof
-    ) external {
-        if (!gameState.gameActive) revert GameNotActive();
-        if (gameState.playerCount >= gameState.maxPlayers) revert GameFull();
-        if (players[msg.sender].hasJoined) revert PlayerAlreadyJoined();
-        if (gameState.currentRound > 3) revert GameNotActive(); // Can only join in first 3 rounds
+    ) external validGame(gameId) {
+        GameState storage game = games[gameId];
+        if (!game.gameActive) revert GameNotActive();
+        if (game.playerCount >= game.maxPlayers) revert GameFull();
+        if (players[gameId][msg.sender].hasJoined) revert PlayerAlreadyJoined();
+        if (game.currentRound > 3) revert GameNotActive(); // Can only join in first 3 rounds
+
+        uint256 previousGame = currentGame[msg.sender];
+        if (previousGame != 0 && players[previousGame][msg.sender].isActive && !games[previousGame].gameEnded) {
+            revert PlayerInAnotherGame();
+        }
 
         // Detect if using plaintext (empty proofs mean use defaults)
         bool usesPlaintext = goldProof.length == 0 && reputationProof.length == 0 && energyProof.length == 0;
@@ -233,55 +349,65 @@ contract ShadowMerchants is AccessControl {
         }
 
         euint8[10] memory emptyInventory;
+        uint8[10] memory emptyInventoryPlain;
 
-        players[msg.sender] = PlayerProfile({
+        players[gameId][msg.sender] = PlayerProfile({
             gold: startingGold,
             reputation: startingReputation,
             energy: startingEnergy,
             inventory: emptyInventory,
             usesPlaintext: usesPlaintext,
-            goldPlain: usesPlaintext ? uint64(INITIAL_GOLD) : 0,
+            goldPlain: usesPlaintext ? config.initialGold : 0,
             reputationPlain: usesPlaintext ? uint16(INITIAL_REPUTATION) : 0,
             energyPlain: usesPlaintext ? uint8(INITIAL_ENERGY) : 0,
+            inventoryPlain: emptyInventoryPlain,
             isActive: true,
             hasJoined: true,
-            joinedRound: gameState.currentRound,
+            joinedRound: game.currentRound,
             lastActionTime: block.timestamp,
             lastEnergyRegen: block.timestamp,
             publicReputationTier: 2 // Starting tier (1-5 scale)
         });
 
-        activePlayers.push(msg.sender);
-        playerIndex[msg.sender] = activePlayers.length - 1; // Track index for O(1) removal
-        gameState.playerCount++;
+        address[] storage gamePlayers = activePlayers[gameId];
+        gamePlayers.push(msg.sender);
+        playerIndex[gameId][msg.sender] = gamePlayers.length - 1; // Track index for O(1) removal
+        game.playerCount++;
+        currentGame[msg.sender] = gameId;
 
-        emit PlayerJoined(msg.sender, gameState.currentRound);
+        emit PlayerJoined(gameId, msg.sender, game.currentRound);
     }
 
     /**
      * @dev Leave the current game - OPTIMIZED: O(1) removal using swap-and-pop
-     * @notice Players can leave at any time
+     * @notice Players can leave at any time but cannot rejoin that game: hasJoined stays set, so
+     * escrows still refunded into the left profile never add to a fresh one
      */
     function leaveGame() external onlyActivePlayers {
-        players[msg.sender].isActive = false;
-        players[msg.sender].hasJoined = false;
+        uint256 gameId = currentGame[msg.sender];
+        PlayerProfile storage player = players[gameId][msg.sender];
+        player.isActive = false;
 
         // O(1) removal using swap-and-pop with playerIndex mapping
-        uint256 index = playerIndex[msg.sender];
-        activePlayers[index] = activePlayers[activePlayers.length - 1];
-        playerIndex[activePlayers[index]] = index;
-        activePlayers.pop();
-        delete playerIndex[msg.sender];
+        address[] storage gamePlayers = activePlayers[gameId];
+        uint256 index = playerIndex[gameId][msg.sender];
+        gamePlayers[index] = gamePlayers[gamePlayers.length - 1];
+        playerIndex[gameId][gamePlayers[index]] = index;
+        gamePlayers.pop();
+        delete playerIndex[gameId][msg.sender];
 
-        gameState.playerCount--;
+        games[gameId].playerCount--;
+        delete currentGame[msg.sender];
 
-        emit PlayerLeft(msg.sender, gameState.currentRound);
+        emit PlayerLeft(gameId, msg.sender, games[gameId].currentRound);
     }
 
     // ============ RESOURCE MANAGEMENT ============
 
     /**
-     * @dev Spend gold for game actions
+     * @dev Spend gold for game actions in the caller's current game
+     * @notice Plaintext players pass the amount as the handle with an empty proof and revert with
+     * InsufficientResources when short; encrypted spends are silently skipped instead.
      * @param amount Encrypted amount to spend
      * @param proof Input proof for the encrypted amount
      */
@@ -291,11 +417,22 @@ contract ShadowMerchants is AccessControl {
         onlyActiveGame
         rateLimited
     {
+        PlayerProfile storage player = _profile(msg.sender);
+
+        if (player.usesPlaintext) {
+            uint64 plainAmount = uint64(_plaintextAmount(externalEuint64.unwrap(amount), proof, type(uint64).max));
+            if (player.goldPlain < plainAmount) revert InsufficientResources();
+
+            player.goldPlain -= plainAmount;
+            player.lastActionTime = block.timestamp;
+
+            emit ResourcesUpdated(msg.sender, block.timestamp);
+            return;
+        }
+
         euint64 spendAmount = FHE.fromExternal(amount, proof);
         FHE.allowThis(spendAmount);
 
-        PlayerProfile storage player = players[msg.sender];
-
         // Check if player has sufficient gold
         ebool hasSufficientGold = FHE.ge(player.gold, spendAmount);
 
@@ -318,7 +455,8 @@ contract ShadowMerchants is AccessControl {
     }
 
     /**
-     * @dev Spend energy for game actions
+     * @dev Spend energy for game actions in the caller's current game
+     * @notice Same plaintext convention as spendGold
      * @param amount Encrypted amount to spend
      * @param proof Input proof for the encrypted amount
      */
@@ -328,11 +466,22 @@ contract ShadowMerchants is AccessControl {
         onlyActiveGame
         rateLimited
     {
+        PlayerProfile storage player = _profile(msg.sender);
+
+        if (player.usesPlaintext) {
+            uint8 plainAmount = uint8(_plaintextAmount(externalEuint8.unwrap(amount), proof, type(uint8).max));
+            if (player.energyPlain < plainAmount) revert InsufficientResources();
+
+            player.energyPlain -= plainAmount;
+            player.lastActionTime = block.timestamp;
+
+            emit ResourcesUpdated(msg.sender, block.timestamp);
+            return;
+        }
+
         euint8 spendAmount = FHE.fromExternal(amount, proof);
         FHE.allowThis(spendAmount);
 
-        PlayerProfile storage player = players[msg.sender];
-
         // Check if player has sufficient energy
         ebool hasSufficientEnergy = FHE.ge(player.energy, spendAmount);
 
@@ -353,19 +502,27 @@ contract ShadowMerchants is AccessControl {
     }
 
     /**
-     * @dev Regenerate energy for a player
+     * @dev Regenerate energy for a player in their current game
      * @notice Can be called by anyone, but limited by time interval
      */
     function regenerateEnergy() external onlyActivePlayers {
-        PlayerProfile storage player = players[msg.sender];
+        PlayerProfile storage player = _profile(msg.sender);
 
         if (block.timestamp < player.lastEnergyRegen + ENERGY_REGEN_INTERVAL) {
             revert ActionTooFrequent();
         }
 
+        if (player.usesPlaintext) {
+            player.energyPlain = _cappedEnergy(player.energyPlain);
+            player.lastEnergyRegen = block.timestamp;
+
+            emit EnergyRegenerated(msg.sender, block.timestamp);
+            return;
+        }
+
         // Regenerate energy (max 100)
         euint8 maxEnergy = FHE.asEuint8(uint8(MAX_ENERGY));
-        euint8 regenAmount = FHE.asEuint8(uint8(ENERGY_REGEN_AMOUNT));
+        euint8 regenAmount = FHE.asEuint8(config.energyRegenAmount);
         euint8 newEnergy = FHE.add(player.energy, regenAmount);
 
         // Cap at max energy
@@ -384,42 +541,281 @@ contract ShadowMerchants is AccessControl {
         emit EnergyRegenerated(msg.sender, block.timestamp);
     }
 
+    // ============ AUCTION ESCROW ============
+
+    /**
+     * @dev Lock gold behind a MarketAuction bid
+     * @notice The gold comes from the bidder's current game and returns there when released, even
+     * if the bidder has moved on to another game by then. A new bid on the same auction first
+     * releases the bidder's previous escrow, except an encrypted amount: that one is added to it, and
+     * settleBidGoldIf later returns either the new lock or the previous escrow. Plaintext
+     * players revert with InsufficientResources; encrypted players lock (and therefore bid) zero
+     * when their gold does not cover the amount.
+     * @param playerAddress Bidder
+     * @param auctionId Auction the bid belongs to
+     * @param amount Encrypted bid amount (ignored when amountIsPlaintext)
+     * @param amountPlain Plaintext bid amount (used when amountIsPlaintext)
+     * @param amountIsPlaintext Whether the auction runs in plaintext fallback mode
+     * @return locked Encrypted amount actually locked, transiently allowed to the caller
+     * (zero handle for plaintext players)
+     */
+    function lockBidGold(
+        address playerAddress,
+        uint256 auctionId,
+        euint64 amount,
+        uint64 amountPlain,
+        bool amountIsPlaintext
+    ) external onlyRole(AUCTION_ROLE) returns (euint64 locked) {
+        PlayerProfile storage player = _profile(playerAddress);
+        if (!player.isActive) revert PlayerNotActive();
+
+        BidEscrow storage escrow = bidEscrows[auctionId][playerAddress];
+        if (player.usesPlaintext || amountIsPlaintext) {
+            _releaseBidGold(playerAddress, auctionId);
+        } else if (escrow.active && escrow.gameId != currentGame[playerAddress]) {
+            // The previous escrow stays until the new bid is decided, and cannot mix two games' gold
+            revert PlayerInAnotherGame();
+        }
+        escrow.gameId = currentGame[playerAddress];
+
+        if (player.usesPlaintext) {
+            if (!amountIsPlaintext) revert InvalidInput();
+            if (player.goldPlain < amountPlain) revert InsufficientResources();
+
+            player.goldPlain -= amountPlain;
+            escrow.amountPlain = amountPlain;
+        } else {
+            euint64 bidAmount = amountIsPlaintext ? FHE.asEuint64(amountPlain) : amount;
+            locked = FHE.select(FHE.ge(player.gold, bidAmount), bidAmount, FHE.asEuint64(0));
+
+            player.gold = FHE.sub(player.gold, locked);
+            escrow.amount = FHE.add(escrow.amount, locked);
+
+            // Update permissions
+            FHE.allowThis(player.gold);
+            FHE.allow(player.gold, playerAddress);
+            FHE.allowThis(escrow.amount);
+            FHE.allow(escrow.amount, playerAddress);
+            FHE.allowThis(locked);
+            FHE.allow(locked, playerAddress);
+            FHE.allowTransient(locked, msg.sender);
+        }
+
+        escrow.active = true;
+        emit BidGoldLocked(playerAddress, auctionId, block.timestamp);
+    }
+
+    /**
+     * @dev Return a bidder's locked gold (outbid, or the auction ended without them winning)
+     */
+    function releaseBidGold(address playerAddress, uint256 auctionId) external onlyRole(AUCTION_ROLE) {
+        _releaseBidGold(playerAddress, auctionId);
+    }
+
+    /**
+     * @dev Drop a bidder's locked gold without returning it (a commit-reveal deposit left unrevealed)
+     */
+    function forfeitBidGold(address playerAddress, uint256 auctionId) external onlyRole(AUCTION_ROLE) {
+        if (!bidEscrows[auctionId][playerAddress].active) return;
+
+        delete bidEscrows[auctionId][playerAddress];
+        emit BidGoldForfeited(playerAddress, auctionId, block.timestamp);
+    }
+
+    /**
+     * @dev Return an encrypted bidder's locked gold only if `release` is true
+     * @notice Used when it is only known homomorphically whether a bid was outbid. The escrow stays
+     * open (possibly at zero) so no event reveals the outcome.
+     */
+    function releaseBidGoldIf(address playerAddress, uint256 auctionId, ebool release)
+        external
+        onlyRole(AUCTION_ROLE)
+    {
+        BidEscrow storage escrow = bidEscrows[auctionId][playerAddress];
+        if (!escrow.active) return;
+
+        PlayerProfile storage player = players[escrow.gameId][playerAddress];
+        if (player.usesPlaintext) revert InvalidInput();
+
+        euint64 refund = FHE.select(release, escrow.amount, FHE.asEuint64(0));
+        player.gold = FHE.add(player.gold, refund);
+        escrow.amount = FHE.sub(escrow.amount, refund);
+
+        // Update permissions
+        FHE.allowThis(player.gold);
+        FHE.allow(player.gold, playerAddress);
+        FHE.allowThis(escrow.amount);
+        FHE.allow(escrow.amount, playerAddress);
+    }
+
+    /**
+     * @dev Decide an encrypted bid after lockBidGold: keep the gold it just locked and return the
+     * escrow held before it if `accepted`, otherwise return the new lock and keep the previous escrow
+     * @notice A rejected re-bid (lower, or not covered by gold) therefore never drops the escrow
+     * backing the bidder's standing bid
+     * @param locked Amount returned by the lockBidGold call of this bid
+     */
+    function settleBidGoldIf(address playerAddress, uint256 auctionId, euint64 locked, ebool accepted)
+        external
+        onlyRole(AUCTION_ROLE)
+    {
+        BidEscrow storage escrow = bidEscrows[auctionId][playerAddress];
+        if (!escrow.active) return;
+
+        PlayerProfile storage player = players[escrow.gameId][playerAddress];
+        if (player.usesPlaintext) revert InvalidInput();
+
+        euint64 refund = FHE.select(accepted, FHE.sub(escrow.amount, locked), locked);
+        player.gold = FHE.add(player.gold, refund);
+        escrow.amount = FHE.sub(escrow.amount, refund);
+
+        // Update permissions
+        FHE.allowThis(player.gold);
+        FHE.allow(player.gold, playerAddress);
+        FHE.allowThis(escrow.amount);
+        FHE.allow(escrow.amount, playerAddress);
+    }
+
+    /**
+     * @dev Settle a claimed auction win: pay the winning bid and credit one unit of the good
+     * @notice Called by MarketAuction from claimReward. The bid is paid from the winner's escrow
+     * (any surplus is returned), or from gold when the bid was placed before escrow existed. The good
+     * goes to inventory slot goodType - 1. Encrypted players only receive the good if the escrow (or
+     * gold) covers the price; plaintext players revert with InsufficientResources and cannot pay an
+     * encrypted price. Escrowed wins settle in the game the escrow came from, even after the
+     * winner left it (like escrow refunds), others in the winner's current game.
+     * @param playerAddress Auction winner
+     * @param auctionId Auction being claimed
+     * @param goodType Auctioned good (1-10)
+     * @param price Encrypted winning bid (ignored when priceIsPlaintext)
+     * @param pricePlain Plaintext winning bid (used when priceIsPlaintext)
+     * @param priceIsPlaintext Whether the auction ran in plaintext fallback mode
+     */
+    function settleAuctionWin(
+        address playerAddress,
+        uint256 auctionId,
+        uint8 goodType,
+        euint64 price,
+        uint64 pricePlain,
+        bool priceIsPlaintext
+    ) external onlyRole(AUCTION_ROLE) {
+        BidEscrow memory escrow = bidEscrows[auctionId][playerAddress];
+        PlayerProfile storage player = escrow.active
+            ? players[escrow.gameId][playerAddress]
+            : _profile(playerAddress);
+        if (!escrow.active && !player.isActive) revert PlayerNotActive();
+        if (goodType == 0 || goodType > player.inventory.length) revert InvalidInput();
+        uint256 slot = goodType - 1;
+        delete bidEscrows[auctionId][playerAddress];
+
+        if (player.usesPlaintext) {
+            if (!priceIsPlaintext) revert InvalidInput();
+            if (escrow.active) {
+                if (escrow.amountPlain < pricePlain) revert InsufficientResources();
+                player.goldPlain += escrow.amountPlain - pricePlain;
+            } else {
+                if (player.goldPlain < pricePlain) revert InsufficientResources();
+                player.goldPlain -= pricePlain;
+            }
+            player.inventoryPlain[slot] += 1;
+        } else {
+            euint64 encryptedPrice = priceIsPlaintext ? FHE.asEuint64(pricePlain) : price;
+            ebool paid;
+
+            if (escrow.active) {
+                // An empty escrow never pays, even for a zero price
+                paid = FHE.and(FHE.ge(escrow.amount, encryptedPrice), FHE.gt(escrow.amount, uint64(0)));
+                player.gold = FHE.add(
+                    player.gold,
+                    FHE.select(paid, FHE.sub(escrow.amount, encryptedPrice), escrow.amount)
+                );
+            } else {
+                paid = FHE.ge(player.gold, encryptedPrice);
+                player.gold = FHE.select(paid, FHE.sub(player.gold, encryptedPrice), player.gold);
+            }
+            player.inventory[slot] = FHE.add(
+                player.inventory[slot],
+                FHE.select(paid, FHE.asEuint8(1), FHE.asEuint8(0))
+            );
+
+            // Update permissions
+            FHE.allowThis(player.gold);
+            FHE.allow(player.gold, playerAddress);
+            FHE.allowThis(player.inventory[slot]);
+            FHE.allow(player.inventory[slot], playerAddress);
+        }
+
+        emit InventoryCredited(playerAddress, goodType, block.timestamp);
+        emit ResourcesUpdated(playerAddress, block.timestamp);
+    }
+
     // ============ UTILITY FUNCTIONS ============
 
     /**
      * @dev Get public game information
      */
-    function getGameInfo() external view returns (
+    function getGameInfo(uint256 gameId) external view validGame(gameId) returns (
         uint256 currentRound,
         uint256 gameStartTime,
         uint256 lastRoundTime,
         uint8 playerCount,
         bool gameActive,
         bool gameEnded,
-        address winner
+        address winner,
+        uint8 maxPlayers,
+        uint8 maxRounds,
+        uint256 roundDuration,
+        address creator
     ) {
+        GameState memory game = games[gameId];
         return (
-            gameState.currentRound,
-            gameState.gameStartTime,
-            gameState.lastRoundTime,
-            gameState.playerCount,
-            gameState.gameActive,
-            gameState.gameEnded,
-            gameState.winner
+            game.currentRound,
+            game.gameStartTime,
+            game.lastRoundTime,
+            game.playerCount,
+            game.gameActive,
+            game.gameEnded,
+            game.winner,
+            game.maxPlayers,
+            game.maxRounds,
+            game.roundDuration,
+            game.creator
         );
     }
 
     /**
-     * @dev Get player's public information
+     * @dev Get list of games still running (joinable while in their first 3 rounds and not full)
+     */
+    function getActiveGames() external view returns (uint256[] memory) {
+        uint256[] memory candidateIds = new uint256[](gameCounter);
+        uint256 activeCount = 0;
+
+        for (uint256 i = 1; i <= gameCounter; i++) {
+            if (games[i].gameActive) {
+                candidateIds[activeCount] = i;
+                activeCount++;
+            }
+        }
+
+        uint256[] memory activeIds = new uint256[](activeCount);
+        for (uint256 i = 0; i < activeCount; i++) {
+            activeIds[i] = candidateIds[i];
+        }
+
+        return activeIds;
+    }
+
+    /**
+     * @dev Get player's public information in a game
      */
-    function getPlayerInfo(address playerAddress) external view returns (
+    function getPlayerInfo(uint256 gameId, address playerAddress) external view returns (
         bool isActive,
         bool hasJoined,
         uint256 joinedRound,
         uint8 publicReputationTier,
         uint256 lastActionTime
     ) {
-        PlayerProfile memory player = players[playerAddress];
+        PlayerProfile memory player = players[gameId][playerAddress];
         return (
             player.isActive,
             player.hasJoined,
@@ -430,10 +826,39 @@ contract ShadowMerchants is AccessControl {
     }
 
     /**
-     * @dev Get list of active players
+     * @dev Get a plaintext player's resources
+     * @notice Encrypted profiles return zeros; read their handles from `players` and decrypt instead
+     */
+    function getPlaintextResources(uint256 gameId, address playerAddress) external view returns (
+        bool usesPlaintext,
+        uint64 gold,
+        uint16 reputation,
+        uint8 energy,
+        uint8[10] memory inventory
+    ) {
+        PlayerProfile storage player = players[gameId][playerAddress];
+        return (
+            player.usesPlaintext,
+            player.goldPlain,
+            player.reputationPlain,
+            player.energyPlain,
+            player.inventoryPlain
+        );
+    }
+
+    /**
+     * @dev Get a player's encrypted inventory handles (slot = goodType - 1)
+     * @notice Zero handles are empty slots; the player can user-decrypt the others
+     */
+    function getInventory(uint256 gameId, address playerAddress) external view returns (euint8[10] memory) {
+        return players[gameId][playerAddress].inventory;
+    }
+
+    /**
+     * @dev Get list of active players in a game
      */
-    function getActivePlayers() external view returns (address[] memory) {
-        return activePlayers;
+    function getActivePlayers(uint256 gameId) external view returns (address[] memory) {
+        return activePlayers[gameId];
     }
 
     /**
@@ -442,23 +867,38 @@ contract ShadowMerchants is AccessControl {
      * @return Boolean indicating if player can act
      */
     function canPlayerAct(address playerAddress) external view returns (bool) {
-        if (!players[playerAddress].isActive) return false;
-        if (!gameState.gameActive) return false;
-        if (block.timestamp < players[playerAddress].lastActionTime + 10) return false;
+        PlayerProfile storage player = _profile(playerAddress);
+        if (!player.isActive) return false;
+        if (!games[currentGame[playerAddress]].gameActive) return false;
+        if (block.timestamp < player.lastActionTime + 10) return false;
+        // Encrypted energy cannot be checked without decrypting it
+        if (player.usesPlaintext && player.energyPlain == 0) return false;
         return true;
     }
 
     // ============ INTERNAL FUNCTIONS ============
 
     /**
-     * @dev Regenerate energy for all active players
+     * @dev Profile of a player in the game they are currently in
+     */
+    function _profile(address playerAddress) internal view returns (PlayerProfile storage) {
+        return players[currentGame[playerAddress]][playerAddress];
+    }
+
+    /**
+     * @dev Regenerate energy for all active players of a game
      */
-    function _regenerateAllPlayersEnergy() internal {
-        for (uint i = 0; i < activePlayers.length; i++) {
-            address playerAddr = activePlayers[i];
-            PlayerProfile storage player = players[playerAddr];
+    function _regenerateAllPlayersEnergy(uint256 gameId) internal {
+        address[] storage gamePlayers = activePlayers[gameId];
+        for (uint i = 0; i < gamePlayers.length; i++) {
+            address playerAddr = gamePlayers[i];
+            PlayerProfile storage player = players[gameId][playerAddr];
 
             if (player.isActive) {
+                // Plaintext energy is cheap enough to regenerate here
+                if (player.usesPlaintext) {
+                    player.energyPlain = _cappedEnergy(player.energyPlain);
+                }
                 // Update timestamp to track energy regeneration
                 // Full FHE energy calculations will be done when player calls regenerateEnergy()
                 player.lastEnergyRegen = block.timestamp;
@@ -467,31 +907,155 @@ contract ShadowMerchants is AccessControl {
     }
 
     /**
-     * @dev Determine the winner based on encrypted scores
-     * @notice Simplified implementation for MVP
+     * @dev Read a plaintext amount passed in place of an encrypted handle (empty proof, as in joinGame)
      */
-    function determineWinner() internal view returns (address) {
-        if (activePlayers.length == 0) return address(0);
+    function _plaintextAmount(bytes32 handle, bytes calldata proof, uint256 max) internal pure returns (uint256) {
+        if (proof.length != 0 || uint256(handle) > max) revert InvalidInput();
+        return uint256(handle);
+    }
 
-        // For MVP, we'll use a simple approach
-        // In a real implementation, this would use FHE operations to compare encrypted scores
-        // For now, return the first active player as a placeholder
-        return activePlayers[0];
+    function _cappedEnergy(uint8 energy) internal view returns (uint8) {
+        uint256 regenerated = uint256(energy) + config.energyRegenAmount;
+        return regenerated > MAX_ENERGY ? MAX_ENERGY : uint8(regenerated);
     }
 
-    function _finalizeGame() internal {
-        if (!gameState.gameActive) {
+    function _releaseBidGold(address playerAddress, uint256 auctionId) internal {
+        BidEscrow storage escrow = bidEscrows[auctionId][playerAddress];
+        if (!escrow.active) return;
+
+        PlayerProfile storage player = players[escrow.gameId][playerAddress];
+        if (player.usesPlaintext) {
+            player.goldPlain += escrow.amountPlain;
+        } else {
+            player.gold = FHE.add(player.gold, escrow.amount);
+            FHE.allowThis(player.gold);
+            FHE.allow(player.gold, playerAddress);
+        }
+
+        delete bidEscrows[auctionId][playerAddress];
+        emit BidGoldReleased(playerAddress, auctionId, block.timestamp);
+    }
+
+    /**
+     * @dev Determine a game's winner: the active player with the highest score
+     * @notice Plaintext games are scored directly. As soon as one profile is encrypted, scores are
+     * computed and compared homomorphically and only the winning address is decrypted through the
+     * decryption oracle, which completes the game in onWinnerDecrypted. Ties go to the earliest joiner.
+     */
+    function determineWinner(uint256 gameId) internal {
+        address[] storage gamePlayers = activePlayers[gameId];
+        if (gamePlayers.length == 0) {
+            _declareWinner(gameId, address(0));
             return;
         }
 
-        gameState.gameActive = false;
-        gameState.gameEnded = true;
+        if (_allPlayersPlaintext(gameId)) {
+            address best = gamePlayers[0];
+            uint256 bestScore = _plaintextScore(players[gameId][best]);
+            for (uint256 i = 1; i < gamePlayers.length; i++) {
+                uint256 score = _plaintextScore(players[gameId][gamePlayers[i]]);
+                if (score > bestScore) {
+                    bestScore = score;
+                    best = gamePlayers[i];
+                }
+            }
+            _declareWinner(gameId, best);
+            return;
+        }
+
+        // Encrypted arg-max over all active players
+        euint64 encryptedBestScore = _encryptedScore(players[gameId][gamePlayers[0]]);
+        eaddress encryptedBest = FHE.asEaddress(gamePlayers[0]);
+        for (uint256 i = 1; i < gamePlayers.length; i++) {
+            address candidate = gamePlayers[i];
+            euint64 score = _encryptedScore(players[gameId][candidate]);
+            ebool isHigher = FHE.gt(score, encryptedBestScore);
+            encryptedBestScore = FHE.select(isHigher, score, encryptedBestScore);
+            encryptedBest = FHE.select(isHigher, FHE.asEaddress(candidate), encryptedBest);
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = eaddress.unwrap(encryptedBest);
+        uint256 requestId = FHE.requestDecryption(handles, this.onWinnerDecrypted.selector);
+
+        winnerDecryptionRequestId[gameId] = requestId;
+        winnerDecryptionPending[gameId] = true;
+        winnerDecryptionGame[requestId] = gameId;
+
+        emit WinnerDecryptionRequested(gameId, requestId, block.timestamp);
+    }
+
+    /**
+     * @dev Decryption callback carrying the KMS-signed winning address
+     * @param requestId Decryption request ID from determineWinner
+     * @param winner Decrypted arg-max address
+     * @param signatures KMS signatures over the decrypted result
+     */
+    function onWinnerDecrypted(uint256 requestId, address winner, bytes[] memory signatures) external {
+        uint256 gameId = winnerDecryptionGame[requestId];
+        if (!winnerDecryptionPending[gameId] || requestId != winnerDecryptionRequestId[gameId]) {
+            revert UnknownDecryptionRequest();
+        }
+
+        // Signed payload: cleartext word + offset of `signatures` (3 head words => 0x60)
+        _checkDecryptionSignatures(requestId, abi.encode(winner, uint256(0x60)), signatures);
+
+        winnerDecryptionPending[gameId] = false;
+        _declareWinner(gameId, winner);
+    }
+
+    function _allPlayersPlaintext(uint256 gameId) internal view returns (bool) {
+        address[] storage gamePlayers = activePlayers[gameId];
+        for (uint256 i = 0; i < gamePlayers.length; i++) {
+            if (!players[gameId][gamePlayers[i]].usesPlaintext) return false;
+        }
+        return true;
+    }
+
+    function _plaintextScore(PlayerProfile storage player) internal view returns (uint256) {
+        uint256 items = 0;
+        for (uint256 slot = 0; slot < player.inventoryPlain.length; slot++) {
+            items += player.inventoryPlain[slot];
+        }
+        return uint256(player.goldPlain) +
+            uint256(player.reputationPlain) * SCORE_REPUTATION_WEIGHT +
+            items * SCORE_ITEM_VALUE;
+    }
+
+    function _encryptedScore(PlayerProfile storage player) internal returns (euint64) {
+        // Plaintext profiles join the encrypted comparison as trivially encrypted scores
+        if (player.usesPlaintext) {
+            return FHE.asEuint64(uint64(_plaintextScore(player)));
+        }
+
+        euint64 score = FHE.add(
+            player.gold,
+            FHE.mul(FHE.asEuint64(player.reputation), SCORE_REPUTATION_WEIGHT)
+        );
+        for (uint256 slot = 0; slot < player.inventory.length; slot++) {
+            // Never-written slots are empty
+            if (!FHE.isInitialized(player.inventory[slot])) continue;
+            score = FHE.add(score, FHE.mul(FHE.asEuint64(player.inventory[slot]), SCORE_ITEM_VALUE));
+        }
+        return score;
+    }
+
+    function _declareWinner(uint256 gameId, address winner) internal {
+        games[gameId].winner = winner;
+        emit GameEnded(gameId, winner, block.timestamp);
+    }
+
+    function _finalizeGame(uint256 gameId) internal {
+        GameState storage game = games[gameId];
+        if (!game.gameActive) {
+            return;
+        }
 
-        // Determine winner (simplified for MVP - highest gold wins)
-        address winner = determineWinner();
-        gameState.winner = winner;
+        game.gameActive = false;
+        game.gameEnded = true;
 
-        emit GameEnded(winner, block.timestamp);
+        // Emits GameEnded now, or once the encrypted winner is decrypted
+        determineWinner(gameId);
     }
 
     // ============ ACCESS CONTROL ============
@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {SEPOLIA_FHEVM_EXECUTOR} from "../FHEVMConfig.sol";
+
+/**
+ * @title MockACL
+ * @dev Local stand-in for Zama's ACL, installed at the Sepolia ACL address with hardhat_setCode
+ * @notice Transient allowances are scoped to the current block instead of transient storage,
+ * which matches per-transaction semantics on an automining Hardhat network.
+ */
+contract MockACL {
+    mapping(bytes32 => mapping(address => bool)) private persistedAllowed;
+    mapping(bytes32 => mapping(address => uint256)) private transientAllowedUntil; // block.number + 1
+    mapping(bytes32 => bool) private decryptionAllowed;
+
+    event Allowed(address indexed caller, address indexed account, bytes32 handle);
+    event AllowedForDecryption(address indexed caller, bytes32[] handlesList);
+
+    error SenderNotAllowed(bytes32 handle, address sender);
+
+    function allowTransient(bytes32 handle, address account) external {
+        if (msg.sender != SEPOLIA_FHEVM_EXECUTOR && !isAllowed(handle, msg.sender)) {
+            revert SenderNotAllowed(handle, msg.sender);
+        }
+        transientAllowedUntil[handle][account] = block.number + 1;
+    }
+
+    function allow(bytes32 handle, address account) external {
+        if (!isAllowed(handle, msg.sender)) revert SenderNotAllowed(handle, msg.sender);
+        persistedAllowed[handle][account] = true;
+        emit Allowed(msg.sender, account, handle);
+    }
+
+    function cleanTransientStorage() external {
+        // Transient allowances expire with the block
+    }
+
+    function isAllowed(bytes32 handle, address account) public view returns (bool) {
+        return persistedAllowed[handle][account] || transientAllowedUntil[handle][account] == block.number + 1;
+    }
+
+    function persistAllowed(bytes32 handle, address account) external view returns (bool) {
+        return persistedAllowed[handle][account];
+    }
+
+    function allowForDecryption(bytes32[] memory handlesList) external {
+        for (uint256 i = 0; i < handlesList.length; i++) {
+            if (!isAllowed(handlesList[i], msg.sender)) revert SenderNotAllowed(handlesList[i], msg.sender);
+            decryptionAllowed[handlesList[i]] = true;
+        }
+        emit AllowedForDecryption(msg.sender, handlesList);
+    }
+
+    function isAllowedForDecryption(bytes32 handle) external view returns (bool) {
+        return decryptionAllowed[handle];
+    }
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title MockDecryptionOracle
+ * @dev Local stand-in for Zama's DecryptionOracle, installed at the Sepolia address with hardhat_setCode
+ * @notice Only records requests; test/helpers/fhevm.ts plays the relayer and calls the callbacks.
+ */
+contract MockDecryptionOracle {
+    uint256 public counter;
+
+    event DecryptionRequest(
+        uint256 indexed counter,
+        uint256 requestID,
+        bytes32[] cts,
+        address contractCaller,
+        bytes4 callbackSelector
+    );
+
+    function requestDecryption(
+        uint256 requestID,
+        bytes32[] calldata ctsHandles,
+        bytes4 callbackSelector
+    ) external payable {
+        emit DecryptionRequest(counter, requestID, ctsHandles, msg.sender, callbackSelector);
+        counter++;
+    }
+}
@@ -0,0 +1,184 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FheType} from "@fhevm/solidity/lib/FheType.sol";
+import {SEPOLIA_ACL, SEPOLIA_INPUT_VERIFIER} from "../FHEVMConfig.sol";
+import {MockACL} from "./MockACL.sol";
+import {MockInputVerifier} from "./MockInputVerifier.sol";
+
+/**
+ * @title MockFHEVMExecutor
+ * @dev Local stand-in for Zama's FHEVMExecutor, installed at the Sepolia address with hardhat_setCode
+ * @notice "Ciphertexts" are random handles whose plaintext is kept in `plaintexts`, so contract
+ * logic runs unchanged while tests can read any value back. Operands are ACL-checked like the
+ * real coprocessor, and every result is transiently allowed to the calling contract.
+ */
+contract MockFHEVMExecutor {
+    enum Op {
+        Add, Sub, Mul, Div, Rem, BitAnd, BitOr, BitXor, Shl, Shr, Rotl, Rotr,
+        Eq, Ne, Ge, Gt, Le, Lt, Min, Max
+    }
+
+    mapping(bytes32 => uint256) public plaintexts;
+    uint256 private handleCounter;
+
+    error HandleNotAllowed(bytes32 handle, address sender);
+    error UnsupportedType(uint8 fheType);
+
+    // ============ BINARY OPERATIONS ============
+
+    function fheAdd(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Add, lhs, rhs, scalarByte); }
+    function fheSub(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Sub, lhs, rhs, scalarByte); }
+    function fheMul(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Mul, lhs, rhs, scalarByte); }
+    function fheDiv(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Div, lhs, rhs, scalarByte); }
+    function fheRem(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Rem, lhs, rhs, scalarByte); }
+    function fheBitAnd(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.BitAnd, lhs, rhs, scalarByte); }
+    function fheBitOr(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.BitOr, lhs, rhs, scalarByte); }
+    function fheBitXor(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.BitXor, lhs, rhs, scalarByte); }
+    function fheShl(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Shl, lhs, rhs, scalarByte); }
+    function fheShr(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Shr, lhs, rhs, scalarByte); }
+    function fheRotl(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Rotl, lhs, rhs, scalarByte); }
+    function fheRotr(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Rotr, lhs, rhs, scalarByte); }
+    function fheEq(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Eq, lhs, rhs, scalarByte); }
+    function fheNe(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Ne, lhs, rhs, scalarByte); }
+    function fheGe(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Ge, lhs, rhs, scalarByte); }
+    function fheGt(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Gt, lhs, rhs, scalarByte); }
+    function fheLe(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Le, lhs, rhs, scalarByte); }
+    function fheLt(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Lt, lhs, rhs, scalarByte); }
+    function fheMin(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Min, lhs, rhs, scalarByte); }
+    function fheMax(bytes32 lhs, bytes32 rhs, bytes1 scalarByte) external returns (bytes32) { return _binary(Op.Max, lhs, rhs, scalarByte); }
+
+    // ============ UNARY / TERNARY OPERATIONS ============
+
+    function fheNeg(bytes32 ct) external returns (bytes32) {
+        FheType fheType = _typeOf(ct);
+        uint256 value = _read(ct);
+        return _newHandle(fheType, (_mask(fheType) - value + 1) & _mask(fheType));
+    }
+
+    function fheNot(bytes32 ct) external returns (bytes32) {
+        FheType fheType = _typeOf(ct);
+        return _newHandle(fheType, ~_read(ct) & _mask(fheType));
+    }
+
+    function fheIfThenElse(bytes32 control, bytes32 ifTrue, bytes32 ifFalse) external returns (bytes32) {
+        // Like the real executor, both branches must be readable by the caller
+        uint256 trueValue = _read(ifTrue);
+        uint256 falseValue = _read(ifFalse);
+        return _newHandle(_typeOf(ifTrue), _read(control) != 0 ? trueValue : falseValue);
+    }
+
+    function cast(bytes32 ct, FheType toType) external returns (bytes32) {
+        return _newHandle(toType, _read(ct));
+    }
+
+    function trivialEncrypt(uint256 pt, FheType toType) external returns (bytes32) {
+        return _newHandle(toType, pt);
+    }
+
+    function fheRand(FheType randType) external returns (bytes32) {
+        return _newHandle(randType, _random());
+    }
+
+    function fheRandBounded(uint256 upperBound, FheType randType) external returns (bytes32) {
+        return _newHandle(randType, _random() % upperBound);
+    }
+
+    // ============ INPUTS ============
+
+    function verifyCiphertext(
+        bytes32 inputHandle,
+        address callerAddress,
+        bytes memory inputProof,
+        FheType inputType
+    ) external returns (bytes32) {
+        uint256 value = MockInputVerifier(SEPOLIA_INPUT_VERIFIER).verifyInput(
+            inputHandle,
+            msg.sender,
+            callerAddress,
+            inputProof,
+            inputType
+        );
+        plaintexts[inputHandle] = value & _mask(inputType);
+        MockACL(SEPOLIA_ACL).allowTransient(inputHandle, msg.sender);
+        return inputHandle;
+    }
+
+    // ============ INTERNAL ============
+
+    function _binary(Op op, bytes32 lhs, bytes32 rhs, bytes1 scalarByte) internal returns (bytes32) {
+        FheType fheType = _typeOf(lhs);
+        uint256 mask = _mask(fheType);
+        uint256 bits = _bits(fheType);
+        uint256 a = _read(lhs);
+        uint256 b = scalarByte == 0x01 ? uint256(rhs) & mask : _read(rhs);
+
+        if (op == Op.Eq) return _newHandle(FheType.Bool, a == b ? 1 : 0);
+        if (op == Op.Ne) return _newHandle(FheType.Bool, a != b ? 1 : 0);
+        if (op == Op.Ge) return _newHandle(FheType.Bool, a >= b ? 1 : 0);
+        if (op == Op.Gt) return _newHandle(FheType.Bool, a > b ? 1 : 0);
+        if (op == Op.Le) return _newHandle(FheType.Bool, a <= b ? 1 : 0);
+        if (op == Op.Lt) return _newHandle(FheType.Bool, a < b ? 1 : 0);
+
+        uint256 result;
+        unchecked {
+            if (op == Op.Add) result = a + b;
+            else if (op == Op.Sub) result = a - b;
+            else if (op == Op.Mul) result = a * b;
+            else if (op == Op.Div) result = b == 0 ? mask : a / b;
+            else if (op == Op.Rem) result = b == 0 ? a : a % b;
+            else if (op == Op.BitAnd) result = a & b;
+            else if (op == Op.BitOr) result = a | b;
+            else if (op == Op.BitXor) result = a ^ b;
+            else if (op == Op.Shl) result = a << (b % bits);
+            else if (op == Op.Shr) result = a >> (b % bits);
+            else if (op == Op.Rotl) result = (a << (b % bits)) | (a >> ((bits - (b % bits)) % bits));
+            else if (op == Op.Rotr) result = (a >> (b % bits)) | (a << ((bits - (b % bits)) % bits));
+            else if (op == Op.Min) result = a < b ? a : b;
+            else result = a > b ? a : b; // Op.Max
+        }
+        return _newHandle(fheType, result);
+    }
+
+    function _read(bytes32 handle) internal view returns (uint256) {
+        if (!MockACL(SEPOLIA_ACL).isAllowed(handle, msg.sender)) revert HandleNotAllowed(handle, msg.sender);
+        return plaintexts[handle];
+    }
+
+    function _newHandle(FheType fheType, uint256 value) internal returns (bytes32 handle) {
+        handleCounter++;
+        uint256 raw = uint256(keccak256(abi.encode(handleCounter, block.chainid, address(this))));
+        raw &= ~uint256(0xFFFF);
+        raw |= uint256(uint8(fheType)) << 8;
+        handle = bytes32(raw);
+
+        plaintexts[handle] = value & _mask(fheType);
+        MockACL(SEPOLIA_ACL).allowTransient(handle, msg.sender);
+    }
+
+    function _random() internal view returns (uint256) {
+        return uint256(keccak256(abi.encode(block.prevrandao, handleCounter, msg.sender)));
+    }
+
+    function _typeOf(bytes32 handle) internal pure returns (FheType) {
+        return FheType(uint8(handle[30]));
+    }
+
+    function _bits(FheType fheType) internal pure returns (uint256) {
+        if (fheType == FheType.Bool) return 1;
+        if (fheType == FheType.Uint4) return 4;
+        if (fheType == FheType.Uint8) return 8;
+        if (fheType == FheType.Uint16) return 16;
+        if (fheType == FheType.Uint32) return 32;
+        if (fheType == FheType.Uint64) return 64;
+        if (fheType == FheType.Uint128) return 128;
+        if (fheType == FheType.Uint160) return 160;
+        if (fheType == FheType.Uint256) return 256;
+        revert UnsupportedType(uint8(fheType));
+    }
+
+    function _mask(FheType fheType) internal pure returns (uint256) {
+        uint256 bits = _bits(fheType);
+        return bits == 256 ? type(uint256).max : (uint256(1) << bits) - 1;
+    }
+}
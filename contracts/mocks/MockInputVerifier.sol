@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FheType} from "@fhevm/solidity/lib/FheType.sol";
+
+/**
+ * @title MockInputVerifier
+ * @dev Local stand-in for Zama's InputVerifier, installed at the Sepolia address with hardhat_setCode
+ *
+ * Mock input proof layout (built by test/helpers/fhevm.ts):
+ *   abi.encode(address contractAddress, address userAddress, uint8[] types, uint256[] values, bytes32 salt)
+ *
+ * Handle i is keccak256(abi.encodePacked(keccak256(proof), uint8(i))) with byte 21 set to i,
+ * byte 30 set to the FheType and byte 31 (version) cleared, mirroring the real handle layout.
+ */
+contract MockInputVerifier {
+    error InvalidInputContext(address contractAddress, address userAddress);
+    error InvalidInputHandle(bytes32 handle);
+    error InvalidInputType(bytes32 handle, uint8 expected, uint8 actual);
+
+    /**
+     * @dev Check a handle against its mock proof and return the plaintext it encrypts
+     */
+    function verifyInput(
+        bytes32 inputHandle,
+        address contractAddress,
+        address userAddress,
+        bytes memory inputProof,
+        FheType inputType
+    ) external pure returns (uint256) {
+        (address proofContract, address proofUser, uint8[] memory types, uint256[] memory values, ) =
+            abi.decode(inputProof, (address, address, uint8[], uint256[], bytes32));
+
+        if (proofContract != contractAddress || proofUser != userAddress) {
+            revert InvalidInputContext(proofContract, proofUser);
+        }
+
+        uint8 index = uint8(inputHandle[21]);
+        if (index >= values.length || types.length != values.length) revert InvalidInputHandle(inputHandle);
+        if (inputHandle != inputHandleAt(keccak256(inputProof), index, types[index])) {
+            revert InvalidInputHandle(inputHandle);
+        }
+        if (types[index] != uint8(inputType)) {
+            revert InvalidInputType(inputHandle, uint8(inputType), types[index]);
+        }
+
+        return values[index];
+    }
+
+    function inputHandleAt(bytes32 proofHash, uint8 index, uint8 fheType) public pure returns (bytes32) {
+        uint256 handle = uint256(keccak256(abi.encodePacked(proofHash, index)));
+        handle &= ~(uint256(0xFF) << 80); // byte 21: index
+        handle |= uint256(index) << 80;
+        handle &= ~uint256(0xFFFF);       // byte 30: type, byte 31: version
+        handle |= uint256(fheType) << 8;
+        return bytes32(handle);
+    }
+
+    function cleanTransientStorage() external {}
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {SEPOLIA_FHEVM_EXECUTOR} from "../FHEVMConfig.sol";
+import {MockFHEVMExecutor} from "./MockFHEVMExecutor.sol";
+
+/**
+ * @title MockKMSVerifier
+ * @dev Local stand-in for Zama's KMSVerifier, installed at the Sepolia address with hardhat_setCode
+ * @notice Instead of checking KMS signer signatures, the decrypted result is compared against the
+ * mock executor's plaintexts, so a callback can only succeed with the true values.
+ */
+contract MockKMSVerifier {
+    function verifyDecryptionEIP712KMSSignatures(
+        bytes32[] memory handlesList,
+        bytes memory decryptedResult,
+        bytes[] memory signatures
+    ) external view returns (bool) {
+        if (signatures.length == 0) return false;
+        // One word per handle followed by the offset of the signatures array
+        if (decryptedResult.length != 32 * handlesList.length + 32) return false;
+
+        for (uint256 i = 0; i < handlesList.length; i++) {
+            uint256 value;
+            uint256 offset = 32 * (i + 1);
+            assembly ("memory-safe") {
+                value := mload(add(decryptedResult, offset))
+            }
+            if (value != MockFHEVMExecutor(SEPOLIA_FHEVM_EXECUTOR).plaintexts(handlesList[i])) return false;
+        }
+        return true;
+    }
+}
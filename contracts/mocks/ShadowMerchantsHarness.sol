@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8} from "@fhevm/solidity/lib/FHE.sol";
+import {ShadowMerchants} from "../ShadowMerchants.sol";
+
+/**
+ * @title ShadowMerchantsHarness
+ * @dev Test-only ShadowMerchants with setters for balances the game cannot produce yet
+ * @notice Setters act on the player's current game
+ */
+contract ShadowMerchantsHarness is ShadowMerchants {
+    function harnessSetPlaintextResources(
+        address playerAddress,
+        uint64 gold,
+        uint16 reputation,
+        uint8[10] calldata inventory
+    ) external {
+        PlayerProfile storage player = _profile(playerAddress);
+        player.goldPlain = gold;
+        player.reputationPlain = reputation;
+        player.inventoryPlain = inventory;
+    }
+
+    function harnessSetEncryptedInventory(address playerAddress, uint8 slot, uint8 amount) external {
+        euint8 encryptedAmount = FHE.asEuint8(amount);
+        FHE.allowThis(encryptedAmount);
+        _profile(playerAddress).inventory[slot] = encryptedAmount;
+    }
+}
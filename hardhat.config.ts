@@ -2,6 +2,7 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "hardhat-deploy";
 import "dotenv/config";
+import "./tasks";
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -12,6 +13,7 @@ const config: HardhatUserConfig = {
         runs: 200,
       },
       viaIR: true,
+      evmVersion: "cancun", // PUSH0 keeps MarketAuction under the 24 KB code size limit; Sepolia runs Cancun
     },
   },
   networks: {
@@ -0,0 +1,110 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import type { Interface, Provider } from "ethers";
+
+/**
+ * Per-network deployment manifests: deployments/<network>.json
+ *
+ * Written by `npx hardhat shadow:deploy` (tasks/deploy.ts) and shared by the `shadow` CLI, the server services
+ * (server/deployment) and the Vite client (client/vite.config.ts) instead of
+ * hard-coding contract addresses.
+ *
+ * Each contract records the keccak256 of its runtime bytecode as read back from the
+ * chain after deployment; consumers refuse to talk to an address whose code no longer
+ * matches (redeployed, different chain, wrong address).
+ */
+
+export type DeployedContractName = "ShadowMerchants" | "MarketAuction" | "InputVerification";
+
+export interface ContractDeployment {
+  address: string;
+  blockNumber: number;
+  transactionHash: string;
+  constructorArgs: unknown[];
+  abiHash: string;  // keccak256 of the ABI JSON (Interface.formatJson)
+  codeHash: string; // keccak256 of the deployed runtime bytecode
+}
+
+export interface Deployment {
+  network: string;
+  chainId: number;
+  deployer: string;
+  deployedAt: string; // ISO timestamp
+  gatewayMode: "direct" | "gateway";
+  contracts: {
+    ShadowMerchants: ContractDeployment;
+    MarketAuction: ContractDeployment;
+    InputVerification?: ContractDeployment; // only when InputVerificationMock was deployed
+  };
+}
+
+/**
+ * On-chain state disagrees with the manifest
+ */
+export class DeploymentMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeploymentMismatchError";
+  }
+}
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+export function deploymentPath(network: string): string {
+  return path.join(DEPLOYMENTS_DIR, `${network}.json`);
+}
+
+export function abiHash(contractInterface: Interface): string {
+  return ethers.id(contractInterface.formatJson());
+}
+
+/**
+ * Read the deployment manifest of a network
+ * @throws When the network has never been deployed with shadow:deploy
+ */
+export function loadDeployment(network: string): Deployment {
+  const file = deploymentPath(network);
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `No deployment for network "${network}" (${path.relative(process.cwd(), file)}). ` +
+      `Run: npx hardhat shadow:deploy --network ${network}`
+    );
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8")) as Deployment;
+}
+
+export function saveDeployment(deployment: Deployment): string {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  const file = deploymentPath(deployment.network);
+  fs.writeFileSync(file, JSON.stringify(deployment, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * Check the manifest against the chain: same chain id, and the runtime bytecode at
+ * every recorded address hashes to the recorded codeHash
+ * @throws DeploymentMismatchError
+ */
+export async function verifyDeployment(provider: Provider, deployment: Deployment): Promise<void> {
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== deployment.chainId) {
+    throw new DeploymentMismatchError(
+      `deployments/${deployment.network}.json is for chain ${deployment.chainId}, but the RPC is on chain ${chainId}`
+    );
+  }
+
+  for (const [name, contract] of Object.entries(deployment.contracts)) {
+    const code = await provider.getCode(contract.address);
+    if (code === "0x") {
+      throw new DeploymentMismatchError(
+        `${name}: no contract at ${contract.address} (chain reset since deployments/${deployment.network}.json was written?)`
+      );
+    }
+    if (ethers.keccak256(code) !== contract.codeHash) {
+      throw new DeploymentMismatchError(
+        `${name}: bytecode at ${contract.address} does not match deployments/${deployment.network}.json`
+      );
+    }
+  }
+}
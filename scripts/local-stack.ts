@@ -0,0 +1,278 @@
+/**
+ * local-stack: the whole product on one machine, offline
+ *
+ *   npm run local-stack [-- --no-seed]
+ *
+ * 1. Starts a Hardhat node on 127.0.0.1:8545
+ * 2. Deploys ShadowMerchants, MarketAuction and InputVerificationMock (shadow:deploy),
+ *    which also links the contracts (grantAuctionRole + setShadowMerchants)
+ * 3. Grants AUCTION_MANAGER_ROLE / GAME_MANAGER_ROLE to a separate manager account
+ * 4. Seeds a running game: plaintext players, one auction per good type and a few bids
+ * 5. Starts the encryption server (mock backend), proof verifier, event indexer and keeper
+ * 6. Prints the client env and the MetaMask accounts, then runs until Ctrl+C
+ *
+ * Service output goes to logs/local-stack/<service>.log.
+ */
+
+import { spawn } from "child_process";
+import type { ChildProcess } from "child_process";
+import fs from "fs";
+import path from "path";
+import { HDNodeWallet } from "ethers";
+
+const ROOT = path.join(__dirname, "..");
+const SERVER_DIR = path.join(ROOT, "server");
+const LOG_DIR = path.join(ROOT, "logs", "local-stack");
+const HARDHAT_BIN = path.join(ROOT, "node_modules", ".bin", "hardhat");
+
+// Matches the `localhost` network in hardhat.config.ts
+const RPC_URL = "http://127.0.0.1:8545";
+const CHAIN_ID = 31337;
+const HARDHAT_MNEMONIC = "test test test test test test test test test test test junk";
+
+interface Service {
+  name: string;
+  script: string;
+  healthUrl: string | null; // null: no HTTP endpoint, only checked for staying alive
+  env: Record<string, string>;
+}
+
+const SERVICES: Service[] = [
+  {
+    name: "encryption",
+    script: "server.ts",
+    healthUrl: "http://localhost:4000/health",
+    env: { ENCRYPTION_BACKEND: "mock" },
+  },
+  {
+    name: "coprocessor",
+    script: "coprocessor.ts",
+    healthUrl: null,
+    env: {},
+  },
+  {
+    name: "indexer",
+    script: "eventIndexer.ts",
+    healthUrl: "http://localhost:4100/api/indexer/status",
+    env: { INDEXER_DB: "./data/local-stack.sqlite" },
+  },
+  {
+    name: "keeper",
+    script: "keeper.ts",
+    healthUrl: "http://localhost:4200/keeper/status",
+    env: {},
+  },
+];
+
+// Seed data: every good type on sale, with staggered deadlines
+const SEED_AUCTIONS = [
+  { goodType: 1, reserve: 50n, duration: 600n },
+  { goodType: 2, reserve: 80n, duration: 900n },
+  { goodType: 3, reserve: 150n, duration: 1200n },
+  { goodType: 4, reserve: 200n, duration: 1800n },
+  { goodType: 5, reserve: 300n, duration: 120n }, // expires first: shows resolution by the keeper
+];
+const SEED_PLAYERS = 3;
+
+const children: { name: string; process: ChildProcess }[] = [];
+let shuttingDown = false;
+
+function start(name: string, args: string[], cwd: string, env: Record<string, string> = {}): ChildProcess {
+  fs.mkdirSync(LOG_DIR, { recursive: true });
+  const log = fs.openSync(path.join(LOG_DIR, `${name}.log`), "w");
+  const child = spawn(process.execPath, args, {
+    cwd,
+    env: { ...process.env, ...env },
+    stdio: ["ignore", log, log],
+  });
+  children.push({ name, process: child });
+
+  child.on("exit", (code, signal) => {
+    if (shuttingDown) return;
+    console.error(`\n❌ ${name} exited (${signal ?? `code ${code}`}), see ${path.relative(ROOT, LOG_DIR)}/${name}.log`);
+    shutdown(1);
+  });
+  return child;
+}
+
+function shutdown(exitCode: number): void {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  // Services first, the chain last
+  for (const { process: child } of [...children].reverse()) {
+    if (child.exitCode === null) child.kill("SIGTERM");
+  }
+  process.exitCode = exitCode;
+}
+
+async function rpcReachable(): Promise<boolean> {
+  try {
+    const response = await fetch(RPC_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+async function waitFor(label: string, check: () => Promise<boolean>, timeoutMs: number): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (shuttingDown) throw new Error(`${label}: stack is shutting down`);
+    if (Date.now() > deadline) throw new Error(`${label} not ready after ${timeoutMs / 1000}s`);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+}
+
+async function runToCompletion(name: string, args: string[], env: Record<string, string>): Promise<void> {
+  fs.mkdirSync(LOG_DIR, { recursive: true });
+  const log = fs.openSync(path.join(LOG_DIR, `${name}.log`), "w");
+  const child = spawn(process.execPath, args, { cwd: ROOT, env: { ...process.env, ...env }, stdio: ["ignore", log, log] });
+  const code = await new Promise<number | null>((resolve) => child.on("exit", resolve));
+  if (code !== 0) {
+    throw new Error(`${name} failed (code ${code}), see ${path.relative(ROOT, LOG_DIR)}/${name}.log`);
+  }
+}
+
+/**
+ * Roles and sample data, sent through the node's unlocked accounts
+ * #0 deployer (admin), #1 manager, #2.. players
+ */
+async function seed(withSampleData: boolean): Promise<void> {
+  // Hardhat picks its network on first import
+  process.env.HARDHAT_NETWORK = "localhost";
+  const hre = await import("hardhat");
+  const { ethers } = hre;
+  const { MarketAuction__factory, ShadowMerchants__factory } = await import("../typechain-types");
+  const { loadDeployment, verifyDeployment } = await import("./deployments");
+
+  const deployment = loadDeployment("localhost");
+  await verifyDeployment(ethers.provider, deployment);
+
+  const [deployer, manager, ...others] = await ethers.getSigners();
+  if (!deployer || !manager || others.length < SEED_PLAYERS) {
+    throw new Error("The local node exposes too few accounts");
+  }
+  const game = ShadowMerchants__factory.connect(deployment.contracts.ShadowMerchants.address, deployer);
+  const auction = MarketAuction__factory.connect(deployment.contracts.MarketAuction.address, deployer);
+
+  await (await auction.grantRole(await auction.AUCTION_MANAGER_ROLE(), manager.address)).wait();
+  await (await game.grantRole(await game.GAME_MANAGER_ROLE(), manager.address)).wait();
+  if (!(await game.hasRole(await game.AUCTION_ROLE(), await auction.getAddress()))) {
+    throw new Error("MarketAuction lacks AUCTION_ROLE on ShadowMerchants (shadow:deploy did not link them)");
+  }
+  console.log(`🔑 Manager ${manager.address}: AUCTION_MANAGER_ROLE + GAME_MANAGER_ROLE`);
+
+  if (!withSampleData) return;
+
+  // Default settings from the game config (maxPlayers, roundDuration, maxRounds)
+  const gameId = await game.connect(manager).createGame.staticCall(0, 0, 0);
+  await (await game.connect(manager).createGame(0, 0, 0)).wait();
+  const players = others.slice(0, SEED_PLAYERS);
+  for (const player of players) {
+    // Empty proofs: plaintext profile with the contract's starting resources
+    await (await game.connect(player).joinGame(gameId, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x")).wait();
+  }
+  console.log(`🎮 Game #${gameId} started with ${players.length} players`);
+
+  // Plaintext handles (value as bytes32, empty proof), as produced by the mock encryption backend
+  const plain = (value: bigint) => ethers.toBeHex(value, 32);
+  const auctionIds: bigint[] = [];
+  for (const { goodType, reserve, duration } of SEED_AUCTIONS) {
+    const manageable = auction.connect(manager);
+    const auctionId = await manageable.createAuction.staticCall(goodType, plain(reserve), "0x", duration);
+    await (await manageable.createAuction(goodType, plain(reserve), "0x", duration)).wait();
+    auctionIds.push(auctionId);
+  }
+
+  // Players bid on overlapping pairs of auctions, so later players outbid earlier ones
+  let bids = 0;
+  for (const [index, player] of players.entries()) {
+    for (const offset of [0, 1]) {
+      const slot = (index + offset) % auctionIds.length;
+      const amount = SEED_AUCTIONS[slot]!.reserve + BigInt(10 * (index + 1));
+      await (await auction.connect(player).placeBid(auctionIds[slot]!, plain(amount), "0x")).wait();
+      bids++;
+    }
+  }
+  console.log(`🏷️  ${auctionIds.length} auctions created, ${bids} bids placed`);
+}
+
+function printClientEnv(): void {
+  const account = (index: number) => HDNodeWallet.fromPhrase(HARDHAT_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`);
+
+  console.log("\n" + "=".repeat(60));
+  console.log("LOCAL STACK READY");
+  console.log("=".repeat(60));
+  console.log("client/.env.local:\n");
+  console.log("VITE_DEPLOYMENT_NETWORK=localhost");
+  console.log("VITE_NETWORK_NAME=localhost");
+  console.log(`VITE_CHAIN_ID=${CHAIN_ID}`);
+  console.log(`VITE_RPC_URL=${RPC_URL}`);
+  console.log("\nThen: cd client && npm run dev  →  http://localhost:3000");
+  console.log(`\nMetaMask: add network ${RPC_URL} (chain ${CHAIN_ID}) and import:`);
+  const labels = ["admin / deployer", "manager", ...Array.from({ length: SEED_PLAYERS }, (_, i) => `player ${i + 1}`)];
+  labels.forEach((label, index) => {
+    const wallet = account(index);
+    console.log(`  ${label.padEnd(16)} ${wallet.address}  ${wallet.privateKey}`);
+  });
+  console.log("\nServices:");
+  console.log(`  Hardhat node        ${RPC_URL}`);
+  for (const service of SERVICES) {
+    console.log(`  ${service.name.padEnd(19)} ${service.healthUrl ?? "(no HTTP endpoint)"}`);
+  }
+  console.log(`  Logs                ${path.relative(ROOT, LOG_DIR)}/`);
+  console.log("\nOperate it with: npm run shadow -- auction list");
+  console.log("Press Ctrl+C to stop everything.");
+}
+
+async function main(): Promise<void> {
+  const withSampleData = !process.argv.includes("--no-seed");
+  process.on("SIGINT", () => shutdown(0));
+  process.on("SIGTERM", () => shutdown(0));
+
+  if (await rpcReachable()) {
+    throw new Error(`Something already answers on ${RPC_URL}; stop it first (the stack needs a fresh chain)`);
+  }
+
+  console.log("⛓️  Starting Hardhat node...");
+  start("node", [HARDHAT_BIN, "node"], ROOT);
+  await waitFor("Hardhat node", rpcReachable, 60_000);
+
+  console.log("📦 Deploying contracts (with InputVerificationMock)...");
+  await runToCompletion(
+    "deploy",
+    [HARDHAT_BIN, "shadow:deploy", "--network", "localhost", "--signer", "node", "--input-verification-mock"],
+    {}
+  );
+
+  await seed(withSampleData);
+
+  // The indexer database belongs to the previous, discarded chain
+  fs.rmSync(path.join(SERVER_DIR, "data", "local-stack.sqlite"), { force: true });
+
+  for (const service of SERVICES) {
+    console.log(`🚀 Starting ${service.name}...`);
+    start(service.name, ["--loader", "ts-node/esm", service.script], SERVER_DIR, {
+      RPC_URL,
+      DEPLOYMENT_NETWORK: "localhost",
+      ...service.env,
+    });
+  }
+  for (const service of SERVICES) {
+    const url = service.healthUrl;
+    if (url) {
+      await waitFor(service.name, async () => (await fetch(url).catch(() => null))?.ok === true, 90_000);
+    }
+  }
+
+  printClientEnv();
+}
+
+main().catch((error) => {
+  console.error("❌ Local stack failed:", error.shortMessage ?? error.message);
+  shutdown(1);
+});
@@ -0,0 +1,74 @@
+/**
+ * shadow: operations CLI for deployed ShadowMerchants / MarketAuction contracts
+ *
+ *   npm run shadow -- <command> [options]
+ *
+ * Addresses come from deployments/<network>.json (written by `npx hardhat shadow:deploy`);
+ * the signer is the network's first Hardhat account (PRIVATE_KEY on public networks).
+ *
+ * Global options:
+ *   --network <name>   Hardhat network (default: $HARDHAT_NETWORK or localhost)
+ *   --json             Machine-readable output
+ *   --dry-run          Simulate writes with staticCall without sending them
+ */
+
+import { UsageError, parseArgs, stringOption } from "./shadow/args";
+import type { ParsedArgs } from "./shadow/args";
+
+async function usage(): Promise<string> {
+  const { AUCTION_USAGE } = await import("./shadow/auction");
+  const { CONFIG_USAGE } = await import("./shadow/config");
+  const { GAME_USAGE } = await import("./shadow/game");
+  const { ROLES_USAGE } = await import("./shadow/roles");
+  return [
+    "Usage: npm run shadow -- <command> [--network <name>] [--json] [--dry-run]",
+    AUCTION_USAGE,
+    GAME_USAGE,
+    ROLES_USAGE,
+    CONFIG_USAGE,
+  ].join("\n");
+}
+
+async function run(args: ParsedArgs): Promise<void> {
+  // Hardhat reads the network once, on first import
+  process.env.HARDHAT_NETWORK = stringOption(args.options, "network") ?? process.env.HARDHAT_NETWORK ?? "localhost";
+
+  const { createContext } = await import("./shadow/context");
+  const commands = {
+    auction: (await import("./shadow/auction")).auctionCommand,
+    game: (await import("./shadow/game")).gameCommand,
+    roles: (await import("./shadow/roles")).rolesCommand,
+    config: (await import("./shadow/config")).configCommand,
+  };
+
+  const group = args.positionals[0];
+  if (args.options.help === true || group === undefined || group === "help") {
+    console.log(await usage());
+    return;
+  }
+  const command = commands[group as keyof typeof commands];
+  if (!command) throw new UsageError(`Unknown command "${group}"`);
+
+  const ctx = await createContext(args);
+  if (!ctx.json) {
+    console.log(`🌐 ${ctx.network} (chain ${ctx.deployment.chainId}) as ${ctx.signer.address}${ctx.dryRun ? " [dry-run]" : ""}\n`);
+  }
+  await command(ctx);
+}
+
+async function main(): Promise<void> {
+  try {
+    await run(parseArgs(process.argv.slice(2)));
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\n`);
+      console.error(await usage());
+    } else {
+      const revert = error.revert ? `reverted with ${error.revert.name}(${error.revert.args.join(", ")})` : null;
+      console.error("❌", revert ?? error.shortMessage ?? error.message);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,74 @@
+/**
+ * Minimal argv parser for the `shadow` CLI
+ *
+ *   positionals        auction show 3
+ *   --key value        --good-type 2
+ *   --key=value        --network=sepolia
+ *   boolean flags      --json --dry-run (see BOOLEAN_FLAGS)
+ */
+
+export interface ParsedArgs {
+  positionals: string[];
+  options: Record<string, string | true>;
+}
+
+const BOOLEAN_FLAGS = new Set(["json", "dry-run", "help", "expired", "all", "commit-reveal"]);
+
+/**
+ * Wrong usage (unknown command, missing or malformed argument)
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const options: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [key, inlineValue] = arg.slice(2).split("=", 2) as [string, string | undefined];
+    if (inlineValue !== undefined) {
+      options[key] = inlineValue;
+    } else if (BOOLEAN_FLAGS.has(key)) {
+      options[key] = true;
+    } else {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith("--")) {
+        throw new UsageError(`--${key} needs a value`);
+      }
+      options[key] = value;
+      i++;
+    }
+  }
+
+  return { positionals, options };
+}
+
+export function stringOption(options: ParsedArgs["options"], key: string): string | undefined {
+  const value = options[key];
+  if (value === true) throw new UsageError(`--${key} needs a value`);
+  return value;
+}
+
+/**
+ * Parse a non-negative integer argument into a bigint
+ */
+export function integerArg(value: string | undefined, name: string, max?: bigint): bigint {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new UsageError(`${name} must be a non-negative integer`);
+  }
+  const parsed = BigInt(value);
+  if (max !== undefined && parsed > max) {
+    throw new UsageError(`${name} must be at most ${max}`);
+  }
+  return parsed;
+}
@@ -0,0 +1,260 @@
+import { ethers } from "ethers";
+import { UsageError, integerArg, stringOption } from "./args";
+import { chainTime } from "./context";
+import type { CliContext } from "./context";
+import { formatRemaining, formatTime, report } from "./output";
+import { execute } from "./transactions";
+import type { TransactionResult } from "./transactions";
+
+const GOOD_TYPE_NAMES: Record<number, string> = {
+  1: "Rare Spices",
+  2: "Fine Silk",
+  3: "Precious Gems",
+  4: "Gold Bars",
+  5: "Ancient Artifacts",
+};
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+
+// MarketAuction.AuctionFormat, by --format name
+const AUCTION_FORMATS: Record<string, bigint> = { first: 0n, second: 1n, dutch: 2n };
+const FORMAT_NAMES = ["first-price", "second-price", "Dutch"];
+const DUTCH = AUCTION_FORMATS.dutch;
+
+export const AUCTION_USAGE = `
+  auction create --good-type <1-5> --reserve <amount> [--duration <seconds>] [--format first|second|dutch]
+                 [--start-price <amount>] [--commit-reveal]
+                                  Create an auction with a plaintext reserve price
+                                  (--format second: the winner pays the runner-up bid;
+                                  --format dutch: the price falls from --start-price to the reserve, the first
+                                  bid covering it wins at once;
+                                  --commit-reveal: sealed keccak256(bidder, auction, amount, salt) bids, revealed after the end)
+  auction list [--all]            Unresolved auctions (--all: every auction)
+  auction show <auctionId>        Auction details, winner and clearing price
+  auction resolve <auctionId...>  Resolve expired auctions (several ids: batchResolveAuctions)
+  auction resolve --expired       Resolve every auction past its endTime or reveal window (chain time)
+  auction end <auctionId>         emergencyEndAuction: end an auction immediately`;
+
+interface AuctionSummary {
+  auctionId: bigint;
+  goodType: number;
+  goodName: string;
+  creator: string;
+  startTime: bigint;
+  endTime: bigint;
+  resolutionTime: bigint; // endTime, or the end of the reveal window
+  usesCommitReveal: boolean;
+  isActive: boolean;
+  isResolved: boolean;
+  participantCount: number;
+}
+
+async function readAuction(ctx: CliContext, auctionId: bigint): Promise<AuctionSummary> {
+  const info = await ctx.auction.getAuctionInfo(auctionId);
+  const stored = await ctx.auction.auctions(auctionId);
+  return {
+    auctionId,
+    goodType: Number(info.goodType),
+    goodName: GOOD_TYPE_NAMES[Number(info.goodType)] ?? "Unknown",
+    creator: info.creator,
+    startTime: info.startTime,
+    endTime: info.endTime,
+    resolutionTime: stored.usesCommitReveal ? stored.revealEndTime : info.endTime,
+    usesCommitReveal: stored.usesCommitReveal,
+    isActive: info.isActive,
+    isResolved: info.isResolved,
+    participantCount: Number(info.participantCount),
+  };
+}
+
+function statusOf(auction: AuctionSummary, now: number): string {
+  if (auction.isResolved) return "resolved";
+  if (!auction.isActive) return "ended";
+  if (Number(auction.endTime) >= now) return "active";
+  return Number(auction.resolutionTime) < now ? "expired" : "revealing";
+}
+
+async function create(ctx: CliContext): Promise<void> {
+  const { options } = ctx.args;
+  const goodType = integerArg(stringOption(options, "good-type"), "--good-type", 255n);
+  const reserve = integerArg(stringOption(options, "reserve"), "--reserve", MAX_UINT64);
+  const duration = options.duration === undefined ? 0n : integerArg(stringOption(options, "duration"), "--duration");
+  const formatName = stringOption(options, "format") ?? "first";
+  const format = AUCTION_FORMATS[formatName];
+  if (format === undefined) throw new UsageError(`--format must be "first", "second" or "dutch", got "${formatName}"`);
+
+  const commitReveal = options["commit-reveal"] === true;
+  const startPrice = options["start-price"] === undefined
+    ? undefined
+    : integerArg(stringOption(options, "start-price"), "--start-price", MAX_UINT64);
+  if ((format === DUTCH) !== (startPrice !== undefined)) {
+    throw new UsageError("--start-price is required with --format dutch, and only there");
+  }
+  if (format === DUTCH && commitReveal) throw new UsageError("Dutch auctions cannot use --commit-reveal");
+
+  // Plaintext fallback: the handle carries the amount itself, with an empty proof
+  const reserveHandle = ethers.toBeHex(reserve, 32);
+  let result: TransactionResult;
+  if (startPrice !== undefined) {
+    result = await execute(
+      ctx,
+      ctx.auction,
+      "createDutchAuction",
+      ctx.auction.createDutchAuction,
+      goodType,
+      reserveHandle,
+      "0x",
+      duration,
+      startPrice
+    );
+  } else if (commitReveal) {
+    result = await execute(
+      ctx,
+      ctx.auction,
+      "createCommitRevealAuction",
+      ctx.auction.createCommitRevealAuction,
+      goodType,
+      reserve,
+      duration,
+      format
+    );
+  } else {
+    result = await execute(
+      ctx,
+      ctx.auction,
+      "createAuctionWithFormat",
+      ctx.auction.createAuctionWithFormat,
+      goodType,
+      reserveHandle,
+      "0x",
+      duration,
+      format
+    );
+  }
+  const auctionId = result.returnValue as bigint;
+
+  report(ctx, { ...result, auctionId }, () => {
+    console.log(`🏷️  Auction #${auctionId}${result.dryRun ? " (not created)" : ""}: ${GOOD_TYPE_NAMES[Number(goodType)] ?? goodType}, reserve ${reserve}, ` +
+      `duration ${duration === 0n ? "default" : `${duration}s`}, ${FORMAT_NAMES[Number(format)]}` +
+      `${startPrice !== undefined ? ` from ${startPrice}` : ""}${commitReveal ? ", commit-reveal" : ""}`);
+  });
+}
+
+async function list(ctx: CliContext): Promise<void> {
+  const ids = ctx.args.options.all === true
+    ? Array.from({ length: Number(await ctx.auction.auctionCounter()) }, (_, index) => BigInt(index + 1))
+    : [...(await ctx.auction.getActiveAuctions())];
+
+  const now = await chainTime();
+  const auctions = await Promise.all(ids.map((auctionId) => readAuction(ctx, auctionId)));
+
+  report(ctx, { chainTime: now, auctions: auctions.map((a) => ({ ...a, status: statusOf(a, now) })) }, () => {
+    if (auctions.length === 0) {
+      console.log("⭕ No auctions found");
+      return;
+    }
+    for (const auction of auctions) {
+      console.log(`📌 #${auction.auctionId}  ${auction.goodName.padEnd(17)}  ${statusOf(auction, now).padEnd(9)}  ` +
+        `${formatRemaining(auction.endTime, now).padEnd(14)}  bidders ${auction.participantCount}  creator ${auction.creator}`);
+    }
+  });
+}
+
+async function show(ctx: CliContext): Promise<void> {
+  const auctionId = integerArg(ctx.args.positionals[2], "auctionId");
+  const auction = await readAuction(ctx, auctionId);
+  const stored = await ctx.auction.auctions(auctionId);
+  const participants = await ctx.auction.getAuctionParticipants(auctionId);
+  const revealed = await ctx.auction.clearingPriceRevealed(auctionId);
+  const now = await chainTime();
+
+  const details = {
+    ...auction,
+    status: statusOf(auction, now),
+    format: FORMAT_NAMES[Number(stored.format)] ?? `format ${stored.format}`,
+    revealEndTime: auction.usesCommitReveal ? stored.revealEndTime : null,
+    // Dutch: price at startTime and right now (the public curve ends at 0 when the reserve is encrypted)
+    startPrice: stored.format === DUTCH ? stored.startPricePlain : null,
+    currentPrice: stored.format === DUTCH && auction.isActive ? await ctx.auction.dutchPrice(auctionId) : null,
+    usesPlaintext: stored.usesPlaintext,
+    winner: stored.resolvedWinner === ethers.ZeroAddress ? null : stored.resolvedWinner,
+    clearingPrice: revealed ? await ctx.auction.clearingPrices(auctionId) : null,
+    participants: [...participants],
+  };
+
+  report(ctx, details, () => {
+    console.log(`📌 Auction #${auctionId}: ${auction.goodName} (good type ${auction.goodType})`);
+    console.log(`   Status:         ${details.status}${details.usesPlaintext ? " (plaintext)" : " (encrypted)"}`);
+    console.log(`   Format:         ${details.format}${auction.usesCommitReveal ? ", commit-reveal" : ""}`);
+    console.log(`   Creator:        ${auction.creator}`);
+    console.log(`   Start:          ${formatTime(auction.startTime)}`);
+    console.log(`   End:            ${formatTime(auction.endTime)} (${formatRemaining(auction.endTime, now)})`);
+    if (auction.usesCommitReveal) {
+      console.log(`   Reveals until:  ${formatTime(auction.resolutionTime)} (${formatRemaining(auction.resolutionTime, now)})`);
+    }
+    if (details.startPrice !== null) {
+      console.log(`   Price now:      ${details.currentPrice ?? "-"} (started at ${details.startPrice})`);
+    }
+    console.log(`   Bidders:        ${details.participants.length === 0 ? "none" : details.participants.join(", ")}`);
+    console.log(`   Winner:         ${details.winner ?? "-"}`);
+    console.log(`   Clearing price: ${details.clearingPrice ?? "not revealed"}`);
+  });
+}
+
+async function resolve(ctx: CliContext): Promise<void> {
+  let ids: bigint[];
+  if (ctx.args.options.expired === true) {
+    const now = await chainTime();
+    const active = await Promise.all([...(await ctx.auction.getActiveAuctions())].map((id) => readAuction(ctx, id)));
+    ids = active.filter((auction) => Number(auction.resolutionTime) < now).map((auction) => auction.auctionId);
+    if (ids.length === 0) {
+      report(ctx, { action: "batchResolveAuctions", auctionIds: [] }, () => console.log("✅ No expired auctions to resolve"));
+      return;
+    }
+  } else {
+    ids = ctx.args.positionals.slice(2).map((value) => integerArg(value, "auctionId"));
+    if (ids.length === 0) throw new UsageError("auction resolve needs auction ids or --expired");
+  }
+
+  const result = ids.length === 1
+    ? await execute(ctx, ctx.auction, `resolveAuction(${ids[0]})`, ctx.auction.resolveAuction, ids[0]!)
+    : await execute(ctx, ctx.auction, `batchResolveAuctions(${ids.join(", ")})`, ctx.auction.batchResolveAuctions, ids);
+
+  report(ctx, { ...result, auctionIds: ids }, () => {
+    for (const event of result.events.filter((e) => e.name === "AuctionResolved" && e.args.winner !== ethers.ZeroAddress)) {
+      console.log(`🎉 Auction #${event.args.auctionId} won by ${event.args.winner}`);
+    }
+    for (const event of result.events.filter((e) => e.name === "AuctionEnded" && !e.args.hadWinner)) {
+      console.log(`⭕ Auction #${event.args.auctionId} ended without a winner`);
+    }
+    for (const event of result.events.filter((e) => e.name === "WinnerDecryptionRequested")) {
+      console.log(`🔐 Auction #${event.args.auctionId}: winner decryption requested, resolves in onWinnerDecrypted`);
+    }
+  });
+}
+
+async function end(ctx: CliContext): Promise<void> {
+  const auctionId = integerArg(ctx.args.positionals[2], "auctionId");
+  const result = await execute(ctx, ctx.auction, `emergencyEndAuction(${auctionId})`, ctx.auction.emergencyEndAuction, auctionId);
+  report(ctx, { ...result, auctionId }, () => {
+    if (!result.dryRun) console.log(`🚨 Auction #${auctionId} ended`);
+  });
+}
+
+export async function auctionCommand(ctx: CliContext): Promise<void> {
+  const subcommand = ctx.args.positionals[1];
+  switch (subcommand) {
+    case "create":
+      return create(ctx);
+    case "list":
+      return list(ctx);
+    case "show":
+      return show(ctx);
+    case "resolve":
+      return resolve(ctx);
+    case "end":
+      return end(ctx);
+    default:
+      throw new UsageError(`Unknown auction command "${subcommand ?? ""}"`);
+  }
+}
@@ -0,0 +1,132 @@
+import { UsageError, integerArg, stringOption } from "./args";
+import type { CliContext } from "./context";
+import { report } from "./output";
+import { execute } from "./transactions";
+
+export const CONFIG_USAGE = `
+  config show                     Game and auction parameters, with their bounds
+  config game [--initial-gold <n>] [--energy-regen <n>] [--max-players <n>] [--max-rounds <n>]
+              [--round-duration <seconds>]
+                                  ShadowMerchants.updateConfig (GAME_MANAGER_ROLE); omitted fields keep their value
+  config auction [--duration <seconds>] [--max-auctions <n>] [--reveal-duration <seconds>]
+                                  MarketAuction.updateConfig (DEFAULT_ADMIN_ROLE); omitted fields keep their value`;
+
+interface GameConfig {
+  initialGold: bigint;
+  energyRegenAmount: bigint;
+  maxPlayers: bigint;
+  maxRounds: bigint;
+  roundDuration: bigint;
+}
+
+interface AuctionConfig {
+  auctionDuration: bigint;
+  maxSimultaneousAuctions: bigint;
+  revealDuration: bigint;
+}
+
+async function readGameConfig(ctx: CliContext): Promise<GameConfig> {
+  const config = await ctx.game.config();
+  return {
+    initialGold: config.initialGold,
+    energyRegenAmount: config.energyRegenAmount,
+    maxPlayers: config.maxPlayers,
+    maxRounds: config.maxRounds,
+    roundDuration: config.roundDuration,
+  };
+}
+
+async function readAuctionConfig(ctx: CliContext): Promise<AuctionConfig> {
+  const config = await ctx.auction.config();
+  return {
+    auctionDuration: config.auctionDuration,
+    maxSimultaneousAuctions: config.maxSimultaneousAuctions,
+    revealDuration: config.revealDuration,
+  };
+}
+
+/**
+ * --key as a bigint, or the current value when the option is omitted
+ */
+function optionOr(ctx: CliContext, key: string, current: bigint, max?: bigint): bigint {
+  const { options } = ctx.args;
+  return options[key] === undefined ? current : integerArg(stringOption(options, key), `--${key}`, max);
+}
+
+function printGameConfig(config: GameConfig): void {
+  console.log(`🎮 ShadowMerchants: ${config.initialGold} starting gold, +${config.energyRegenAmount} energy per regen`);
+  console.log(`   New games: up to ${config.maxPlayers} players, ${config.maxRounds} rounds of ${config.roundDuration}s`);
+}
+
+function printAuctionConfig(config: AuctionConfig): void {
+  console.log(`🔨 MarketAuction: ${config.auctionDuration}s auctions, at most ${config.maxSimultaneousAuctions} unresolved, ` +
+    `${config.revealDuration}s commit-reveal window`);
+}
+
+async function show(ctx: CliContext): Promise<void> {
+  const game = await readGameConfig(ctx);
+  const auction = await readAuctionConfig(ctx);
+  const bounds = {
+    game: {
+      maxInitialGold: await ctx.game.MAX_INITIAL_GOLD(),
+      maxEnergy: await ctx.game.MAX_ENERGY(),
+      maxPlayers: await ctx.game.MAX_PLAYERS_LIMIT(),
+      maxRounds: await ctx.game.MAX_ROUNDS_LIMIT(),
+      roundDuration: [await ctx.game.MIN_ROUND_DURATION(), await ctx.game.MAX_ROUND_DURATION()],
+    },
+    auction: {
+      duration: [await ctx.auction.MIN_AUCTION_DURATION(), await ctx.auction.MAX_AUCTION_DURATION()],
+      maxAuctions: await ctx.auction.MAX_AUCTIONS_LIMIT(),
+    },
+  };
+
+  report(ctx, { game, auction, bounds }, () => {
+    printGameConfig(game);
+    console.log(`   Bounds: gold ≤ ${bounds.game.maxInitialGold}, regen 1-${bounds.game.maxEnergy}, ` +
+      `players 1-${bounds.game.maxPlayers}, rounds 1-${bounds.game.maxRounds}, ` +
+      `round ${bounds.game.roundDuration[0]}-${bounds.game.roundDuration[1]}s`);
+    printAuctionConfig(auction);
+    console.log(`   Bounds: duration and reveal window ${bounds.auction.duration[0]}-${bounds.auction.duration[1]}s, ` +
+      `auctions 1-${bounds.auction.maxAuctions}`);
+  });
+}
+
+async function updateGame(ctx: CliContext): Promise<void> {
+  const current = await readGameConfig(ctx);
+  const config: GameConfig = {
+    initialGold: optionOr(ctx, "initial-gold", current.initialGold),
+    energyRegenAmount: optionOr(ctx, "energy-regen", current.energyRegenAmount, 255n),
+    maxPlayers: optionOr(ctx, "max-players", current.maxPlayers, 255n),
+    maxRounds: optionOr(ctx, "max-rounds", current.maxRounds, 255n),
+    roundDuration: optionOr(ctx, "round-duration", current.roundDuration),
+  };
+
+  const result = await execute(ctx, ctx.game, "updateConfig on ShadowMerchants", ctx.game.updateConfig, config);
+  report(ctx, { ...result, config }, () => printGameConfig(config));
+}
+
+async function updateAuction(ctx: CliContext): Promise<void> {
+  const current = await readAuctionConfig(ctx);
+  const config: AuctionConfig = {
+    auctionDuration: optionOr(ctx, "duration", current.auctionDuration),
+    maxSimultaneousAuctions: optionOr(ctx, "max-auctions", current.maxSimultaneousAuctions, 255n),
+    revealDuration: optionOr(ctx, "reveal-duration", current.revealDuration),
+  };
+
+  const result = await execute(ctx, ctx.auction, "updateConfig on MarketAuction", ctx.auction.updateConfig, config);
+  report(ctx, { ...result, config }, () => printAuctionConfig(config));
+}
+
+export async function configCommand(ctx: CliContext): Promise<void> {
+  const subcommand = ctx.args.positionals[1];
+  switch (subcommand) {
+    case "show":
+      return show(ctx);
+    case "game":
+      return updateGame(ctx);
+    case "auction":
+      return updateAuction(ctx);
+    default:
+      throw new UsageError(`Unknown config command "${subcommand ?? ""}"`);
+  }
+}
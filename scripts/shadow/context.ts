@@ -0,0 +1,67 @@
+import hre from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MarketAuction__factory, ShadowMerchants__factory } from "../../typechain-types";
+import type { MarketAuction, ShadowMerchants } from "../../typechain-types";
+import { DeploymentMismatchError, abiHash, loadDeployment, verifyDeployment } from "../deployments";
+import type { Deployment } from "../deployments";
+import type { ParsedArgs } from "./args";
+
+/**
+ * Everything a subcommand needs: typed contracts bound to the first signer of the
+ * selected network, plus the output / dry-run switches
+ */
+export interface CliContext {
+  network: string;
+  deployment: Deployment;
+  signer: HardhatEthersSigner;
+  auction: MarketAuction;
+  game: ShadowMerchants;
+  json: boolean;
+  dryRun: boolean;
+  args: ParsedArgs;
+}
+
+export async function createContext(args: ParsedArgs): Promise<CliContext> {
+  const network = hre.network.name;
+  const deployment = loadDeployment(network);
+
+  await verifyDeployment(hre.ethers.provider, deployment);
+
+  // The typechain bindings must describe the deployed contracts
+  const bindings = {
+    ShadowMerchants: ShadowMerchants__factory.createInterface(),
+    MarketAuction: MarketAuction__factory.createInterface(),
+  };
+  for (const [name, contractInterface] of Object.entries(bindings)) {
+    if (abiHash(contractInterface) !== deployment.contracts[name as keyof typeof bindings].abiHash) {
+      throw new DeploymentMismatchError(
+        `${name}: local ABI differs from the one deployed on ${network} (recompile, or redeploy with shadow:deploy)`
+      );
+    }
+  }
+
+  const [signer] = await hre.ethers.getSigners();
+  if (!signer) {
+    throw new Error(`No account configured for network "${network}" (set PRIVATE_KEY)`);
+  }
+
+  return {
+    network,
+    deployment,
+    signer,
+    auction: MarketAuction__factory.connect(deployment.contracts.MarketAuction.address, signer),
+    game: ShadowMerchants__factory.connect(deployment.contracts.ShadowMerchants.address, signer),
+    json: args.options.json === true,
+    dryRun: args.options["dry-run"] === true,
+    args,
+  };
+}
+
+/**
+ * Timestamp of the latest block: deadlines are judged on chain time, not the wall clock
+ */
+export async function chainTime(): Promise<number> {
+  const block = await hre.ethers.provider.getBlock("latest");
+  if (!block) throw new Error("Latest block unavailable");
+  return block.timestamp;
+}
@@ -0,0 +1,166 @@
+import { UsageError, integerArg, stringOption } from "./args";
+import { chainTime } from "./context";
+import type { CliContext } from "./context";
+import { formatTime, report } from "./output";
+import { execute } from "./transactions";
+
+export const GAME_USAGE = `
+  game create [--max-players <n>] [--round-duration <seconds>] [--max-rounds <n>]
+                                  createGame (0 or omitted: contract defaults)
+  game list [--all]               Running games (--all: every game)
+  game end <gameId>               endGame: finalize and determine the winner (GAME_MANAGER_ROLE)
+  game progress <gameId>          progressRound once the game's round duration has elapsed
+  game players <gameId>           Game state, active players and plaintext resources`;
+
+interface GameSummary {
+  gameId: bigint;
+  currentRound: bigint;
+  maxRounds: number;
+  roundDuration: bigint;
+  gameStartTime: bigint;
+  lastRoundTime: bigint;
+  playerCount: number;
+  maxPlayers: number;
+  gameActive: boolean;
+  gameEnded: boolean;
+  winner: string;
+  creator: string;
+}
+
+async function readGame(ctx: CliContext, gameId: bigint): Promise<GameSummary> {
+  const info = await ctx.game.getGameInfo(gameId);
+  return {
+    gameId,
+    currentRound: info.currentRound,
+    maxRounds: Number(info.maxRounds),
+    roundDuration: info.roundDuration,
+    gameStartTime: info.gameStartTime,
+    lastRoundTime: info.lastRoundTime,
+    playerCount: Number(info.playerCount),
+    maxPlayers: Number(info.maxPlayers),
+    gameActive: info.gameActive,
+    gameEnded: info.gameEnded,
+    winner: info.winner,
+    creator: info.creator,
+  };
+}
+
+function stateOf(game: GameSummary): string {
+  return game.gameActive ? "active" : game.gameEnded ? "ended" : "not started";
+}
+
+function gameIdArg(ctx: CliContext): bigint {
+  return integerArg(ctx.args.positionals[2], "gameId");
+}
+
+async function create(ctx: CliContext): Promise<void> {
+  const { options } = ctx.args;
+  const optional = (key: string, max?: bigint) =>
+    options[key] === undefined ? 0n : integerArg(stringOption(options, key), `--${key}`, max);
+  const maxPlayers = optional("max-players", 255n);
+  const roundDuration = optional("round-duration");
+  const maxRounds = optional("max-rounds", 255n);
+
+  const result = await execute(ctx, ctx.game, "createGame", ctx.game.createGame, maxPlayers, roundDuration, maxRounds);
+  const gameId = result.returnValue as bigint;
+
+  report(ctx, { ...result, gameId }, () => {
+    const created = result.events.find((event) => event.name === "GameCreated");
+    const settings = created
+      ? `${created.args.maxPlayers} players, ${created.args.maxRounds} rounds of ${created.args.roundDuration}s`
+      : "settings not applied";
+    console.log(`🎮 Game #${gameId}${result.dryRun ? " (not created)" : ""}: ${settings}`);
+  });
+}
+
+async function list(ctx: CliContext): Promise<void> {
+  const ids = ctx.args.options.all === true
+    ? Array.from({ length: Number(await ctx.game.gameCounter()) }, (_, index) => BigInt(index + 1))
+    : [...(await ctx.game.getActiveGames())];
+  const games = await Promise.all(ids.map((gameId) => readGame(ctx, gameId)));
+
+  report(ctx, { games: games.map((game) => ({ ...game, state: stateOf(game) })) }, () => {
+    if (games.length === 0) {
+      console.log("⭕ No games found");
+      return;
+    }
+    for (const game of games) {
+      console.log(`🎮 #${game.gameId}  ${stateOf(game).padEnd(6)}  round ${game.currentRound}/${game.maxRounds}  ` +
+        `players ${game.playerCount}/${game.maxPlayers}  rounds of ${game.roundDuration}s  creator ${game.creator}`);
+    }
+  });
+}
+
+async function end(ctx: CliContext): Promise<void> {
+  const gameId = gameIdArg(ctx);
+  const result = await execute(ctx, ctx.game, "endGame", ctx.game.endGame, gameId);
+  report(ctx, result, () => {
+    const ended = result.events.find((event) => event.name === "GameEnded");
+    if (ended) console.log(`🏁 Game #${gameId} ended, winner ${ended.args.winner}`);
+  });
+}
+
+async function progress(ctx: CliContext): Promise<void> {
+  const gameId = gameIdArg(ctx);
+  const result = await execute(ctx, ctx.game, "progressRound", ctx.game.progressRound, gameId);
+  report(ctx, result, () => {
+    const progressed = result.events.find((event) => event.name === "RoundProgressed");
+    if (progressed) console.log(`⏭️  Game #${gameId}: round ${progressed.args.newRound}`);
+    const ended = result.events.find((event) => event.name === "GameEnded");
+    if (ended) console.log(`🏁 Game #${gameId}: final round reached, winner ${ended.args.winner}`);
+  });
+}
+
+async function players(ctx: CliContext): Promise<void> {
+  const gameId = gameIdArg(ctx);
+  const game = await readGame(ctx, gameId);
+  const addresses = await ctx.game.getActivePlayers(gameId);
+  const now = await chainTime();
+
+  const rows = await Promise.all(addresses.map(async (address) => {
+    const player = await ctx.game.getPlayerInfo(gameId, address);
+    const resources = await ctx.game.getPlaintextResources(gameId, address);
+    return {
+      address,
+      joinedRound: player.joinedRound,
+      reputationTier: Number(player.publicReputationTier),
+      lastActionTime: player.lastActionTime,
+      usesPlaintext: resources.usesPlaintext,
+      // Encrypted profiles read as zeros here; only the player can decrypt them
+      gold: resources.usesPlaintext ? resources.gold : null,
+      reputation: resources.usesPlaintext ? Number(resources.reputation) : null,
+      energy: resources.usesPlaintext ? Number(resources.energy) : null,
+      inventory: resources.usesPlaintext ? resources.inventory.map(Number) : null,
+    };
+  }));
+
+  report(ctx, { chainTime: now, game, players: rows }, () => {
+    console.log(`🎮 Game #${gameId} ${stateOf(game)}: round ${game.currentRound}/${game.maxRounds}, ${game.playerCount}/${game.maxPlayers} player(s)`);
+    if (game.gameActive) console.log(`   Last round at ${formatTime(game.lastRoundTime)}`);
+    if (game.gameEnded) console.log(`   Winner: ${game.winner}`);
+    for (const row of rows) {
+      const resources = row.usesPlaintext
+        ? `gold ${row.gold}, reputation ${row.reputation}, energy ${row.energy}, inventory [${row.inventory!.join(", ")}]`
+        : "encrypted resources";
+      console.log(`👤 ${row.address}  joined round ${row.joinedRound}, tier ${row.reputationTier}: ${resources}`);
+    }
+  });
+}
+
+export async function gameCommand(ctx: CliContext): Promise<void> {
+  const subcommand = ctx.args.positionals[1];
+  switch (subcommand) {
+    case "create":
+      return create(ctx);
+    case "list":
+      return list(ctx);
+    case "end":
+      return end(ctx);
+    case "progress":
+      return progress(ctx);
+    case "players":
+      return players(ctx);
+    default:
+      throw new UsageError(`Unknown game command "${subcommand ?? ""}"`);
+  }
+}
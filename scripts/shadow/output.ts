@@ -0,0 +1,23 @@
+import type { CliContext } from "./context";
+
+/**
+ * Print a command result: JSON on stdout with --json, the human-readable form otherwise
+ */
+export function report(ctx: CliContext, data: unknown, human: () => void): void {
+  if (ctx.json) {
+    console.log(JSON.stringify(data, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+  } else {
+    human();
+  }
+}
+
+export function formatTime(timestamp: number | bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+export function formatRemaining(endTime: number | bigint, now: number): string {
+  const remaining = Number(endTime) - now;
+  if (remaining < 0) return "expired";
+  const minutes = Math.floor(remaining / 60);
+  return `${minutes}m ${remaining % 60}s left`;
+}
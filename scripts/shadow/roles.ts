@@ -0,0 +1,151 @@
+import { ethers } from "ethers";
+import type { BaseContract } from "ethers";
+import { UsageError, stringOption } from "./args";
+import type { CliContext } from "./context";
+import { report } from "./output";
+import { execute } from "./transactions";
+
+type ContractKey = "auction" | "game";
+
+const CONTRACT_NAMES: Record<ContractKey, string> = {
+  auction: "MarketAuction",
+  game: "ShadowMerchants",
+};
+
+// AccessControl roles per contract; DEFAULT_ADMIN_ROLE exists on both
+const ROLES: Record<ContractKey, string[]> = {
+  auction: ["DEFAULT_ADMIN_ROLE", "AUCTION_MANAGER_ROLE"],
+  game: ["DEFAULT_ADMIN_ROLE", "GAME_MANAGER_ROLE", "AUCTION_ROLE", "MISSION_ROLE"],
+};
+
+export const ROLES_USAGE = `
+  roles grant <ROLE> <account> [--contract auction|game]
+  roles revoke <ROLE> <account> [--contract auction|game]
+                                  MarketAuction: AUCTION_MANAGER_ROLE
+                                  ShadowMerchants: GAME_MANAGER_ROLE, AUCTION_ROLE, MISSION_ROLE
+                                  DEFAULT_ADMIN_ROLE (both, --contract required)
+  roles list [account]            Role holders (from RoleGranted / RoleRevoked events),
+                                  or the roles held by one account`;
+
+function roleId(role: string): string {
+  return role === "DEFAULT_ADMIN_ROLE" ? ethers.ZeroHash : ethers.id(role);
+}
+
+function contractFor(ctx: CliContext, key: ContractKey) {
+  return key === "auction" ? ctx.auction : ctx.game;
+}
+
+/**
+ * Pick the contract a role lives on, using --contract when the role exists on both
+ */
+function resolveTarget(ctx: CliContext, role: string): ContractKey {
+  const requested = stringOption(ctx.args.options, "contract");
+  if (requested !== undefined && requested !== "auction" && requested !== "game") {
+    throw new UsageError("--contract must be auction or game");
+  }
+
+  const candidates = (Object.keys(ROLES) as ContractKey[]).filter((key) => ROLES[key].includes(role));
+  if (candidates.length === 0) {
+    throw new UsageError(`Unknown role "${role}"`);
+  }
+  if (requested !== undefined) {
+    if (!candidates.includes(requested)) {
+      throw new UsageError(`${role} does not exist on ${CONTRACT_NAMES[requested]}`);
+    }
+    return requested;
+  }
+  if (candidates.length > 1) {
+    throw new UsageError(`${role} exists on both contracts, pass --contract auction|game`);
+  }
+  return candidates[0]!;
+}
+
+function roleAndAccount(ctx: CliContext): { role: string; account: string } {
+  const [, , role, account] = ctx.args.positionals;
+  if (!role || !account) throw new UsageError(`roles ${ctx.args.positionals[1]} needs <ROLE> <account>`);
+  if (!ethers.isAddress(account)) throw new UsageError(`"${account}" is not an address`);
+  return { role, account: ethers.getAddress(account) };
+}
+
+async function change(ctx: CliContext, grant: boolean): Promise<void> {
+  const { role, account } = roleAndAccount(ctx);
+  const target = resolveTarget(ctx, role);
+  const contract = contractFor(ctx, target);
+  const method = grant ? contract.grantRole : contract.revokeRole;
+
+  const action = `${grant ? "grantRole" : "revokeRole"}(${role}, ${account}) on ${CONTRACT_NAMES[target]}`;
+  const result = await execute(ctx, contract, action, method, roleId(role), account);
+  report(ctx, { ...result, contract: CONTRACT_NAMES[target], role, account }, () => {
+    if (!result.dryRun) console.log(`🔑 ${account} ${grant ? "now holds" : "no longer holds"} ${role} on ${CONTRACT_NAMES[target]}`);
+  });
+}
+
+/**
+ * Replay RoleGranted / RoleRevoked to find current holders (AccessControl is not enumerable)
+ */
+async function holders(contract: BaseContract, roles: string[]): Promise<Record<string, string[]>> {
+  const names = new Map(roles.map((role) => [roleId(role), role]));
+  const current = new Map(roles.map((role) => [role, new Set<string>()]));
+
+  const logs = await contract.queryFilter("*", 0);
+  for (const log of logs) {
+    if (!("eventName" in log) || (log.eventName !== "RoleGranted" && log.eventName !== "RoleRevoked")) continue;
+    const role = names.get(log.args.role);
+    if (!role) continue;
+    if (log.eventName === "RoleGranted") current.get(role)!.add(log.args.account);
+    else current.get(role)!.delete(log.args.account);
+  }
+
+  return Object.fromEntries([...current].map(([role, accounts]) => [role, [...accounts]]));
+}
+
+async function list(ctx: CliContext): Promise<void> {
+  const account = ctx.args.positionals[2];
+
+  if (account !== undefined) {
+    if (!ethers.isAddress(account)) throw new UsageError(`"${account}" is not an address`);
+    const result: Record<string, Record<string, boolean>> = {};
+    for (const key of Object.keys(ROLES) as ContractKey[]) {
+      const contract = contractFor(ctx, key);
+      result[CONTRACT_NAMES[key]] = Object.fromEntries(await Promise.all(
+        ROLES[key].map(async (role) => [role, await contract.hasRole(roleId(role), account)] as const)
+      ));
+    }
+
+    report(ctx, { account: ethers.getAddress(account), roles: result }, () => {
+      for (const [contractName, roles] of Object.entries(result)) {
+        const held = Object.keys(roles).filter((role) => roles[role]);
+        console.log(`🔑 ${contractName}: ${held.length === 0 ? "no roles" : held.join(", ")}`);
+      }
+    });
+    return;
+  }
+
+  const result: Record<string, Record<string, string[]>> = {};
+  for (const key of Object.keys(ROLES) as ContractKey[]) {
+    result[CONTRACT_NAMES[key]] = await holders(contractFor(ctx, key), ROLES[key]);
+  }
+
+  report(ctx, result, () => {
+    for (const [contractName, roles] of Object.entries(result)) {
+      console.log(`🔑 ${contractName}`);
+      for (const [role, accounts] of Object.entries(roles)) {
+        console.log(`   ${role.padEnd(21)} ${accounts.length === 0 ? "-" : accounts.join(", ")}`);
+      }
+    }
+  });
+}
+
+export async function rolesCommand(ctx: CliContext): Promise<void> {
+  const subcommand = ctx.args.positionals[1];
+  switch (subcommand) {
+    case "grant":
+      return change(ctx, true);
+    case "revoke":
+      return change(ctx, false);
+    case "list":
+      return list(ctx);
+    default:
+      throw new UsageError(`Unknown roles command "${subcommand ?? ""}"`);
+  }
+}
@@ -0,0 +1,108 @@
+import type { BaseContract, ContractTransactionResponse } from "ethers";
+import type { CliContext } from "./context";
+
+/**
+ * A typechain method: callable, with staticCall / estimateGas variants
+ */
+interface WriteMethod<A extends unknown[]> {
+  (...args: A): Promise<ContractTransactionResponse>;
+  staticCall(...args: A): Promise<unknown>;
+  estimateGas(...args: A): Promise<bigint>;
+}
+
+export interface DecodedEvent {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface TransactionResult {
+  action: string;
+  dryRun: boolean;
+  returnValue: unknown;
+  gasEstimate: bigint;
+  hash: string | null;
+  blockNumber: number | null;
+  gasUsed: bigint | null;
+  events: DecodedEvent[];
+}
+
+/**
+ * Attach the decoded custom error (ethers' `revert` field) to a failed call
+ *
+ * The Hardhat provider surfaces reverts as ProviderErrors carrying only the raw
+ * revert data, nested at different depths depending on the network.
+ */
+function decodeRevert(contract: BaseContract, error: unknown): unknown {
+  if (typeof error !== "object" || error === null) return error;
+  const { revert, data, error: inner, info } = error as {
+    revert?: unknown;
+    data?: string | { data?: unknown };
+    error?: { data?: unknown };
+    info?: { error?: { data?: unknown } };
+  };
+  if (revert) return error;
+  const revertData = [data, typeof data === "object" ? data?.data : undefined, inner?.data, info?.error?.data]
+    .find((candidate): candidate is string => typeof candidate === "string" && candidate.startsWith("0x"));
+  const parsed = revertData ? contract.interface.parseError(revertData) : null;
+  if (parsed) {
+    Object.assign(error, { revert: { name: parsed.name, signature: parsed.signature, args: [...parsed.args] } });
+  }
+  return error;
+}
+
+/**
+ * Simulate a write with staticCall and, unless --dry-run, send it and wait for the receipt
+ *
+ * The simulation runs first in both modes, so reverts surface with their decoded
+ * custom error before any gas is spent.
+ */
+export async function execute<A extends unknown[]>(
+  ctx: CliContext,
+  contract: BaseContract,
+  action: string,
+  method: WriteMethod<A>,
+  ...args: A
+): Promise<TransactionResult> {
+  let returnValue: unknown;
+  let gasEstimate: bigint;
+  try {
+    returnValue = await method.staticCall(...args);
+    gasEstimate = await method.estimateGas(...args);
+  } catch (error) {
+    throw decodeRevert(contract, error);
+  }
+  const result: TransactionResult = {
+    action,
+    dryRun: ctx.dryRun,
+    returnValue,
+    gasEstimate,
+    hash: null,
+    blockNumber: null,
+    gasUsed: null,
+    events: [],
+  };
+  if (ctx.dryRun) {
+    if (!ctx.json) console.log(`🧪 [dry-run] ${action} would succeed (gas ≈ ${gasEstimate})`);
+    return result;
+  }
+
+  const tx = await method(...args);
+  if (!ctx.json) console.log(`📤 ${action}: ${tx.hash}`);
+  const receipt = await tx.wait();
+  if (!receipt) throw new Error(`${action}: transaction ${tx.hash} was dropped`);
+
+  result.hash = receipt.hash;
+  result.blockNumber = receipt.blockNumber;
+  result.gasUsed = receipt.gasUsed;
+  for (const log of receipt.logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed) {
+      result.events.push({
+        name: parsed.name,
+        args: Object.fromEntries(parsed.fragment.inputs.map((input, index) => [input.name, parsed.args[index]])),
+      });
+    }
+  }
+  if (!ctx.json) console.log(`✅ ${action} confirmed in block ${receipt.blockNumber} (gas ${receipt.gasUsed})`);
+  return result;
+}
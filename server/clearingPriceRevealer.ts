@@ -0,0 +1,197 @@
+/**
+ * Clearing Price Revealer (opt-in public decryption of resolved auctions)
+ *
+ * Companion to MarketAuction.revealClearingPrice:
+ *
+ * 1. Creator / manager / winner calls revealClearingPrice(auctionId)
+ *    → highestBid is allowed for public decryption (ClearingPriceRevealRequested event)
+ * 2. (HERE) Service asks the Relayer/KMS to publicly decrypt the handle
+ * 3. (HERE) Service submits the KMS-signed cleartext to onClearingPriceDecrypted
+ *    → ClearingPriceRevealed(auctionId, clearingPrice)
+ *
+ * Zama's oracle relayer may fulfill the same request first; the service then just skips it.
+ * Relayer errors are retried on the next poll, while a reverting dry run drops the request.
+ * Plaintext fallback auctions are revealed on-chain immediately and never reach this service.
+ *
+ * Environment:
+ *   RPC_URL                 JSON-RPC endpoint (default: local Hardhat node)
+ *   DEPLOYMENT_NETWORK      Manifest to use (default: the one matching the RPC chain id)
+ *   MARKET_AUCTION_ADDRESS  MarketAuction address (required without a manifest)
+ *   RELAYER_URL             Zama Relayer (default: https://relayer.testnet.zama.cloud)
+ *   REVEALER_PRIVATE_KEY    Key used to submit results
+ *                           (defaults to Hardhat account #0 on chain 31337)
+ *   START_BLOCK             First block to scan for requests (default: latest)
+ *   POLL_INTERVAL_MS        Polling interval (default: 5000)
+ */
+
+import { AbiCoder, Contract, JsonRpcProvider, dataSlice, isError } from "ethers";
+import { loadServiceSigner, resolveDeployment } from "./deployment/index.js";
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const RELAYER_URL = (process.env.RELAYER_URL || "https://relayer.testnet.zama.cloud").replace(/\/$/, "");
+const POLL_INTERVAL_MS = Number(process.env.POLL_INTERVAL_MS || 5000);
+
+const MARKET_AUCTION_ABI = [
+  "event ClearingPriceRevealRequested(uint256 indexed auctionId, uint256 indexed requestId, bytes32 highestBidHandle, uint256 timestamp)",
+  "function onClearingPriceDecrypted(uint256 requestId, uint64 clearingPrice, bytes[] signatures)",
+  "function clearingPriceRevealed(uint256 auctionId) view returns (bool)",
+  "error ClearingPriceAlreadyRevealed()",
+  "error UnknownRevealRequest()",
+  "error InvalidKMSSignatures()",
+];
+
+interface RevealRequest {
+  auctionId: bigint;
+  requestId: bigint;
+  handle: string;
+}
+
+interface PublicDecryption {
+  clearingPrice: bigint;
+  signatures: string[];
+}
+
+/**
+ * Ask the Relayer/KMS to publicly decrypt a single euint64 handle.
+ *
+ * The relayer SDK's publicDecrypt() only returns cleartexts, so the endpoint is called
+ * directly to keep the KMS signatures that the contract verifies.
+ */
+async function requestPublicDecryption(handle: string): Promise<PublicDecryption> {
+  const response = await fetch(`${RELAYER_URL}/v1/public-decrypt`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ciphertextHandles: [handle], extraData: "0x00" }),
+  });
+
+  const json: any = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`Relayer returned HTTP ${response.status}: ${json.message || JSON.stringify(json)}`);
+  }
+
+  const result = json.response?.[0];
+  if (!result || typeof result.decrypted_value !== "string" || !Array.isArray(result.signatures)) {
+    throw new Error("Relayer response is missing decrypted_value or signatures");
+  }
+
+  // decrypted_value = abi-encoded cleartexts (one word per handle) + signatures offset
+  const decryptedResult = result.decrypted_value.startsWith("0x")
+    ? result.decrypted_value
+    : `0x${result.decrypted_value}`;
+  const [clearingPrice] = AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(decryptedResult, 0, 32));
+
+  return {
+    clearingPrice,
+    signatures: result.signatures.map((signature: string) =>
+      signature.startsWith("0x") ? signature : `0x${signature}`
+    ),
+  };
+}
+
+/**
+ * Decrypt and submit a single reveal request; throws while the result is not available yet
+ * A request whose submission would revert is dropped: retrying the same KMS result cannot succeed
+ */
+async function processReveal(request: RevealRequest, auction: Contract): Promise<void> {
+  const { auctionId, requestId, handle } = request;
+
+  if (await auction.getFunction("clearingPriceRevealed")(auctionId)) {
+    console.log(`⏭️  Auction #${auctionId} clearing price already revealed, skipping`);
+    return;
+  }
+
+  console.log(`\n🔓 [Reveal] Auction #${auctionId} (request #${requestId})`);
+  console.log(`   Handle: ${handle}`);
+
+  const { clearingPrice, signatures } = await requestPublicDecryption(handle);
+  console.log(`   KMS returned ${clearingPrice} with ${signatures.length} signature(s)`);
+
+  // Dry-run first: bad signatures or a concurrent fulfillment revert here without spending gas
+  try {
+    await auction.getFunction("onClearingPriceDecrypted").staticCall(requestId, clearingPrice, signatures);
+  } catch (error) {
+    if (!isError(error, "CALL_EXCEPTION")) throw error;
+    console.log(`⏭️  Auction #${auctionId} reveal reverted (${error.revert?.name ?? error.shortMessage}), skipping`);
+    return;
+  }
+  const tx = await auction.getFunction("onClearingPriceDecrypted")(requestId, clearingPrice, signatures);
+  await tx.wait();
+
+  console.log(`✅ [Reveal ✓] Auction #${auctionId} clearing price ${clearingPrice} (tx ${tx.hash})`);
+}
+
+/**
+ * Start the service
+ */
+async function main(): Promise<void> {
+  const provider = new JsonRpcProvider(RPC_URL);
+  const { chainId } = await provider.getNetwork();
+
+  const auctionAddress = (await resolveDeployment(provider)).addresses.MarketAuction;
+  if (!auctionAddress) {
+    throw new Error("MARKET_AUCTION_ADDRESS is required (no deployment manifest for this chain)");
+  }
+
+  const signer = await loadServiceSigner(provider, "REVEALER_PRIVATE_KEY");
+  const auction = new Contract(auctionAddress, MARKET_AUCTION_ABI, signer);
+
+  let nextBlock = process.env.START_BLOCK
+    ? Number(process.env.START_BLOCK)
+    : await provider.getBlockNumber();
+
+  console.log("");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("🔓 Clearing Price Revealer running");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log(`  RPC:               ${RPC_URL} (chain ${chainId})`);
+  console.log(`  MarketAuction:     ${auctionAddress}`);
+  console.log(`  Relayer:           ${RELAYER_URL}`);
+  console.log(`  Submitter:         ${signer.address}`);
+  console.log(`  Starting at block: ${nextBlock}`);
+  console.log("");
+
+  // Requests stay queued until revealed: ciphertexts may not be decryptable right away
+  const pending = new Map<bigint, RevealRequest>();
+
+  for (;;) {
+    try {
+      const latest = await provider.getBlockNumber();
+      if (latest >= nextBlock) {
+        const events = await auction.queryFilter(
+          auction.getEvent("ClearingPriceRevealRequested"),
+          nextBlock,
+          latest
+        );
+
+        for (const event of events) {
+          if (!("args" in event)) continue;
+          pending.set(event.args.requestId, {
+            auctionId: event.args.auctionId,
+            requestId: event.args.requestId,
+            handle: event.args.highestBidHandle,
+          });
+        }
+
+        nextBlock = latest + 1;
+      }
+    } catch (error: any) {
+      console.error("⚠️  Polling error, retrying:", error.shortMessage || error.message);
+    }
+
+    for (const [requestId, request] of pending) {
+      try {
+        await processReveal(request, auction);
+        pending.delete(requestId);
+      } catch (error: any) {
+        console.error(`⚠️  Auction #${request.auctionId} not revealed yet, will retry:`, error.shortMessage || error.message);
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Clearing price revealer failed:", error.message);
+  process.exit(1);
+});
@@ -0,0 +1,254 @@
+/**
+ * Proof Verifier Daemon (Step 2 of Zama Architecture - Gateway Verification)
+ *
+ * Off-chain companion to InputVerificationMock. It plays the role of Zama's
+ * coprocessor for the async gateway flow:
+ *
+ * Step 1: User → Encryption server → handle + proof
+ * Step 2: MarketAuction → InputVerification.verifyProofRequest (VerifyProofRequest event)
+ * Step 2 (HERE): Daemon validates the payload and answers on-chain:
+ *   - valid   → verifyProofResponse → MarketAuction.onProofVerified
+ *   - invalid → rejectProofResponse → MarketAuction.onProofRejected
+ *
+ * The mock gateway resolves values in plaintext fallback mode, so a payload is
+ * only accepted when its handle carries a plaintext uint64 (as produced by the
+ * encryption server in MOCK_MODE) followed by a non-empty proof. A valid payload whose
+ * callback dry run reverts is rejected too; RPC errors leave the request to the next poll.
+ *
+ * Environment:
+ *   RPC_URL                     JSON-RPC endpoint (default: local Hardhat node)
+ *   DEPLOYMENT_NETWORK          Manifest to use (default: the one matching the RPC chain id)
+ *   INPUT_VERIFICATION_ADDRESS  InputVerificationMock address (required without a manifest)
+ *   MARKET_AUCTION_ADDRESS      Only answer requests from this contract
+ *                               (default: the manifest's MarketAuction, else any)
+ *   COPROCESSOR_PRIVATE_KEY     Key used to sign and send responses, must be the mock's
+ *                               coprocessor account (defaults to Hardhat account #0 on chain 31337)
+ *   START_BLOCK                 First block to scan for requests (default: latest)
+ *   POLL_INTERVAL_MS            Polling interval (default: 2000)
+ */
+
+import { AbiCoder, Contract, JsonRpcProvider, Wallet, dataLength, dataSlice, getAddress, getBytes, isError, keccak256, solidityPacked } from "ethers";
+import { loadServiceSigner, resolveDeployment } from "./deployment/index.js";
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const POLL_INTERVAL_MS = Number(process.env.POLL_INTERVAL_MS || 2000);
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+
+const INPUT_VERIFICATION_ABI = [
+  "event VerifyProofRequest(uint256 indexed zkProofId, uint256 indexed contractChainId, address indexed contractAddress, address userAddress, bytes ciphertextWithZKProof, bytes extraData)",
+  "function verifyProofResponse(uint256 zkProofId, bytes32[] ctHandles, bytes signature, bytes extraData)",
+  "function rejectProofResponse(uint256 zkProofId, bytes extraData)",
+  "function isProofProcessed(uint256 zkProofId) view returns (bool)",
+  "function coprocessor() view returns (address)",
+  "error ProofAlreadyProcessed(uint256 zkProofId)",
+  "error NotCoprocessor()",
+  // MarketAuction errors bubble up through the onProofVerified callback
+  "error AuctionNotFound()",
+  "error AuctionNotActive()",
+  "error AuctionAlreadyResolved()",
+  "error BidRejected()",
+];
+
+const MARKET_AUCTION_ABI = [
+  "function auctionCounter() view returns (uint256)",
+  "function pendingBids(uint256 zkProofId) view returns (uint256 auctionId, address bidder, bytes32 bidAmount, bool isValid, bool isReservePrice)",
+];
+
+interface ProofRequest {
+  zkProofId: bigint;
+  contractChainId: bigint;
+  contractAddress: string;
+  userAddress: string;
+  ciphertextWithZKProof: string;
+  extraData: string;
+}
+
+type Verdict =
+  | { valid: true; handle: string }
+  | { valid: false; reason: string };
+
+/**
+ * Validate a proof request payload against the chain and the requesting contract
+ */
+async function validateRequest(
+  request: ProofRequest,
+  chainId: bigint,
+  provider: JsonRpcProvider
+): Promise<Verdict> {
+  if (request.contractChainId !== chainId) {
+    return { valid: false, reason: `chain id ${request.contractChainId} does not match ${chainId}` };
+  }
+
+  if (request.userAddress === "0x0000000000000000000000000000000000000000") {
+    return { valid: false, reason: "user address is zero" };
+  }
+
+  // Payload layout: 32-byte handle || input proof
+  if (dataLength(request.ciphertextWithZKProof) <= 32) {
+    return { valid: false, reason: "ciphertext is missing its ZK proof" };
+  }
+  const handle = dataSlice(request.ciphertextWithZKProof, 0, 32);
+  if (BigInt(handle) > MAX_UINT64) {
+    return { valid: false, reason: "handle is not a mock uint64 ciphertext" };
+  }
+
+  // extraData always starts with the auction id
+  let auctionId: bigint;
+  try {
+    [auctionId] = AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(request.extraData, 0, 32));
+  } catch {
+    return { valid: false, reason: "extraData does not encode an auction id" };
+  }
+
+  const auction = new Contract(request.contractAddress, MARKET_AUCTION_ABI, provider);
+  try {
+    const auctionCounter: bigint = await auction.getFunction("auctionCounter")();
+    if (auctionId === 0n || auctionId > auctionCounter) {
+      return { valid: false, reason: `auction ${auctionId} does not exist` };
+    }
+
+    const pending = await auction.getFunction("pendingBids")(request.zkProofId);
+    if (!pending.isValid) {
+      return { valid: false, reason: "no pending bid for this proof" };
+    }
+    if (pending.auctionId !== auctionId || getAddress(pending.bidder) !== request.userAddress) {
+      return { valid: false, reason: "pending bid does not match request context" };
+    }
+    if (pending.bidAmount !== handle) {
+      return { valid: false, reason: "pending bid handle does not match ciphertext" };
+    }
+  } catch (error: any) {
+    return { valid: false, reason: `requesting contract is not a MarketAuction (${error.shortMessage || error.message})` };
+  }
+
+  return { valid: true, handle };
+}
+
+/**
+ * Answer a single proof request on-chain
+ */
+async function processRequest(
+  request: ProofRequest,
+  chainId: bigint,
+  provider: JsonRpcProvider,
+  signer: Wallet,
+  inputVerification: Contract
+): Promise<void> {
+  const id = request.zkProofId;
+
+  if (await inputVerification.getFunction("isProofProcessed")(id)) {
+    console.log(`⏭️  Proof #${id} already processed, skipping`);
+    return;
+  }
+
+  console.log(`\n📥 [Step 2: Gateway] Proof #${id} from ${request.contractAddress}`);
+  console.log(`   User: ${request.userAddress}`);
+
+  let verdict = await validateRequest(request, chainId, provider);
+
+  if (verdict.valid) {
+    const handles = [verdict.handle];
+    const digest = keccak256(solidityPacked(["uint256", "bytes32[]"], [id, handles]));
+    const signature = await signer.signMessage(getBytes(digest));
+
+    // Dry-run the callback first: MarketAuction may still refuse the bid (e.g. below reserve).
+    // Only a revert rejects the proof; RPC failures propagate so the poll retries the request
+    try {
+      await inputVerification.getFunction("verifyProofResponse").staticCall(id, handles, signature, request.extraData);
+    } catch (error) {
+      if (!isError(error, "CALL_EXCEPTION")) throw error;
+      verdict = { valid: false, reason: `callback reverted: ${error.revert?.name ?? error.shortMessage}` };
+    }
+
+    if (verdict.valid) {
+      const tx = await inputVerification.getFunction("verifyProofResponse")(id, handles, signature, request.extraData);
+      await tx.wait();
+      console.log(`✅ [Step 2 ✓] Proof #${id} verified (tx ${tx.hash})`);
+      return;
+    }
+  }
+
+  console.log(`❌ [Step 2 ✗] Proof #${id} rejected: ${verdict.reason}`);
+  const tx = await inputVerification.getFunction("rejectProofResponse")(id, request.extraData);
+  await tx.wait();
+  console.log(`   Rejection submitted (tx ${tx.hash})`);
+}
+
+/**
+ * Start the daemon
+ */
+async function main(): Promise<void> {
+  const provider = new JsonRpcProvider(RPC_URL);
+  const { chainId } = await provider.getNetwork();
+
+  const deployment = await resolveDeployment(provider);
+  const inputVerificationAddress = deployment.addresses.InputVerification;
+  if (!inputVerificationAddress) {
+    throw new Error("INPUT_VERIFICATION_ADDRESS is required (no gateway-mode deployment manifest for this chain)");
+  }
+  const auctionFilter = deployment.addresses.MarketAuction;
+
+  const signer = await loadServiceSigner(provider, "COPROCESSOR_PRIVATE_KEY");
+  const inputVerification = new Contract(inputVerificationAddress, INPUT_VERIFICATION_ABI, signer);
+  // The mock only takes answers from the account it was deployed with
+  const coprocessor: string = await inputVerification.coprocessor();
+  if (getAddress(coprocessor) !== signer.address) {
+    throw new Error(`COPROCESSOR_PRIVATE_KEY is for ${signer.address}, but InputVerificationMock answers only to ${coprocessor}`);
+  }
+
+  let nextBlock = process.env.START_BLOCK
+    ? Number(process.env.START_BLOCK)
+    : await provider.getBlockNumber();
+
+  console.log("");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log("🛰️  Proof Verifier Daemon running");
+  console.log("═══════════════════════════════════════════════════════════");
+  console.log(`  RPC:               ${RPC_URL} (chain ${chainId})`);
+  console.log(`  InputVerification: ${inputVerificationAddress}`);
+  console.log(`  MarketAuction:     ${auctionFilter ?? "any requester"}`);
+  console.log(`  Responder:         ${signer.address}`);
+  console.log(`  Starting at block: ${nextBlock}`);
+  console.log("");
+
+  // Poll logs block range by block range so requests are answered in order
+  for (;;) {
+    try {
+      const latest = await provider.getBlockNumber();
+      if (latest >= nextBlock) {
+        const events = await inputVerification.queryFilter(
+          inputVerification.getEvent("VerifyProofRequest"),
+          nextBlock,
+          latest
+        );
+
+        for (const event of events) {
+          if (!("args" in event)) continue;
+          const request: ProofRequest = {
+            zkProofId: event.args.zkProofId,
+            contractChainId: event.args.contractChainId,
+            contractAddress: getAddress(event.args.contractAddress),
+            userAddress: getAddress(event.args.userAddress),
+            ciphertextWithZKProof: event.args.ciphertextWithZKProof,
+            extraData: event.args.extraData,
+          };
+
+          if (auctionFilter && request.contractAddress !== auctionFilter) continue;
+          await processRequest(request, chainId, provider, signer, inputVerification);
+        }
+
+        nextBlock = latest + 1;
+      }
+    } catch (error: any) {
+      console.error("⚠️  Polling error, retrying:", error.shortMessage || error.message);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Proof verifier daemon failed:", error.message);
+  process.exit(1);
+});
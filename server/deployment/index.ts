@@ -0,0 +1,8 @@
+/**
+ * Deployment manifests (deployments/<network>.json) shared with tasks/deploy.ts,
+ * and the signer each service sends transactions from
+ */
+
+export type { ContractDeployment, DeployedContractName, DeploymentManifest, ResolvedDeployment } from "./types.js";
+export { DeploymentMismatchError, findManifest, loadManifest, resolveDeployment, verifyContractCode } from "./manifest.js";
+export { loadServiceSigner } from "./signer.js";
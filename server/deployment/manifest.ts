@@ -0,0 +1,141 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { getAddress, keccak256 } from "ethers";
+import type { Provider } from "ethers";
+import type { DeployedContractName, DeploymentManifest, ResolvedDeployment } from "./types.js";
+
+const DEFAULT_DEPLOYMENTS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "..", "deployments");
+
+// Explicit addresses still win over the manifest (e.g. a contract deployed by hand)
+const ADDRESS_ENV: Record<DeployedContractName, string> = {
+  ShadowMerchants: "SHADOW_MERCHANTS_ADDRESS",
+  MarketAuction: "MARKET_AUCTION_ADDRESS",
+  InputVerification: "INPUT_VERIFICATION_ADDRESS",
+};
+
+/**
+ * On-chain state disagrees with the manifest (redeployed contract, reset chain, wrong address)
+ */
+export class DeploymentMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeploymentMismatchError";
+  }
+}
+
+function deploymentsDir(): string {
+  return process.env.DEPLOYMENTS_DIR || DEFAULT_DEPLOYMENTS_DIR;
+}
+
+function readManifest(file: string): DeploymentManifest {
+  return JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentManifest;
+}
+
+/**
+ * Read deployments/<network>.json
+ * @throws When the network has no manifest
+ */
+export function loadManifest(network: string): DeploymentManifest {
+  const file = path.join(deploymentsDir(), `${network}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No deployment manifest for "${network}" (${file})`);
+  }
+  return readManifest(file);
+}
+
+/**
+ * Find the manifest for a chain
+ *
+ * DEPLOYMENT_NETWORK picks deployments/<network>.json explicitly; otherwise the single
+ * manifest recorded for the chain id is used.
+ * @returns null when no manifest exists for the chain
+ */
+export function findManifest(chainId: bigint): DeploymentManifest | null {
+  const dir = deploymentsDir();
+  const network = process.env.DEPLOYMENT_NETWORK;
+
+  if (network) {
+    const manifest = loadManifest(network);
+    if (BigInt(manifest.chainId) !== chainId) {
+      throw new DeploymentMismatchError(
+        `deployments/${network}.json is for chain ${manifest.chainId}, but the RPC is on chain ${chainId}`
+      );
+    }
+    return manifest;
+  }
+
+  if (!fs.existsSync(dir)) return null;
+  const matches = fs.readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => readManifest(path.join(dir, name)))
+    .filter((manifest) => BigInt(manifest.chainId) === chainId);
+  if (matches.length > 1) {
+    throw new Error(
+      `Several deployments for chain ${chainId} (${matches.map((m) => m.network).join(", ")}), set DEPLOYMENT_NETWORK`
+    );
+  }
+  return matches[0] ?? null;
+}
+
+/**
+ * Refuse a manifest contract whose runtime bytecode hash no longer matches
+ * @throws DeploymentMismatchError
+ */
+export async function verifyContractCode(
+  provider: Provider,
+  manifest: DeploymentManifest,
+  name: DeployedContractName
+): Promise<void> {
+  const contract = manifest.contracts[name];
+  if (!contract) return;
+
+  const code = await provider.getCode(contract.address);
+  if (code === "0x") {
+    throw new DeploymentMismatchError(
+      `${name}: no contract at ${contract.address} (chain reset since deployments/${manifest.network}.json was written?)`
+    );
+  }
+  if (keccak256(code) !== contract.codeHash) {
+    throw new DeploymentMismatchError(
+      `${name}: bytecode at ${contract.address} does not match deployments/${manifest.network}.json`
+    );
+  }
+}
+
+/**
+ * Resolve contract addresses for a service: *_ADDRESS env vars, else the chain's manifest
+ *
+ * Every address taken from (or equal to) the manifest is bytecode-verified before use.
+ */
+export async function resolveDeployment(provider: Provider): Promise<ResolvedDeployment> {
+  const { chainId } = await provider.getNetwork();
+  const manifest = findManifest(chainId);
+
+  const addresses: ResolvedDeployment["addresses"] = {
+    ShadowMerchants: null,
+    MarketAuction: null,
+    InputVerification: null,
+  };
+  const deployBlocks: number[] = [];
+
+  for (const name of Object.keys(ADDRESS_ENV) as DeployedContractName[]) {
+    const override = process.env[ADDRESS_ENV[name]];
+    const recorded = manifest?.contracts[name];
+    const address = override ? getAddress(override) : recorded ? getAddress(recorded.address) : null;
+    addresses[name] = address;
+
+    if (manifest && recorded && address === getAddress(recorded.address)) {
+      await verifyContractCode(provider, manifest, name);
+      deployBlocks.push(recorded.blockNumber);
+    } else if (override && manifest) {
+      console.warn(`⚠️  ${ADDRESS_ENV[name]} overrides deployments/${manifest.network}.json, bytecode not verified`);
+    }
+  }
+
+  return {
+    manifest,
+    addresses,
+    deployBlock: deployBlocks.length > 0 ? Math.min(...deployBlocks) : null,
+  };
+}
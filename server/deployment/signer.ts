@@ -0,0 +1,21 @@
+import { Wallet } from "ethers";
+import type { Provider } from "ethers";
+
+// Hardhat's well-known account #0 - only ever used against a local chain
+const HARDHAT_DEFAULT_KEY =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const HARDHAT_CHAIN_ID = 31337n;
+
+/**
+ * Wallet a service sends its transactions from: the key in `keyEnv`,
+ * or Hardhat account #0 on the local chain
+ * @throws When `keyEnv` is unset on any other chain
+ */
+export async function loadServiceSigner(provider: Provider, keyEnv: string): Promise<Wallet> {
+  const { chainId } = await provider.getNetwork();
+  const privateKey = process.env[keyEnv] || (chainId === HARDHAT_CHAIN_ID ? HARDHAT_DEFAULT_KEY : undefined);
+  if (!privateKey) {
+    throw new Error(`${keyEnv} is required outside the local Hardhat network`);
+  }
+  return new Wallet(privateKey, provider);
+}
@@ -0,0 +1,32 @@
+/**
+ * Deployment manifest written by tasks/deploy.ts (deployments/<network>.json)
+ */
+
+export type DeployedContractName = "ShadowMerchants" | "MarketAuction" | "InputVerification";
+
+export interface ContractDeployment {
+  address: string;
+  blockNumber: number;
+  transactionHash: string;
+  constructorArgs: unknown[];
+  abiHash: string;  // keccak256 of the ABI JSON
+  codeHash: string; // keccak256 of the deployed runtime bytecode
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  deployer: string;
+  deployedAt: string;
+  gatewayMode: "direct" | "gateway";
+  contracts: Partial<Record<DeployedContractName, ContractDeployment>>;
+}
+
+/**
+ * Addresses a service talks to, after env overrides and bytecode verification
+ */
+export interface ResolvedDeployment {
+  manifest: DeploymentManifest | null;
+  addresses: Record<DeployedContractName, string | null>;
+  deployBlock: number | null; // earliest deployment block of the resolved manifest contracts
+}
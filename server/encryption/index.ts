@@ -0,0 +1,86 @@
+/**
+ * Encryption backend registry
+ *
+ * Backends are selected per deployment via ENCRYPTION_BACKEND (or the legacy
+ * MOCK_MODE flag) and can be overridden per request with the `backend` body
+ * field or the `X-Encryption-Backend` header. Register new backends (e.g. a
+ * local fake-FHE backend) in `backends` below.
+ */
+
+import { MockPlaintextBackend } from "./mockPlaintextBackend.js";
+import { ZamaRelayerBackend } from "./zamaRelayerBackend.js";
+import type { EncryptionBackend } from "./types.js";
+
+export type {
+  EncryptedInput,
+  EncryptionBackend,
+  EncryptionTarget,
+  HandleContractPair,
+  UserDecryptEIP712,
+  UserDecryptRequest,
+} from "./types.js";
+export type { UserDecryptSession } from "./userDecryptSessions.js";
+export { UserDecryptSessionStore } from "./userDecryptSessions.js";
+export type { EncryptedValueType, TypedValue } from "./values.js";
+export {
+  ENCRYPTED_VALUE_TYPES,
+  InvalidValueError,
+  parseChecksummedAddress,
+  parseEncryptionTarget,
+  parseTypedValue,
+  parseTypedValues,
+} from "./values.js";
+export { MockPlaintextBackend, generateMockHandle } from "./mockPlaintextBackend.js";
+export { ZamaRelayerBackend } from "./zamaRelayerBackend.js";
+
+/**
+ * Thrown when a requested backend id is not registered
+ */
+export class UnknownBackendError extends Error {
+  constructor(id: string) {
+    super(`Unknown encryption backend "${id}". Available: ${listBackends().join(", ")}`);
+    this.name = "UnknownBackendError";
+  }
+}
+
+const backends = new Map<string, EncryptionBackend>();
+
+/**
+ * Register a backend under its id (later registrations replace earlier ones)
+ */
+export function registerBackend(backend: EncryptionBackend): void {
+  backends.set(backend.id, backend);
+}
+
+registerBackend(new MockPlaintextBackend());
+registerBackend(new ZamaRelayerBackend());
+
+/**
+ * Ids of all registered backends
+ */
+export function listBackends(): string[] {
+  return Array.from(backends.keys());
+}
+
+/**
+ * Deployment-wide default backend id
+ * ENCRYPTION_BACKEND wins; MOCK_MODE=false selects the Zama Relayer; otherwise mock
+ */
+export function defaultBackendId(): string {
+  if (process.env.ENCRYPTION_BACKEND) {
+    return process.env.ENCRYPTION_BACKEND;
+  }
+  return process.env.MOCK_MODE === "false" ? "zama" : "mock";
+}
+
+/**
+ * Resolve a backend by id, falling back to the deployment default
+ */
+export function getBackend(id?: string | null): EncryptionBackend {
+  const backendId = id || defaultBackendId();
+  const backend = backends.get(backendId);
+  if (!backend) {
+    throw new UnknownBackendError(backendId);
+  }
+  return backend;
+}
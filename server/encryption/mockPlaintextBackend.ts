@@ -0,0 +1,154 @@
+import { ZeroAddress, getAddress, hexlify, randomBytes, verifyTypedData } from "ethers";
+import type {
+  EncryptedInput,
+  EncryptionBackend,
+  HandleContractPair,
+  UserDecryptEIP712,
+  UserDecryptRequest,
+} from "./types.js";
+import { InvalidValueError } from "./values.js";
+import type { TypedValue } from "./values.js";
+
+// Same validity window the relayer SDK examples use for user decryption
+const USER_DECRYPT_DURATION_DAYS = 10;
+
+// Mock handles carry at most an address (160 bits); coprocessor handles are hashes far above it
+const MAX_MOCK_HANDLE = (1n << 160n) - 1n;
+
+/**
+ * MOCK backend for Relayer outages
+ * Generates valid hex handles with empty proofs so the full flow can be
+ * tested without the Zama Relayer: the contract treats the handle as a
+ * plaintext uint64 when the proof is empty (usesPlaintext=true).
+ */
+export class MockPlaintextBackend implements EncryptionBackend {
+  readonly id = "mock";
+  readonly mode = "MOCK (Plaintext Fallback)";
+  readonly contractMode = "usesPlaintext=true";
+  readonly note = "Contract will treat handle as plaintext uint64. Perfect for testing Steps 2-5!";
+
+  async encrypt(values: TypedValue[]): Promise<EncryptedInput> {
+    console.log("ℹ️  Mock Mode Active: Using plaintext values for Relayer compatibility testing");
+
+    return {
+      handles: values.map((entry) => generateMockHandle(toPlainBigInt(entry))),
+      proof: "0x", // Empty proof triggers plaintext mode in contract
+    };
+  }
+
+  /**
+   * Build a request with the same EIP-712 shape as the relayer SDK so the
+   * wallet flow is identical; the "keypair" is random bytes since mock
+   * handles already carry their plaintext
+   */
+  async createUserDecryptRequest(contractAddresses: string[], chainId: number): Promise<UserDecryptRequest> {
+    const publicKey = hexlify(randomBytes(32));
+    const startTimestamp = Math.floor(Date.now() / 1000);
+
+    return {
+      publicKey,
+      privateKey: hexlify(randomBytes(32)),
+      contractAddresses,
+      startTimestamp,
+      durationDays: USER_DECRYPT_DURATION_DAYS,
+      eip712: buildUserDecryptEIP712(publicKey, contractAddresses, chainId, startTimestamp, USER_DECRYPT_DURATION_DAYS),
+    };
+  }
+
+  /**
+   * Check the wallet signature, then read the plaintext carried by each mock handle
+   * Real ciphertext handles are rejected: only the Relayer backend can decrypt them
+   */
+  async userDecrypt(
+    handles: HandleContractPair[],
+    request: UserDecryptRequest,
+    signature: string,
+    userAddress: string
+  ): Promise<Record<string, string>> {
+    const { domain, types, message } = request.eip712;
+    // ethers derives the domain type itself and rejects it among the signed types
+    const signedTypes = { ...types };
+    delete signedTypes.EIP712Domain;
+    const signer = verifyTypedData(domain, signedTypes, message, signature);
+    if (getAddress(signer) !== userAddress) {
+      throw new InvalidValueError("signature was not produced by userAddress");
+    }
+
+    return Object.fromEntries(
+      handles.map(({ handle }) => {
+        const plaintext = BigInt(handle);
+        if (plaintext > MAX_MOCK_HANDLE) {
+          throw new InvalidValueError(
+            `handle ${handle} is a ciphertext, not a mock plaintext handle - decrypt it with the zama backend`
+          );
+        }
+        return [handle, plaintext.toString()];
+      })
+    );
+  }
+}
+
+/**
+ * Generate mock encrypted handle (32-byte hex string)
+ * This simulates what the Relayer would return, but without actual FHE
+ * Contract will treat this as plaintext when proof is empty
+ */
+export function generateMockHandle(value: bigint): string {
+  // Convert value to 32-byte hex (left-padded)
+  const hex = value.toString(16).padStart(64, "0");
+  return "0x" + hex;
+}
+
+/**
+ * EIP-712 user decryption request in the relayer SDK layout
+ */
+function buildUserDecryptEIP712(
+  publicKey: string,
+  contractAddresses: string[],
+  chainId: number,
+  startTimestamp: number,
+  durationDays: number
+): UserDecryptEIP712 {
+  return {
+    types: {
+      EIP712Domain: [
+        { name: "name", type: "string" },
+        { name: "version", type: "string" },
+        { name: "chainId", type: "uint256" },
+        { name: "verifyingContract", type: "address" },
+      ],
+      UserDecryptRequestVerification: [
+        { name: "publicKey", type: "bytes" },
+        { name: "contractAddresses", type: "address[]" },
+        { name: "contractsChainId", type: "uint256" },
+        { name: "startTimestamp", type: "uint256" },
+        { name: "durationDays", type: "uint256" },
+        { name: "extraData", type: "bytes" },
+      ],
+    },
+    primaryType: "UserDecryptRequestVerification",
+    domain: {
+      name: "Decryption",
+      version: "1",
+      chainId,
+      verifyingContract: ZeroAddress,
+    },
+    message: {
+      publicKey,
+      contractAddresses,
+      contractsChainId: chainId,
+      startTimestamp: startTimestamp.toString(),
+      durationDays: durationDays.toString(),
+      extraData: "0x00",
+    },
+  };
+}
+
+/**
+ * Plaintext integer carried by a mock handle (bools → 0/1, addresses → uint160)
+ */
+function toPlainBigInt(entry: TypedValue): bigint {
+  if (entry.type === "bool") return entry.value ? 1n : 0n;
+  if (entry.type === "address") return BigInt(entry.value);
+  return entry.value;
+}
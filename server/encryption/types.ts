@@ -0,0 +1,91 @@
+import type { TypedValue } from "./values.js";
+
+/**
+ * Encryption backend contract shared by every `/api/encrypt/*` and
+ * `/api/decrypt/*` route
+ *
+ * A backend turns plaintext inputs into the (handle, proof) pairs that the
+ * contracts accept (Step 1) and decrypts handles for their owner (Step 5).
+ * Routes never branch on the backend kind - they pick a backend from the
+ * registry and call it.
+ */
+
+/**
+ * Contract/user pair an encrypted input is bound to
+ */
+export interface EncryptionTarget {
+  contractAddress: string;
+  userAddress: string;
+}
+
+/**
+ * Encrypted input ready for Gateway submission (Step 2)
+ * One handle per value, all covered by a single shared input proof
+ */
+export interface EncryptedInput {
+  handles: string[];
+  proof: string;
+}
+
+/**
+ * Ciphertext handle together with the contract that holds it
+ */
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+/**
+ * EIP-712 typed data the user's wallet signs to authorize a user decryption
+ */
+export interface UserDecryptEIP712 {
+  domain: Record<string, unknown>;
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Everything needed to decrypt once the wallet signature comes back
+ * The private key never leaves the server
+ */
+export interface UserDecryptRequest {
+  publicKey: string;
+  privateKey: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+  eip712: UserDecryptEIP712;
+}
+
+export interface EncryptionBackend {
+  /** Identifier used in config and per-request selection (e.g. "mock") */
+  readonly id: string;
+  /** Human readable mode reported in API responses */
+  readonly mode: string;
+  /** How the contract is expected to treat values from this backend */
+  readonly contractMode: string;
+  /** Optional note forwarded to API clients */
+  readonly note?: string;
+
+  /**
+   * Encrypt a list of typed values for the given target in one input
+   */
+  encrypt(values: TypedValue[], target: EncryptionTarget): Promise<EncryptedInput>;
+
+  /**
+   * Generate a keypair and the EIP-712 request the user must sign (Step 5)
+   */
+  createUserDecryptRequest(contractAddresses: string[], chainId: number): Promise<UserDecryptRequest>;
+
+  /**
+   * Decrypt handles owned by `userAddress` using the signed request
+   * Returns cleartexts keyed by handle, as decimal strings
+   */
+  userDecrypt(
+    handles: HandleContractPair[],
+    request: UserDecryptRequest,
+    signature: string,
+    userAddress: string
+  ): Promise<Record<string, string>>;
+}
@@ -0,0 +1,55 @@
+import { randomUUID } from "node:crypto";
+import type { UserDecryptRequest } from "./types.js";
+
+/**
+ * Pending user decryption, created when the keypair + EIP-712 request is
+ * handed to the client and consumed when the signature comes back
+ */
+export interface UserDecryptSession {
+  id: string;
+  backendId: string;
+  userAddress: string;
+  request: UserDecryptRequest;
+  expiresAt: number;
+}
+
+/**
+ * In-memory store keeping user decryption private keys server-side
+ * Sessions expire after `ttlMs` (default 10 minutes)
+ */
+export class UserDecryptSessionStore {
+  private readonly sessions = new Map<string, UserDecryptSession>();
+
+  constructor(private readonly ttlMs = 10 * 60 * 1000) {}
+
+  create(backendId: string, userAddress: string, request: UserDecryptRequest): UserDecryptSession {
+    this.prune();
+
+    const session: UserDecryptSession = {
+      id: randomUUID(),
+      backendId,
+      userAddress,
+      request,
+      expiresAt: Date.now() + this.ttlMs,
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  get(id: string): UserDecryptSession | null {
+    const session = this.sessions.get(id);
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(id);
+      return null;
+    }
+    return session;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt <= now) this.sessions.delete(id);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { getAddress, isAddress } from "ethers";
+
+/**
+ * Encrypted input types supported by the relayer SDK input builder
+ */
+export const ENCRYPTED_VALUE_TYPES = ["bool", "uint8", "uint16", "uint32", "uint64", "address"] as const;
+
+export type EncryptedValueType = (typeof ENCRYPTED_VALUE_TYPES)[number];
+
+/**
+ * A single validated value to encrypt
+ * Integers and booleans are normalized to bigint, addresses stay hex strings
+ */
+export type TypedValue =
+  | { type: "bool"; value: boolean }
+  | { type: "uint8" | "uint16" | "uint32" | "uint64"; value: bigint }
+  | { type: "address"; value: string };
+
+const UINT_BITS: Record<string, bigint> = {
+  uint8: 8n,
+  uint16: 16n,
+  uint32: 32n,
+  uint64: 64n,
+};
+
+/**
+ * Thrown when a request carries a value that cannot be encrypted as requested
+ */
+export class InvalidValueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidValueError";
+  }
+}
+
+/**
+ * Validate one `{ type, value }` entry from a request body
+ */
+export function parseTypedValue(input: unknown, index = 0): TypedValue {
+  const { type, value } = (input ?? {}) as { type?: unknown; value?: unknown };
+  const label = `values[${index}]`;
+
+  if (typeof type !== "string" || !ENCRYPTED_VALUE_TYPES.includes(type as EncryptedValueType)) {
+    throw new InvalidValueError(
+      `${label}.type must be one of ${ENCRYPTED_VALUE_TYPES.join(", ")}`
+    );
+  }
+  if (value === undefined || value === null || value === "") {
+    throw new InvalidValueError(`${label}.value is required`);
+  }
+
+  if (type === "bool") {
+    if (value === true || value === "true" || value === 1 || value === "1") return { type, value: true };
+    if (value === false || value === "false" || value === 0 || value === "0") return { type, value: false };
+    throw new InvalidValueError(`${label}.value must be a boolean`);
+  }
+
+  if (type === "address") {
+    if (typeof value !== "string" || !isAddress(value)) {
+      throw new InvalidValueError(`${label}.value must be an address`);
+    }
+    return { type, value };
+  }
+
+  let numValue: bigint;
+  try {
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "bigint") throw new TypeError();
+    numValue = BigInt(value);
+  } catch {
+    throw new InvalidValueError(`${label}.value must be a valid non-negative integer`);
+  }
+  const bits = UINT_BITS[type] as bigint;
+  if (numValue < 0n || numValue >= 1n << bits) {
+    throw new InvalidValueError(`${label}.value does not fit in ${type}`);
+  }
+  return { type: type as "uint8" | "uint16" | "uint32" | "uint64", value: numValue };
+}
+
+/**
+ * Validate that a field holds an EIP-55 checksummed address
+ * Proofs are bound to the exact contract/user pair, so typos must fail here
+ * rather than later inside FHE.fromExternal
+ */
+export function parseChecksummedAddress(value: unknown, field: string): string {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new InvalidValueError(`${field} is required`);
+  }
+  if (!isAddress(value)) {
+    throw new InvalidValueError(`${field} must be a valid checksummed address`);
+  }
+  const checksummed = getAddress(value);
+  if (checksummed !== value) {
+    throw new InvalidValueError(`${field} must be checksummed (expected ${checksummed})`);
+  }
+  return checksummed;
+}
+
+/**
+ * Validate the contract/user pair an encrypted input is bound to
+ */
+export function parseEncryptionTarget(body: unknown): { contractAddress: string; userAddress: string } {
+  const { contractAddress, userAddress } = (body ?? {}) as { contractAddress?: unknown; userAddress?: unknown };
+
+  return {
+    contractAddress: parseChecksummedAddress(contractAddress, "contractAddress"),
+    userAddress: parseChecksummedAddress(userAddress, "userAddress"),
+  };
+}
+
+/**
+ * Validate a non-empty list of typed values
+ */
+export function parseTypedValues(input: unknown): TypedValue[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new InvalidValueError("values must be a non-empty array of { type, value }");
+  }
+  return input.map((entry, index) => parseTypedValue(entry, index));
+}
@@ -0,0 +1,184 @@
+import { createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/node";
+import type {
+  EncryptedInput,
+  EncryptionBackend,
+  EncryptionTarget,
+  HandleContractPair,
+  UserDecryptRequest,
+} from "./types.js";
+import type { TypedValue } from "./values.js";
+
+// Validity window of a signed user decryption request
+const USER_DECRYPT_DURATION_DAYS = 10;
+
+/**
+ * REAL backend using the official Zama Relayer SDK
+ * Produces FHEVM ciphertext handles + ZK proofs for gateway verification.
+ */
+export class ZamaRelayerBackend implements EncryptionBackend {
+  readonly id = "zama";
+  readonly mode = "REAL (FHEVM Encrypted)";
+  readonly contractMode = "gateway verification";
+
+  private fheInstance: any = null;
+  private initializationPromise: Promise<void> | null = null;
+
+  async encrypt(values: TypedValue[], target: EncryptionTarget): Promise<EncryptedInput> {
+    console.log("   Attempting real FHEVM encryption via Zama Relayer...");
+
+    // Initialize FHE if needed (lazy init)
+    await this.initialize();
+
+    // Create encrypted input bound to the target contract and user,
+    // chaining one add* call per value so they share a single proof
+    const encryptedInput = this.fheInstance
+      .createEncryptedInput(target.contractAddress, target.userAddress);
+
+    for (const entry of values) {
+      switch (entry.type) {
+        case "bool":
+          encryptedInput.addBool(entry.value);
+          break;
+        case "uint8":
+          encryptedInput.add8(entry.value);
+          break;
+        case "uint16":
+          encryptedInput.add16(entry.value);
+          break;
+        case "uint32":
+          encryptedInput.add32(entry.value);
+          break;
+        case "uint64":
+          encryptedInput.add64(entry.value);
+          break;
+        case "address":
+          encryptedInput.addAddress(entry.value);
+          break;
+      }
+    }
+
+    console.log("   Generating ZK proof via Relayer...");
+
+    // Encrypt - generates ciphertexts + one shared ZK proof via Relayer
+    const encrypted = await encryptedInput.encrypt();
+
+    return {
+      handles: encrypted.handles.map((handle: Uint8Array) => arrayToHex(handle)),
+      proof: arrayToHex(encrypted.inputProof),
+    };
+  }
+
+  /**
+   * Generate a KMS keypair and the EIP-712 request for the user's wallet (Step 5)
+   * The EIP-712 domain uses the chain the SDK instance was configured for
+   */
+  async createUserDecryptRequest(contractAddresses: string[]): Promise<UserDecryptRequest> {
+    await this.initialize();
+
+    const { publicKey, privateKey } = this.fheInstance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = this.fheInstance.createEIP712(
+      publicKey,
+      contractAddresses,
+      startTimestamp,
+      USER_DECRYPT_DURATION_DAYS
+    );
+
+    return {
+      publicKey,
+      privateKey,
+      contractAddresses,
+      startTimestamp,
+      durationDays: USER_DECRYPT_DURATION_DAYS,
+      eip712,
+    };
+  }
+
+  /**
+   * Ask the Relayer/KMS to re-encrypt the handles for our keypair and decrypt them
+   * The ACL must allow userAddress on every handle (FHE.allow in the contract)
+   */
+  async userDecrypt(
+    handles: HandleContractPair[],
+    request: UserDecryptRequest,
+    signature: string,
+    userAddress: string
+  ): Promise<Record<string, string>> {
+    await this.initialize();
+
+    console.log(`   Requesting user decryption of ${handles.length} handles via Relayer/KMS...`);
+
+    const results = await this.fheInstance.userDecrypt(
+      handles,
+      request.privateKey,
+      request.publicKey,
+      signature.replace(/^0x/, ""),
+      request.contractAddresses,
+      userAddress,
+      request.startTimestamp,
+      request.durationDays
+    );
+
+    return Object.fromEntries(
+      Object.entries(results as Record<string, bigint | boolean | string>).map(
+        ([handle, value]) => [handle, value.toString()]
+      )
+    );
+  }
+
+  /**
+   * Initialize FHE instance (lazy initialization with singleton pattern)
+   * Ensures only one initialization happens even with concurrent requests
+   */
+  private async initialize(): Promise<void> {
+    // Return existing initialization if in progress
+    if (this.initializationPromise) {
+      return this.initializationPromise;
+    }
+
+    // Return immediately if already initialized
+    if (this.fheInstance) {
+      console.log("✅ FHE instance already initialized, reusing");
+      return;
+    }
+
+    console.log("🔧 [Step 1: Relayer Initialization] Starting FHE instance setup...");
+
+    this.initializationPromise = (async () => {
+      try {
+        console.log("📝 Using SepoliaConfig for Sepolia testnet");
+        console.log("   - Gateway Contract: 0x7048C39f048125eDa9d678AEbaDfB22F7900a29F");
+        console.log("   - Relayer Endpoint: https://relayer.testnet.zama.cloud");
+
+        this.fheInstance = await createInstance(SepoliaConfig);
+
+        console.log("✅ [Step 1 ✓] FHE instance initialized successfully");
+        console.log("🌐 Connected to Zama Relayer Network");
+        console.log("   Ready to encrypt user inputs for Gateway submission");
+      } catch (error: any) {
+        console.error("❌ [Step 1 ✗] Failed to initialize FHE");
+        console.error("   Error:", error.message);
+
+        // Detailed error diagnosis
+        if (error.message.includes("backend connection")) {
+          console.error("   → Zama Relayer service may be down (check https://status.zama.ai)");
+        }
+
+        this.initializationPromise = null;
+        throw error;
+      }
+    })();
+
+    return this.initializationPromise;
+  }
+}
+
+/**
+ * Convert Uint8Array to hex string
+ */
+function arrayToHex(arr: Uint8Array | number[]): string {
+  const hexArray = Array.from(arr).map((b) =>
+    b.toString(16).padStart(2, "0")
+  );
+  return "0x" + hexArray.join("");
+}
@@ -0,0 +1,114 @@
+/**
+ * Event Indexer (auction / game history API)
+ *
+ * Ingests MarketAuction and ShadowMerchants events into SQLite so clients can query
+ * history instead of looping getActiveAuctions() / getAuctionInfo() per id:
+ *
+ *   AuctionCreated, BidPlaced, AuctionResolved, AuctionEnded, RewardClaimed,
+ *   ClearingPriceRevealed, DutchBidDecided (MarketAuction)
+ *   PlayerJoined, RoundProgressed (ShadowMerchants)
+ *
+ * Newly indexed events are also pushed to WebSocket subscribers on /ws/auctions,
+ * which can resume with ?fromBlock=<last block seen + 1> after a disconnect.
+ *
+ * Reorgs are handled by comparing recorded block hashes with the chain before every
+ * poll and rolling the database back to the last matching block.
+ *
+ * Contract addresses come from the chain's deployment manifest (deployments/<network>.json)
+ * unless set explicitly.
+ *
+ * Environment:
+ *   RPC_URL                    JSON-RPC endpoint (default: local Hardhat node)
+ *   DEPLOYMENT_NETWORK         Manifest to use (default: the one matching the RPC chain id)
+ *   MARKET_AUCTION_ADDRESS     MarketAuction address (required without a manifest)
+ *   SHADOW_MERCHANTS_ADDRESS   ShadowMerchants address (optional, enables game events)
+ *   INDEXER_DB                 SQLite file (default: ./data/indexer.sqlite)
+ *   INDEXER_PORT               HTTP port (default: 4100)
+ *   START_BLOCK                First block to index on an empty database
+ *                              (default: manifest deploy block, else 0)
+ *   CONFIRMATIONS              Blocks behind head left unindexed (default: 0)
+ *   REORG_DEPTH                Recent block hashes kept for reorg detection (default: 64)
+ *   BATCH_SIZE                 Max blocks per eth_getLogs call (default: 2000)
+ *   POLL_INTERVAL_MS           Polling interval (default: 5000)
+ */
+
+import express from "express";
+import cors from "cors";
+import { JsonRpcProvider } from "ethers";
+import { resolveDeployment } from "./deployment/index.js";
+import { AuctionFeed, EventIndexer, IndexerStore, createIndexerRouter } from "./indexer/index.js";
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const INDEXER_DB = process.env.INDEXER_DB || "./data/indexer.sqlite";
+const PORT = Number(process.env.INDEXER_PORT || 4100);
+const POLL_INTERVAL_MS = Number(process.env.POLL_INTERVAL_MS || 5000);
+
+/**
+ * Start the service
+ */
+async function main(): Promise<void> {
+  const provider = new JsonRpcProvider(RPC_URL);
+  const deployment = await resolveDeployment(provider);
+  const marketAuctionAddress = deployment.addresses.MarketAuction;
+  if (!marketAuctionAddress) {
+    throw new Error("MARKET_AUCTION_ADDRESS is required (no deployment manifest for this chain)");
+  }
+  const shadowMerchantsAddress = deployment.addresses.ShadowMerchants;
+
+  const store = new IndexerStore(INDEXER_DB);
+  const indexer = new EventIndexer(provider, store, {
+    marketAuctionAddress,
+    shadowMerchantsAddress,
+    startBlock: Number(process.env.START_BLOCK || deployment.deployBlock || 0),
+    confirmations: Number(process.env.CONFIRMATIONS || 0),
+    reorgDepth: Number(process.env.REORG_DEPTH || 64),
+    batchSize: Number(process.env.BATCH_SIZE || 2000),
+  });
+  await indexer.init();
+
+  const app = express();
+  app.use(cors());
+  app.use(createIndexerRouter(store, indexer));
+
+  const server = app.listen(PORT, () => {
+    console.log("");
+    console.log("═══════════════════════════════════════════════════════════");
+    console.log(`🗂️  Event Indexer running on http://localhost:${PORT}`);
+    console.log("═══════════════════════════════════════════════════════════");
+    console.log(`  RPC:              ${RPC_URL} (chain ${indexer.status().chainId})`);
+    console.log(`  Deployment:       ${deployment.manifest?.network ?? "(addresses from env)"}`);
+    console.log(`  MarketAuction:    ${marketAuctionAddress}`);
+    console.log(`  ShadowMerchants:  ${shadowMerchantsAddress ?? "(not indexed)"}`);
+    console.log(`  Database:         ${INDEXER_DB}`);
+    console.log(`  Resuming after:   ${store.getCursor() ?? "(empty database)"}`);
+    console.log("");
+    console.log("Available endpoints:");
+    console.log(`  GET  http://localhost:${PORT}/api/auctions?goodType=&creator=&status=`);
+    console.log(`  GET  http://localhost:${PORT}/api/auctions/:auctionId`);
+    console.log(`  GET  http://localhost:${PORT}/api/auctions/:auctionId/bids`);
+    console.log(`  GET  http://localhost:${PORT}/api/players/:address/history`);
+    console.log(`  GET  http://localhost:${PORT}/api/indexer/status`);
+    console.log(`  WS   ws://localhost:${PORT}/ws/auctions?fromBlock=`);
+    console.log("");
+  });
+  const feed = new AuctionFeed(server, store, indexer);
+
+  for (;;) {
+    try {
+      const result = await indexer.syncOnce();
+      if (result.events.length > 0) {
+        console.log(`📥 Indexed ${result.events.length} event(s) from blocks ${result.fromBlock}-${result.toBlock}`);
+      }
+      feed.publish(result);
+    } catch (error: any) {
+      console.error("⚠️  Indexing error, retrying:", error.shortMessage || error.message);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Event indexer failed:", error.message);
+  process.exit(1);
+});
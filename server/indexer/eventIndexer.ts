@@ -0,0 +1,190 @@
+import { getAddress } from "ethers";
+import type { JsonRpcProvider, Log } from "ethers";
+import { decodeLog } from "./events.js";
+import type { IndexedBlock, IndexerStore } from "./store.js";
+import type { IndexedContract, IndexedEvent } from "./types.js";
+
+export interface EventIndexerOptions {
+  marketAuctionAddress: string;
+  shadowMerchantsAddress?: string | null;
+  startBlock: number;
+  confirmations: number; // blocks behind head that are left unindexed
+  batchSize: number; // max blocks per eth_getLogs call
+  reorgDepth: number; // recent block hashes kept to detect reorgs
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: IndexedEvent[];
+  rolledBackTo: number | null;
+}
+
+export interface IndexerStatus {
+  chainId: number | null;
+  cursor: number | null;
+  head: number | null;
+  lastSyncAt: number | null;
+  lastError: string | null;
+}
+
+/**
+ * Thrown when a scanned range changed under the indexer (reorg while syncing)
+ */
+export class ReorgDuringSyncError extends Error {
+  constructor(blockNumber: number) {
+    super(`Block ${blockNumber} changed while it was being indexed`);
+    this.name = "ReorgDuringSyncError";
+  }
+}
+
+/**
+ * Polls MarketAuction / ShadowMerchants logs into an IndexerStore
+ *
+ * Every committed range records the hash of its last block (and of every block with
+ * events). Before each sync the newest recorded hash is compared with the chain; on
+ * a mismatch the store is rolled back to the newest block that still matches and
+ * the range is indexed again.
+ */
+export class EventIndexer {
+  private readonly contracts = new Map<string, IndexedContract>();
+  private chainId: number | null = null;
+  private head: number | null = null;
+  private lastSyncAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly provider: JsonRpcProvider,
+    private readonly store: IndexerStore,
+    private readonly options: EventIndexerOptions
+  ) {
+    this.contracts.set(getAddress(options.marketAuctionAddress), "MarketAuction");
+    if (options.shadowMerchantsAddress) {
+      this.contracts.set(getAddress(options.shadowMerchantsAddress), "ShadowMerchants");
+    }
+  }
+
+  /**
+   * Bind the store to this chain and these contracts; refuses a database built for others
+   */
+  async init(): Promise<void> {
+    const { chainId } = await this.provider.getNetwork();
+    this.chainId = Number(chainId);
+
+    const expected: Record<string, string> = {
+      chainId: String(this.chainId),
+      marketAuction: getAddress(this.options.marketAuctionAddress),
+      shadowMerchants: this.options.shadowMerchantsAddress ? getAddress(this.options.shadowMerchantsAddress) : "",
+    };
+    for (const [key, value] of Object.entries(expected)) {
+      const stored = this.store.getMeta(key);
+      if (stored === null) {
+        this.store.setMeta(key, value);
+      } else if (stored !== value) {
+        throw new Error(`Indexer database was built for ${key}=${stored}, not ${value}. Use a new INDEXER_DB.`);
+      }
+    }
+  }
+
+  status(): IndexerStatus {
+    return {
+      chainId: this.chainId,
+      cursor: this.store.getCursor(),
+      head: this.head,
+      lastSyncAt: this.lastSyncAt,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Index everything up to head - confirmations
+   */
+  async syncOnce(): Promise<SyncResult> {
+    try {
+      const rolledBackTo = await this.handleReorg();
+      const cursor = this.store.getCursor() ?? this.options.startBlock - 1;
+
+      this.head = await this.provider.getBlockNumber();
+      const target = this.head - this.options.confirmations;
+
+      const events: IndexedEvent[] = [];
+      for (let fromBlock = cursor + 1; fromBlock <= target; fromBlock += this.options.batchSize) {
+        const toBlock = Math.min(fromBlock + this.options.batchSize - 1, target);
+        events.push(...(await this.indexRange(fromBlock, toBlock)));
+      }
+
+      this.lastSyncAt = Date.now();
+      this.lastError = null;
+      return { fromBlock: cursor + 1, toBlock: Math.max(cursor, target), events, rolledBackTo };
+    } catch (error: any) {
+      this.lastError = error.shortMessage || error.message;
+      throw error;
+    }
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    const logs = await this.provider.getLogs({
+      address: Array.from(this.contracts.keys()),
+      fromBlock,
+      toBlock,
+    });
+
+    const blockNumbers = new Set<number>(logs.map((log) => log.blockNumber));
+    blockNumbers.add(toBlock);
+
+    const blocks = new Map<number, IndexedBlock & { timestamp: number }>();
+    for (const number of blockNumbers) {
+      const block = await this.provider.getBlock(number);
+      if (!block?.hash) throw new ReorgDuringSyncError(number);
+      blocks.set(number, { number, hash: block.hash, timestamp: block.timestamp });
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const block = blocks.get(log.blockNumber)!;
+      if (log.blockHash !== block.hash) throw new ReorgDuringSyncError(log.blockNumber);
+
+      const event = this.decode(log, block.timestamp);
+      if (event) events.push(event);
+    }
+
+    this.store.commitRange(
+      events,
+      Array.from(blocks.values(), ({ number, hash }) => ({ number, hash })),
+      toBlock,
+      toBlock - this.options.reorgDepth + 1
+    );
+    return events;
+  }
+
+  private decode(log: Log, blockTimestamp: number): IndexedEvent | null {
+    const contract = this.contracts.get(getAddress(log.address));
+    return contract ? decodeLog(log, contract, blockTimestamp) : null;
+  }
+
+  /**
+   * Roll back to the newest recorded block still on the canonical chain
+   * @returns The block rolled back to, or null when nothing changed
+   */
+  private async handleReorg(): Promise<number | null> {
+    const known = this.store.recentBlocks(this.options.reorgDepth);
+    if (known.length === 0) return null;
+
+    for (const [index, block] of known.entries()) {
+      const onChain = await this.provider.getBlock(block.number);
+      if (onChain?.hash === block.hash) {
+        if (index === 0) return null;
+        return this.rollback(block.number);
+      }
+    }
+
+    // Reorg deeper than the recorded window: re-index the whole window
+    return this.rollback(known[known.length - 1]!.number - 1);
+  }
+
+  private rollback(blockNumber: number): number {
+    const removed = this.store.rollbackTo(blockNumber);
+    console.log(`♻️  Reorg detected: rolled back to block ${blockNumber} (${removed} event(s) removed)`);
+    return blockNumber;
+  }
+}
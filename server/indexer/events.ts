@@ -0,0 +1,77 @@
+import { Interface, getAddress } from "ethers";
+import type { Log } from "ethers";
+import type { IndexedContract, IndexedEvent, IndexedEventName } from "./types.js";
+
+/**
+ * Event fragments the indexer ingests, per contract
+ */
+export const MARKET_AUCTION_EVENTS = new Interface([
+  "event AuctionCreated(uint256 indexed auctionId, uint8 indexed goodType, address indexed creator, uint256 startTime, uint256 endTime)",
+  "event BidPlaced(uint256 indexed auctionId, address indexed bidder, uint256 timestamp)",
+  "event AuctionResolved(uint256 indexed auctionId, address indexed winner, uint8 goodType, uint256 resolvedAt)",
+  "event AuctionEnded(uint256 indexed auctionId, bool hadWinner, uint256 endedAt)",
+  "event RewardClaimed(uint256 indexed auctionId, address indexed winner, uint8 goodType, uint256 claimedAt)",
+  "event ClearingPriceRevealed(uint256 indexed auctionId, uint64 clearingPrice, uint256 timestamp)",
+  "event DutchBidDecided(uint256 indexed auctionId, address indexed bidder, bool accepted, uint256 timestamp)",
+]);
+
+export const SHADOW_MERCHANTS_EVENTS = new Interface([
+  "event PlayerJoined(uint256 indexed gameId, address indexed player, uint256 round)",
+  "event RoundProgressed(uint256 indexed gameId, uint256 newRound, uint256 timestamp)",
+]);
+
+// Argument carrying the player an event belongs to (for per-player history)
+const PLAYER_ARGUMENT: Partial<Record<IndexedEventName, string>> = {
+  AuctionCreated: "creator",
+  BidPlaced: "bidder",
+  AuctionResolved: "winner",
+  RewardClaimed: "winner",
+  DutchBidDecided: "bidder",
+  PlayerJoined: "player",
+};
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Decode a raw log into an IndexedEvent, or null when it is not one of the indexed events
+ */
+export function decodeLog(
+  log: Log,
+  contract: IndexedContract,
+  blockTimestamp: number
+): IndexedEvent | null {
+  const iface = contract === "MarketAuction" ? MARKET_AUCTION_EVENTS : SHADOW_MERCHANTS_EVENTS;
+  const parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+
+  const args: Record<string, string | number | boolean> = {};
+  parsed.fragment.inputs.forEach((input, index) => {
+    const value = parsed.args[index];
+    if (typeof value === "bigint") {
+      args[input.name] = input.type === "uint8" ? Number(value) : value.toString();
+    } else if (input.type === "address") {
+      args[input.name] = getAddress(value);
+    } else {
+      args[input.name] = value;
+    }
+  });
+
+  const name = parsed.name as IndexedEventName;
+  const playerArgument = PLAYER_ARGUMENT[name];
+  const player = playerArgument && args[playerArgument] !== ZERO_ADDRESS
+    ? String(args[playerArgument])
+    : null;
+
+  return {
+    name,
+    contract,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    blockTimestamp,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    auctionId: args.auctionId !== undefined ? Number(args.auctionId) : null,
+    player,
+    args,
+  };
+}
@@ -0,0 +1,118 @@
+import type { Server } from "node:http";
+import { WebSocket, WebSocketServer } from "ws";
+import type { EventIndexer, SyncResult } from "./eventIndexer.js";
+import type { IndexerStore } from "./store.js";
+import type { AuctionFeedMessage } from "./types.js";
+
+const REPLAY_PAGE_SIZE = 500;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/**
+ * Pushes indexed events to WebSocket subscribers
+ *
+ *   ws://host/ws/auctions               live events only
+ *   ws://host/ws/auctions?fromBlock=N   replay indexed events from block N, then live events
+ *
+ * Clients resume after a disconnect by reconnecting with fromBlock = last block seen + 1;
+ * events are delivered at most once per connection and always in chain order.
+ */
+export class AuctionFeed {
+  private readonly wss: WebSocketServer;
+  private readonly alive = new WeakSet<WebSocket>();
+  private readonly heartbeat: NodeJS.Timeout;
+
+  constructor(
+    server: Server,
+    private readonly store: IndexerStore,
+    private readonly indexer: EventIndexer,
+    path = "/ws/auctions"
+  ) {
+    this.wss = new WebSocketServer({ server, path });
+    this.wss.on("connection", (socket, request) => {
+      this.alive.add(socket);
+      socket.on("pong", () => this.alive.add(socket));
+      this.subscribe(socket, new URL(request.url ?? path, "http://localhost").searchParams.get("fromBlock"));
+    });
+
+    // Drop connections that stopped answering pings (sleeping laptops, dead proxies)
+    this.heartbeat = setInterval(() => {
+      for (const socket of this.wss.clients) {
+        if (!this.alive.has(socket)) {
+          socket.terminate();
+          continue;
+        }
+        this.alive.delete(socket);
+        socket.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  get subscribers(): number {
+    return this.wss.clients.size;
+  }
+
+  /**
+   * Broadcast the outcome of one EventIndexer.syncOnce()
+   */
+  publish(result: SyncResult): void {
+    const cursor = this.store.getCursor();
+    if (result.rolledBackTo !== null) {
+      this.broadcast({ type: "reorg", rolledBackTo: result.rolledBackTo, cursor });
+    }
+    if (result.events.length > 0) {
+      this.broadcast({ type: "events", events: result.events, cursor });
+    }
+  }
+
+  close(): void {
+    clearInterval(this.heartbeat);
+    for (const socket of this.wss.clients) {
+      socket.terminate();
+    }
+    this.wss.close();
+  }
+
+  /**
+   * Greet a new subscriber and replay what it missed
+   * The store is synchronous, so no sync can commit in between and the replay
+   * joins the live stream without gaps or duplicates.
+   */
+  private subscribe(socket: WebSocket, fromBlockParam: string | null): void {
+    const cursor = this.store.getCursor();
+    send(socket, { type: "hello", chainId: this.indexer.status().chainId, cursor });
+    if (fromBlockParam === null) return;
+
+    const fromBlock = Number(fromBlockParam);
+    if (!Number.isInteger(fromBlock) || fromBlock < 0) {
+      send(socket, { type: "error", error: "fromBlock must be a non-negative integer" });
+      socket.close(1008, "Invalid fromBlock");
+      return;
+    }
+
+    let position = { blockNumber: fromBlock - 1, logIndex: Number.MAX_SAFE_INTEGER };
+    for (;;) {
+      const events = this.store.eventsAfter(position.blockNumber, position.logIndex, REPLAY_PAGE_SIZE);
+      if (events.length === 0) break;
+
+      send(socket, { type: "events", events, cursor });
+      position = events[events.length - 1]!;
+      if (events.length < REPLAY_PAGE_SIZE) break;
+    }
+    send(socket, { type: "synced", cursor });
+  }
+
+  private broadcast(message: AuctionFeedMessage): void {
+    const payload = JSON.stringify(message);
+    for (const socket of this.wss.clients) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    }
+  }
+}
+
+function send(socket: WebSocket, message: AuctionFeedMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Event indexer: MarketAuction / ShadowMerchants logs → SQLite → REST + WebSocket feed
+ */
+
+export type {
+  AuctionFeedMessage,
+  AuctionFilter,
+  AuctionStatus,
+  IndexedAuction,
+  IndexedBid,
+  IndexedContract,
+  IndexedEvent,
+  IndexedEventName,
+} from "./types.js";
+export { AUCTION_STATUSES } from "./types.js";
+export { MARKET_AUCTION_EVENTS, SHADOW_MERCHANTS_EVENTS, decodeLog } from "./events.js";
+export type { IndexedBlock } from "./store.js";
+export { IndexerStore } from "./store.js";
+export type { EventIndexerOptions, IndexerStatus, SyncResult } from "./eventIndexer.js";
+export { EventIndexer, ReorgDuringSyncError } from "./eventIndexer.js";
+export { createIndexerRouter } from "./routes.js";
+export { AuctionFeed } from "./feed.js";
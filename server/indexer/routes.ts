@@ -0,0 +1,124 @@
+import express from "express";
+import { getAddress, isAddress } from "ethers";
+import type { EventIndexer } from "./eventIndexer.js";
+import type { IndexerStore } from "./store.js";
+import { AUCTION_STATUSES } from "./types.js";
+import type { AuctionFilter, AuctionStatus } from "./types.js";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Thrown for malformed query parameters (answered with HTTP 400)
+ */
+class InvalidQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidQueryError";
+  }
+}
+
+function parseInteger(value: unknown, name: string, min: number, max = Number.MAX_SAFE_INTEGER): number {
+  const parsed = Number(value);
+  if (typeof value !== "string" || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new InvalidQueryError(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+function parseAddress(value: unknown, name: string): string {
+  if (typeof value !== "string" || !isAddress(value)) {
+    throw new InvalidQueryError(`${name} must be an address`);
+  }
+  return getAddress(value);
+}
+
+function parsePage(query: express.Request["query"]): { limit: number; offset: number } {
+  return {
+    limit: query.limit === undefined ? DEFAULT_LIMIT : parseInteger(query.limit, "limit", 1, MAX_LIMIT),
+    offset: query.offset === undefined ? 0 : parseInteger(query.offset, "offset", 0),
+  };
+}
+
+function handleError(res: express.Response, error: any): void {
+  if (error instanceof InvalidQueryError) {
+    res.status(400).json({ success: false, error: error.message });
+    return;
+  }
+  console.error("❌ Indexer query failed:", error.message);
+  res.status(500).json({ success: false, error: error.message || "Indexer query failed" });
+}
+
+/**
+ * REST API over the indexed history
+ *
+ *   GET /api/indexer/status
+ *   GET /api/auctions?goodType=&creator=&status=active|resolved|ended&limit=&offset=
+ *   GET /api/auctions/:auctionId
+ *   GET /api/auctions/:auctionId/bids
+ *   GET /api/players/:address/history?limit=&offset=
+ */
+export function createIndexerRouter(store: IndexerStore, indexer: EventIndexer): express.Router {
+  const router = express.Router();
+
+  router.get("/api/indexer/status", (req, res) => {
+    res.json({ success: true, ...indexer.status() });
+  });
+
+  router.get("/api/auctions", (req, res) => {
+    try {
+      const filter: AuctionFilter = parsePage(req.query);
+      if (req.query.goodType !== undefined) {
+        filter.goodType = parseInteger(req.query.goodType, "goodType", 1, 255);
+      }
+      if (req.query.creator !== undefined) {
+        filter.creator = parseAddress(req.query.creator, "creator");
+      }
+      if (req.query.status !== undefined) {
+        if (!AUCTION_STATUSES.includes(req.query.status as AuctionStatus)) {
+          throw new InvalidQueryError(`status must be one of: ${AUCTION_STATUSES.join(", ")}`);
+        }
+        filter.status = req.query.status as AuctionStatus;
+      }
+
+      res.json({ success: true, auctions: store.listAuctions(filter), limit: filter.limit, offset: filter.offset });
+    } catch (error: any) {
+      handleError(res, error);
+    }
+  });
+
+  router.get("/api/auctions/:auctionId", (req, res) => {
+    try {
+      const auctionId = parseInteger(req.params.auctionId, "auctionId", 1);
+      const auction = store.getAuction(auctionId);
+      if (!auction) {
+        res.status(404).json({ success: false, error: `Auction #${auctionId} is not indexed` });
+        return;
+      }
+      res.json({ success: true, auction });
+    } catch (error: any) {
+      handleError(res, error);
+    }
+  });
+
+  router.get("/api/auctions/:auctionId/bids", (req, res) => {
+    try {
+      const auctionId = parseInteger(req.params.auctionId, "auctionId", 1);
+      res.json({ success: true, auctionId, bids: store.listBids(auctionId) });
+    } catch (error: any) {
+      handleError(res, error);
+    }
+  });
+
+  router.get("/api/players/:address/history", (req, res) => {
+    try {
+      const player = parseAddress(req.params.address, "address");
+      const { limit, offset } = parsePage(req.query);
+      res.json({ success: true, player, events: store.playerHistory(player, limit, offset), limit, offset });
+    } catch (error: any) {
+      handleError(res, error);
+    }
+  });
+
+  return router;
+}
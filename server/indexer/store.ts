@@ -0,0 +1,340 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type {
+  AuctionFilter,
+  AuctionStatus,
+  IndexedAuction,
+  IndexedBid,
+  IndexedEvent,
+} from "./types.js";
+
+/**
+ * Block hash recorded while indexing, used to detect reorgs
+ */
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    block_timestamp INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    auction_id INTEGER,
+    player TEXT,
+    args TEXT NOT NULL,
+    UNIQUE (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_block ON events (block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_auction ON events (auction_id);
+  CREATE INDEX IF NOT EXISTS events_player ON events (player);
+
+  CREATE TABLE IF NOT EXISTS auctions (
+    auction_id INTEGER PRIMARY KEY,
+    good_type INTEGER NOT NULL,
+    creator TEXT NOT NULL,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    winner TEXT,
+    bid_count INTEGER NOT NULL DEFAULT 0,
+    reward_claimed INTEGER NOT NULL DEFAULT 0,
+    created_block INTEGER NOT NULL,
+    resolved_at INTEGER,
+    ended_at INTEGER,
+    claimed_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS auctions_good_type ON auctions (good_type);
+  CREATE INDEX IF NOT EXISTS auctions_creator ON auctions (creator);
+  CREATE INDEX IF NOT EXISTS auctions_status ON auctions (status);
+
+  CREATE TABLE IF NOT EXISTS bids (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    auction_id INTEGER NOT NULL,
+    bidder TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS bids_auction ON bids (auction_id);
+`;
+
+/**
+ * SQLite store for indexed events
+ *
+ * `events` is the source of truth; `auctions` and `bids` are projections of it.
+ * A reorg deletes the orphaned events and replays the remaining events of every
+ * auction they touched, so projections never keep state from a dropped block.
+ */
+export class IndexerStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  getMeta(key: string): string | null {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+    return row?.value ?? null;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+      .run(key, value);
+  }
+
+  /**
+   * Last fully indexed block, or null before the first sync
+   */
+  getCursor(): number | null {
+    const cursor = this.getMeta("cursor");
+    return cursor === null ? null : Number(cursor);
+  }
+
+  /**
+   * Recorded block hashes, newest first
+   */
+  recentBlocks(limit: number): IndexedBlock[] {
+    return this.db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC LIMIT ?").all(limit) as IndexedBlock[];
+  }
+
+  /**
+   * Atomically store the events of a scanned range, the block hashes seen and the new cursor
+   * Block hashes older than `keepBlocksFrom` are pruned.
+   */
+  commitRange(events: IndexedEvent[], blocks: IndexedBlock[], cursor: number, keepBlocksFrom: number): void {
+    const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+    const insertEvent = this.db.prepare(`
+      INSERT OR IGNORE INTO events
+        (name, contract, block_number, block_hash, block_timestamp, tx_hash, log_index, auction_id, player, args)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const block of blocks) {
+        insertBlock.run(block.number, block.hash);
+      }
+      for (const event of events) {
+        const result = insertEvent.run(
+          event.name,
+          event.contract,
+          event.blockNumber,
+          event.blockHash,
+          event.blockTimestamp,
+          event.transactionHash,
+          event.logIndex,
+          event.auctionId,
+          event.player,
+          JSON.stringify(event.args)
+        );
+        if (result.changes > 0) {
+          this.project(event);
+        }
+      }
+      this.db.prepare("DELETE FROM blocks WHERE number < ?").run(keepBlocksFrom);
+      this.setMeta("cursor", String(cursor));
+    })();
+  }
+
+  /**
+   * Drop everything above `blockNumber` and rebuild the affected projections
+   * @returns Number of events removed
+   */
+  rollbackTo(blockNumber: number): number {
+    return this.db.transaction(() => {
+      const touched = this.db
+        .prepare("SELECT DISTINCT auction_id FROM events WHERE block_number > ? AND auction_id IS NOT NULL")
+        .all(blockNumber) as { auction_id: number }[];
+
+      const removed = this.db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber).changes;
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+
+      for (const { auction_id: auctionId } of touched) {
+        this.db.prepare("DELETE FROM auctions WHERE auction_id = ?").run(auctionId);
+        this.db.prepare("DELETE FROM bids WHERE auction_id = ?").run(auctionId);
+        for (const event of this.eventsForAuction(auctionId)) {
+          this.project(event);
+        }
+      }
+
+      this.setMeta("cursor", String(blockNumber));
+      return removed;
+    })();
+  }
+
+  listAuctions(filter: AuctionFilter): IndexedAuction[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.goodType !== undefined) {
+      conditions.push("good_type = ?");
+      params.push(filter.goodType);
+    }
+    if (filter.creator !== undefined) {
+      conditions.push("creator = ?");
+      params.push(filter.creator);
+    }
+    if (filter.status !== undefined) {
+      conditions.push("status = ?");
+      params.push(filter.status);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM auctions ${where} ORDER BY auction_id DESC LIMIT ? OFFSET ?`)
+      .all(...params, filter.limit, filter.offset);
+    return rows.map(toAuction);
+  }
+
+  getAuction(auctionId: number): IndexedAuction | null {
+    const row = this.db.prepare("SELECT * FROM auctions WHERE auction_id = ?").get(auctionId);
+    return row ? toAuction(row) : null;
+  }
+
+  listBids(auctionId: number): IndexedBid[] {
+    const rows = this.db
+      .prepare("SELECT * FROM bids WHERE auction_id = ? ORDER BY block_number, id")
+      .all(auctionId) as any[];
+    return rows.map((row) => ({
+      auctionId: row.auction_id,
+      bidder: row.bidder,
+      timestamp: row.timestamp,
+      blockNumber: row.block_number,
+      transactionHash: row.tx_hash,
+    }));
+  }
+
+  /**
+   * Events involving a player (as creator, bidder, winner or joining player), newest first
+   */
+  playerHistory(player: string, limit: number, offset: number): IndexedEvent[] {
+    const rows = this.db
+      .prepare("SELECT * FROM events WHERE player = ? ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?")
+      .all(player, limit, offset);
+    return rows.map(toEvent);
+  }
+
+  /**
+   * Events after (blockNumber, logIndex) in chain order, used to page through a feed replay
+   */
+  eventsAfter(blockNumber: number, logIndex: number, limit: number): IndexedEvent[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM events
+        WHERE block_number > ? OR (block_number = ? AND log_index > ?)
+        ORDER BY block_number, log_index LIMIT ?
+      `)
+      .all(blockNumber, blockNumber, logIndex, limit);
+    return rows.map(toEvent);
+  }
+
+  private eventsForAuction(auctionId: number): IndexedEvent[] {
+    const rows = this.db
+      .prepare("SELECT * FROM events WHERE auction_id = ? ORDER BY block_number, log_index")
+      .all(auctionId);
+    return rows.map(toEvent);
+  }
+
+  /**
+   * Apply one event to the auctions / bids projections
+   */
+  private project(event: IndexedEvent): void {
+    const { args, auctionId } = event;
+
+    switch (event.name) {
+      case "AuctionCreated":
+        this.db.prepare(`
+          INSERT OR REPLACE INTO auctions
+            (auction_id, good_type, creator, start_time, end_time, status, created_block)
+          VALUES (?, ?, ?, ?, ?, 'active', ?)
+        `).run(auctionId, args.goodType, args.creator, Number(args.startTime), Number(args.endTime), event.blockNumber);
+        break;
+
+      case "BidPlaced":
+        this.db.prepare(`
+          INSERT INTO bids (auction_id, bidder, timestamp, block_number, tx_hash) VALUES (?, ?, ?, ?, ?)
+        `).run(auctionId, args.bidder, Number(args.timestamp), event.blockNumber, event.transactionHash);
+        this.db.prepare("UPDATE auctions SET bid_count = bid_count + 1 WHERE auction_id = ?").run(auctionId);
+        break;
+
+      case "AuctionResolved":
+        // event.player is null when resolved without a winner (AuctionEnded follows)
+        this.db.prepare("UPDATE auctions SET status = ?, winner = ?, resolved_at = ? WHERE auction_id = ?")
+          .run(event.player ? "resolved" : "ended", event.player, Number(args.resolvedAt), auctionId);
+        break;
+
+      case "AuctionEnded":
+        this.db.prepare("UPDATE auctions SET status = ?, ended_at = ? WHERE auction_id = ?")
+          .run(args.hadWinner ? "resolved" : "ended", Number(args.endedAt), auctionId);
+        break;
+
+      case "RewardClaimed":
+        this.db.prepare("UPDATE auctions SET reward_claimed = 1, claimed_at = ? WHERE auction_id = ?")
+          .run(Number(args.claimedAt), auctionId);
+        break;
+
+      default:
+        // ClearingPriceRevealed / DutchBidDecided / PlayerJoined / RoundProgressed only feed the event history
+        break;
+    }
+  }
+}
+
+function toAuction(row: any): IndexedAuction {
+  return {
+    auctionId: row.auction_id,
+    goodType: row.good_type,
+    creator: row.creator,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    status: row.status as AuctionStatus,
+    winner: row.winner,
+    bidCount: row.bid_count,
+    rewardClaimed: row.reward_claimed === 1,
+    createdBlock: row.created_block,
+    resolvedAt: row.resolved_at,
+    endedAt: row.ended_at,
+    claimedAt: row.claimed_at,
+  };
+}
+
+function toEvent(row: any): IndexedEvent {
+  return {
+    name: row.name,
+    contract: row.contract,
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    blockTimestamp: row.block_timestamp,
+    transactionHash: row.tx_hash,
+    logIndex: row.log_index,
+    auctionId: row.auction_id,
+    player: row.player,
+    args: JSON.parse(row.args),
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Shapes shared by the event indexer, its SQLite store and the REST routes
+ */
+
+export type IndexedEventName =
+  | "AuctionCreated"
+  | "BidPlaced"
+  | "AuctionResolved"
+  | "AuctionEnded"
+  | "RewardClaimed"
+  | "ClearingPriceRevealed"
+  | "DutchBidDecided"
+  | "PlayerJoined"
+  | "RoundProgressed";
+
+export type IndexedContract = "MarketAuction" | "ShadowMerchants";
+
+/**
+ * A contract log decoded into a JSON-safe record
+ * uint256 arguments are decimal strings; addresses are checksummed.
+ */
+export interface IndexedEvent {
+  name: IndexedEventName;
+  contract: IndexedContract;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  auctionId: number | null;
+  player: string | null; // creator / bidder / winner / joining player, when the event has one
+  args: Record<string, string | number | boolean>;
+}
+
+/**
+ * - active:   created, not resolved on-chain yet (may already be past endTime)
+ * - resolved: ended with a winner
+ * - ended:    ended without a winner
+ */
+export type AuctionStatus = "active" | "resolved" | "ended";
+
+export const AUCTION_STATUSES: readonly AuctionStatus[] = ["active", "resolved", "ended"];
+
+export interface IndexedAuction {
+  auctionId: number;
+  goodType: number;
+  creator: string;
+  startTime: number;
+  endTime: number;
+  status: AuctionStatus;
+  winner: string | null;
+  bidCount: number;
+  rewardClaimed: boolean;
+  createdBlock: number;
+  resolvedAt: number | null;
+  endedAt: number | null;
+  claimedAt: number | null;
+}
+
+export interface IndexedBid {
+  auctionId: number;
+  bidder: string;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface AuctionFilter {
+  goodType?: number;
+  creator?: string;
+  status?: AuctionStatus;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Messages pushed on the auction feed WebSocket (/ws/auctions)
+ *
+ * - hello:  sent on connect; `cursor` is the last indexed block
+ * - events: indexed events in chain order (replayed ones first when resuming)
+ * - synced: replay finished, live events follow
+ * - reorg:  events above `rolledBackTo` were dropped; refetch state derived from them
+ * - error:  malformed client request
+ */
+export type AuctionFeedMessage =
+  | { type: "hello"; chainId: number | null; cursor: number | null }
+  | { type: "events"; events: IndexedEvent[]; cursor: number | null }
+  | { type: "synced"; cursor: number | null }
+  | { type: "reorg"; rolledBackTo: number; cursor: number | null }
+  | { type: "error"; error: string };
@@ -0,0 +1,125 @@
+/**
+ * Keeper (automatic on-chain maintenance)
+ *
+ * Long-running companion that performs the admin chores nobody should have to click:
+ *
+ *   - Auction resolution: every unresolved auction is resolved through batchResolveAuctions
+ *     as soon as the chain's block timestamp passes its endTime (or reveal window)
+ *   - Round progression: progressRound(gameId) is called for every active game once its
+ *     round duration has passed since its lastRoundTime; after its last round the same call
+ *     finalizes the game
+ *
+ * A job runs when its contract address is known: from the chain's deployment manifest
+ * (deployments/<network>.json) or set explicitly.
+ *
+ * Transactions are dry-run with staticCall first, then sent and retried on nonce / gas errors
+ * as fee-bumped replacements under the same nonce. Status of every job, including its last
+ * run, is served on GET /keeper/status.
+ *
+ * The keeper follows chain time: on a local Hardhat node, an auction or round only becomes
+ * due once a block past its deadline exists (evm_increaseTime + evm_mine moves it forward).
+ *
+ * Environment:
+ *   RPC_URL                   JSON-RPC endpoint (default: local Hardhat node)
+ *   DEPLOYMENT_NETWORK        Manifest to use (default: the one matching the RPC chain id)
+ *   MARKET_AUCTION_ADDRESS    MarketAuction address (enables auction resolution)
+ *   SHADOW_MERCHANTS_ADDRESS  ShadowMerchants address (enables round progression)
+ *   KEEPER_PRIVATE_KEY        Key sending keeper transactions; needs DEFAULT_ADMIN_ROLE on
+ *                             MarketAuction (defaults to Hardhat account #0 on chain 31337)
+ *   KEEPER_PORT               HTTP port for /keeper/status (default: 4200)
+ *   KEEPER_INTERVAL_MS        Delay between passes (default: 5000)
+ *   RESOLVE_BATCH_SIZE        Max auctions per batchResolveAuctions call (default: 20)
+ *   MAX_TX_ATTEMPTS           Attempts per transaction on nonce / gas errors (default: 4)
+ */
+
+import express from "express";
+import cors from "cors";
+import { JsonRpcProvider } from "ethers";
+import { loadServiceSigner, resolveDeployment } from "./deployment/index.js";
+import { AuctionResolutionKeeper, RoundProgressionKeeper } from "./keeper/index.js";
+import type { KeeperJob, RetryOptions } from "./keeper/index.js";
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const PORT = Number(process.env.KEEPER_PORT || 4200);
+const INTERVAL_MS = Number(process.env.KEEPER_INTERVAL_MS || 5000);
+
+const RETRY: RetryOptions = {
+  maxAttempts: Number(process.env.MAX_TX_ATTEMPTS || 4),
+  backoffMs: 1000,
+  feeBumpPercent: 20,
+  confirmTimeoutMs: 120_000,
+};
+
+/**
+ * Start the service
+ */
+async function main(): Promise<void> {
+  // No response cache: nonces and the latest block must be fresh on every pass
+  const provider = new JsonRpcProvider(RPC_URL, undefined, { cacheTimeout: -1 });
+  const { chainId } = await provider.getNetwork();
+
+  const deployment = await resolveDeployment(provider);
+  const auctionAddress = deployment.addresses.MarketAuction;
+  const gameAddress = deployment.addresses.ShadowMerchants;
+  if (!auctionAddress && !gameAddress) {
+    throw new Error("MARKET_AUCTION_ADDRESS and/or SHADOW_MERCHANTS_ADDRESS is required (no deployment manifest for this chain)");
+  }
+
+  const signer = await loadServiceSigner(provider, "KEEPER_PRIVATE_KEY");
+
+  const jobs: KeeperJob[] = [];
+  if (auctionAddress) {
+    const auctionResolution = new AuctionResolutionKeeper(auctionAddress, signer, {
+      batchSize: Number(process.env.RESOLVE_BATCH_SIZE || 20),
+      retry: RETRY,
+    });
+    await auctionResolution.init();
+    jobs.push(auctionResolution);
+  }
+  if (gameAddress) {
+    const roundProgression = new RoundProgressionKeeper(gameAddress, signer, { retry: RETRY });
+    await roundProgression.init();
+    jobs.push(roundProgression);
+  }
+
+  const app = express();
+  app.use(cors());
+  app.get("/keeper/status", (req, res) => {
+    res.json({
+      success: true,
+      chainId: Number(chainId),
+      keeper: signer.address,
+      intervalMs: INTERVAL_MS,
+      jobs: Object.fromEntries(jobs.map((job) => [job.name, job.status()])),
+    });
+  });
+
+  app.listen(PORT, () => {
+    console.log("");
+    console.log("═══════════════════════════════════════════════════════════");
+    console.log(`🤖 Keeper running on http://localhost:${PORT}`);
+    console.log("═══════════════════════════════════════════════════════════");
+    console.log(`  RPC:             ${RPC_URL} (chain ${chainId})`);
+    console.log(`  Deployment:      ${deployment.manifest?.network ?? "(addresses from env)"}`);
+    console.log(`  MarketAuction:   ${auctionAddress ?? "(auction resolution off)"}`);
+    console.log(`  ShadowMerchants: ${gameAddress ?? "(round progression off)"}`);
+    console.log(`  Keeper:          ${signer.address}`);
+    console.log(`  Jobs:            ${jobs.map((job) => job.name).join(", ")}`);
+    console.log("");
+    console.log("Available endpoints:");
+    console.log(`  GET  http://localhost:${PORT}/keeper/status`);
+    console.log("");
+  });
+
+  for (;;) {
+    for (const job of jobs) {
+      await job.runOnce();
+    }
+    await new Promise((resolve) => setTimeout(resolve, INTERVAL_MS));
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Keeper failed:", error.message);
+  process.exit(1);
+});
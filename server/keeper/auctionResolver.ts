@@ -0,0 +1,198 @@
+import { Contract, ZeroAddress } from "ethers";
+import type { Wallet } from "ethers";
+import { sendWithRetry } from "./transactions.js";
+import type { RetryOptions } from "./transactions.js";
+import type { KeeperJob, KeeperJobStatus, KeeperRun } from "./types.js";
+
+const MARKET_AUCTION_ABI = [
+  "function getActiveAuctions() view returns (uint256[])",
+  "function resolutionTime(uint256 auctionId) view returns (uint256)",
+  "function dutchPendingBidder(uint256 auctionId) view returns (address)",
+  "function batchResolveAuctions(uint256[] auctionIds)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "event AuctionResolved(uint256 indexed auctionId, address indexed winner, uint8 goodType, uint256 resolvedAt)",
+  "event WinnerDecryptionRequested(uint256 indexed auctionId, uint256 indexed requestId, uint256 timestamp)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+];
+
+const DEFAULT_ADMIN_ROLE = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+export interface AuctionResolutionOptions {
+  batchSize: number; // max auction ids per batchResolveAuctions call
+  retry: RetryOptions;
+}
+
+export interface AuctionResolutionStatus extends KeeperJobStatus {
+  watching: number; // unresolved auctions whose resolution time is tracked
+  due: number; // expired at the last pass' block timestamp, without a Dutch bid awaiting its decision
+  nextDeadline: number | null; // earliest resolution time not yet passed
+  resolvedTotal: number;
+  lastResolved: string[];
+}
+
+/**
+ * Resolves expired auctions through batchResolveAuctions
+ *
+ * Every pass reads getActiveAuctions() and the latest block. An auction is due once
+ * the latest block timestamp reaches its resolutionTime (endTime, or the end of the reveal
+ * window of commit-reveal auctions): the resolving transaction lands in a later block, so
+ * `block.timestamp > resolutionTime` holds on-chain. It never changes after creation and
+ * is cached per auction. Encrypted auctions with bids first have their winner decrypted
+ * (WinnerDecryptionRequested); the oracle callback then resolves them. An expired Dutch
+ * auction whose encrypted bid still awaits its decryption is skipped until the decision
+ * lands, since batchResolveAuctions would leave it untouched.
+ */
+export class AuctionResolutionKeeper implements KeeperJob {
+  readonly name = "auctionResolution";
+
+  private readonly auction: Contract;
+  private readonly resolutionTimes = new Map<string, number>();
+  private runs = 0;
+  private failures = 0;
+  private lastRun: KeeperRun | null = null;
+  private lastSuccessAt: number | null = null;
+  private due = 0;
+  private nextDeadline: number | null = null;
+  private resolvedTotal = 0;
+  private lastResolved: string[] = [];
+
+  constructor(
+    auctionAddress: string,
+    private readonly signer: Wallet,
+    private readonly options: AuctionResolutionOptions
+  ) {
+    this.auction = new Contract(auctionAddress, MARKET_AUCTION_ABI, signer);
+  }
+
+  /**
+   * batchResolveAuctions is admin-only; refuse to start with a key that would always revert
+   */
+  async init(): Promise<void> {
+    if (!(await this.auction.getFunction("hasRole")(DEFAULT_ADMIN_ROLE, this.signer.address))) {
+      throw new Error(`${this.signer.address} lacks DEFAULT_ADMIN_ROLE on MarketAuction (needed for batchResolveAuctions)`);
+    }
+  }
+
+  status(): AuctionResolutionStatus {
+    return {
+      name: this.name,
+      runs: this.runs,
+      failures: this.failures,
+      lastRun: this.lastRun,
+      lastSuccessAt: this.lastSuccessAt,
+      watching: this.resolutionTimes.size,
+      due: this.due,
+      nextDeadline: this.nextDeadline,
+      resolvedTotal: this.resolvedTotal,
+      lastResolved: this.lastResolved,
+    };
+  }
+
+  async runOnce(): Promise<KeeperRun> {
+    const run: KeeperRun = {
+      startedAt: Date.now(),
+      finishedAt: 0,
+      blockNumber: null,
+      blockTimestamp: null,
+      transactions: [],
+      error: null,
+    };
+    this.runs++;
+
+    try {
+      const block = await this.signer.provider!.getBlock("latest");
+      if (!block) throw new Error("Latest block unavailable");
+      run.blockNumber = block.number;
+      run.blockTimestamp = block.timestamp;
+
+      const due = await this.findDue(block.timestamp);
+      this.due = due.length;
+
+      const resolved: string[] = [];
+      for (let start = 0; start < due.length; start += this.options.batchSize) {
+        const batch = due.slice(start, start + this.options.batchSize);
+        const { hash, resolvedIds } = await this.resolveBatch(batch);
+        run.transactions.push(hash);
+        resolved.push(...resolvedIds);
+      }
+
+      if (due.length > 0) {
+        this.lastResolved = resolved;
+        this.resolvedTotal += resolved.length;
+        console.log(`✅ Resolved ${resolved.length}/${due.length} due auction(s) at chain time ${block.timestamp}`);
+      }
+      this.lastSuccessAt = Date.now();
+    } catch (error: any) {
+      this.failures++;
+      run.error = error.shortMessage || error.message;
+      console.error("⚠️  Auction resolution pass failed:", run.error);
+    }
+
+    run.finishedAt = Date.now();
+    this.lastRun = run;
+    return run;
+  }
+
+  /**
+   * Unresolved auction ids whose resolution time is at or before `chainTime`, oldest deadline first,
+   * leaving out Dutch auctions with a pending encrypted bid
+   */
+  private async findDue(chainTime: number): Promise<string[]> {
+    const activeIds: bigint[] = await this.auction.getFunction("getActiveAuctions")();
+    const active = new Set(activeIds.map((id) => id.toString()));
+
+    for (const auctionId of this.resolutionTimes.keys()) {
+      if (!active.has(auctionId)) this.resolutionTimes.delete(auctionId);
+    }
+    for (const auctionId of active) {
+      if (!this.resolutionTimes.has(auctionId)) {
+        this.resolutionTimes.set(auctionId, Number(await this.auction.getFunction("resolutionTime")(auctionId)));
+      }
+    }
+
+    const due: string[] = [];
+    let nextDeadline: number | null = null;
+    for (const [auctionId, resolvesAt] of this.resolutionTimes) {
+      if (resolvesAt <= chainTime) {
+        // Not cached: onDutchBidDecrypted either sells the good or reopens the auction to resolution
+        const pendingBidder: string = await this.auction.getFunction("dutchPendingBidder")(auctionId);
+        if (pendingBidder === ZeroAddress) due.push(auctionId);
+      } else if (nextDeadline === null || resolvesAt < nextDeadline) {
+        nextDeadline = resolvesAt;
+      }
+    }
+    this.nextDeadline = nextDeadline;
+
+    return due.sort((a, b) => this.resolutionTimes.get(a)! - this.resolutionTimes.get(b)!);
+  }
+
+  private async resolveBatch(auctionIds: string[]): Promise<{ hash: string; resolvedIds: string[] }> {
+    const resolve = this.auction.getFunction("batchResolveAuctions");
+    console.log(`⏳ Resolving auction(s) #${auctionIds.join(", #")}`);
+
+    // Dry-run first: a revert (e.g. revoked role) costs no gas and is not retried
+    await resolve.staticCall(auctionIds);
+    const receipt = await sendWithRetry(
+      this.signer,
+      this.signer.provider!,
+      (overrides) => resolve(auctionIds, overrides),
+      this.options.retry,
+      `batchResolveAuctions(${auctionIds.length})`
+    );
+
+    // Auctions resolved by someone else in the meantime are skipped by the contract
+    const resolvedIds: string[] = [];
+    for (const log of receipt.logs) {
+      const parsed = this.auction.interface.parseLog(log);
+      if (parsed?.name === "AuctionResolved") {
+        resolvedIds.push(parsed.args.auctionId.toString());
+        this.resolutionTimes.delete(parsed.args.auctionId.toString());
+      } else if (parsed?.name === "WinnerDecryptionRequested") {
+        resolvedIds.push(parsed.args.auctionId.toString());
+        this.resolutionTimes.delete(parsed.args.auctionId.toString());
+        console.log(`🔐 Auction #${parsed.args.auctionId}: winner decryption requested (#${parsed.args.requestId})`);
+      }
+    }
+    return { hash: receipt.hash, resolvedIds };
+  }
+}
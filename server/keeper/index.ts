@@ -0,0 +1,11 @@
+/**
+ * Keeper jobs: periodic on-chain maintenance run by server/keeper.ts
+ */
+
+export type { KeeperJob, KeeperJobStatus, KeeperRun } from "./types.js";
+export type { RetryOptions, TransactionOverrides } from "./transactions.js";
+export { isRetryableError, sendWithRetry } from "./transactions.js";
+export type { AuctionResolutionOptions, AuctionResolutionStatus } from "./auctionResolver.js";
+export { AuctionResolutionKeeper } from "./auctionResolver.js";
+export type { GameRoundStatus, RoundProgressionOptions, RoundProgressionStatus } from "./roundProgressor.js";
+export { RoundProgressionKeeper } from "./roundProgressor.js";
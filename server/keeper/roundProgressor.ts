@@ -0,0 +1,206 @@
+import { Contract } from "ethers";
+import type { Wallet } from "ethers";
+import { sendWithRetry } from "./transactions.js";
+import type { RetryOptions } from "./transactions.js";
+import type { KeeperJob, KeeperJobStatus, KeeperRun } from "./types.js";
+
+const SHADOW_MERCHANTS_ABI = [
+  "function getActiveGames() view returns (uint256[])",
+  "function getGameInfo(uint256 gameId) view returns (uint256 currentRound, uint256 gameStartTime, uint256 lastRoundTime, uint8 playerCount, bool gameActive, bool gameEnded, address winner, uint8 maxPlayers, uint8 maxRounds, uint256 roundDuration, address creator)",
+  "function progressRound(uint256 gameId)",
+  "event RoundProgressed(uint256 indexed gameId, uint256 newRound, uint256 timestamp)",
+  "event GameEnded(uint256 indexed gameId, address indexed winner, uint256 endTime)",
+  "event WinnerDecryptionRequested(uint256 indexed gameId, uint256 indexed requestId, uint256 timestamp)",
+  "error ActionTooFrequent()",
+  "error GameNotActive()",
+  "error GameNotFound()",
+];
+
+export interface RoundProgressionOptions {
+  retry: RetryOptions;
+}
+
+/**
+ * Schedule of one running game, as of the last pass
+ */
+export interface GameRoundStatus {
+  gameId: number;
+  roundDuration: number;
+  maxRounds: number;
+  currentRound: number;
+  nextRoundAt: number; // chain time progressRound becomes callable
+  // Accumulated lateness of the current round vs. gameStartTime + (round - 1) * roundDuration
+  scheduleDriftSeconds: number;
+}
+
+export interface RoundProgressionStatus extends KeeperJobStatus {
+  games: GameRoundStatus[]; // active games
+  // Seconds between a round's scheduled end and the block that progressed it, over all games
+  lastDriftSeconds: number | null;
+  maxDriftSeconds: number | null;
+  roundsProgressed: number;
+  gamesFinalized: number;
+}
+
+/**
+ * Calls progressRound(gameId) for every active game once its roundDuration has passed
+ * since the game's lastRoundTime
+ *
+ * Due-ness is judged on the latest block timestamp, so the job follows chain time
+ * (evm_increaseTime on a Hardhat node moves it). After a game's last round the same call
+ * finalizes it, which emits GameEnded or WinnerDecryptionRequested. A game whose call fails is
+ * logged and retried on the next pass without holding up the other games.
+ */
+export class RoundProgressionKeeper implements KeeperJob {
+  readonly name = "roundProgression";
+
+  private readonly game: Contract;
+  private runs = 0;
+  private failures = 0;
+  private lastRun: KeeperRun | null = null;
+  private lastSuccessAt: number | null = null;
+  private games = new Map<number, GameRoundStatus>();
+  private lastDriftSeconds: number | null = null;
+  private maxDriftSeconds: number | null = null;
+  private roundsProgressed = 0;
+  private gamesFinalized = 0;
+
+  constructor(
+    gameAddress: string,
+    private readonly signer: Wallet,
+    private readonly options: RoundProgressionOptions
+  ) {
+    this.game = new Contract(gameAddress, SHADOW_MERCHANTS_ABI, signer);
+  }
+
+  async init(): Promise<void> {
+    await this.readGames();
+  }
+
+  status(): RoundProgressionStatus {
+    return {
+      name: this.name,
+      runs: this.runs,
+      failures: this.failures,
+      lastRun: this.lastRun,
+      lastSuccessAt: this.lastSuccessAt,
+      games: [...this.games.values()],
+      lastDriftSeconds: this.lastDriftSeconds,
+      maxDriftSeconds: this.maxDriftSeconds,
+      roundsProgressed: this.roundsProgressed,
+      gamesFinalized: this.gamesFinalized,
+    };
+  }
+
+  async runOnce(): Promise<KeeperRun> {
+    const run: KeeperRun = {
+      startedAt: Date.now(),
+      finishedAt: 0,
+      blockNumber: null,
+      blockTimestamp: null,
+      transactions: [],
+      error: null,
+    };
+    this.runs++;
+
+    try {
+      const block = await this.signer.provider!.getBlock("latest");
+      if (!block) throw new Error("Latest block unavailable");
+      run.blockNumber = block.number;
+      run.blockTimestamp = block.timestamp;
+
+      await this.readGames();
+
+      const due = [...this.games.values()].filter((game) => block.timestamp >= game.nextRoundAt);
+      const failed: string[] = [];
+      for (const game of due) {
+        try {
+          run.transactions.push(await this.progress(game, block.timestamp));
+        } catch (error: any) {
+          const reason = error.shortMessage || error.message;
+          failed.push(`game ${game.gameId}: ${reason}`);
+          console.error(`⚠️  Game ${game.gameId}: progressRound failed, retrying next pass:`, reason);
+        }
+      }
+      if (due.length > 0) await this.readGames();
+
+      if (failed.length > 0) throw new Error(failed.join("; "));
+      this.lastSuccessAt = Date.now();
+    } catch (error: any) {
+      this.failures++;
+      run.error = error.shortMessage || error.message;
+      console.error("⚠️  Round progression pass failed:", run.error);
+    }
+
+    run.finishedAt = Date.now();
+    this.lastRun = run;
+    return run;
+  }
+
+  /**
+   * Progress (or finalize) one due game; returns the transaction hash
+   */
+  private async progress(game: GameRoundStatus, chainTime: number): Promise<string> {
+    const finalizing = game.currentRound >= game.maxRounds;
+    console.log(finalizing
+      ? `🏁 Game ${game.gameId}: round ${game.currentRound}/${game.maxRounds} over, finalizing`
+      : `⏭️  Game ${game.gameId}: round ${game.currentRound} over, progressing (chain time ${chainTime}, due ${game.nextRoundAt})`);
+
+    const progress = this.game.getFunction("progressRound");
+    // Dry-run first: someone else may have progressed the round already
+    await progress.staticCall(game.gameId);
+    const receipt = await sendWithRetry(
+      this.signer,
+      this.signer.provider!,
+      (overrides) => progress(game.gameId, overrides),
+      this.options.retry,
+      `progressRound(${game.gameId})`
+    );
+
+    this.recordReceipt(receipt.logs, game.nextRoundAt);
+    return receipt.hash;
+  }
+
+  private async readGames(): Promise<void> {
+    const gameIds: bigint[] = await this.game.getFunction("getActiveGames")();
+    const games = new Map<number, GameRoundStatus>();
+
+    for (const id of gameIds) {
+      const info = await this.game.getFunction("getGameInfo")(id);
+      const roundDuration = Number(info.roundDuration);
+      const currentRound = Number(info.currentRound);
+      games.set(Number(id), {
+        gameId: Number(id),
+        roundDuration,
+        maxRounds: Number(info.maxRounds),
+        currentRound,
+        nextRoundAt: Number(info.lastRoundTime) + roundDuration,
+        scheduleDriftSeconds: Number(info.lastRoundTime) - Number(info.gameStartTime)
+          - (currentRound - 1) * roundDuration,
+      });
+    }
+
+    this.games = games;
+  }
+
+  private recordReceipt(logs: readonly any[], scheduledAt: number): void {
+    for (const log of logs) {
+      const parsed = this.game.interface.parseLog(log);
+      if (!parsed) continue;
+
+      if (parsed.name === "RoundProgressed") {
+        const drift = Number(parsed.args.timestamp) - scheduledAt;
+        this.lastDriftSeconds = drift;
+        this.maxDriftSeconds = Math.max(this.maxDriftSeconds ?? drift, drift);
+        this.roundsProgressed++;
+        console.log(`✅ Game ${parsed.args.gameId}: round ${parsed.args.newRound} started (${drift}s after schedule)`);
+      } else if (parsed.name === "GameEnded") {
+        this.gamesFinalized++;
+        console.log(`🏆 Game ${parsed.args.gameId} finalized, winner ${parsed.args.winner}`);
+      } else if (parsed.name === "WinnerDecryptionRequested") {
+        this.gamesFinalized++;
+        console.log(`🔐 Game ${parsed.args.gameId} finalized, winner decryption requested (#${parsed.args.requestId})`);
+      }
+    }
+  }
+}
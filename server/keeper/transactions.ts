@@ -0,0 +1,131 @@
+import type { ContractTransactionReceipt, ContractTransactionResponse, Provider, Wallet } from "ethers";
+
+export interface RetryOptions {
+  maxAttempts: number;
+  backoffMs: number; // doubled after every failed attempt
+  feeBumpPercent: number; // added to the fee per retry of an underpriced transaction
+  confirmTimeoutMs: number;
+}
+
+export type TransactionOverrides = {
+  nonce: number;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+};
+
+// ethers error codes worth another attempt; reverts (CALL_EXCEPTION) are not
+const RETRYABLE_CODES = new Set([
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED",
+  "TRANSACTION_REPLACED",
+  "TIMEOUT",
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+]);
+
+const RETRYABLE_MESSAGES = [
+  /nonce too (low|high)/i,
+  /nonce has already been used/i,
+  /replacement (fee|transaction) (too low|underpriced)/i,
+  /transaction underpriced/i,
+  /max fee per gas less than block base fee/i,
+  /fee cap less than block base fee/i,
+  /already known/i,
+];
+
+/**
+ * True for nonce races, underpriced transactions and transient RPC failures
+ */
+export function isRetryableError(error: any): boolean {
+  if (RETRYABLE_CODES.has(error?.code)) return true;
+  const message = `${error?.shortMessage ?? ""} ${error?.message ?? ""} ${error?.info?.error?.message ?? ""}`;
+  return RETRYABLE_MESSAGES.some((pattern) => pattern.test(message));
+}
+
+const NONCE_TOO_LOW_MESSAGES = [/nonce too low/i, /nonce has already been used/i];
+
+/**
+ * True when the nonce was already consumed, by this transaction or another sender of the key
+ */
+function isNonceTooLow(error: any): boolean {
+  if (error?.code === "NONCE_EXPIRED") return true;
+  const message = `${error?.shortMessage ?? ""} ${error?.message ?? ""} ${error?.info?.error?.message ?? ""}`;
+  return NONCE_TOO_LOW_MESSAGES.some((pattern) => pattern.test(message));
+}
+
+/**
+ * Send a transaction, retrying on nonce / gas errors
+ *
+ * The nonce is fixed on the first attempt and reused by every retry, with the fee bumped
+ * by `feeBumpPercent` per previous attempt, so a stuck transaction is replaced rather than
+ * queued behind. It is only re-read on "nonce too low", once none of the transactions
+ * already sent turns out to be the one that consumed it.
+ */
+export async function sendWithRetry(
+  signer: Wallet,
+  provider: Provider,
+  send: (overrides: TransactionOverrides) => Promise<ContractTransactionResponse>,
+  options: RetryOptions,
+  label: string
+): Promise<ContractTransactionReceipt> {
+  let nonce = await provider.getTransactionCount(signer.address, "pending");
+  const sent: ContractTransactionResponse[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const overrides = await buildOverrides(nonce, provider, BigInt(100 + options.feeBumpPercent * (attempt - 1)));
+      const tx = await send(overrides);
+      sent.push(tx);
+      console.log(`📤 ${label}: sent ${tx.hash} (nonce ${nonce}, attempt ${attempt})`);
+
+      const receipt = await tx.wait(1, options.confirmTimeoutMs);
+      if (!receipt) throw new Error(`${label}: transaction ${tx.hash} was dropped`);
+      return receipt;
+    } catch (error: any) {
+      if (isNonceTooLow(error)) {
+        // An earlier attempt may have been mined while a replacement was being sent
+        const mined = await findMinedReceipt(sent, provider);
+        if (mined) return mined;
+      }
+      if (attempt >= options.maxAttempts || !isRetryableError(error)) throw error;
+
+      if (isNonceTooLow(error)) {
+        nonce = await provider.getTransactionCount(signer.address, "pending");
+      }
+      const delay = options.backoffMs * 2 ** (attempt - 1);
+      console.warn(`⚠️  ${label}: attempt ${attempt} failed (${error.shortMessage || error.message}), retrying in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Receipt of the first already sent transaction that made it into a block, if any
+ */
+async function findMinedReceipt(
+  sent: ContractTransactionResponse[],
+  provider: Provider
+): Promise<ContractTransactionReceipt | null> {
+  for (const tx of sent) {
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+    if (receipt) return (await tx.wait(0)) ?? null;
+  }
+  return null;
+}
+
+async function buildOverrides(nonce: number, provider: Provider, feePercent: bigint): Promise<TransactionOverrides> {
+  const fees = await provider.getFeeData();
+
+  if (fees.maxFeePerGas !== null && fees.maxPriorityFeePerGas !== null) {
+    return {
+      nonce,
+      maxFeePerGas: (fees.maxFeePerGas * feePercent) / 100n,
+      maxPriorityFeePerGas: (fees.maxPriorityFeePerGas * feePercent) / 100n,
+    };
+  }
+  if (fees.gasPrice !== null) {
+    return { nonce, gasPrice: (fees.gasPrice * feePercent) / 100n };
+  }
+  return { nonce };
+}
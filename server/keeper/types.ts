@@ -0,0 +1,34 @@
+/**
+ * Shapes shared by keeper jobs and the keeper service
+ */
+
+/**
+ * Outcome of one keeper pass
+ * `blockTimestamp` is the chain time the pass decided on (never the wall clock).
+ */
+export interface KeeperRun {
+  startedAt: number;
+  finishedAt: number;
+  blockNumber: number | null;
+  blockTimestamp: number | null;
+  transactions: string[];
+  error: string | null;
+}
+
+export interface KeeperJobStatus {
+  name: string;
+  runs: number;
+  failures: number; // passes that ended with an error
+  lastRun: KeeperRun | null;
+  lastSuccessAt: number | null;
+}
+
+/**
+ * A periodic on-chain maintenance task run by server/keeper.ts
+ */
+export interface KeeperJob {
+  readonly name: string;
+  /** One pass; failures are recorded in the status instead of thrown */
+  runOnce(): Promise<KeeperRun>;
+  status(): KeeperJobStatus; // jobs extend it with their own fields
+}
@@ -16,97 +16,81 @@
 
 import express from "express";
 import cors from "cors";
-import { createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/node";
+import {
+  getBackend,
+  defaultBackendId,
+  listBackends,
+  parseChecksummedAddress,
+  parseEncryptionTarget,
+  parseTypedValue,
+  parseTypedValues,
+  InvalidValueError,
+  UnknownBackendError,
+  UserDecryptSessionStore,
+} from "./encryption/index.js";
+import type { EncryptionBackend, EncryptionTarget, HandleContractPair } from "./encryption/index.js";
+import { loadManifest } from "./deployment/index.js";
 
 const app = express();
 const PORT = 4000;
 
+// Sepolia (FHEVM host chain) - used when a decryption request omits chainId
+const DEFAULT_CHAIN_ID = 11155111;
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+
+// Deployment manifest served to clients (DEPLOYMENT_NETWORK=localhost|sepolia|...)
+const deployment = process.env.DEPLOYMENT_NETWORK ? loadManifest(process.env.DEPLOYMENT_NETWORK) : null;
+
 // Middleware
 app.use(cors());
 app.use(express.json());
 
-// Global FHE instance
-let fheInstance: any = null;
-let initializationPromise: Promise<void> | null = null;
-
 /**
- * MOCK MODE for Relayer outages
- * When Zama Relayer is down, we can test the full flow using plaintext mode
- * Set MOCK_MODE=true to use mock encryption (generates valid hex, empty proofs)
- * The contract will accept these in plaintext fallback mode
- * This allows testing: Gateway → Coprocessor → Results (Steps 2-5)
- *
- * Production: Disable MOCK_MODE to use REAL FHEVM encryption from Zama Relayer
+ * Message of a caught error, whatever was thrown
  */
-const MOCK_MODE = process.env.MOCK_MODE === "true" || true; // Enabled - Using MOCK MODE (Relayer Down)
-const MOCK_MODE_ENABLED_MSG =
-  "ℹ️  Mock Mode Active: Using plaintext values for Relayer compatibility testing";
-
-/**
- * Generate mock encrypted handle (32-byte hex string)
- * This simulates what the Relayer would return, but without actual FHE
- * Contract will treat this as plaintext when proof is empty
- */
-function generateMockHandle(value: bigint): string {
-  // Convert value to 32-byte hex (left-padded)
-  const hex = value.toString(16).padStart(64, "0");
-  return "0x" + hex;
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
 /**
- * Initialize FHE instance (lazy initialization with singleton pattern)
- * Ensures only one initialization happens even with concurrent requests
+ * Encryption backend selection
+ * Deployment default: ENCRYPTION_BACKEND=mock|zama (legacy: MOCK_MODE=false → zama)
+ * Per request: { "backend": "zama" } in the body or an X-Encryption-Backend header
+ *
+ * MOCK backend (default) is for Relayer outages: generates valid hex, empty proofs.
+ * The contract accepts these in plaintext fallback mode.
+ *
+ * Production: use the zama backend for REAL FHEVM encryption from Zama Relayer
  */
-async function initializeFHE(): Promise<void> {
-  // Return existing initialization if in progress
-  if (initializationPromise) {
-    return initializationPromise;
-  }
-
-  // Return immediately if already initialized
-  if (fheInstance) {
-    console.log("✅ FHE instance already initialized, reusing");
-    return;
-  }
-
-  console.log("🔧 [Step 1: Relayer Initialization] Starting FHE instance setup...");
-
-  initializationPromise = (async () => {
-    try {
-      console.log("📝 Using SepoliaConfig for Sepolia testnet");
-      console.log("   - Gateway Contract: 0x7048C39f048125eDa9d678AEbaDfB22F7900a29F");
-      console.log("   - Relayer Endpoint: https://relayer.testnet.zama.cloud");
-
-      fheInstance = await createInstance(SepoliaConfig);
-
-      console.log("✅ [Step 1 ✓] FHE instance initialized successfully");
-      console.log("🌐 Connected to Zama Relayer Network");
-      console.log("   Ready to encrypt user inputs for Gateway submission");
-    } catch (error: any) {
-      console.error("❌ [Step 1 ✗] Failed to initialize FHE");
-      console.error("   Error:", error.message);
-
-      // Detailed error diagnosis
-      if (error.message.includes("backend connection")) {
-        console.error("   → Zama Relayer service may be down (check https://status.zama.ai)");
-      }
-
-      initializationPromise = null;
-      throw error;
+function selectBackend(req: express.Request, res: express.Response): EncryptionBackend | null {
+  const requested = req.body?.backend ?? req.get("X-Encryption-Backend");
+  try {
+    return getBackend(requested);
+  } catch (error) {
+    if (error instanceof UnknownBackendError) {
+      res.status(400).json({ success: false, error: error.message });
+      return null;
     }
-  })();
-
-  return initializationPromise;
+    throw error;
+  }
 }
 
 /**
- * Convert Uint8Array to hex string
+ * Parse the contract/user pair every encrypted input must be bound to
+ * Relayer proofs only verify inside FHE.fromExternal for the exact pair,
+ * so both addresses are required and must be EIP-55 checksummed
  */
-function arrayToHex(arr: Uint8Array | number[]): string {
-  const hexArray = Array.from(arr).map((b) =>
-    b.toString(16).padStart(2, "0")
-  );
-  return "0x" + hexArray.join("");
+function selectTarget(req: express.Request, res: express.Response): EncryptionTarget | null {
+  try {
+    return parseEncryptionTarget(req.body);
+  } catch (error) {
+    if (error instanceof InvalidValueError) {
+      res.status(400).json({ success: false, error: error.message });
+      return null;
+    }
+    throw error;
+  }
 }
 
 /**
@@ -117,16 +101,30 @@ app.get("/health", (req, res) => {
     status: "ok",
     message: "FHEVM Encryption Server is running",
     port: PORT,
+    defaultBackend: defaultBackendId(),
+    backends: listBackends(),
   });
 });
 
+/**
+ * Deployment manifest (addresses, deploy blocks, code hashes) of DEPLOYMENT_NETWORK
+ * GET /api/deployment
+ */
+app.get("/api/deployment", (req, res) => {
+  if (!deployment) {
+    res.status(404).json({ success: false, error: "No deployment configured (set DEPLOYMENT_NETWORK)" });
+    return;
+  }
+  res.json({ success: true, deployment });
+});
+
 /**
  * Encrypt uint64 endpoint (Step 1: Relayer Encryption)
  * POST /api/encrypt/uint64
- * Body: { value: string }
+ * Body: { value: string, contractAddress: string, userAddress: string, backend?: "mock" | "zama" }
  *
- * In MOCK_MODE: Returns mock handles (plaintext as hex) + empty proofs
- * In REAL_MODE: Calls Zama Relayer for actual FHEVM encryption
+ * mock backend: Returns mock handles (plaintext as hex) + empty proofs
+ * zama backend: Calls Zama Relayer for actual FHEVM encryption
  *
  * Contract accepts both:
  * - Mock: proof=0x → plaintext fallback mode
@@ -147,100 +145,66 @@ app.post("/api/encrypt/uint64", async (req, res) => {
     let numValue: bigint;
     try {
       numValue = BigInt(value);
-      if (numValue < 0n) throw new Error("Value must be non-negative");
+      if (numValue < 0n || numValue > MAX_UINT64) throw new Error("Value must fit in uint64");
     } catch {
       return res.status(400).json({
         success: false,
-        error: "value must be a valid non-negative integer",
+        error: "value must be a valid integer between 0 and 2^64-1",
       });
     }
 
-    console.log(`\n🔐 [Step 1: Encryption] Encrypting uint64 value: ${value}`);
+    const target = selectTarget(req, res);
+    if (!target) return;
 
-    // ============ MOCK MODE (Relayer Down) ============
-    if (MOCK_MODE) {
-      console.log(`${MOCK_MODE_ENABLED_MSG}`);
-      console.log("   Using plaintext workaround for Gateway testing");
-
-      const mockHandle = generateMockHandle(numValue);
-      const mockProof = "0x"; // Empty proof triggers plaintext mode in contract
-
-      console.log("✅ [Step 1 ✓] Mock encryption successful (plaintext mode)");
-      console.log(`   Handle: ${mockHandle.substring(0, 20)}...`);
-      console.log("   Proof:  0x (empty - plaintext fallback)");
-      console.log("   → Ready for Step 2: Gateway submission\n");
-
-      return res.json({
-        success: true,
-        mode: "MOCK (Plaintext Fallback)",
-        step: "Step 1: User Encryption via Relayer",
-        handle: mockHandle,
-        proof: mockProof,
-        originalValue: value,
-        contractMode: "usesPlaintext=true",
-        note: "Contract will treat handle as plaintext uint64. Perfect for testing Steps 2-5!",
-        nextStep: "Submit to Gateway contract with these values",
-      });
-    }
-
-    // ============ REAL MODE (Relayer Available) ============
-    console.log("   Attempting real FHEVM encryption via Zama Relayer...");
-
-    // Initialize FHE if needed (lazy init)
-    await initializeFHE();
-
-    // Create encrypted input for the Gateway contract
-    const encryptedInput = fheInstance
-      .createEncryptedInput(
-        "0x7048C39f048125eDa9d678AEbaDfB22F7900a29F", // Gateway contract
-        "0x0000000000000000000000000000000000000000"   // Placeholder user
-      )
-      .add64(numValue);
+    const backend = selectBackend(req, res);
+    if (!backend) return;
 
-    console.log("   Generating ZK proof via Relayer...");
-
-    // Encrypt - generates ciphertext + ZK proof via Relayer
-    const encrypted = await encryptedInput.encrypt();
-
-    console.log("✅ [Step 1 ✓] Real FHEVM encryption successful");
+    console.log(`\n🔐 [Step 1: Encryption] Encrypting uint64 value: ${value}`);
+    console.log(`   Contract: ${target.contractAddress}`);
+    console.log(`   User:     ${target.userAddress}`);
+    console.log(`   Backend: ${backend.id} (${backend.mode})`);
 
-    const handleHex = arrayToHex(encrypted.handles[0]);
-    const proofHex = arrayToHex(encrypted.inputProof);
+    const encrypted = await backend.encrypt([{ type: "uint64", value: numValue }], target);
+    const handle = encrypted.handles[0] as string;
 
-    console.log(`   Handle: ${handleHex.substring(0, 20)}...`);
-    console.log(`   Proof:  ${proofHex.substring(0, 20)}...`);
+    console.log(`✅ [Step 1 ✓] Encryption successful (${backend.mode})`);
+    console.log(`   Handle: ${handle.substring(0, 20)}...`);
+    console.log(`   Proof:  ${encrypted.proof.substring(0, 20)}${encrypted.proof === "0x" ? " (empty - plaintext fallback)" : "..."}`);
     console.log("   → Ready for Step 2: Gateway submission\n");
 
     res.json({
       success: true,
-      mode: "REAL (FHEVM Encrypted)",
+      mode: backend.mode,
+      backend: backend.id,
       step: "Step 1: User Encryption via Relayer",
-      handle: handleHex,
-      proof: proofHex,
+      handle,
+      proof: encrypted.proof,
       originalValue: value,
-      contractMode: "gateway verification",
+      contractMode: backend.contractMode,
+      ...(backend.note ? { note: backend.note } : {}),
       nextStep: "Submit to Gateway contract with these encrypted values",
     });
-  } catch (error: any) {
+  } catch (error) {
+    const message = errorMessage(error);
     console.error("❌ [Step 1 ✗] Encryption failed");
-    console.error("   Error:", error.message);
+    console.error("   Error:", message);
 
     // Provide detailed error context
     const errorResponse: any = {
       success: false,
-      error: error.message || "Encryption failed",
+      error: message || "Encryption failed",
       step: "Step 1: User Encryption via Relayer",
       troubleshooting: {},
-      suggestion: "Relayer may be down. Try MOCK_MODE=true for plaintext testing",
+      suggestion: "Relayer may be down. Try ENCRYPTION_BACKEND=mock for plaintext testing",
     };
 
-    if (error.message?.includes("backend connection")) {
+    if (message.includes("backend connection")) {
       errorResponse.troubleshooting.issue = "Zama Relayer service connection failed";
       errorResponse.troubleshooting.suggestion =
         "Check https://status.zama.ai - Relayer service is likely down";
       errorResponse.workaround =
-        "Use MOCK_MODE for plaintext fallback testing (set MOCK_MODE=true env var)";
-    } else if (error.message?.includes("RELAYER_FETCH_ERROR")) {
+        "Use the mock backend for plaintext fallback testing (set ENCRYPTION_BACKEND=mock or send backend: \"mock\")";
+    } else if (message.includes("RELAYER_FETCH_ERROR")) {
       errorResponse.troubleshooting.issue = "Relayer API returned an error";
       errorResponse.troubleshooting.suggestion = "Retry in a few moments";
     }
@@ -249,10 +213,79 @@ app.post("/api/encrypt/uint64", async (req, res) => {
   }
 });
 
+/**
+ * Typed multi-value encryption endpoint (Step 1: Relayer Encryption)
+ * POST /api/encrypt/input
+ * Body: {
+ *   values: { type: "bool" | "uint8" | "uint16" | "uint32" | "uint64" | "address", value }[],
+ *   contractAddress: string,
+ *   userAddress: string,
+ *   backend?: "mock" | "zama"
+ * }
+ *
+ * Mirrors the relayer SDK's createEncryptedInput().add8().add16().add64() chain:
+ * every value gets its own handle and all handles share ONE input proof, e.g.
+ * joinGame(gold euint64, reputation euint16, energy euint8) in one round-trip.
+ */
+app.post("/api/encrypt/input", async (req, res) => {
+  try {
+    let values;
+    try {
+      values = parseTypedValues(req.body?.values);
+    } catch (error) {
+      if (error instanceof InvalidValueError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      throw error;
+    }
+
+    const target = selectTarget(req, res);
+    if (!target) return;
+
+    const backend = selectBackend(req, res);
+    if (!backend) return;
+
+    console.log(`\n🔐 [Step 1: Encryption] Encrypting ${values.length} typed values`);
+    console.log(`   Types: ${values.map((entry) => entry.type).join(", ")}`);
+    console.log(`   Contract: ${target.contractAddress}`);
+    console.log(`   User:     ${target.userAddress}`);
+    console.log(`   Backend:  ${backend.id} (${backend.mode})`);
+
+    const encrypted = await backend.encrypt(values, target);
+
+    console.log(`✅ [Step 1 ✓] ${encrypted.handles.length} handles share one proof`);
+    console.log("   → Ready for Step 2: Gateway submission\n");
+
+    res.json({
+      success: true,
+      mode: backend.mode,
+      backend: backend.id,
+      step: "Step 1: User Encryption via Relayer",
+      types: values.map((entry) => entry.type),
+      handles: encrypted.handles,
+      proof: encrypted.proof,
+      contractAddress: target.contractAddress,
+      userAddress: target.userAddress,
+      contractMode: backend.contractMode,
+      ...(backend.note ? { note: backend.note } : {}),
+      nextStep: "Submit every handle with the shared proof in a single contract call",
+    });
+  } catch (error) {
+    const message = errorMessage(error);
+    console.error("❌ [Step 1 ✗] Typed input encryption failed");
+    console.error("   Error:", message);
+    res.status(500).json({
+      success: false,
+      error: message || "Encryption failed",
+      step: "Step 1: User Encryption via Relayer",
+    });
+  }
+});
+
 /**
  * Batch encrypt endpoint
  * POST /api/encrypt/batch
- * Body: { values: string[] }
+ * Body: { values: string[], contractAddress: string, userAddress: string, backend?: "mock" | "zama" }
  */
 app.post("/api/encrypt/batch", async (req, res) => {
   try {
@@ -262,28 +295,40 @@ app.post("/api/encrypt/batch", async (req, res) => {
       return res.status(400).json({ error: "values must be an array" });
     }
 
-    console.log(`🔐 Encrypting ${values.length} values`);
+    // Same checks as /api/encrypt/uint64, reported with the offending index
+    let amounts: bigint[];
+    try {
+      amounts = values.map((value, index) => {
+        const parsed = parseTypedValue({ type: "uint64", value }, index);
+        return parsed.value as bigint;
+      });
+    } catch (error) {
+      if (error instanceof InvalidValueError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      throw error;
+    }
 
-    await initializeFHE();
+    const target = selectTarget(req, res);
+    if (!target) return;
 
-    const results = [];
+    const backend = selectBackend(req, res);
+    if (!backend) return;
 
-    for (const value of values) {
-      const bigintValue = BigInt(value);
+    console.log(`🔐 Encrypting ${values.length} values (backend: ${backend.id})`);
 
-      const encryptedInput = fheInstance
-        .createEncryptedInput(
-          "0xdcac98a77A522e175701D756F4d3387674089343",
-          "0x0000000000000000000000000000000000000000"
-        )
-        .add64(bigintValue);
+    const results = [];
 
-      const encrypted = await encryptedInput.encrypt();
+    for (const [index, value] of values.entries()) {
+      const encrypted = await backend.encrypt(
+        [{ type: "uint64", value: amounts[index] as bigint }],
+        target
+      );
 
       results.push({
         originalValue: value,
-        handle: arrayToHex(encrypted.handles[0]),
-        proof: arrayToHex(encrypted.inputProof),
+        handle: encrypted.handles[0],
+        proof: encrypted.proof,
       });
     }
 
@@ -291,14 +336,168 @@ app.post("/api/encrypt/batch", async (req, res) => {
 
     res.json({
       success: true,
+      mode: backend.mode,
+      backend: backend.id,
       count: results.length,
       results,
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error("❌ Batch encryption error:", error);
     res.status(500).json({
       success: false,
-      error: error.message || "Batch encryption failed",
+      error: errorMessage(error) || "Batch encryption failed",
+    });
+  }
+});
+
+// Step 5: keypairs waiting for the user's EIP-712 signature
+const userDecryptSessions = new UserDecryptSessionStore();
+
+/**
+ * User decryption - request (Step 5: User decrypts via Relayer/KMS)
+ * POST /api/decrypt/user/request
+ * Body: { contractAddresses: string[], userAddress: string, chainId?: number, backend?: "mock" | "zama" }
+ *
+ * Generates a keypair (kept server-side) and returns the EIP-712 typed data the
+ * user's wallet must sign to authorize decryption of handles in those contracts.
+ */
+app.post("/api/decrypt/user/request", async (req, res) => {
+  try {
+    let contractAddresses: string[];
+    let userAddress: string;
+    let chainId = DEFAULT_CHAIN_ID;
+    try {
+      const rawContracts = req.body?.contractAddresses;
+      if (!Array.isArray(rawContracts) || rawContracts.length === 0) {
+        throw new InvalidValueError("contractAddresses must be a non-empty array");
+      }
+      contractAddresses = rawContracts.map((address: unknown, index: number) =>
+        parseChecksummedAddress(address, `contractAddresses[${index}]`)
+      );
+      userAddress = parseChecksummedAddress(req.body?.userAddress, "userAddress");
+      if (req.body?.chainId !== undefined) {
+        chainId = Number(req.body.chainId);
+        if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+          throw new InvalidValueError("chainId must be a positive integer");
+        }
+      }
+    } catch (error) {
+      if (error instanceof InvalidValueError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      throw error;
+    }
+
+    const backend = selectBackend(req, res);
+    if (!backend) return;
+
+    console.log(`\n🔑 [Step 5: User Decryption] Preparing request for ${userAddress}`);
+    console.log(`   Contracts: ${contractAddresses.join(", ")}`);
+    console.log(`   Backend:   ${backend.id} (${backend.mode})`);
+
+    const request = await backend.createUserDecryptRequest(contractAddresses, chainId);
+    const session = userDecryptSessions.create(backend.id, userAddress, request);
+
+    console.log(`✅ Keypair generated, awaiting wallet signature (request ${session.id})`);
+
+    res.json({
+      success: true,
+      backend: backend.id,
+      step: "Step 5: User Decryption via Relayer/KMS",
+      requestId: session.id,
+      publicKey: request.publicKey,
+      eip712: request.eip712,
+      startTimestamp: request.startTimestamp,
+      durationDays: request.durationDays,
+      expiresAt: session.expiresAt,
+      nextStep: "Sign eip712 with the user's wallet and POST it to /api/decrypt/user",
+    });
+  } catch (error) {
+    const message = errorMessage(error);
+    console.error("❌ [Step 5 ✗] Failed to prepare user decryption");
+    console.error("   Error:", message);
+    res.status(500).json({
+      success: false,
+      error: message || "Failed to prepare user decryption",
+      step: "Step 5: User Decryption via Relayer/KMS",
+    });
+  }
+});
+
+/**
+ * User decryption - decrypt (Step 5: User decrypts via Relayer/KMS)
+ * POST /api/decrypt/user
+ * Body: { requestId: string, signature: string, handles: { handle: string, contractAddress: string }[] }
+ *
+ * Returns { values: { [handle]: decimal string } } for the signing user.
+ */
+app.post("/api/decrypt/user", async (req, res) => {
+  try {
+    const { requestId, signature } = req.body ?? {};
+    const session = typeof requestId === "string" ? userDecryptSessions.get(requestId) : null;
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: "Unknown or expired requestId - call /api/decrypt/user/request again",
+      });
+    }
+
+    let handles: HandleContractPair[];
+    try {
+      if (typeof signature !== "string" || !/^(0x)?[0-9a-fA-F]+$/.test(signature)) {
+        throw new InvalidValueError("signature must be a hex string");
+      }
+      if (!Array.isArray(req.body?.handles) || req.body.handles.length === 0) {
+        throw new InvalidValueError("handles must be a non-empty array of { handle, contractAddress }");
+      }
+      handles = req.body.handles.map((entry: any, index: number) => {
+        if (typeof entry?.handle !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(entry.handle)) {
+          throw new InvalidValueError(`handles[${index}].handle must be a bytes32 hex string`);
+        }
+        const contractAddress = parseChecksummedAddress(entry.contractAddress, `handles[${index}].contractAddress`);
+        if (!session.request.contractAddresses.includes(contractAddress)) {
+          throw new InvalidValueError(`handles[${index}].contractAddress was not part of the signed request`);
+        }
+        return { handle: entry.handle.toLowerCase(), contractAddress };
+      });
+    } catch (error) {
+      if (error instanceof InvalidValueError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      throw error;
+    }
+
+    const backend = getBackend(session.backendId);
+
+    console.log(`\n🔓 [Step 5: User Decryption] Decrypting ${handles.length} handles for ${session.userAddress}`);
+
+    let values: Record<string, string>;
+    try {
+      values = await backend.userDecrypt(handles, session.request, signature, session.userAddress);
+    } catch (error) {
+      if (error instanceof InvalidValueError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      throw error;
+    }
+
+    console.log("✅ [Step 5 ✓] User decryption successful");
+
+    res.json({
+      success: true,
+      backend: backend.id,
+      step: "Step 5: User Decryption via Relayer/KMS",
+      userAddress: session.userAddress,
+      values,
+    });
+  } catch (error) {
+    const message = errorMessage(error);
+    console.error("❌ [Step 5 ✗] User decryption failed");
+    console.error("   Error:", message);
+    res.status(500).json({
+      success: false,
+      error: message || "User decryption failed",
+      step: "Step 5: User Decryption via Relayer/KMS",
     });
   }
 });
@@ -315,6 +514,13 @@ app.listen(PORT, () => {
   console.log("Available endpoints:");
   console.log(`  POST http://localhost:${PORT}/api/encrypt/uint64`);
   console.log(`  POST http://localhost:${PORT}/api/encrypt/batch`);
+  console.log(`  POST http://localhost:${PORT}/api/encrypt/input`);
+  console.log(`  POST http://localhost:${PORT}/api/decrypt/user/request`);
+  console.log(`  POST http://localhost:${PORT}/api/decrypt/user`);
+  console.log(`  GET  http://localhost:${PORT}/api/deployment`);
   console.log(`  GET  http://localhost:${PORT}/health`);
   console.log("");
+  console.log(`Encryption backend: ${defaultBackendId()} (available: ${listBackends().join(", ")})`);
+  console.log(`Deployment:         ${deployment ? `${deployment.network} (chain ${deployment.chainId})` : "(none)"}`);
+  console.log("");
 });
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ZeroAddress, toBeHex } from "ethers";
+import { AuctionResolutionKeeper } from "../keeper/index.js";
+import {
+  FheType,
+  TEST_RETRY,
+  connectHardhatNode,
+  deploy,
+  encryptInput,
+  increaseTime,
+  installMockFHEVM,
+  uninstallMockFHEVM,
+} from "./hardhatNode.js";
+import type { HardhatNode } from "./hardhatNode.js";
+
+const GOOD_TYPE_SPICES = 1;
+const plain = (amount: number) => toBeHex(amount, 32);
+
+describe("AuctionResolutionKeeper", () => {
+  let node: HardhatNode;
+
+  before(async () => {
+    node = await connectHardhatNode();
+  });
+
+  async function startKeeper(auctionAddress: string): Promise<AuctionResolutionKeeper> {
+    const keeper = new AuctionResolutionKeeper(auctionAddress, node.admin, { batchSize: 20, retry: TEST_RETRY });
+    await keeper.init();
+    return keeper;
+  }
+
+  it("resolves an auction once chain time passes its end", async () => {
+    const auction = await deploy("MarketAuction", node.admin, ZeroAddress);
+    await (await auction.getFunction("createAuction")(GOOD_TYPE_SPICES, plain(100), "0x", 60)).wait();
+    await (await auction.connect(node.player).getFunction("placeBid")(1, plain(300), "0x")).wait();
+    const keeper = await startKeeper(await auction.getAddress());
+
+    const early = await keeper.runOnce();
+    assert.equal(early.error, null);
+    assert.deepEqual(early.transactions, []);
+    assert.equal(keeper.status().nextDeadline, Number((await auction.getFunction("resolutionTime")(1))));
+
+    await increaseTime(node.provider, 61);
+    const run = await keeper.runOnce();
+    assert.equal(run.error, null);
+    assert.equal(run.transactions.length, 1);
+    assert.deepEqual(keeper.status().lastResolved, ["1"]);
+    assert.equal((await auction.getFunction("auctions")(1)).resolvedWinner, node.player.address);
+  });
+
+  describe("with a mock FHEVM", () => {
+    before(async () => {
+      await installMockFHEVM(node.provider);
+    });
+
+    after(async () => {
+      await uninstallMockFHEVM(node.provider);
+    });
+
+    it("skips an expired Dutch auction whose encrypted bid awaits its decision", async () => {
+      const auction = await deploy("MarketAuction", node.admin, ZeroAddress);
+      const auctionAddress = await auction.getAddress();
+      // The reserve is verified through an external self-call, so the auction is also the user
+      const reserve = encryptInput(auctionAddress, auctionAddress, [[FheType.Uint64, 100n]]);
+      await (await auction.getFunction("createDutchAuction")(GOOD_TYPE_SPICES, reserve.handles[0], reserve.inputProof, 150, 1500)).wait();
+      await (await auction.getFunction("createAuction")(GOOD_TYPE_SPICES, plain(100), "0x", 150)).wait();
+
+      const bid = encryptInput(auctionAddress, node.player.address, [[FheType.Uint64, 2000n]]);
+      await (await auction.connect(node.player).getFunction("placeBid")(1, bid.handles[0], bid.inputProof)).wait();
+      assert.equal(await auction.getFunction("dutchPendingBidder")(1), node.player.address);
+
+      const keeper = await startKeeper(auctionAddress);
+      await increaseTime(node.provider, 151);
+      const run = await keeper.runOnce();
+      assert.equal(run.error, null);
+      assert.equal(keeper.status().due, 1);
+      assert.deepEqual(keeper.status().lastResolved, ["2"]);
+
+      // Nothing left to do until the decryption oracle decides the bid
+      const next = await keeper.runOnce();
+      assert.deepEqual(next.transactions, []);
+      assert.equal(keeper.status().due, 0);
+      assert.equal((await auction.getFunction("auctions")(1)).isResolved, false);
+    });
+  });
+});
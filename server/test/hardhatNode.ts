@@ -0,0 +1,131 @@
+/**
+ * Shared setup of the server tests: a local Hardhat node and the contracts compiled in the repository root
+ *
+ *   npx hardhat compile && npx hardhat node   # repository root
+ *   npm test                                  # server/
+ *
+ * Every test deploys fresh contracts from artifacts/, so tests share the node but no state.
+ * Chain time only moves through increaseTime, like evm_increaseTime in the Hardhat tests.
+ */
+
+import { readFileSync } from "node:fs";
+import { AbiCoder, Contract, ContractFactory, JsonRpcProvider, Wallet, getBytes, hexlify, keccak256, randomBytes, solidityPackedKeccak256 } from "ethers";
+import type { RetryOptions } from "../keeper/index.js";
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const HARDHAT_CHAIN_ID = 31337n;
+
+// Hardhat accounts #0 (deployer and admin) and #1 of the "test test ... junk" mnemonic
+const HARDHAT_KEYS = [
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+];
+
+// Same addresses as test/helpers/fhevm.ts: where FHEVMConfig expects the coprocessor contracts
+const FHEVM_MOCKS = {
+  MockACL: "0x687820221192C5B662b25367F70076A37bc79b6c",
+  MockFHEVMExecutor: "0x848B0066793BcC60346Da1F49049357399B8D595",
+  MockKMSVerifier: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+  MockInputVerifier: "0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4",
+  MockDecryptionOracle: "0xa02Cda4Ca3a71D7C46997716F4283aa851C28812",
+} as const;
+
+// FheType discriminants (byte 30 of a handle)
+export const FheType = {
+  Uint8: 2,
+  Uint16: 3,
+  Uint64: 5,
+} as const;
+
+export const TEST_RETRY: RetryOptions = {
+  maxAttempts: 2,
+  backoffMs: 10,
+  feeBumpPercent: 20,
+  confirmTimeoutMs: 10_000,
+};
+
+export interface HardhatNode {
+  provider: JsonRpcProvider;
+  admin: Wallet;
+  player: Wallet;
+}
+
+/**
+ * Connect to the node; fails fast on anything but a Hardhat chain, whose state the tests change
+ */
+export async function connectHardhatNode(): Promise<HardhatNode> {
+  // No response cache, as in keeper.ts: chain time moves between calls
+  const provider = new JsonRpcProvider(RPC_URL, undefined, { cacheTimeout: -1 });
+  const { chainId } = await provider.getNetwork();
+  if (chainId !== HARDHAT_CHAIN_ID) {
+    throw new Error(`${RPC_URL} is chain ${chainId}; the server tests need a Hardhat node (npx hardhat node)`);
+  }
+  return {
+    provider,
+    admin: new Wallet(HARDHAT_KEYS[0]!, provider),
+    player: new Wallet(HARDHAT_KEYS[1]!, provider),
+  };
+}
+
+function readArtifact(source: string, name: string): { abi: any[]; bytecode: string; deployedBytecode: string } {
+  const path = new URL(`../../artifacts/contracts/${source}/${name}.json`, import.meta.url);
+  return JSON.parse(readFileSync(path, "utf8"));
+}
+
+/**
+ * Deploy contracts/<name>.sol from the root artifacts
+ */
+export async function deploy(name: "ShadowMerchants" | "MarketAuction", signer: Wallet, ...args: unknown[]): Promise<Contract> {
+  const artifact = readArtifact(`${name}.sol`, name);
+  const contract = await new ContractFactory(artifact.abi, artifact.bytecode, signer).deploy(...args);
+  await contract.waitForDeployment();
+  return contract as Contract;
+}
+
+/**
+ * Move chain time forward and mine a block at it, so the keepers see the new timestamp
+ */
+export async function increaseTime(provider: JsonRpcProvider, seconds: number): Promise<void> {
+  await provider.send("evm_increaseTime", [seconds]);
+  await provider.send("evm_mine", []);
+}
+
+export async function installMockFHEVM(provider: JsonRpcProvider): Promise<void> {
+  for (const [name, address] of Object.entries(FHEVM_MOCKS)) {
+    await provider.send("hardhat_setCode", [address, readArtifact(`mocks/${name}.sol`, name).deployedBytecode]);
+  }
+}
+
+/**
+ * Remove the mocks again: contracts fall back to plaintext, and FHE calls on existing handles revert
+ */
+export async function uninstallMockFHEVM(provider: JsonRpcProvider): Promise<void> {
+  for (const address of Object.values(FHEVM_MOCKS)) {
+    await provider.send("hardhat_setCode", [address, "0x"]);
+  }
+}
+
+/**
+ * Mock encrypted input for `contractAddress`, as createEncryptedInput in test/helpers/fhevm.ts builds it
+ */
+export function encryptInput(
+  contractAddress: string,
+  userAddress: string,
+  inputs: Array<[fheType: number, value: bigint]>
+): { handles: string[]; inputProof: string } {
+  const types = inputs.map(([fheType]) => fheType);
+  const inputProof = AbiCoder.defaultAbiCoder().encode(
+    ["address", "address", "uint8[]", "uint256[]", "bytes32"],
+    [contractAddress, userAddress, types, inputs.map(([, value]) => value), hexlify(randomBytes(32))]
+  );
+  const proofHash = keccak256(inputProof);
+
+  const handles = types.map((fheType, index) => {
+    const handle = getBytes(solidityPackedKeccak256(["bytes32", "uint8"], [proofHash, index]));
+    handle[21] = index;
+    handle[30] = fheType;
+    handle[31] = 0;
+    return hexlify(handle);
+  });
+  return { handles, inputProof };
+}
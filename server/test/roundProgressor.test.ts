@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { ZeroHash } from "ethers";
+import type { Contract, Wallet } from "ethers";
+import { RoundProgressionKeeper } from "../keeper/index.js";
+import {
+  FheType,
+  TEST_RETRY,
+  connectHardhatNode,
+  deploy,
+  encryptInput,
+  increaseTime,
+  installMockFHEVM,
+  uninstallMockFHEVM,
+} from "./hardhatNode.js";
+import type { HardhatNode } from "./hardhatNode.js";
+
+const ROUND_DURATION = 60;
+
+describe("RoundProgressionKeeper", () => {
+  let node: HardhatNode;
+
+  before(async () => {
+    node = await connectHardhatNode();
+  });
+
+  async function startKeeper(game: Contract): Promise<RoundProgressionKeeper> {
+    const keeper = new RoundProgressionKeeper(await game.getAddress(), node.admin, { retry: TEST_RETRY });
+    await keeper.init();
+    return keeper;
+  }
+
+  async function createGame(game: Contract, maxRounds: number): Promise<void> {
+    await (await game.getFunction("createGame")(0, ROUND_DURATION, maxRounds)).wait();
+  }
+
+  async function joinPlaintext(game: Contract, player: Wallet, gameId: number): Promise<void> {
+    const join = game.connect(player).getFunction("joinGame");
+    await (await join(gameId, ZeroHash, "0x", ZeroHash, "0x", ZeroHash, "0x")).wait();
+  }
+
+  const roundOf = async (game: Contract, gameId: number) =>
+    Number((await game.getFunction("getGameInfo")(gameId)).currentRound);
+
+  it("progresses a game once its round is over and finalizes it after the last round", async () => {
+    const game = await deploy("ShadowMerchants", node.admin);
+    await createGame(game, 2);
+    await joinPlaintext(game, node.player, 1);
+    const keeper = await startKeeper(game);
+
+    const early = await keeper.runOnce();
+    assert.equal(early.error, null);
+    assert.deepEqual(early.transactions, []);
+
+    await increaseTime(node.provider, ROUND_DURATION);
+    const progressed = await keeper.runOnce();
+    assert.equal(progressed.error, null);
+    assert.equal(progressed.transactions.length, 1);
+    assert.equal(await roundOf(game, 1), 2);
+    assert.equal(keeper.status().roundsProgressed, 1);
+    assert.equal(keeper.status().games[0]?.currentRound, 2);
+
+    await increaseTime(node.provider, ROUND_DURATION);
+    await keeper.runOnce();
+    assert.equal(keeper.status().gamesFinalized, 1);
+    assert.deepEqual(keeper.status().games, []);
+    assert.equal((await game.getFunction("getGameInfo")(1)).winner, node.player.address);
+  });
+
+  it("keeps progressing the other games when one game's call reverts", async () => {
+    const game = await deploy("ShadowMerchants", node.admin);
+    const gameAddress = await game.getAddress();
+
+    // Game 1 has a single round and an encrypted player: once the mocks are gone, finalizing it
+    // (the encrypted winner arg-max) reverts
+    await installMockFHEVM(node.provider);
+    try {
+      await createGame(game, 1);
+      const { handles, inputProof } = encryptInput(gameAddress, node.player.address, [
+        [FheType.Uint64, 1000n],
+        [FheType.Uint16, 100n],
+        [FheType.Uint8, 100n],
+      ]);
+      const join = game.connect(node.player).getFunction("joinGame");
+      await (await join(1, handles[0], inputProof, handles[1], inputProof, handles[2], inputProof)).wait();
+    } finally {
+      await uninstallMockFHEVM(node.provider);
+    }
+    await createGame(game, 3);
+    await joinPlaintext(game, node.admin, 2);
+    const keeper = await startKeeper(game);
+
+    await increaseTime(node.provider, ROUND_DURATION);
+    const run = await keeper.runOnce();
+    assert.match(run.error ?? "", /^game 1: /);
+    assert.equal(run.transactions.length, 1);
+    assert.equal(await roundOf(game, 1), 1);
+    assert.equal(await roundOf(game, 2), 2);
+    assert.equal(keeper.status().failures, 1);
+  });
+});
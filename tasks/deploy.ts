@@ -0,0 +1,240 @@
+import { ZeroAddress, ethers } from "ethers";
+import type { BaseContract, Signer } from "ethers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  InputVerificationMock__factory,
+  MarketAuction__factory,
+  ShadowMerchants__factory,
+} from "../typechain-types";
+import { abiHash, loadDeployment, saveDeployment, verifyDeployment } from "../scripts/deployments";
+import type { ContractDeployment, Deployment } from "../scripts/deployments";
+import { assertNoPlaintextSecrets } from "./preflight";
+import { SIGNER_KINDS, resolveSigner } from "./signers";
+
+/**
+ * shadow:deploy / shadow:verify
+ *
+ *   npx hardhat shadow:deploy --network sepolia --signer keystore --keystore keystores/deployer.json
+ *   npx hardhat shadow:verify --network sepolia [--etherscan]
+ *
+ * Deploy runs the plaintext-secret pre-flight, deploys ShadowMerchants and MarketAuction
+ * (plus InputVerificationMock on request), links them, writes deployments/<network>.json
+ * and then runs the same checks as shadow:verify against the fresh manifest.
+ */
+
+const LOCAL_CHAIN_ID = 31337;
+
+interface DeployArgs {
+  signer?: string;
+  keystore?: string;
+  signerUrl?: string;
+  signerAddress?: string;
+  inputVerification?: string;
+  inputVerificationMock: boolean;
+  coprocessor?: string;
+}
+
+interface VerifyArgs {
+  etherscan: boolean;
+}
+
+/**
+ * Manifest entry for a freshly deployed contract; the code hash is read back from the chain
+ */
+async function describeDeployment(
+  hre: HardhatRuntimeEnvironment,
+  contract: BaseContract,
+  constructorArgs: unknown[]
+): Promise<ContractDeployment> {
+  const receipt = await contract.deploymentTransaction()?.wait();
+  if (!receipt) throw new Error("Deployment transaction not found");
+  const address = await contract.getAddress();
+  return {
+    address,
+    blockNumber: receipt.blockNumber,
+    transactionHash: receipt.hash,
+    constructorArgs,
+    abiHash: abiHash(contract.interface),
+    codeHash: ethers.keccak256(await hre.ethers.provider.getCode(address)),
+  };
+}
+
+async function deployContracts(hre: HardhatRuntimeEnvironment, deployer: Signer, args: DeployArgs): Promise<Deployment> {
+  const deployerAddress = await deployer.getAddress();
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  console.log(`Deploying FHE Game contracts to ${hre.network.name} (chain ${chainId}) from ${deployerAddress}`);
+
+  // InputVerification address - address(0) for direct FHE mode. --input-verification points
+  // at an existing gateway contract; --input-verification-mock deploys InputVerificationMock,
+  // answered by the proof verifier daemon (server/coprocessor.ts) from the --coprocessor account
+  let inputVerificationAddress = args.inputVerification ?? ZeroAddress;
+  let inputVerificationDeployment: ContractDeployment | undefined;
+  if (args.inputVerificationMock) {
+    const coprocessor = args.coprocessor ?? deployerAddress;
+    const mockContract = await new InputVerificationMock__factory(deployer).deploy(coprocessor);
+    await mockContract.waitForDeployment();
+    inputVerificationAddress = await mockContract.getAddress();
+    inputVerificationDeployment = await describeDeployment(hre, mockContract, [coprocessor]);
+    console.log("InputVerificationMock deployed to:", inputVerificationAddress);
+    console.log("  answered by coprocessor:", coprocessor);
+  }
+  const useGateway = inputVerificationAddress !== ZeroAddress;
+  console.log(useGateway
+    ? `Using Gateway mode (async proof verification): ${inputVerificationAddress}`
+    : "Using Direct FHE mode (no gateway verification)");
+
+  const shadowContract = await new ShadowMerchants__factory(deployer).deploy();
+  await shadowContract.waitForDeployment();
+  const shadowAddress = await shadowContract.getAddress();
+  console.log("\nShadowMerchants deployed to:", shadowAddress);
+
+  const auctionContract = await new MarketAuction__factory(deployer).deploy(inputVerificationAddress);
+  await auctionContract.waitForDeployment();
+  const auctionAddress = await auctionContract.getAddress();
+  console.log("MarketAuction deployed to:", auctionAddress);
+
+  // Claimed wins debit gold and credit inventory in ShadowMerchants
+  await (await shadowContract.grantAuctionRole(auctionAddress)).wait();
+  await (await auctionContract.setShadowMerchants(shadowAddress)).wait();
+  console.log("Linked MarketAuction -> ShadowMerchants (AUCTION_ROLE granted)");
+
+  return {
+    network: hre.network.name,
+    chainId,
+    deployer: deployerAddress,
+    deployedAt: new Date().toISOString(),
+    gatewayMode: useGateway ? "gateway" : "direct",
+    contracts: {
+      ShadowMerchants: await describeDeployment(hre, shadowContract, []),
+      MarketAuction: await describeDeployment(hre, auctionContract, [inputVerificationAddress]),
+      ...(inputVerificationDeployment ? { InputVerification: inputVerificationDeployment } : {}),
+    },
+  };
+}
+
+/**
+ * Post-deploy checks of deployments/<network>.json against the chain
+ * @throws On the first failed check
+ */
+async function verifyContracts(hre: HardhatRuntimeEnvironment, args: VerifyArgs): Promise<void> {
+  const deployment = loadDeployment(hre.network.name);
+  const { ShadowMerchants, MarketAuction, InputVerification } = deployment.contracts;
+  const check = (ok: boolean, label: string) => {
+    if (!ok) throw new Error(`Verification failed: ${label}`);
+    console.log(`✅ ${label}`);
+  };
+
+  await verifyDeployment(hre.ethers.provider, deployment);
+  console.log(`✅ Bytecode matches deployments/${deployment.network}.json (chain ${deployment.chainId})`);
+
+  const game = ShadowMerchants__factory.connect(ShadowMerchants.address, hre.ethers.provider);
+  const auction = MarketAuction__factory.connect(MarketAuction.address, hre.ethers.provider);
+
+  check(await game.hasRole(await game.AUCTION_ROLE(), MarketAuction.address), "MarketAuction holds AUCTION_ROLE on ShadowMerchants");
+  check((await auction.shadowMerchants()) === ShadowMerchants.address, "MarketAuction settles wins in ShadowMerchants");
+
+  const expectedGateway = MarketAuction.constructorArgs[0] as string;
+  check(
+    (await auction.inputVerificationAddress()) === expectedGateway &&
+      (await auction.useInputVerificationGateway()) === (deployment.gatewayMode === "gateway"),
+    `MarketAuction proof mode is ${deployment.gatewayMode}`
+  );
+  if (InputVerification) {
+    check(InputVerification.address === expectedGateway, "MarketAuction uses the deployed InputVerificationMock");
+    const gateway = InputVerificationMock__factory.connect(InputVerification.address, hre.ethers.provider);
+    const coprocessor = InputVerification.constructorArgs[0] as string;
+    check((await gateway.coprocessor()) === coprocessor, `InputVerificationMock answers only to coprocessor ${coprocessor}`);
+  }
+
+  const adminRole = await game.DEFAULT_ADMIN_ROLE();
+  check(
+    (await game.hasRole(adminRole, deployment.deployer)) && (await auction.hasRole(adminRole, deployment.deployer)),
+    `Deployer ${deployment.deployer} is admin of both contracts`
+  );
+
+  // Read paths the client relies on
+  await auction.getActiveAuctions();
+  await auction.getAuctionStats();
+  console.log("✅ MarketAuction views answer (getActiveAuctions, getAuctionStats)");
+
+  if (!args.etherscan) return;
+  for (const [name, contract] of Object.entries(deployment.contracts)) {
+    try {
+      await hre.run("verify:verify", { address: contract.address, constructorArguments: contract.constructorArgs });
+      console.log(`✅ ${name} source verified on Etherscan`);
+    } catch (error) {
+      if (!(error instanceof Error) || !/already verified/i.test(error.message)) throw error;
+      console.log(`✅ ${name} source already verified on Etherscan`);
+    }
+  }
+}
+
+task("shadow:deploy", "Deploy ShadowMerchants + MarketAuction, write deployments/<network>.json and verify it")
+  .addOptionalParam("signer", `Deployer signer: ${SIGNER_KINDS.join("|")} (default: DEPLOYER_SIGNER, node on the local chain)`)
+  .addOptionalParam("keystore", "Encrypted JSON keystore for --signer keystore (default: DEPLOYER_KEYSTORE)")
+  .addOptionalParam("signerUrl", "JSON-RPC endpoint for --signer external (default: DEPLOYER_SIGNER_URL)")
+  .addOptionalParam("signerAddress", "Account of the external signer (default: its first account)")
+  .addOptionalParam(
+    "inputVerification",
+    "Existing InputVerification gateway contract (default: INPUT_VERIFICATION_ADDRESS, direct mode)",
+    process.env.INPUT_VERIFICATION_ADDRESS || undefined,
+    types.string
+  )
+  .addFlag("inputVerificationMock", "Deploy InputVerificationMock and use gateway mode (DEPLOY_INPUT_VERIFICATION_MOCK=true)")
+  .addOptionalParam(
+    "coprocessor",
+    "Only account allowed to answer InputVerificationMock proofs (default: COPROCESSOR_ADDRESS, else the deployer)",
+    process.env.COPROCESSOR_ADDRESS || undefined,
+    types.string
+  )
+  .setAction(async (args: DeployArgs, hre) => {
+    assertNoPlaintextSecrets();
+
+    const deployer = await resolveSigner(hre, {
+      kind: args.signer,
+      keystore: args.keystore,
+      signerUrl: args.signerUrl,
+      signerAddress: args.signerAddress,
+    });
+    const deployment = await deployContracts(hre, deployer, {
+      ...args,
+      inputVerificationMock: args.inputVerificationMock || process.env.DEPLOY_INPUT_VERIFICATION_MOCK === "true",
+    });
+    console.log("Deployment manifest written to", saveDeployment(deployment));
+
+    console.log("\n" + "=".repeat(60));
+    console.log("POST-DEPLOY VERIFICATION");
+    console.log("=".repeat(60));
+    const etherscan = deployment.chainId !== LOCAL_CHAIN_ID && Boolean(process.env.ETHERSCAN_API_KEY);
+    try {
+      await verifyContracts(hre, { etherscan });
+    } catch (error) {
+      console.error(`\n❌ The contracts are deployed and recorded, but verification failed.`);
+      console.error(`   Re-run it with: npx hardhat shadow:verify --network ${hre.network.name}${etherscan ? " --etherscan" : ""}`);
+      throw error;
+    }
+
+    console.log("\n" + "=".repeat(60));
+    console.log("DEPLOYMENT SUMMARY");
+    console.log("=".repeat(60));
+    console.log(`Network: ${deployment.network} (Chain ID: ${deployment.chainId})`);
+    console.log(deployment.gatewayMode === "gateway"
+      ? "Mode: Gateway (proofs verified via InputVerification)"
+      : "Mode: Direct FHE (proof decrypted in contract)");
+    for (const [name, contract] of Object.entries(deployment.contracts)) {
+      console.log(`${name}: ${contract.address}`);
+    }
+    console.log("=".repeat(60));
+
+    if (deployment.gatewayMode === "gateway") {
+      console.log("\nStart the proof verifier daemon (with the coprocessor account's COPROCESSOR_PRIVATE_KEY) so gateway bids get answered:");
+      console.log(`   cd server && DEPLOYMENT_NETWORK=${deployment.network} npm run coprocessor`);
+    }
+  });
+
+task("shadow:verify", "Check deployments/<network>.json against the chain: bytecode, links, roles, proof mode")
+  .addFlag("etherscan", "Also verify the sources on Etherscan (needs ETHERSCAN_API_KEY)")
+  .setAction(async (args: VerifyArgs, hre) => {
+    await verifyContracts(hre, args);
+  });
@@ -0,0 +1,4 @@
+// Hardhat tasks, registered by hardhat.config.ts
+import "./preflight";
+import "./deploy";
+import "./keystore";
@@ -0,0 +1,31 @@
+import fs from "fs";
+import path from "path";
+import { Wallet } from "ethers";
+import { task } from "hardhat/config";
+import { promptHidden } from "./signers";
+
+/**
+ * shadow:keystore: encrypt a deployer key into a JSON keystore for `shadow:deploy --signer keystore`
+ *
+ * The key and the password are typed at hidden prompts, so neither lands in shell history.
+ * keystores/ is git-ignored; the pre-flight scan only flags plaintext keys, not keystores.
+ */
+
+task("shadow:keystore", "Encrypt a private key into a JSON keystore (prompts for the key and a password)")
+  .addOptionalParam("out", "Keystore file to write", path.join("keystores", "deployer.json"))
+  .setAction(async ({ out }: { out: string }) => {
+    if (fs.existsSync(out)) throw new Error(`${out} already exists; pick another --out or delete it first`);
+
+    const key = (await promptHidden("Private key: ")).trim();
+    const wallet = new Wallet(key.startsWith("0x") ? key : `0x${key}`);
+
+    const password = await promptHidden("Keystore password: ");
+    if (password.length < 8) throw new Error("Use a password of at least 8 characters");
+    if ((await promptHidden("Repeat password: ")) !== password) throw new Error("Passwords do not match");
+
+    console.log("🔐 Encrypting (scrypt, takes a few seconds)...");
+    fs.mkdirSync(path.dirname(out), { recursive: true });
+    fs.writeFileSync(out, await wallet.encrypt(password), { mode: 0o600 });
+    console.log(`✅ Keystore for ${wallet.address} written to ${out}`);
+    console.log(`   Deploy with: npx hardhat shadow:deploy --network sepolia --signer keystore --keystore ${out}`);
+  });
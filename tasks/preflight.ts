@@ -0,0 +1,144 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import { HDNodeWallet } from "ethers";
+import { task } from "hardhat/config";
+
+/**
+ * Pre-flight secret scan: refuse to deploy from a tree that contains a plaintext key
+ *
+ * Scans every tracked file plus untracked files that are not git-ignored (what the next
+ * `git add -A` would pick up). Flags:
+ * - 64-hex-digit values on (or right after) lines that talk about keys, wallets or signers
+ * - mnemonics other than the public Hardhat test phrase
+ * - RPC URLs carrying a provider API key (Alchemy /v2/<key>, Infura /v3/<key>)
+ *
+ * The well-known Hardhat accounts (derived from the test mnemonic) are public and allowed.
+ */
+
+export interface SecretFinding {
+  file: string; // relative to the repository root
+  line: number;
+  kind: "private key" | "mnemonic" | "RPC credential";
+  excerpt: string; // the line with the secret masked
+}
+
+const ROOT = path.join(__dirname, "..");
+const HARDHAT_MNEMONIC = "test test test test test test test test test test test junk";
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// Generated or vendored content: hashes everywhere, never hand-written secrets
+const SKIPPED = [/^typechain-types\//, /^artifacts\//, /^cache\//, /(^|\/)node_modules\//, /(^|\/)package-lock\.json$/];
+
+const HEX_64 = /\b(?:0x)?[0-9a-fA-F]{64}\b/g;
+const KEY_CONTEXT = /priv(?:ate)?[_ -]?key|secret|signingkey|wallet\s*\(|signer/i;
+const MNEMONIC = /(?:mnemonic|phrase)["'`]?\s*[:=(]\s*["'`]([a-z]+(?:\s+[a-z]+){11,23})["'`]/i;
+const RPC_CREDENTIALS = [
+  /alchemy(?:api)?\.(?:com|io)\/v2\/([A-Za-z0-9_-]{16,})/,
+  /infura\.io\/v3\/([0-9a-fA-F]{32})/,
+];
+
+let publicKeys: Set<string> | undefined;
+
+/**
+ * Private keys of the default Hardhat accounts, lower-case without 0x
+ */
+function hardhatKeys(): Set<string> {
+  if (!publicKeys) {
+    publicKeys = new Set();
+    for (let index = 0; index < 20; index++) {
+      const wallet = HDNodeWallet.fromPhrase(HARDHAT_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`);
+      publicKeys.add(wallet.privateKey.slice(2).toLowerCase());
+    }
+  }
+  return publicKeys;
+}
+
+function mask(line: string, secret: string): string {
+  return line.replace(secret, `${secret.slice(0, 4)}…${secret.slice(-4)}`).trim().slice(0, 160);
+}
+
+function candidateFiles(root: string): string[] {
+  const output = execFileSync("git", ["ls-files", "-z", "--cached", "--others", "--exclude-standard"], {
+    cwd: root,
+    encoding: "utf8",
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return [...new Set(output.split("\0").filter(Boolean))].filter((file) => !SKIPPED.some((skip) => skip.test(file)));
+}
+
+/**
+ * Findings in one file's content
+ */
+export function scanText(file: string, text: string): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const lines = text.split(/\r?\n/);
+  lines.forEach((content, index) => {
+    const line = index + 1;
+
+    // `const DEPLOYER_KEY =` on one line, the value on the next
+    if (KEY_CONTEXT.test(content) || KEY_CONTEXT.test(lines[index - 1] ?? "")) {
+      for (const [match] of content.matchAll(HEX_64)) {
+        if (!hardhatKeys().has(match.replace(/^0x/, "").toLowerCase())) {
+          findings.push({ file, line, kind: "private key", excerpt: mask(content, match) });
+        }
+      }
+    }
+
+    const mnemonic = MNEMONIC.exec(content)?.[1];
+    if (mnemonic && mnemonic.trim().replace(/\s+/g, " ") !== HARDHAT_MNEMONIC) {
+      findings.push({ file, line, kind: "mnemonic", excerpt: mask(content, mnemonic) });
+    }
+
+    for (const pattern of RPC_CREDENTIALS) {
+      const key = pattern.exec(content)?.[1];
+      if (key && !/^YOUR_/i.test(key)) {
+        findings.push({ file, line, kind: "RPC credential", excerpt: mask(content, key) });
+      }
+    }
+  });
+  return findings;
+}
+
+export function findPlaintextSecrets(root: string = ROOT): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  for (const file of candidateFiles(root)) {
+    const absolute = path.join(root, file);
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(absolute);
+    } catch {
+      continue; // deleted in the working tree
+    }
+    if (!stat.isFile() || stat.size > MAX_FILE_BYTES) continue;
+
+    const buffer = fs.readFileSync(absolute);
+    if (buffer.includes(0)) continue; // binary
+    findings.push(...scanText(file, buffer.toString("utf8")));
+  }
+  return findings;
+}
+
+/**
+ * @throws When the repository contains a plaintext secret
+ */
+export function assertNoPlaintextSecrets(root: string = ROOT): void {
+  const findings = findPlaintextSecrets(root);
+  if (findings.length === 0) {
+    console.log("🔒 Pre-flight: no plaintext keys in the repository");
+    return;
+  }
+
+  console.error(`❌ Pre-flight: ${findings.length} plaintext secret(s) found`);
+  for (const finding of findings) {
+    console.error(`   ${finding.file}:${finding.line}  ${finding.kind}  ${finding.excerpt}`);
+  }
+  console.error("   Move them to an encrypted keystore (npx hardhat shadow:keystore) or the environment,");
+  console.error("   and rotate anything that was ever committed.");
+  throw new Error("Refusing to deploy: plaintext secrets in the repository");
+}
+
+task("shadow:preflight", "Refuse to continue if the repository contains a plaintext key or RPC credential")
+  .setAction(async () => {
+    assertNoPlaintextSecrets();
+  });
@@ -0,0 +1,209 @@
+import fs from "fs";
+import {
+  AbstractSigner,
+  JsonRpcProvider,
+  Network,
+  TypedDataEncoder,
+  Wallet,
+  getAddress,
+  hexlify,
+  toUtf8Bytes,
+} from "ethers";
+import type {
+  Provider,
+  Signer,
+  TransactionRequest,
+  TypedDataDomain,
+  TypedDataField,
+} from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * Deployer signers, none of which need a private key in the repository or in hardhat.config.ts
+ *
+ * - keystore: encrypted JSON keystore (ethers / geth / `npx hardhat shadow:keystore`), password
+ *   from DEPLOYER_KEYSTORE_PASSWORD or typed at a hidden prompt
+ * - env:      DEPLOYER_PRIVATE_KEY (falls back to PRIVATE_KEY)
+ * - external: a separate signer process speaking JSON-RPC (Clef, Frame, a hardware wallet
+ *   bridge...), asked for eth_signTransaction; the signed transaction is broadcast here
+ * - node:     the node's first unlocked account, only on the local chain (31337)
+ */
+
+export type SignerKind = "keystore" | "env" | "external" | "node";
+
+export const SIGNER_KINDS: SignerKind[] = ["keystore", "env", "external", "node"];
+
+export interface SignerOptions {
+  kind?: string | undefined;          // default: DEPLOYER_SIGNER, then "node" on the local chain
+  keystore?: string | undefined;      // default: DEPLOYER_KEYSTORE
+  signerUrl?: string | undefined;     // default: DEPLOYER_SIGNER_URL
+  signerAddress?: string | undefined; // default: DEPLOYER_SIGNER_ADDRESS, then the signer's first account
+}
+
+const LOCAL_CHAIN_ID = 31337;
+
+/**
+ * Read a line from the terminal without echoing it
+ * @throws When stdin is not a terminal (CI): use the matching env var there
+ */
+export function promptHidden(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error(`${question.replace(/:\s*$/, "")}: no terminal to prompt on`));
+  }
+
+  return new Promise((resolve) => {
+    let value = "";
+    const done = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write("\n");
+      resolve(value);
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n" || char === "\u0004") return done();
+        if (char === "\u0003") process.exit(130); // Ctrl+C
+        value = char === "\u007f" ? value.slice(0, -1) : value + char;
+      }
+    };
+
+    process.stderr.write(question);
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf8");
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
+
+/**
+ * JSON-RPC client for a signer process: the chain id comes from the chain provider (the
+ * signer is never asked for it) and requests are not batched, which simple signers reject
+ */
+function signerRpc(endpoint: string, network: Network): JsonRpcProvider {
+  return new JsonRpcProvider(endpoint, network, { staticNetwork: network, batchMaxCount: 1 });
+}
+
+/**
+ * Signer that delegates every signature to an external JSON-RPC signer process
+ *
+ * Nonce, gas and fees are filled in against the chain provider, so the external process
+ * only has to sign (eth_signTransaction), never to know the chain.
+ */
+export class ExternalSigner extends AbstractSigner {
+  readonly address: string;
+  readonly endpoint: string;
+  #rpc: JsonRpcProvider | undefined;
+
+  constructor(endpoint: string, address: string, provider: Provider | null = null) {
+    super(provider);
+    this.endpoint = endpoint;
+    this.address = getAddress(address);
+  }
+
+  /**
+   * Connect to the signer process and use its first account unless an address is given
+   */
+  static async connect(endpoint: string, provider: Provider, address?: string): Promise<ExternalSigner> {
+    let account = address;
+    if (!account) {
+      const accounts: string[] = await signerRpc(endpoint, await provider.getNetwork()).send("eth_accounts", []);
+      if (accounts.length === 0) {
+        throw new Error(`External signer ${endpoint} exposes no accounts (unlock one or pass --signer-address)`);
+      }
+      account = accounts[0]!;
+    }
+    return new ExternalSigner(endpoint, account, provider);
+  }
+
+  private async rpc(): Promise<JsonRpcProvider> {
+    if (!this.#rpc) {
+      const network = this.provider ? await this.provider.getNetwork() : Network.from(LOCAL_CHAIN_ID);
+      this.#rpc = signerRpc(this.endpoint, network);
+    }
+    return this.#rpc;
+  }
+
+  override async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  override connect(provider: Provider | null): ExternalSigner {
+    return new ExternalSigner(this.endpoint, this.address, provider);
+  }
+
+  override async signTransaction(tx: TransactionRequest): Promise<string> {
+    const rpc = await this.rpc();
+    // tx is a populated Transaction: read through its getters, never spread it
+    const request = { ...rpc.getRpcTransaction(tx), from: this.address.toLowerCase() };
+
+    // Geth/Clef answer { raw, tx }, most other signers the raw transaction itself
+    const result: string | { raw: string } = await rpc.send("eth_signTransaction", [request]);
+    return typeof result === "string" ? result : result.raw;
+  }
+
+  override async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === "string" ? toUtf8Bytes(message) : message;
+    return (await this.rpc()).send("personal_sign", [hexlify(data), this.address]);
+  }
+
+  override async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const payload = TypedDataEncoder.getPayload(domain, types, value);
+    return (await this.rpc()).send("eth_signTypedData_v4", [this.address, JSON.stringify(payload)]);
+  }
+}
+
+async function keystoreSigner(file: string | undefined, provider: Provider): Promise<Signer> {
+  if (!file) throw new Error("Keystore signer: pass --keystore <file> or set DEPLOYER_KEYSTORE");
+  if (!fs.existsSync(file)) throw new Error(`Keystore signer: ${file} not found`);
+
+  const json = fs.readFileSync(file, "utf8");
+  const password = process.env.DEPLOYER_KEYSTORE_PASSWORD ?? (await promptHidden(`Password for ${file}: `));
+  const wallet = await Wallet.fromEncryptedJson(json, password);
+  return wallet.connect(provider);
+}
+
+function envSigner(provider: Provider): Signer {
+  const key = process.env.DEPLOYER_PRIVATE_KEY || process.env.PRIVATE_KEY;
+  if (!key) throw new Error("Env signer: set DEPLOYER_PRIVATE_KEY (or PRIVATE_KEY)");
+  return new Wallet(key, provider);
+}
+
+/**
+ * Deployer signer for the selected network
+ * @throws When no signer is configured, or the node signer is used on a live network
+ */
+export async function resolveSigner(hre: HardhatRuntimeEnvironment, options: SignerOptions = {}): Promise<Signer> {
+  const provider = hre.ethers.provider;
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const kind = options.kind ?? process.env.DEPLOYER_SIGNER ?? (chainId === LOCAL_CHAIN_ID ? "node" : undefined);
+
+  switch (kind) {
+    case "keystore":
+      return keystoreSigner(options.keystore ?? process.env.DEPLOYER_KEYSTORE, provider);
+    case "env":
+      return envSigner(provider);
+    case "external": {
+      const url = options.signerUrl ?? process.env.DEPLOYER_SIGNER_URL;
+      if (!url) throw new Error("External signer: pass --signer-url or set DEPLOYER_SIGNER_URL");
+      return ExternalSigner.connect(url, provider, options.signerAddress ?? process.env.DEPLOYER_SIGNER_ADDRESS);
+    }
+    case "node": {
+      if (chainId !== LOCAL_CHAIN_ID) {
+        throw new Error(`The node signer only runs against the local chain (${LOCAL_CHAIN_ID}), not ${chainId}`);
+      }
+      const [account] = await hre.ethers.getSigners();
+      if (!account) throw new Error("The local node exposes no accounts");
+      return account;
+    }
+    case undefined:
+      throw new Error(`Choose a deployer signer for chain ${chainId}: --signer ${SIGNER_KINDS.join("|")}`);
+    default:
+      throw new Error(`Unknown signer "${kind}" (expected ${SIGNER_KINDS.join("|")})`);
+  }
+}
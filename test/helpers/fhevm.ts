@@ -0,0 +1,186 @@
+import { artifacts, ethers, network } from "hardhat";
+import type { Signer } from "ethers";
+
+/**
+ * Mock FHEVM for Hardhat tests
+ *
+ * Installs contracts/mocks at the Sepolia coprocessor addresses that FHEVMConfig points to,
+ * so FHE.* calls in ShadowMerchants / MarketAuction run against plaintext-backed handles.
+ *
+ *   await installMockFHEVM();
+ *   const input = createEncryptedInput(contractAddress, user.address).add64(1000);
+ *   const { handles, inputProof } = await input.encrypt();
+ *   ...
+ *   await fulfillDecryptionRequests();   // play the relayer for FHE.requestDecryption
+ *   const value = await decrypt(handle);  // read any handle back
+ *   await isAllowed(handle, user.address); // ACL: could this account decrypt it?
+ */
+
+export const FHEVM_ADDRESSES = {
+  MockACL: "0x687820221192C5B662b25367F70076A37bc79b6c",
+  MockFHEVMExecutor: "0x848B0066793BcC60346Da1F49049357399B8D595",
+  MockKMSVerifier: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+  MockInputVerifier: "0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4",
+  MockDecryptionOracle: "0xa02Cda4Ca3a71D7C46997716F4283aa851C28812",
+} as const;
+
+// FheType discriminants (byte 30 of a handle)
+export const FheType = {
+  Bool: 0,
+  Uint8: 2,
+  Uint16: 3,
+  Uint32: 4,
+  Uint64: 5,
+  Uint160: 7,
+} as const;
+
+const processedDecryptionRequests = new Set<string>();
+
+export async function installMockFHEVM(): Promise<void> {
+  for (const [name, address] of Object.entries(FHEVM_ADDRESSES)) {
+    const artifact = await artifacts.readArtifact(name);
+    await network.provider.send("hardhat_setCode", [address, artifact.deployedBytecode]);
+  }
+}
+
+/**
+ * Remove the mocks again so later suites see a plain Hardhat node (plaintext fallback)
+ */
+export async function uninstallMockFHEVM(): Promise<void> {
+  for (const address of Object.values(FHEVM_ADDRESSES)) {
+    await network.provider.send("hardhat_setCode", [address, "0x"]);
+  }
+}
+
+function inputHandleAt(proofHash: string, index: number, fheType: number): string {
+  const handle = ethers.getBytes(ethers.solidityPackedKeccak256(["bytes32", "uint8"], [proofHash, index]));
+  handle[21] = index;
+  handle[30] = fheType;
+  handle[31] = 0;
+  return ethers.hexlify(handle);
+}
+
+/**
+ * Builder mirroring the relayer SDK's createEncryptedInput, producing mock proofs
+ */
+export function createEncryptedInput(contractAddress: string, userAddress: string) {
+  const types: number[] = [];
+  const values: bigint[] = [];
+
+  const builder = {
+    addBool(value: boolean) {
+      types.push(FheType.Bool);
+      values.push(value ? 1n : 0n);
+      return builder;
+    },
+    add8(value: number | bigint) {
+      types.push(FheType.Uint8);
+      values.push(BigInt(value));
+      return builder;
+    },
+    add16(value: number | bigint) {
+      types.push(FheType.Uint16);
+      values.push(BigInt(value));
+      return builder;
+    },
+    add32(value: number | bigint) {
+      types.push(FheType.Uint32);
+      values.push(BigInt(value));
+      return builder;
+    },
+    add64(value: number | bigint) {
+      types.push(FheType.Uint64);
+      values.push(BigInt(value));
+      return builder;
+    },
+    addAddress(value: string) {
+      types.push(FheType.Uint160);
+      values.push(BigInt(value));
+      return builder;
+    },
+    async encrypt(): Promise<{ handles: string[]; inputProof: string }> {
+      const inputProof = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address", "address", "uint8[]", "uint256[]", "bytes32"],
+        [contractAddress, userAddress, types, values, ethers.hexlify(ethers.randomBytes(32))]
+      );
+      const proofHash = ethers.keccak256(inputProof);
+      return {
+        handles: types.map((fheType, index) => inputHandleAt(proofHash, index, fheType)),
+        inputProof,
+      };
+    },
+  };
+
+  return builder;
+}
+
+/**
+ * Read the plaintext behind a handle (test-only; the real coprocessor never exposes this)
+ */
+export async function decrypt(handle: string): Promise<bigint> {
+  const executor = await ethers.getContractAt("MockFHEVMExecutor", FHEVM_ADDRESSES.MockFHEVMExecutor);
+  return executor.plaintexts(handle);
+}
+
+/**
+ * Plaintext behind an eaddress handle
+ */
+export async function decryptAddress(handle: string): Promise<string> {
+  return ethers.getAddress(ethers.toBeHex(await decrypt(handle), 20));
+}
+
+/**
+ * Whether the ACL lets an account use (and user-decrypt) a handle, as granted by FHE.allow
+ */
+export async function isAllowed(handle: string, account: string): Promise<boolean> {
+  const acl = await ethers.getContractAt("MockACL", FHEVM_ADDRESSES.MockACL);
+  return acl.isAllowed(handle, account);
+}
+
+/**
+ * Answer every pending FHE.requestDecryption by calling the requester's callback with
+ * (requestId, cleartexts..., signatures), like the oracle relayer does
+ */
+export async function fulfillDecryptionRequests(relayer?: Signer): Promise<number> {
+  const sender = relayer ?? (await ethers.getSigners())[0]!;
+  const oracle = await ethers.getContractAt("MockDecryptionOracle", FHEVM_ADDRESSES.MockDecryptionOracle);
+  const events = await oracle.queryFilter(oracle.filters.DecryptionRequest());
+
+  let fulfilled = 0;
+  for (const event of events) {
+    const key = `${event.transactionHash}:${event.index}`;
+    if (processedDecryptionRequests.has(key)) continue;
+    processedDecryptionRequests.add(key);
+
+    const { requestID, cts, contractCaller, callbackSelector } = event.args;
+    const abiTypes = cts.map((handle: string) => {
+      const fheType = ethers.getBytes(handle)[30];
+      if (fheType === FheType.Bool) return "bool";
+      if (fheType === FheType.Uint160) return "address";
+      return "uint256";
+    });
+    const cleartexts = await Promise.all(
+      cts.map(async (handle: string, index: number) => {
+        const value = await decrypt(handle);
+        if (abiTypes[index] === "bool") return value !== 0n;
+        if (abiTypes[index] === "address") return ethers.getAddress(ethers.toBeHex(value, 20));
+        return value;
+      })
+    );
+
+    // MockKMSVerifier only needs a non-empty signature list
+    const signatures = [ethers.hexlify(new Uint8Array(65))];
+    const data = ethers.concat([
+      callbackSelector,
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", ...abiTypes, "bytes[]"],
+        [requestID, ...cleartexts, signatures]
+      ),
+    ]);
+
+    const tx = await sender.sendTransaction({ to: contractCaller, data });
+    await tx.wait();
+    fulfilled++;
+  }
+  return fulfilled;
+}
@@ -0,0 +1,237 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  FHEVM_ADDRESSES,
+  createEncryptedInput,
+  decrypt,
+  fulfillDecryptionRequests,
+  installMockFHEVM,
+  isAllowed,
+  uninstallMockFHEVM,
+} from "./helpers/fhevm";
+
+describe("MarketAuction encrypted bids (mock FHE)", function () {
+  const GOOD_TYPE_SILK = 2;
+  const RESERVE = 100;
+
+  before(async function () {
+    await installMockFHEVM();
+  });
+
+  after(async function () {
+    await uninstallMockFHEVM();
+  });
+
+  // Standalone auction contract: no ShadowMerchants escrow, bids are compared as submitted
+  async function deployEncryptedAuction() {
+    const factory = await ethers.getContractFactory("MarketAuction");
+    const auction = await factory.deploy(ethers.ZeroAddress);
+    await auction.waitForDeployment();
+
+    const auctionAddress = await auction.getAddress();
+    // createAuction verifies the reserve through an external self-call, so the auction is also the user
+    const { handles, inputProof } = await createEncryptedInput(auctionAddress, auctionAddress).add64(RESERVE).encrypt();
+    await auction.createAuction(GOOD_TYPE_SILK, handles[0], inputProof, 60);
+    const auctionId = await auction.auctionCounter();
+    return { auction, auctionId };
+  }
+
+  async function placeEncryptedBid(auction: any, bidder: any, auctionId: bigint, amount: number) {
+    const { handles, inputProof } = await createEncryptedInput(await auction.getAddress(), bidder.address)
+      .add64(amount)
+      .encrypt();
+    return auction.connect(bidder).placeBid(auctionId, handles[0], inputProof);
+  }
+
+  const highestBidOf = async (auction: any, auctionId: bigint) => decrypt((await auction.auctions(auctionId)).highestBid);
+
+  it("creates an encrypted auction with an encrypted reserve", async function () {
+    const { auction, auctionId } = await deployEncryptedAuction();
+
+    const state = await auction.auctions(auctionId);
+    expect(state.usesPlaintext).to.equal(false);
+    expect(state.reservePricePlain).to.equal(0);
+    expect(await decrypt(state.reservePrice)).to.equal(BigInt(RESERVE));
+    expect(await highestBidOf(auction, auctionId)).to.equal(0n);
+  });
+
+  it("keeps the highest encrypted bid whatever the bidding order", async function () {
+    const [, alice, bob, carol] = await ethers.getSigners();
+    const { auction, auctionId } = await deployEncryptedAuction();
+
+    await placeEncryptedBid(auction, alice, auctionId, 300);
+    expect(await highestBidOf(auction, auctionId)).to.equal(300n);
+
+    await placeEncryptedBid(auction, bob, auctionId, 500);
+    expect(await highestBidOf(auction, auctionId)).to.equal(500n);
+
+    // A lower bid does not replace the encrypted maximum
+    await placeEncryptedBid(auction, carol, auctionId, 400);
+    expect(await highestBidOf(auction, auctionId)).to.equal(500n);
+
+    // An equal bid is not higher either
+    await placeEncryptedBid(auction, alice, auctionId, 500);
+    expect(await highestBidOf(auction, auctionId)).to.equal(500n);
+
+    expect((await auction.auctions(auctionId)).participantCount).to.equal(3);
+  });
+
+  it("ignores encrypted bids below the reserve", async function () {
+    const [, alice, bob] = await ethers.getSigners();
+    const { auction, auctionId } = await deployEncryptedAuction();
+
+    await placeEncryptedBid(auction, alice, auctionId, RESERVE - 1);
+    expect(await highestBidOf(auction, auctionId)).to.equal(0n);
+
+    await placeEncryptedBid(auction, bob, auctionId, RESERVE);
+    expect(await highestBidOf(auction, auctionId)).to.equal(BigInt(RESERVE));
+  });
+
+  it("stores each bid encrypted and readable by its bidder only", async function () {
+    const [, alice, bob] = await ethers.getSigners();
+    const { auction, auctionId } = await deployEncryptedAuction();
+
+    await placeEncryptedBid(auction, alice, auctionId, 250);
+
+    const bid = await auction.bids(auctionId, alice.address);
+    expect(bid.usesPlaintext).to.equal(false);
+    expect(bid.amountPlain).to.equal(0);
+    expect(await decrypt(bid.amount)).to.equal(250n);
+    expect(await isAllowed(bid.amount, alice.address)).to.equal(true);
+    expect(await isAllowed(bid.amount, bob.address)).to.equal(false);
+  });
+
+  it("tracks the encrypted runner-up bid in second-price auctions", async function () {
+    const [, alice, bob, carol] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("MarketAuction");
+    const auction = await factory.deploy(ethers.ZeroAddress);
+    await auction.waitForDeployment();
+    const auctionAddress = await auction.getAddress();
+    const { handles, inputProof } = await createEncryptedInput(auctionAddress, auctionAddress).add64(RESERVE).encrypt();
+    await auction.createAuctionWithFormat(GOOD_TYPE_SILK, handles[0], inputProof, 60, 1);
+    const auctionId = await auction.auctionCounter();
+    const runnerUpOf = async () => decrypt((await auction.auctions(auctionId)).secondHighestBid);
+
+    // Starts at the reserve: a lone bidder pays it
+    expect(await runnerUpOf()).to.equal(BigInt(RESERVE));
+
+    await placeEncryptedBid(auction, alice, auctionId, 300);
+    expect(await runnerUpOf()).to.equal(BigInt(RESERVE));
+
+    await placeEncryptedBid(auction, bob, auctionId, 500);
+    expect(await runnerUpOf()).to.equal(300n);
+
+    // A bid between the runner-up and the leader raises the price, one below it does not
+    await placeEncryptedBid(auction, carol, auctionId, 400);
+    expect(await runnerUpOf()).to.equal(400n);
+    await placeEncryptedBid(auction, alice, auctionId, 350);
+    expect(await runnerUpOf()).to.equal(400n);
+    expect(await highestBidOf(auction, auctionId)).to.equal(500n);
+
+    // The leader cannot set their own price
+    await placeEncryptedBid(auction, bob, auctionId, 450);
+    expect(await runnerUpOf()).to.equal(400n);
+  });
+
+  it("resolves to the decrypted highest bidder, not the last one", async function () {
+    const [, alice, bob, carol] = await ethers.getSigners();
+    const { auction, auctionId } = await deployEncryptedAuction();
+
+    await placeEncryptedBid(auction, alice, auctionId, 300);
+    await placeEncryptedBid(auction, bob, auctionId, 500);
+    await placeEncryptedBid(auction, carol, auctionId, 400);
+    expect((await auction.auctions(auctionId)).currentWinner).to.equal(ethers.ZeroAddress);
+
+    await ethers.provider.send("evm_increaseTime", [61]);
+    await expect(auction.resolveAuction(auctionId)).to.emit(auction, "WinnerDecryptionRequested");
+    let stored = await auction.auctions(auctionId);
+    expect(stored.isActive).to.equal(false);
+    expect(stored.isResolved).to.equal(false);
+    expect(await auction.getActiveAuctions()).to.deep.equal([]);
+    await expect(auction.resolveAuction(auctionId))
+      .to.be.revertedWithCustomError(auction, "WinnerDecryptionInProgress");
+
+    expect(await fulfillDecryptionRequests()).to.equal(1);
+    stored = await auction.auctions(auctionId);
+    expect(stored.isResolved).to.equal(true);
+    expect(stored.resolvedWinner).to.equal(bob.address);
+    expect((await auction.bids(auctionId, bob.address)).isWinning).to.equal(true);
+    expect((await auction.bids(auctionId, carol.address)).isWinning).to.equal(false);
+
+    await expect(auction.onWinnerDecrypted(1234, alice.address, ["0x"]))
+      .to.be.revertedWithCustomError(auction, "UnknownWinnerRequest");
+  });
+
+  it("resolves without a winner when no encrypted bid met the reserve", async function () {
+    const [, alice] = await ethers.getSigners();
+    const { auction, auctionId } = await deployEncryptedAuction();
+
+    await placeEncryptedBid(auction, alice, auctionId, RESERVE - 1);
+    await expect(auction.emergencyEndAuction(auctionId)).to.emit(auction, "WinnerDecryptionRequested");
+    await fulfillDecryptionRequests();
+
+    const stored = await auction.auctions(auctionId);
+    expect(stored.isResolved).to.equal(true);
+    expect(stored.resolvedWinner).to.equal(ethers.ZeroAddress);
+  });
+
+  it("decides encrypted Dutch bids one at a time against the price and the hidden reserve", async function () {
+    const [, alice, bob, carol] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("MarketAuction");
+    const auction = await factory.deploy(ethers.ZeroAddress);
+    await auction.waitForDeployment();
+    const auctionAddress = await auction.getAddress();
+    const { handles, inputProof } = await createEncryptedInput(auctionAddress, auctionAddress).add64(RESERVE).encrypt();
+    // 1100 falling 10 per second; the public curve ignores the encrypted reserve
+    await auction.createDutchAuction(GOOD_TYPE_SILK, handles[0], inputProof, 110, 1100);
+    const auctionId = await auction.auctionCounter();
+    const { startTime } = await auction.auctions(auctionId);
+    const bidAtSecond = async (bidder: any, seconds: number, amount: number) => {
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime) + seconds]);
+      return placeEncryptedBid(auction, bidder, auctionId, amount);
+    };
+
+    // Below the current price (800): refused once decrypted, and the next bid waits for the decision
+    await expect(bidAtSecond(bob, 30, 500)).to.emit(auction, "DutchBidDecryptionRequested");
+    expect(await auction.dutchPendingBidder(auctionId)).to.equal(bob.address);
+    await expect(placeEncryptedBid(auction, carol, auctionId, 1100))
+      .to.be.revertedWithCustomError(auction, "DutchBidPending");
+    await expect(auction.resolveAuction(auctionId)).to.be.revertedWithCustomError(auction, "AuctionNotExpired");
+
+    expect(await fulfillDecryptionRequests()).to.equal(1);
+    expect(await auction.dutchPendingBidder(auctionId)).to.equal(ethers.ZeroAddress);
+    expect((await auction.bids(auctionId, bob.address)).isActive).to.equal(false);
+    expect((await auction.auctions(auctionId)).isActive).to.equal(true);
+
+    // Above the public price (20) but below the hidden reserve
+    await bidAtSecond(carol, 108, 50);
+    await fulfillDecryptionRequests();
+    expect((await auction.auctions(auctionId)).isActive).to.equal(true);
+
+    // Covers max(price, reserve) = 100: wins at once and pays 100
+    await bidAtSecond(alice, 110, 400);
+    await fulfillDecryptionRequests();
+    const stored = await auction.auctions(auctionId);
+    expect(stored.isResolved).to.equal(true);
+    expect(stored.resolvedWinner).to.equal(alice.address);
+    expect(await decrypt(stored.highestBid)).to.equal(BigInt(RESERVE));
+
+    await expect(auction.onDutchBidDecrypted(1234, true, ["0x"]))
+      .to.be.revertedWithCustomError(auction, "UnknownDutchBidRequest");
+  });
+
+  it("rejects encrypted bids without a proof or bound to another bidder", async function () {
+    const [, alice, bob] = await ethers.getSigners();
+    const { auction, auctionId } = await deployEncryptedAuction();
+    const verifier = await ethers.getContractAt("MockInputVerifier", FHEVM_ADDRESSES.MockInputVerifier);
+
+    await expect(auction.connect(alice).placeBid(auctionId, ethers.toBeHex(300, 32), "0x"))
+      .to.be.revertedWithCustomError(auction, "BidRejected");
+
+    const { handles, inputProof } = await createEncryptedInput(await auction.getAddress(), bob.address)
+      .add64(300)
+      .encrypt();
+    await expect(auction.connect(alice).placeBid(auctionId, handles[0], inputProof))
+      .to.be.revertedWithCustomError(verifier, "InvalidInputContext");
+  });
+});
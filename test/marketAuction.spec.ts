@@ -0,0 +1,896 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { InputVerificationMock__factory, MarketAuction__factory } from "../typechain-types";
+import type { InputVerificationMock, MarketAuction } from "../typechain-types";
+
+// Plaintext convention: the handle carries the amount itself and the proof is empty
+const plain = (value: number | bigint) => ethers.toBeHex(value, 32);
+
+const GOOD_TYPE_SPICES = 1;
+const GOOD_TYPE_SILK = 2;
+
+async function deployAuction(inputVerificationAddress: string = ethers.ZeroAddress): Promise<MarketAuction> {
+  const [deployer] = await ethers.getSigners();
+  const auction = await new MarketAuction__factory(deployer).deploy(inputVerificationAddress);
+  await auction.waitForDeployment();
+  return auction;
+}
+
+// Plaintext auction; returns its id
+async function createAuction(auction: MarketAuction, reserve = 100, duration = 60): Promise<bigint> {
+  await auction.createAuction(GOOD_TYPE_SPICES, plain(reserve), "0x", duration);
+  return auction.auctionCounter();
+}
+
+async function increaseTime(seconds: number): Promise<void> {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+describe("MarketAuction", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+
+  before(async function () {
+    [deployer, alice, bob, carol] = (await ethers.getSigners()) as [
+      HardhatEthersSigner,
+      HardhatEthersSigner,
+      HardhatEthersSigner,
+      HardhatEthersSigner,
+    ];
+  });
+
+  describe("creation", function () {
+    it("creates auctions using plaintext reserve fallback when no proof is provided", async function () {
+      const auction = await deployAuction();
+
+      await expect(auction.createAuction(GOOD_TYPE_SPICES, plain(500), "0x", 0))
+        .to.emit(auction, "AuctionCreated")
+        .withArgs(1, GOOD_TYPE_SPICES, deployer.address, anyValue, anyValue);
+
+      const stored = await auction.auctions(1);
+      expect(stored.usesPlaintext).to.equal(true);
+      expect(stored.reservePricePlain).to.equal(500n);
+      expect(stored.highestBidPlain).to.equal(0n);
+      expect(stored.creator).to.equal(deployer.address);
+      expect(await auction.getActiveAuctions()).to.deep.equal([1n]);
+    });
+
+    it("uses the default duration unless a custom one is given", async function () {
+      const auction = await deployAuction();
+
+      await auction.createAuction(GOOD_TYPE_SPICES, plain(100), "0x", 0);
+      await auction.createAuction(GOOD_TYPE_SILK, plain(100), "0x", 45);
+
+      const byDefault = await auction.auctions(1);
+      const custom = await auction.auctions(2);
+      expect(byDefault.endTime - byDefault.startTime).to.equal((await auction.config()).auctionDuration);
+      expect(custom.endTime - custom.startTime).to.equal(45n);
+    });
+
+    it("rejects unknown good types", async function () {
+      const auction = await deployAuction();
+
+      await expect(auction.createAuction(0, plain(100), "0x", 0))
+        .to.be.revertedWithCustomError(auction, "InvalidGoodType");
+      await expect(auction.createAuction(6, plain(100), "0x", 0))
+        .to.be.revertedWithCustomError(auction, "InvalidGoodType");
+    });
+
+    it("caps simultaneous auctions until one is resolved", async function () {
+      const auction = await deployAuction();
+      const max = Number((await auction.config()).maxSimultaneousAuctions);
+
+      await createAuction(auction, 100, 30);
+      for (let i = 1; i < max; i++) {
+        await createAuction(auction, 100, 600);
+      }
+      expect(await auction.activeAuctionCount()).to.equal(BigInt(max));
+      await expect(auction.createAuction(GOOD_TYPE_SPICES, plain(100), "0x", 600))
+        .to.be.revertedWithCustomError(auction, "MaxAuctionsReached");
+
+      // Expired but unresolved auctions still hold their slot
+      await increaseTime(31);
+      await expect(auction.createAuction(GOOD_TYPE_SPICES, plain(100), "0x", 600))
+        .to.be.revertedWithCustomError(auction, "MaxAuctionsReached");
+
+      await auction.resolveAuction(1);
+      await expect(auction.createAuction(GOOD_TYPE_SPICES, plain(100), "0x", 600))
+        .to.emit(auction, "AuctionCreated");
+    });
+  });
+
+  describe("config", function () {
+    it("lets admins update the config within bounds", async function () {
+      const auction = await deployAuction();
+
+      await expect(auction.updateConfig({ auctionDuration: 600, maxSimultaneousAuctions: 3, revealDuration: 120 }))
+        .to.emit(auction, "ConfigUpdated")
+        .withArgs([600, 3, 120]);
+      const config = await auction.config();
+      expect(config.auctionDuration).to.equal(600n);
+      expect(config.maxSimultaneousAuctions).to.equal(3n);
+      expect(config.revealDuration).to.equal(120n);
+
+      await expect(auction.connect(alice).updateConfig({ auctionDuration: 600, maxSimultaneousAuctions: 3, revealDuration: 120 }))
+        .to.be.revertedWithCustomError(auction, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await auction.DEFAULT_ADMIN_ROLE());
+      for (const invalid of [
+        { auctionDuration: 59, maxSimultaneousAuctions: 3, revealDuration: 120 },
+        { auctionDuration: 86401, maxSimultaneousAuctions: 3, revealDuration: 120 },
+        { auctionDuration: 600, maxSimultaneousAuctions: 0, revealDuration: 120 },
+        { auctionDuration: 600, maxSimultaneousAuctions: 51, revealDuration: 120 },
+        { auctionDuration: 600, maxSimultaneousAuctions: 3, revealDuration: 59 },
+        { auctionDuration: 600, maxSimultaneousAuctions: 3, revealDuration: 86401 },
+      ]) {
+        await expect(auction.updateConfig(invalid)).to.be.revertedWithCustomError(auction, "InvalidConfig");
+      }
+    });
+
+    it("applies a new default duration and auction cap to later auctions", async function () {
+      const auction = await deployAuction();
+      await auction.createAuction(GOOD_TYPE_SPICES, plain(100), "0x", 0);
+
+      await expect(auction.updateAuctionDuration(900))
+        .to.emit(auction, "ConfigUpdated")
+        .withArgs([900, 10, 300]);
+      await expect(auction.updateAuctionDuration(30)).to.be.revertedWithCustomError(auction, "InvalidConfig");
+      await auction.createAuction(GOOD_TYPE_SILK, plain(100), "0x", 0);
+
+      const before = await auction.auctions(1);
+      const after = await auction.auctions(2);
+      expect(before.endTime - before.startTime).to.equal(300n);
+      expect(after.endTime - after.startTime).to.equal(900n);
+
+      await auction.updateConfig({ auctionDuration: 900, maxSimultaneousAuctions: 2, revealDuration: 300 });
+      await expect(auction.createAuction(GOOD_TYPE_SPICES, plain(100), "0x", 0))
+        .to.be.revertedWithCustomError(auction, "MaxAuctionsReached");
+    });
+  });
+
+  describe("second-price format", function () {
+    const FIRST_PRICE = 0;
+    const SECOND_PRICE = 1;
+
+    async function createSecondPriceAuction(auction: MarketAuction, reserve = 100): Promise<bigint> {
+      await auction.createAuctionWithFormat(GOOD_TYPE_SPICES, plain(reserve), "0x", 60, SECOND_PRICE);
+      return auction.auctionCounter();
+    }
+
+    // Resolve after expiry and reveal the price the winner pays
+    async function clearingPriceOf(auction: MarketAuction, auctionId: bigint): Promise<bigint> {
+      await increaseTime(61);
+      await auction.resolveAuction(auctionId);
+      await auction.revealClearingPrice(auctionId);
+      return auction.clearingPrices(auctionId);
+    }
+
+    it("records the format, with createAuction staying first-price", async function () {
+      const auction = await deployAuction();
+
+      await auction.createAuction(GOOD_TYPE_SPICES, plain(100), "0x", 0);
+      const auctionId = await createSecondPriceAuction(auction, 150);
+
+      expect((await auction.auctions(1)).format).to.equal(FIRST_PRICE);
+      const stored = await auction.auctions(auctionId);
+      expect(stored.format).to.equal(SECOND_PRICE);
+      // Without a runner-up the winner pays the reserve
+      expect(stored.secondHighestBidPlain).to.equal(150n);
+    });
+
+    it("tracks the runner-up bid, including bids below the leader", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createSecondPriceAuction(auction);
+
+      await auction.connect(alice).placeBid(auctionId, plain(300), "0x");
+      await auction.connect(bob).placeBid(auctionId, plain(500), "0x");
+      expect((await auction.auctions(auctionId)).secondHighestBidPlain).to.equal(300n);
+
+      await expect(auction.connect(carol).placeBid(auctionId, plain(400), "0x"))
+        .to.emit(auction, "BidPlaced")
+        .withArgs(auctionId, carol.address, anyValue);
+      const stored = await auction.auctions(auctionId);
+      expect(stored.currentWinner).to.equal(bob.address);
+      expect(stored.highestBidPlain).to.equal(500n);
+      expect(stored.secondHighestBidPlain).to.equal(400n);
+      expect((await auction.bids(auctionId, carol.address)).isWinning).to.equal(false);
+
+      // Not above the runner-up, or the leader trying to set their own price
+      await expect(auction.connect(alice).placeBid(auctionId, plain(400), "0x"))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+      await expect(auction.connect(bob).placeBid(auctionId, plain(450), "0x"))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+
+      // The leader raising their own bid keeps the runner-up price
+      await auction.connect(bob).placeBid(auctionId, plain(700), "0x");
+      expect((await auction.auctions(auctionId)).secondHighestBidPlain).to.equal(400n);
+
+      expect(await clearingPriceOf(auction, auctionId)).to.equal(400n);
+      expect((await auction.auctions(auctionId)).resolvedWinner).to.equal(bob.address);
+    });
+
+    it("prices a single bid at the reserve and a tie at the leader's bid", async function () {
+      const auction = await deployAuction();
+
+      const single = await createSecondPriceAuction(auction, 150);
+      await auction.connect(alice).placeBid(single, plain(400), "0x");
+      expect(await clearingPriceOf(auction, single)).to.equal(150n);
+
+      const tied = await createSecondPriceAuction(auction);
+      await auction.connect(alice).placeBid(tied, plain(400), "0x");
+      await auction.connect(bob).placeBid(tied, plain(400), "0x");
+      expect(await clearingPriceOf(auction, tied)).to.equal(400n);
+      expect((await auction.auctions(tied)).resolvedWinner).to.equal(alice.address);
+    });
+
+    it("reveals the winner's own bid in first-price auctions", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createAuction(auction);
+
+      await auction.connect(alice).placeBid(auctionId, plain(300), "0x");
+      await auction.connect(bob).placeBid(auctionId, plain(500), "0x");
+      await expect(auction.connect(carol).placeBid(auctionId, plain(400), "0x"))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+      expect(await clearingPriceOf(auction, auctionId)).to.equal(500n);
+    });
+  });
+
+  describe("commit-reveal", function () {
+    const FIRST_PRICE = 0;
+    const SECOND_PRICE = 1;
+    const salt = (label: string) => ethers.id(label);
+
+    // 60s of commits, then the configured 300s reveal window
+    async function createCommitRevealAuction(auction: MarketAuction, format = FIRST_PRICE): Promise<bigint> {
+      await auction.createCommitRevealAuction(GOOD_TYPE_SPICES, 100, 60, format);
+      return auction.auctionCounter();
+    }
+
+    async function commit(auction: MarketAuction, bidder: HardhatEthersSigner, auctionId: bigint, amount: number) {
+      const commitment = await auction.bidCommitment(bidder.address, auctionId, amount, salt(`${bidder.address}:${amount}`));
+      await auction.connect(bidder).commitBid(auctionId, commitment);
+    }
+
+    async function reveal(auction: MarketAuction, bidder: HardhatEthersSigner, auctionId: bigint, amount: number) {
+      return auction.connect(bidder).revealBid(auctionId, amount, salt(`${bidder.address}:${amount}`));
+    }
+
+    it("creates plaintext auctions with a reveal window and keeps the bidding modes apart", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createCommitRevealAuction(auction);
+      await createAuction(auction);
+
+      const stored = await auction.auctions(auctionId);
+      expect(stored.usesCommitReveal).to.equal(true);
+      expect(stored.usesPlaintext).to.equal(true);
+      expect(stored.reservePricePlain).to.equal(100n);
+      expect(stored.revealEndTime - stored.endTime).to.equal((await auction.config()).revealDuration);
+      expect(await auction.resolutionTime(auctionId)).to.equal(stored.revealEndTime);
+      expect(await auction.resolutionTime(2)).to.equal((await auction.auctions(2)).endTime);
+
+      await expect(auction.connect(alice).placeBid(auctionId, plain(300), "0x"))
+        .to.be.revertedWithCustomError(auction, "WrongBiddingMode");
+      await expect(auction.connect(alice).commitBid(2, salt("anything")))
+        .to.be.revertedWithCustomError(auction, "WrongBiddingMode");
+      await expect(auction.connect(alice).commitBid(auctionId, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+    });
+
+    it("hides committed amounts until the reveal window", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createCommitRevealAuction(auction);
+      const commitment = await auction.bidCommitment(alice.address, auctionId, 300, salt("alice"));
+      expect(commitment).to.equal(ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+        ["address", "uint256", "uint64", "bytes32"],
+        [alice.address, auctionId, 300, salt("alice")]
+      )));
+
+      await expect(auction.connect(alice).commitBid(auctionId, commitment))
+        .to.emit(auction, "BidCommitted")
+        .withArgs(auctionId, alice.address, commitment, anyValue)
+        .and.to.emit(auction, "BidPlaced");
+      expect((await auction.bids(auctionId, alice.address)).commitment).to.equal(commitment);
+      expect((await auction.bids(auctionId, alice.address)).amountPlain).to.equal(0n);
+      expect((await auction.auctions(auctionId)).participantCount).to.equal(1n);
+
+      await expect(auction.connect(alice).revealBid(auctionId, 300, salt("alice")))
+        .to.be.revertedWithCustomError(auction, "RevealWindowNotOpen");
+
+      await increaseTime(61);
+      await expect(auction.connect(bob).commitBid(auctionId, commitment))
+        .to.be.revertedWithCustomError(auction, "BidTooLate");
+    });
+
+    it("binds a commitment to its bidder and auction", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createCommitRevealAuction(auction);
+      const otherId = await createCommitRevealAuction(auction);
+      await commit(auction, alice, auctionId, 300);
+      const { commitment } = await auction.bids(auctionId, alice.address);
+
+      // Copying alice's commitment from the mempool does not let bob reveal her amount and salt
+      await auction.connect(bob).commitBid(auctionId, commitment);
+      await auction.connect(alice).commitBid(otherId, commitment);
+      await increaseTime(61);
+
+      await expect(auction.connect(bob).revealBid(auctionId, 300, salt(`${alice.address}:300`)))
+        .to.be.revertedWithCustomError(auction, "CommitmentMismatch");
+      await expect(auction.connect(alice).revealBid(otherId, 300, salt(`${alice.address}:300`)))
+        .to.be.revertedWithCustomError(auction, "CommitmentMismatch");
+      await expect(reveal(auction, alice, auctionId, 300)).to.emit(auction, "BidRevealed");
+    });
+
+    it("ranks revealed bids and forfeits the unrevealed ones", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createCommitRevealAuction(auction);
+      await commit(auction, alice, auctionId, 300);
+      await commit(auction, bob, auctionId, 200);
+      // A new commitment replaces the previous one
+      await commit(auction, bob, auctionId, 500);
+      await commit(auction, carol, auctionId, 900);
+      await increaseTime(61);
+
+      await expect(reveal(auction, alice, auctionId, 999))
+        .to.be.revertedWithCustomError(auction, "CommitmentMismatch");
+      await expect(reveal(auction, bob, auctionId, 200))
+        .to.be.revertedWithCustomError(auction, "CommitmentMismatch");
+      await expect(reveal(auction, deployer, auctionId, 300))
+        .to.be.revertedWithCustomError(auction, "NoBidCommitment");
+
+      await expect(reveal(auction, alice, auctionId, 300))
+        .to.emit(auction, "BidRevealed")
+        .withArgs(auctionId, alice.address, 300, anyValue);
+      await reveal(auction, bob, auctionId, 500);
+      await expect(reveal(auction, bob, auctionId, 500))
+        .to.be.revertedWithCustomError(auction, "NoBidCommitment");
+      expect((await auction.auctions(auctionId)).currentWinner).to.equal(bob.address);
+
+      // Resolution waits for the reveal window, even in a batch
+      await expect(auction.resolveAuction(auctionId)).to.be.revertedWithCustomError(auction, "AuctionNotExpired");
+      await auction.batchResolveAuctions([auctionId]);
+      expect((await auction.auctions(auctionId)).isResolved).to.equal(false);
+
+      await increaseTime(300);
+      await expect(reveal(auction, carol, auctionId, 900))
+        .to.be.revertedWithCustomError(auction, "RevealWindowClosed");
+      await expect(auction.resolveAuction(auctionId))
+        .to.emit(auction, "BidForfeited")
+        .withArgs(auctionId, carol.address, anyValue)
+        .and.to.emit(auction, "AuctionResolved")
+        .withArgs(auctionId, bob.address, GOOD_TYPE_SPICES, anyValue);
+      expect((await auction.bids(auctionId, carol.address)).commitment).to.equal(ethers.ZeroHash);
+
+      await auction.revealClearingPrice(auctionId);
+      expect(await auction.clearingPrices(auctionId)).to.equal(500n);
+    });
+
+    it("accepts the reveal of an outranked bid without ranking it", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createCommitRevealAuction(auction);
+      await commit(auction, alice, auctionId, 300);
+      await commit(auction, bob, auctionId, 200);
+      await commit(auction, carol, auctionId, 500);
+      await increaseTime(61);
+
+      await reveal(auction, alice, auctionId, 300);
+      // Bob's bid can no longer win, but revealing it still honours the commitment
+      await expect(reveal(auction, bob, auctionId, 200))
+        .to.emit(auction, "BidRevealed")
+        .withArgs(auctionId, bob.address, 200, anyValue);
+      expect((await auction.bids(auctionId, bob.address)).isActive).to.equal(false);
+      await reveal(auction, carol, auctionId, 500);
+
+      await increaseTime(300);
+      await expect(auction.resolveAuction(auctionId))
+        .to.emit(auction, "AuctionResolved")
+        .withArgs(auctionId, carol.address, GOOD_TYPE_SPICES, anyValue)
+        .and.not.to.emit(auction, "BidForfeited");
+    });
+
+    it("applies the auction format to revealed bids in any order", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createCommitRevealAuction(auction, SECOND_PRICE);
+      await commit(auction, alice, auctionId, 300);
+      await commit(auction, bob, auctionId, 500);
+      await increaseTime(61);
+
+      await reveal(auction, bob, auctionId, 500);
+      await reveal(auction, alice, auctionId, 300);
+
+      await increaseTime(300);
+      await auction.resolveAuction(auctionId);
+      await auction.revealClearingPrice(auctionId);
+      expect((await auction.auctions(auctionId)).resolvedWinner).to.equal(bob.address);
+      expect(await auction.clearingPrices(auctionId)).to.equal(300n);
+    });
+  });
+
+  describe("Dutch format", function () {
+    const DUTCH = 2;
+
+    // 1100 falling to the 100 reserve over 100s: 10 per second
+    async function createDutchAuction(auction: MarketAuction): Promise<bigint> {
+      await auction.createDutchAuction(GOOD_TYPE_SPICES, plain(100), "0x", 100, 1100);
+      return auction.auctionCounter();
+    }
+
+    // Mine the next block (or transaction) `seconds` after the auction started
+    async function atSecond(auction: MarketAuction, auctionId: bigint, seconds: number, mine = true): Promise<void> {
+      const { startTime } = await auction.auctions(auctionId);
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime) + seconds]);
+      if (mine) await ethers.provider.send("evm_mine", []);
+    }
+
+    it("lowers the price linearly from the start price to the reserve", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createDutchAuction(auction);
+
+      const stored = await auction.auctions(auctionId);
+      expect(stored.format).to.equal(DUTCH);
+      expect(stored.startPricePlain).to.equal(1100n);
+      expect(await auction.dutchPrice(auctionId)).to.equal(1100n);
+
+      await atSecond(auction, auctionId, 25);
+      expect(await auction.dutchPrice(auctionId)).to.equal(850n);
+      await atSecond(auction, auctionId, 100);
+      expect(await auction.dutchPrice(auctionId)).to.equal(100n);
+      await increaseTime(60);
+      expect(await auction.dutchPrice(auctionId)).to.equal(100n);
+
+      // Unsold: resolves like any expired auction, without a winner
+      await expect(auction.resolveAuction(auctionId))
+        .to.emit(auction, "AuctionEnded")
+        .withArgs(auctionId, false, anyValue);
+
+      const firstPrice = await createAuction(auction);
+      await expect(auction.dutchPrice(firstPrice)).to.be.revertedWithCustomError(auction, "WrongBiddingMode");
+    });
+
+    it("sells at once to the first bid covering the current price, at that price", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createDutchAuction(auction);
+
+      await atSecond(auction, auctionId, 30, false);
+      await expect(auction.connect(bob).placeBid(auctionId, plain(700), "0x"))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+
+      await atSecond(auction, auctionId, 40, false);
+      await expect(auction.connect(alice).placeBid(auctionId, plain(1000), "0x"))
+        .to.emit(auction, "BidPlaced")
+        .withArgs(auctionId, alice.address, anyValue)
+        .and.to.emit(auction, "AuctionResolved")
+        .withArgs(auctionId, alice.address, GOOD_TYPE_SPICES, anyValue)
+        .and.to.emit(auction, "AuctionEnded")
+        .withArgs(auctionId, true, anyValue);
+
+      const stored = await auction.auctions(auctionId);
+      expect(stored.isActive).to.equal(false);
+      expect(stored.resolvedWinner).to.equal(alice.address);
+      expect(stored.highestBidPlain).to.equal(700n);
+      expect((await auction.bids(auctionId, alice.address)).amountPlain).to.equal(700n);
+      expect(await auction.activeAuctionCount()).to.equal(0n);
+
+      await expect(auction.connect(bob).placeBid(auctionId, plain(1100), "0x"))
+        .to.be.revertedWithCustomError(auction, "AuctionNotActive");
+      await auction.revealClearingPrice(auctionId);
+      expect(await auction.clearingPrices(auctionId)).to.equal(700n);
+    });
+
+    it("requires a start price at or above the reserve and its own constructor", async function () {
+      const auction = await deployAuction();
+
+      await expect(auction.createDutchAuction(GOOD_TYPE_SPICES, plain(100), "0x", 100, 0))
+        .to.be.revertedWithCustomError(auction, "InvalidStartPrice");
+      await expect(auction.createDutchAuction(GOOD_TYPE_SPICES, plain(100), "0x", 100, 99))
+        .to.be.revertedWithCustomError(auction, "InvalidStartPrice");
+      await expect(auction.createAuctionWithFormat(GOOD_TYPE_SPICES, plain(100), "0x", 100, DUTCH))
+        .to.be.revertedWithCustomError(auction, "InvalidStartPrice");
+      await expect(auction.createCommitRevealAuction(GOOD_TYPE_SPICES, 100, 100, DUTCH))
+        .to.be.revertedWithCustomError(auction, "InvalidStartPrice");
+
+      // A flat curve at the reserve is allowed
+      await auction.createDutchAuction(GOOD_TYPE_SPICES, plain(100), "0x", 100, 100);
+      expect(await auction.dutchPrice(await auction.auctionCounter())).to.equal(100n);
+    });
+  });
+
+  describe("bidding", function () {
+    it("accepts plaintext bids and resolves the highest bidder", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createAuction(auction, 100, 300);
+
+      await expect(auction.connect(alice).placeBid(auctionId, plain(200), "0x"))
+        .to.emit(auction, "BidPlaced")
+        .withArgs(auctionId, alice.address, anyValue);
+      await auction.connect(bob).placeBid(auctionId, plain(300), "0x");
+
+      const stored = await auction.auctions(auctionId);
+      expect(stored.currentWinner).to.equal(bob.address);
+      expect(stored.highestBidPlain).to.equal(300n);
+
+      await increaseTime(301);
+      await expect(auction.resolveAuction(auctionId))
+        .to.emit(auction, "AuctionResolved")
+        .withArgs(auctionId, bob.address, GOOD_TYPE_SPICES, anyValue)
+        .and.to.emit(auction, "AuctionEnded")
+        .withArgs(auctionId, true, anyValue);
+    });
+
+    it("rejects bids below the reserve or not above the highest bid", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createAuction(auction, 100);
+
+      await expect(auction.connect(alice).placeBid(auctionId, plain(99), "0x"))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+
+      await auction.connect(alice).placeBid(auctionId, plain(100), "0x");
+      await expect(auction.connect(bob).placeBid(auctionId, plain(100), "0x"))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+      await expect(auction.connect(bob).placeBid(auctionId, plain(50), "0x"))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+
+      expect((await auction.auctions(auctionId)).currentWinner).to.equal(alice.address);
+      expect(await auction.hasUserBid(auctionId, bob.address)).to.equal(false);
+    });
+
+    it("tracks outbid bidders and participants", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createAuction(auction, 100);
+
+      await auction.connect(alice).placeBid(auctionId, plain(150), "0x");
+      await auction.connect(bob).placeBid(auctionId, plain(200), "0x");
+
+      const outbid = await auction.bids(auctionId, alice.address);
+      expect(outbid.isActive).to.equal(false);
+      expect(outbid.isWinning).to.equal(false);
+      expect(outbid.amountPlain).to.equal(0n);
+
+      const leading = await auction.bids(auctionId, bob.address);
+      expect(leading.isActive).to.equal(true);
+      expect(leading.isWinning).to.equal(true);
+      expect(leading.amountPlain).to.equal(200n);
+
+      // Raising a bid does not register the bidder twice
+      await auction.connect(alice).placeBid(auctionId, plain(250), "0x");
+      const stored = await auction.auctions(auctionId);
+      expect(stored.currentWinner).to.equal(alice.address);
+      expect(stored.participantCount).to.equal(2);
+      expect(await auction.getAuctionParticipants(auctionId)).to.deep.equal([alice.address, bob.address]);
+      expect((await auction.bids(auctionId, bob.address)).isWinning).to.equal(false);
+      expect(await auction.hasUserBid(auctionId, carol.address)).to.equal(false);
+    });
+
+    it("rejects bids on unknown, expired or ended auctions", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createAuction(auction, 100, 30);
+
+      await expect(auction.connect(alice).placeBid(auctionId + 1n, plain(150), "0x"))
+        .to.be.revertedWithCustomError(auction, "AuctionNotFound");
+
+      await increaseTime(31);
+      await expect(auction.connect(alice).placeBid(auctionId, plain(150), "0x"))
+        .to.be.revertedWithCustomError(auction, "BidTooLate");
+
+      await auction.resolveAuction(auctionId);
+      await expect(auction.connect(alice).placeBid(auctionId, plain(150), "0x"))
+        .to.be.revertedWithCustomError(auction, "AuctionNotActive");
+    });
+  });
+
+  describe("resolution", function () {
+    it("only resolves expired auctions once, and only for admins", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createAuction(auction, 100, 30);
+
+      await expect(auction.resolveAuction(auctionId))
+        .to.be.revertedWithCustomError(auction, "AuctionNotExpired");
+      await increaseTime(31);
+      await expect(auction.connect(alice).resolveAuction(auctionId))
+        .to.be.revertedWithCustomError(auction, "AccessControlUnauthorizedAccount");
+
+      await expect(auction.resolveAuction(auctionId))
+        .to.emit(auction, "AuctionEnded")
+        .withArgs(auctionId, false, anyValue);
+      await expect(auction.resolveAuction(auctionId))
+        .to.be.revertedWithCustomError(auction, "AuctionAlreadyResolved");
+      expect(await auction.activeAuctionCount()).to.equal(0n);
+    });
+
+    it("batch-resolves expired auctions and skips unknown, running and resolved ones", async function () {
+      const auction = await deployAuction();
+      const resolvedEarlier = await createAuction(auction, 100, 30);
+      const expired = await createAuction(auction, 100, 30);
+      const running = await createAuction(auction, 100, 600);
+      await auction.connect(alice).placeBid(expired, plain(120), "0x");
+
+      await increaseTime(31);
+      await auction.resolveAuction(resolvedEarlier);
+
+      const tx = auction.batchResolveAuctions([0n, resolvedEarlier, expired, running, 99n]);
+      await expect(tx)
+        .to.emit(auction, "AuctionResolved")
+        .withArgs(expired, alice.address, GOOD_TYPE_SPICES, anyValue);
+      const receipt = await (await tx).wait();
+      const resolvedIds = receipt!.logs
+        .map((log) => auction.interface.parseLog(log))
+        .filter((event) => event?.name === "AuctionResolved")
+        .map((event) => event!.args.auctionId);
+      expect(resolvedIds).to.deep.equal([expired]);
+
+      expect((await auction.auctions(running)).isResolved).to.equal(false);
+      expect(await auction.getActiveAuctions()).to.deep.equal([running]);
+      const stats = await auction.getAuctionStats();
+      expect(stats.totalAuctions).to.equal(3n);
+      expect(stats.activeAuctions).to.equal(1n);
+      expect(stats.resolvedAuctions).to.equal(2n);
+
+      await expect(auction.connect(alice).batchResolveAuctions([running]))
+        .to.be.revertedWithCustomError(auction, "AccessControlUnauthorizedAccount");
+    });
+
+    it("emergency-ends a running auction with its current leader", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createAuction(auction, 100, 600);
+      await auction.connect(alice).placeBid(auctionId, plain(150), "0x");
+
+      await expect(auction.connect(alice).emergencyEndAuction(auctionId))
+        .to.be.revertedWithCustomError(auction, "AccessControlUnauthorizedAccount");
+
+      await expect(auction.emergencyEndAuction(auctionId))
+        .to.emit(auction, "AuctionResolved")
+        .withArgs(auctionId, alice.address, GOOD_TYPE_SPICES, anyValue)
+        .and.to.emit(auction, "AuctionEnded")
+        .withArgs(auctionId, true, anyValue);
+
+      const stored = await auction.auctions(auctionId);
+      expect(stored.isActive).to.equal(false);
+      expect(stored.isResolved).to.equal(true);
+      expect(stored.resolvedWinner).to.equal(alice.address);
+      expect(await auction.activeAuctionCount()).to.equal(0n);
+
+      // Already resolved: a second call changes nothing
+      await expect(auction.emergencyEndAuction(auctionId)).to.not.emit(auction, "AuctionEnded");
+    });
+
+    it("emergency-ends an auction without bids and without a winner", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createAuction(auction, 100, 600);
+
+      await expect(auction.emergencyEndAuction(auctionId))
+        .to.emit(auction, "AuctionEnded")
+        .withArgs(auctionId, false, anyValue)
+        .and.to.not.emit(auction, "AuctionResolved");
+      expect((await auction.auctions(auctionId)).resolvedWinner).to.equal(ethers.ZeroAddress);
+      await expect(auction.emergencyEndAuction(auctionId + 1n))
+        .to.be.revertedWithCustomError(auction, "AuctionNotFound");
+    });
+  });
+
+  describe("rewards", function () {
+    it("lists resolved wins only", async function () {
+      const auction = await deployAuction();
+      const first = await createAuction(auction, 100, 30);
+      const second = await createAuction(auction, 100, 30);
+      const unresolved = await createAuction(auction, 100, 600);
+
+      await auction.connect(alice).placeBid(first, plain(150), "0x");
+      await auction.connect(bob).placeBid(second, plain(150), "0x");
+      await auction.connect(alice).placeBid(unresolved, plain(150), "0x");
+      await increaseTime(31);
+      await auction.batchResolveAuctions([first, second]);
+
+      expect(await auction.getMyWins(alice.address)).to.deep.equal([first]);
+      expect(await auction.getMyWins(bob.address)).to.deep.equal([second]);
+      expect(await auction.getMyWins(carol.address)).to.deep.equal([]);
+    });
+
+    it("lets the winner claim exactly once", async function () {
+      const auction = await deployAuction();
+      const auctionId = await createAuction(auction, 100, 30);
+      await auction.connect(alice).placeBid(auctionId, plain(150), "0x");
+
+      await expect(auction.connect(alice).claimReward(auctionId))
+        .to.be.revertedWithCustomError(auction, "AuctionNotExpired");
+
+      await increaseTime(31);
+      await auction.resolveAuction(auctionId);
+
+      await expect(auction.connect(bob).claimReward(auctionId))
+        .to.be.revertedWithCustomError(auction, "NotWinner");
+      await expect(auction.connect(alice).claimReward(auctionId))
+        .to.emit(auction, "RewardClaimed")
+        .withArgs(auctionId, alice.address, GOOD_TYPE_SPICES, anyValue);
+      expect(await auction.hasClaimedReward(auctionId, alice.address)).to.equal(true);
+
+      await expect(auction.connect(alice).claimReward(auctionId))
+        .to.be.revertedWithCustomError(auction, "RewardAlreadyClaimed");
+    });
+  });
+
+  describe("gateway verification (InputVerificationMock)", function () {
+    // Any non-empty proof routes the input through the gateway
+    const PROOF = "0x01";
+
+    // The deployer doubles as the coprocessor account answering proofs
+    async function deployWithGateway(): Promise<{ auction: MarketAuction; gateway: InputVerificationMock }> {
+      const gateway = await new InputVerificationMock__factory(deployer).deploy(deployer.address);
+      await gateway.waitForDeployment();
+      const auction = await deployAuction(await gateway.getAddress());
+      return { auction, gateway };
+    }
+
+    // The coprocessor's answer: the verified handles, here the submitted plaintext handle
+    const respond = (gateway: InputVerificationMock, zkProofId: bigint, handle: string) =>
+      gateway.verifyProofResponse(zkProofId, [handle], "0x", "0x");
+
+    it("holds a bid until the proof is verified", async function () {
+      const { auction, gateway } = await deployWithGateway();
+      expect(await auction.useInputVerificationGateway()).to.equal(true);
+      const auctionId = await createAuction(auction, 100);
+
+      const bid = auction.connect(alice).placeBid(auctionId, plain(150), PROOF);
+      await expect(bid)
+        .to.emit(auction, "BidProofRequested")
+        .withArgs(auctionId, alice.address, 1n, anyValue)
+        .and.to.emit(gateway, "VerifyProofRequest");
+      await expect(bid).to.not.emit(auction, "BidPlaced");
+
+      const pending = await auction.bids(auctionId, alice.address);
+      expect(pending.isPendingVerification).to.equal(true);
+      expect(pending.zkProofId).to.equal(1n);
+      expect((await auction.auctions(auctionId)).currentWinner).to.equal(ethers.ZeroAddress);
+
+      await expect(respond(gateway, 1n, plain(150)))
+        .to.emit(auction, "BidProofVerified")
+        .withArgs(1n, auctionId, alice.address, anyValue)
+        .and.to.emit(auction, "BidPlaced")
+        .withArgs(auctionId, alice.address, anyValue);
+
+      const stored = await auction.auctions(auctionId);
+      expect(stored.currentWinner).to.equal(alice.address);
+      expect(stored.highestBidPlain).to.equal(150n);
+      expect((await auction.bids(auctionId, alice.address)).isPendingVerification).to.equal(false);
+    });
+
+    it("only accepts callbacks from the gateway for the submitted handle", async function () {
+      const { auction, gateway } = await deployWithGateway();
+      const auctionId = await createAuction(auction, 100);
+      await auction.connect(alice).placeBid(auctionId, plain(150), PROOF);
+
+      await expect(auction.onProofVerified(1n, [plain(150)]))
+        .to.be.revertedWith("Only InputVerification can call this");
+      await expect(auction.onProofRejected(1n))
+        .to.be.revertedWith("Only InputVerification can call this");
+
+      // A mismatched response reverts and leaves the request open
+      await expect(respond(gateway, 1n, plain(999))).to.be.revertedWith("Verified handle mismatch");
+      expect(await gateway.isProofProcessed(1n)).to.equal(false);
+
+      await respond(gateway, 1n, plain(150));
+      await expect(respond(gateway, 1n, plain(150)))
+        .to.be.revertedWithCustomError(gateway, "ProofAlreadyProcessed")
+        .withArgs(1n);
+    });
+
+    it("only takes proof responses from the coprocessor account", async function () {
+      const { auction, gateway } = await deployWithGateway();
+      expect(await gateway.coprocessor()).to.equal(deployer.address);
+      const auctionId = await createAuction(auction, 100);
+      await auction.connect(alice).placeBid(auctionId, plain(150), PROOF);
+
+      await expect(gateway.connect(alice).verifyProofResponse(1n, [plain(150)], "0x", "0x"))
+        .to.be.revertedWithCustomError(gateway, "NotCoprocessor");
+      await expect(gateway.connect(alice).rejectProofResponse(1n, "0x"))
+        .to.be.revertedWithCustomError(gateway, "NotCoprocessor");
+      expect(await gateway.isProofProcessed(1n)).to.equal(false);
+
+      await expect(new InputVerificationMock__factory(deployer).deploy(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(gateway, "InvalidCoprocessor");
+    });
+
+    it("drops bids whose proof is rejected", async function () {
+      const { auction, gateway } = await deployWithGateway();
+      const auctionId = await createAuction(auction, 100);
+      await auction.connect(alice).placeBid(auctionId, plain(150), PROOF);
+
+      await expect(gateway.rejectProofResponse(1n, "0x"))
+        .to.emit(auction, "BidProofRejected")
+        .withArgs(1n, auctionId, alice.address, anyValue);
+
+      expect((await auction.bids(auctionId, alice.address)).isPendingVerification).to.equal(false);
+      expect(await auction.hasUserBid(auctionId, alice.address)).to.equal(false);
+      expect((await auction.auctions(auctionId)).currentWinner).to.equal(ethers.ZeroAddress);
+    });
+
+    it("rejects verified bids that arrive after the auction ended", async function () {
+      const { auction, gateway } = await deployWithGateway();
+      const auctionId = await createAuction(auction, 100, 30);
+      await auction.connect(alice).placeBid(auctionId, plain(150), PROOF);
+
+      await increaseTime(31);
+      await expect(respond(gateway, 1n, plain(150)))
+        .to.be.revertedWithCustomError(auction, "AuctionNotActive");
+      expect(await gateway.isProofProcessed(1n)).to.equal(false);
+    });
+
+    it("verifies a reserve price through the gateway", async function () {
+      const { auction, gateway } = await deployWithGateway();
+
+      await auction.createAuction(GOOD_TYPE_SILK, plain(200), PROOF, 60);
+      const auctionId = await auction.auctionCounter();
+      const zkProofId = await gateway.zkProofIdCounter();
+      expect((await auction.pendingBids(zkProofId)).isReservePrice).to.equal(true);
+
+      await expect(respond(gateway, zkProofId, plain(200)))
+        .to.emit(auction, "ReservePriceVerified")
+        .withArgs(auctionId, zkProofId, anyValue);
+
+      const stored = await auction.auctions(auctionId);
+      expect(stored.usesPlaintext).to.equal(true);
+      expect(stored.reservePricePlain).to.equal(200n);
+
+      await expect(auction.connect(alice).placeBid(auctionId, plain(150), "0x"))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+      await auction.connect(alice).placeBid(auctionId, plain(250), "0x");
+      expect((await auction.auctions(auctionId)).currentWinner).to.equal(alice.address);
+    });
+
+    it("refuses gateway bids until the reserve price is verified", async function () {
+      const { auction, gateway } = await deployWithGateway();
+
+      await auction.createAuction(GOOD_TYPE_SILK, plain(200), PROOF, 60);
+      const auctionId = await auction.auctionCounter();
+      await expect(auction.connect(alice).placeBid(auctionId, plain(150), PROOF))
+        .to.be.revertedWithCustomError(auction, "ReservePricePending");
+
+      await respond(gateway, await gateway.zkProofIdCounter(), plain(200));
+      await auction.connect(alice).placeBid(auctionId, plain(150), PROOF);
+      await expect(respond(gateway, await gateway.zkProofIdCounter(), plain(150)))
+        .to.be.revertedWithCustomError(auction, "BidRejected");
+      await auction.connect(bob).placeBid(auctionId, plain(250), PROOF);
+      await respond(gateway, await gateway.zkProofIdCounter(), plain(250));
+      expect((await auction.auctions(auctionId)).currentWinner).to.equal(bob.address);
+    });
+
+    it("cancels a Dutch auction whose verified reserve exceeds its start price", async function () {
+      const { auction, gateway } = await deployWithGateway();
+
+      await auction.createDutchAuction(GOOD_TYPE_SILK, plain(200), PROOF, 100, 150);
+      const auctionId = await auction.auctionCounter();
+      await expect(respond(gateway, await gateway.zkProofIdCounter(), plain(200)))
+        .to.emit(auction, "ReservePriceVerified")
+        .and.to.emit(auction, "AuctionEnded")
+        .withArgs(auctionId, false, anyValue);
+
+      const stored = await auction.auctions(auctionId);
+      expect(stored.isActive).to.equal(false);
+      expect(stored.isResolved).to.equal(true);
+      // The curve is clamped to the reserve instead of underflowing
+      expect(await auction.dutchPrice(auctionId)).to.equal(200n);
+      await expect(auction.connect(alice).placeBid(auctionId, plain(200), "0x"))
+        .to.be.revertedWithCustomError(auction, "AuctionNotActive");
+    });
+
+    it("cancels the auction when its reserve proof is rejected", async function () {
+      const { auction, gateway } = await deployWithGateway();
+
+      await auction.createAuction(GOOD_TYPE_SILK, plain(200), PROOF, 60);
+      const auctionId = await auction.auctionCounter();
+      const zkProofId = await gateway.zkProofIdCounter();
+
+      await expect(gateway.rejectProofResponse(zkProofId, "0x"))
+        .to.emit(auction, "AuctionEnded")
+        .withArgs(auctionId, false, anyValue)
+        .and.to.emit(auction, "BidProofRejected");
+
+      const stored = await auction.auctions(auctionId);
+      expect(stored.isActive).to.equal(false);
+      expect(stored.isResolved).to.equal(true);
+      expect(await auction.activeAuctionCount()).to.equal(0n);
+    });
+  });
+});
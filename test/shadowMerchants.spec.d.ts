@@ -1,2 +0,0 @@
-export {};
-//# sourceMappingURL=shadowMerchants.spec.d.ts.map
\ No newline at end of file
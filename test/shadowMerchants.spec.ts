@@ -1,5 +1,18 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import {
+  FHEVM_ADDRESSES,
+  createEncryptedInput,
+  decrypt,
+  fulfillDecryptionRequests,
+  installMockFHEVM,
+  isAllowed,
+  uninstallMockFHEVM,
+} from "./helpers/fhevm";
+
+// Each fixture creates a single game, which gets the first id
+const GAME_ID = 1;
 
 describe("ShadowMerchants (local)", function () {
   async function deployShadowMerchants() {
@@ -9,40 +22,105 @@ describe("ShadowMerchants (local)", function () {
     return contract;
   }
 
-  it("allows the game manager to start and end a game", async function () {
+  it("lets anyone create a game and the game manager end it", async function () {
+    const [, creator] = await ethers.getSigners();
     const contract = await deployShadowMerchants();
 
-    const initialState = await contract.gameState();
-    expect(initialState.gameActive).to.equal(false);
-
-    await expect(contract.startGame()).to.not.be.reverted;
+    await expect(contract.connect(creator).createGame(0, 0, 0))
+      .to.emit(contract, "GameCreated")
+      .withArgs(GAME_ID, creator.address, 20, 900, 20, anyValue);
 
-    const startedState = await contract.gameState();
+    const startedState = await contract.games(GAME_ID);
     expect(startedState.gameActive).to.equal(true);
     expect(startedState.currentRound).to.equal(1);
+    expect(startedState.creator).to.equal(creator.address);
 
-    await expect(contract.endGame()).to.not.be.reverted;
+    await expect(contract.endGame(GAME_ID)).to.not.be.reverted;
 
-    const endedState = await contract.gameState();
+    const endedState = await contract.games(GAME_ID);
     expect(endedState.gameActive).to.equal(false);
     expect(endedState.gameEnded).to.equal(true);
     expect(endedState.winner).to.equal(ethers.ZeroAddress);
   });
 
-  it("restricts startGame to the manager role", async function () {
+  it("restricts endGame to the manager role", async function () {
     const [, nonManager] = await ethers.getSigners();
     const contract = await deployShadowMerchants();
     const role = await contract.GAME_MANAGER_ROLE();
+    await contract.connect(nonManager).createGame(0, 0, 0);
 
-    await expect(contract.connect(nonManager).startGame())
+    await expect(contract.connect(nonManager).endGame(GAME_ID))
       .to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount")
       .withArgs(nonManager.address, role);
   });
 
+  it("validates game settings", async function () {
+    const contract = await deployShadowMerchants();
+
+    await expect(contract.createGame(21, 0, 0)).to.be.revertedWithCustomError(contract, "InvalidGameSettings");
+    await expect(contract.createGame(0, 59, 0)).to.be.revertedWithCustomError(contract, "InvalidGameSettings");
+    await expect(contract.createGame(0, 86401, 0)).to.be.revertedWithCustomError(contract, "InvalidGameSettings");
+    await expect(contract.createGame(0, 0, 21)).to.be.revertedWithCustomError(contract, "InvalidGameSettings");
+
+    await contract.createGame(4, 120, 5);
+    const info = await contract.getGameInfo(GAME_ID);
+    expect(info.maxPlayers).to.equal(4);
+    expect(info.roundDuration).to.equal(120);
+    expect(info.maxRounds).to.equal(5);
+    await expect(contract.getGameInfo(GAME_ID + 1)).to.be.revertedWithCustomError(contract, "GameNotFound");
+  });
+
+  it("lets game managers update the config within bounds", async function () {
+    const [, nonManager] = await ethers.getSigners();
+    const contract = await deployShadowMerchants();
+    const config = { initialGold: 500, energyRegenAmount: 5, maxPlayers: 8, maxRounds: 10, roundDuration: 300 };
+
+    await expect(contract.updateConfig(config))
+      .to.emit(contract, "ConfigUpdated")
+      .withArgs([500, 5, 8, 10, 300]);
+    const stored = await contract.config();
+    expect(stored.initialGold).to.equal(500n);
+    expect(stored.roundDuration).to.equal(300n);
+
+    await expect(contract.connect(nonManager).updateConfig(config))
+      .to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount")
+      .withArgs(nonManager.address, await contract.GAME_MANAGER_ROLE());
+    for (const invalid of [
+      { initialGold: 1_000_001 },
+      { energyRegenAmount: 0 },
+      { energyRegenAmount: 101 },
+      { maxPlayers: 0 },
+      { maxPlayers: 51 },
+      { maxRounds: 0 },
+      { maxRounds: 101 },
+      { roundDuration: 59 },
+      { roundDuration: 86401 },
+    ]) {
+      await expect(contract.updateConfig({ ...config, ...invalid }))
+        .to.be.revertedWithCustomError(contract, "InvalidConfig");
+    }
+  });
+
+  it("creates games and starts players from the current config", async function () {
+    const [, player] = await ethers.getSigners();
+    const contract = await deployShadowMerchants();
+    await contract.updateConfig({ initialGold: 250, energyRegenAmount: 5, maxPlayers: 8, maxRounds: 10, roundDuration: 300 });
+
+    await expect(contract.createGame(0, 0, 0))
+      .to.emit(contract, "GameCreated")
+      .withArgs(GAME_ID, anyValue, 8, 300, 10, anyValue);
+    await expect(contract.createGame(9, 0, 0)).to.be.revertedWithCustomError(contract, "InvalidGameSettings");
+    await expect(contract.createGame(0, 0, 11)).to.be.revertedWithCustomError(contract, "InvalidGameSettings");
+
+    const handle = ethers.toBeHex(0, 32);
+    await contract.connect(player).joinGame(GAME_ID, handle, "0x", handle, "0x", handle, "0x");
+    expect((await contract.getPlaintextResources(GAME_ID, player.address)).gold).to.equal(250n);
+  });
+
   it("grants the auction role to the MarketAuction contract", async function () {
     const contract = await deployShadowMerchants();
     const auctionFactory = await ethers.getContractFactory("MarketAuction");
-    const auction = await auctionFactory.deploy();
+    const auction = await auctionFactory.deploy(ethers.ZeroAddress);
     await auction.waitForDeployment();
 
     const auctionAddress = await auction.getAddress();
@@ -53,3 +131,1117 @@ describe("ShadowMerchants (local)", function () {
     expect(await contract.hasRole(role, auctionAddress)).to.equal(true);
   });
 });
+
+describe("ShadowMerchants game registry", function () {
+  async function deployWithGames(count: number) {
+    const factory = await ethers.getContractFactory("ShadowMerchants");
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    for (let i = 0; i < count; i++) {
+      await contract.createGame(2, 60, 3);
+    }
+    return contract;
+  }
+
+  async function joinPlaintext(contract: any, player: any, gameId: number) {
+    return contract.connect(player).joinGame(gameId, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+  }
+
+  async function advance(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  it("keeps players, rounds and winners separate per game", async function () {
+    const [, alice, bob, carol] = await ethers.getSigners();
+    const contract = await deployWithGames(2);
+
+    await expect(joinPlaintext(contract, alice, 1))
+      .to.emit(contract, "PlayerJoined")
+      .withArgs(1, alice.address, 1);
+    await joinPlaintext(contract, bob, 2);
+    await joinPlaintext(contract, carol, 2);
+    await expect(joinPlaintext(contract, alice, 2)).to.be.revertedWithCustomError(contract, "GameFull");
+    await expect(joinPlaintext(contract, alice, 3)).to.be.revertedWithCustomError(contract, "GameNotFound");
+
+    expect(await contract.getActivePlayers(1)).to.deep.equal([alice.address]);
+    expect(await contract.getActivePlayers(2)).to.deep.equal([bob.address, carol.address]);
+    expect(await contract.currentGame(bob.address)).to.equal(2);
+
+    await advance(60);
+    await contract.progressRound(2);
+    expect((await contract.games(1)).currentRound).to.equal(1);
+    expect((await contract.games(2)).currentRound).to.equal(2);
+
+    await expect(contract.endGame(1))
+      .to.emit(contract, "GameEnded")
+      .withArgs(1, alice.address, anyValue);
+    expect(await contract.getActiveGames()).to.deep.equal([2n]);
+    expect((await contract.games(2)).winner).to.equal(ethers.ZeroAddress);
+  });
+
+  it("allows one running game per player and a fresh profile in the next one", async function () {
+    const [, alice] = await ethers.getSigners();
+    const contract = await deployWithGames(2);
+    const plain = (amount: number) => ethers.toBeHex(amount, 32);
+
+    await joinPlaintext(contract, alice, 1);
+    await expect(joinPlaintext(contract, alice, 2)).to.be.revertedWithCustomError(contract, "PlayerInAnotherGame");
+
+    await advance(10); // rate limit
+    await contract.connect(alice).spendGold(plain(400), "0x");
+    expect((await contract.getPlaintextResources(1, alice.address)).gold).to.equal(600);
+
+    // Once the game is over the player may join another, starting from scratch
+    await contract.endGame(1);
+    await joinPlaintext(contract, alice, 2);
+    expect(await contract.currentGame(alice.address)).to.equal(2);
+    expect((await contract.getPlaintextResources(2, alice.address)).gold).to.equal(1000);
+    expect((await contract.getPlaintextResources(1, alice.address)).gold).to.equal(600);
+  });
+
+  it("lets a player leave one game for another", async function () {
+    const [, alice] = await ethers.getSigners();
+    const contract = await deployWithGames(2);
+
+    await joinPlaintext(contract, alice, 1);
+    await expect(contract.connect(alice).leaveGame())
+      .to.emit(contract, "PlayerLeft")
+      .withArgs(1, alice.address, 1);
+    expect(await contract.currentGame(alice.address)).to.equal(0);
+    expect((await contract.games(1)).playerCount).to.equal(0);
+
+    await joinPlaintext(contract, alice, 2);
+    expect(await contract.getActivePlayers(1)).to.deep.equal([]);
+    expect(await contract.getActivePlayers(2)).to.deep.equal([alice.address]);
+  });
+
+  it("finalizes each game after its own number of rounds", async function () {
+    const factory = await ethers.getContractFactory("ShadowMerchants");
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    await contract.createGame(0, 60, 2);
+    await contract.createGame(0, 120, 2);
+
+    await advance(60);
+    await expect(contract.progressRound(2)).to.be.revertedWithCustomError(contract, "ActionTooFrequent");
+    await contract.progressRound(1);
+    await advance(60);
+    await expect(contract.progressRound(1))
+      .to.emit(contract, "GameEnded")
+      .withArgs(1, ethers.ZeroAddress, anyValue);
+
+    await contract.progressRound(2);
+    expect((await contract.games(2)).gameActive).to.equal(true);
+    await expect(contract.progressRound(1)).to.be.revertedWithCustomError(contract, "GameNotActive");
+  });
+});
+
+describe("ShadowMerchants round progression", function () {
+  async function deployStartedGame() {
+    const factory = await ethers.getContractFactory("ShadowMerchants");
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    await contract.createGame(0, 0, 0);
+    return contract;
+  }
+
+  async function advance(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  it("progresses a round only after the round duration of chain time", async function () {
+    const [, anyone] = await ethers.getSigners();
+    const contract = await deployStartedGame();
+    const roundDuration = Number((await contract.config()).roundDuration);
+
+    await expect(contract.connect(anyone).progressRound(GAME_ID))
+      .to.be.revertedWithCustomError(contract, "ActionTooFrequent");
+
+    await advance(roundDuration);
+    await expect(contract.connect(anyone).progressRound(GAME_ID))
+      .to.emit(contract, "RoundProgressed")
+      .withArgs(GAME_ID, 2, anyValue);
+
+    const state = await contract.games(GAME_ID);
+    expect(state.currentRound).to.equal(2);
+    expect(state.lastRoundTime).to.equal((await ethers.provider.getBlock("latest"))!.timestamp);
+  });
+
+  it("finalizes the game when progressing past its max rounds", async function () {
+    const contract = await deployStartedGame();
+    const { roundDuration, maxRounds } = await contract.getGameInfo(GAME_ID);
+
+    for (let round = 1n; round < maxRounds; round++) {
+      await advance(Number(roundDuration));
+      await contract.progressRound(GAME_ID);
+    }
+    expect((await contract.games(GAME_ID)).currentRound).to.equal(maxRounds);
+
+    await advance(Number(roundDuration));
+    await expect(contract.progressRound(GAME_ID))
+      .to.emit(contract, "GameEnded")
+      .withArgs(GAME_ID, ethers.ZeroAddress, anyValue);
+
+    const state = await contract.games(GAME_ID);
+    expect(state.gameActive).to.equal(false);
+    expect(state.gameEnded).to.equal(true);
+    await expect(contract.progressRound(GAME_ID)).to.be.revertedWithCustomError(contract, "GameNotActive");
+  });
+});
+
+describe("ShadowMerchants winner selection", function () {
+  const EMPTY_INVENTORY = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+  async function deployStartedGame() {
+    const factory = await ethers.getContractFactory("ShadowMerchantsHarness");
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    await contract.createGame(0, 0, 0);
+    return contract;
+  }
+
+  describe("plaintext fallback", function () {
+    async function joinPlaintext(contract: any, player: any) {
+      await contract.connect(player).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    }
+
+    it("picks the richest player regardless of join order", async function () {
+      const [, alice, bob, carol] = await ethers.getSigners();
+      const contract = await deployStartedGame();
+
+      for (const player of [alice, bob, carol]) {
+        await joinPlaintext(contract, player);
+      }
+      await contract.harnessSetPlaintextResources(alice.address, 500, 0, EMPTY_INVENTORY);
+      await contract.harnessSetPlaintextResources(bob.address, 2000, 0, EMPTY_INVENTORY);
+      await contract.harnessSetPlaintextResources(carol.address, 1200, 0, EMPTY_INVENTORY);
+
+      await expect(contract.endGame(GAME_ID))
+        .to.emit(contract, "GameEnded")
+        .withArgs(GAME_ID, bob.address, anyValue);
+
+      const state = await contract.games(GAME_ID);
+      expect(state.winner).to.equal(bob.address);
+      expect(await contract.winnerDecryptionPending(GAME_ID)).to.equal(false);
+    });
+
+    it("counts reputation and inventory towards the score", async function () {
+      const [, alice, bob] = await ethers.getSigners();
+      const contract = await deployStartedGame();
+
+      await joinPlaintext(contract, alice);
+      await joinPlaintext(contract, bob);
+
+      // alice: 1500 | bob: 1000 + 20 * 10 + 8 * 50 = 1600
+      await contract.harnessSetPlaintextResources(alice.address, 1500, 0, EMPTY_INVENTORY);
+      await contract.harnessSetPlaintextResources(bob.address, 1000, 20, [3, 0, 5, 0, 0, 0, 0, 0, 0, 0]);
+
+      await contract.endGame(GAME_ID);
+      expect((await contract.games(GAME_ID)).winner).to.equal(bob.address);
+    });
+
+    it("breaks ties in favour of the earliest joiner", async function () {
+      const [, alice, bob] = await ethers.getSigners();
+      const contract = await deployStartedGame();
+
+      await joinPlaintext(contract, alice);
+      await joinPlaintext(contract, bob);
+
+      await contract.endGame(GAME_ID);
+      expect((await contract.games(GAME_ID)).winner).to.equal(alice.address);
+    });
+  });
+
+  describe("mock FHE", function () {
+    before(async function () {
+      await installMockFHEVM();
+    });
+
+    after(async function () {
+      await uninstallMockFHEVM();
+    });
+
+    async function joinEncrypted(contract: any, player: any, gold: number, reputation = 100, energy = 100) {
+      const contractAddress = await contract.getAddress();
+      const { handles, inputProof } = await createEncryptedInput(contractAddress, player.address)
+        .add64(gold)
+        .add16(reputation)
+        .add8(energy)
+        .encrypt();
+      await contract
+        .connect(player)
+        .joinGame(GAME_ID, handles[0], inputProof, handles[1], inputProof, handles[2], inputProof);
+    }
+
+    it("picks the richest encrypted player and decrypts only the winning address", async function () {
+      const [, alice, bob, carol] = await ethers.getSigners();
+      const contract = await deployStartedGame();
+
+      await joinEncrypted(contract, alice, 800);
+      await joinEncrypted(contract, bob, 2500);
+      await joinEncrypted(contract, carol, 1700);
+
+      const tx = contract.endGame(GAME_ID);
+      await expect(tx).to.emit(contract, "WinnerDecryptionRequested");
+      await expect(tx).to.not.emit(contract, "GameEnded");
+      expect(await contract.winnerDecryptionPending(GAME_ID)).to.equal(true);
+      expect((await contract.games(GAME_ID)).winner).to.equal(ethers.ZeroAddress);
+
+      // A single eaddress handle goes to the oracle, no score or balance
+      const oracle = await ethers.getContractAt("MockDecryptionOracle", "0xa02Cda4Ca3a71D7C46997716F4283aa851C28812");
+      const [request] = await oracle.queryFilter(oracle.filters.DecryptionRequest(), (await tx).blockNumber!);
+      expect(request!.args.cts.length).to.equal(1);
+      expect(ethers.getBytes(request!.args.cts[0]!)[30]).to.equal(7); // Uint160
+
+      expect(await fulfillDecryptionRequests()).to.equal(1);
+
+      const state = await contract.games(GAME_ID);
+      expect(state.winner).to.equal(bob.address);
+      expect(await contract.winnerDecryptionPending(GAME_ID)).to.equal(false);
+    });
+
+    it("includes encrypted inventory in the score", async function () {
+      const [, alice, bob] = await ethers.getSigners();
+      const contract = await deployStartedGame();
+
+      await joinEncrypted(contract, alice, 1200);
+      await joinEncrypted(contract, bob, 1000);
+      // bob: 1000 + 100 * 10 + 6 * 50 = 2300 vs alice: 1200 + 100 * 10 = 2200
+      await contract.harnessSetEncryptedInventory(bob.address, 2, 6);
+
+      await contract.endGame(GAME_ID);
+      await fulfillDecryptionRequests();
+
+      expect((await contract.games(GAME_ID)).winner).to.equal(bob.address);
+    });
+
+    it("compares plaintext profiles against encrypted ones", async function () {
+      const [, alice, bob] = await ethers.getSigners();
+      const contract = await deployStartedGame();
+
+      await joinEncrypted(contract, alice, 3000);
+      await contract.connect(bob).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+      await contract.harnessSetPlaintextResources(bob.address, 5000, 0, EMPTY_INVENTORY);
+
+      await contract.endGame(GAME_ID);
+      await fulfillDecryptionRequests();
+
+      expect((await contract.games(GAME_ID)).winner).to.equal(bob.address);
+    });
+
+    it("rejects a winner that does not match the decrypted arg-max", async function () {
+      const [, alice, bob] = await ethers.getSigners();
+      const contract = await deployStartedGame();
+
+      await joinEncrypted(contract, alice, 900);
+      await joinEncrypted(contract, bob, 100);
+      await contract.endGame(GAME_ID);
+
+      const requestId = await contract.winnerDecryptionRequestId(GAME_ID);
+      const signatures = [ethers.hexlify(new Uint8Array(65))];
+
+      await expect(contract.onWinnerDecrypted(requestId, bob.address, signatures))
+        .to.be.revertedWithCustomError(contract, "InvalidKMSSignatures");
+      await expect(contract.onWinnerDecrypted(requestId + 1n, alice.address, signatures))
+        .to.be.revertedWithCustomError(contract, "UnknownDecryptionRequest");
+
+      await fulfillDecryptionRequests();
+      expect((await contract.games(GAME_ID)).winner).to.equal(alice.address);
+    });
+  });
+});
+
+describe("ShadowMerchants plaintext resources", function () {
+  // Plaintext players pass the amount itself as the handle, with an empty proof
+  const plain = (amount: number) => ethers.toBeHex(amount, 32);
+
+  async function deployWithPlaintextPlayer() {
+    const [, player] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("ShadowMerchants");
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    await contract.createGame(0, 0, 0);
+    await contract.connect(player).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    return { contract, player };
+  }
+
+  async function skipRateLimit() {
+    await ethers.provider.send("evm_increaseTime", [10]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  it("spends plaintext gold and energy", async function () {
+    const { contract, player } = await deployWithPlaintextPlayer();
+    await skipRateLimit();
+
+    await expect(contract.connect(player).spendGold(plain(250), "0x"))
+      .to.emit(contract, "ResourcesUpdated")
+      .withArgs(player.address, anyValue);
+    await skipRateLimit();
+    await contract.connect(player).spendEnergy(plain(40), "0x");
+
+    const resources = await contract.getPlaintextResources(GAME_ID, player.address);
+    expect(resources.usesPlaintext).to.equal(true);
+    expect(resources.gold).to.equal(750);
+    expect(resources.reputation).to.equal(100);
+    expect(resources.energy).to.equal(60);
+  });
+
+  it("reverts when a plaintext player cannot afford the spend", async function () {
+    const { contract, player } = await deployWithPlaintextPlayer();
+    await skipRateLimit();
+
+    await expect(contract.connect(player).spendGold(plain(1001), "0x"))
+      .to.be.revertedWithCustomError(contract, "InsufficientResources");
+    await expect(contract.connect(player).spendEnergy(plain(101), "0x"))
+      .to.be.revertedWithCustomError(contract, "InsufficientResources");
+
+    await contract.connect(player).spendEnergy(plain(100), "0x");
+    expect(await contract.canPlayerAct(player.address)).to.equal(false);
+
+    const resources = await contract.getPlaintextResources(GAME_ID, player.address);
+    expect(resources.gold).to.equal(1000);
+    expect(resources.energy).to.equal(0);
+  });
+
+  it("rejects proofs and out-of-range amounts from plaintext players", async function () {
+    const { contract, player } = await deployWithPlaintextPlayer();
+    await skipRateLimit();
+
+    await expect(contract.connect(player).spendGold(plain(10), "0x01"))
+      .to.be.revertedWithCustomError(contract, "InvalidInput");
+    await expect(contract.connect(player).spendEnergy(plain(256), "0x"))
+      .to.be.revertedWithCustomError(contract, "InvalidInput");
+  });
+
+  it("regenerates plaintext energy up to the cap", async function () {
+    const { contract, player } = await deployWithPlaintextPlayer();
+    const interval = Number(await contract.ENERGY_REGEN_INTERVAL());
+    await skipRateLimit();
+
+    await contract.connect(player).spendEnergy(plain(5), "0x");
+    await expect(contract.connect(player).regenerateEnergy())
+      .to.be.revertedWithCustomError(contract, "ActionTooFrequent");
+
+    await ethers.provider.send("evm_increaseTime", [interval]);
+    await expect(contract.connect(player).regenerateEnergy()).to.emit(contract, "EnergyRegenerated");
+    expect((await contract.getPlaintextResources(GAME_ID, player.address)).energy).to.equal(100);
+
+    await skipRateLimit();
+    await contract.connect(player).spendEnergy(plain(30), "0x");
+    await ethers.provider.send("evm_increaseTime", [interval]);
+    await contract.connect(player).regenerateEnergy();
+    expect((await contract.getPlaintextResources(GAME_ID, player.address)).energy).to.equal(80);
+  });
+
+  it("regenerates the configured energy amount", async function () {
+    const { contract, player } = await deployWithPlaintextPlayer();
+    const interval = Number(await contract.ENERGY_REGEN_INTERVAL());
+    await contract.updateConfig({ ...(await contract.config()).toObject(), energyRegenAmount: 25 });
+    await skipRateLimit();
+
+    await contract.connect(player).spendEnergy(plain(60), "0x");
+    await ethers.provider.send("evm_increaseTime", [interval]);
+    await contract.connect(player).regenerateEnergy();
+    expect((await contract.getPlaintextResources(GAME_ID, player.address)).energy).to.equal(65);
+  });
+});
+
+describe("ShadowMerchants encrypted resources", function () {
+  before(async function () {
+    await installMockFHEVM();
+  });
+
+  after(async function () {
+    await uninstallMockFHEVM();
+  });
+
+  async function deployWithEncryptedPlayer() {
+    const [, player] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("ShadowMerchants");
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+    await contract.createGame(0, 0, 0);
+
+    const { handles, inputProof } = await createEncryptedInput(await contract.getAddress(), player.address)
+      .add64(1000)
+      .add16(100)
+      .add8(100)
+      .encrypt();
+    await contract.connect(player).joinGame(GAME_ID, handles[0], inputProof, handles[1], inputProof, handles[2], inputProof);
+    return { contract, player };
+  }
+
+  async function encryptedAmount(contract: any, player: any, bits: 8 | 64, amount: number) {
+    const input = createEncryptedInput(await contract.getAddress(), player.address);
+    const { handles, inputProof } = await (bits === 8 ? input.add8(amount) : input.add64(amount)).encrypt();
+    return [handles[0]!, inputProof] as const;
+  }
+
+  async function skipRateLimit() {
+    await ethers.provider.send("evm_increaseTime", [10]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  it("spends encrypted gold and energy homomorphically", async function () {
+    const { contract, player } = await deployWithEncryptedPlayer();
+    await skipRateLimit();
+
+    await expect(contract.connect(player).spendGold(...(await encryptedAmount(contract, player, 64, 250))))
+      .to.emit(contract, "ResourcesUpdated");
+    await skipRateLimit();
+    await contract.connect(player).spendEnergy(...(await encryptedAmount(contract, player, 8, 40)));
+
+    const profile = await contract.players(GAME_ID, player.address);
+    expect(profile.usesPlaintext).to.equal(false);
+    expect(await decrypt(profile.gold)).to.equal(750n);
+    expect(await decrypt(profile.energy)).to.equal(60n);
+    expect(await decrypt(profile.reputation)).to.equal(100n);
+
+    // The new balances stay readable by the player only
+    const [, , stranger] = await ethers.getSigners();
+    expect(await isAllowed(profile.gold, player.address)).to.equal(true);
+    expect(await isAllowed(profile.gold, stranger!.address)).to.equal(false);
+  });
+
+  it("leaves encrypted balances untouched when a spend exceeds them", async function () {
+    const { contract, player } = await deployWithEncryptedPlayer();
+    await skipRateLimit();
+
+    // No revert: the contract cannot branch on the encrypted comparison
+    await contract.connect(player).spendGold(...(await encryptedAmount(contract, player, 64, 1001)));
+    await skipRateLimit();
+    await contract.connect(player).spendEnergy(...(await encryptedAmount(contract, player, 8, 101)));
+
+    const profile = await contract.players(GAME_ID, player.address);
+    expect(await decrypt(profile.gold)).to.equal(1000n);
+    expect(await decrypt(profile.energy)).to.equal(100n);
+
+    // Spending exactly the balance is allowed
+    await skipRateLimit();
+    await contract.connect(player).spendEnergy(...(await encryptedAmount(contract, player, 8, 100)));
+    expect(await decrypt((await contract.players(GAME_ID, player.address)).energy)).to.equal(0n);
+  });
+
+  it("regenerates encrypted energy up to the cap", async function () {
+    const { contract, player } = await deployWithEncryptedPlayer();
+    const interval = Number(await contract.ENERGY_REGEN_INTERVAL());
+    await skipRateLimit();
+
+    await contract.connect(player).spendEnergy(...(await encryptedAmount(contract, player, 8, 5)));
+    await ethers.provider.send("evm_increaseTime", [interval]);
+    await expect(contract.connect(player).regenerateEnergy()).to.emit(contract, "EnergyRegenerated");
+    expect(await decrypt((await contract.players(GAME_ID, player.address)).energy)).to.equal(100n);
+
+    await skipRateLimit();
+    await contract.connect(player).spendEnergy(...(await encryptedAmount(contract, player, 8, 30)));
+    await ethers.provider.send("evm_increaseTime", [interval]);
+    await contract.connect(player).regenerateEnergy();
+    const energy = (await contract.players(GAME_ID, player.address)).energy;
+    expect(await decrypt(energy)).to.equal(80n);
+    expect(await isAllowed(energy, player.address)).to.equal(true);
+  });
+
+  it("rejects encrypted amounts bound to another player", async function () {
+    const { contract, player } = await deployWithEncryptedPlayer();
+    const [, , other] = await ethers.getSigners();
+    const verifier = await ethers.getContractAt("MockInputVerifier", FHEVM_ADDRESSES.MockInputVerifier);
+    await skipRateLimit();
+
+    await expect(contract.connect(player).spendGold(...(await encryptedAmount(contract, other!, 64, 10))))
+      .to.be.revertedWithCustomError(verifier, "InvalidInputContext");
+  });
+});
+
+describe("ShadowMerchants auction escrow and settlement", function () {
+  const GOOD_TYPE_GEMS = 3;
+  const SECOND_PRICE = 1; // MarketAuction.AuctionFormat.SecondPrice
+  const plain = (amount: number) => ethers.toBeHex(amount, 32);
+
+  async function deployLinkedContracts() {
+    const shadowFactory = await ethers.getContractFactory("ShadowMerchants");
+    const shadow = await shadowFactory.deploy();
+    await shadow.waitForDeployment();
+    const auctionFactory = await ethers.getContractFactory("MarketAuction");
+    const auction = await auctionFactory.deploy(ethers.ZeroAddress);
+    await auction.waitForDeployment();
+
+    await shadow.grantAuctionRole(await auction.getAddress());
+    await auction.setShadowMerchants(await shadow.getAddress());
+    await shadow.createGame(0, 0, 0);
+    return { shadow, auction };
+  }
+
+  // Plaintext auction won by `winner` with `bid`, resolved and ready to claim
+  async function winAuction(auction: any, winner: any, bid: number) {
+    await auction.createAuction(GOOD_TYPE_GEMS, plain(100), "0x", 60);
+    const auctionId = await auction.auctionCounter();
+    await auction.connect(winner).placeBid(auctionId, plain(bid), "0x");
+    await ethers.provider.send("evm_increaseTime", [61]);
+    await auction.resolveAuction(auctionId);
+    return auctionId;
+  }
+
+  it("debits the winning bid and credits the good to a plaintext player", async function () {
+    const [, player] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    await shadow.connect(player).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+
+    const auctionId = await winAuction(auction, player, 300);
+    await expect(auction.connect(player).claimReward(auctionId))
+      .to.emit(shadow, "InventoryCredited")
+      .withArgs(player.address, GOOD_TYPE_GEMS, anyValue);
+
+    const resources = await shadow.getPlaintextResources(GAME_ID, player.address);
+    expect(resources.gold).to.equal(700);
+    expect(resources.inventory[GOOD_TYPE_GEMS - 1]).to.equal(1);
+  });
+
+  it("rejects bids a plaintext player's gold cannot cover", async function () {
+    const [, player] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    await shadow.connect(player).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+
+    await auction.createAuction(GOOD_TYPE_GEMS, plain(100), "0x", 60);
+    await expect(auction.connect(player).placeBid(1, plain(1500), "0x"))
+      .to.be.revertedWithCustomError(shadow, "InsufficientResources");
+    expect((await shadow.getPlaintextResources(GAME_ID, player.address)).gold).to.equal(1000);
+  });
+
+  it("locks bid gold and refunds it when outbid", async function () {
+    const [, alice, bob] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    for (const player of [alice, bob]) {
+      await shadow.connect(player).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    }
+    const goldOf = async (player: any) => (await shadow.getPlaintextResources(GAME_ID, player.address)).gold;
+
+    await auction.createAuction(GOOD_TYPE_GEMS, plain(100), "0x", 60);
+    await expect(auction.connect(alice).placeBid(1, plain(300), "0x"))
+      .to.emit(shadow, "BidGoldLocked")
+      .withArgs(alice.address, 1, anyValue);
+    expect(await goldOf(alice)).to.equal(700);
+    expect((await shadow.bidEscrows(1, alice.address)).amountPlain).to.equal(300);
+
+    await expect(auction.connect(bob).placeBid(1, plain(400), "0x"))
+      .to.emit(shadow, "BidGoldReleased")
+      .withArgs(alice.address, 1, anyValue);
+    expect(await goldOf(alice)).to.equal(1000);
+    expect(await goldOf(bob)).to.equal(600);
+    expect((await shadow.bidEscrows(1, alice.address)).active).to.equal(false);
+
+    await auction.connect(alice).placeBid(1, plain(500), "0x");
+    expect(await goldOf(alice)).to.equal(500);
+    expect(await goldOf(bob)).to.equal(1000);
+
+    await ethers.provider.send("evm_increaseTime", [61]);
+    await auction.resolveAuction(1);
+    await auction.connect(alice).claimReward(1);
+
+    // The escrow pays the bid: no second debit
+    const resources = await shadow.getPlaintextResources(GAME_ID, alice.address);
+    expect(resources.gold).to.equal(500);
+    expect(resources.inventory[GOOD_TYPE_GEMS - 1]).to.equal(1);
+    expect((await shadow.bidEscrows(1, alice.address)).active).to.equal(false);
+  });
+
+  it("charges a second-price winner the runner-up bid and refunds the rest", async function () {
+    const [, alice, bob] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    for (const player of [alice, bob]) {
+      await shadow.connect(player).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    }
+    const goldOf = async (player: any) => (await shadow.getPlaintextResources(GAME_ID, player.address)).gold;
+
+    await auction.createAuctionWithFormat(GOOD_TYPE_GEMS, plain(100), "0x", 60, SECOND_PRICE);
+    await auction.connect(alice).placeBid(1, plain(300), "0x");
+    await auction.connect(bob).placeBid(1, plain(500), "0x");
+    // The leader's full bid stays locked until the claim
+    expect(await goldOf(bob)).to.equal(500);
+    expect(await goldOf(alice)).to.equal(1000);
+
+    await ethers.provider.send("evm_increaseTime", [61]);
+    await auction.resolveAuction(1);
+    await auction.connect(bob).claimReward(1);
+
+    const resources = await shadow.getPlaintextResources(GAME_ID, bob.address);
+    expect(resources.gold).to.equal(700);
+    expect(resources.inventory[GOOD_TYPE_GEMS - 1]).to.equal(1);
+    expect(await goldOf(alice)).to.equal(1000);
+  });
+
+  describe("commit-reveal deposits", function () {
+    const salt = ethers.id("salt");
+
+    async function setUpCommitReveal() {
+      const [, alice, bob, carol] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      for (const player of [alice, bob, carol]) {
+        await shadow.connect(player).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+      }
+      await auction.createCommitRevealAuction(GOOD_TYPE_GEMS, 100, 60, 0);
+      const commit = async (player: any, amount: number) =>
+        auction.connect(player).commitBid(1, await auction.bidCommitment(player.address, 1, amount, salt));
+      const goldOf = async (player: any) => (await shadow.getPlaintextResources(GAME_ID, player.address)).gold;
+      return { shadow, auction, alice, bob, carol, commit, goldOf };
+    }
+
+    it("escrows the reserve at commit and the bid in its place once revealed", async function () {
+      const { shadow, auction, alice, commit, goldOf } = await setUpCommitReveal();
+
+      await expect(commit(alice, 300))
+        .to.emit(shadow, "BidGoldLocked")
+        .withArgs(alice.address, 1, anyValue);
+      expect(await goldOf(alice)).to.equal(900);
+      // A new commitment replaces the deposit rather than adding to it
+      await commit(alice, 300);
+      expect(await goldOf(alice)).to.equal(900);
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await auction.connect(alice).revealBid(1, 300, salt);
+      expect(await goldOf(alice)).to.equal(700);
+
+      await ethers.provider.send("evm_increaseTime", [Number((await auction.config()).revealDuration)]);
+      await auction.resolveAuction(1);
+      await auction.connect(alice).claimReward(1);
+      expect(await goldOf(alice)).to.equal(700);
+      expect((await shadow.getPlaintextResources(GAME_ID, alice.address)).inventory[GOOD_TYPE_GEMS - 1]).to.equal(1);
+    });
+
+    it("forfeits the deposit of a commitment left unrevealed", async function () {
+      const { shadow, auction, alice, bob, carol, commit, goldOf } = await setUpCommitReveal();
+      await commit(alice, 300);
+      await commit(bob, 500);
+      // More than carol's gold: the reveal reverts, so the commitment cannot be honoured
+      await commit(carol, 5000);
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await auction.connect(alice).revealBid(1, 300, salt);
+      await expect(auction.connect(carol).revealBid(1, 5000, salt))
+        .to.be.revertedWithCustomError(shadow, "InsufficientResources");
+
+      await ethers.provider.send("evm_increaseTime", [Number((await auction.config()).revealDuration)]);
+      await expect(auction.resolveAuction(1))
+        .to.emit(shadow, "BidGoldForfeited")
+        .withArgs(bob.address, 1, anyValue)
+        .and.to.emit(shadow, "BidGoldForfeited")
+        .withArgs(carol.address, 1, anyValue);
+      expect(await goldOf(bob)).to.equal(900);
+      expect(await goldOf(carol)).to.equal(900);
+      expect((await shadow.bidEscrows(1, bob.address)).active).to.equal(false);
+    });
+
+    it("returns the deposit of an outranked reveal", async function () {
+      const { shadow, auction, alice, bob, commit, goldOf } = await setUpCommitReveal();
+      await commit(alice, 300);
+      await commit(bob, 200);
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await auction.connect(alice).revealBid(1, 300, salt);
+      await expect(auction.connect(bob).revealBid(1, 200, salt))
+        .to.emit(shadow, "BidGoldReleased")
+        .withArgs(bob.address, 1, anyValue);
+      expect(await goldOf(bob)).to.equal(1000);
+      expect(await goldOf(alice)).to.equal(700);
+    });
+
+    it("returns the deposits when an admin ends the auction before the reveal window", async function () {
+      const { auction, alice, commit, goldOf } = await setUpCommitReveal();
+      await commit(alice, 300);
+
+      await auction.emergencyEndAuction(1);
+      expect(await goldOf(alice)).to.equal(1000);
+    });
+  });
+
+  it("escrows and charges a Dutch winner the price at the time of the bid", async function () {
+    const [, alice] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    await shadow.connect(alice).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    const goldOf = async (player: any) => (await shadow.getPlaintextResources(GAME_ID, player.address)).gold;
+
+    // 1000 falling to 100 over 90s: 500 after 50s
+    await auction.createDutchAuction(GOOD_TYPE_GEMS, plain(100), "0x", 90, 1000);
+    const { startTime } = await auction.auctions(1);
+    await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime) + 50]);
+    await expect(auction.connect(alice).placeBid(1, plain(900), "0x"))
+      .to.emit(shadow, "BidGoldLocked")
+      .withArgs(alice.address, 1, anyValue);
+    expect(await goldOf(alice)).to.equal(500);
+    expect((await shadow.bidEscrows(1, alice.address)).amountPlain).to.equal(500);
+
+    // Already resolved by the bid
+    await auction.connect(alice).claimReward(1);
+    expect(await goldOf(alice)).to.equal(500);
+    expect((await shadow.getPlaintextResources(GAME_ID, alice.address)).inventory[GOOD_TYPE_GEMS - 1]).to.equal(1);
+  });
+
+  it("keeps separate escrows for concurrent auctions", async function () {
+    const [, player] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    await shadow.connect(player).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    for (let i = 0; i < 3; i++) {
+      await auction.createAuction(GOOD_TYPE_GEMS, plain(100), "0x", 60);
+    }
+
+    await auction.connect(player).placeBid(1, plain(600), "0x");
+    await auction.connect(player).placeBid(2, plain(300), "0x");
+    expect((await shadow.getPlaintextResources(GAME_ID, player.address)).gold).to.equal(100);
+
+    await expect(auction.connect(player).placeBid(3, plain(200), "0x"))
+      .to.be.revertedWithCustomError(shadow, "InsufficientResources");
+
+    // Raising a bid swaps the escrow instead of stacking it: 100 + 600 - 700
+    await auction.connect(player).placeBid(1, plain(700), "0x");
+    expect((await shadow.getPlaintextResources(GAME_ID, player.address)).gold).to.equal(0);
+    expect((await shadow.bidEscrows(1, player.address)).amountPlain).to.equal(700);
+    expect((await shadow.bidEscrows(2, player.address)).amountPlain).to.equal(300);
+  });
+
+  it("returns escrowed gold to the game it was locked in", async function () {
+    const [, alice, bob] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    await shadow.createGame(0, 0, 0);
+    await shadow.connect(alice).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    await shadow.connect(bob).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+
+    await auction.createAuction(GOOD_TYPE_GEMS, plain(100), "0x", 60);
+    await auction.connect(alice).placeBid(1, plain(300), "0x");
+    expect((await shadow.bidEscrows(1, alice.address)).gameId).to.equal(GAME_ID);
+
+    // alice moves to game 2, then gets outbid: the refund lands in game 1
+    await shadow.connect(alice).leaveGame();
+    await shadow.connect(alice).joinGame(GAME_ID + 1, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    await auction.connect(bob).placeBid(1, plain(400), "0x");
+
+    expect((await shadow.getPlaintextResources(GAME_ID, alice.address)).gold).to.equal(1000);
+    expect((await shadow.getPlaintextResources(GAME_ID + 1, alice.address)).gold).to.equal(1000);
+  });
+
+  it("does not let a player rejoin a game they left with escrowed gold", async function () {
+    const [, alice, bob] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    await shadow.connect(alice).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    await shadow.connect(bob).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+
+    await auction.createAuction(GOOD_TYPE_GEMS, plain(100), "0x", 60);
+    await auction.connect(alice).placeBid(1, plain(900), "0x");
+    await shadow.connect(alice).leaveGame();
+
+    await expect(
+      shadow.connect(alice).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x")
+    ).to.be.revertedWithCustomError(shadow, "PlayerAlreadyJoined");
+
+    // The refund lands in the profile she left, not in a fresh one
+    await auction.connect(bob).placeBid(1, plain(950), "0x");
+    const left = await shadow.players(GAME_ID, alice.address);
+    expect(left.isActive).to.equal(false);
+    expect((await shadow.getPlaintextResources(GAME_ID, alice.address)).gold).to.equal(1000);
+    expect(await shadow.currentGame(alice.address)).to.equal(0);
+  });
+
+  it("settles a win in the game the escrow came from after the winner left it", async function () {
+    const [, alice] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    await shadow.createGame(0, 0, 0);
+    await shadow.connect(alice).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+
+    const auctionId = await winAuction(auction, alice, 300);
+    await shadow.connect(alice).leaveGame();
+    await shadow.connect(alice).joinGame(GAME_ID + 1, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+
+    await expect(auction.connect(alice).claimReward(auctionId))
+      .to.emit(shadow, "InventoryCredited")
+      .withArgs(alice.address, GOOD_TYPE_GEMS, anyValue);
+    const left = await shadow.getPlaintextResources(GAME_ID, alice.address);
+    expect(left.gold).to.equal(700);
+    expect(left.inventory[GOOD_TYPE_GEMS - 1]).to.equal(1);
+    expect((await shadow.getPlaintextResources(GAME_ID + 1, alice.address)).gold).to.equal(1000);
+  });
+
+  it("still requires an active profile to pay an unescrowed win", async function () {
+    const [deployer, alice] = await ethers.getSigners();
+    const { shadow, auction } = await deployLinkedContracts();
+    await shadow.connect(alice).joinGame(GAME_ID, ethers.ZeroHash, "0x", ethers.ZeroHash, "0x", ethers.ZeroHash, "0x");
+    await shadow.grantRole(await shadow.AUCTION_ROLE(), deployer.address);
+    await shadow.connect(alice).leaveGame();
+
+    await expect(shadow.settleAuctionWin(alice.address, 1, GOOD_TYPE_GEMS, ethers.ZeroHash, 100, true))
+      .to.be.revertedWithCustomError(shadow, "PlayerNotActive");
+  });
+
+  it("only lets the auction contract settle wins", async function () {
+    const [, player] = await ethers.getSigners();
+    const { shadow } = await deployLinkedContracts();
+    const role = await shadow.AUCTION_ROLE();
+
+    await expect(shadow.connect(player).settleAuctionWin(player.address, 1, GOOD_TYPE_GEMS, ethers.ZeroHash, 0, true))
+      .to.be.revertedWithCustomError(shadow, "AccessControlUnauthorizedAccount")
+      .withArgs(player.address, role);
+  });
+
+  describe("mock FHE", function () {
+    before(async function () {
+      await installMockFHEVM();
+    });
+
+    after(async function () {
+      await uninstallMockFHEVM();
+    });
+
+    async function joinEncrypted(shadow: any, player: any) {
+      const { handles, inputProof } = await createEncryptedInput(await shadow.getAddress(), player.address)
+        .add64(1000)
+        .add16(100)
+        .add8(100)
+        .encrypt();
+      await shadow.connect(player).joinGame(GAME_ID, handles[0], inputProof, handles[1], inputProof, handles[2], inputProof);
+    }
+
+    it("updates encrypted gold and inventory on claim", async function () {
+      const [, player] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      await joinEncrypted(shadow, player);
+
+      const auctionId = await winAuction(auction, player, 300);
+      await auction.connect(player).claimReward(auctionId);
+
+      const profile = await shadow.players(GAME_ID, player.address);
+      const inventory = await shadow.getInventory(GAME_ID, player.address);
+      expect(await decrypt(profile.gold)).to.equal(700n);
+      expect(await decrypt(inventory[GOOD_TYPE_GEMS - 1]!)).to.equal(1n);
+    });
+
+    async function createEncryptedAuction(auction: any, format = 0) {
+      const auctionAddress = await auction.getAddress();
+      // createAuction verifies the reserve through an external self-call, so the auction is also the user
+      const { handles, inputProof } = await createEncryptedInput(auctionAddress, auctionAddress).add64(100).encrypt();
+      await auction.createAuctionWithFormat(GOOD_TYPE_GEMS, handles[0], inputProof, 60, format);
+      return auction.auctionCounter();
+    }
+
+    async function placeEncryptedBid(auction: any, bidder: any, auctionId: bigint, amount: number) {
+      const { handles, inputProof } = await createEncryptedInput(await auction.getAddress(), bidder.address)
+        .add64(amount)
+        .encrypt();
+      await auction.connect(bidder).placeBid(auctionId, handles[0], inputProof);
+    }
+
+    const goldOf = async (shadow: any, player: any) => decrypt((await shadow.players(GAME_ID, player.address)).gold);
+
+    it("refunds encrypted bidders homomorphically when outbid", async function () {
+      const [, alice, bob, carol] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      for (const player of [alice, bob, carol]) {
+        await joinEncrypted(shadow, player);
+      }
+      const auctionId = await createEncryptedAuction(auction);
+
+      await placeEncryptedBid(auction, alice, auctionId, 300);
+      expect(await goldOf(shadow, alice)).to.equal(700n);
+
+      await placeEncryptedBid(auction, bob, auctionId, 400);
+      expect(await goldOf(shadow, alice)).to.equal(1000n);
+      expect(await goldOf(shadow, bob)).to.equal(600n);
+
+      // A bid below the highest is refunded at once and the leader keeps their lock
+      await placeEncryptedBid(auction, carol, auctionId, 200);
+      expect(await goldOf(shadow, carol)).to.equal(1000n);
+      expect(await goldOf(shadow, bob)).to.equal(600n);
+      expect(await decrypt((await shadow.bidEscrows(auctionId, bob.address)).amount)).to.equal(400n);
+    });
+
+    it("pays the claim from the escrow and releases losers on resolution", async function () {
+      const [, alice, bob] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      await joinEncrypted(shadow, alice);
+      await joinEncrypted(shadow, bob);
+      const auctionId = await createEncryptedAuction(auction);
+
+      await placeEncryptedBid(auction, alice, auctionId, 300);
+      await placeEncryptedBid(auction, bob, auctionId, 450);
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await expect(auction.resolveAuction(auctionId)).to.emit(auction, "WinnerDecryptionRequested");
+      expect(await fulfillDecryptionRequests()).to.equal(1);
+      const released = await shadow.queryFilter(shadow.filters.BidGoldReleased(alice.address, auctionId));
+      expect(released).to.have.length(1);
+      expect((await shadow.bidEscrows(auctionId, alice.address)).active).to.equal(false);
+      expect(await goldOf(shadow, alice)).to.equal(1000n);
+
+      await auction.connect(bob).claimReward(auctionId);
+      const inventory = await shadow.getInventory(GAME_ID, bob.address);
+      expect(await goldOf(shadow, bob)).to.equal(550n);
+      expect(await decrypt(inventory[GOOD_TYPE_GEMS - 1]!)).to.equal(1n);
+      expect((await shadow.bidEscrows(auctionId, bob.address)).active).to.equal(false);
+    });
+
+    it("keeps the leader's escrow and wins when a lower bid lands last", async function () {
+      const [, alice, bob] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      await joinEncrypted(shadow, alice);
+      await joinEncrypted(shadow, bob);
+      const auctionId = await createEncryptedAuction(auction);
+
+      await placeEncryptedBid(auction, bob, auctionId, 450);
+      await placeEncryptedBid(auction, alice, auctionId, 200);
+      expect(await goldOf(shadow, bob)).to.equal(550n);
+      expect(await goldOf(shadow, alice)).to.equal(1000n);
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await auction.resolveAuction(auctionId);
+      await fulfillDecryptionRequests();
+      expect((await auction.auctions(auctionId)).resolvedWinner).to.equal(bob.address);
+      await expect(auction.connect(alice).claimReward(auctionId))
+        .to.be.revertedWithCustomError(auction, "NotWinner");
+
+      await auction.connect(bob).claimReward(auctionId);
+      expect(await goldOf(shadow, bob)).to.equal(550n);
+      expect(await decrypt((await shadow.getInventory(GAME_ID, bob.address))[GOOD_TYPE_GEMS - 1]!)).to.equal(1n);
+      expect(await goldOf(shadow, alice)).to.equal(1000n);
+      expect(await decrypt((await shadow.getInventory(GAME_ID, alice.address))[GOOD_TYPE_GEMS - 1]!)).to.equal(0n);
+    });
+
+    async function expectLeaderKeepsEscrowAfterRebid(rebid: number) {
+      const [, alice, bob] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      await joinEncrypted(shadow, alice);
+      await joinEncrypted(shadow, bob);
+      const auctionId = await createEncryptedAuction(auction);
+
+      await placeEncryptedBid(auction, alice, auctionId, 300);
+      await placeEncryptedBid(auction, bob, auctionId, 450);
+      await placeEncryptedBid(auction, bob, auctionId, rebid);
+      expect(await goldOf(shadow, bob)).to.equal(550n);
+      expect(await decrypt((await shadow.bidEscrows(auctionId, bob.address)).amount)).to.equal(450n);
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await auction.resolveAuction(auctionId);
+      await fulfillDecryptionRequests();
+      expect((await auction.auctions(auctionId)).resolvedWinner).to.equal(bob.address);
+
+      await auction.connect(bob).claimReward(auctionId);
+      expect(await goldOf(shadow, bob)).to.equal(550n);
+      expect(await decrypt((await shadow.getInventory(GAME_ID, bob.address))[GOOD_TYPE_GEMS - 1]!)).to.equal(1n);
+      expect(await goldOf(shadow, alice)).to.equal(1000n);
+    }
+
+    it("keeps the leader's escrow when the leader re-bids lower", async function () {
+      await expectLeaderKeepsEscrowAfterRebid(350);
+    });
+
+    it("keeps the leader's escrow when the leader re-bids above their remaining gold", async function () {
+      await expectLeaderKeepsEscrowAfterRebid(900);
+    });
+
+    it("moves the leader's escrow to a valid higher re-bid", async function () {
+      const [, alice, bob] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      await joinEncrypted(shadow, alice);
+      await joinEncrypted(shadow, bob);
+      const auctionId = await createEncryptedAuction(auction);
+
+      await placeEncryptedBid(auction, bob, auctionId, 300);
+      await placeEncryptedBid(auction, bob, auctionId, 500);
+      expect(await goldOf(shadow, bob)).to.equal(500n);
+      expect(await decrypt((await shadow.bidEscrows(auctionId, bob.address)).amount)).to.equal(500n);
+    });
+
+    it("re-locks only the latest plaintext bid of an encrypted player", async function () {
+      const [, player] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      await joinEncrypted(shadow, player);
+      await auction.createAuction(GOOD_TYPE_GEMS, plain(100), "0x", 60);
+      const auctionId = await auction.auctionCounter();
+
+      await auction.connect(player).placeBid(auctionId, plain(300), "0x");
+      await auction.connect(player).placeBid(auctionId, plain(400), "0x");
+      expect(await goldOf(shadow, player)).to.equal(600n);
+      expect(await decrypt((await shadow.bidEscrows(auctionId, player.address)).amount)).to.equal(400n);
+    });
+
+    it("charges an encrypted second-price winner the runner-up bid", async function () {
+      const [, alice, bob, carol] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      for (const player of [alice, bob, carol]) {
+        await joinEncrypted(shadow, player);
+      }
+      const auctionId = await createEncryptedAuction(auction, SECOND_PRICE);
+
+      await placeEncryptedBid(auction, alice, auctionId, 300);
+      // Below the leader: refunded, and too low to set the price
+      await placeEncryptedBid(auction, carol, auctionId, 250);
+      await placeEncryptedBid(auction, bob, auctionId, 450);
+
+      await ethers.provider.send("evm_increaseTime", [61]);
+      await auction.resolveAuction(auctionId);
+      await fulfillDecryptionRequests();
+      await auction.connect(bob).claimReward(auctionId);
+
+      const inventory = await shadow.getInventory(GAME_ID, bob.address);
+      expect(await goldOf(shadow, bob)).to.equal(700n);
+      expect(await decrypt(inventory[GOOD_TYPE_GEMS - 1]!)).to.equal(1n);
+      expect(await goldOf(shadow, alice)).to.equal(1000n);
+      expect(await goldOf(shadow, carol)).to.equal(1000n);
+    });
+
+    it("refuses an encrypted Dutch bid the gold cannot pay and charges the accepted one the price", async function () {
+      const [, alice, bob] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      await joinEncrypted(shadow, alice);
+      await joinEncrypted(shadow, bob);
+      const auctionAddress = await auction.getAddress();
+      const { handles, inputProof } = await createEncryptedInput(auctionAddress, auctionAddress).add64(100).encrypt();
+      // 1500 falling 10 per second: the public curve of an encrypted reserve ends at 0
+      await auction.createDutchAuction(GOOD_TYPE_GEMS, handles[0], inputProof, 150, 1500);
+      const auctionId = await auction.auctionCounter();
+      const { startTime } = await auction.auctions(auctionId);
+
+      // Covers the price (1400) but not with 1000 gold: nothing locked, refused
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime) + 10]);
+      await placeEncryptedBid(auction, alice, auctionId, 2000);
+      await fulfillDecryptionRequests();
+      expect(await goldOf(shadow, alice)).to.equal(1000n);
+      expect((await auction.auctions(auctionId)).isActive).to.equal(true);
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(startTime) + 70]);
+      await placeEncryptedBid(auction, bob, auctionId, 900);
+      expect(await goldOf(shadow, bob)).to.equal(200n);
+      expect(await fulfillDecryptionRequests()).to.equal(1);
+      expect((await auction.auctions(auctionId)).resolvedWinner).to.equal(bob.address);
+
+      await auction.connect(bob).claimReward(auctionId);
+      const inventory = await shadow.getInventory(GAME_ID, bob.address);
+      expect(await goldOf(shadow, bob)).to.equal(200n);
+      expect(await decrypt(inventory[GOOD_TYPE_GEMS - 1]!)).to.equal(1n);
+    });
+
+    it("locks nothing for a bid the encrypted gold cannot cover", async function () {
+      const [, player] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      await joinEncrypted(shadow, player);
+      const auctionId = await createEncryptedAuction(auction);
+
+      await placeEncryptedBid(auction, player, auctionId, 1500);
+
+      expect(await goldOf(shadow, player)).to.equal(1000n);
+      expect(await decrypt((await auction.bids(auctionId, player.address)).amount)).to.equal(0n);
+    });
+
+    it("withholds the good when encrypted gold does not cover the price", async function () {
+      const [, player] = await ethers.getSigners();
+      const { shadow, auction } = await deployLinkedContracts();
+      await joinEncrypted(shadow, player);
+
+      const auctionId = await winAuction(auction, player, 1500);
+      await auction.connect(player).claimReward(auctionId);
+
+      const profile = await shadow.players(GAME_ID, player.address);
+      const inventory = await shadow.getInventory(GAME_ID, player.address);
+      expect(await decrypt(profile.gold)).to.equal(1000n);
+      expect(await decrypt(inventory[GOOD_TYPE_GEMS - 1]!)).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface IProofVerificationCallbackInterface extends Interface {
+  getFunction(
+    nameOrSignature: "onProofRejected" | "onProofVerified"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "onProofRejected",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onProofVerified",
+    values: [BigNumberish, BytesLike[]]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "onProofRejected",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onProofVerified",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IProofVerificationCallback extends BaseContract {
+  connect(runner?: ContractRunner | null): IProofVerificationCallback;
+  waitForDeployment(): Promise<this>;
+
+  interface: IProofVerificationCallbackInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  onProofRejected: TypedContractMethod<
+    [zkProofId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  onProofVerified: TypedContractMethod<
+    [zkProofId: BigNumberish, verifiedHandles: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "onProofRejected"
+  ): TypedContractMethod<[zkProofId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "onProofVerified"
+  ): TypedContractMethod<
+    [zkProofId: BigNumberish, verifiedHandles: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  filters: {};
+}
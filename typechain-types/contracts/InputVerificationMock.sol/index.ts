@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IProofVerificationCallback } from "./IProofVerificationCallback";
+export type { InputVerificationMock } from "./InputVerificationMock";
@@ -0,0 +1,256 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface IShadowMerchantsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "forfeitBidGold"
+      | "lockBidGold"
+      | "releaseBidGold"
+      | "releaseBidGoldIf"
+      | "settleAuctionWin"
+      | "settleBidGoldIf"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "forfeitBidGold",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lockBidGold",
+    values: [AddressLike, BigNumberish, BytesLike, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseBidGold",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseBidGoldIf",
+    values: [AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleAuctionWin",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BigNumberish,
+      boolean
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleBidGoldIf",
+    values: [AddressLike, BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "forfeitBidGold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lockBidGold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseBidGold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseBidGoldIf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settleAuctionWin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settleBidGoldIf",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IShadowMerchants extends BaseContract {
+  connect(runner?: ContractRunner | null): IShadowMerchants;
+  waitForDeployment(): Promise<this>;
+
+  interface: IShadowMerchantsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  forfeitBidGold: TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  lockBidGold: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      amount: BytesLike,
+      amountPlain: BigNumberish,
+      amountIsPlaintext: boolean
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  releaseBidGold: TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  releaseBidGoldIf: TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish, release: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  settleAuctionWin: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      goodType: BigNumberish,
+      price: BytesLike,
+      pricePlain: BigNumberish,
+      priceIsPlaintext: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  settleBidGoldIf: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      locked: BytesLike,
+      accepted: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "forfeitBidGold"
+  ): TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "lockBidGold"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      amount: BytesLike,
+      amountPlain: BigNumberish,
+      amountIsPlaintext: boolean
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "releaseBidGold"
+  ): TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "releaseBidGoldIf"
+  ): TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish, release: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleAuctionWin"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      goodType: BigNumberish,
+      price: BytesLike,
+      pricePlain: BigNumberish,
+      priceIsPlaintext: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleBidGoldIf"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      locked: BytesLike,
+      accepted: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  filters: {};
+}
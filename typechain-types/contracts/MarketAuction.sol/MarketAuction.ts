@@ -23,10 +23,27 @@ import type {
   TypedContractMethod,
 } from "../../common";
 
+export declare namespace MarketAuction {
+  export type AuctionConfigStruct = {
+    auctionDuration: BigNumberish;
+    maxSimultaneousAuctions: BigNumberish;
+    revealDuration: BigNumberish;
+  };
+
+  export type AuctionConfigStructOutput = [
+    auctionDuration: bigint,
+    maxSimultaneousAuctions: bigint,
+    revealDuration: bigint
+  ] & {
+    auctionDuration: bigint;
+    maxSimultaneousAuctions: bigint;
+    revealDuration: bigint;
+  };
+}
+
 export interface MarketAuctionInterface extends Interface {
   getFunction(
     nameOrSignature:
-      | "AUCTION_DURATION"
       | "AUCTION_MANAGER_ROLE"
       | "DEFAULT_ADMIN_ROLE"
       | "GOOD_TYPE_ARTIFACTS"
@@ -34,16 +51,30 @@ export interface MarketAuctionInterface extends Interface {
       | "GOOD_TYPE_GOLD_BARS"
       | "GOOD_TYPE_SILK"
       | "GOOD_TYPE_SPICES"
-      | "MAX_SIMULTANEOUS_AUCTIONS"
+      | "MAX_AUCTIONS_LIMIT"
+      | "MAX_AUCTION_DURATION"
+      | "MIN_AUCTION_DURATION"
       | "_decryptReservePrice"
       | "activeAuctionCount"
       | "auctionCounter"
       | "auctionParticipants"
       | "auctions"
       | "batchResolveAuctions"
+      | "bidCommitment"
       | "bids"
       | "claimReward"
+      | "clearingPriceRevealPending"
+      | "clearingPriceRevealed"
+      | "clearingPrices"
+      | "commitBid"
+      | "config"
       | "createAuction"
+      | "createAuctionWithFormat"
+      | "createCommitRevealAuction"
+      | "createDutchAuction"
+      | "dutchBidRequestAuction"
+      | "dutchPendingBidder"
+      | "dutchPrice"
       | "emergencyEndAuction"
       | "getActiveAuctions"
       | "getAuctionInfo"
@@ -57,16 +88,29 @@ export interface MarketAuctionInterface extends Interface {
       | "hasRole"
       | "hasUserBid"
       | "inputVerificationAddress"
+      | "onClearingPriceDecrypted"
+      | "onDutchBidDecrypted"
+      | "onProofRejected"
       | "onProofVerified"
+      | "onWinnerDecrypted"
       | "pendingBids"
       | "placeBid"
       | "renounceRole"
+      | "resolutionTime"
       | "resolveAuction"
+      | "revealBid"
+      | "revealClearingPrice"
+      | "revealRequestAuction"
       | "revokeRole"
       | "rewardsClaimed"
+      | "setShadowMerchants"
+      | "shadowMerchants"
       | "supportsInterface"
       | "updateAuctionDuration"
+      | "updateConfig"
       | "useInputVerificationGateway"
+      | "winnerDecryptionPending"
+      | "winnerRequestAuction"
   ): FunctionFragment;
 
   getEvent(
@@ -74,19 +118,27 @@ export interface MarketAuctionInterface extends Interface {
       | "AuctionCreated"
       | "AuctionEnded"
       | "AuctionResolved"
+      | "BidCommitted"
+      | "BidForfeited"
       | "BidPlaced"
+      | "BidProofRejected"
       | "BidProofRequested"
       | "BidProofVerified"
+      | "BidRevealed"
+      | "ClearingPriceRevealRequested"
+      | "ClearingPriceRevealed"
+      | "ConfigUpdated"
+      | "DutchBidDecided"
+      | "DutchBidDecryptionRequested"
+      | "ReservePriceVerified"
       | "RewardClaimed"
       | "RoleAdminChanged"
       | "RoleGranted"
       | "RoleRevoked"
+      | "ShadowMerchantsUpdated"
+      | "WinnerDecryptionRequested"
   ): EventFragment;
 
-  encodeFunctionData(
-    functionFragment: "AUCTION_DURATION",
-    values?: undefined
-  ): string;
   encodeFunctionData(
     functionFragment: "AUCTION_MANAGER_ROLE",
     values?: undefined
@@ -116,7 +168,15 @@ export interface MarketAuctionInterface extends Interface {
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "MAX_SIMULTANEOUS_AUCTIONS",
+    functionFragment: "MAX_AUCTIONS_LIMIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_AUCTION_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_AUCTION_DURATION",
     values?: undefined
   ): string;
   encodeFunctionData(
@@ -143,6 +203,10 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "batchResolveAuctions",
     values: [BigNumberish[]]
   ): string;
+  encodeFunctionData(
+    functionFragment: "bidCommitment",
+    values: [AddressLike, BigNumberish, BigNumberish, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "bids",
     values: [BigNumberish, AddressLike]
@@ -151,10 +215,51 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "claimReward",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "clearingPriceRevealPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "clearingPriceRevealed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "clearingPrices",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "commitBid",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "config", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "createAuction",
     values: [BigNumberish, BytesLike, BytesLike, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "createAuctionWithFormat",
+    values: [BigNumberish, BytesLike, BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createCommitRevealAuction",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createDutchAuction",
+    values: [BigNumberish, BytesLike, BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dutchBidRequestAuction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dutchPendingBidder",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dutchPrice",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "emergencyEndAuction",
     values: [BigNumberish]
@@ -207,10 +312,26 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "inputVerificationAddress",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "onClearingPriceDecrypted",
+    values: [BigNumberish, BigNumberish, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onDutchBidDecrypted",
+    values: [BigNumberish, boolean, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onProofRejected",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "onProofVerified",
     values: [BigNumberish, BytesLike[]]
   ): string;
+  encodeFunctionData(
+    functionFragment: "onWinnerDecrypted",
+    values: [BigNumberish, AddressLike, BytesLike[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "pendingBids",
     values: [BigNumberish]
@@ -223,10 +344,26 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "renounceRole",
     values: [BytesLike, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "resolutionTime",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "resolveAuction",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "revealBid",
+    values: [BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealClearingPrice",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealRequestAuction",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "revokeRole",
     values: [BytesLike, AddressLike]
@@ -235,6 +372,14 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "rewardsClaimed",
     values: [BigNumberish, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setShadowMerchants",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shadowMerchants",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "supportsInterface",
     values: [BytesLike]
@@ -243,15 +388,23 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "updateAuctionDuration",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "updateConfig",
+    values: [MarketAuction.AuctionConfigStruct]
+  ): string;
   encodeFunctionData(
     functionFragment: "useInputVerificationGateway",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "winnerDecryptionPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerRequestAuction",
+    values: [BigNumberish]
+  ): string;
 
-  decodeFunctionResult(
-    functionFragment: "AUCTION_DURATION",
-    data: BytesLike
-  ): Result;
   decodeFunctionResult(
     functionFragment: "AUCTION_MANAGER_ROLE",
     data: BytesLike
@@ -281,7 +434,15 @@ export interface MarketAuctionInterface extends Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "MAX_SIMULTANEOUS_AUCTIONS",
+    functionFragment: "MAX_AUCTIONS_LIMIT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_AUCTION_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_AUCTION_DURATION",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
@@ -305,15 +466,54 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "batchResolveAuctions",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "bidCommitment",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "bids", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "claimReward",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "clearingPriceRevealPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "clearingPriceRevealed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "clearingPrices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "commitBid", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "config", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "createAuction",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "createAuctionWithFormat",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createCommitRevealAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createDutchAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "dutchBidRequestAuction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "dutchPendingBidder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dutchPrice", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "emergencyEndAuction",
     data: BytesLike
@@ -354,10 +554,26 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "inputVerificationAddress",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "onClearingPriceDecrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onDutchBidDecrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onProofRejected",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "onProofVerified",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "onWinnerDecrypted",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "pendingBids",
     data: BytesLike
@@ -367,15 +583,36 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "renounceRole",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolutionTime",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "resolveAuction",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "revealBid", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "revealClearingPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealRequestAuction",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "rewardsClaimed",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setShadowMerchants",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shadowMerchants",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "supportsInterface",
     data: BytesLike
@@ -384,10 +621,22 @@ export interface MarketAuctionInterface extends Interface {
     functionFragment: "updateAuctionDuration",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateConfig",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "useInputVerificationGateway",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerDecryptionPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerRequestAuction",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace AuctionCreatedEvent {
@@ -465,6 +714,53 @@ export namespace AuctionResolvedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace BidCommittedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    commitment: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    commitment: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    commitment: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidForfeitedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace BidPlacedEvent {
   export type InputTuple = [
     auctionId: BigNumberish,
@@ -487,6 +783,31 @@ export namespace BidPlacedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace BidProofRejectedEvent {
+  export type InputTuple = [
+    zkProofId: BigNumberish,
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    zkProofId: bigint,
+    auctionId: bigint,
+    bidder: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    zkProofId: bigint;
+    auctionId: bigint;
+    bidder: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace BidProofRequestedEvent {
   export type InputTuple = [
     auctionId: BigNumberish,
@@ -537,6 +858,162 @@ export namespace BidProofVerifiedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace BidRevealedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    amount: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    amount: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    amount: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClearingPriceRevealRequestedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    requestId: BigNumberish,
+    highestBidHandle: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    requestId: bigint,
+    highestBidHandle: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    requestId: bigint;
+    highestBidHandle: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClearingPriceRevealedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    clearingPrice: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    clearingPrice: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    clearingPrice: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfigUpdatedEvent {
+  export type InputTuple = [config: MarketAuction.AuctionConfigStruct];
+  export type OutputTuple = [config: MarketAuction.AuctionConfigStructOutput];
+  export interface OutputObject {
+    config: MarketAuction.AuctionConfigStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DutchBidDecidedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    accepted: boolean,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    accepted: boolean,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    accepted: boolean;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DutchBidDecryptionRequestedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    bidder: AddressLike,
+    requestId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    bidder: string,
+    requestId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    bidder: string;
+    requestId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReservePriceVerifiedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    zkProofId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    zkProofId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    zkProofId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace RewardClaimedEvent {
   export type InputTuple = [
     auctionId: BigNumberish,
@@ -620,6 +1097,40 @@ export namespace RoleRevokedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace ShadowMerchantsUpdatedEvent {
+  export type InputTuple = [shadowMerchants: AddressLike];
+  export type OutputTuple = [shadowMerchants: string];
+  export interface OutputObject {
+    shadowMerchants: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinnerDecryptionRequestedEvent {
+  export type InputTuple = [
+    auctionId: BigNumberish,
+    requestId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    auctionId: bigint,
+    requestId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    auctionId: bigint;
+    requestId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface MarketAuction extends BaseContract {
   connect(runner?: ContractRunner | null): MarketAuction;
   waitForDeployment(): Promise<this>;
@@ -663,8 +1174,6 @@ export interface MarketAuction extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
-  AUCTION_DURATION: TypedContractMethod<[], [bigint], "view">;
-
   AUCTION_MANAGER_ROLE: TypedContractMethod<[], [string], "view">;
 
   DEFAULT_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
@@ -679,7 +1188,11 @@ export interface MarketAuction extends BaseContract {
 
   GOOD_TYPE_SPICES: TypedContractMethod<[], [bigint], "view">;
 
-  MAX_SIMULTANEOUS_AUCTIONS: TypedContractMethod<[], [bigint], "view">;
+  MAX_AUCTIONS_LIMIT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_AUCTION_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_AUCTION_DURATION: TypedContractMethod<[], [bigint], "view">;
 
   _decryptReservePrice: TypedContractMethod<
     [reservePrice: BytesLike, proof: BytesLike],
@@ -716,6 +1229,12 @@ export interface MarketAuction extends BaseContract {
         string,
         boolean,
         bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        boolean,
+        bigint,
         bigint
       ] & {
         auctionId: bigint;
@@ -734,6 +1253,12 @@ export interface MarketAuction extends BaseContract {
         usesPlaintext: boolean;
         reservePricePlain: bigint;
         highestBidPlain: bigint;
+        format: bigint;
+        secondHighestBid: string;
+        secondHighestBidPlain: bigint;
+        usesCommitReveal: boolean;
+        revealEndTime: bigint;
+        startPricePlain: bigint;
       }
     ],
     "view"
@@ -745,10 +1270,31 @@ export interface MarketAuction extends BaseContract {
     "nonpayable"
   >;
 
+  bidCommitment: TypedContractMethod<
+    [
+      bidder: AddressLike,
+      auctionId: BigNumberish,
+      amount: BigNumberish,
+      salt: BytesLike
+    ],
+    [string],
+    "view"
+  >;
+
   bids: TypedContractMethod<
     [arg0: BigNumberish, arg1: AddressLike],
     [
-      [string, bigint, boolean, boolean, boolean, bigint, boolean, bigint] & {
+      [
+        string,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        bigint,
+        boolean,
+        bigint,
+        string
+      ] & {
         amount: string;
         timestamp: bigint;
         isActive: boolean;
@@ -757,6 +1303,7 @@ export interface MarketAuction extends BaseContract {
         amountPlain: bigint;
         isPendingVerification: boolean;
         zkProofId: bigint;
+        commitment: string;
       }
     ],
     "view"
@@ -768,6 +1315,38 @@ export interface MarketAuction extends BaseContract {
     "nonpayable"
   >;
 
+  clearingPriceRevealPending: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  clearingPriceRevealed: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  clearingPrices: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  commitBid: TypedContractMethod<
+    [auctionId: BigNumberish, commitment: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  config: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint] & {
+        auctionDuration: bigint;
+        maxSimultaneousAuctions: bigint;
+        revealDuration: bigint;
+      }
+    ],
+    "view"
+  >;
+
   createAuction: TypedContractMethod<
     [
       goodType: BigNumberish,
@@ -776,9 +1355,58 @@ export interface MarketAuction extends BaseContract {
       durationSeconds: BigNumberish
     ],
     [bigint],
-    "nonpayable"
+    "nonpayable"
+  >;
+
+  createAuctionWithFormat: TypedContractMethod<
+    [
+      goodType: BigNumberish,
+      reservePrice: BytesLike,
+      proof: BytesLike,
+      durationSeconds: BigNumberish,
+      format: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createCommitRevealAuction: TypedContractMethod<
+    [
+      goodType: BigNumberish,
+      reservePrice: BigNumberish,
+      durationSeconds: BigNumberish,
+      format: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createDutchAuction: TypedContractMethod<
+    [
+      goodType: BigNumberish,
+      reservePrice: BytesLike,
+      proof: BytesLike,
+      durationSeconds: BigNumberish,
+      startPrice: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  dutchBidRequestAuction: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  dutchPendingBidder: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
   >;
 
+  dutchPrice: TypedContractMethod<[auctionId: BigNumberish], [bigint], "view">;
+
   emergencyEndAuction: TypedContractMethod<
     [auctionId: BigNumberish],
     [void],
@@ -857,20 +1485,49 @@ export interface MarketAuction extends BaseContract {
 
   inputVerificationAddress: TypedContractMethod<[], [string], "view">;
 
+  onClearingPriceDecrypted: TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      clearingPrice: BigNumberish,
+      signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  onDutchBidDecrypted: TypedContractMethod<
+    [requestId: BigNumberish, accepted: boolean, signatures: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  onProofRejected: TypedContractMethod<
+    [zkProofId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   onProofVerified: TypedContractMethod<
     [zkProofId: BigNumberish, verifiedHandles: BytesLike[]],
     [void],
     "nonpayable"
   >;
 
+  onWinnerDecrypted: TypedContractMethod<
+    [requestId: BigNumberish, winner: AddressLike, signatures: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
   pendingBids: TypedContractMethod<
     [arg0: BigNumberish],
     [
-      [bigint, string, string, boolean] & {
+      [bigint, string, string, boolean, boolean] & {
         auctionId: bigint;
         bidder: string;
         bidAmount: string;
         isValid: boolean;
+        isReservePrice: boolean;
       }
     ],
     "view"
@@ -888,12 +1545,36 @@ export interface MarketAuction extends BaseContract {
     "nonpayable"
   >;
 
+  resolutionTime: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
   resolveAuction: TypedContractMethod<
     [auctionId: BigNumberish],
     [boolean],
     "nonpayable"
   >;
 
+  revealBid: TypedContractMethod<
+    [auctionId: BigNumberish, amount: BigNumberish, salt: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revealClearingPrice: TypedContractMethod<
+    [auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revealRequestAuction: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
   revokeRole: TypedContractMethod<
     [role: BytesLike, account: AddressLike],
     [void],
@@ -906,6 +1587,14 @@ export interface MarketAuction extends BaseContract {
     "view"
   >;
 
+  setShadowMerchants: TypedContractMethod<
+    [shadowMerchantsAddress: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  shadowMerchants: TypedContractMethod<[], [string], "view">;
+
   supportsInterface: TypedContractMethod<
     [interfaceId: BytesLike],
     [boolean],
@@ -918,15 +1607,30 @@ export interface MarketAuction extends BaseContract {
     "nonpayable"
   >;
 
+  updateConfig: TypedContractMethod<
+    [newConfig: MarketAuction.AuctionConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+
   useInputVerificationGateway: TypedContractMethod<[], [boolean], "view">;
 
+  winnerDecryptionPending: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  winnerRequestAuction: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
-  getFunction(
-    nameOrSignature: "AUCTION_DURATION"
-  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "AUCTION_MANAGER_ROLE"
   ): TypedContractMethod<[], [string], "view">;
@@ -949,7 +1653,13 @@ export interface MarketAuction extends BaseContract {
     nameOrSignature: "GOOD_TYPE_SPICES"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "MAX_SIMULTANEOUS_AUCTIONS"
+    nameOrSignature: "MAX_AUCTIONS_LIMIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_AUCTION_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_AUCTION_DURATION"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "_decryptReservePrice"
@@ -992,6 +1702,12 @@ export interface MarketAuction extends BaseContract {
         string,
         boolean,
         bigint,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        boolean,
+        bigint,
         bigint
       ] & {
         auctionId: bigint;
@@ -1010,6 +1726,12 @@ export interface MarketAuction extends BaseContract {
         usesPlaintext: boolean;
         reservePricePlain: bigint;
         highestBidPlain: bigint;
+        format: bigint;
+        secondHighestBid: string;
+        secondHighestBidPlain: bigint;
+        usesCommitReveal: boolean;
+        revealEndTime: bigint;
+        startPricePlain: bigint;
       }
     ],
     "view"
@@ -1017,12 +1739,34 @@ export interface MarketAuction extends BaseContract {
   getFunction(
     nameOrSignature: "batchResolveAuctions"
   ): TypedContractMethod<[auctionIds: BigNumberish[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "bidCommitment"
+  ): TypedContractMethod<
+    [
+      bidder: AddressLike,
+      auctionId: BigNumberish,
+      amount: BigNumberish,
+      salt: BytesLike
+    ],
+    [string],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "bids"
   ): TypedContractMethod<
     [arg0: BigNumberish, arg1: AddressLike],
     [
-      [string, bigint, boolean, boolean, boolean, bigint, boolean, bigint] & {
+      [
+        string,
+        bigint,
+        boolean,
+        boolean,
+        boolean,
+        bigint,
+        boolean,
+        bigint,
+        string
+      ] & {
         amount: string;
         timestamp: bigint;
         isActive: boolean;
@@ -1031,6 +1775,7 @@ export interface MarketAuction extends BaseContract {
         amountPlain: bigint;
         isPendingVerification: boolean;
         zkProofId: bigint;
+        commitment: string;
       }
     ],
     "view"
@@ -1038,6 +1783,35 @@ export interface MarketAuction extends BaseContract {
   getFunction(
     nameOrSignature: "claimReward"
   ): TypedContractMethod<[auctionId: BigNumberish], [boolean], "nonpayable">;
+  getFunction(
+    nameOrSignature: "clearingPriceRevealPending"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "clearingPriceRevealed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "clearingPrices"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "commitBid"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, commitment: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "config"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint] & {
+        auctionDuration: bigint;
+        maxSimultaneousAuctions: bigint;
+        revealDuration: bigint;
+      }
+    ],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "createAuction"
   ): TypedContractMethod<
@@ -1050,6 +1824,53 @@ export interface MarketAuction extends BaseContract {
     [bigint],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "createAuctionWithFormat"
+  ): TypedContractMethod<
+    [
+      goodType: BigNumberish,
+      reservePrice: BytesLike,
+      proof: BytesLike,
+      durationSeconds: BigNumberish,
+      format: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createCommitRevealAuction"
+  ): TypedContractMethod<
+    [
+      goodType: BigNumberish,
+      reservePrice: BigNumberish,
+      durationSeconds: BigNumberish,
+      format: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createDutchAuction"
+  ): TypedContractMethod<
+    [
+      goodType: BigNumberish,
+      reservePrice: BytesLike,
+      proof: BytesLike,
+      durationSeconds: BigNumberish,
+      startPrice: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "dutchBidRequestAuction"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "dutchPendingBidder"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "dutchPrice"
+  ): TypedContractMethod<[auctionId: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "emergencyEndAuction"
   ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
@@ -1129,6 +1950,27 @@ export interface MarketAuction extends BaseContract {
   getFunction(
     nameOrSignature: "inputVerificationAddress"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "onClearingPriceDecrypted"
+  ): TypedContractMethod<
+    [
+      requestId: BigNumberish,
+      clearingPrice: BigNumberish,
+      signatures: BytesLike[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "onDutchBidDecrypted"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, accepted: boolean, signatures: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "onProofRejected"
+  ): TypedContractMethod<[zkProofId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "onProofVerified"
   ): TypedContractMethod<
@@ -1136,16 +1978,24 @@ export interface MarketAuction extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "onWinnerDecrypted"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, winner: AddressLike, signatures: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "pendingBids"
   ): TypedContractMethod<
     [arg0: BigNumberish],
     [
-      [bigint, string, string, boolean] & {
+      [bigint, string, string, boolean, boolean] & {
         auctionId: bigint;
         bidder: string;
         bidAmount: string;
         isValid: boolean;
+        isReservePrice: boolean;
       }
     ],
     "view"
@@ -1164,9 +2014,25 @@ export interface MarketAuction extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "resolutionTime"
+  ): TypedContractMethod<[auctionId: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "resolveAuction"
   ): TypedContractMethod<[auctionId: BigNumberish], [boolean], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealBid"
+  ): TypedContractMethod<
+    [auctionId: BigNumberish, amount: BigNumberish, salt: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealClearingPrice"
+  ): TypedContractMethod<[auctionId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealRequestAuction"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "revokeRole"
   ): TypedContractMethod<
@@ -1181,15 +2047,38 @@ export interface MarketAuction extends BaseContract {
     [boolean],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "setShadowMerchants"
+  ): TypedContractMethod<
+    [shadowMerchantsAddress: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shadowMerchants"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "supportsInterface"
   ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "updateAuctionDuration"
   ): TypedContractMethod<[newDuration: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateConfig"
+  ): TypedContractMethod<
+    [newConfig: MarketAuction.AuctionConfigStruct],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "useInputVerificationGateway"
   ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "winnerDecryptionPending"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "winnerRequestAuction"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
 
   getEvent(
     key: "AuctionCreated"
@@ -1212,6 +2101,20 @@ export interface MarketAuction extends BaseContract {
     AuctionResolvedEvent.OutputTuple,
     AuctionResolvedEvent.OutputObject
   >;
+  getEvent(
+    key: "BidCommitted"
+  ): TypedContractEvent<
+    BidCommittedEvent.InputTuple,
+    BidCommittedEvent.OutputTuple,
+    BidCommittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidForfeited"
+  ): TypedContractEvent<
+    BidForfeitedEvent.InputTuple,
+    BidForfeitedEvent.OutputTuple,
+    BidForfeitedEvent.OutputObject
+  >;
   getEvent(
     key: "BidPlaced"
   ): TypedContractEvent<
@@ -1219,6 +2122,13 @@ export interface MarketAuction extends BaseContract {
     BidPlacedEvent.OutputTuple,
     BidPlacedEvent.OutputObject
   >;
+  getEvent(
+    key: "BidProofRejected"
+  ): TypedContractEvent<
+    BidProofRejectedEvent.InputTuple,
+    BidProofRejectedEvent.OutputTuple,
+    BidProofRejectedEvent.OutputObject
+  >;
   getEvent(
     key: "BidProofRequested"
   ): TypedContractEvent<
@@ -1233,6 +2143,55 @@ export interface MarketAuction extends BaseContract {
     BidProofVerifiedEvent.OutputTuple,
     BidProofVerifiedEvent.OutputObject
   >;
+  getEvent(
+    key: "BidRevealed"
+  ): TypedContractEvent<
+    BidRevealedEvent.InputTuple,
+    BidRevealedEvent.OutputTuple,
+    BidRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ClearingPriceRevealRequested"
+  ): TypedContractEvent<
+    ClearingPriceRevealRequestedEvent.InputTuple,
+    ClearingPriceRevealRequestedEvent.OutputTuple,
+    ClearingPriceRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ClearingPriceRevealed"
+  ): TypedContractEvent<
+    ClearingPriceRevealedEvent.InputTuple,
+    ClearingPriceRevealedEvent.OutputTuple,
+    ClearingPriceRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfigUpdated"
+  ): TypedContractEvent<
+    ConfigUpdatedEvent.InputTuple,
+    ConfigUpdatedEvent.OutputTuple,
+    ConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DutchBidDecided"
+  ): TypedContractEvent<
+    DutchBidDecidedEvent.InputTuple,
+    DutchBidDecidedEvent.OutputTuple,
+    DutchBidDecidedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DutchBidDecryptionRequested"
+  ): TypedContractEvent<
+    DutchBidDecryptionRequestedEvent.InputTuple,
+    DutchBidDecryptionRequestedEvent.OutputTuple,
+    DutchBidDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReservePriceVerified"
+  ): TypedContractEvent<
+    ReservePriceVerifiedEvent.InputTuple,
+    ReservePriceVerifiedEvent.OutputTuple,
+    ReservePriceVerifiedEvent.OutputObject
+  >;
   getEvent(
     key: "RewardClaimed"
   ): TypedContractEvent<
@@ -1261,6 +2220,20 @@ export interface MarketAuction extends BaseContract {
     RoleRevokedEvent.OutputTuple,
     RoleRevokedEvent.OutputObject
   >;
+  getEvent(
+    key: "ShadowMerchantsUpdated"
+  ): TypedContractEvent<
+    ShadowMerchantsUpdatedEvent.InputTuple,
+    ShadowMerchantsUpdatedEvent.OutputTuple,
+    ShadowMerchantsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinnerDecryptionRequested"
+  ): TypedContractEvent<
+    WinnerDecryptionRequestedEvent.InputTuple,
+    WinnerDecryptionRequestedEvent.OutputTuple,
+    WinnerDecryptionRequestedEvent.OutputObject
+  >;
 
   filters: {
     "AuctionCreated(uint256,uint8,address,uint256,uint256)": TypedContractEvent<
@@ -1296,6 +2269,28 @@ export interface MarketAuction extends BaseContract {
       AuctionResolvedEvent.OutputObject
     >;
 
+    "BidCommitted(uint256,address,bytes32,uint256)": TypedContractEvent<
+      BidCommittedEvent.InputTuple,
+      BidCommittedEvent.OutputTuple,
+      BidCommittedEvent.OutputObject
+    >;
+    BidCommitted: TypedContractEvent<
+      BidCommittedEvent.InputTuple,
+      BidCommittedEvent.OutputTuple,
+      BidCommittedEvent.OutputObject
+    >;
+
+    "BidForfeited(uint256,address,uint256)": TypedContractEvent<
+      BidForfeitedEvent.InputTuple,
+      BidForfeitedEvent.OutputTuple,
+      BidForfeitedEvent.OutputObject
+    >;
+    BidForfeited: TypedContractEvent<
+      BidForfeitedEvent.InputTuple,
+      BidForfeitedEvent.OutputTuple,
+      BidForfeitedEvent.OutputObject
+    >;
+
     "BidPlaced(uint256,address,uint256)": TypedContractEvent<
       BidPlacedEvent.InputTuple,
       BidPlacedEvent.OutputTuple,
@@ -1307,6 +2302,17 @@ export interface MarketAuction extends BaseContract {
       BidPlacedEvent.OutputObject
     >;
 
+    "BidProofRejected(uint256,uint256,address,uint256)": TypedContractEvent<
+      BidProofRejectedEvent.InputTuple,
+      BidProofRejectedEvent.OutputTuple,
+      BidProofRejectedEvent.OutputObject
+    >;
+    BidProofRejected: TypedContractEvent<
+      BidProofRejectedEvent.InputTuple,
+      BidProofRejectedEvent.OutputTuple,
+      BidProofRejectedEvent.OutputObject
+    >;
+
     "BidProofRequested(uint256,address,uint256,uint256)": TypedContractEvent<
       BidProofRequestedEvent.InputTuple,
       BidProofRequestedEvent.OutputTuple,
@@ -1329,6 +2335,83 @@ export interface MarketAuction extends BaseContract {
       BidProofVerifiedEvent.OutputObject
     >;
 
+    "BidRevealed(uint256,address,uint64,uint256)": TypedContractEvent<
+      BidRevealedEvent.InputTuple,
+      BidRevealedEvent.OutputTuple,
+      BidRevealedEvent.OutputObject
+    >;
+    BidRevealed: TypedContractEvent<
+      BidRevealedEvent.InputTuple,
+      BidRevealedEvent.OutputTuple,
+      BidRevealedEvent.OutputObject
+    >;
+
+    "ClearingPriceRevealRequested(uint256,uint256,bytes32,uint256)": TypedContractEvent<
+      ClearingPriceRevealRequestedEvent.InputTuple,
+      ClearingPriceRevealRequestedEvent.OutputTuple,
+      ClearingPriceRevealRequestedEvent.OutputObject
+    >;
+    ClearingPriceRevealRequested: TypedContractEvent<
+      ClearingPriceRevealRequestedEvent.InputTuple,
+      ClearingPriceRevealRequestedEvent.OutputTuple,
+      ClearingPriceRevealRequestedEvent.OutputObject
+    >;
+
+    "ClearingPriceRevealed(uint256,uint64,uint256)": TypedContractEvent<
+      ClearingPriceRevealedEvent.InputTuple,
+      ClearingPriceRevealedEvent.OutputTuple,
+      ClearingPriceRevealedEvent.OutputObject
+    >;
+    ClearingPriceRevealed: TypedContractEvent<
+      ClearingPriceRevealedEvent.InputTuple,
+      ClearingPriceRevealedEvent.OutputTuple,
+      ClearingPriceRevealedEvent.OutputObject
+    >;
+
+    "ConfigUpdated(tuple)": TypedContractEvent<
+      ConfigUpdatedEvent.InputTuple,
+      ConfigUpdatedEvent.OutputTuple,
+      ConfigUpdatedEvent.OutputObject
+    >;
+    ConfigUpdated: TypedContractEvent<
+      ConfigUpdatedEvent.InputTuple,
+      ConfigUpdatedEvent.OutputTuple,
+      ConfigUpdatedEvent.OutputObject
+    >;
+
+    "DutchBidDecided(uint256,address,bool,uint256)": TypedContractEvent<
+      DutchBidDecidedEvent.InputTuple,
+      DutchBidDecidedEvent.OutputTuple,
+      DutchBidDecidedEvent.OutputObject
+    >;
+    DutchBidDecided: TypedContractEvent<
+      DutchBidDecidedEvent.InputTuple,
+      DutchBidDecidedEvent.OutputTuple,
+      DutchBidDecidedEvent.OutputObject
+    >;
+
+    "DutchBidDecryptionRequested(uint256,address,uint256,uint256)": TypedContractEvent<
+      DutchBidDecryptionRequestedEvent.InputTuple,
+      DutchBidDecryptionRequestedEvent.OutputTuple,
+      DutchBidDecryptionRequestedEvent.OutputObject
+    >;
+    DutchBidDecryptionRequested: TypedContractEvent<
+      DutchBidDecryptionRequestedEvent.InputTuple,
+      DutchBidDecryptionRequestedEvent.OutputTuple,
+      DutchBidDecryptionRequestedEvent.OutputObject
+    >;
+
+    "ReservePriceVerified(uint256,uint256,uint256)": TypedContractEvent<
+      ReservePriceVerifiedEvent.InputTuple,
+      ReservePriceVerifiedEvent.OutputTuple,
+      ReservePriceVerifiedEvent.OutputObject
+    >;
+    ReservePriceVerified: TypedContractEvent<
+      ReservePriceVerifiedEvent.InputTuple,
+      ReservePriceVerifiedEvent.OutputTuple,
+      ReservePriceVerifiedEvent.OutputObject
+    >;
+
     "RewardClaimed(uint256,address,uint8,uint256)": TypedContractEvent<
       RewardClaimedEvent.InputTuple,
       RewardClaimedEvent.OutputTuple,
@@ -1372,5 +2455,27 @@ export interface MarketAuction extends BaseContract {
       RoleRevokedEvent.OutputTuple,
       RoleRevokedEvent.OutputObject
     >;
+
+    "ShadowMerchantsUpdated(address)": TypedContractEvent<
+      ShadowMerchantsUpdatedEvent.InputTuple,
+      ShadowMerchantsUpdatedEvent.OutputTuple,
+      ShadowMerchantsUpdatedEvent.OutputObject
+    >;
+    ShadowMerchantsUpdated: TypedContractEvent<
+      ShadowMerchantsUpdatedEvent.InputTuple,
+      ShadowMerchantsUpdatedEvent.OutputTuple,
+      ShadowMerchantsUpdatedEvent.OutputObject
+    >;
+
+    "WinnerDecryptionRequested(uint256,uint256,uint256)": TypedContractEvent<
+      WinnerDecryptionRequestedEvent.InputTuple,
+      WinnerDecryptionRequestedEvent.OutputTuple,
+      WinnerDecryptionRequestedEvent.OutputObject
+    >;
+    WinnerDecryptionRequested: TypedContractEvent<
+      WinnerDecryptionRequestedEvent.InputTuple,
+      WinnerDecryptionRequestedEvent.OutputTuple,
+      WinnerDecryptionRequestedEvent.OutputObject
+    >;
   };
 }
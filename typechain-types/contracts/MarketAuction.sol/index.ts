@@ -2,4 +2,5 @@
 /* tslint:disable */
 /* eslint-disable */
 export type { IInputVerification } from "./IInputVerification";
+export type { IShadowMerchants } from "./IShadowMerchants";
 export type { MarketAuction } from "./MarketAuction";
@@ -23,28 +23,63 @@ import type {
   TypedContractMethod,
 } from "../common";
 
+export declare namespace ShadowMerchants {
+  export type GameConfigStruct = {
+    initialGold: BigNumberish;
+    energyRegenAmount: BigNumberish;
+    maxPlayers: BigNumberish;
+    maxRounds: BigNumberish;
+    roundDuration: BigNumberish;
+  };
+
+  export type GameConfigStructOutput = [
+    initialGold: bigint,
+    energyRegenAmount: bigint,
+    maxPlayers: bigint,
+    maxRounds: bigint,
+    roundDuration: bigint
+  ] & {
+    initialGold: bigint;
+    energyRegenAmount: bigint;
+    maxPlayers: bigint;
+    maxRounds: bigint;
+    roundDuration: bigint;
+  };
+}
+
 export interface ShadowMerchantsInterface extends Interface {
   getFunction(
     nameOrSignature:
       | "AUCTION_ROLE"
       | "DEFAULT_ADMIN_ROLE"
-      | "ENERGY_REGEN_AMOUNT"
       | "ENERGY_REGEN_INTERVAL"
       | "GAME_MANAGER_ROLE"
       | "INITIAL_ENERGY"
-      | "INITIAL_GOLD"
       | "INITIAL_REPUTATION"
       | "MAX_ENERGY"
-      | "MAX_PLAYERS"
-      | "MAX_ROUNDS"
+      | "MAX_INITIAL_GOLD"
+      | "MAX_PLAYERS_LIMIT"
+      | "MAX_ROUNDS_LIMIT"
+      | "MAX_ROUND_DURATION"
+      | "MIN_ROUND_DURATION"
       | "MISSION_ROLE"
-      | "ROUND_DURATION"
+      | "SCORE_ITEM_VALUE"
+      | "SCORE_REPUTATION_WEIGHT"
       | "activePlayers"
+      | "bidEscrows"
       | "canPlayerAct"
+      | "config"
+      | "createGame"
+      | "currentGame"
       | "endGame"
-      | "gameState"
+      | "forfeitBidGold"
+      | "gameCounter"
+      | "games"
+      | "getActiveGames"
       | "getActivePlayers"
       | "getGameInfo"
+      | "getInventory"
+      | "getPlaintextResources"
       | "getPlayerInfo"
       | "getRoleAdmin"
       | "grantAuctionRole"
@@ -53,22 +88,36 @@ export interface ShadowMerchantsInterface extends Interface {
       | "hasRole"
       | "joinGame"
       | "leaveGame"
+      | "lockBidGold"
+      | "onWinnerDecrypted"
       | "players"
       | "progressRound"
       | "regenerateEnergy"
+      | "releaseBidGold"
+      | "releaseBidGoldIf"
       | "renounceRole"
       | "revokeRole"
+      | "settleAuctionWin"
+      | "settleBidGoldIf"
       | "spendEnergy"
       | "spendGold"
-      | "startGame"
       | "supportsInterface"
+      | "updateConfig"
+      | "winnerDecryptionGame"
+      | "winnerDecryptionPending"
+      | "winnerDecryptionRequestId"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "BidGoldForfeited"
+      | "BidGoldLocked"
+      | "BidGoldReleased"
+      | "ConfigUpdated"
       | "EnergyRegenerated"
+      | "GameCreated"
       | "GameEnded"
-      | "GameStarted"
+      | "InventoryCredited"
       | "PlayerJoined"
       | "PlayerLeft"
       | "ResourcesUpdated"
@@ -76,6 +125,7 @@ export interface ShadowMerchantsInterface extends Interface {
       | "RoleGranted"
       | "RoleRevoked"
       | "RoundProgressed"
+      | "WinnerDecryptionRequested"
   ): EventFragment;
 
   encodeFunctionData(
@@ -86,10 +136,6 @@ export interface ShadowMerchantsInterface extends Interface {
     functionFragment: "DEFAULT_ADMIN_ROLE",
     values?: undefined
   ): string;
-  encodeFunctionData(
-    functionFragment: "ENERGY_REGEN_AMOUNT",
-    values?: undefined
-  ): string;
   encodeFunctionData(
     functionFragment: "ENERGY_REGEN_INTERVAL",
     values?: undefined
@@ -103,23 +149,31 @@ export interface ShadowMerchantsInterface extends Interface {
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "INITIAL_GOLD",
+    functionFragment: "INITIAL_REPUTATION",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "INITIAL_REPUTATION",
+    functionFragment: "MAX_ENERGY",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "MAX_ENERGY",
+    functionFragment: "MAX_INITIAL_GOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PLAYERS_LIMIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ROUNDS_LIMIT",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "MAX_PLAYERS",
+    functionFragment: "MAX_ROUND_DURATION",
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "MAX_ROUNDS",
+    functionFragment: "MIN_ROUND_DURATION",
     values?: undefined
   ): string;
   encodeFunctionData(
@@ -127,30 +181,70 @@ export interface ShadowMerchantsInterface extends Interface {
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "ROUND_DURATION",
+    functionFragment: "SCORE_ITEM_VALUE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SCORE_REPUTATION_WEIGHT",
     values?: undefined
   ): string;
   encodeFunctionData(
     functionFragment: "activePlayers",
-    values: [BigNumberish]
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bidEscrows",
+    values: [BigNumberish, AddressLike]
   ): string;
   encodeFunctionData(
     functionFragment: "canPlayerAct",
     values: [AddressLike]
   ): string;
-  encodeFunctionData(functionFragment: "endGame", values?: undefined): string;
-  encodeFunctionData(functionFragment: "gameState", values?: undefined): string;
+  encodeFunctionData(functionFragment: "config", values?: undefined): string;
   encodeFunctionData(
-    functionFragment: "getActivePlayers",
+    functionFragment: "createGame",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentGame",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "endGame",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "forfeitBidGold",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "gameCounter",
     values?: undefined
   ): string;
+  encodeFunctionData(functionFragment: "games", values: [BigNumberish]): string;
   encodeFunctionData(
-    functionFragment: "getGameInfo",
+    functionFragment: "getActiveGames",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getActivePlayers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGameInfo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInventory",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlaintextResources",
+    values: [BigNumberish, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getPlayerInfo",
-    values: [AddressLike]
+    values: [BigNumberish, AddressLike]
   ): string;
   encodeFunctionData(
     functionFragment: "getRoleAdmin",
@@ -174,21 +268,45 @@ export interface ShadowMerchantsInterface extends Interface {
   ): string;
   encodeFunctionData(
     functionFragment: "joinGame",
-    values: [BytesLike, BytesLike, BytesLike, BytesLike, BytesLike, BytesLike]
+    values: [
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
   ): string;
   encodeFunctionData(functionFragment: "leaveGame", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "lockBidGold",
+    values: [AddressLike, BigNumberish, BytesLike, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onWinnerDecrypted",
+    values: [BigNumberish, AddressLike, BytesLike[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "players",
-    values: [AddressLike]
+    values: [BigNumberish, AddressLike]
   ): string;
   encodeFunctionData(
     functionFragment: "progressRound",
-    values?: undefined
+    values: [BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "regenerateEnergy",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "releaseBidGold",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseBidGoldIf",
+    values: [AddressLike, BigNumberish, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "renounceRole",
     values: [BytesLike, AddressLike]
@@ -197,6 +315,21 @@ export interface ShadowMerchantsInterface extends Interface {
     functionFragment: "revokeRole",
     values: [BytesLike, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "settleAuctionWin",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BigNumberish,
+      boolean
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleBidGoldIf",
+    values: [AddressLike, BigNumberish, BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "spendEnergy",
     values: [BytesLike, BytesLike]
@@ -205,11 +338,26 @@ export interface ShadowMerchantsInterface extends Interface {
     functionFragment: "spendGold",
     values: [BytesLike, BytesLike]
   ): string;
-  encodeFunctionData(functionFragment: "startGame", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "supportsInterface",
     values: [BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "updateConfig",
+    values: [ShadowMerchants.GameConfigStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerDecryptionGame",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerDecryptionPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerDecryptionRequestId",
+    values: [BigNumberish]
+  ): string;
 
   decodeFunctionResult(
     functionFragment: "AUCTION_ROLE",
@@ -219,10 +367,6 @@ export interface ShadowMerchantsInterface extends Interface {
     functionFragment: "DEFAULT_ADMIN_ROLE",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(
-    functionFragment: "ENERGY_REGEN_AMOUNT",
-    data: BytesLike
-  ): Result;
   decodeFunctionResult(
     functionFragment: "ENERGY_REGEN_INTERVAL",
     data: BytesLike
@@ -236,37 +380,71 @@ export interface ShadowMerchantsInterface extends Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "INITIAL_GOLD",
+    functionFragment: "INITIAL_REPUTATION",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "MAX_ENERGY", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "INITIAL_REPUTATION",
+    functionFragment: "MAX_INITIAL_GOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PLAYERS_LIMIT",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "MAX_ENERGY", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "MAX_PLAYERS",
+    functionFragment: "MAX_ROUNDS_LIMIT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_ROUND_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_ROUND_DURATION",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "MAX_ROUNDS", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "MISSION_ROLE",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "ROUND_DURATION",
+    functionFragment: "SCORE_ITEM_VALUE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SCORE_REPUTATION_WEIGHT",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
     functionFragment: "activePlayers",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "bidEscrows", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "canPlayerAct",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "config", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "createGame", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "currentGame",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "endGame", data: BytesLike): Result;
-  decodeFunctionResult(functionFragment: "gameState", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "forfeitBidGold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "gameCounter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "games", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveGames",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getActivePlayers",
     data: BytesLike
@@ -275,6 +453,14 @@ export interface ShadowMerchantsInterface extends Interface {
     functionFragment: "getGameInfo",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInventory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlaintextResources",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getPlayerInfo",
     data: BytesLike
@@ -295,6 +481,14 @@ export interface ShadowMerchantsInterface extends Interface {
   decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "joinGame", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "leaveGame", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lockBidGold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onWinnerDecrypted",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "players", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "progressRound",
@@ -304,21 +498,130 @@ export interface ShadowMerchantsInterface extends Interface {
     functionFragment: "regenerateEnergy",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseBidGold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseBidGoldIf",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "renounceRole",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "settleAuctionWin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settleBidGoldIf",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "spendEnergy",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "spendGold", data: BytesLike): Result;
-  decodeFunctionResult(functionFragment: "startGame", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "supportsInterface",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerDecryptionGame",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerDecryptionPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerDecryptionRequestId",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BidGoldForfeitedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    auctionId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    auctionId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    auctionId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidGoldLockedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    auctionId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    auctionId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    auctionId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidGoldReleasedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    auctionId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    auctionId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    auctionId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfigUpdatedEvent {
+  export type InputTuple = [config: ShadowMerchants.GameConfigStruct];
+  export type OutputTuple = [config: ShadowMerchants.GameConfigStructOutput];
+  export interface OutputObject {
+    config: ShadowMerchants.GameConfigStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
 }
 
 export namespace EnergyRegeneratedEvent {
@@ -334,10 +637,46 @@ export namespace EnergyRegeneratedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace GameCreatedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    creator: AddressLike,
+    maxPlayers: BigNumberish,
+    roundDuration: BigNumberish,
+    maxRounds: BigNumberish,
+    startTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    creator: string,
+    maxPlayers: bigint,
+    roundDuration: bigint,
+    maxRounds: bigint,
+    startTime: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    creator: string;
+    maxPlayers: bigint;
+    roundDuration: bigint;
+    maxRounds: bigint;
+    startTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace GameEndedEvent {
-  export type InputTuple = [winner: AddressLike, endTime: BigNumberish];
-  export type OutputTuple = [winner: string, endTime: bigint];
+  export type InputTuple = [
+    gameId: BigNumberish,
+    winner: AddressLike,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [gameId: bigint, winner: string, endTime: bigint];
   export interface OutputObject {
+    gameId: bigint;
     winner: string;
     endTime: bigint;
   }
@@ -347,12 +686,21 @@ export namespace GameEndedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace GameStartedEvent {
-  export type InputTuple = [startTime: BigNumberish, maxPlayers: BigNumberish];
-  export type OutputTuple = [startTime: bigint, maxPlayers: bigint];
+export namespace InventoryCreditedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    goodType: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    goodType: bigint,
+    timestamp: bigint
+  ];
   export interface OutputObject {
-    startTime: bigint;
-    maxPlayers: bigint;
+    player: string;
+    goodType: bigint;
+    timestamp: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -361,9 +709,14 @@ export namespace GameStartedEvent {
 }
 
 export namespace PlayerJoinedEvent {
-  export type InputTuple = [player: AddressLike, round: BigNumberish];
-  export type OutputTuple = [player: string, round: bigint];
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    round: BigNumberish
+  ];
+  export type OutputTuple = [gameId: bigint, player: string, round: bigint];
   export interface OutputObject {
+    gameId: bigint;
     player: string;
     round: bigint;
   }
@@ -374,9 +727,14 @@ export namespace PlayerJoinedEvent {
 }
 
 export namespace PlayerLeftEvent {
-  export type InputTuple = [player: AddressLike, round: BigNumberish];
-  export type OutputTuple = [player: string, round: bigint];
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    round: BigNumberish
+  ];
+  export type OutputTuple = [gameId: bigint, player: string, round: bigint];
   export interface OutputObject {
+    gameId: bigint;
     player: string;
     round: bigint;
   }
@@ -458,9 +816,18 @@ export namespace RoleRevokedEvent {
 }
 
 export namespace RoundProgressedEvent {
-  export type InputTuple = [newRound: BigNumberish, timestamp: BigNumberish];
-  export type OutputTuple = [newRound: bigint, timestamp: bigint];
+  export type InputTuple = [
+    gameId: BigNumberish,
+    newRound: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    newRound: bigint,
+    timestamp: bigint
+  ];
   export interface OutputObject {
+    gameId: bigint;
     newRound: bigint;
     timestamp: bigint;
   }
@@ -470,6 +837,28 @@ export namespace RoundProgressedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace WinnerDecryptionRequestedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    requestId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    requestId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    requestId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface ShadowMerchants extends BaseContract {
   connect(runner?: ContractRunner | null): ShadowMerchants;
   waitForDeployment(): Promise<this>;
@@ -517,29 +906,50 @@ export interface ShadowMerchants extends BaseContract {
 
   DEFAULT_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
 
-  ENERGY_REGEN_AMOUNT: TypedContractMethod<[], [bigint], "view">;
-
   ENERGY_REGEN_INTERVAL: TypedContractMethod<[], [bigint], "view">;
 
   GAME_MANAGER_ROLE: TypedContractMethod<[], [string], "view">;
 
   INITIAL_ENERGY: TypedContractMethod<[], [bigint], "view">;
 
-  INITIAL_GOLD: TypedContractMethod<[], [bigint], "view">;
-
   INITIAL_REPUTATION: TypedContractMethod<[], [bigint], "view">;
 
   MAX_ENERGY: TypedContractMethod<[], [bigint], "view">;
 
-  MAX_PLAYERS: TypedContractMethod<[], [bigint], "view">;
+  MAX_INITIAL_GOLD: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PLAYERS_LIMIT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ROUNDS_LIMIT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ROUND_DURATION: TypedContractMethod<[], [bigint], "view">;
 
-  MAX_ROUNDS: TypedContractMethod<[], [bigint], "view">;
+  MIN_ROUND_DURATION: TypedContractMethod<[], [bigint], "view">;
 
   MISSION_ROLE: TypedContractMethod<[], [string], "view">;
 
-  ROUND_DURATION: TypedContractMethod<[], [bigint], "view">;
+  SCORE_ITEM_VALUE: TypedContractMethod<[], [bigint], "view">;
 
-  activePlayers: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  SCORE_REPUTATION_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  activePlayers: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  bidEscrows: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, bigint, bigint, boolean] & {
+        amount: string;
+        amountPlain: bigint;
+        gameId: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
 
   canPlayerAct: TypedContractMethod<
     [playerAddress: AddressLike],
@@ -547,31 +957,98 @@ export interface ShadowMerchants extends BaseContract {
     "view"
   >;
 
-  endGame: TypedContractMethod<[], [void], "nonpayable">;
-
-  gameState: TypedContractMethod<
+  config: TypedContractMethod<
     [],
     [
-      [bigint, bigint, bigint, bigint, bigint, boolean, boolean, string] & {
+      [bigint, bigint, bigint, bigint, bigint] & {
+        initialGold: bigint;
+        energyRegenAmount: bigint;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        roundDuration: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  createGame: TypedContractMethod<
+    [
+      maxPlayers: BigNumberish,
+      roundDuration: BigNumberish,
+      maxRounds: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  currentGame: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  endGame: TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+
+  forfeitBidGold: TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  gameCounter: TypedContractMethod<[], [bigint], "view">;
+
+  games: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        string
+      ] & {
         currentRound: bigint;
         gameStartTime: bigint;
         lastRoundTime: bigint;
+        roundDuration: bigint;
         maxPlayers: bigint;
+        maxRounds: bigint;
         playerCount: bigint;
         gameActive: boolean;
         gameEnded: boolean;
         winner: string;
+        creator: string;
       }
     ],
     "view"
   >;
 
-  getActivePlayers: TypedContractMethod<[], [string[]], "view">;
+  getActiveGames: TypedContractMethod<[], [bigint[]], "view">;
+
+  getActivePlayers: TypedContractMethod<
+    [gameId: BigNumberish],
+    [string[]],
+    "view"
+  >;
 
   getGameInfo: TypedContractMethod<
-    [],
+    [gameId: BigNumberish],
     [
-      [bigint, bigint, bigint, bigint, boolean, boolean, string] & {
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string
+      ] & {
         currentRound: bigint;
         gameStartTime: bigint;
         lastRoundTime: bigint;
@@ -579,13 +1056,37 @@ export interface ShadowMerchants extends BaseContract {
         gameActive: boolean;
         gameEnded: boolean;
         winner: string;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        roundDuration: bigint;
+        creator: string;
+      }
+    ],
+    "view"
+  >;
+
+  getInventory: TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  getPlaintextResources: TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint, bigint[]] & {
+        usesPlaintext: boolean;
+        gold: bigint;
+        reputation: bigint;
+        energy: bigint;
+        inventory: bigint[];
       }
     ],
     "view"
   >;
 
   getPlayerInfo: TypedContractMethod<
-    [playerAddress: AddressLike],
+    [gameId: BigNumberish, playerAddress: AddressLike],
     [
       [boolean, boolean, bigint, bigint, bigint] & {
         isActive: boolean;
@@ -626,6 +1127,7 @@ export interface ShadowMerchants extends BaseContract {
 
   joinGame: TypedContractMethod<
     [
+      gameId: BigNumberish,
       encryptedGold: BytesLike,
       goldProof: BytesLike,
       encryptedReputation: BytesLike,
@@ -639,8 +1141,26 @@ export interface ShadowMerchants extends BaseContract {
 
   leaveGame: TypedContractMethod<[], [void], "nonpayable">;
 
+  lockBidGold: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      amount: BytesLike,
+      amountPlain: BigNumberish,
+      amountIsPlaintext: boolean
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  onWinnerDecrypted: TypedContractMethod<
+    [requestId: BigNumberish, winner: AddressLike, signatures: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
   players: TypedContractMethod<
-    [arg0: AddressLike],
+    [arg0: BigNumberish, arg1: AddressLike],
     [
       [
         string,
@@ -675,10 +1195,26 @@ export interface ShadowMerchants extends BaseContract {
     "view"
   >;
 
-  progressRound: TypedContractMethod<[], [void], "nonpayable">;
+  progressRound: TypedContractMethod<
+    [gameId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
 
   regenerateEnergy: TypedContractMethod<[], [void], "nonpayable">;
 
+  releaseBidGold: TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  releaseBidGoldIf: TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish, release: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
   renounceRole: TypedContractMethod<
     [role: BytesLike, callerConfirmation: AddressLike],
     [void],
@@ -691,6 +1227,30 @@ export interface ShadowMerchants extends BaseContract {
     "nonpayable"
   >;
 
+  settleAuctionWin: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      goodType: BigNumberish,
+      price: BytesLike,
+      pricePlain: BigNumberish,
+      priceIsPlaintext: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  settleBidGoldIf: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      locked: BytesLike,
+      accepted: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
   spendEnergy: TypedContractMethod<
     [amount: BytesLike, proof: BytesLike],
     [void],
@@ -703,14 +1263,36 @@ export interface ShadowMerchants extends BaseContract {
     "nonpayable"
   >;
 
-  startGame: TypedContractMethod<[], [void], "nonpayable">;
-
   supportsInterface: TypedContractMethod<
     [interfaceId: BytesLike],
     [boolean],
     "view"
   >;
 
+  updateConfig: TypedContractMethod<
+    [newConfig: ShadowMerchants.GameConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  winnerDecryptionGame: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  winnerDecryptionPending: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  winnerDecryptionRequestId: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
@@ -721,9 +1303,6 @@ export interface ShadowMerchants extends BaseContract {
   getFunction(
     nameOrSignature: "DEFAULT_ADMIN_ROLE"
   ): TypedContractMethod<[], [string], "view">;
-  getFunction(
-    nameOrSignature: "ENERGY_REGEN_AMOUNT"
-  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "ENERGY_REGEN_INTERVAL"
   ): TypedContractMethod<[], [bigint], "view">;
@@ -733,9 +1312,6 @@ export interface ShadowMerchants extends BaseContract {
   getFunction(
     nameOrSignature: "INITIAL_ENERGY"
   ): TypedContractMethod<[], [bigint], "view">;
-  getFunction(
-    nameOrSignature: "INITIAL_GOLD"
-  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "INITIAL_REPUTATION"
   ): TypedContractMethod<[], [bigint], "view">;
@@ -743,53 +1319,152 @@ export interface ShadowMerchants extends BaseContract {
     nameOrSignature: "MAX_ENERGY"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "MAX_PLAYERS"
+    nameOrSignature: "MAX_INITIAL_GOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PLAYERS_LIMIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ROUNDS_LIMIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ROUND_DURATION"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "MAX_ROUNDS"
+    nameOrSignature: "MIN_ROUND_DURATION"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "MISSION_ROLE"
   ): TypedContractMethod<[], [string], "view">;
   getFunction(
-    nameOrSignature: "ROUND_DURATION"
+    nameOrSignature: "SCORE_ITEM_VALUE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SCORE_REPUTATION_WEIGHT"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "activePlayers"
-  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "bidEscrows"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, bigint, bigint, boolean] & {
+        amount: string;
+        amountPlain: bigint;
+        gameId: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "canPlayerAct"
   ): TypedContractMethod<[playerAddress: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "config"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        initialGold: bigint;
+        energyRegenAmount: bigint;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        roundDuration: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "createGame"
+  ): TypedContractMethod<
+    [
+      maxPlayers: BigNumberish,
+      roundDuration: BigNumberish,
+      maxRounds: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentGame"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "endGame"
-  ): TypedContractMethod<[], [void], "nonpayable">;
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
   getFunction(
-    nameOrSignature: "gameState"
+    nameOrSignature: "forfeitBidGold"
   ): TypedContractMethod<
-    [],
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "gameCounter"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "games"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
     [
-      [bigint, bigint, bigint, bigint, bigint, boolean, boolean, string] & {
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        string
+      ] & {
         currentRound: bigint;
         gameStartTime: bigint;
         lastRoundTime: bigint;
+        roundDuration: bigint;
         maxPlayers: bigint;
+        maxRounds: bigint;
         playerCount: bigint;
         gameActive: boolean;
         gameEnded: boolean;
         winner: string;
+        creator: string;
       }
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getActiveGames"
+  ): TypedContractMethod<[], [bigint[]], "view">;
   getFunction(
     nameOrSignature: "getActivePlayers"
-  ): TypedContractMethod<[], [string[]], "view">;
+  ): TypedContractMethod<[gameId: BigNumberish], [string[]], "view">;
   getFunction(
     nameOrSignature: "getGameInfo"
   ): TypedContractMethod<
-    [],
+    [gameId: BigNumberish],
     [
-      [bigint, bigint, bigint, bigint, boolean, boolean, string] & {
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string
+      ] & {
         currentRound: bigint;
         gameStartTime: bigint;
         lastRoundTime: bigint;
@@ -797,6 +1472,32 @@ export interface ShadowMerchants extends BaseContract {
         gameActive: boolean;
         gameEnded: boolean;
         winner: string;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        roundDuration: bigint;
+        creator: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInventory"
+  ): TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPlaintextResources"
+  ): TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint, bigint[]] & {
+        usesPlaintext: boolean;
+        gold: bigint;
+        reputation: bigint;
+        energy: bigint;
+        inventory: bigint[];
       }
     ],
     "view"
@@ -804,7 +1505,7 @@ export interface ShadowMerchants extends BaseContract {
   getFunction(
     nameOrSignature: "getPlayerInfo"
   ): TypedContractMethod<
-    [playerAddress: AddressLike],
+    [gameId: BigNumberish, playerAddress: AddressLike],
     [
       [boolean, boolean, bigint, bigint, bigint] & {
         isActive: boolean;
@@ -843,6 +1544,7 @@ export interface ShadowMerchants extends BaseContract {
     nameOrSignature: "joinGame"
   ): TypedContractMethod<
     [
+      gameId: BigNumberish,
       encryptedGold: BytesLike,
       goldProof: BytesLike,
       encryptedReputation: BytesLike,
@@ -856,10 +1558,30 @@ export interface ShadowMerchants extends BaseContract {
   getFunction(
     nameOrSignature: "leaveGame"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "lockBidGold"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      amount: BytesLike,
+      amountPlain: BigNumberish,
+      amountIsPlaintext: boolean
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "onWinnerDecrypted"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, winner: AddressLike, signatures: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "players"
   ): TypedContractMethod<
-    [arg0: AddressLike],
+    [arg0: BigNumberish, arg1: AddressLike],
     [
       [
         string,
@@ -895,10 +1617,24 @@ export interface ShadowMerchants extends BaseContract {
   >;
   getFunction(
     nameOrSignature: "progressRound"
-  ): TypedContractMethod<[], [void], "nonpayable">;
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "regenerateEnergy"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "releaseBidGold"
+  ): TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "releaseBidGoldIf"
+  ): TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish, release: BytesLike],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "renounceRole"
   ): TypedContractMethod<
@@ -913,6 +1649,32 @@ export interface ShadowMerchants extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "settleAuctionWin"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      goodType: BigNumberish,
+      price: BytesLike,
+      pricePlain: BigNumberish,
+      priceIsPlaintext: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleBidGoldIf"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      locked: BytesLike,
+      accepted: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "spendEnergy"
   ): TypedContractMethod<
@@ -927,13 +1689,54 @@ export interface ShadowMerchants extends BaseContract {
     [void],
     "nonpayable"
   >;
-  getFunction(
-    nameOrSignature: "startGame"
-  ): TypedContractMethod<[], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "supportsInterface"
   ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "updateConfig"
+  ): TypedContractMethod<
+    [newConfig: ShadowMerchants.GameConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "winnerDecryptionGame"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "winnerDecryptionPending"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "winnerDecryptionRequestId"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
 
+  getEvent(
+    key: "BidGoldForfeited"
+  ): TypedContractEvent<
+    BidGoldForfeitedEvent.InputTuple,
+    BidGoldForfeitedEvent.OutputTuple,
+    BidGoldForfeitedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidGoldLocked"
+  ): TypedContractEvent<
+    BidGoldLockedEvent.InputTuple,
+    BidGoldLockedEvent.OutputTuple,
+    BidGoldLockedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidGoldReleased"
+  ): TypedContractEvent<
+    BidGoldReleasedEvent.InputTuple,
+    BidGoldReleasedEvent.OutputTuple,
+    BidGoldReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfigUpdated"
+  ): TypedContractEvent<
+    ConfigUpdatedEvent.InputTuple,
+    ConfigUpdatedEvent.OutputTuple,
+    ConfigUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "EnergyRegenerated"
   ): TypedContractEvent<
@@ -941,6 +1744,13 @@ export interface ShadowMerchants extends BaseContract {
     EnergyRegeneratedEvent.OutputTuple,
     EnergyRegeneratedEvent.OutputObject
   >;
+  getEvent(
+    key: "GameCreated"
+  ): TypedContractEvent<
+    GameCreatedEvent.InputTuple,
+    GameCreatedEvent.OutputTuple,
+    GameCreatedEvent.OutputObject
+  >;
   getEvent(
     key: "GameEnded"
   ): TypedContractEvent<
@@ -949,11 +1759,11 @@ export interface ShadowMerchants extends BaseContract {
     GameEndedEvent.OutputObject
   >;
   getEvent(
-    key: "GameStarted"
+    key: "InventoryCredited"
   ): TypedContractEvent<
-    GameStartedEvent.InputTuple,
-    GameStartedEvent.OutputTuple,
-    GameStartedEvent.OutputObject
+    InventoryCreditedEvent.InputTuple,
+    InventoryCreditedEvent.OutputTuple,
+    InventoryCreditedEvent.OutputObject
   >;
   getEvent(
     key: "PlayerJoined"
@@ -1004,8 +1814,59 @@ export interface ShadowMerchants extends BaseContract {
     RoundProgressedEvent.OutputTuple,
     RoundProgressedEvent.OutputObject
   >;
+  getEvent(
+    key: "WinnerDecryptionRequested"
+  ): TypedContractEvent<
+    WinnerDecryptionRequestedEvent.InputTuple,
+    WinnerDecryptionRequestedEvent.OutputTuple,
+    WinnerDecryptionRequestedEvent.OutputObject
+  >;
 
   filters: {
+    "BidGoldForfeited(address,uint256,uint256)": TypedContractEvent<
+      BidGoldForfeitedEvent.InputTuple,
+      BidGoldForfeitedEvent.OutputTuple,
+      BidGoldForfeitedEvent.OutputObject
+    >;
+    BidGoldForfeited: TypedContractEvent<
+      BidGoldForfeitedEvent.InputTuple,
+      BidGoldForfeitedEvent.OutputTuple,
+      BidGoldForfeitedEvent.OutputObject
+    >;
+
+    "BidGoldLocked(address,uint256,uint256)": TypedContractEvent<
+      BidGoldLockedEvent.InputTuple,
+      BidGoldLockedEvent.OutputTuple,
+      BidGoldLockedEvent.OutputObject
+    >;
+    BidGoldLocked: TypedContractEvent<
+      BidGoldLockedEvent.InputTuple,
+      BidGoldLockedEvent.OutputTuple,
+      BidGoldLockedEvent.OutputObject
+    >;
+
+    "BidGoldReleased(address,uint256,uint256)": TypedContractEvent<
+      BidGoldReleasedEvent.InputTuple,
+      BidGoldReleasedEvent.OutputTuple,
+      BidGoldReleasedEvent.OutputObject
+    >;
+    BidGoldReleased: TypedContractEvent<
+      BidGoldReleasedEvent.InputTuple,
+      BidGoldReleasedEvent.OutputTuple,
+      BidGoldReleasedEvent.OutputObject
+    >;
+
+    "ConfigUpdated(tuple)": TypedContractEvent<
+      ConfigUpdatedEvent.InputTuple,
+      ConfigUpdatedEvent.OutputTuple,
+      ConfigUpdatedEvent.OutputObject
+    >;
+    ConfigUpdated: TypedContractEvent<
+      ConfigUpdatedEvent.InputTuple,
+      ConfigUpdatedEvent.OutputTuple,
+      ConfigUpdatedEvent.OutputObject
+    >;
+
     "EnergyRegenerated(address,uint256)": TypedContractEvent<
       EnergyRegeneratedEvent.InputTuple,
       EnergyRegeneratedEvent.OutputTuple,
@@ -1017,7 +1878,18 @@ export interface ShadowMerchants extends BaseContract {
       EnergyRegeneratedEvent.OutputObject
     >;
 
-    "GameEnded(address,uint256)": TypedContractEvent<
+    "GameCreated(uint256,address,uint8,uint256,uint8,uint256)": TypedContractEvent<
+      GameCreatedEvent.InputTuple,
+      GameCreatedEvent.OutputTuple,
+      GameCreatedEvent.OutputObject
+    >;
+    GameCreated: TypedContractEvent<
+      GameCreatedEvent.InputTuple,
+      GameCreatedEvent.OutputTuple,
+      GameCreatedEvent.OutputObject
+    >;
+
+    "GameEnded(uint256,address,uint256)": TypedContractEvent<
       GameEndedEvent.InputTuple,
       GameEndedEvent.OutputTuple,
       GameEndedEvent.OutputObject
@@ -1028,18 +1900,18 @@ export interface ShadowMerchants extends BaseContract {
       GameEndedEvent.OutputObject
     >;
 
-    "GameStarted(uint256,uint8)": TypedContractEvent<
-      GameStartedEvent.InputTuple,
-      GameStartedEvent.OutputTuple,
-      GameStartedEvent.OutputObject
+    "InventoryCredited(address,uint8,uint256)": TypedContractEvent<
+      InventoryCreditedEvent.InputTuple,
+      InventoryCreditedEvent.OutputTuple,
+      InventoryCreditedEvent.OutputObject
     >;
-    GameStarted: TypedContractEvent<
-      GameStartedEvent.InputTuple,
-      GameStartedEvent.OutputTuple,
-      GameStartedEvent.OutputObject
+    InventoryCredited: TypedContractEvent<
+      InventoryCreditedEvent.InputTuple,
+      InventoryCreditedEvent.OutputTuple,
+      InventoryCreditedEvent.OutputObject
     >;
 
-    "PlayerJoined(address,uint256)": TypedContractEvent<
+    "PlayerJoined(uint256,address,uint256)": TypedContractEvent<
       PlayerJoinedEvent.InputTuple,
       PlayerJoinedEvent.OutputTuple,
       PlayerJoinedEvent.OutputObject
@@ -1050,7 +1922,7 @@ export interface ShadowMerchants extends BaseContract {
       PlayerJoinedEvent.OutputObject
     >;
 
-    "PlayerLeft(address,uint256)": TypedContractEvent<
+    "PlayerLeft(uint256,address,uint256)": TypedContractEvent<
       PlayerLeftEvent.InputTuple,
       PlayerLeftEvent.OutputTuple,
       PlayerLeftEvent.OutputObject
@@ -1105,7 +1977,7 @@ export interface ShadowMerchants extends BaseContract {
       RoleRevokedEvent.OutputObject
     >;
 
-    "RoundProgressed(uint256,uint256)": TypedContractEvent<
+    "RoundProgressed(uint256,uint256,uint256)": TypedContractEvent<
       RoundProgressedEvent.InputTuple,
       RoundProgressedEvent.OutputTuple,
       RoundProgressedEvent.OutputObject
@@ -1115,5 +1987,16 @@ export interface ShadowMerchants extends BaseContract {
       RoundProgressedEvent.OutputTuple,
       RoundProgressedEvent.OutputObject
     >;
+
+    "WinnerDecryptionRequested(uint256,uint256,uint256)": TypedContractEvent<
+      WinnerDecryptionRequestedEvent.InputTuple,
+      WinnerDecryptionRequestedEvent.OutputTuple,
+      WinnerDecryptionRequestedEvent.OutputObject
+    >;
+    WinnerDecryptionRequested: TypedContractEvent<
+      WinnerDecryptionRequestedEvent.InputTuple,
+      WinnerDecryptionRequestedEvent.OutputTuple,
+      WinnerDecryptionRequestedEvent.OutputObject
+    >;
   };
 }
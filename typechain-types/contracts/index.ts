@@ -1,7 +1,11 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as inputVerificationMockSol from "./InputVerificationMock.sol";
+export type { inputVerificationMockSol };
 import type * as marketAuctionSol from "./MarketAuction.sol";
 export type { marketAuctionSol };
-export type { InputVerificationMock } from "./InputVerificationMock";
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { FHEVMConfig } from "./FHEVMConfig";
 export type { ShadowMerchants } from "./ShadowMerchants";
@@ -0,0 +1,286 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface MockACLInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "allow"
+      | "allowForDecryption"
+      | "allowTransient"
+      | "cleanTransientStorage"
+      | "isAllowed"
+      | "isAllowedForDecryption"
+      | "persistAllowed"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "Allowed" | "AllowedForDecryption"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "allow",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowForDecryption",
+    values: [BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowTransient",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cleanTransientStorage",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAllowed",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAllowedForDecryption",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "persistAllowed",
+    values: [BytesLike, AddressLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "allow", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "allowForDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowTransient",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cleanTransientStorage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isAllowed", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isAllowedForDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "persistAllowed",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AllowedEvent {
+  export type InputTuple = [
+    caller: AddressLike,
+    account: AddressLike,
+    handle: BytesLike
+  ];
+  export type OutputTuple = [caller: string, account: string, handle: string];
+  export interface OutputObject {
+    caller: string;
+    account: string;
+    handle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AllowedForDecryptionEvent {
+  export type InputTuple = [caller: AddressLike, handlesList: BytesLike[]];
+  export type OutputTuple = [caller: string, handlesList: string[]];
+  export interface OutputObject {
+    caller: string;
+    handlesList: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MockACL extends BaseContract {
+  connect(runner?: ContractRunner | null): MockACL;
+  waitForDeployment(): Promise<this>;
+
+  interface: MockACLInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  allow: TypedContractMethod<
+    [handle: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  allowForDecryption: TypedContractMethod<
+    [handlesList: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  allowTransient: TypedContractMethod<
+    [handle: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  cleanTransientStorage: TypedContractMethod<[], [void], "nonpayable">;
+
+  isAllowed: TypedContractMethod<
+    [handle: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isAllowedForDecryption: TypedContractMethod<
+    [handle: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  persistAllowed: TypedContractMethod<
+    [handle: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "allow"
+  ): TypedContractMethod<
+    [handle: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "allowForDecryption"
+  ): TypedContractMethod<[handlesList: BytesLike[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "allowTransient"
+  ): TypedContractMethod<
+    [handle: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cleanTransientStorage"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "isAllowed"
+  ): TypedContractMethod<
+    [handle: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAllowedForDecryption"
+  ): TypedContractMethod<[handle: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "persistAllowed"
+  ): TypedContractMethod<
+    [handle: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  getEvent(
+    key: "Allowed"
+  ): TypedContractEvent<
+    AllowedEvent.InputTuple,
+    AllowedEvent.OutputTuple,
+    AllowedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AllowedForDecryption"
+  ): TypedContractEvent<
+    AllowedForDecryptionEvent.InputTuple,
+    AllowedForDecryptionEvent.OutputTuple,
+    AllowedForDecryptionEvent.OutputObject
+  >;
+
+  filters: {
+    "Allowed(address,address,bytes32)": TypedContractEvent<
+      AllowedEvent.InputTuple,
+      AllowedEvent.OutputTuple,
+      AllowedEvent.OutputObject
+    >;
+    Allowed: TypedContractEvent<
+      AllowedEvent.InputTuple,
+      AllowedEvent.OutputTuple,
+      AllowedEvent.OutputObject
+    >;
+
+    "AllowedForDecryption(address,bytes32[])": TypedContractEvent<
+      AllowedForDecryptionEvent.InputTuple,
+      AllowedForDecryptionEvent.OutputTuple,
+      AllowedForDecryptionEvent.OutputObject
+    >;
+    AllowedForDecryption: TypedContractEvent<
+      AllowedForDecryptionEvent.InputTuple,
+      AllowedForDecryptionEvent.OutputTuple,
+      AllowedForDecryptionEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,168 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface MockDecryptionOracleInterface extends Interface {
+  getFunction(
+    nameOrSignature: "counter" | "requestDecryption"
+  ): FunctionFragment;
+
+  getEvent(nameOrSignatureOrTopic: "DecryptionRequest"): EventFragment;
+
+  encodeFunctionData(functionFragment: "counter", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "requestDecryption",
+    values: [BigNumberish, BytesLike[], BytesLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "counter", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestDecryption",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DecryptionRequestEvent {
+  export type InputTuple = [
+    counter: BigNumberish,
+    requestID: BigNumberish,
+    cts: BytesLike[],
+    contractCaller: AddressLike,
+    callbackSelector: BytesLike
+  ];
+  export type OutputTuple = [
+    counter: bigint,
+    requestID: bigint,
+    cts: string[],
+    contractCaller: string,
+    callbackSelector: string
+  ];
+  export interface OutputObject {
+    counter: bigint;
+    requestID: bigint;
+    cts: string[];
+    contractCaller: string;
+    callbackSelector: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MockDecryptionOracle extends BaseContract {
+  connect(runner?: ContractRunner | null): MockDecryptionOracle;
+  waitForDeployment(): Promise<this>;
+
+  interface: MockDecryptionOracleInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  counter: TypedContractMethod<[], [bigint], "view">;
+
+  requestDecryption: TypedContractMethod<
+    [
+      requestID: BigNumberish,
+      ctsHandles: BytesLike[],
+      callbackSelector: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "counter"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestDecryption"
+  ): TypedContractMethod<
+    [
+      requestID: BigNumberish,
+      ctsHandles: BytesLike[],
+      callbackSelector: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  getEvent(
+    key: "DecryptionRequest"
+  ): TypedContractEvent<
+    DecryptionRequestEvent.InputTuple,
+    DecryptionRequestEvent.OutputTuple,
+    DecryptionRequestEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionRequest(uint256,uint256,bytes32[],address,bytes4)": TypedContractEvent<
+      DecryptionRequestEvent.InputTuple,
+      DecryptionRequestEvent.OutputTuple,
+      DecryptionRequestEvent.OutputObject
+    >;
+    DecryptionRequest: TypedContractEvent<
+      DecryptionRequestEvent.InputTuple,
+      DecryptionRequestEvent.OutputTuple,
+      DecryptionRequestEvent.OutputObject
+    >;
+  };
+}
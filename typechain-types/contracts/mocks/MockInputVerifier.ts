@@ -0,0 +1,148 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface MockInputVerifierInterface extends Interface {
+  getFunction(
+    nameOrSignature: "cleanTransientStorage" | "inputHandleAt" | "verifyInput"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "cleanTransientStorage",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "inputHandleAt",
+    values: [BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyInput",
+    values: [BytesLike, AddressLike, AddressLike, BytesLike, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "cleanTransientStorage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "inputHandleAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyInput",
+    data: BytesLike
+  ): Result;
+}
+
+export interface MockInputVerifier extends BaseContract {
+  connect(runner?: ContractRunner | null): MockInputVerifier;
+  waitForDeployment(): Promise<this>;
+
+  interface: MockInputVerifierInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  cleanTransientStorage: TypedContractMethod<[], [void], "nonpayable">;
+
+  inputHandleAt: TypedContractMethod<
+    [proofHash: BytesLike, index: BigNumberish, fheType: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  verifyInput: TypedContractMethod<
+    [
+      inputHandle: BytesLike,
+      contractAddress: AddressLike,
+      userAddress: AddressLike,
+      inputProof: BytesLike,
+      inputType: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "cleanTransientStorage"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "inputHandleAt"
+  ): TypedContractMethod<
+    [proofHash: BytesLike, index: BigNumberish, fheType: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "verifyInput"
+  ): TypedContractMethod<
+    [
+      inputHandle: BytesLike,
+      contractAddress: AddressLike,
+      userAddress: AddressLike,
+      inputProof: BytesLike,
+      inputType: BigNumberish
+    ],
+    [bigint],
+    "view"
+  >;
+
+  filters: {};
+}
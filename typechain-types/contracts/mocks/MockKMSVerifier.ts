@@ -0,0 +1,108 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface MockKMSVerifierInterface extends Interface {
+  getFunction(
+    nameOrSignature: "verifyDecryptionEIP712KMSSignatures"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "verifyDecryptionEIP712KMSSignatures",
+    values: [BytesLike[], BytesLike, BytesLike[]]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "verifyDecryptionEIP712KMSSignatures",
+    data: BytesLike
+  ): Result;
+}
+
+export interface MockKMSVerifier extends BaseContract {
+  connect(runner?: ContractRunner | null): MockKMSVerifier;
+  waitForDeployment(): Promise<this>;
+
+  interface: MockKMSVerifierInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  verifyDecryptionEIP712KMSSignatures: TypedContractMethod<
+    [
+      handlesList: BytesLike[],
+      decryptedResult: BytesLike,
+      signatures: BytesLike[]
+    ],
+    [boolean],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "verifyDecryptionEIP712KMSSignatures"
+  ): TypedContractMethod<
+    [
+      handlesList: BytesLike[],
+      decryptedResult: BytesLike,
+      signatures: BytesLike[]
+    ],
+    [boolean],
+    "view"
+  >;
+
+  filters: {};
+}
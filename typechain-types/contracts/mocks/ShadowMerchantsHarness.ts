@@ -0,0 +1,2056 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace ShadowMerchants {
+  export type GameConfigStruct = {
+    initialGold: BigNumberish;
+    energyRegenAmount: BigNumberish;
+    maxPlayers: BigNumberish;
+    maxRounds: BigNumberish;
+    roundDuration: BigNumberish;
+  };
+
+  export type GameConfigStructOutput = [
+    initialGold: bigint,
+    energyRegenAmount: bigint,
+    maxPlayers: bigint,
+    maxRounds: bigint,
+    roundDuration: bigint
+  ] & {
+    initialGold: bigint;
+    energyRegenAmount: bigint;
+    maxPlayers: bigint;
+    maxRounds: bigint;
+    roundDuration: bigint;
+  };
+}
+
+export interface ShadowMerchantsHarnessInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "AUCTION_ROLE"
+      | "DEFAULT_ADMIN_ROLE"
+      | "ENERGY_REGEN_INTERVAL"
+      | "GAME_MANAGER_ROLE"
+      | "INITIAL_ENERGY"
+      | "INITIAL_REPUTATION"
+      | "MAX_ENERGY"
+      | "MAX_INITIAL_GOLD"
+      | "MAX_PLAYERS_LIMIT"
+      | "MAX_ROUNDS_LIMIT"
+      | "MAX_ROUND_DURATION"
+      | "MIN_ROUND_DURATION"
+      | "MISSION_ROLE"
+      | "SCORE_ITEM_VALUE"
+      | "SCORE_REPUTATION_WEIGHT"
+      | "activePlayers"
+      | "bidEscrows"
+      | "canPlayerAct"
+      | "config"
+      | "createGame"
+      | "currentGame"
+      | "endGame"
+      | "forfeitBidGold"
+      | "gameCounter"
+      | "games"
+      | "getActiveGames"
+      | "getActivePlayers"
+      | "getGameInfo"
+      | "getInventory"
+      | "getPlaintextResources"
+      | "getPlayerInfo"
+      | "getRoleAdmin"
+      | "grantAuctionRole"
+      | "grantMissionRole"
+      | "grantRole"
+      | "harnessSetEncryptedInventory"
+      | "harnessSetPlaintextResources"
+      | "hasRole"
+      | "joinGame"
+      | "leaveGame"
+      | "lockBidGold"
+      | "onWinnerDecrypted"
+      | "players"
+      | "progressRound"
+      | "regenerateEnergy"
+      | "releaseBidGold"
+      | "releaseBidGoldIf"
+      | "renounceRole"
+      | "revokeRole"
+      | "settleAuctionWin"
+      | "settleBidGoldIf"
+      | "spendEnergy"
+      | "spendGold"
+      | "supportsInterface"
+      | "updateConfig"
+      | "winnerDecryptionGame"
+      | "winnerDecryptionPending"
+      | "winnerDecryptionRequestId"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BidGoldForfeited"
+      | "BidGoldLocked"
+      | "BidGoldReleased"
+      | "ConfigUpdated"
+      | "EnergyRegenerated"
+      | "GameCreated"
+      | "GameEnded"
+      | "InventoryCredited"
+      | "PlayerJoined"
+      | "PlayerLeft"
+      | "ResourcesUpdated"
+      | "RoleAdminChanged"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "RoundProgressed"
+      | "WinnerDecryptionRequested"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "AUCTION_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ENERGY_REGEN_INTERVAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "GAME_MANAGER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "INITIAL_ENERGY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "INITIAL_REPUTATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ENERGY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_INITIAL_GOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PLAYERS_LIMIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ROUNDS_LIMIT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ROUND_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_ROUND_DURATION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MISSION_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SCORE_ITEM_VALUE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SCORE_REPUTATION_WEIGHT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "activePlayers",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "bidEscrows",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canPlayerAct",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "config", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "createGame",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentGame",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "endGame",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "forfeitBidGold",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "gameCounter",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "games", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "getActiveGames",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getActivePlayers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGameInfo",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInventory",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlaintextResources",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerInfo",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleAdmin",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantAuctionRole",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantMissionRole",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "harnessSetEncryptedInventory",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "harnessSetPlaintextResources",
+    values: [AddressLike, BigNumberish, BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "joinGame",
+    values: [
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "leaveGame", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "lockBidGold",
+    values: [AddressLike, BigNumberish, BytesLike, BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onWinnerDecrypted",
+    values: [BigNumberish, AddressLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "players",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "progressRound",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "regenerateEnergy",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseBidGold",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseBidGoldIf",
+    values: [AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleAuctionWin",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BigNumberish,
+      boolean
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleBidGoldIf",
+    values: [AddressLike, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "spendEnergy",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "spendGold",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateConfig",
+    values: [ShadowMerchants.GameConfigStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerDecryptionGame",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerDecryptionPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winnerDecryptionRequestId",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "AUCTION_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ENERGY_REGEN_INTERVAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "GAME_MANAGER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "INITIAL_ENERGY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "INITIAL_REPUTATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_ENERGY", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_INITIAL_GOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PLAYERS_LIMIT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_ROUNDS_LIMIT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_ROUND_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_ROUND_DURATION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MISSION_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SCORE_ITEM_VALUE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SCORE_REPUTATION_WEIGHT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "activePlayers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "bidEscrows", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "canPlayerAct",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "config", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "createGame", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "currentGame",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "endGame", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "forfeitBidGold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "gameCounter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "games", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveGames",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getActivePlayers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getGameInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInventory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlaintextResources",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantAuctionRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantMissionRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "harnessSetEncryptedInventory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "harnessSetPlaintextResources",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "joinGame", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "leaveGame", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lockBidGold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onWinnerDecrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "players", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "progressRound",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "regenerateEnergy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseBidGold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseBidGoldIf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "settleAuctionWin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "settleBidGoldIf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "spendEnergy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "spendGold", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerDecryptionGame",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerDecryptionPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winnerDecryptionRequestId",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BidGoldForfeitedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    auctionId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    auctionId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    auctionId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidGoldLockedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    auctionId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    auctionId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    auctionId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BidGoldReleasedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    auctionId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    auctionId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    auctionId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfigUpdatedEvent {
+  export type InputTuple = [config: ShadowMerchants.GameConfigStruct];
+  export type OutputTuple = [config: ShadowMerchants.GameConfigStructOutput];
+  export interface OutputObject {
+    config: ShadowMerchants.GameConfigStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EnergyRegeneratedEvent {
+  export type InputTuple = [player: AddressLike, timestamp: BigNumberish];
+  export type OutputTuple = [player: string, timestamp: bigint];
+  export interface OutputObject {
+    player: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameCreatedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    creator: AddressLike,
+    maxPlayers: BigNumberish,
+    roundDuration: BigNumberish,
+    maxRounds: BigNumberish,
+    startTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    creator: string,
+    maxPlayers: bigint,
+    roundDuration: bigint,
+    maxRounds: bigint,
+    startTime: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    creator: string;
+    maxPlayers: bigint;
+    roundDuration: bigint;
+    maxRounds: bigint;
+    startTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GameEndedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    winner: AddressLike,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [gameId: bigint, winner: string, endTime: bigint];
+  export interface OutputObject {
+    gameId: bigint;
+    winner: string;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InventoryCreditedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    goodType: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    goodType: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    goodType: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlayerJoinedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    round: BigNumberish
+  ];
+  export type OutputTuple = [gameId: bigint, player: string, round: bigint];
+  export interface OutputObject {
+    gameId: bigint;
+    player: string;
+    round: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlayerLeftEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    player: AddressLike,
+    round: BigNumberish
+  ];
+  export type OutputTuple = [gameId: bigint, player: string, round: bigint];
+  export interface OutputObject {
+    gameId: bigint;
+    player: string;
+    round: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResourcesUpdatedEvent {
+  export type InputTuple = [player: AddressLike, timestamp: BigNumberish];
+  export type OutputTuple = [player: string, timestamp: bigint];
+  export interface OutputObject {
+    player: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleAdminChangedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    previousAdminRole: BytesLike,
+    newAdminRole: BytesLike
+  ];
+  export type OutputTuple = [
+    role: string,
+    previousAdminRole: string,
+    newAdminRole: string
+  ];
+  export interface OutputObject {
+    role: string;
+    previousAdminRole: string;
+    newAdminRole: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoundProgressedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    newRound: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    newRound: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    newRound: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinnerDecryptionRequestedEvent {
+  export type InputTuple = [
+    gameId: BigNumberish,
+    requestId: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    gameId: bigint,
+    requestId: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    gameId: bigint;
+    requestId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ShadowMerchantsHarness extends BaseContract {
+  connect(runner?: ContractRunner | null): ShadowMerchantsHarness;
+  waitForDeployment(): Promise<this>;
+
+  interface: ShadowMerchantsHarnessInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  AUCTION_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  ENERGY_REGEN_INTERVAL: TypedContractMethod<[], [bigint], "view">;
+
+  GAME_MANAGER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  INITIAL_ENERGY: TypedContractMethod<[], [bigint], "view">;
+
+  INITIAL_REPUTATION: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ENERGY: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_INITIAL_GOLD: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PLAYERS_LIMIT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ROUNDS_LIMIT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ROUND_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_ROUND_DURATION: TypedContractMethod<[], [bigint], "view">;
+
+  MISSION_ROLE: TypedContractMethod<[], [string], "view">;
+
+  SCORE_ITEM_VALUE: TypedContractMethod<[], [bigint], "view">;
+
+  SCORE_REPUTATION_WEIGHT: TypedContractMethod<[], [bigint], "view">;
+
+  activePlayers: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  bidEscrows: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, bigint, bigint, boolean] & {
+        amount: string;
+        amountPlain: bigint;
+        gameId: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  canPlayerAct: TypedContractMethod<
+    [playerAddress: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  config: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        initialGold: bigint;
+        energyRegenAmount: bigint;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        roundDuration: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  createGame: TypedContractMethod<
+    [
+      maxPlayers: BigNumberish,
+      roundDuration: BigNumberish,
+      maxRounds: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  currentGame: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  endGame: TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+
+  forfeitBidGold: TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  gameCounter: TypedContractMethod<[], [bigint], "view">;
+
+  games: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        string
+      ] & {
+        currentRound: bigint;
+        gameStartTime: bigint;
+        lastRoundTime: bigint;
+        roundDuration: bigint;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        playerCount: bigint;
+        gameActive: boolean;
+        gameEnded: boolean;
+        winner: string;
+        creator: string;
+      }
+    ],
+    "view"
+  >;
+
+  getActiveGames: TypedContractMethod<[], [bigint[]], "view">;
+
+  getActivePlayers: TypedContractMethod<
+    [gameId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getGameInfo: TypedContractMethod<
+    [gameId: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string
+      ] & {
+        currentRound: bigint;
+        gameStartTime: bigint;
+        lastRoundTime: bigint;
+        playerCount: bigint;
+        gameActive: boolean;
+        gameEnded: boolean;
+        winner: string;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        roundDuration: bigint;
+        creator: string;
+      }
+    ],
+    "view"
+  >;
+
+  getInventory: TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  getPlaintextResources: TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint, bigint[]] & {
+        usesPlaintext: boolean;
+        gold: bigint;
+        reputation: bigint;
+        energy: bigint;
+        inventory: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getPlayerInfo: TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [
+      [boolean, boolean, bigint, bigint, bigint] & {
+        isActive: boolean;
+        hasJoined: boolean;
+        joinedRound: bigint;
+        publicReputationTier: bigint;
+        lastActionTime: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], [string], "view">;
+
+  grantAuctionRole: TypedContractMethod<
+    [auctionContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  grantMissionRole: TypedContractMethod<
+    [missionContract: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  harnessSetEncryptedInventory: TypedContractMethod<
+    [playerAddress: AddressLike, slot: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  harnessSetPlaintextResources: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      gold: BigNumberish,
+      reputation: BigNumberish,
+      inventory: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  joinGame: TypedContractMethod<
+    [
+      gameId: BigNumberish,
+      encryptedGold: BytesLike,
+      goldProof: BytesLike,
+      encryptedReputation: BytesLike,
+      reputationProof: BytesLike,
+      encryptedEnergy: BytesLike,
+      energyProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  leaveGame: TypedContractMethod<[], [void], "nonpayable">;
+
+  lockBidGold: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      amount: BytesLike,
+      amountPlain: BigNumberish,
+      amountIsPlaintext: boolean
+    ],
+    [string],
+    "nonpayable"
+  >;
+
+  onWinnerDecrypted: TypedContractMethod<
+    [requestId: BigNumberish, winner: AddressLike, signatures: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  players: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [
+        string,
+        string,
+        string,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        gold: string;
+        reputation: string;
+        energy: string;
+        usesPlaintext: boolean;
+        goldPlain: bigint;
+        reputationPlain: bigint;
+        energyPlain: bigint;
+        isActive: boolean;
+        hasJoined: boolean;
+        joinedRound: bigint;
+        lastActionTime: bigint;
+        lastEnergyRegen: bigint;
+        publicReputationTier: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  progressRound: TypedContractMethod<
+    [gameId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  regenerateEnergy: TypedContractMethod<[], [void], "nonpayable">;
+
+  releaseBidGold: TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  releaseBidGoldIf: TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish, release: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  renounceRole: TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  settleAuctionWin: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      goodType: BigNumberish,
+      price: BytesLike,
+      pricePlain: BigNumberish,
+      priceIsPlaintext: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  settleBidGoldIf: TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      locked: BytesLike,
+      accepted: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  spendEnergy: TypedContractMethod<
+    [amount: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  spendGold: TypedContractMethod<
+    [amount: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  updateConfig: TypedContractMethod<
+    [newConfig: ShadowMerchants.GameConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  winnerDecryptionGame: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  winnerDecryptionPending: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  winnerDecryptionRequestId: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "AUCTION_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ENERGY_REGEN_INTERVAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "GAME_MANAGER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "INITIAL_ENERGY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "INITIAL_REPUTATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ENERGY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_INITIAL_GOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PLAYERS_LIMIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ROUNDS_LIMIT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ROUND_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_ROUND_DURATION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MISSION_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "SCORE_ITEM_VALUE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SCORE_REPUTATION_WEIGHT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "activePlayers"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "bidEscrows"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, bigint, bigint, boolean] & {
+        amount: string;
+        amountPlain: bigint;
+        gameId: bigint;
+        active: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "canPlayerAct"
+  ): TypedContractMethod<[playerAddress: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "config"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        initialGold: bigint;
+        energyRegenAmount: bigint;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        roundDuration: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "createGame"
+  ): TypedContractMethod<
+    [
+      maxPlayers: BigNumberish,
+      roundDuration: BigNumberish,
+      maxRounds: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentGame"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "endGame"
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "forfeitBidGold"
+  ): TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "gameCounter"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "games"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        string
+      ] & {
+        currentRound: bigint;
+        gameStartTime: bigint;
+        lastRoundTime: bigint;
+        roundDuration: bigint;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        playerCount: bigint;
+        gameActive: boolean;
+        gameEnded: boolean;
+        winner: string;
+        creator: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getActiveGames"
+  ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getActivePlayers"
+  ): TypedContractMethod<[gameId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getGameInfo"
+  ): TypedContractMethod<
+    [gameId: BigNumberish],
+    [
+      [
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string
+      ] & {
+        currentRound: bigint;
+        gameStartTime: bigint;
+        lastRoundTime: bigint;
+        playerCount: bigint;
+        gameActive: boolean;
+        gameEnded: boolean;
+        winner: string;
+        maxPlayers: bigint;
+        maxRounds: bigint;
+        roundDuration: bigint;
+        creator: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInventory"
+  ): TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPlaintextResources"
+  ): TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [
+      [boolean, bigint, bigint, bigint, bigint[]] & {
+        usesPlaintext: boolean;
+        gold: bigint;
+        reputation: bigint;
+        energy: bigint;
+        inventory: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPlayerInfo"
+  ): TypedContractMethod<
+    [gameId: BigNumberish, playerAddress: AddressLike],
+    [
+      [boolean, boolean, bigint, bigint, bigint] & {
+        isActive: boolean;
+        hasJoined: boolean;
+        joinedRound: bigint;
+        publicReputationTier: bigint;
+        lastActionTime: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRoleAdmin"
+  ): TypedContractMethod<[role: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "grantAuctionRole"
+  ): TypedContractMethod<[auctionContract: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "grantMissionRole"
+  ): TypedContractMethod<[missionContract: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "harnessSetEncryptedInventory"
+  ): TypedContractMethod<
+    [playerAddress: AddressLike, slot: BigNumberish, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "harnessSetPlaintextResources"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      gold: BigNumberish,
+      reputation: BigNumberish,
+      inventory: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "joinGame"
+  ): TypedContractMethod<
+    [
+      gameId: BigNumberish,
+      encryptedGold: BytesLike,
+      goldProof: BytesLike,
+      encryptedReputation: BytesLike,
+      reputationProof: BytesLike,
+      encryptedEnergy: BytesLike,
+      energyProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "leaveGame"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "lockBidGold"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      amount: BytesLike,
+      amountPlain: BigNumberish,
+      amountIsPlaintext: boolean
+    ],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "onWinnerDecrypted"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, winner: AddressLike, signatures: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "players"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [
+        string,
+        string,
+        string,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        boolean,
+        boolean,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        gold: string;
+        reputation: string;
+        energy: string;
+        usesPlaintext: boolean;
+        goldPlain: bigint;
+        reputationPlain: bigint;
+        energyPlain: bigint;
+        isActive: boolean;
+        hasJoined: boolean;
+        joinedRound: bigint;
+        lastActionTime: bigint;
+        lastEnergyRegen: bigint;
+        publicReputationTier: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "progressRound"
+  ): TypedContractMethod<[gameId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "regenerateEnergy"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "releaseBidGold"
+  ): TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "releaseBidGoldIf"
+  ): TypedContractMethod<
+    [playerAddress: AddressLike, auctionId: BigNumberish, release: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleAuctionWin"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      goodType: BigNumberish,
+      price: BytesLike,
+      pricePlain: BigNumberish,
+      priceIsPlaintext: boolean
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleBidGoldIf"
+  ): TypedContractMethod<
+    [
+      playerAddress: AddressLike,
+      auctionId: BigNumberish,
+      locked: BytesLike,
+      accepted: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "spendEnergy"
+  ): TypedContractMethod<
+    [amount: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "spendGold"
+  ): TypedContractMethod<
+    [amount: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "updateConfig"
+  ): TypedContractMethod<
+    [newConfig: ShadowMerchants.GameConfigStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "winnerDecryptionGame"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "winnerDecryptionPending"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "winnerDecryptionRequestId"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  getEvent(
+    key: "BidGoldForfeited"
+  ): TypedContractEvent<
+    BidGoldForfeitedEvent.InputTuple,
+    BidGoldForfeitedEvent.OutputTuple,
+    BidGoldForfeitedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidGoldLocked"
+  ): TypedContractEvent<
+    BidGoldLockedEvent.InputTuple,
+    BidGoldLockedEvent.OutputTuple,
+    BidGoldLockedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BidGoldReleased"
+  ): TypedContractEvent<
+    BidGoldReleasedEvent.InputTuple,
+    BidGoldReleasedEvent.OutputTuple,
+    BidGoldReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfigUpdated"
+  ): TypedContractEvent<
+    ConfigUpdatedEvent.InputTuple,
+    ConfigUpdatedEvent.OutputTuple,
+    ConfigUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EnergyRegenerated"
+  ): TypedContractEvent<
+    EnergyRegeneratedEvent.InputTuple,
+    EnergyRegeneratedEvent.OutputTuple,
+    EnergyRegeneratedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GameCreated"
+  ): TypedContractEvent<
+    GameCreatedEvent.InputTuple,
+    GameCreatedEvent.OutputTuple,
+    GameCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GameEnded"
+  ): TypedContractEvent<
+    GameEndedEvent.InputTuple,
+    GameEndedEvent.OutputTuple,
+    GameEndedEvent.OutputObject
+  >;
+  getEvent(
+    key: "InventoryCredited"
+  ): TypedContractEvent<
+    InventoryCreditedEvent.InputTuple,
+    InventoryCreditedEvent.OutputTuple,
+    InventoryCreditedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlayerJoined"
+  ): TypedContractEvent<
+    PlayerJoinedEvent.InputTuple,
+    PlayerJoinedEvent.OutputTuple,
+    PlayerJoinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlayerLeft"
+  ): TypedContractEvent<
+    PlayerLeftEvent.InputTuple,
+    PlayerLeftEvent.OutputTuple,
+    PlayerLeftEvent.OutputObject
+  >;
+  getEvent(
+    key: "ResourcesUpdated"
+  ): TypedContractEvent<
+    ResourcesUpdatedEvent.InputTuple,
+    ResourcesUpdatedEvent.OutputTuple,
+    ResourcesUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleAdminChanged"
+  ): TypedContractEvent<
+    RoleAdminChangedEvent.InputTuple,
+    RoleAdminChangedEvent.OutputTuple,
+    RoleAdminChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoundProgressed"
+  ): TypedContractEvent<
+    RoundProgressedEvent.InputTuple,
+    RoundProgressedEvent.OutputTuple,
+    RoundProgressedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinnerDecryptionRequested"
+  ): TypedContractEvent<
+    WinnerDecryptionRequestedEvent.InputTuple,
+    WinnerDecryptionRequestedEvent.OutputTuple,
+    WinnerDecryptionRequestedEvent.OutputObject
+  >;
+
+  filters: {
+    "BidGoldForfeited(address,uint256,uint256)": TypedContractEvent<
+      BidGoldForfeitedEvent.InputTuple,
+      BidGoldForfeitedEvent.OutputTuple,
+      BidGoldForfeitedEvent.OutputObject
+    >;
+    BidGoldForfeited: TypedContractEvent<
+      BidGoldForfeitedEvent.InputTuple,
+      BidGoldForfeitedEvent.OutputTuple,
+      BidGoldForfeitedEvent.OutputObject
+    >;
+
+    "BidGoldLocked(address,uint256,uint256)": TypedContractEvent<
+      BidGoldLockedEvent.InputTuple,
+      BidGoldLockedEvent.OutputTuple,
+      BidGoldLockedEvent.OutputObject
+    >;
+    BidGoldLocked: TypedContractEvent<
+      BidGoldLockedEvent.InputTuple,
+      BidGoldLockedEvent.OutputTuple,
+      BidGoldLockedEvent.OutputObject
+    >;
+
+    "BidGoldReleased(address,uint256,uint256)": TypedContractEvent<
+      BidGoldReleasedEvent.InputTuple,
+      BidGoldReleasedEvent.OutputTuple,
+      BidGoldReleasedEvent.OutputObject
+    >;
+    BidGoldReleased: TypedContractEvent<
+      BidGoldReleasedEvent.InputTuple,
+      BidGoldReleasedEvent.OutputTuple,
+      BidGoldReleasedEvent.OutputObject
+    >;
+
+    "ConfigUpdated(tuple)": TypedContractEvent<
+      ConfigUpdatedEvent.InputTuple,
+      ConfigUpdatedEvent.OutputTuple,
+      ConfigUpdatedEvent.OutputObject
+    >;
+    ConfigUpdated: TypedContractEvent<
+      ConfigUpdatedEvent.InputTuple,
+      ConfigUpdatedEvent.OutputTuple,
+      ConfigUpdatedEvent.OutputObject
+    >;
+
+    "EnergyRegenerated(address,uint256)": TypedContractEvent<
+      EnergyRegeneratedEvent.InputTuple,
+      EnergyRegeneratedEvent.OutputTuple,
+      EnergyRegeneratedEvent.OutputObject
+    >;
+    EnergyRegenerated: TypedContractEvent<
+      EnergyRegeneratedEvent.InputTuple,
+      EnergyRegeneratedEvent.OutputTuple,
+      EnergyRegeneratedEvent.OutputObject
+    >;
+
+    "GameCreated(uint256,address,uint8,uint256,uint8,uint256)": TypedContractEvent<
+      GameCreatedEvent.InputTuple,
+      GameCreatedEvent.OutputTuple,
+      GameCreatedEvent.OutputObject
+    >;
+    GameCreated: TypedContractEvent<
+      GameCreatedEvent.InputTuple,
+      GameCreatedEvent.OutputTuple,
+      GameCreatedEvent.OutputObject
+    >;
+
+    "GameEnded(uint256,address,uint256)": TypedContractEvent<
+      GameEndedEvent.InputTuple,
+      GameEndedEvent.OutputTuple,
+      GameEndedEvent.OutputObject
+    >;
+    GameEnded: TypedContractEvent<
+      GameEndedEvent.InputTuple,
+      GameEndedEvent.OutputTuple,
+      GameEndedEvent.OutputObject
+    >;
+
+    "InventoryCredited(address,uint8,uint256)": TypedContractEvent<
+      InventoryCreditedEvent.InputTuple,
+      InventoryCreditedEvent.OutputTuple,
+      InventoryCreditedEvent.OutputObject
+    >;
+    InventoryCredited: TypedContractEvent<
+      InventoryCreditedEvent.InputTuple,
+      InventoryCreditedEvent.OutputTuple,
+      InventoryCreditedEvent.OutputObject
+    >;
+
+    "PlayerJoined(uint256,address,uint256)": TypedContractEvent<
+      PlayerJoinedEvent.InputTuple,
+      PlayerJoinedEvent.OutputTuple,
+      PlayerJoinedEvent.OutputObject
+    >;
+    PlayerJoined: TypedContractEvent<
+      PlayerJoinedEvent.InputTuple,
+      PlayerJoinedEvent.OutputTuple,
+      PlayerJoinedEvent.OutputObject
+    >;
+
+    "PlayerLeft(uint256,address,uint256)": TypedContractEvent<
+      PlayerLeftEvent.InputTuple,
+      PlayerLeftEvent.OutputTuple,
+      PlayerLeftEvent.OutputObject
+    >;
+    PlayerLeft: TypedContractEvent<
+      PlayerLeftEvent.InputTuple,
+      PlayerLeftEvent.OutputTuple,
+      PlayerLeftEvent.OutputObject
+    >;
+
+    "ResourcesUpdated(address,uint256)": TypedContractEvent<
+      ResourcesUpdatedEvent.InputTuple,
+      ResourcesUpdatedEvent.OutputTuple,
+      ResourcesUpdatedEvent.OutputObject
+    >;
+    ResourcesUpdated: TypedContractEvent<
+      ResourcesUpdatedEvent.InputTuple,
+      ResourcesUpdatedEvent.OutputTuple,
+      ResourcesUpdatedEvent.OutputObject
+    >;
+
+    "RoleAdminChanged(bytes32,bytes32,bytes32)": TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+    RoleAdminChanged: TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "RoundProgressed(uint256,uint256,uint256)": TypedContractEvent<
+      RoundProgressedEvent.InputTuple,
+      RoundProgressedEvent.OutputTuple,
+      RoundProgressedEvent.OutputObject
+    >;
+    RoundProgressed: TypedContractEvent<
+      RoundProgressedEvent.InputTuple,
+      RoundProgressedEvent.OutputTuple,
+      RoundProgressedEvent.OutputObject
+    >;
+
+    "WinnerDecryptionRequested(uint256,uint256,uint256)": TypedContractEvent<
+      WinnerDecryptionRequestedEvent.InputTuple,
+      WinnerDecryptionRequestedEvent.OutputTuple,
+      WinnerDecryptionRequestedEvent.OutputObject
+    >;
+    WinnerDecryptionRequested: TypedContractEvent<
+      WinnerDecryptionRequestedEvent.InputTuple,
+      WinnerDecryptionRequestedEvent.OutputTuple,
+      WinnerDecryptionRequestedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,9 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { MockACL } from "./MockACL";
+export type { MockDecryptionOracle } from "./MockDecryptionOracle";
+export type { MockFHEVMExecutor } from "./MockFHEVMExecutor";
+export type { MockInputVerifier } from "./MockInputVerifier";
+export type { MockKMSVerifier } from "./MockKMSVerifier";
+export type { ShadowMerchantsHarness } from "./ShadowMerchantsHarness";
@@ -51,7 +51,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x60808060405234601757603a9081601d823930815050f35b600080fdfe600080fdfea2646970667358221220f77fca1eeb36eccbb92f09190efd9e599f54394937701fdbe9c6322faa05203264736f6c63430008180033";
+  "0x6080806040523460175760399081601c823930815050f35b5f80fdfe5f80fdfea264697066735822122085136b6a69c90d3842e775961e3d77518f641222afdc115a24a57a9eb7f84c5264736f6c63430008180033";
 
 type FHEConstructorParams =
   | [signer?: Signer]
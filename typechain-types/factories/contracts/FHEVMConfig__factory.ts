@@ -0,0 +1,27 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  FHEVMConfig,
+  FHEVMConfigInterface,
+} from "../../contracts/FHEVMConfig";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+] as const;
+
+export class FHEVMConfig__factory {
+  static readonly abi = _abi;
+  static createInterface(): FHEVMConfigInterface {
+    return new Interface(_abi) as FHEVMConfigInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): FHEVMConfig {
+    return new Contract(address, _abi, runner) as unknown as FHEVMConfig;
+  }
+}
@@ -0,0 +1,60 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IProofVerificationCallback,
+  IProofVerificationCallbackInterface,
+} from "../../../contracts/InputVerificationMock.sol/IProofVerificationCallback";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+    ],
+    name: "onProofRejected",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "verifiedHandles",
+        type: "bytes32[]",
+      },
+    ],
+    name: "onProofVerified",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IProofVerificationCallback__factory {
+  static readonly abi = _abi;
+  static createInterface(): IProofVerificationCallbackInterface {
+    return new Interface(_abi) as IProofVerificationCallbackInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IProofVerificationCallback {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as IProofVerificationCallback;
+  }
+}
@@ -0,0 +1,410 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  InputVerificationMock,
+  InputVerificationMockInterface,
+} from "../../../contracts/InputVerificationMock.sol/InputVerificationMock";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_coprocessor",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidCoprocessor",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotCoprocessor",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+    ],
+    name: "ProofAlreadyProcessed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+    ],
+    name: "RejectProofResponse",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "contractChainId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "contractAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "userAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "ciphertextWithZKProof",
+        type: "bytes",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "extraData",
+        type: "bytes",
+      },
+    ],
+    name: "VerifyProofRequest",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "ctHandles",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes[]",
+        name: "signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "VerifyProofResponse",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "coprocessor",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+    ],
+    name: "getProofRequest",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "contractChainId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "contractAddress",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "userAddress",
+            type: "address",
+          },
+          {
+            internalType: "bytes",
+            name: "ciphertextWithZKProof",
+            type: "bytes",
+          },
+          {
+            internalType: "bytes",
+            name: "extraData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct InputVerificationMock.ProofRequest",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isProofProcessed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proofRequests",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "contractChainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "contractAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "userAddress",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "ciphertextWithZKProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "extraData",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "rejectProofResponse",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "contractChainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "contractAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "userAddress",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "ciphertextWithZKProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "extraData",
+        type: "bytes",
+      },
+    ],
+    name: "verifyProofRequest",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "ctHandles",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "verifyProofResponse",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "zkProofIdCounter",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a03461009357601f610e4138819003918201601f19168301916001600160401b038311848410176100975780849260209460405283398101031261009357516001600160a01b038116808203610093575f80551561008157608052604051610d9590816100ac8239608051818181610501015281816105a101526107550152f35b604051637615954f60e11b8152600490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f905f3560e01c908163152a9526146109e557508063258257461461095957806331bedea3146106c0578063338007fc1461055f57806335b4bd80146105305780637382084a146104eb578063a7004996146100955763afb3c50e14610076575f80fd5b3461009257806003193601126100925760209054604051908152f35b80fd5b50346100925760a0366003190112610092576024356001600160a01b03811681036104e757604435906001600160a01b03821682036104e75760643567ffffffffffffffff81116104e3576100ee903690600401610c46565b909260843567ffffffffffffffff81116104df57610110903690600401610c46565b9290918654955f1987146104cb5760018701885560405161013081610b3e565b60043581526001600160a01b03878116602083015283166040820152610157368584610cd5565b6060820152610167368787610cd5565b608082015260018801895260016020526040892090805182556001820160018060a01b03602083015116906bffffffffffffffffffffffff60a01b9182825416179055600283019060018060a01b0360408401511690825416179055606081015190815167ffffffffffffffff81116104b7576101e76003850154610b06565b601f8111610470575b506020928c601f83116001146103fe576080949091836103f3575b50508160011b915f199060031b1c19161760038401555b015180519067ffffffffffffffff82116103df576102436004840154610b06565b601f811161039b575b509960209a8b91601f841160011461030657836102cb947f4ae54f6a6e900d806ffa5bb46ed91459523d2f6ac9b5d62404feab887686d005999897946102ed9794600494926102fb575b50508160011b915f199060031b1c1916179101555b60405194859460018060a01b0316855260608c8601526060850191610d3f565b82810360408401526001600160a01b03909716966004359660018a0196610d3f565b0390a4600160405191018152f35b015190505f80610296565b91906004850183528c8320925b601f198516811061038457506001847f4ae54f6a6e900d806ffa5bb46ed91459523d2f6ac9b5d62404feab887686d005999897946102ed97946004946102cb98601f1981161061036c575b505050811b019101556102ab565b01515f1960f88460031b161c191690555f808061035e565b91928d600181928685015181550194019201610313565b600484018c5260208c20601f840160051c8101602085106103d8575b601f830160051c820181106103cd57505061024c565b8d81556001016103b7565b50806103b7565b634e487b7160e01b8b52604160045260248bfd5b015190505f8061020b565b50909192600385018d5260208d20918d5b601f1985168110610458575091839160019360809695601f19811610610440575b505050811b016003840155610222565b01515f1960f88460031b161c191690555f8080610430565b9192602060018192868501518155019401920161040f565b600385018d5260208d20601f830160051c8101602084106104b0575b8e5b601f840160051c830182106104a5575050506101f0565b81556001018e61048e565b508061048c565b634e487b7160e01b8c52604160045260248cfd5b634e487b7160e01b88526011600452602488fd5b8580fd5b8380fd5b5f80fd5b50346100925780600319360112610092576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346100925760203660031901126100925760ff60406020926004358152600284522054166040519015158152f35b50346100925760403660031901126100925760043560243567ffffffffffffffff81116106bc57610594903690600401610c46565b506001600160a01b0390507f0000000000000000000000000000000000000000000000000000000000000000811633036106aa578115158061069f575b6105da90610c74565b818352600260205260ff604084205416610686578290828252600260205260408220600160ff198254161790556001602052600160408320015416803b610644575b50807fe465e141fa8abd95ab7e0855543307f8506ab0170ef664420fb71ab7de0183de91a280f35b803b156106825781809160246040518094819363c1d1665160e01b83528860048401525af11561061c5761067790610b6e565b61068257815f61061c565b5080fd5b604051637d68ca9960e11b815260048101839052602490fd5b5082548211156105d1565b60405163116a9a1f60e21b8152600490fd5b8280fd5b50346104e75760803660031901126104e757600435602480359067ffffffffffffffff908183116104e757366023840112156104e7578260040135928284116104e757818101908236918660051b0101116104e7576044358381116104e75761072d903690600401610c46565b9190926064358581116104e757610748903690600401610c46565b506001600160a01b0390507f0000000000000000000000000000000000000000000000000000000000000000811633036106aa578715158061094e575b61078e90610c74565b875f526020936002855260ff60405f20541661093657885f526002855260405f2095600196600160ff198254161790556001865260405f20916040519860408a01908a8210908211176109235760405260018952865f5b818110610913575050600192916107fd913691610cd5565b61080689610cb4565b5261081088610cb4565b50015416803b156104e7576040805163366d44c360e11b8152600481018a9052928301525f908290818381610849604482018d8a610d1b565b03925af18015610908576108f3575b506108729060409392935195604087526040870191610d1b565b91848303818601528351908184528084019381808460051b83010196019489915b8483106108c5578a8a7ffe2c43585786a5a658d2ec5df5dea3fb3385b77c94f60f724ff810896f4198358b8b038ca280f35b909192939484806108e283999a601f198682030187528b51610ac8565b990193019301919594939290610893565b6108fe919750610b6e565b5f95610872610858565b6040513d5f823e3d90fd5b606082828d0101520187906107e5565b85634e487b7160e01b5f5260416004525ffd5b604051637d68ca9960e11b8152600481018a90528390fd5b505f54881115610785565b346104e75760203660031901126104e7576004355f52600160205260405f2080546109e160018060a01b03926109d38460018301541694600283015416916109af60046109a860038401610ba4565b9201610ba4565b9260405196879687526020870152604086015260a0606086015260a0850190610ac8565b908382036080850152610ac8565b0390f35b346104e757602090816003193601126104e757608081610a06606093610b3e565b5f81525f848201525f6040820152828082015201526004355f526001815260405f206109e160405191610a3883610b3e565b80548352610ab960018060a01b03918260018201541692868601938452806002830154166040870190815281610a836004610a7560038701610ba4565b9560608b0196875201610ba4565b9560808901968752604051998a99818b5251908a015251166040880152511660608601525160a0608086015260c0850190610ac8565b9051838203601f190160a08501525b91908251928382525f5b848110610af2575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610ad2565b90600182811c92168015610b34575b6020831014610b2057565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610b15565b60a0810190811067ffffffffffffffff821117610b5a57604052565b634e487b7160e01b5f52604160045260245ffd5b67ffffffffffffffff8111610b5a57604052565b90601f8019910116810190811067ffffffffffffffff821117610b5a57604052565b9060405191825f8254610bb681610b06565b908184526020946001916001811690815f14610c245750600114610be6575b505050610be492500383610b82565b565b5f90815285812095935091905b818310610c0c575050610be493508201015f8080610bd5565b85548884018501529485019487945091830191610bf3565b92505050610be494925060ff191682840152151560051b8201015f8080610bd5565b9181601f840112156104e75782359167ffffffffffffffff83116104e757602083818601950101116104e757565b15610c7b57565b60405162461bcd60e51b8152602060048201526011602482015270125b9d985b1a59081e9ad41c9bdbd99259607a1b6044820152606490fd5b805115610cc15760200190565b634e487b7160e01b5f52603260045260245ffd5b92919267ffffffffffffffff8211610b5a5760405191610cff601f8201601f191660200184610b82565b8294818452818301116104e7578281602093845f960137010152565b81835290916001600160fb1b0383116104e75760209260051b809284830137010190565b908060209392818452848401375f828201840152601f01601f191601019056fea26469706673582212207df8784e0da1110a83e8dfc062708bcfb19feef26bbf3b253c9a65ef7e370d4a64736f6c63430008180033";
+
+type InputVerificationMockConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: InputVerificationMockConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class InputVerificationMock__factory extends ContractFactory {
+  constructor(...args: InputVerificationMockConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _coprocessor: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_coprocessor, overrides || {});
+  }
+  override deploy(
+    _coprocessor: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_coprocessor, overrides || {}) as Promise<
+      InputVerificationMock & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): InputVerificationMock__factory {
+    return super.connect(runner) as InputVerificationMock__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): InputVerificationMockInterface {
+    return new Interface(_abi) as InputVerificationMockInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): InputVerificationMock {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as InputVerificationMock;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IProofVerificationCallback__factory } from "./IProofVerificationCallback__factory";
+export { InputVerificationMock__factory } from "./InputVerificationMock__factory";
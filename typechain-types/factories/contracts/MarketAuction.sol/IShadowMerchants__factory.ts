@@ -0,0 +1,189 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IShadowMerchants,
+  IShadowMerchantsInterface,
+} from "../../../contracts/MarketAuction.sol/IShadowMerchants";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "forfeitBidGold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "amountPlain",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "amountIsPlaintext",
+        type: "bool",
+      },
+    ],
+    name: "lockBidGold",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "locked",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseBidGold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "release",
+        type: "bytes32",
+      },
+    ],
+    name: "releaseBidGoldIf",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "goodType",
+        type: "uint8",
+      },
+      {
+        internalType: "euint64",
+        name: "price",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "pricePlain",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "priceIsPlaintext",
+        type: "bool",
+      },
+    ],
+    name: "settleAuctionWin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "locked",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "accepted",
+        type: "bytes32",
+      },
+    ],
+    name: "settleBidGoldIf",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IShadowMerchants__factory {
+  static readonly abi = _abi;
+  static createInterface(): IShadowMerchantsInterface {
+    return new Interface(_abi) as IShadowMerchantsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IShadowMerchants {
+    return new Contract(address, _abi, runner) as unknown as IShadowMerchants;
+  }
+}
@@ -82,16 +82,71 @@ const _abi = [
     name: "BidTooLate",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "ClearingPriceAlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ClearingPriceRevealInProgress",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CommitmentMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DutchBidPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidConfig",
+    type: "error",
+  },
   {
     inputs: [],
     name: "InvalidGoodType",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidStartPrice",
+    type: "error",
+  },
   {
     inputs: [],
     name: "MaxAuctionsReached",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "NoBidCommitment",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoWinningBid",
+    type: "error",
+  },
   {
     inputs: [],
     name: "NotAuthorized",
@@ -102,11 +157,51 @@ const _abi = [
     name: "NotWinner",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "ReservePricePending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RevealWindowClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RevealWindowNotOpen",
+    type: "error",
+  },
   {
     inputs: [],
     name: "RewardAlreadyClaimed",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "UnknownDutchBidRequest",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRevealRequest",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownWinnerRequest",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WinnerDecryptionInProgress",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WrongBiddingMode",
+    type: "error",
+  },
   {
     anonymous: false,
     inputs: [
@@ -215,6 +310,12 @@ const _abi = [
         name: "bidder",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "commitment",
+        type: "bytes32",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -222,7 +323,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "BidPlaced",
+    name: "BidCommitted",
     type: "event",
   },
   {
@@ -240,12 +341,31 @@ const _abi = [
         name: "bidder",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BidForfeited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
         indexed: true,
         internalType: "uint256",
-        name: "zkProofId",
+        name: "auctionId",
         type: "uint256",
       },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -253,7 +373,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "BidProofRequested",
+    name: "BidPlaced",
     type: "event",
   },
   {
@@ -284,7 +404,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "BidProofVerified",
+    name: "BidProofRejected",
     type: "event",
   },
   {
@@ -299,23 +419,23 @@ const _abi = [
       {
         indexed: true,
         internalType: "address",
-        name: "winner",
+        name: "bidder",
         type: "address",
       },
       {
-        indexed: false,
-        internalType: "uint8",
-        name: "goodType",
-        type: "uint8",
+        indexed: true,
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
       },
       {
         indexed: false,
         internalType: "uint256",
-        name: "claimedAt",
+        name: "timestamp",
         type: "uint256",
       },
     ],
-    name: "RewardClaimed",
+    name: "BidProofRequested",
     type: "event",
   },
   {
@@ -323,24 +443,30 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
       },
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "previousAdminRole",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
       },
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "newAdminRole",
-        type: "bytes32",
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
     ],
-    name: "RoleAdminChanged",
+    name: "BidProofVerified",
     type: "event",
   },
   {
@@ -348,24 +474,30 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
       },
       {
         indexed: true,
         internalType: "address",
-        name: "account",
+        name: "bidder",
         type: "address",
       },
       {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
+        indexed: false,
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
     ],
-    name: "RoleGranted",
+    name: "BidRevealed",
     type: "event",
   },
   {
@@ -373,138 +505,790 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
       },
       {
         indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
       },
       {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
+        indexed: false,
+        internalType: "bytes32",
+        name: "highestBidHandle",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
     ],
-    name: "RoleRevoked",
+    name: "ClearingPriceRevealRequested",
     type: "event",
   },
   {
-    inputs: [],
-    name: "AUCTION_DURATION",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
+        indexed: true,
         internalType: "uint256",
-        name: "",
+        name: "auctionId",
         type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "AUCTION_MANAGER_ROLE",
-    outputs: [
       {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
+        indexed: false,
+        internalType: "uint64",
+        name: "clearingPrice",
+        type: "uint64",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "DEFAULT_ADMIN_ROLE",
-    outputs: [
       {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "ClearingPriceRevealed",
+    type: "event",
   },
   {
-    inputs: [],
-    name: "GOOD_TYPE_ARTIFACTS",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
-        internalType: "uint8",
-        name: "",
-        type: "uint8",
+        components: [
+          {
+            internalType: "uint256",
+            name: "auctionDuration",
+            type: "uint256",
+          },
+          {
+            internalType: "uint8",
+            name: "maxSimultaneousAuctions",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "revealDuration",
+            type: "uint256",
+          },
+        ],
+        indexed: false,
+        internalType: "struct MarketAuction.AuctionConfig",
+        name: "config",
+        type: "tuple",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "ConfigUpdated",
+    type: "event",
   },
   {
-    inputs: [],
-    name: "GOOD_TYPE_GEMS",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
-        internalType: "uint8",
-        name: "",
-        type: "uint8",
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "accepted",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DutchBidDecided",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DutchBidDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ReservePriceVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "goodType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "claimedAt",
+        type: "uint256",
+      },
+    ],
+    name: "RewardClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
+        type: "bytes32",
+      },
+    ],
+    name: "RoleAdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "shadowMerchants",
+        type: "address",
+      },
+    ],
+    name: "ShadowMerchantsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "WinnerDecryptionRequested",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "AUCTION_MANAGER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "GOOD_TYPE_ARTIFACTS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "GOOD_TYPE_GEMS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "GOOD_TYPE_GOLD_BARS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "GOOD_TYPE_SILK",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "GOOD_TYPE_SPICES",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_AUCTIONS_LIMIT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_AUCTION_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_AUCTION_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint64",
+        name: "reservePrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "_decryptReservePrice",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "activeAuctionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "auctionCounter",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctionParticipants",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "auctions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "goodType",
+        type: "uint8",
+      },
+      {
+        internalType: "euint64",
+        name: "reservePrice",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "highestBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "eaddress",
+        name: "highestBidder",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isResolved",
+        type: "bool",
+      },
+      {
+        internalType: "uint8",
+        name: "participantCount",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "currentWinner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "resolvedWinner",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "usesPlaintext",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "reservePricePlain",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "highestBidPlain",
+        type: "uint64",
+      },
+      {
+        internalType: "enum MarketAuction.AuctionFormat",
+        name: "format",
+        type: "uint8",
+      },
+      {
+        internalType: "euint64",
+        name: "secondHighestBid",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "secondHighestBidPlain",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "usesCommitReveal",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "revealEndTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "startPricePlain",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "auctionIds",
+        type: "uint256[]",
+      },
+    ],
+    name: "batchResolveAuctions",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "bidder",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+    ],
+    name: "bidCommitment",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "bids",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isWinning",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "usesPlaintext",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "amountPlain",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "isPendingVerification",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "commitment",
+        type: "bytes32",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "GOOD_TYPE_GOLD_BARS",
-    outputs: [
+    inputs: [
       {
-        internalType: "uint8",
-        name: "",
-        type: "uint8",
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "GOOD_TYPE_SILK",
+    name: "claimReward",
     outputs: [
       {
-        internalType: "uint8",
+        internalType: "bool",
         name: "",
-        type: "uint8",
+        type: "bool",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "GOOD_TYPE_SPICES",
-    outputs: [
+    inputs: [
       {
-        internalType: "uint8",
+        internalType: "uint256",
         name: "",
-        type: "uint8",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "MAX_SIMULTANEOUS_AUCTIONS",
+    name: "clearingPriceRevealPending",
     outputs: [
       {
-        internalType: "uint8",
+        internalType: "bool",
         name: "",
-        type: "uint8",
+        type: "bool",
       },
     ],
     stateMutability: "view",
@@ -513,48 +1297,36 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "externalEuint64",
-        name: "reservePrice",
-        type: "bytes32",
-      },
-      {
-        internalType: "bytes",
-        name: "proof",
-        type: "bytes",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
     ],
-    name: "_decryptReservePrice",
+    name: "clearingPriceRevealed",
     outputs: [
       {
-        internalType: "euint64",
+        internalType: "bool",
         name: "",
-        type: "bytes32",
+        type: "bool",
       },
     ],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "activeAuctionCount",
-    outputs: [
+    inputs: [
       {
         internalType: "uint256",
         name: "",
         type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "auctionCounter",
+    name: "clearingPrices",
     outputs: [
       {
-        internalType: "uint256",
+        internalType: "uint64",
         name: "",
-        type: "uint256",
+        type: "uint64",
       },
     ],
     stateMutability: "view",
@@ -564,243 +1336,244 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "",
+        name: "auctionId",
         type: "uint256",
       },
-    ],
-    name: "auctionParticipants",
-    outputs: [
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        internalType: "bytes32",
+        name: "commitment",
+        type: "bytes32",
       },
     ],
-    stateMutability: "view",
+    name: "commitBid",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "config",
+    outputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "auctionDuration",
         type: "uint256",
       },
-    ],
-    name: "auctions",
-    outputs: [
+      {
+        internalType: "uint8",
+        name: "maxSimultaneousAuctions",
+        type: "uint8",
+      },
       {
         internalType: "uint256",
-        name: "auctionId",
+        name: "revealDuration",
         type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint8",
         name: "goodType",
         type: "uint8",
       },
       {
-        internalType: "euint64",
+        internalType: "externalEuint64",
         name: "reservePrice",
         type: "bytes32",
       },
       {
-        internalType: "euint64",
-        name: "highestBid",
-        type: "bytes32",
-      },
-      {
-        internalType: "eaddress",
-        name: "highestBidder",
-        type: "bytes32",
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
       },
       {
         internalType: "uint256",
-        name: "startTime",
+        name: "durationSeconds",
         type: "uint256",
       },
+    ],
+    name: "createAuction",
+    outputs: [
       {
         internalType: "uint256",
-        name: "endTime",
+        name: "",
         type: "uint256",
       },
-      {
-        internalType: "bool",
-        name: "isActive",
-        type: "bool",
-      },
-      {
-        internalType: "bool",
-        name: "isResolved",
-        type: "bool",
-      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint8",
-        name: "participantCount",
+        name: "goodType",
         type: "uint8",
       },
       {
-        internalType: "address",
-        name: "creator",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "currentWinner",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "resolvedWinner",
-        type: "address",
+        internalType: "externalEuint64",
+        name: "reservePrice",
+        type: "bytes32",
       },
       {
-        internalType: "bool",
-        name: "usesPlaintext",
-        type: "bool",
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
       },
       {
-        internalType: "uint64",
-        name: "reservePricePlain",
-        type: "uint64",
+        internalType: "uint256",
+        name: "durationSeconds",
+        type: "uint256",
       },
       {
-        internalType: "uint64",
-        name: "highestBidPlain",
-        type: "uint64",
+        internalType: "enum MarketAuction.AuctionFormat",
+        name: "format",
+        type: "uint8",
       },
     ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
+    name: "createAuctionWithFormat",
+    outputs: [
       {
-        internalType: "uint256[]",
-        name: "auctionIds",
-        type: "uint256[]",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
     ],
-    name: "batchResolveAuctions",
-    outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
+      {
+        internalType: "uint8",
+        name: "goodType",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "reservePrice",
+        type: "uint64",
+      },
       {
         internalType: "uint256",
-        name: "",
+        name: "durationSeconds",
         type: "uint256",
       },
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        internalType: "enum MarketAuction.AuctionFormat",
+        name: "format",
+        type: "uint8",
       },
     ],
-    name: "bids",
+    name: "createCommitRevealAuction",
     outputs: [
-      {
-        internalType: "euint64",
-        name: "amount",
-        type: "bytes32",
-      },
       {
         internalType: "uint256",
-        name: "timestamp",
+        name: "auctionId",
         type: "uint256",
       },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "bool",
-        name: "isActive",
-        type: "bool",
+        internalType: "uint8",
+        name: "goodType",
+        type: "uint8",
       },
       {
-        internalType: "bool",
-        name: "isWinning",
-        type: "bool",
+        internalType: "externalEuint64",
+        name: "reservePrice",
+        type: "bytes32",
       },
       {
-        internalType: "bool",
-        name: "usesPlaintext",
-        type: "bool",
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
       },
       {
-        internalType: "uint64",
-        name: "amountPlain",
-        type: "uint64",
+        internalType: "uint256",
+        name: "durationSeconds",
+        type: "uint256",
       },
       {
-        internalType: "bool",
-        name: "isPendingVerification",
-        type: "bool",
+        internalType: "uint64",
+        name: "startPrice",
+        type: "uint64",
       },
+    ],
+    name: "createDutchAuction",
+    outputs: [
       {
         internalType: "uint256",
-        name: "zkProofId",
+        name: "",
         type: "uint256",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "uint256",
-        name: "auctionId",
+        name: "",
         type: "uint256",
       },
     ],
-    name: "claimReward",
+    name: "dutchBidRequestAuction",
     outputs: [
       {
-        internalType: "bool",
+        internalType: "uint256",
         name: "",
-        type: "bool",
+        type: "uint256",
       },
     ],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "uint8",
-        name: "goodType",
-        type: "uint8",
-      },
-      {
-        internalType: "externalEuint64",
-        name: "reservePrice",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
+    ],
+    name: "dutchPendingBidder",
+    outputs: [
       {
-        internalType: "bytes",
-        name: "proof",
-        type: "bytes",
+        internalType: "address",
+        name: "",
+        type: "address",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "durationSeconds",
+        name: "auctionId",
         type: "uint256",
       },
     ],
-    name: "createAuction",
+    name: "dutchPrice",
     outputs: [
       {
-        internalType: "uint256",
+        internalType: "uint64",
         name: "",
-        type: "uint256",
+        type: "uint64",
       },
     ],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -1080,6 +1853,65 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "clearingPrice",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes[]",
+        name: "signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "onClearingPriceDecrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "accepted",
+        type: "bool",
+      },
+      {
+        internalType: "bytes[]",
+        name: "signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "onDutchBidDecrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "zkProofId",
+        type: "uint256",
+      },
+    ],
+    name: "onProofRejected",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -1098,6 +1930,29 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "bytes[]",
+        name: "signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "onWinnerDecrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -1128,6 +1983,11 @@ const _abi = [
         name: "isValid",
         type: "bool",
       },
+      {
+        internalType: "bool",
+        name: "isReservePrice",
+        type: "bool",
+      },
     ],
     stateMutability: "view",
     type: "function",
@@ -1173,6 +2033,25 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "resolutionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -1192,6 +2071,61 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+    ],
+    name: "revealBid",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "revealClearingPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "revealRequestAuction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -1234,6 +2168,32 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "shadowMerchantsAddress",
+        type: "address",
+      },
+    ],
+    name: "setShadowMerchants",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "shadowMerchants",
+    outputs: [
+      {
+        internalType: "contract IShadowMerchants",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -1266,6 +2226,36 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "auctionDuration",
+            type: "uint256",
+          },
+          {
+            internalType: "uint8",
+            name: "maxSimultaneousAuctions",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "revealDuration",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct MarketAuction.AuctionConfig",
+        name: "newConfig",
+        type: "tuple",
+      },
+    ],
+    name: "updateConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "useInputVerificationGateway",
@@ -1279,10 +2269,48 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winnerDecryptionPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winnerRequestAuction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x608034620000aa57601f62002d6938819003918201601f19168301916001600160401b03831184841017620000af57808492602094604052833981010312620000aa57516001600160a01b03811690819003620000aa576200006133620000c5565b506200006d3362000145565b5060006008819055600955600680546001600160a81b031916821791151560a01b60ff60a01b16919091179055604051612b619081620001e88239f35b600080fd5b634e487b7160e01b600052604160045260246000fd5b6001600160a01b031660008181527fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5602052604081205490919060ff166200014157818052816020526040822081835260205260408220600160ff19825416179055339160008051602062002d498339815191528180a4600190565b5090565b6001600160a01b031660008181527f73954a9c5c35bd725da27a19836d3182ba373207918438186957c49c39131cf960205260408120549091907ffc15875e223f196de4d28f104664030b8067b4a40d0372ee3095567046e5e0b39060ff16620001e257808352826020526040832082845260205260408320600160ff1982541617905560008051602062002d49833981519152339380a4600190565b50509056fe608080604052600436101561001357600080fd5b60003560e01c90816301ffc9a714611dbd57508063199de1e214611d745780631f157b8414611d585780631fd95ac914611d06578063248a9ca314611cd75780632a13b7f114611cbe5780632ecdee5b14611c425780632f2ff15d14611c0357806336568abe14611bbc5780633cec5e4114611ba05780633ec04a7d146114ed5780633f1ffcec14611444578063571a26a0146113455780636cda89861461108157806372e2867d1461106357806375d7f14f14610fa05780637ab304b514610f845780637b26483814610f4c5780637d61528614610f1157806386e5b24f14610adb57806388dfc19414610abf57806391d1485414610a725780639a835e9114610a255780639c08deb7146109e8578063a11d0dc414610918578063a217fddf146108fc578063a271e525146108df578063a3b7d9f7146108c3578063a7e76644146108a5578063a7fd20771461087f578063aaa5746114610830578063ae169a5014610704578063b40479f9146106e8578063c8b727a114610682578063ca96dd271461061c578063cf44b5d51461054f578063cf8589b9146104f4578063d0669149146104cb578063d0861d44146103a2578063d547741f146103615763fc3fc4ed146101e257600080fd5b3461035c57602036600319011261035c5760043580158015610351575b61033f5760005260016020526040600020604051906102008201916001600160401b0391818410838511176103295760e0936040528054825260ff600182015416928360208401526002820154604084015260038201546060840152600482015460808401526005820154928360a082015260068301548060c083015260078401549460ff861615159283898201526101e060ff8860081c1615159586610100840152600a60ff8a60101c1698896101208601528260018060a01b03809c60181c169b8c61014088015280600884015416610160880152600983015490811661018088015260ff8160a01c1615156101a088015260a81c166101c0860152015416910152604051968752602087015260408601526060850152608084015260a083015260c0820152f35b634e487b7160e01b600052604160045260246000fd5b6040516307145c5f60e11b8152600490fd5b5060085481116101ff565b600080fd5b3461035c57604036600319011261035c576103a0600435610380611e3e565b9080600052600060205261039b6001604060002001546123cd565b6125d5565b005b3461035c5760208060031936011261035c576001600160a01b0390600435828116919082900361035c576008805492600060015b8581111561047057506103e89061232f565b9460009360015b8681111561040957604051806104058a82611f01565b0390f35b80600052600182526040600020848460ff6007840154891c169283610460575b50505061043f575b61043a90611f3d565b6103ef565b94610458818761045261043a948c612361565b52611f3d565b959050610431565b600901541614905084848b610429565b80600052600185526040600020838860ff6007840154881c1692836104bb575b5050506104a6575b6104a190611f3d565b6103d6565b906104b36104a191611f3d565b919050610498565b600901541614905083888a610490565b3461035c57600036600319011261035c576006546040516001600160a01b039091168152602090f35b3461035c57602036600319011261035c5760043560005260076020526080604060002080549060018060a01b036001820154169060ff6003600283015492015416916040519384526020840152604083015215156060820152f35b3461035c57600036600319011261035c57600880549061056e8261232f565b9160009160015b828111156105c1575050506105898161232f565b9160005b8281106105a257604051806104058682611f01565b806105af60019284612361565b516105ba8287612361565b520161058d565b80600052600160205260076040600020015460ff808216918261060f575b50506105f4575b6105ef90611f3d565b610575565b9261060781856104526105ef9489612361565b9390506105e6565b841c1615905086806105df565b3461035c57604036600319011261035c57600435610638611e3e565b9080158015610677575b61033f57600052600460205260406000209060018060a01b0316600052602052602060ff604060002054166040519015158152f35b506008548111610642565b3461035c57604036600319011261035c5760043561069e611e3e565b90801580156106dd575b61033f57600052600560205260406000209060018060a01b0316600052602052602060ff604060002054166040519015158152f35b5060085481116106a8565b3461035c57600036600319011261035c57602060405160038152f35b3461035c5760208060031936011261035c5760043580158015610825575b61033f578060005260018252604060002060ff600782015460081c16156108135760098101546001600160a01b03163303610801578160005260058352604060002033600052835260ff604060002054166107ef57600160ff91836000526005855260406000203360005285526040600020828419825416179055015416907f7dbafd50f1a2a8e0853f65054eb024c174da1bb76b664ad997927d8fd98bcf7e604051806107e333954290836020909392919360ff60408201951681520152565b0390a360405160018152f35b604051632cfe303760e21b8152600490fd5b6040516330c6392160e11b8152600490fd5b604051639eafe1b760e01b8152600490fd5b506008548111610722565b3461035c57604036600319011261035c576024356001600160401b03811161035c5761087761086f6108686020933690600401611e54565b36916122d2565b60043561274e565b604051908152f35b3461035c57600036600319011261035c57602060ff60065460a01c166040519015158152f35b3461035c57600036600319011261035c576020600854604051908152f35b3461035c57600036600319011261035c57602060405160028152f35b3461035c57600036600319011261035c57602060405161012c8152f35b3461035c57600036600319011261035c57602060405160008152f35b3461035c5760208060031936011261035c57600435801580156109dd575b61033f5760005260038152604060002060405190818382549182815201908192600052846000209060005b868282106109c057868661097782880383611fe6565b604051928392818401908285525180915260408401929160005b8281106109a057505050500390f35b83516001600160a01b031685528695509381019392810192600101610991565b83546001600160a01b031685529093019260019283019201610961565b506008548111610936565b3461035c57602036600319011261035c57600435610a04612375565b80158015610a1a575b61033f576103a090612177565b506008548111610a0d565b3461035c57604036600319011261035c57610a3e611e3e565b600435600052600560205260406000209060018060a01b0316600052602052602060ff604060002054166040519015158152f35b3461035c57604036600319011261035c57610a8b611e3e565b600435600052600060205260406000209060018060a01b0316600052602052602060ff604060002054166040519015158152f35b3461035c57600036600319011261035c57602060405160058152f35b3461035c57608036600319011261035c57610af4611eb1565b6001600160401b039060243560443583811161035c57610b18903690600401611e54565b909360643593600a6009541015610eff5760ff16916001918284108015610ef5575b610ee357610b49600854611f3d565b6008819055958015610ed957965b8215926000918415610cb957505050841693905b159586610ca2575b420193844211610c8c576000868152602084815260408220888155808601805460ff1916881790556002810194909455600384018290556004840191909155426005840155600683018690556007830180546001600160b81b0319163360181b6301000000600160b81b0316179094179093556008820180546001600160a01b0319169055600980830180546001600160e81b031916981560a01b60ff60a01b169890981760a89290921b67ffffffffffffffff60a81b1691909117909655600a01805467ffffffffffffffff191690559354610c4f90611f3d565b6009556040519142835284830152827fd9b180ada7f7737f2fcd8708fc2547f41e5ecc2cba06265ad3ffa7e7259df8ae60403394a4604051908152f35b634e487b7160e01b600052601160045260246000fd5b610cab3061287b565b610cb43061287b565b610b73565b60ff600698949293985460a01c1680610ed2575b15610e2257610cfd6040805185819660209589878501528484013781016000838201520383810186520184611fe6565b60405191898284015260006040840152604083526060830190838210908211176103295780604052818160018060a01b039581600088600654169263538024cb60e11b835288610d5781605f199333304660648501612124565b0301925af1928315610e1657600093610de5575b505090610ddd9360039260405194610d8286611f9d565b8b86526007828701923384526040880194855260608801958b8752600052526040600020955186558886019151166001600160601b0360a01b82541617905551600284015551151591019060ff801983541691151516179055565b600090610b6b565b82809294503d8311610e0f575b610dfc8186611fe6565b8101031261035c57905190836003610d6b565b503d610df2565b6040513d6000823e3d90fd5b82606460209260409a969a97949751958693849263aaa5746160e01b84528d600485015260406024850152816044850152848401376000838284010152601f801991011681010301816000305af160009281610e9e575b50610e8a5750505083169281610b6b565b9195509150610e9930836128ef565b610b6b565b9092506020813d602011610eca575b81610eba60209383611fe6565b8101031261035c5751918a610e79565b3d9150610ead565b5085610ccd565b5061012c96610b57565b604051635cd397a760e11b8152600490fd5b5060058411610b3a565b60405163fa469a4d60e01b8152600490fd5b3461035c57600036600319011261035c5760206040517ffc15875e223f196de4d28f104664030b8067b4a40d0372ee3095567046e5e0b38152f35b3461035c57602036600319011261035c57610405610f70610f6b611eb1565b612007565b604051918291602083526020830190611ec1565b3461035c57600036600319011261035c57602060405160018152f35b3461035c5760208060031936011261035c576004356001600160401b03811161035c57610fd1903690600401611e81565b9091610fdb612375565b60005b828110610fe757005b8060019160051b85013580151580611057575b8061103a575b80611022575b611012575b5001610fde565b61101b906123f3565b508561100b565b50806000528284526006604060002001544211611006565b508060005282845260ff60076040600020015460081c1615611000565b50600854811115610ffa565b3461035c57600036600319011261035c576020600954604051908152f35b3461035c57604036600319011261035c576004356024356001600160401b03811161035c576110b4903690600401611e81565b50506006546001600160a01b0390811633036112f4578160005260209160078352604060002092604051926110e884611f9d565b84548452806001860154169382810194855260ff60036002880154976040840198895201541615801560608301526112a357519351169383158015611298575b61033f5783600052600182526040600020600781019360ff85541615801561128b575b611279577f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47946111a2879389958560005260028852604060002087600052885260406000209061119a8261264a565b51918661266d565b8260005260048552604060002084600052855260ff604060002054161561120f575b508060005260078452600360406000200160ff1981541690557f133299353a6b299dde280ecdc8a33f2226e576bab22257611d03e1c17989461084604051428152a4604051428152a3005b61127390836000526004865260406000208560005286526040600020600160ff19825416179055836000526003865261124c856040600020611f4c565b61125c60ff825460101c16611f8c565b62ff000082549160101b169062ff00001916179055565b876111c4565b6040516334dc687f60e11b8152600490fd5b506006820154421161114b565b506008548411611128565b60405162461bcd60e51b8152600481018490526024808201527f50726f6f66206e6f7420666f756e64206f7220616c72656164792070726f63656044820152631cdcd95960e21b6064820152608490fd5b60405162461bcd60e51b8152602060048201526024808201527f4f6e6c7920496e707574566572696669636174696f6e2063616e2063616c6c206044820152637468697360e01b6064820152608490fd5b3461035c57602036600319011261035c5760043560005260016020526102006040600020805490600a60ff6001830154169160028101546003820154906004830154916005840154600685015460078601549160018060a01b039586948560088a0154169660098a0154996001600160401b039b8c910154169b60206040519e8f908152015260408d015260608c015260808b015260a08a015260c089015260ff8116151560e089015260ff8160081c16151561010089015260ff8160101c1661012089015260181c16610140870152610160860152811661018085015260ff8160a01c1615156101a085015260a81c166101c08301526101e0820152f35b3461035c57604036600319011261035c5761145d611e3e565b600435600052600260205260406000209060018060a01b0316600052602052610100604060002080549060ff6001820154916003600282015491015492604051948552602085015281811615156040850152818160081c1615156060850152818160101c16151560808501526001600160401b038160181c1660a085015260581c16151560c083015260e0820152f35b3461035c57606036600319011261035c576024356044356001600160401b03811161035c57611520903690600401611e54565b9091600435158015611b93575b61033f57600435600052600160205260ff60076040600020015416156112795760043560005260016020526006604060002001544211611b81576004356000526001602052604060002060ff60065460a01c1680611b78575b1561173157506115bc60408394611603948251968792866020850152848401378101600083820152036020810186520184611fe6565b6020604051600435828201528181526115d481611fcb565b60018060a01b0394856006541690600060405180978195829463538024cb60e11b845233304660048701612124565b03925af1918215610e16576000926116fc575b50600361168d92936040519261162b84611f9d565b60043584526020840133815260408501918252606085019260018452876000526007602052604060002095518655600186019151166001600160601b0360a01b82541617905551600284015551151591019060ff801983541691151516179055565b6004356000526002602052604060002033600052602052604060002060028101600160581b60ff60581b1982541617905581600382015560014291015560405142815233907f8177c11e76ad0b53c9c6e542288f36e9a1e990b15cc1868a5cdfef2d232e62de602060043592a4005b91506020823d602011611729575b8161171760209383611fe6565b8101031261035c579051906003611616565b3d915061170a565b9260026020526040600020336000526020526040600020926117528461264a565b600985015460a01c60ff1615611827575050611771918360043561266d565b600435600052600460205260406000203360005260205260ff60406000205416156117ca575b5060405142815233907f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47602060043592a3005b60076118219160043560005260046020526040600020336000526020526040600020600160ff198254161790556004356000526003602052611810336040600020611f4c565b0161125c60ff825460101c16611f8c565b80611797565b8092919215611a5f576118459261183f9136916122d2565b9061274e565b9061185030836128ef565b61185a33836128ef565b600383015490600284015490839284159283611b68575b8015611b5a575b60018060a01b03936020600080516020612b0c833981519152926064878554169860006040519a8b948593631391547f60e01b8552600485015260248401528160448401525af1958615610e1657600096611b26575b5060038801548791611b16575b8015611b04575b60209060648785541693600060405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115610e1657600091611ad2575b50808615611ab8575b90856020939215611aa5575b606491925416966000604051988994859363d99882d560e01b8552600485015260248401528160448401525af1938415610e1657600094611a71575b5061198260038701548686612961565b60038701556119a161199333612ab5565b946004880195865491612961565b8455600386015414611a5f57611a2e93600292600887019081541680611a33575b5080546001600160a01b0319163317905581554260018201550180546affffffffffffffffffffff19166101011790556003830154611a029030906128ef565b611a103360038501546128ef565b611a26611a1c33612ab5565b80835530906128ef565b3390546128ef565b611771565b600435600052846020526040600020906000526020528360406000200161ffff198154169055876119c2565b604051632b6781ff60e21b8152600490fd5b9093506020813d602011611a9d575b81611a8d60209383611fe6565b8101031261035c57519286611972565b3d9150611a80565b60649150611ab1612a66565b9150611936565b95509060209185611ac7612a66565b97919293505061192a565b90506020813d602011611afc575b81611aed60209383611fe6565b8101031261035c575188611921565b3d9150611ae0565b506020611b0f6129e5565b90506118e2565b9050611b206129e5565b906118db565b9095506020813d602011611b52575b81611b4260209383611fe6565b8101031261035c575194886118ce565b3d9150611b35565b50611b636129e5565b611878565b9350611b726129e5565b93611871565b50821515611586565b604051630f0a0cb160e11b8152600490fd5b506008546004351161152d565b3461035c57600036600319011261035c57602060405160048152f35b3461035c57604036600319011261035c57611bd5611e3e565b336001600160a01b03821603611bf1576103a0906004356125d5565b60405163334bd91960e11b8152600490fd5b3461035c57604036600319011261035c576103a0600435611c22611e3e565b90806000526000602052611c3d6001604060002001546123cd565b612557565b3461035c57600036600319011261035c5760088054600191600090835b83811115611c80576060848460095460405192835260208301526040820152f35b806000528460205260ff600760406000200154831c16611ca9575b611ca490611f3d565b611c5f565b91611cb6611ca491611f3d565b929050611c9b565b3461035c57602036600319011261035c576103a0612375565b3461035c57602036600319011261035c5760043560005260006020526020600160406000200154604051908152f35b3461035c57604036600319011261035c5760243560043560005260036020526040600020805482101561035c57602091611d3f91611e10565b905460405160039290921b1c6001600160a01b03168152f35b3461035c57600036600319011261035c576020604051600a8152f35b3461035c57602036600319011261035c57600435611d90612375565b80158015611db2575b61033f57611da86020916123f3565b6040519015158152f35b506008548111611d99565b3461035c57602036600319011261035c576004359063ffffffff60e01b821680920361035c57602091637965db0b60e01b8114908115611dff575b5015158152f35b6301ffc9a760e01b14905083611df8565b8054821015611e285760005260206000200190600090565b634e487b7160e01b600052603260045260246000fd5b602435906001600160a01b038216820361035c57565b9181601f8401121561035c578235916001600160401b03831161035c576020838186019501011161035c57565b9181601f8401121561035c578235916001600160401b03831161035c576020808501948460051b01011161035c57565b6004359060ff8216820361035c57565b919082519283825260005b848110611eed575050826000602080949584010152601f8019910116010190565b602081830181015184830182015201611ecc565b602090602060408183019282815285518094520193019160005b828110611f29575050505090565b835185529381019392810192600101611f1b565b6000198114610c8c5760010190565b80546801000000000000000081101561032957611f6e91600182018155611e10565b60018060a09493941b038084549260031b9316831b921b1916179055565b60ff1660ff8114610c8c5760010190565b608081019081106001600160401b0382111761032957604052565b6001600160401b03811161032957604052565b604081019081106001600160401b0382111761032957604052565b90601f801991011681019081106001600160401b0382111761032957604052565b60ff16600181146120fc57600281146120d657600381146120ac5760048114612086576005146120595760405161203d81611fcb565b600c81526b155b9adb9bdddb8811dbdbd960a21b602082015290565b60405161206581611fcb565b6011815270416e6369656e742041727469666163747360781b602082015290565b5060405161209381611fcb565b6009815268476f6c64204261727360b81b602082015290565b506040516120b981611fcb565b600d81526c50726563696f75732047656d7360981b602082015290565b506040516120e381611fcb565b600981526846696e652053696c6b60b81b602082015290565b5060405161210981611fcb565b600b81526a526172652053706963657360a81b602082015290565b9081526001600160a01b0391821660208201529116604082015260a06060820181905261216793919261215991840190611ec1565b916080818403910152611ec1565b90565b8015610c8c576000190190565b6000818152600160205260408120600781019182549260ff8460081c166122cb578461222d938560ff7fe70c80ed197cc24b6568c250a31b7165bdfda9fa8146853e441ffe35ce040bf997166122aa575b504260068201556101009261ff001990848282541617905560018060a01b036008830154169360098301856001600160601b0360a01b8254161790558415159586612232575b5050604080519515158652426020870152949586958601945092505050565b0390a2565b7f8b313452dba6bcbe487c53d74e50c941976b5af12b11b9e6c361fe7204f76ec69361229c9360ff9360026040858a60019752826020528181208c82526020522001918254161790550154166040519182914290836020909392919360ff60408201951681520152565b0390a338848180808061220e565b60ff1916835560095480156121c8576122c29061216a565b600955386121c8565b5050505050565b9291926001600160401b03821161032957604051916122fb601f8201601f191660200184611fe6565b82948184528183011161035c578281602093846000960137010152565b6001600160401b0381116103295760051b60200190565b9061233982612318565b6123466040519182611fe6565b8281528092612357601f1991612318565b0190602036910137565b8051821015611e285760209160051b010190565b3360009081527fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5602052604081205460ff16156123af5750565b6044906040519063e2517d3f60e01b82523360048301526024820152fd5b80600052600060205260406000203360005260205260ff60406000205416156123af5750565b600090808252600160205260409182812060078101805460ff8160081c16612546576006830154421115612535577f8b313452dba6bcbe487c53d74e50c941976b5af12b11b9e6c361fe7204f76ec66124da60ff600189967fe70c80ed197cc24b6568c250a31b7165bdfda9fa8146853e441ffe35ce040bf9989686848c9816612515575b5061010061ff0019918183825416179055838060a01b0360088401541698600984018a6001600160601b0360a01b8254161790558915159d8e6124f0575b5050505001541685519182914290836020909392919360ff60408201951681520152565b0390a3518315158152426020820152604090a290565b818a60029352826020528181208c82526020522001918254161790553880808a6124b6565b841916815560095480156124785761252c9061216a565b60095538612478565b8551639eafe1b760e01b8152600490fd5b85516331e868a560e21b8152600490fd5b9060009180835282602052604083209160018060a01b03169182845260205260ff604084205416156000146125d057808352826020526040832082845260205260408320600160ff198254161790557f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d339380a4600190565b505090565b9060009180835282602052604083209160018060a01b03169182845260205260ff6040842054166000146125d05780835282602052604083208284526020526040832060ff1981541690557ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b339380a4600190565b600201805460ff811661265b575050565b6affffffffffffffff00ffff19169055565b90916001600160401b03928385169284600983015460a81c168410611a5f57600a820194855416841115611a5f576201010194600294600884019260018060a01b03845416908161271b575b50506001600160401b0319825416179055856003830155336001600160601b0360a01b82541617905560043391015583815542600182015501916affffffffffffffff00000083549160181b16906affffffffffffffffffffff191617179055565b60005286602052604060002090600052602052856040600020016affffffffffffffff00ffff19815416905538806126b9565b9061279e91602060018060a01b039182600080516020612b0c833981519152541660405180968196829463196d0b9b60e01b84526004840152336024840152608060448401526084830190611ec1565b60056064830152600096879103925af1928315612870578293612838575b507fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600541690813b1561283557604051630f8e573b60e21b8152600481018490523360248201529181908390604490829084905af19081156128295750612820575090565b61216790611fb8565b604051903d90823e3d90fd5b80fd5b9092506020813d602011612868575b8161285460209383611fe6565b81010312612864575191386127bc565b5080fd5b3d9150612847565b6040513d84823e3d90fd5b7fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600546001600160a01b039081169190823b1561035c576044600092836040519586948593635ca4b5b160e11b85528360048601521660248401525af18015610e16576128e45750565b6128ed90611fb8565b565b7fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600546001600160a01b031691823b1561035c57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152906000908290604490829084905af18015610e16576128e45750565b906064602092600060018060a01b03600080516020612b0c83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610e16576000916129b6575090565b90506020813d6020116129dd575b816129d160209383611fe6565b8101031261035c575190565b3d91506129c4565b60018060a01b03600080516020612b0c8339815191525416604051639cd07acb60e01b815260208160448160008096816004840152600560248401525af1918215612829578092612a3557505090565b9091506020823d602011612a5e575b81612a5160209383611fe6565b8101031261283557505190565b3d9150612a44565b60018060a01b03600080516020612b0c8339815191525416604051639cd07acb60e01b8152602081604481600080968160048401528160248401525af1918215612829578092612a3557505090565b600080516020612b0c83398151915254604051639cd07acb60e01b8152600481019290925260076024830152602090829060449082906000906001600160a01b03165af1908115610e16576000916129b657509056feed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601a2646970667358221220a93064fc3b7a0129274ff1fd53fe8adea5268b46921887ae0e3011d48d0beb5e64736f6c634300081800332f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d";
+  "0x6080346200026457601f6200633338819003918201601f19168301926001600160401b0392909183851183861017620002505781602092849260409788528339810103126200026457516001600160a01b038116919082900362000264578251608081018181108382111762000250578452606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac91828882015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0091825416179055620001d13362000268565b50620001dd33620002d8565b505f600c555f600d55825160608101918183109083111762000250578391825261012c918183809352600a6020820152015280600155600a60ff1960025416176002556003556009549060ff60a01b81151560a01b169160018060a81b031916171760095551615f7a9081620003798239f35b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b6001600160a01b03165f8181525f8051602062006313833981519152602052604090205460ff16620002d3575f8181525f805160206200631383398151915260205260408120805460ff191660011790553391905f80516020620062f38339815191528180a4600190565b505f90565b6001600160a01b03165f8181527f73954a9c5c35bd725da27a19836d3182ba373207918438186957c49c39131cf960205260409020547ffc15875e223f196de4d28f104664030b8067b4a40d0372ee3095567046e5e0b3919060ff166200037257815f525f60205260405f20815f5260205260405f20600160ff1982541617905533915f80516020620062f38339815191525f80a4600190565b50505f9056fe6080806040526004361015610012575f80fd5b5f3560e01c90816301ffc9a7146128fb5750806304735e291461278e5780630de7781814612764578063144ef0131461270057806315ccbfcd14612631578063199de1e2146125f85780631fd95ac9146125a8578063248a9ca31461257c5780632a13b7f1146125375780632deca812146125125780632ecdee5b1461249b5780632f2ff15d1461245f57806336568abe146124185780633a16d6471461233d5780633cec5e41146123225780633ec04a7d1461202f5780633f1ffcec14611f7f5780633fb3517814611f6257806343d8941e14611f335780634640118414611f045780634a4d2cc714611e9e5780634d0b447c14611dea578063567fa4d714611d9c578063571a26a014611c0a57806364340b7e14611bef578063666b168714611bbc5780636bcc4610146116fb5780636cda8986146116bf57806372e2867d146116a257806375d7f14f146115ac57806379502c551461157b5780637ab304b5146115605780637b264838146115285780637d615286146114ee57806386e5b24f1461105657806388dfc1941461103b5780638998c2f11461100c57806391d1485414610fc45780639468cb6114610e685780639925846f14610e405780639a835e9114610df75780639c08deb714610dca578063a11d0dc414610d0f578063a1aa258414610ccf578063a217fddf14610cb5578063a3b7d9f714610c9a578063a7e7664414610c7d578063a7fd207714610c58578063aaa5746114610c11578063ae169a5014610a30578063b40479f914610a15578063b5945833146109e3578063c1d166511461092c578063c2f50a7a14610911578063c8b727a1146108be578063ca96dd271461086b578063cf44b5d5146107a5578063cf8589b914610740578063d066914914610718578063d0861d44146105f7578063d4b572f2146105cd578063d547741f1461058f578063e576eee514610569578063f28eaeb01461053f578063f833844714610510578063fc3fc4ed146104845763fcc390ce146102fd575f80fd5b3461048057606036600319011261048057600435610319612aff565b9061032381614471565b805f52600460205260405f2060ff600c82015460401c161561046e5760ff600782015460081c1661045c57600681015442111561044a57600d810154421161043857815f52600560205260405f20335f5260205260405f206004810180548015610426576103956044358787336136ad565b03610414575f90556103a833858461599c565b610403576103c39133916001600160401b038616918561501f565b604080516001600160401b0393909316835242602084015233927fbcde1b6836307ba3dbb9cfa044c3390f7e0cf4b5e1f8c1f61f292f3df04ffcde9190a3005b505061040f8133613a5e565b6103c3565b604051635054097b60e01b8152600490fd5b60405163f43334fd60e01b8152600490fd5b6040516340d8392160e11b8152600490fd5b60405163916176f760e01b8152600490fd5b6040516331e868a560e21b8152600490fd5b60405163328ff2f960e01b8152600490fd5b5f80fd5b34610480576020366003190112610480576004356104a181614471565b5f52600460205260e060405f2060ff6001820154169060058101549060076006820154910154916040519384526020840152604083015260ff81161515606083015260ff8160081c161515608083015260ff8160101c1660a083015260018060a01b039060181c1660c0820152f35b3461048057602036600319011261048057602061052e60043561379b565b6001600160401b0360405191168152f35b34610480576020366003190112610480576004355f526013602052602060405f2054604051908152f35b34610480576020366003190112610480576020610587600435613742565b604051908152f35b34610480576040366003190112610480576105cb6004356105ae612b3e565b90805f525f6020526105c6600160405f200154614432565b6146fa565b005b34610480576020366003190112610480576004355f526011602052602060405f2054604051908152f35b346104805760208060031936011261048057610611612b54565b600c5490915f60015b838111156106b8575061062c906136ef565b925f9160015b8481111561064c57604051806106488882612be0565b0390f35b805f526004825260405f2060ff600782015460081c16908161069e575b5061067d575b61067890612fbe565b610632565b926106968185610690610678948a61372e565b52612fbe565b93905061066f565b600901546001600160a01b03858116911614905087610669565b805f526004835260405f2060ff600782015460081c1690816106fe575b506106e9575b6106e490612fbe565b61061a565b906106f66106e491612fbe565b9190506106db565b600901546001600160a01b038781169116149050866106d5565b34610480575f366003190112610480576009546040516001600160a01b039091168152602090f35b34610480576020366003190112610480576004355f52600b60205260a060405f2060ff815491600180851b03600182015416906003600282015491015491604051948552602085015260408401528181161515606084015260081c1615156080820152f35b34610480575f36600319011261048057600c546107c1816136ef565b5f60019260015b818111156108115750506107db816136ef565b915f5b8281106107f357604051806106488682612be0565b806107ff86928461372e565b5161080a828761372e565b52016107de565b805f526004602052600760405f20015460ff808216918261085d575b5050610842575b61083d90612fbe565b6107c8565b91610855818461069061083d948861372e565b929050610834565b60081c16159050868061082d565b3461048057604036600319011261048057600435610887612b3e565b9061089181614471565b5f52600760205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b34610480576040366003190112610480576004356108da612b3e565b906108e481614471565b5f52600860205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b34610480575f366003190112610480576020604051603c8152f35b34610480576020806003193601126104805760043561094a816153a3565b805160808201519092917ff69f65f8348e289b528b5a123015d990a825a324045ce015f37a820d79ed2e28911561099d57610984846154e4565b8401516040514281526001600160a01b039091169490a4005b5f848152600586526040808220838801516001600160a01b0316835287529020600381015484146109cf575b50610984565b600201805460ff60581b19169055856109c9565b34610480576020366003190112610480576004355f526012602052602060018060a01b0360405f205416604051908152f35b34610480575f36600319011261048057602060405160038152f35b346104805760208060031936011261048057600435610a4e81614471565b805f526004825260405f2060ff9081600782015460081c1615610bff576009810180549091906001600160a01b039081163303610bed57845f526008865260405f20335f5286528360405f205416610bdb57845f526008865260405f20335f52865260405f20600160ff1982541617905580600a54169283610b23575b505060019150015416907f7dbafd50f1a2a8e0853f65054eb024c174da1bb76b664ad997927d8fd98bcf7e60405180610b1733954290836020909392919360ff60408201951681520152565b0390a360405160018152f35b610b2c83614637565b92909486835460a01c1615610bcb575b50600a54168580600186015416925460a01c16813b15610480575f60c49289926001600160401b0383976040519a8b9889976336a8de2d60e21b89523360048a0152602489015260448801526064870152166084850152151560a48401525af1918215610bc057600192610bb1575b80610acb565b610bba90612984565b85610bab565b6040513d5f823e3d90fd5b610bd59086615c16565b88610b3c565b604051632cfe303760e21b8152600490fd5b6040516330c6392160e11b8152600490fd5b604051639eafe1b760e01b8152600490fd5b34610480576040366003190112610480576024356001600160401b03811161048057610587610c50610c496020933690600401612ad2565b36916129ea565b6004356158a8565b34610480575f36600319011261048057602060ff60095460a01c166040519015158152f35b34610480575f366003190112610480576020600c54604051908152f35b34610480575f36600319011261048057602060405160028152f35b34610480575f3660031901126104805760206040515f8152f35b3461048057608036600319011261048057610ce8612b54565b6044356001600160401b0381168103610480576020916105879160643591602435906136ad565b346104805760208060031936011261048057600435610d2d81614471565b5f526006815260405f20604051908183825491828152019081925f52845f20905f5b86828210610dad578686610d65828803836129b2565b60405192839281840190828552518091526040840192915f5b828110610d8d57505050500390f35b83516001600160a01b031685528695509381019392810192600101610d7e565b83546001600160a01b031685529093019260019283019201610d4f565b34610480576020366003190112610480576105cb600435610de96143dc565b610df281614471565b6133cf565b3461048057604036600319011261048057610e10612b3e565b6004355f52600860205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b34610480575f36600319011261048057600a546040516001600160a01b039091168152602090f35b3461048057604036600319011261048057602435600435610e8881614471565b805f526020916004835260ff600760405f2001541615610fb257815f5260048352600660405f2001544211610fa057815f526004835260405f2060ff600c82015460401c161561046e578115610f8e576001600160401b036009610ef392015460a81c16833361554d565b815f526005835260405f20335f52835280600460405f200155815f526005835260405f20335f52835242600160405f200155610f2f3383615284565b6040519081524283820152817fac0361642c7caf4d76d0e2dfbe38804253aedd43a560146470da108817ceb40560403393a37f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47604051924284523393a3005b604051632b6781ff60e21b8152600490fd5b604051630f0a0cb160e11b8152600490fd5b6040516334dc687f60e11b8152600490fd5b3461048057604036600319011261048057610fdd612b3e565b6004355f525f60205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b34610480576020366003190112610480576004355f526010602052602060ff60405f2054166040519015158152f35b34610480575f36600319011261048057602060405160058152f35b346104805760803660031901126104805761106f612ac2565b602435604435906001600160401b0392838311610480576110976110a4933690600401612ad2565b93906064359436916129ea565b90600d5460ff6002541611156114dc5760ff169060019283831080156114d2575b6114c0576110d4600c54612fbe565b600c8190559480156114b757935b825115905f8094835f1461128b575050602097831692935b5f965f9184159081611282575b5061123f575b916111e69391611121600a97969442612fe0565b5f8b81526004808e5260409091208c8155848101805460ff19168c1790556002810198909855600388019a909a5598860155426005860155600685018890556007850180546001600160b81b0319163360181b6301000000600160b81b03161790911790556008840180546001600160a01b03191690556009840180546001600160a81b03191691151560a01b60ff60a01b169190911781555b805467ffffffffffffffff60a81b191660a89290921b67ffffffffffffffff60a81b16919091179055565b0168ffffffffffffffffff198154169055611202600d54612fbe565b600d556040519142835284830152827fd9b180ada7f7737f2fcd8708fc2547f41e5ecc2cba06265ad3ffa7e7259df8ae60403394a4604051908152f35b965050916111e691600a9493611253615cc8565b9761112161125f615d1b565b9161126a308c615c74565b6112743084615c74565b92949697505091935061110d565b9050158b611107565b919490939860ff60095460a01c16806114b0575b1561140d57505061132b906040516112dc6040826020948d868301526112cd81518092888686019101612b9a565b810103848101845201826129b2565b816040518a828201525f6040820152604081526112f88161294e565b60095460405163538024cb60e11b8152956001600160a01b039487939286169284925f9284929033304660048701613ed4565b03925af1928315610bc0575f936113da575b506113bb60038a60209c6113d296958a956040519361135b85612969565b8452600b82850192338452604086019485526060860199898b5260808701998a525f525260405f20935184558b84019151166001600160601b0360a01b8254161790555160028201550192511515839060ff801983541691151516179055565b51815461ff00191690151560081b61ff0016179055565b825f936110fa565b909180935081813d8311611406575b6113f381836129b2565b81010312610480575191906113bb61133d565b503d6113e9565b929094919360206114419a95604051809c819263aaa5746160e01b8352896004840152604060248401526044830190612bbb565b03815f305af191825f9361147b575b60209b50611466575050508091831692936110fa565b9350935093611476853090615c74565b6110fa565b925060208b3d6020116114a8575b81611496602093836129b2565b810103126104805760209a5192611450565b3d9150611489565b508561129f565b508354936110e2565b604051635cd397a760e11b8152600490fd5b50600583116110c5565b60405163fa469a4d60e01b8152600490fd5b34610480575f3660031901126104805760206040517ffc15875e223f196de4d28f104664030b8067b4a40d0372ee3095567046e5e0b38152f35b346104805760203660031901126104805761064861154c611547612ac2565b6132b2565b604051918291602083526020830190612bbb565b34610480575f36600319011261048057602060405160018152f35b34610480575f36600319011261048057606060015460ff600254166003549060405192835260208301526040820152f35b3461048057602080600319360112610480576004356001600160401b038111610480576115dd903690600401612b6a565b90916115e76143dc565b5f5b8281106115f257005b8060019160051b85013580151580611696575b8061167a575b80611669575b8061164f575b80611639575b611629575b50016115e9565b6116329061448e565b5085611622565b50805f526014845260ff60405f2054161561161d565b50805f5260128452828060a01b0360405f20541615611617565b5061167381613742565b4211611611565b50805f526004845260ff600760405f20015460081c161561160b565b50600c54811115611605565b34610480575f366003190112610480576020600d54604051908152f35b34610480576040366003190112610480576024356001600160401b038111610480576116f26105cb913690600401612b6a565b90600435612fed565b346104805760a036600319011261048057611714612ac2565b6044356001600160401b03811161048057611733903690600401612ad2565b909160643591608435936001600160401b0385168503610480576117589136916129ea565b92600d5460ff6002541611156114dc57600160ff8316108015611baf575b6114c057611785600c54612fbe565b600c819055928015611ba557905b8451155f8096825f146119975750506001600160401b036024351690602435965b5f945f918315908161198e575b50611952575b9183916117d76118829442612fe0565b5f8a81526004602081905260409091208b81556001808201805460ff191660ff8e16179055600282019d909d556003810199909955880191909155426005880155600687018190556007870180546001600160b81b0319163360181b6301000000600160b81b031617909a179099556008860180546001600160a01b03191690556009860180546001600160a81b03191691151560a01b60ff60a01b169190911781559497946111bb565b600a8601805468ffffffffffffffffff1916680200000000000000001790556001600160401b03821615908115611936575b50611924576001600160401b03600e6020960191166001600160401b03198254161790556118e3600d54612fbe565b600d556040519042825284820152827fd9b180ada7f7737f2fcd8708fc2547f41e5ecc2cba06265ad3ffa7e7259df8ae604060ff33951693a4604051908152f35b604051630fbc961960e31b8152600490fd5b6001600160401b039150166001600160401b03821610866118b4565b9450508161188291611962615cc8565b956117d761196e615d1b565b91611979308a615c74565b6119833084615c74565b9294505091506117c7565b9050158a6117c1565b90919660ff60095460a01c1680611b9d575b15611af657506020611a1f916119d7604080518093602435868301526112cd81518092888686019101612b9a565b6040519088838301525f6040830152604082526119f38261294e565b60018060a01b0360095416905f60405180968195829463538024cb60e11b845233304660048701613ed4565b03925af18015610bc0575f90611ac2575b611ab9915060405190611a4282612969565b8782526113bb600360208401933385526040810160243581526060820195600187526080830195600187525f52600b60205260405f2092518355600183019060018060a01b039051166001600160601b0360a01b8254161790555160028201550192511515839060ff801983541691151516179055565b5f9560016117b4565b506020813d602011611aee575b81611adc602093836129b2565b8101031261048057611ab99051611a30565b3d9150611acf565b966020611b2893926040518095819263aaa5746160e01b83526024356004840152604060248401526044830190612bbb565b03815f305af15f9381611b69575b50611b565750505060016001600160401b036024351690602435966117b4565b909196611b64883090615c74565b6117b4565b9093506020813d602011611b95575b81611b85602093836129b2565b8101031261048057519289611b36565b3d9150611b78565b5060016119a9565b5060015490611793565b50600560ff831611611776565b34610480576020366003190112610480576004355f52600e60205260206001600160401b0360405f205416604051908152f35b34610480575f36600319011261048057602060405160328152f35b34610480576020366003190112610480576004355f52600460205260405f208054600182015460ff16600283015492600381015493600482015490600583015460068401546007850154600160a01b6001900360088701541691600987015493600a88015496600b8901549b600c8a015497600d8b01549a600e01546001600160401b03169b604051809e81526020015260408d015260608c015260808b015260a08a015260c089015260ff8116151560e08901528060081c60ff1615156101008901528060101c60ff16610120890152600160a01b600190039060181c16610140880152610160870152600160a01b6001900381166101808701528060a01c60ff1615156101a087015260a81c6001600160401b03166101c08601526001600160401b0382166101e08601528160401c60ff1660031115611d88576102c09560ff809360401c166102008701526102208601526001600160401b03811661024086015260401c1615156102608401526102808301526102a0820152f35b634e487b7160e01b5f52602160045260245ffd5b3461048057606036600319011261048057611db56143dc565b604051611dc18161294e565b60043581526024359060ff82168203610480576105cb916020820152604435604082015261454c565b3461048057608036600319011261048057611e03612ac2565b611e0b612aff565b906064356003811015610480576001600160401b0392604051602081019381851086861117611e8a57602095611e4c956040525f8352604435931690613f17565b805f526004825260405f20600c8101600160401b60ff60401b19825416179055600d611e7f600683015460035490612fe0565b910155604051908152f35b634e487b7160e01b5f52604160045260245ffd5b3461048057602036600319011261048057611eb7612b54565b611ebf6143dc565b600a80546001600160a01b0319166001600160a01b039290921691821790557f6bb9033145a9f277acbe33ad14bf723c9ba08bdfceeddbc11d197947ea3c8b215f80a2005b34610480576020366003190112610480576004355f526014602052602060ff60405f2054166040519015158152f35b34610480576020366003190112610480576004355f52600f602052602060ff60405f2054166040519015158152f35b34610480575f366003190112610480576020604051620151808152f35b3461048057604036600319011261048057611f98612b3e565b6004355f52600560205260405f209060018060a01b03165f5260205261012060405f2080549060018101549060ff60028201546004600384015493015493604051958652602086015281811615156040860152818160081c1615156060860152818160101c16151560808601526001600160401b038160181c1660a086015260581c16151560c084015260e0830152610100820152f35b34610480576060366003190112610480576024356004356044356001600160401b03811161048057612065903690600401612ad2565b91909261207182614471565b815f526020926004845260ff600760405f2001541615610fb257825f5260048452600660405f2001544211610fa057825f526004845260405f2060ff600c82015460401c1661046e5760ff60095460a01c1680612319575b15612287576009015460a01c60ff161561227557612109604061215196838251948592878a8501528484013781015f8382015203868101845201826129b2565b83604051848282015281815261211e81612997565b60095460405163538024cb60e11b8152976001600160a01b039489939286169284925f9284929033304660048701613ed4565b03925af1948515610bc0575f95612242575b50906121e0916113bb600360405161217a81612969565b868152878101943386526040820190815260608201956001875260808301955f87528b5f52600b8b5260405f2093518455600184019151166001600160601b0360a01b8254161790555160028201550192511515839060ff801983541691151516179055565b805f526005825260405f20335f52825260405f2060028101600160581b60ff60581b198254161790558360038201556001429101557f8177c11e76ad0b53c9c6e542288f36e9a1e990b15cc1868a5cdfef2d232e62de604051924284523393a4005b919094508382813d831161226e575b61225b81836129b2565b81010312610480579051936121e0612163565b503d612251565b60405163b5b2c62760e01b8152600490fd5b90916105cb95845f969596526005855260405f20335f52855260405f20906122ae8261476c565b600984015460a01c60ff161561230757506122cc935033928661501f565b6122d63383615284565b817f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47604051924284523393a3615351565b919061231494938761478f565b6122cc565b508115156120c9565b34610480575f36600319011261048057602060405160048152f35b3461048057606036600319011261048057600435612359612b3e565b906044356001600160401b03811161048057612379903690600401612a2f565b91815f52601560205260405f2054918215612406576123c26105cb946040519360018060a01b03169384602082015260606040820152604081526123bc8161294e565b836138be565b5f5260156020525f6040812055815f52601460205260405f2060ff1981541690556004602052600860405f2001906001600160601b0360a01b825416179055613d34565b60405163561bb47d60e01b8152600490fd5b3461048057604036600319011261048057612431612b3e565b336001600160a01b0382160361244d576105cb906004356146fa565b60405163334bd91960e11b8152600490fd5b34610480576040366003190112610480576105cb60043561247e612b3e565b90805f525f602052612496600160405f200154614432565b61467e565b34610480575f366003190112610480575f6001600c54905b818111156124d45750606091600d5460405192835260208301526040820152f35b805f52600460205260ff600760405f20015460081c166124fd575b6124f890612fbe565b6124b3565b9161250a6124f891612fbe565b9290506124ef565b34610480576020366003190112610480576105cb60043561253281614471565b612c1b565b34610480576020366003190112610480576125506143dc565b6105cb60405161255f8161294e565b60ff6002541660208201526003546040820152600435815261454c565b34610480576020366003190112610480576004355f525f6020526020600160405f200154604051908152f35b34610480576040366003190112610480576024356004355f52600660205260405f208054821015610480576020916125df91612b15565b905460405160039290921b1c6001600160a01b03168152f35b346104805760203660031901126104805760206126276004356126196143dc565b61262281614471565b61448e565b6040519015158152f35b346104805760603660031901126104805760043561264d612aff565b6001600160401b03916044358381116104805761266e903690600401612a2f565b90805f52601160205260405f20549182156126ee57825f52600f60205260ff60405f2054166126dc576105cb946126c392604051918616602083015260606040830152604082526126be8261294e565b6138be565b805f52601060205260405f2060ff198154169055614365565b60405163012a455560e61b8152600490fd5b6040516350cd61f160e11b8152600490fd5b346104805760a036600319011261048057612719612ac2565b6044356001600160401b03811161048057612738903690600401612ad2565b6084359060038210156104805760209361275a610587946064359336916129ea565b9060243590613f17565b34610480576020366003190112610480576004355f526015602052602060405f2054604051908152f35b34610480576060366003190112610480576024356004358115158203610480576044356001600160401b038111610480576127cd903690600401612a2f565b908290805f526020936013855260405f20549384156128e95761280e91156128e35760015b604051908782015260606040820152604081526123bc8161294e565b5f52601383525f6040812055815f526012835260405f2080549160018060a01b038316916001600160601b0360a01b80941690556004855260ff600760405f20015460081c166128dc575b604080518215158152426020820152839186917f20de7acc0f82a31397aa3e704eb3f63f9245582ac006642d0d82b4058f9e6a919190a3156128b25760046105cb94845f5252600860405f200191825416179055613ac6565b90506105cb92825f526005815260405f2090825f5252600260405f200160ff198154169055613a5e565b505f612859565b5f6127f2565b604051630b89976760e01b8152600490fd5b34610480576020366003190112610480576004359063ffffffff60e01b821680920361048057602091637965db0b60e01b811490811561293d575b5015158152f35b6301ffc9a760e01b14905083612936565b606081019081106001600160401b03821117611e8a57604052565b60a081019081106001600160401b03821117611e8a57604052565b6001600160401b038111611e8a57604052565b604081019081106001600160401b03821117611e8a57604052565b90601f801991011681019081106001600160401b03821117611e8a57604052565b6001600160401b038111611e8a5760051b60200190565b9291926001600160401b038211611e8a5760405191612a13601f8201601f1916602001846129b2565b829481845281830111610480578281602093845f960137010152565b9080601f8301121561048057813591602091612a4a846129d3565b936040612a5a60405196876129b2565b818652848087019260051b8501019383851161048057858101925b858410612a86575050505050505090565b83356001600160401b03811161048057820185603f82011215610480578791612ab7878387868096013591016129ea565b815201930192612a75565b6004359060ff8216820361048057565b9181601f84011215610480578235916001600160401b038311610480576020838186019501011161048057565b602435906001600160401b038216820361048057565b8054821015612b2a575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b602435906001600160a01b038216820361048057565b600435906001600160a01b038216820361048057565b9181601f84011215610480578235916001600160401b038311610480576020808501948460051b01011161048057565b5f5b838110612bab5750505f910152565b8181015183820152602001612b9c565b90602091612bd481518092818552858086019101612b9a565b601f01601f1916010190565b60209060206040818301928281528551809452019301915f5b828110612c07575050505090565b835185529381019392810192600101612bf9565b805f526004906020828152604090815f209060078201549460ff8660081c1615612fb0576001600160a01b039560181c861633141580612fa0575b80612f64575b612f565760098301549286841615612f4757855f52600f835260ff855f205416612f3857855f526010835260ff855f205416612f2957612c9d60ff91614637565b91909460a01c16612f17575083515f91612cb682612997565b60019160018152848101938536863786612ccf83613721565b527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d019485549a805f80516020615ee58339815191525416803b15610480575f8b518092637d6e912360e11b82528b89830152818381612d31602482018c61388b565b03925af18015612f0d57612efa575b507f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d005416803b15612ef657828c8b51928391633263b83b60e01b83528883015260606024830152818381612d97606482018b61388b565b6315ccbfcd60e01b604483015203925af18015612eec57908391612ed4575b508b90525f80516020615f2583398151915280885289832054612ec4578b835287528882209251936001600160401b038511612eb157600160401b8511612eb157508254848455808510612e8a575b50918152858120905b838110612e795750505050509081612e497f5061bfbec3b04db2e7513d2db3bd51bf7cc3dd1da8b5a8b5ccef2fbebcc30dad95949354612fbe565b9055855f526011815284835f2055845f5260108152825f20600160ff1982541617905582519182524290820152a3565b825182820155918601918401612e0e565b838352858589852092830192015b828110612ea6575050612e05565b5f8155018690612e98565b634e487b7160e01b835260419052602482fd5b8951633f06d22b60e01b81528590fd5b612edd90612984565b612ee857815f612db6565b5080fd5b8a513d85823e3d90fd5b8280fd5b612f05919350612984565b5f915f612d40565b8b513d5f823e3d90fd5b949350505050612f279250614365565b565b50835163277ff08b60e21b8152fd5b50835163012a455560e61b8152fd5b5083516305863be160e21b8152fd5b835163ea8e4eb560e01b8152fd5b507ffc15875e223f196de4d28f104664030b8067b4a40d0372ee3095567046e5e0b35f525f8252835f20335f52825260ff845f20541615612c5c565b5085600984015416331415612c56565b8351639eafe1b760e01b8152fd5b5f198114612fcc5760010190565b634e487b7160e01b5f52601160045260245ffd5b91908201809211612fcc57565b909291612ff9826153a3565b9015938415858161329e575b50156132595781519260209160018060a01b038385015116938515801561324e575b61323c57855f5260048452604097885f2092608083015161311957505060ff60078301541615801561310c575b6130fb579684867f0e54eff26401bf69b81b26f60bd85ef47f5d85275c1d268d84f68d6897431c47946002846130b385859a98612f279e9f875f5260058b52845f20835f528b52845f209485916130aa8361476c565b0151918861501f565b01805460ff60581b191690556130c98383615284565b7f133299353a6b299dde280ecdc8a33f2226e576bab22257611d03e1c179894610858551428152a451428152a3615351565b87516334dc687f60e11b8152600490fd5b5060068201544211613054565b9150945060ff600783979899959493015460081c1661322b5760098601805460ff60a01b1916600160a01b17815594612b2a57845467ffffffffffffffff60a81b1916903560a881901b67ffffffffffffffff60a81b169190911785556001600160401b039390919082600288015560ff600a880154821c16926003841015611d885760029489927f75a47fcacbc7b503516daf017674eb28eb52c2d144f199ce5e8034c51b025c549260018714613205575b5051428152a31492836131ed575b5050506131e45750565b612f27906154e4565b81929350600e015416915460a81c16115f80806131da565b888a5460a81c16600c8c01906001600160401b0319825416179055600b8b01555f6131cc565b83516331e868a560e21b8152600490fd5b6040516307145c5f60e11b8152600490fd5b50600c548611613027565b60405162461bcd60e51b815260206004820152601860248201527f56657269666965642068616e646c65206d69736d6174636800000000000000006044820152606490fd5b9050612b2a57604082015181351485613005565b60ff16600181146133a757600281146133815760038114613357576004811461333157600514613304576040516132e881612997565b600c81526b155b9adb9bdddb8811dbdbd960a21b602082015290565b60405161331081612997565b6011815270416e6369656e742041727469666163747360781b602082015290565b5060405161333e81612997565b6009815268476f6c64204261727360b81b602082015290565b5060405161336481612997565b600d81526c50726563696f75732047656d7360981b602082015290565b5060405161338e81612997565b600981526846696e652053696c6b60b81b602082015290565b506040516133b481612997565b600b81526a526172652053706963657360a81b602082015290565b805f5260049060209160048352604093845f2060ff600782015460081c16801561369c575b61369457613407904260068201556155ec565b61368757825f5260048452845f2061341e81615a29565b60078101946101009161ff001996838882541617905560018060a01b0392836008830154169460098301866001600160601b0360a01b825416179055875f5260048452600d8a5f200154421192600685528a5f20925f5b84548110156135ac57876134898287612b15565b90549060031b1c16908b5f52600588528d5f20825f5288528d828d8d835f20018b815415159485613577575b505050508b14801561356b575b613561578061355a575b156135495788600a54169163fc739690905b833b15610480578f5160e09290921b82526001600160a01b0316818d01908152602081018e905290925f9184919082908490829060400103925af191821561353f57600192613530575b505b01613475565b61353990612984565b5f613528565b8e513d5f823e3d90fd5b88600a541691638781681b906134de565b50866134cc565b506001915061352a565b5089600a5416156134c2565b5f7fa2d22037e645675ff70486971f0271772e633bab7b2696d655a4fd9e0e43dec8935551428152a3828f5f8f918c906134b5565b50919a95509150613616965087987fe70c80ed197cc24b6568c250a31b7165bdfda9fa8146853e441ffe35ce040bf998935095939584159182159788613663575b505050859061365c575b61361b575b505090519115158252504260208201529081906040820190565b0390a2565b60010154835160ff90911681524260208201527f8b313452dba6bcbe487c53d74e50c941976b5af12b11b9e6c361fe7204f76ec690604090a35f85816135fc565b505f6135f7565b855f5260058152875f2090875f52526002875f2001918254161790555f80806135ed565b935050612f279150615639565b509350505050565b506014855260ff865f2054166133f4565b9290916001600160401b039060405193602085019560018060a01b0316865260408501521660608301526080820152608081526136e981612969565b51902090565b906136f9826129d3565b61370660405191826129b2565b8281528092613717601f19916129d3565b0190602036910137565b805115612b2a5760200190565b8051821015612b2a5760209160051b010190565b61374b81614471565b5f52600460205260405f2060ff600c82015460401c165f1461376e57600d015490565b6006015490565b91908203918211612fcc57565b6001600160401b039182169082160391908211612fcc57565b5f52600460205260405f2060ff600a82015460401c166003811015611d885760020361046e57600981015460ff8160a01c165f146138845760a81c6001600160401b03165b60068201549182421080159061386a575b61386457806138106005600e93015461380a8142613775565b95613775565b9061382a6001600160401b03809481930154169485613782565b16848102948186041490151715612fcc5780156138505761384d93041690613782565b90565b634e487b7160e01b5f52601260045260245ffd5b50905090565b506001600160401b0380600e8301541690831610156137f1565b505f6137e0565b9081518082526020808093019301915f5b8281106138aa575050505090565b83518552938101939281019260010161389c565b9190825f525f80516020615f2583398151915291602092808452604094855f205415613a4d5790849293915f528252845f2092855191828486549182815201955f52845f20905f5b818110613a365750505061391f836139429603846129b2565b6139558751958694632c027b1360e21b865260606004870152606486019061388b565b6003199283868303016024870152612bbb565b9083820301604484015281518082528482019185808360051b8301019401925f915b838310613a08575050505050819003815f731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac5af19182156139fe575f926139c7575b5050156139b75750565b5163cf6c44e960e01b8152600490fd5b90809250813d83116139f7575b6139de81836129b2565b8101031261048057518015158103610480575f806139ad565b503d6139d4565b83513d5f823e3d90fd5b929550929580613a2560019396601f198682030187528951612bbb565b970193019301879593879592613977565b825488529590960195879560019283019201613906565b855163d66ca67560e01b8152600490fd5b600a546001600160a01b03169182613a7557505050565b823b1561048057604051638781681b60e01b81526001600160a01b0390921660048301526024820152905f908290818381604481015b03925af18015610bc057613abd575b50565b612f2790612984565b805f5260049060209160048352604093845f20613ae281615a29565b60078101946101009161ff001996838882541617905560018060a01b0392836008830154169460098301866001600160601b0360a01b825416179055875f5260048452600d8a5f200154421192600685528a5f20925f5b8454811015613c665787613b4d8287612b15565b90549060031b1c16908b5f52600588528d5f20825f5288528d828d8d835f20018b815415159485613c31575b505050508b148015613c25575b613c1b5780613c14575b15613c035788600a54169163fc739690905b833b15610480578f5160e09290921b82526001600160a01b0316818d01908152602081018e905290925f9184919082908490829060400103925af191821561353f57600192613bf4575b505b01613b39565b613bfd90612984565b5f613bec565b88600a541691638781681b90613ba2565b5086613b90565b5060019150613bee565b5089600a541615613b86565b5f7fa2d22037e645675ff70486971f0271772e633bab7b2696d655a4fd9e0e43dec8935551428152a3828f5f8f918c90613b79565b5092509250989493507fe70c80ed197cc24b6568c250a31b7165bdfda9fa8146853e441ffe35ce040bf995508692978415918215998a613d10575b5050508790613d08575b613cc7575b50509051841515815242602082015260409150a290565b60010154835160ff90911681524260208201527f8b313452dba6bcbe487c53d74e50c941976b5af12b11b9e6c361fe7204f76ec690604090a35f8381613cb0565b506001613cab565b855f5260058152875f2090875f52526002875f2001918254161790555f8080613ca1565b805f5260049060209160048352604093845f20613d5081615a29565b60078101946101009161ff001996838882541617905560018060a01b0392836008830154169460098301866001600160601b0360a01b825416179055875f5260048452600d8a5f200154421192600685528a5f20925f5b8454811015613c665787613dbb8287612b15565b90549060031b1c16908b5f52600588528d5f20825f5288528d828d8d835f20018b815415159485613e9f575b505050508b148015613e93575b613e895780613e82575b15613e715788600a54169163fc739690905b833b15610480578f5160e09290921b82526001600160a01b0316818d01908152602081018e905290925f9184919082908490829060400103925af191821561353f57600192613e62575b505b01613da7565b613e6b90612984565b5f613e5a565b88600a541691638781681b90613e10565b5086613dfe565b5060019150613e5c565b5089600a541615613df4565b5f7fa2d22037e645675ff70486971f0271772e633bab7b2696d655a4fd9e0e43dec8935551428152a3828f5f8f918c90613de7565b9081526001600160a01b0391821660208201529116604082015260a06060820181905261384d939192613f0991840190612bbb565b916080818403910152612bbb565b93919293600d5460ff6002541611156114dc5760ff16916001808410801561435b575b6114c057613f49600c54612fbe565b600c81905595801561435257915b855115915f8097845f146141305750506001600160401b03851694925b5f945f9882159081614127575b506140ec575b61403691613f96889242612fe0565b5f8c81526004602081905260409091208d8155868101805460ff19168d17905560028101899055600381019990995588019a909a55426005880155600687018a90556007870180546001600160b81b0319163360181b6301000000600160b81b031617851790556008870180546001600160a01b03191690556009870180546001600160a81b03191691151560a01b60ff60a01b169190911781556111bb565b600a840180546003841015611d885768ffffffffffffffffff1916604084901b60ff60401b1617905581036140ce575081600c91600b6001600160401b039401550191166001600160401b03198254161790555b614095600d54612fbe565b600d55604051914283526020830152827fd9b180ada7f7737f2fcd8708fc2547f41e5ecc2cba06265ad3ffa7e7259df8ae60403394a490565b915050600291500361408a57604051630fbc961960e31b8152600490fd5b97509350614036856140fc615cc8565b95613f96614108615d1b565b9a614113308a615c74565b61411d308d615c74565b9250509150613f87565b9050155f613f81565b919760ff60099792975460a01c168061434b575b156142a957506141cb906040805161418082826020978689830152614171815180928b8686019101612b9a565b810103878101845201826129b2565b8482518d828201525f848201528381526141998161294e565b600954845163538024cb60e11b8152966001600160a01b039488939286169284925f9284929033304660048701613ed4565b03925af193841561429f57908b8d96959493925f95614264575b50928261425c97926113bb9560039551946141ff86612969565b855288850192338452808601948552600b606087019a838c52608088019a848c525f52525f209451855584019151166001600160601b0360a01b8254161790555160028201550192511515839060ff801983541691151516179055565b855f92613f74565b965050909192508385813d8311614298575b61428081836129b2565b810103126104805793518b94909291908b60036141e5565b503d614276565b82513d5f823e3d90fd5b979360206142db9297936040518094819263aaa5746160e01b83528b6004840152604060248401526044830190612bbb565b03815f305af15f9281614317575b5061430357505050816001600160401b0385169492613f74565b91955092906143123085615c74565b613f74565b9092506020813d602011614343575b81614333602093836129b2565b810103126104805751915f6142e9565b3d9150614326565b5088614144565b50805491613f57565b5060058411613f3a565b5f818152600e60209081526040808320805467ffffffffffffffff19166001600160401b039096169586179055600f825291829020805460ff191660011790558151938452429084015290917fd8a492b92b9386393b53a4eb396bada9228b1e1dd4a95daaef8ffd01923127679181908101613616565b335f9081527fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5602052604090205460ff161561441457565b60405163e2517d3f60e01b81523360048201525f6024820152604490fd5b805f525f60205260405f20335f5260205260ff60405f205416156144535750565b6044906040519063e2517d3f60e01b82523360048301526024820152fd5b8015908115614482575b5061323c57565b9050600c54105f61447b565b805f5260046020526040805f209060ff600783015460081c1661453c576144b483613742565b42111561452c575f8381526012602052819020546001600160a01b031661451c57825f52601460205260ff815f20541661450c57506144f2906155ec565b6144ff5761384d90613d34565b61450890615639565b5f90565b516310b3485160e21b8152600490fd5b516398c3802960e01b8152600490fd5b51639eafe1b760e01b8152600490fd5b516331e868a560e21b8152600490fd5b8051603c811090811561462a575b50801561461b575b801561460a575b80156145fc575b80156145ec575b6145da576060817f7400b1366d61659d33781f3324d2c414b8397ce15ed4bafbb0f2cb18035877c79251908160015560ff6040602083019282845116831960025416176002550191825160035560405193845251166020830152516040820152a1565b6040516306b7c75960e31b8152600490fd5b5062015180604082015111614577565b50603c604082015110614570565b50603260ff60208301511611614569565b5060ff60208201511615614562565b620151809150115f61455a565b90600a8201549160ff8360401c166003811015611d88576001146146665760030154916001600160401b031690565b91506001600160401b03600c600b8401549301541690565b90815f525f60205260405f209060018060a01b031690815f5260205260ff60405f205416155f146146f457815f525f60205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4600190565b50505f90565b90815f525f60205260405f209060018060a01b031690815f5260205260ff60405f2054165f146146f457815f525f60205260405f20815f5260205260405f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4600190565b600201805460ff811661477d575050565b6affffffffffffffff00ffff19169055565b959493919290938015610f8e576147b1926147ab9136916129ea565b906158a8565b93600a83019060ff825460401c166003811015611d8857600214614bdd57600a546001600160a01b031680614b31575b506147ec3087615c74565b6147f63387615c74565b60038401545f80516020615f0583398151915254604051639cd07acb60e01b81523360048201526007602482015290602090829060449082905f906001600160a01b03165af1908115610bc0575f91614aff575b50614859600287015489615a5b565b9060ff61487361486d60038a01548c615b0e565b84615b92565b955460401c166003811015611d88576148b3928a60018a9314614a65575b505060036148a29101548a87615e3e565b600388015560048701549085615e3e565b6004860155600385015414610f8e57600a546001600160a01b031680614916575b50505080612f279394600292554260018201550160016affffffffffffffffff00ff1982541617905561490b306003830154615c74565b600430910154615c74565b6149269083979592949693615c16565b825f52600660205260405f20935f5b85548110156149e9576149488187612b15565b90543360039290921b1c6001600160a01b031603614969575b600101614935565b600a546001600160a01b0316906149808188612b15565b905460039190911b1c6001600160a01b0316823b15610480578960645f92836040519687948593639670343960e01b855260048501528c602485015260448401525af1918215610bc0576001926149da575b509050614961565b6149e390612984565b5f6149d2565b50600a5492966001600160a01b0390931695919450929091853b156104805760845f9283604051988994859363380b02a160e21b8552336004860152602485015288604485015260648401525af1918215610bc057612f2794600293614a56575b819695508293506148d4565b614a5f90612984565b5f614a4a565b826003614ac9614acf93614ac2614a8e600b614ad9990197614a88895485615b0e565b90615b92565b614ab9614aac60048801548c8d15614af1575b8115614ae157615e90565b9689549687910154615dba565b92885491615e3e565b908c615e3e565b91615e3e565b8091553090615c74565b865f8a614891565b9050614aeb615d1b565b90615e90565b50614afa615d1b565b614aa1565b90506020813d602011614b29575b81614b1a602093836129b2565b8101031261048057515f61484a565b3d9150614b0d565b614b9187614b436020935f959a615c16565b600a54604051630afb51db60e31b8152336004820152602481018b905260448101929092525f606483018190526084830152909384926001600160a01b0390921691839190829060a4820190565b03925af1908115610bc0575f91614bab575b50945f6147e1565b90506020813d602011614bd5575b81614bc6602093836129b2565b8101031261048057515f614ba3565b3d9150614bb9565b809293949591505f526020926012845260018060a01b03948560405f20541661500d576001600160401b039081614c138661379b565b16935f87895f80516020615f058339815191525416604460405180948193639cd07acb60e01b835260049b8c840152600560248401525af1908115610bc0575f91614fde575b50614c6c614c7391600285015490615dba565b8092615a5b565b9188600a541680614efd575b5060038291614c8e3084615c74565b614c983384615c74565b0155855f526012875260405f20336001600160601b0360a01b8254161790558355600260019342600182015501600160ff198254161790555f60405191614cde83612997565b600183528783019088368337614cf384613721565b527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0195865499805f80516020615ee58339815191525416803b15610480575f6040518092637d6e912360e11b82528d86830152818381614d56602482018d61388b565b03925af18015610bc057614eea575b507f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d005416803b15614ee657836040518092633263b83b60e01b82528d8583015260606024830152818381614dbc606482018c61388b565b6304735e2960e01b604483015203925af18015614edb57908491614ec7575b508a90525f80516020615f25833981519152808a526040842054614eb7578a84528952604083209351948511612eb157600160401b8511612eb157508254848455808510614e90575b50918152868120905b838110614e7f575050505050614e438154612fbe565b9055825f52601382528060405f20557fa86b18abc253a3d1650ebe48231e86a7ee380ed69c902a77a93344e4c39161d5604051924284523393a4565b825182820155918701918401614e2d565b83835285858a852092830192015b828110614eac575050614e24565b5f8155018690614e9e565b50604051633f06d22b60e01b8152fd5b614ed090612984565b612ef657825f614ddb565b6040513d86823e3d90fd5b8380fd5b614ef5919450612984565b5f925f614d65565b92614f0c614f58929484615c16565b88838b600a54168a5f8b60405197889586948593630afb51db60e31b85523390850160809194935f9360a083019660018060a01b03168352602083015260408201528260608201520152565b03925af18015610bc05783925f91614faa575b50600391614a88614f8a9285908015614f9c575b8615614f9257615e90565b939150614c7f565b9050614aeb615cc8565b50614fa5615cc8565b614f7f565b8093508a8092503d8311614fd7575b614fc381836129b2565b810103126104805790518291906003614f6b565b503d614fb9565b90508781813d8311615006575b614ff581836129b2565b810103126104805751614c6c614c59565b503d614feb565b6040516398c3802960e01b8152600490fd5b939291906001600160401b0380931693600a820180549260409160ff85841c166003811015611d885760021461525a575b86600983015460a81c16948789169586106152495787168511156151b157615079888a8661554d565b600882019360018060a01b03918286541681549b60ff8d881c16966003881015611d8857612f279d60029c600160049a14806151a8575b8061519c575b615176575b50508261512e575b5050815467ffffffffffffffff19168817909155506003830186905584546001600160a01b0319169116908117909355015581554260018201550180546affffffffffffffffffffff191660189290921b6affffffffffffffff000000169190911762010101179055565b8b90825f526005602052805f20845f526020525f20016affffffffffffffff00ffff1981541690558484168203615166575b806150c3565b61516f91613a5e565b5f80615160565b600c890191166001600160401b03198254161790556003870154600b8801555f806150bb565b508787168514156150b6565b508415156150b0565b509395969294506151c382888661599c565b615239575092600b8695936151e984876151e4612f279b879860029b61554d565b613a5e565b600c8101805467ffffffffffffffff191684179055015581554260018201550180546affffffffffffffffffffff191660189290921b6affffffffffffffff000000169190911762010001179055565b51632b6781ff60e21b8152600490fd5b8351632b6781ff60e21b8152600490fd5b966152648961379b565b90878216116152735796615050565b8251632b6781ff60e21b8152600490fd5b5f8181526007602090815260408083206001600160a01b03958616808552908352928190205490939060ff16156152bd575b5050505050565b805f5260078252835f20835f528252835f20600160ff19825416179055805f5260068252835f2094855493600160401b851015611e8a57615308856007986001600498018155612b15565b909283549160031b92831b921b19161790555f52525f2001805460ff8160101c1660ff8114612fcc57600162ff0000910160101b169062ff000019161790555f808080806152b6565b805f52600460205260405f2060ff600a82015460401c166003811015611d8857600214908161538c575b506153835750565b613aba90613ac6565b600801546001600160a01b0316151590505f61537b565b90604080516153b181612969565b5f81525f608060209282848201528285820152826060820152015260018060a01b03938460095416330361549557805f52600b82526003835f208451966153f788612969565b815488526001820154168488015260028101548588015201549460ff80871615968715606084015260081c161515608082015294615446575f908152600b90915220600301805460ff19169055565b50608491519062461bcd60e51b825260048201526024808201527f50726f6f66206e6f7420666f756e64206f7220616c72656164792070726f63656044820152631cdcd95960e21b6064820152fd5b50608491519062461bcd60e51b825260048201526024808201527f4f6e6c7920496e707574566572696669636174696f6e2063616e2063616c6c206044820152637468697360e01b6064820152fd5b805f52600460205260405f20600781019060ff825460081c166155485761550a90615a29565b61010061ff00198254161790557fe70c80ed197cc24b6568c250a31b7165bdfda9fa8146853e441ffe35ce040bf9604080515f8152426020820152a2565b505050565b600a549192916001600160a01b0391908216908161556c575050505050565b5f60a4926001600160401b036020966040519889978896630afb51db60e31b88521660048701526024860152836044860152166064840152600160848401525af18015610bc0576155c1575b808080806152b6565b602090813d83116155e5575b6155d781836129b2565b81010312610480575f6155b8565b503d6155cd565b60ff600982015460a01c16159081615619575b81615608575090565b60ff91506007015460101c16151590565b905060ff600a82015460401c166003811015611d885760021415906155ff565b805f526004906020828152604083815f2061565381615a29565b0154935f9082519061566482612997565b600191600181528581019786368a3761567c82613721565b527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d019384549860018060a01b03805f80516020615ee58339815191525416803b15610480575f89518092637d6e912360e11b82528c898301528183816156e5602482018c61388b565b03925af1801561589e5761588b575b507f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d005416803b15612ef6578288518092633263b83b60e01b82528d888301526060602483015281838161574a606482018b61388b565b633a16d64760e01b604483015203925af180156158815790839161586d575b508a90525f80516020615f258339815191528089528783205461585d578a835288528682209251936001600160401b038511612eb157600160401b8511612eb157508254848455808510615836575b50918152868120905b83811061582557505050505090816157fb7f34c5b700d20129e31e19f551c5a659d65a91e0c6fd2c15fbaf41ef3fa8642766949354612fbe565b9055845f526015825283815f2055835f5260148252805f20600160ff1982541617905551428152a3565b8251828201559187019184016157c1565b83835285858a852092830192015b8281106158525750506157b8565b5f8155018690615844565b8751633f06d22b60e01b81528590fd5b61587690612984565b612ee857815f615769565b88513d85823e3d90fd5b615896919350612984565b5f915f6156f4565b89513d5f823e3d90fd5b60206158f89260018060a01b0392835f80516020615f058339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190612bbb565b6005606483015203925af1918215610bc0575f92615968575b505f80516020615ee58339815191525416803b1561048057604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610bc05761595f575090565b61384d90612984565b9091506020813d602011615994575b81615984602093836129b2565b810103126104805751905f615911565b3d9150615977565b60098101546001600160401b03939284169060a81c84168110615a2057600a8201548481168211615a175760401c60ff166003811015611d885760011493841594615a06575b505082156159ef57505090565b600801546001600160a01b03918216911614919050565b600c83015416101592505f806159e2565b50505050505f90565b50505050600190565b600701805460ff8116615a3a575050565b60ff19169055600d5480158015615a4f575050565b612fcc575f1901600d55565b908115615afe575b8015615aec575b602090606460018060a01b035f80516020615f058339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610bc0575f91615abd575090565b90506020813d602011615ae4575b81615ad8602093836129b2565b81010312610480575190565b3d9150615acb565b506020615af7615cc8565b9050615a6a565b9050615b08615cc8565b90615a63565b908115615b82575b8015615b70575b602090606460018060a01b035f80516020615f058339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115610bc0575f91615abd575090565b506020615b7b615cc8565b9050615b1d565b9050615b8c615cc8565b90615b16565b908115615c06575b8015615bf4575b602090606460018060a01b035f80516020615f058339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115610bc0575f91615abd575090565b506020615bff615d6e565b9050615ba1565b9050615c10615d6e565b90615b9a565b5f80516020615ee5833981519152546001600160a01b031691823b1561048057604051630f8e573b60e21b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610bc057613abd5750565b5f80516020615ee5833981519152546001600160a01b031691823b1561048057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f90829081838160448101613aab565b5f80516020615f0583398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610bc0575f91615abd575090565b5f80516020615f0583398151915254604051639cd07acb60e01b81525f60048201819052600760248301529091602091839160449183916001600160a01b03165af1908115610bc0575f91615abd575090565b5f602060018060a01b035f80516020615f058339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610bc0575f91615abd575090565b908115615e2e575b8015615e1c575b602090606460018060a01b035f80516020615f058339815191525416935f6040519586948593630d8c635960e21b8552600485015260248401528160448401525af1908115610bc0575f91615abd575090565b506020615e27615cc8565b9050615dc9565b9050615e38615cc8565b90615dc2565b9060646020925f60018060a01b035f80516020615f0583398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610bc0575f91615abd575090565b90602090606460018060a01b035f80516020615f058339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af1908115610bc0575f91615abd57509056feed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600ed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea6015ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d02a2646970667358221220134bc0cfb10221af77a14db5be33c17cb0180f9fa8a94a03d6e65c52b02dddb564736f6c634300081800332f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0dad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5";
 
 type MarketAuctionConstructorParams =
   | [signer?: Signer]
@@ -2,4 +2,5 @@
 /* tslint:disable */
 /* eslint-disable */
 export { IInputVerification__factory } from "./IInputVerification__factory";
+export { IShadowMerchants__factory } from "./IShadowMerchants__factory";
 export { MarketAuction__factory } from "./MarketAuction__factory";
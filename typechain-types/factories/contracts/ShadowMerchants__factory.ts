@@ -48,22 +48,27 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "GameAlreadyStarted",
+    name: "GameFull",
     type: "error",
   },
   {
     inputs: [],
-    name: "GameFull",
+    name: "GameNotActive",
     type: "error",
   },
   {
     inputs: [],
-    name: "GameNotActive",
+    name: "GameNotEnded",
     type: "error",
   },
   {
     inputs: [],
-    name: "GameNotEnded",
+    name: "GameNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
     type: "error",
   },
   {
@@ -71,21 +76,51 @@ const _abi = [
     name: "InsufficientResources",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "InvalidConfig",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidGameSettings",
+    type: "error",
+  },
   {
     inputs: [],
     name: "InvalidInput",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
   {
     inputs: [],
     name: "PlayerAlreadyJoined",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "PlayerInAnotherGame",
+    type: "error",
+  },
   {
     inputs: [],
     name: "PlayerNotActive",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "UnknownDecryptionRequest",
+    type: "error",
+  },
   {
     anonymous: false,
     inputs: [
@@ -95,6 +130,12 @@ const _abi = [
         name: "player",
         type: "address",
       },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -102,7 +143,7 @@ const _abi = [
         type: "uint256",
       },
     ],
-    name: "EnergyRegenerated",
+    name: "BidGoldForfeited",
     type: "event",
   },
   {
@@ -111,41 +152,211 @@ const _abi = [
       {
         indexed: true,
         internalType: "address",
-        name: "winner",
+        name: "player",
         type: "address",
       },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
       {
         indexed: false,
         internalType: "uint256",
-        name: "endTime",
+        name: "timestamp",
         type: "uint256",
       },
     ],
-    name: "GameEnded",
+    name: "BidGoldLocked",
     type: "event",
   },
   {
     anonymous: false,
     inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
       {
         indexed: false,
         internalType: "uint256",
-        name: "startTime",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BidGoldReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint64",
+            name: "initialGold",
+            type: "uint64",
+          },
+          {
+            internalType: "uint8",
+            name: "energyRegenAmount",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "maxPlayers",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "maxRounds",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "roundDuration",
+            type: "uint256",
+          },
+        ],
+        indexed: false,
+        internalType: "struct ShadowMerchants.GameConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "ConfigUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "EnergyRegenerated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
         type: "uint256",
       },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
       {
         indexed: false,
         internalType: "uint8",
         name: "maxPlayers",
         type: "uint8",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+    ],
+    name: "GameCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+    ],
+    name: "GameEnded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint8",
+        name: "goodType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
     ],
-    name: "GameStarted",
+    name: "InventoryCredited",
     type: "event",
   },
   {
     anonymous: false,
     inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
       {
         indexed: true,
         internalType: "address",
@@ -165,6 +376,12 @@ const _abi = [
   {
     anonymous: false,
     inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
       {
         indexed: true,
         internalType: "address",
@@ -278,6 +495,12 @@ const _abi = [
   {
     anonymous: false,
     inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -295,21 +518,33 @@ const _abi = [
     type: "event",
   },
   {
-    inputs: [],
-    name: "AUCTION_ROLE",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "WinnerDecryptionRequested",
+    type: "event",
   },
   {
     inputs: [],
-    name: "DEFAULT_ADMIN_ROLE",
+    name: "AUCTION_ROLE",
     outputs: [
       {
         internalType: "bytes32",
@@ -322,12 +557,12 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "ENERGY_REGEN_AMOUNT",
+    name: "DEFAULT_ADMIN_ROLE",
     outputs: [
       {
-        internalType: "uint8",
+        internalType: "bytes32",
         name: "",
-        type: "uint8",
+        type: "bytes32",
       },
     ],
     stateMutability: "view",
@@ -374,12 +609,12 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "INITIAL_GOLD",
+    name: "INITIAL_REPUTATION",
     outputs: [
       {
-        internalType: "uint256",
+        internalType: "uint8",
         name: "",
-        type: "uint256",
+        type: "uint8",
       },
     ],
     stateMutability: "view",
@@ -387,7 +622,7 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "INITIAL_REPUTATION",
+    name: "MAX_ENERGY",
     outputs: [
       {
         internalType: "uint8",
@@ -400,12 +635,12 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "MAX_ENERGY",
+    name: "MAX_INITIAL_GOLD",
     outputs: [
       {
-        internalType: "uint8",
+        internalType: "uint64",
         name: "",
-        type: "uint8",
+        type: "uint64",
       },
     ],
     stateMutability: "view",
@@ -413,7 +648,7 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "MAX_PLAYERS",
+    name: "MAX_PLAYERS_LIMIT",
     outputs: [
       {
         internalType: "uint8",
@@ -426,7 +661,7 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "MAX_ROUNDS",
+    name: "MAX_ROUNDS_LIMIT",
     outputs: [
       {
         internalType: "uint8",
@@ -439,12 +674,12 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "MISSION_ROLE",
+    name: "MAX_ROUND_DURATION",
     outputs: [
       {
-        internalType: "bytes32",
+        internalType: "uint256",
         name: "",
-        type: "bytes32",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
@@ -452,7 +687,7 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "ROUND_DURATION",
+    name: "MIN_ROUND_DURATION",
     outputs: [
       {
         internalType: "uint256",
@@ -464,28 +699,111 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "MISSION_ROLE",
+    outputs: [
       {
-        internalType: "uint256",
+        internalType: "bytes32",
         name: "",
-        type: "uint256",
+        type: "bytes32",
       },
     ],
-    name: "activePlayers",
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SCORE_ITEM_VALUE",
     outputs: [
       {
-        internalType: "address",
+        internalType: "uint64",
         name: "",
-        type: "address",
+        type: "uint64",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "SCORE_REPUTATION_WEIGHT",
+    outputs: [
       {
-        internalType: "address",
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "activePlayers",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "bidEscrows",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "amountPlain",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
         name: "playerAddress",
         type: "address",
       },
@@ -503,14 +821,138 @@ const _abi = [
   },
   {
     inputs: [],
+    name: "config",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "initialGold",
+        type: "uint64",
+      },
+      {
+        internalType: "uint8",
+        name: "energyRegenAmount",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxPlayers",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "maxPlayers",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+    ],
+    name: "createGame",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "currentGame",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
     name: "endGame",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "forfeitBidGold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [],
-    name: "gameState",
+    name: "gameCounter",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "games",
     outputs: [
       {
         internalType: "uint256",
@@ -527,11 +969,21 @@ const _abi = [
         name: "lastRoundTime",
         type: "uint256",
       },
+      {
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
       {
         internalType: "uint8",
         name: "maxPlayers",
         type: "uint8",
       },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
       {
         internalType: "uint8",
         name: "playerCount",
@@ -552,12 +1004,36 @@ const _abi = [
         name: "winner",
         type: "address",
       },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
     inputs: [],
+    name: "getActiveGames",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
     name: "getActivePlayers",
     outputs: [
       {
@@ -570,7 +1046,13 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [],
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
     name: "getGameInfo",
     outputs: [
       {
@@ -579,34 +1061,122 @@ const _abi = [
         type: "uint256",
       },
       {
-        internalType: "uint256",
-        name: "gameStartTime",
-        type: "uint256",
+        internalType: "uint256",
+        name: "gameStartTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastRoundTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "playerCount",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "gameActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "gameEnded",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "maxPlayers",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+    ],
+    name: "getInventory",
+    outputs: [
+      {
+        internalType: "euint8[10]",
+        name: "",
+        type: "bytes32[10]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+    ],
+    name: "getPlaintextResources",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "usesPlaintext",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "gold",
+        type: "uint64",
       },
       {
-        internalType: "uint256",
-        name: "lastRoundTime",
-        type: "uint256",
+        internalType: "uint16",
+        name: "reputation",
+        type: "uint16",
       },
       {
         internalType: "uint8",
-        name: "playerCount",
+        name: "energy",
         type: "uint8",
       },
       {
-        internalType: "bool",
-        name: "gameActive",
-        type: "bool",
-      },
-      {
-        internalType: "bool",
-        name: "gameEnded",
-        type: "bool",
-      },
-      {
-        internalType: "address",
-        name: "winner",
-        type: "address",
+        internalType: "uint8[10]",
+        name: "inventory",
+        type: "uint8[10]",
       },
     ],
     stateMutability: "view",
@@ -614,6 +1184,11 @@ const _abi = [
   },
   {
     inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
       {
         internalType: "address",
         name: "playerAddress",
@@ -740,6 +1315,11 @@ const _abi = [
   },
   {
     inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
       {
         internalType: "externalEuint64",
         name: "encryptedGold",
@@ -785,6 +1365,73 @@ const _abi = [
   },
   {
     inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "amountPlain",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "amountIsPlaintext",
+        type: "bool",
+      },
+    ],
+    name: "lockBidGold",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "locked",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "bytes[]",
+        name: "signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "onWinnerDecrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
       {
         internalType: "address",
         name: "",
@@ -863,7 +1510,13 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [],
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
     name: "progressRound",
     outputs: [],
     stateMutability: "nonpayable",
@@ -876,6 +1529,47 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseBidGold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "release",
+        type: "bytes32",
+      },
+    ],
+    name: "releaseBidGoldIf",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -912,6 +1606,72 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "goodType",
+        type: "uint8",
+      },
+      {
+        internalType: "euint64",
+        name: "price",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "pricePlain",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "priceIsPlaintext",
+        type: "bool",
+      },
+    ],
+    name: "settleAuctionWin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "locked",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "accepted",
+        type: "bytes32",
+      },
+    ],
+    name: "settleBidGoldIf",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -949,8 +1709,60 @@ const _abi = [
     type: "function",
   },
   {
-    inputs: [],
-    name: "startGame",
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint64",
+            name: "initialGold",
+            type: "uint64",
+          },
+          {
+            internalType: "uint8",
+            name: "energyRegenAmount",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "maxPlayers",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "maxRounds",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "roundDuration",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ShadowMerchants.GameConfig",
+        name: "newConfig",
+        type: "tuple",
+      },
+    ],
+    name: "updateConfig",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -958,12 +1770,31 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "bytes4",
-        name: "interfaceId",
-        type: "bytes4",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
     ],
-    name: "supportsInterface",
+    name: "winnerDecryptionGame",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winnerDecryptionPending",
     outputs: [
       {
         internalType: "bool",
@@ -974,10 +1805,29 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winnerDecryptionRequestId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x608060405234620000b6576200001533620000bb565b5062000021336200013b565b506040516101008101906001600160401b03821181831017620000a05760e0916040526000918183809352826020820152826040820152601460608201528260808201528260a08201528260c082015201528060015580600255600355601460018060c01b0319600454161760045560405161232d9081620001de8239f35b634e487b7160e01b600052604160045260246000fd5b600080fd5b6001600160a01b031660008181527fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5602052604081205490919060ff166200013757818052816020526040822081835260205260408220600160ff1982541617905533916000805160206200250b8339815191528180a4600190565b5090565b6001600160a01b031660008181527ff11d5cd6172e4d486247e8873a157a5cbd86d37171bf6cd250fc0a75f26713f960205260408120549091907fef17b1f3c5a412f9c8e887e3abd186802afec7dc657fd3b7002bf87b128dd0b19060ff16620001d857808352826020526040832082845260205260408320600160ff198254161790556000805160206200250b833981519152339380a4600190565b50509056fe60808060405260048036101561001457600080fd5b60003560e01c918262e24683146116f35750816301ffc9a71461169f5781631746bd1b146116325781631fdebc44146110c5578163248a9ca3146116055781632a46018c146115dc5781632f2ff15d1461159e57816336568abe1461155b5781633c4f5a661461149357816341d3558214611453578163430730a3146114585781634411b3eb1461145357816359328401146113155781636641ea08146112f85781636cbc2ded146112bc5781637b057258146110c55781637bc705541461117e57816391d14854146111325781639350ca81146110f75781639dd88d34146110ca578163a211f28f146110c5578163a217fddf146110a9578163aca93f7d14611080578163b1501f9c14610f16578163b55f108f14610ed6578163b94d126d1461091a578163cdc2f3fe14610786578163d1f9c24d1461070f578163d547741f146106cf578163d610de77146103a9578163d65ab5f21461031957508063de6b4429146102fd578063e2eb41ff14610226578063e50a232114610209578063edb3bb94146101ec5763ff6fcdbd146101ac57600080fd5b346101e75760003660031901126101e75760206040517fef17b1f3c5a412f9c8e887e3abd186802afec7dc657fd3b7002bf87b128dd0b18152f35b600080fd5b346101e75760003660031901126101e757602060405161012c8152f35b346101e75760003660031901126101e75760206040516103e88152f35b346101e75760203660031901126101e7576001600160a01b03610247611740565b1660005260056020526101a060406000208054906001810154906002810154600d82015460ff600e84015491600f850154938260116010880154970154169660405198895260208901526040880152818116151560608801526001600160401b038160081c16608088015261ffff8160481c1660a0880152818160581c1660c0880152818160601c16151560e088015260681c161515610100860152610120850152610140840152610160830152610180820152f35b346101e75760003660031901126101e7576020604051600a8152f35b346101e75760003660031901126101e757610332611b25565b805460ff8160101c166103995742600281905560038190556001805562010000600160c01b0319821662010000179092556040805192835260ff90911660208301527fd734a984dda36fc77fa6c513ab4eb1a0f8bde05319a9a9c9f22642db0549db2491a1005b5060405163ba26162b60e01b8152fd5b346101e75760003660031901126101e757336000526020906005825260ff600d6040600020015460601c16156106c0573360005260058252604060002060108101805461012c81018091116106ab57421061069a5760018060a01b036000805160206122d88339815191529281845416916040519187836044816000639cd07acb60e01b9889835260648d840152600260248401525af19283156105b0578890600094610668575b5082939460446000948954169160405195869384928352600a8d840152600260248401525af19182156105b057600092610638575b5060020194878654838115610628575b15610618575b606489600087865416604051978895869463022f65e760e31b865285015260248401528160448401525af19687156105b05788926000986105e7575b508493889289156105d7575b86156105bc575b60649291600091541660405196879586946385362ee760e01b865285015260248401528160448401525af19081156105b05760009161057b575b5061054e94610546939261053892612193565b908184554290553090612053565b339054612053565b7f3d843963154473d660c05ed5bb01735f826c39a862969e5214854810fa6b2a1c604051914283523392a2005b90508581819493943d83116105a9575b610595818361196c565b810103126101e7575190919061054e610525565b503d61058b565b6040513d6000823e3d90fd5b94509060006064926105cc612217565b9691509192506104eb565b92506105e1612217565b926104e4565b8381949299503d8311610611575b6105ff818361196c565b810103126101e75787915196896104d8565b503d6105f5565b9250610622612217565b9261049c565b9050610632612217565b90610496565b9091508781813d8311610661575b610650818361196c565b810103126101e75751906002610486565b503d610646565b80939450813d8311610693575b61067f818361196c565b810103126101e75787600092519392610451565b503d610675565b6040516321b026c560e21b81528390fd5b601184634e487b7160e01b6000525260246000fd5b6040516396ba997560e01b8152fd5b346101e75760403660031901126101e75761070d90356106ed611756565b90806000526000602052610708600160406000200154611b81565b611d7f565b005b346101e75760003660031901126101e7576101009060015490600254906003549054916040519384526020840152604083015260ff8116606083015260ff8160081c16608083015260ff8160101c16151560a083015260ff8160181c16151560c083015260018060a01b039060201c1660e0820152f35b346101e75760403660031901126101e7576024356001600160401b0381116101e7576107b59036908301611788565b33600052600560205260ff600d6040600020015460601c16156109095760ff835460101c16156108f957336000526005602052600f60406000200154600a81018091116106ab57421061069a579161081561081c9261088694369161198d565b9035611f68565b6108263082612053565b33600052600560205261054661087660406000209261086e84548281156108e4575b61085990841592836108d4576120a9565b928654909181156108c4575b6108b45761213e565b845491612193565b80835542600f8401553090612053565b6040514281527fefb247adb67a1f4a637d338494f973d6878e3b545bcbfb20f6483097d91ca7fc60203392a2005b90506108be612267565b9061213e565b90506108ce612267565b90610865565b90506108de612267565b906120a9565b90506108596108f1612267565b919050610848565b60405162a3097160e01b81528390fd5b6040516396ba997560e01b81528390fd5b346101e75760c03660031901126101e7576024356001600160401b0381116101e7576109499036908301611788565b906064356001600160401b0381116101e7576109689036908501611788565b9160a4356001600160401b0381116101e7576109879036908701611788565b929091865460ff8160101c1615610ec65760ff8082169160081c161015610eb55733600052600560205260ff600d6040600020015460681c16610ea457600360015411610e945785159586610e8b575b86610e82575b8615610cbf5750505050505060009060ff60009161ffff6000915b6001600160401b0360405191610a0d83611950565b6101403684378015610cb7576103e8905b8015610caf576064935b8115610ca7576064965b600154996040519b610a438d61190b565b8c5260208c015260408b015260608a0152151560808901521660a08701521660c08501521660e083015260016101008301526001610120830152610140820152426101608201524261018082015260026101a08201523360005260056020526040600020815181556020820151600182015560408201516002820155606082015160005b600a8110610c905750506101a0601182600d60ff94016080860151151581549068ffffffffffffffff0060a089015160081b166affff00000000000000000060c08a015160481b168860581b60e08b015160581b16916101008b0151151560601b938a60681b6101208d0151151560681b16958b60681b19918c8060601b19911616906cffffffffffffffffffffffffff19161716171717908760601b1617179055610140850151600e820155610160850151600f8201556101808501516010820155019201511660ff1982541617905560065468010000000000000000811015610c7b57610bbf816001610bdd93016006556117b5565b81546001600160a01b0360039290921b91821b19163390911b179055565b6006546000198101908111610c6657336000526007602052604060002055805460ff8160081c1660ff8114610c5157600161ff00910160081b169061ff0019161790556001546040519081527f3330a6773675f31f62070870f40379f8c6d42e3761410011a4dfc42b18043d2f60203392a2005b601183634e487b7160e01b6000525260246000fd5b601182634e487b7160e01b6000525260246000fd5b604182634e487b7160e01b6000525260246000fd5b600190602083519301926003828601015501610ac7565b600096610a32565b600093610a28565b600090610a1e565b610cd6610ce59392610cdd9298969798369161198d565b8835611f68565b95369161198d565b9060018060a01b036000805160206122d88339815191525416604051809363196d0b9b60e01b8252604435898301523360248301526080604483015280519081608484015260005b828110610e6a5750509181600060a4828683836020998401015260036064830152601f801991011681010301925af19182156105b057600092610e36575b506000805160206122b8833981519152546001600160a01b031692833b156101e75760408051630f8e573b60e21b8152888101858152336020820152909560009287928391859183910103925af19182156105b057610de8610de0610e189260ff9761ffff96610e27575b508698369161198d565b608435611e34565b93610df33089612053565b610dfd3082612053565b610e073086612053565b610e113389612053565b3390612053565b610e223384612053565b6109f8565b610e309061193d565b8b610dd6565b9091506020813d602011610e62575b81610e526020938361196c565b810103126101e757519086610d6b565b3d9150610e45565b602082820181015160a4898401015287945001610d2d565b841596506109dd565b851596506109d7565b60405162a3097160e01b81528790fd5b6040516314c4fea760e31b81528790fd5b60405163b3ed896d60e01b81528790fd5b60405162a3097160e01b81528890fd5b346101e75760203660031901126101e757356006548110156101e757610efd6020916117b5565b905460405160039290921b1c6001600160a01b03168152f35b346101e75760003660031901126101e757336000526020906005825260ff600d6040600020015460601c16156106c057336000908152600583526040808220600d01805461ffff60601b191690556007845290205460065460001991908281019081116106ab5790610f8a610fc5926117b5565b90546001600160a01b0393919084610fa1856117b5565b92909360031b1c169060018060a01b038084549260031b9316831b921b1916179055565b81610fcf826117b5565b90549060031b1c1660005260078552604060002055600654801561106b57820190610ff9826117b5565b909182549160031b1b1916905560065533600052600783526000604081205581549060ff8260081c1680156106ab5761ff0019909216910160081b61ff001617905560015460405190815233917fe435e388777386262d59a246520ee17fbafba99690c80e0ef9bf002dd53cd4ef91a2005b603184634e487b7160e01b6000525260246000fd5b346101e75760203660031901126101e75761070d61109c611740565b6110a4611acd565b611c59565b346101e75760003660031901126101e757602060405160008152f35b611724565b346101e75760203660031901126101e75760206110ed6110e8611740565b6119d3565b6040519015158152f35b346101e75760003660031901126101e75760206040517fda146bdcee179bf91932b72d5f48336fa2738b1ecb32dd1e4f46611406df38908152f35b346101e75760403660031901126101e75761114b611756565b9035600052600060205260406000209060018060a01b0316600052602052602060ff604060002054166040519015158152f35b346101e75760403660031901126101e7576024356001600160401b0381116101e7576111ad9036908301611788565b33600052600560205260ff600d6040600020015460601c16156109095760ff835460101c16156108f957336000526005602052600f60406000200154600a81018091116106ab57421061069a579161120d6112149261088694369161198d565b9035611e34565b61121e3082612053565b3360005260056020526105466040600020611272600282019361126a85548281156112a7575b611255908415928361129d576120a9565b9287549091811561128d575b6112835761213e565b855491612193565b90818455600f429101553090612053565b90506108be612217565b9050611297612217565b90611261565b90506108de612217565b90506112556112b4612217565b919050611244565b346101e75760003660031901126101e7576112d5611b25565b60ff815460101c16156112ea5761070d611a3e565b60405162a3097160e01b8152fd5b346101e75760003660031901126101e75760206040516103848152f35b346101e7576020806003193601126101e7576001600160a01b03611337611740565b1660005260056020526040600020604051906113528261190b565b805482526001926001820154602084015260028201546040840152604051908160038401916000915b600a83106114405760a087878761139181611950565b60608301526101a0600d8201549260ff8416151560808201526001600160401b038460081c168582015261ffff8460481c1660c082015260ff8460581c1660e082015260ff808560601c161515948561010084015260681c16151580610120830152600e840154918261014082015260ff6011600f8701549687610160850152601081015461018085015201541693849101526040519485526020850152604084015260608301526080820152f35b835481529287019291870191810161137b565b61176c565b346101e75760003660031901126101e75760206040517fc5e2d1653feba496cf5ce3a744b90ea18acf0df3d036aba9b2f85992a14679068152f35b346101e75760003660031901126101e757604051806006548083526020809301809160066000527ff652222313e28459528d920b65115c16c04f3efc82aaedc97be59f3f377c0d3f9060005b8682821061153e5786866114f58288038361196c565b604051928392818401908285525180915260408401929160005b82811061151e57505050500390f35b83516001600160a01b03168552869550938101939281019260010161150f565b83546001600160a01b0316855290930192600192830192016114df565b346101e75760403660031901126101e757611574611756565b336001600160a01b0382160361158e5761070d9135611d7f565b5060405163334bd91960e11b8152fd5b346101e75760403660031901126101e75761070d90356115bc611756565b908060005260006020526115d7600160406000200154611b81565b611d06565b346101e75760203660031901126101e75761070d6115f8611740565b611600611acd565b611ba7565b346101e75760203660031901126101e7573560005260006020526020600160406000200154604051908152f35b346101e75760003660031901126101e75760e09060015490600254906003549054916040519384526020840152604083015260ff8160081c16606083015260ff8160101c161515608083015260ff8160181c16151560a083015260018060a01b039060201c1660c0820152f35b346101e75760203660031901126101e7573563ffffffff60e01b81168091036101e757602090637965db0b60e01b81149081156116e2575b506040519015158152f35b6301ffc9a760e01b149050826116d7565b346101e75760003660031901126101e75760ff825460101c16156117195761070d611802565b62a3097160e01b8152fd5b346101e75760003660031901126101e757602060405160648152f35b600435906001600160a01b03821682036101e757565b602435906001600160a01b03821682036101e757565b346101e75760003660031901126101e757602060405160148152f35b9181601f840112156101e7578235916001600160401b0383116101e757602083818601950101116101e757565b6006548110156117ec5760066000527ff652222313e28459528d920b65115c16c04f3efc82aaedc97be59f3f377c0d3f0190600090565b634e487b7160e01b600052603260045260246000fd5b6003805461038481018091116118d75742106118f9576001906014825410156118ed5781549060001982146118d757828092018255426003556000906000935b61187e575b50507ff3c21be122a248b09cc93c61e88fe574a896c58f249ec91285afd3b40af2d23d9150604090548151908152426020820152a1565b6006548410156118d257828461189482966117b5565b905490841b1c6001600160a01b03168452600560205260408420600d81015460601c60ff166118c6575b500193611842565b601042910155386118be565b611847565b634e487b7160e01b600052601160045260246000fd5b50506118f7611a3e565b565b6040516321b026c560e21b8152600490fd5b6101c081019081106001600160401b0382111761192757604052565b634e487b7160e01b600052604160045260246000fd5b6001600160401b03811161192757604052565b61014081019081106001600160401b0382111761192757604052565b90601f801991011681019081106001600160401b0382111761192757604052565b9291926001600160401b03821161192757604051916119b6601f8201601f19166020018461196c565b8294818452818301116101e7578281602093846000960137010152565b6001600160a01b03166000908152600560205260408120600d81015460601c60ff1615611a3a5760ff60045460101c1615611a3a57600f0154600a8101809111611a26574210611a235750600190565b90565b634e487b7160e01b82526011600452602482fd5b5090565b60045460ff8160101c1615611aca5763010000008063ffff000019831617600455611a67611df4565b62010000600160c01b0319909216602083811b640100000000600160c01b031691909117919091176004556040514281526001600160a01b03909216917fd4ba6fec82d9b0e8ffe50b9fed9e4be3b25c984ce1e0e016405a5528726e8a2c9190a2565b50565b3360009081527fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5602052604081205460ff1615611b075750565b6044906040519063e2517d3f60e01b82523360048301526024820152fd5b3360009081527ff11d5cd6172e4d486247e8873a157a5cbd86d37171bf6cd250fc0a75f26713f960205260409020547fef17b1f3c5a412f9c8e887e3abd186802afec7dc657fd3b7002bf87b128dd0b19060ff1615611b075750565b80600052600060205260406000203360005260205260ff6040600020541615611b075750565b6001600160a01b031660008181527ff2d19feb5547524783b7bad00410790cff4bde378a563f400aa879f0e01b51f360205260408120549091907fc5e2d1653feba496cf5ce3a744b90ea18acf0df3d036aba9b2f85992a14679069060ff16611c5457808352826020526040832082845260205260408320600160ff198254161790557f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d339380a4600190565b505090565b6001600160a01b031660008181527fea37d550ab04417997b54050d52d06af9b279582f0a9cb4831541e394d556d9060205260408120549091907fda146bdcee179bf91932b72d5f48336fa2738b1ecb32dd1e4f46611406df38909060ff16611c5457808352826020526040832082845260205260408320600160ff198254161790557f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d339380a4600190565b9060009180835282602052604083209160018060a01b03169182845260205260ff60408420541615600014611c5457808352826020526040832082845260205260408320600160ff198254161790557f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d339380a4600190565b9060009180835282602052604083209160018060a01b03169182845260205260ff604084205416600014611c545780835282602052604083208284526020526040832060ff1981541690557ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b339380a4600190565b60065415611e2f5760066000527ff652222313e28459528d920b65115c16c04f3efc82aaedc97be59f3f377c0d3f546001600160a01b031690565b600090565b6000805160206122d88339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301528251608483018190526001600160a01b0394939185169183919060005b828110611f505750509181600060a4828683836020998401015260026064830152601f801991011681010301925af19081156105b057600091611f1e575b5080926000805160206122b88339815191525416803b156101e757604051630f8e573b60e21b815260048101929092523360248301526000908290818381604481015b03925af180156105b057611f155750565b6118f79061193d565b90506020813d602011611f48575b81611f396020938361196c565b810103126101e7575138611ec1565b3d9150611f2c565b602082820181015160a4888401015286945001611e83565b6000805160206122d88339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301528251608483018190526001600160a01b0394939185169183919060005b82811061203b5750509181600060a4828683836020998401015260056064830152601f801991011681010301925af19081156105b057600091611f1e575080926000805160206122b88339815191525416803b156101e757604051630f8e573b60e21b81526004810192909252336024830152600090829081838160448101611f04565b602082820181015160a4888401015286945001611fb7565b6000805160206122b8833981519152546001600160a01b031691823b156101e757604051635ca4b5b160e11b815260048101929092526001600160a01b0316602482015290600090829081838160448101611f04565b60018060a01b036000805160206122d883398151915254169160405191631391547f60e01b835260048301526024820152602081606481600080968160448401525af19182156121325780926120fe57505090565b9091506020823d60201161212a575b8161211a6020938361196c565b8101031261212757505190565b80fd5b3d915061210d565b604051903d90823e3d90fd5b60018060a01b036000805160206122d8833981519152541691604051916303056db360e31b835260048301526024820152602081606481600080968160448401525af19182156121325780926120fe57505090565b906064602092600060018060a01b036000805160206122d883398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156105b0576000916121e8575090565b90506020813d60201161220f575b816122036020938361196c565b810103126101e7575190565b3d91506121f6565b60018060a01b036000805160206122d88339815191525416604051639cd07acb60e01b815260208160448160008096816004840152600260248401525af19182156121325780926120fe57505090565b60018060a01b036000805160206122d88339815191525416604051639cd07acb60e01b815260208160448160008096816004840152600560248401525af19182156121325780926120fe5750509056feed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600ed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601a2646970667358221220c5de4001de59732b4b9d87a4c9f93d9348eaa22636be848fec466842dbac90cc64736f6c634300081800332f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d";
+  "0x6080346200020f5760808101906001600160401b039081831181841017620001fb576040928352606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac91828782015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0091825416179055620001863362000213565b50620001923362000283565b50815160a0810191821181831017620001fb579082526103e88152600a602082015260148183018190526060820152610384608091909101819052600180546001600160581b0319166a14140a00000000000003e817905560025551614c619081620003248239f35b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b6001600160a01b03165f8181525f8051602062004fa5833981519152602052604090205460ff166200027e575f8181525f8051602062004fa583398151915260205260408120805460ff191660011790553391905f8051602062004f858339815191528180a4600190565b505f90565b6001600160a01b03165f8181527ff11d5cd6172e4d486247e8873a157a5cbd86d37171bf6cd250fc0a75f26713f960205260409020547fef17b1f3c5a412f9c8e887e3abd186802afec7dc657fd3b7002bf87b128dd0b1919060ff166200031d57815f525f60205260405f20815f5260205260405f20600160ff1982541617905533915f8051602062004f858339815191525f80a4600190565b50505f9056fe6080806040526004361015610012575f80fd5b5f3560e01c90816301ffc9a714612ba9575080630aaa454814612b8c5780630d41d0b814612b575780630db7221614612b3c5780630f394cad14612a465780631176f03e14612b12578063117a5b9014612a615780631a6687ac14612a465780631b76929c146129595780631fdebc4414611887578063248a9ca31461292d5780632a46018c146129045780632e0be39a146128e75780632f2ff15d146128ab578063342ed956146127f957806336568abe146127b25780633a16d647146124b85780633ccd10e91461238b578063430730a314612351578063464011841461232257806347e1d550146121f357806357da8ed814611ee65780635d37192614611e965780636570450614611e5e57806379502c5514611e0e5780637b057258146118875780637bc7055414611d4c5780638781681b14611d1f5780638d94fefb14611c9b57806391d1485414611c535780639350ca8114611c195780639578bd6f14611bfc5780639670343914611bcb5780639dd88d3414611b9e578063a211f28f14611887578063a217fddf14611b84578063ab5669ad14611b69578063aca93f7d14611b40578063b1501f9c1461196e578063c0f809211461188c578063c3b67b1514611887578063cdc2f3fe146117b3578063d0399bb81461175b578063d547741f1461171f578063d610de77146116d9578063daa378b414611041578063dbab4ef914610fcd578063e02c0a8414610f98578063e19180aa146108ac578063e5beb1be146105e7578063edb3bb94146105cb578063f34cd54514610507578063f85a4b91146104dd578063f8f90fe0146102f1578063fc739690146102c25763ff6fcdbd14610284575f80fd5b346102be575f3660031901126102be5760206040517fef17b1f3c5a412f9c8e887e3abd186802afec7dc657fd3b7002bf87b128dd0b18152f35b5f80fd5b346102be5760403660031901126102be576102ef6102de612c17565b6102e6613892565b60243590613772565b005b346102be5760a03660031901126102be5761030a61390b565b6001600160401b03620f42408161031f61372c565b161180156104cb575b80156104b7575b80156104a5575b8015610491575b801561047f575b801561046b575b801561045f575b8015610451575b61043f578061036661372c565b166001549068ff000000000000000061037d613742565b60401b1669ff000000000000000000610394613752565b60481b169160ff60501b6103a6613762565b60501b16936affffffffffffffffffffff1916171717176001556084359081600255604051906004359081168091036102be57815260243560ff81168091036102be57602082015260ff6103f8612d8f565b1660408201526064359060ff82168092036102be577f0bd1a72534837e19339762e932b02af87f1e1c0ce8d67e27ae76c0d731632fbb9260a09260608301526080820152a1005b6040516306b7c75960e31b8152600490fd5b506201518060843511610359565b50603c60843510610352565b50606460ff610478613762565b161161034b565b5060ff61048a613762565b1615610344565b50603260ff61049e613752565b161161033d565b5060ff6104b0613752565b1615610336565b50606460ff6104c4613742565b161161032f565b5060ff6104d6613742565b1615610328565b346102be5760203660031901126102be576004355f52600a602052602060405f2054604051908152f35b346102be5760403660031901126102be57610520612c2d565b61014060405161052f81612c8e565b3690376004355f52602090600560205260405f209060018060a01b03165f5260205260405f20600d81015491610569600e60ff9301612fa5565b60ff60405194818116151586526001600160401b038160081c16602087015261ffff8160481c16604087015260581c16606085015260808401905f915b600a83106105b4576101c086f35b8380600192878551168152019201920191906105a6565b346102be575f3660031901126102be57602060405161012c8152f35b346102be5760603660031901126102be5760043560ff8116908181036102be5760243591610613612d8f565b9280926040519160a08301906001600160401b03948483108684111761089857608092604052600154958616855260ff8660401c16602086015260ff808760481c169687604088015260501c1694856060820152600254938491015215610890575b15610888575b5060ff85161561087e575b60ff16918211908115610871575b508015610867575b801561085b575b6108495760ff6020936106b7600354612dac565b93846003556040516106c881612c5f565b60018152428782015242604082015281606082015284608082015283831660a08201525f60c0820152600160e08201525f6101008201525f61012082015233610140820152855f526004875260405f20815181558782015160018201556040820151600282015560608201516003820155610140600560048301928760808601511684549061ff0060a088015160081b169161ffff1916171784556107868860c087015116859062ff000082549160101b169062ff00001916179055565b60e085015184546101008701516101208801516301000000600160c81b031990921692151560181b63ff00000016929092179115158d1b64ff00000000169190911760289190911b65010000000000600160c81b0316179093556001600160a01b039201920151166bffffffffffffffffffffffff60a01b82541617905560405193845285840152166040820152426060820152817f910c6b9488fe3da5bed4c3deff6c0d9073f2177a4e85c838c7b080266c864ab560803393a3604051908152f35b604051631849f84d60e21b8152600490fd5b506201518082116106a3565b50603c821061069c565b905060ff84161184610694565b9093508390610686565b93508561067b565b849250610675565b634e487b7160e01b5f52604160045260245ffd5b346102be5760e03660031901126102be576044356001600160401b0381116102be576108dc903690600401612d62565b6084356001600160401b0381116102be576108fb903690600401612d62565b60c4929192356001600160401b0381116102be5761091d903690600401612d62565b600492919235158015610f8b575b610f79576004355f52600460205260405f2095600487015460ff8160181c1615610f445760ff8082169160101c161015610f67576004355f52600560205260405f20335f5260205260ff600f60405f20015460081c16610f55576003875411610f4457335f52600860205260405f20548015159081610f1f575b81610f01575b50610eef5784159485610ee6575b85610edd575b8515610d46575050505050610a3491505f9060ff5f61ffff5f5b6001600160401b036040516109ed81612c8e565b61014036823760405196610a0088612c8e565b6101403689378015610d3f578260015416915b8115610d38576064945b8215610d31576064975b8d549b6040519d8e612c43565b8d5260208d015260408c015260608b0152151560808a01521660a08801521660c08601521660e08401526101008301526001610120830152600161014083015261016082015242610180820152426101a082015260026101c08201526004355f52600560205260405f20335f5260205260405f2081518155602082015160018201556040820151600282015560608201515f5b600a8110610d1a575050610b60600d8201610af460808501511515829060ff801983541691151516179055565b60a0840151815468ffffffffffffffff00191660089190911b68ffffffffffffffff001617815560c0840151815460e08601516bffffff0000000000000000001990911660489290921b6affff000000000000000000169190911760589190911b60ff60581b16179055565b6101008201515f905f5b600a8110610cec5750506013826101c092600e60ff950155600f8101610ba36101208701511515829060ff801983541691151516179055565b610140860151151561ff0082549160081b169061ff001916179055610160850151601082015561018085015160118201556101a08501516012820155019201511660ff198254161790556004355f52600660205260405f208054600160401b81101561089857610c1c816001610c3a9301845583612d4d565b81546001600160a01b0360039290921b91821b19163390911b179055565b545f198101908111610cd8576004355f52600760205260405f20335f5260205260405f205560ff600482015460101c1660ff8114610cd8576001610c959101600483019062ff000082549160101b169062ff00001916179055565b335f52600860205260043560405f20555460405190815233907f03dfbe1fcb4e2d61f3b4a0c93d8f814c92250618b3387f396cc9fc9fafe2c203602060043592a3005b634e487b7160e01b5f52601160045260245ffd5b90916020610d116001928460ff875116919060ff809160031b9316831b921b19161790565b93019101610b6a565b600190602083519301926003828601015501610ac7565b5f97610a27565b5f94610a1d565b5f91610a13565b95610d65610d5d610d6d935f969897993691612ce2565b6024356146b2565b953691612ce2565b5f80516020614c0c8339815191525460405163196d0b9b60e01b8152606435600482015233602482015260806044820152936001600160a01b03926020928692908516918391908290610dc4906084830190613bfe565b6003606483015203925af1928315610e9e575f93610ea9575b505f80516020614bec833981519152541691823b156102be57604051630f8e573b60e21b815260048101829052336024820152925f908490604490829084905af1908115610e9e57610e80610e50610e48610a349960ff9761ffff96610e8f575b5084963691612ce2565b60a43561479a565b91610e5b3089614648565b610e653082614648565b610e6f3084614648565b610e793389614648565b3390614648565b610e8a3382614648565b6109d9565b610e9890612c7b565b8c610e3e565b6040513d5f823e3d90fd5b9092506020813d602011610ed5575b81610ec560209383612caa565b810103126102be57519187610ddd565b3d9150610eb8565b821595506109bf565b831595506109b9565b604051631ccfc4cd60e21b8152600490fd5b90505f52600460205260ff600460405f20015460201c1615886109ab565b8091505f52600560205260405f20335f5260205260ff600f60405f20015416906109a5565b60405162a3097160e01b8152600490fd5b6040516314c4fea760e31b8152600490fd5b60405163b3ed896d60e01b8152600490fd5b6040516309b3c62760e21b8152600490fd5b506003546004351161092b565b346102be5760803660031901126102be576102ef610fb4612c17565b610fbc613892565b6064359060443590602435906136ad565b346102be5760403660031901126102be57610fe6612c2d565b6004355f52600960205260405f209060018060a01b03165f52602052608060405f208054906001600160401b036001820154169060ff6003600283015492015416916040519384526020840152604083015215156060820152f35b346102be5760c03660031901126102be5761105a612c17565b611062612d8f565b6001600160401b0360843516608435036102be5760a435151560a435036102be5761108b613892565b6024355f52600960205260405f2060018060a01b0383165f5260205260405f20604051908160808101106001600160401b03608084011117610898576080820160409081528154835260018201546001600160401b031660208401526002820154908301526003015460ff1615801560608301526116a9576040818101515f908152600560209081528282206001600160a01b03871683529052205b6060820151158061169a575b6116885760ff831615801561167b575b6113285760ff8381165f190111610cd8576024355f52600960205260405f2060018060a01b0385165f5260205261118e60405f2060035f918281558260018201558260028201550155565b600d81019160ff8354165f1461133a5760a43515611328576060810151156112ee576001600160401b03608435166001600160401b03602083015116106112dc5761123b926112066111f3611229936001600160401b0360206084359201511661301f565b6001600160401b03835460081c16613679565b68ffffffffffffffff0082549160081b169068ffffffffffffffff001916179055565b60ff8381165f19011690600e01613694565b8154600160ff828460031b1c16019160ff8311610cd85760ff60039190911b81811b199092169216901b1790555b60ff6040519142835216907feb0530385e34165a2d107c4352b7632c835459a7920553449f3dde4e3a64447e602060018060a01b03851692a36040514281526001600160a01b03909116907fefb247adb67a1f4a637d338494f973d6878e3b545bcbfb20f6483097d91ca7fc90602090a2005b604051633249a22160e21b8152600490fd5b506001600160401b03825460081c166001600160401b036084351681106112dc5761123b92611206611323926084359061301f565b611229565b60405163b4fa3fb360e01b8152600490fd5b90915060a43515611672576113596001600160401b0360843516614333565b905b60608101511561164657611370828251613db1565b81518015611632575b5f80516020614c0c833981519152546040516385362ee760e01b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af1908115610e9e575f91611600575b508082156115f0575b156115de575b602090606460018060a01b035f80516020614c0c8339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115610e9e575f916115ac575b505f9261145382611459939461144b8854948251613de3565b90519161454e565b90613e0c565b83555b600383019061147360ff841981881601168361366a565b90549060031b1c90602060018060a01b035f80516020614c0c8339815191525416604460405180978193639cd07acb60e01b835260016004840152600260248401525af18015610e9e5787945f9161156b575b50611566956114f061155a95946114ea6115299589956114e4614454565b9161454e565b90613e65565b61150260ff8a81165f1901168661366a565b819291549060031b91821b915f19901b191617905561152381543090614648565b54614648565b61154b61153e60ff8781165f1901168361366a565b3091549060031b1c614648565b60ff8581165f1901169061366a565b90549060031b1c614648565b611269565b9594505091906020853d6020116115a4575b8161158a60209383612caa565b810103126102be57935192938693919290916115666114c6565b3d915061157d565b90506020813d6020116115d6575b816115c760209383612caa565b810103126102be57515f611432565b3d91506115ba565b5060206115e9614408565b90506113e2565b91506115fa614408565b916113dc565b90506020813d60201161162a575b8161161b60209383612caa565b810103126102be5751876113d3565b3d915061160e565b505f602061163e6143b5565b915050611379565b508061166b61166261165a5f948654613db1565b928554613de3565b8454908361454e565b835561145c565b6064359061135b565b50600a60ff841611611143565b6040516396ba997560e01b8152600490fd5b5060ff600f8201541615611133565b6001600160a01b0383165f8181526008602090815260408083205483526005825280832093835292905220611127565b346102be575f3660031901126102be57335f52600860205260405f20545f52600560205260405f20335f5260205260ff600f60405f2001541615611688576102ef61341b565b346102be5760403660031901126102be576102ef60043561173e612c2d565b90805f525f602052611756600160405f200154613966565b613b59565b346102be5760203660031901126102be5760043561177761390b565b801580156117a8575b610f7957805f52600460205260ff600460405f20015460181c1615610f44576102ef906137fe565b506003548111611780565b346102be5760403660031901126102be576024356001600160401b0381116102be576117e3903690600401612d62565b335f5260206008815260405f20545f526005815260405f20335f52815260ff600f60405f200154161561168857335f526008815260405f20545f526004815260ff600460405f20015460181c1615610f4457335f526008815260405f20545f526005815260405f2090335f5252601160405f200154600a8101809111610cd8574210611875576102ef91600435613347565b6040516321b026c560e21b8152600490fd5b612bfc565b346102be5760403660031901126102be576118a5612c2d565b6004355f52600560205260405f209060018060a01b03165f526020526101a060405f208054906001810154906002810154600d82015460ff600f8401548160108601549360118701549582601360128a015499015416986040519a8b5260208b015260408a0152818116151560608a01526001600160401b038160081c1660808a015261ffff8160481c1660a08a015260581c1660c0880152818116151560e088015260081c161515610100860152610120850152610140840152610160830152610180820152f35b346102be575f3660031901126102be57335f5260206008815260405f20545f526005815260405f20335f52815260ff600f60405f200154161561168857335f526008815260405f2054805f526005825260405f20335f528252600f60405f200160ff198154169055805f526006825260405f206007835260405f20335f52835260405f2054908054905f1992838301928311610cd857611a11611a4d9383612d4d565b90546001600160a01b0394919085611a298587612d4d565b92909360031b1c169060018060a01b038084549260031b9316831b921b1916179055565b845f526007865260405f2083611a638385612d4d565b90549060031b1c165f52865260405f205580548015611b2c57830191611a898383612d4d565b909182549160031b1b1916905555815f526007835260405f20335f5283525f6040812055815f5260048352600460405f200160ff815460101c16918215610cd857611ae6920162ff000082549160101b169062ff00001916179055565b335f52600882525f6040812055805f52600482527f5ecc3f158b8882fa32fb8339b56f501d55fe2cd744a3f9bb628c03d67966062660405f2054926040519384523393a3005b634e487b7160e01b5f52603160045260245ffd5b346102be5760203660031901126102be576102ef611b5c612c17565b611b6461383c565b613a38565b346102be575f3660031901126102be576020604051603c8152f35b346102be575f3660031901126102be5760206040515f8152f35b346102be5760203660031901126102be576020611bc1611bbc612c17565b6132a5565b6040519015158152f35b346102be5760603660031901126102be576102ef611be7612c17565b611bef613892565b6044359060243590613205565b346102be575f3660031901126102be576020604051620f42408152f35b346102be575f3660031901126102be5760206040517fda146bdcee179bf91932b72d5f48336fa2738b1ecb32dd1e4f46611406df38908152f35b346102be5760403660031901126102be57611c6c612c2d565b6004355f525f60205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b346102be5760403660031901126102be57611cb4612c2d565b60405190611cc182612c8e565b61014080923690376004355f52602090600560205260405f209060018060a01b03165f52602052611cf7600360405f2001612f73565b604051915f835b600a8210611d0a578585f35b82806001928651815201940191019092611cfe565b346102be5760403660031901126102be576102ef611d3b612c17565b611d43613892565b60243590613cae565b346102be5760403660031901126102be576024356001600160401b0381116102be57611d7c903690600401612d62565b335f5260206008815260405f20545f526005815260405f20335f52815260ff600f60405f200154161561168857335f526008815260405f20545f526004815260ff600460405f20015460181c1615610f4457335f526008815260405f20545f526005815260405f2090335f5252601160405f200154600a8101809111610cd8574210611875576102ef91600435613038565b346102be575f3660031901126102be5760a060015460025460ff604051926001600160401b0381168452818160401c166020850152818160481c16604085015260501c1660608301526080820152f35b346102be5760203660031901126102be576001600160a01b03611e7f612c17565b165f526008602052602060405f2054604051908152f35b346102be5760403660031901126102be576024356004355f52600660205260405f2080548210156102be57602091611ecd91612d4d565b905460405160039290921b1c6001600160a01b03168152f35b346102be5760a03660031901126102be57611eff612c17565b6001600160401b0360643516606435036102be5760843515908115608435036102be57611f2a613892565b6001600160a01b0381165f81815260086020908152604080832054835260058252808320938352929052908120600f81015491929160ff1615611688576024355f52600960205260405f2060018060a01b0383165f5260205260405f209360ff600d8301541680156121ea575b156121ae57611fa860243584613cae565b6001600160a01b0383165f908152600860205260409020546002860155600d82015460ff16156120a557611328576001600160401b03600d82015460081c16936001600160401b036064351685106112dc57612037600392600d6120116020986064359061301f565b91019068ffffffffffffffff0082549160081b169068ffffffffffffffff001916179055565b60018101805467ffffffffffffffff19166064356001600160401b03161790555b01805460ff19166001179055604051428152602435916001600160a01b0316907f5c14b2b421fc53f4e722a3a62f66a56eb8f629b681f71a7a557bc141201dd727908590a3604051908152f35b5091506084351561219f57612106816120df6120cb6001600160401b0360643516614333565b6120d6818754613db1565b906114e46143b5565b936120eb858254613de3565b81556120f8858754613e0c565b865561152381543090614648565b612111308454614648565b61211c818454614648565b6121263083614648565b6121308183614648565b5f80516020614bec833981519152546001600160a01b031692833b156102be57604051630f8e573b60e21b815260048101849052336024820152935f908590604490829084905af1908115610e9e57602094600392612190575b50612058565b61219990612c7b565b8561218a565b612106816120df6044356120cb565b60ff600386015416806121d3575b15611fa857604051631ccfc4cd60e21b8152600490fd5b506002850154600860205260405f205414156121bc565b50608435611f97565b346102be5760203660031901126102be5760043580158015612317575b610f79575f52600460205261016060405f2061014060405161223181612c5f565b825492838252600181015480602084015260ff60028301548060408601526003840154948560608201526004850154918383166080830152838360081c1660a0830152838360101c1660c0830152838360181c16151560e083015261010094848460201c1615158684015260018060a01b039283600561012099828860281c168b850152015416998a910152604051998a5260208a01526040890152828260101c166060890152828260181c1615156080890152828260201c16151560a08901528160281c1660c088015281811660e088015260081c1690850152830152610140820152f35b506003548111612210565b346102be5760203660031901126102be576004355f52600b602052602060ff60405f2054166040519015158152f35b346102be575f3660031901126102be5760206040517fc5e2d1653feba496cf5ce3a744b90ea18acf0df3d036aba9b2f85992a14679068152f35b346102be5760403660031901126102be576123a4612c2d565b6004355f52600560205260405f209060018060a01b03165f5260205260a060405f20604051906123d382612c43565b8054825260018101546020830152600281015460408301526123f760038201612f73565b606083015260ff600d820154818116151560808501526001600160401b038160081c168585015261ffff8160481c1660c085015260581c1660e0830152612440600e8201612fa5565b6101008301526101c0600f8201549260ff8085161515948561012084015260081c161515806101408301526010840154918261016082015260ff60136011870154968761018085015260128101546101a085015201541693849101526040519485526020850152604084015260608301526080820152f35b346102be576003196060368201126102be57600435906124d6612c2d565b906044926044356001600160401b03928382116102be57366023830112156102be5781600401359160249061250a84612ccb565b916125186040519384612caa565b848352602098898401906024829760051b850101933685116102be5760248101925b85841061277c57505050505050835f52600c875260405f205494855f52600b885260ff60405f20541615801561276a575b61275857604080516001600160a01b0389168a820152606081830181905291815295908601918211868310176108985781604052805f527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0291828a5260405f2054156127495750908894929593915f52845260405f209460405193848688549182815201975f52865f20905f5b818110612732575050506126469061261586612636990387612caa565b604051632c027b1360e21b8152606060048201529788966064880190613bcb565b9084878303016024880152613bfe565b918483030160448501525180825284820191858260051b82010193925f915b838310612704575050505050819003815f731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac5af1908115610e9e575f916126ce575b50156126bc57600b6102ef93825f525260405f2060ff198154169055613c3c565b60405163cf6c44e960e01b8152600490fd5b90508381813d83116126fd575b6126e58183612caa565b810103126102be575180151581036102be578461269b565b503d6126db565b92955092958061272160019396601f198682030187528951613bfe565b970193019301899593879592612665565b82548a5297909801978b97600192830192016125f8565b63d66ca67560e01b8152600490fd5b604051633fa3d59f60e11b8152600490fd5b50600a885260405f205485141561256b565b83358b81116102be578201366043820112156102be578d916127a783923690878a8201359101612ce2565b81520193019261253a565b346102be5760403660031901126102be576127cb612c2d565b336001600160a01b038216036127e7576102ef90600435613b59565b60405163334bd91960e11b8152600490fd5b346102be576020806003193601126102be576004355f526006815260405f20604051908183825491828152019081925f52845f20905f5b8682821061288e57868661284682880383612caa565b60405192839281840190828552518091526040840192915f5b82811061286e57505050500390f35b83516001600160a01b03168552869550938101939281019260010161285f565b83546001600160a01b031685529093019260019283019201612830565b346102be5760403660031901126102be576102ef6004356128ca612c2d565b90805f525f6020526128e2600160405f200154613966565b613ae3565b346102be575f3660031901126102be576020600354604051908152f35b346102be5760203660031901126102be576102ef612920612c17565b61292861383c565b613987565b346102be5760203660031901126102be576004355f525f6020526020600160405f200154604051908152f35b346102be575f3660031901126102be5760035461297581612f2d565b905f9060015b818111156129fc57505061298e81612f2d565b915f5b8281106129dd5783604051809160208083016020845282518091526020604085019301915f5b8281106129c657505050500390f35b8351855286955093810193928101926001016129b7565b806129ea60019284612f5f565b516129f58287612f5f565b5201612991565b805f52600460205260ff600460405f20015460181c16612a25575b612a2090612dac565b61297b565b91612a3e8184612a38612a209488612f5f565b52612dac565b929050612a17565b346102be575f3660031901126102be57602060405160328152f35b346102be5760203660031901126102be576004355f52600460205261016060405f208054906005600182015491600281015460038201549060048301549260018060a01b039485910154169460405196875260208701526040860152606085015260ff8116608085015260ff8160081c1660a085015260ff8160101c1660c085015260ff8160181c16151560e085015260ff8160201c16151561010085015260281c16610120830152610140820152f35b346102be5760203660031901126102be576004355f52600c602052602060405f2054604051908152f35b346102be575f3660031901126102be576020604051600a8152f35b346102be5760203660031901126102be5760043580158015612b81575b610f79576102ef90612dba565b506003548111612b74565b346102be575f3660031901126102be576020604051620151808152f35b346102be5760203660031901126102be576004359063ffffffff60e01b82168092036102be57602091637965db0b60e01b8114908115612beb575b5015158152f35b6301ffc9a760e01b14905083612be4565b346102be575f3660031901126102be57602060405160648152f35b600435906001600160a01b03821682036102be57565b602435906001600160a01b03821682036102be57565b6101e081019081106001600160401b0382111761089857604052565b61016081019081106001600160401b0382111761089857604052565b6001600160401b03811161089857604052565b61014081019081106001600160401b0382111761089857604052565b90601f801991011681019081106001600160401b0382111761089857604052565b6001600160401b0381116108985760051b60200190565b9291926001600160401b0382116108985760405191612d0b601f8201601f191660200184612caa565b8294818452818301116102be578281602093845f960137010152565b805415612d39575f5260205f20905f90565b634e487b7160e01b5f52603260045260245ffd5b8054821015612d39575f5260205f2001905f90565b9181601f840112156102be578235916001600160401b0383116102be57602083818601950101116102be57565b6044359060ff821682036102be57565b91908201809211610cd857565b5f198114610cd85760010190565b805f52602060046020526040805f209260048401549260ff9360ff8160181c1615612f1d5760028601805491612df760039360038a015490612d9f565b4210612f0c5760ff88549160081c161115612efa57612e168754612dac565b8755429055825f526006602052835f20965f5b8854811015612ec25780612e3f6001928b612d4d565b838060a01b03915490861b1c16865f5260058652875f20905f528552865f2088600f82015416612e71575b5001612e29565b88600d82018054828116612e8f575b5050506012429101555f612e6a565b612eba92612ea09160581c16613e3b565b815460ff60581b191660589190911b60ff60581b16179055565b885f80612e80565b5096505050927fcf7c34879b635eb3aa5f5f79674cd09fbe52b3c7025ff72c051e36482c70fdd29250548151908152426020820152a2565b505050915050612f0a91506137fe565b565b85516321b026c560e21b8152600490fd5b835162a3097160e01b8152600490fd5b90612f3782612ccb565b612f446040519182612caa565b8281528092612f55601f1991612ccb565b0190602036910137565b8051821015612d395760209160051b010190565b60405191905f835b600a8210612f8f57505050612f0a82612c8e565b6001602081928554815201930191019091612f7b565b90604051915460ff908181168452818160081c166020850152818160101c166040850152818160181c166060850152818160201c166080850152818160281c1660a0850152818160301c1660c0850152818160381c1660e0850152818160401c1661010085015260481c16610120830152612f0a82612c8e565b6001600160401b039182169082160391908211610cd857565b919091335f526008602052604092835f20545f526005602052835f20335f52602052835f2092600d8401805460ff81166131635750506130f293926130856130ea9361308b933691612ce2565b9061479a565b916130963084614648565b6130d960028201936130d1855482811561314e575b6130bc908415928361313e576144fa565b9287549091811561312e575b61311e576145a0565b85549161454e565b908184556011429101553090614648565b339054614648565b514281527fefb247adb67a1f4a637d338494f973d6878e3b545bcbfb20f6483097d91ca7fc60203392a2565b9050613128614454565b906145a0565b9050613138614454565b906130c8565b9050613148614454565b906144fa565b90506130bc61315b614454565b9190506130ab565b92509290158015906131fb575b6131ea5760ff8091169160581c168181106131d9570360ff8111610cd857815460ff60581b191660589190911b60ff60581b161790555b601142910155514281527fefb247adb67a1f4a637d338494f973d6878e3b545bcbfb20f6483097d91ca7fc60203392a2565b8451633249a22160e21b8152600490fd5b845163b4fa3fb360e01b8152600490fd5b5060ff8111613170565b905f52600960205260405f2060018060a01b03821690815f5260205260405f209060ff6003830154161561329f5760028201545f52600560205260405f20905f5260205260405f2060ff600d82015416611328578261329491613286613272612f0a9786546114e46143b5565b61327d818454613e0c565b83558554613de3565b845561152381543090614648565b611523308254614648565b50505050565b6001600160a01b03165f8181526008602090815260408083205483526005825280832093835292905220600f81015460ff161561334257600860205260405f20545f52600460205260ff600460405f20015460181c1615613342576011810154600a8101809111610cd857421061334257600d015460ff81169081613333575b5061332f57600190565b5f90565b60ff915060581c16155f613325565b505f90565b919091335f526008602052604092835f20545f526005602052835f20335f52602052835f2092600d8401805460ff81166133d557505061339d6130f294936133976130ea946133c5943691612ce2565b906146b2565b6133a73082614648565b6133bd6133b5828654613db1565b918554613de3565b84549161454e565b8083554260118401553090614648565b925092901580159061340b575b6131ea576001600160401b038091169160081c168181106131d9576131a792916112069161301f565b506001600160401b0381116133e2565b335f526020600881526040805f20545f5260058252805f20335f528252805f20906012820191825461012c8101809111610cd857421061365957600d8101805460ff811661361557505060018060a01b035f80516020614c0c83398151915291818354169284519287846044815f639cd07acb60e01b998a835260646004840152600260248401525af193841561360b57908892915f956135d8575b5060449060ff600154891c16925416955f8851978894859384526004840152600260248401525af19283156135ce575f9361357d575b507f3d843963154473d660c05ed5bb01735f826c39a862969e5214854810fa6b2a1c94613547613555949361352a60026130ea9501958654613e65565b906135428183841561356f575b831561355f5761484f565b61454e565b908184554290553090614648565b51914283523392a2565b9050613569614454565b9061484f565b50613578614454565b613537565b9250908583813d83116135c7575b6135958183612caa565b810103126102be57915191907f3d843963154473d660c05ed5bb01735f826c39a862969e5214854810fa6b2a1c6134ed565b503d61358b565b84513d5f823e3d90fd5b8381949296503d8311613604575b6135f08183612caa565b810103126102be57604488925194906134b7565b503d6135e6565b86513d5f823e3d90fd5b7f3d843963154473d660c05ed5bb01735f826c39a862969e5214854810fa6b2a1c94925090612ea060ff61364c9360581c16613e3b565b42905551914283523392a2565b81516321b026c560e21b8152600490fd5b600a821015612d395701905f90565b9190916001600160401b0380809416911601918211610cd857565b919091600a831015612d3957601f908360051c01921690565b91905f52600960205260405f209060018060a01b03831691825f5260205260405f209160ff600384015416156137255760028301545f52600560205260405f20905f5260205260405f209360ff600d8601541661132857612f0a9461328661327284879461371f613294978954613de3565b9061454e565b5050505050565b6004356001600160401b03811681036102be5790565b60243560ff811681036102be5790565b60443560ff811681036102be5790565b60643560ff811681036102be5790565b815f52600960205260405f209060018060a01b031690815f5260205260ff600360405f20015416156137fa57815f52600960205260405f20815f526020526137ce60405f2060035f918281558260018201558260028201550155565b7fbfd745f5f700f2c1e4e48566be2ff7fd2bc7d45e4b0399dde08e5ed422af8bf06020604051428152a3565b5050565b805f526004602052600460405f20019081549160ff8360181c161561383757640100000000612f0a9364ffff0000001916179055613e8e565b505050565b335f9081527fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5602052604090205460ff161561387457565b60405163e2517d3f60e01b81523360048201525f6024820152604490fd5b335f9081527ff2d19feb5547524783b7bad00410790cff4bde378a563f400aa879f0e01b51f360205260409020547fc5e2d1653feba496cf5ce3a744b90ea18acf0df3d036aba9b2f85992a14679069060ff16156138ed5750565b6044906040519063e2517d3f60e01b82523360048301526024820152fd5b335f9081527ff11d5cd6172e4d486247e8873a157a5cbd86d37171bf6cd250fc0a75f26713f960205260409020547fef17b1f3c5a412f9c8e887e3abd186802afec7dc657fd3b7002bf87b128dd0b19060ff16156138ed5750565b805f525f60205260405f20335f5260205260ff60405f205416156138ed5750565b6001600160a01b03165f8181527ff2d19feb5547524783b7bad00410790cff4bde378a563f400aa879f0e01b51f360205260409020547fc5e2d1653feba496cf5ce3a744b90ea18acf0df3d036aba9b2f85992a1467906919060ff16613a3257815f525f60205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4600190565b50505f90565b6001600160a01b03165f8181527fea37d550ab04417997b54050d52d06af9b279582f0a9cb4831541e394d556d9060205260409020547fda146bdcee179bf91932b72d5f48336fa2738b1ecb32dd1e4f46611406df3890919060ff16613a3257815f525f60205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4600190565b90815f525f60205260405f209060018060a01b031690815f5260205260ff60405f205416155f14613a3257815f525f60205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4600190565b90815f525f60205260405f209060018060a01b031690815f5260205260ff60405f2054165f14613a3257815f525f60205260405f20815f5260205260405f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4600190565b9081518082526020808093019301915f5b828110613bea575050505090565b835185529381019392810192600101613bdc565b91908251928382525f5b848110613c28575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201613c08565b5f81815260046020819052604090912001805465010000000000600160c81b031916602884901b65010000000000600160c81b03161790556040514281526001600160a01b03909216917ff1898de79c348962fab7695532341027e5bceb0ea2a8785790fa7d7efeeee12990602090a3565b5f8281526009602090815260408083206001600160a01b03851680855290835292819020600381015493949360ff1615613da9577fe393090be3b2bc0a4139c4c1bd1123f2750cfbfe209522ca56a5a41ee5c5140b9360028201545f5260058452825f20865f528452825f2090600d82019160ff8354165f14613d835750506112066001613d50936001600160401b0391829101541690835460081c16613679565b845f5260098252805f20845f528252613d7c815f2060035f918281558260018201558260028201550155565b51428152a3565b909150611523613d9a613da4948354905490613e0c565b8083553090614648565b613d50565b505050505050565b90613dc8918015613dd5575b8115613dcb576144fa565b90565b90506131486143b5565b50613dde6143b5565b613dbd565b90613dc8918015613dfe575b816145a05790506131286143b5565b50613e076143b5565b613def565b90613dc8918015613e2d575b816145f4579050613e276143b5565b906145f4565b50613e366143b5565b613e18565b613e509060ff8060015460401c169116612d9f565b6064811115613e5f5750606490565b60ff1690565b90613dc8918015613e80575b816145f4579050613e27614454565b50613e89614454565b613e71565b5f90805f52602090600682526040805f20928354156142e757613eb0836148a3565b61422957825f526005808252825f20613ec886612d27565b909160018060a01b0380935460039360031b1c165f528452613eeb855f2061499e565b96613f0683613ef983612d27565b90549060031b1c166144a7565b9960019a5b82548c1015613f9157613f7160019186613f258f87612d4d565b905490881b1c169b8b5f52888a528a5f208d5f528a5261371f613f6b613f4c8d5f2061499e565b92613f6481858615613f83575b8315613f795761484f565b938461454e565b9d6144a7565b9b019a613f0b565b90506135696143b5565b50613f8c6143b5565b613f59565b94509950505095919394508251838101906001600160401b039181811083821117610898578552600181528581019286368537815115612d395783527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0192835498805f80516020614bec8339815191525416803b156102be575f88518092637d6e912360e11b82528b600483015281838161402f602482018b613bcb565b03925af1801561421f5761420c575b507f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d005416803b15614208578587518092633263b83b60e01b82528c600483015260606024830152818381614095606482018a613bcb565b633a16d64760e01b604483015203925af180156141fe579086916141e6575b508990527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d02808852868620546141d557898652875285852091519283116141c157600160401b83116141c157815483835580841061419c575b509087939695949291908352858320835b83811061418757505050508290856141577f34c5b700d20129e31e19f551c5a659d65a91e0c6fd2c15fbaf41ef3fa86427669754612dac565b9055828152600a85528782822055600b8552818120600160ff19825416179055878152600c8552205551428152a3565b8251818301558995509187019160010161411e565b8286528388872091820191015b8181106141b6575061410d565b5f81556001016141a9565b634e487b7160e01b85526041600452602485fd5b8651633f06d22b60e01b8152600490fd5b6141ef90612c7b565b6141fa57845f6140b4565b8480fd5b87513d88823e3d90fd5b8580fd5b614217919650612c7b565b5f945f61403e565b88513d5f823e3d90fd5b9294935061423685612d27565b939060018060a01b0380915460039660031b1c1694845f5260059760058452845f20875f528452614268855f20614915565b906001956001958254965b87811061428e57505050505050505050612f0a929350613c3c565b895f528c8252825f20876142a28387612d4d565b905490891b1c165f5282526142b8835f20614915565b8581116142c8575b508801614273565b909a50935087866142d98c86612d4d565b905490881b1c169a906142c0565b905f94507ff1898de79c348962fab7695532341027e5bceb0ea2a8785790fa7d7efeeee1299293506004825260048186200165010000000000600160c81b0319815416905551428152a3565b5f80516020614c0c83398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610e9e575f91614386575090565b90506020813d6020116143ad575b816143a160209383612caa565b810103126102be575190565b3d9150614394565b5f80516020614c0c83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610e9e575f91614386575090565b5f602060018060a01b035f80516020614c0c8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610e9e575f91614386575090565b5f80516020614c0c83398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115610e9e575f91614386575090565b5f80516020614c0c83398151915254604051639cd07acb60e01b8152600481019290925260076024830152602090829060449082905f906001600160a01b03165af1908115610e9e575f91614386575090565b90602090606460018060a01b035f80516020614c0c8339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610e9e575f91614386575090565b9060646020925f60018060a01b035f80516020614c0c83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610e9e575f91614386575090565b90602090606460018060a01b035f80516020614c0c8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610e9e575f91614386575090565b90602090606460018060a01b035f80516020614c0c8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610e9e575f91614386575090565b5f80516020614bec833981519152546001600160a01b031691823b156102be57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af18015610e9e576146a95750565b612f0a90612c7b565b5f80516020614c0c8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f90829061470a906084830190613bfe565b6005606483015203925af1908115610e9e575f91614768575b5080925f80516020614bec8339815191525416803b156102be57604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101614698565b90506020813d602011614792575b8161478360209383612caa565b810103126102be57515f614723565b3d9150614776565b5f80516020614c0c8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f9082906147f2906084830190613bfe565b6002606483015203925af1908115610e9e575f91614768575080925f80516020614bec8339815191525416803b156102be57604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101614698565b90602090606460018060a01b035f80516020614c0c8339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115610e9e575f91614386575090565b805f526020600660205260409160405f20925f938054945b8581106148cd57505050505050600190565b835f5260058552825f206148e18284612d4d565b60018060a01b0391549060031b1c165f52855260ff600d845f200154161561490b576001016148bb565b5050505050505f90565b5f905f5b600a81106149735750600d015461ffff8160481c16600a810290808204600a1490151715610cd8576001600160401b036149569260081c16612d9f565b90603281029080820460321490151715610cd857613dc891612d9f565b9161499760019160ff61498986600e8701613694565b90549060031b1c1690612d9f565b9201614919565b9060ff600d83015416614b7d575f82546149bb6001850154614b98565b8015614b6b575b5f80516020614c0c83398151915254604051630afe14ad60e31b81526004810192909252600a6024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af1908115610e9e575f91614b35575b614a279250613e0c565b915f925b600a841015614b3057614a41846003840161366a565b90549060031b1c15614b2757614a69614a5d856003850161366a565b90549060031b1c614b98565b8015614b13575b5f80516020614c0c83398151915254604051630afe14ad60e31b8152600481019290925260326024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610e9e575f91614ae0575b50614ad790600192613e0c565b935b0192614a2b565b90506020813d602011614b0b575b81614afb60209383612caa565b810103126102be57516001614aca565b3d9150614aee565b505f6020614b1f6143b5565b915050614a70565b92600190614ad9565b925050565b90506020823d602011614b63575b81614b5060209383612caa565b810103126102be57614a27915190614a1d565b3d9150614b43565b506020614b766143b5565b90506149c2565b906001600160401b03614b92613dc892614915565b16614333565b5f80516020614c0c833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610e9e575f9161438657509056feed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600ed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601a26469706673582212202027ff73a550854103ff9b308964585b788c4127e1892c4b6034b173ddda979464736f6c634300081800332f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0dad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5";
 
 type ShadowMerchantsConstructorParams =
   | [signer?: Signer]
@@ -1,6 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as inputVerificationMockSol from "./InputVerificationMock.sol";
 export * as marketAuctionSol from "./MarketAuction.sol";
-export { InputVerificationMock__factory } from "./InputVerificationMock__factory";
+export * as mocks from "./mocks";
+export { FHEVMConfig__factory } from "./FHEVMConfig__factory";
 export { ShadowMerchants__factory } from "./ShadowMerchants__factory";
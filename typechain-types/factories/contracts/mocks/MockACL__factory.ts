@@ -0,0 +1,247 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockACL,
+  MockACLInterface,
+} from "../../../contracts/mocks/MockACL";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "SenderNotAllowed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "caller",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+    ],
+    name: "Allowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "caller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+    ],
+    name: "AllowedForDecryption",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "allow",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+    ],
+    name: "allowForDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "allowTransient",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cleanTransientStorage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isAllowed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+    ],
+    name: "isAllowedForDecryption",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "persistAllowed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234610016576104cb908161001b8239f35b5f80fdfe608060409080825260049081361015610016575f80fd5b5f3560e01c9081631e2f86ba146103a35750806335334c23146103915780633e395cec146102ec57806382027b6d146102c8578063b9496b6214610231578063c0d02943146102045763fadd22461461006d575f80fd5b346101da57602091826003193601126101da5781359167ffffffffffffffff908184116101da57366023850112156101da5783810135938285116101f1578460051b94845193601f19603f880116850190858210908211176101de578552835285830194810160240190853683116101da576024889201905b8382106101cb57505050505f5b825181101561016f576101103361010a838661046d565b51610400565b1561013c57806101226001928561046d565b515f5260028752845f208260ff19825416179055016100f3565b61016b61014a85928561046d565b519151636e2f3d3360e11b8152928301918252336020830152829160400190565b0390fd5b505083908251928284019183855251809252830193915f5b8281106101b757337fd913ac93a959116526793ef772233273d5249597d33cddfdc34f29920541fd0a86880387a2005b835186529481019492810192600101610187565b813581529082019082016100e6565b5f80fd5b604184634e487b7160e01b5f525260245ffd5b604182634e487b7160e01b5f525260245ffd5b5090346101da5760203660031901126101da57602091355f526002825260ff815f20541690519015158152f35b50346101da57610240366103da565b92909161024d3384610400565b156102a75750815f525f602052805f209260018060a01b031692835f52602052805f20600160ff19825416179055519081527fe2e1decee6e05ee246cd7c7f1337d25cdfd41dcbdcf8c57b61630be56cc7366a60203392a3005b8151636e2f3d3360e11b815290810183815233602082015281906040010390fd5b82346101da576020906102e36102dd366103da565b90610400565b90519015158152f35b5090346101da576102fc366103da565b9073848b0066793bcc60346da1f49049357399b8d59533141580610380575b61035e57600143019384431161034b57505f526001602052815f209060018060a01b03165f526020525f20555f80f35b601190634e487b7160e01b5f525260245ffd5b9151636e2f3d3360e11b81529283019182525033602082015281906040010390fd5b5061038b3382610400565b1561031b565b346101da575f3660031901126101da57005b8390346101da5760ff6020926103b8366103da565b5f9182528186528282206001600160a01b039091168252855220541615158152f35b60409060031901126101da57600435906024356001600160a01b03811681036101da5790565b90815f525f60205260405f209060018060a01b031690815f5260205260ff60405f20541691821561043057505090565b9091505f52600160205260405f20905f5260205260405f20546001430190814311610459571490565b634e487b7160e01b5f52601160045260245ffd5b80518210156104815760209160051b010190565b634e487b7160e01b5f52603260045260245ffdfea2646970667358221220c6b3f8b745dd615d963c95c34d3ebeced8229bf2c51b5eb0ac4ce9706b07f28264736f6c63430008180033";
+
+type MockACLConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockACLConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockACL__factory extends ContractFactory {
+  constructor(...args: MockACLConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockACL & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockACL__factory {
+    return super.connect(runner) as MockACL__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockACLInterface {
+    return new Interface(_abi) as MockACLInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): MockACL {
+    return new Contract(address, _abi, runner) as unknown as MockACL;
+  }
+}
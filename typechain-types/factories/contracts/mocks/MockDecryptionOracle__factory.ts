@@ -0,0 +1,146 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockDecryptionOracle,
+  MockDecryptionOracleInterface,
+} from "../../../contracts/mocks/MockDecryptionOracle";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "counter",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "cts",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "contractCaller",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes4",
+        name: "callbackSelector",
+        type: "bytes4",
+      },
+    ],
+    name: "DecryptionRequest",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "counter",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "ctsHandles",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes4",
+        name: "callbackSelector",
+        type: "bytes4",
+      },
+    ],
+    name: "requestDecryption",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608080604052346100165761016b908161001b8239f35b5f80fdfe6080806040526004361015610012575f80fd5b5f3560e01c9081633263b83b1461005257506361bc221a14610032575f80fd5b3461004e575f36600319011261004e5760205f54604051908152f35b5f80fd5b606036600319011261004e5760243567ffffffffffffffff9182821161004e573660238301121561004e57816004013592831161004e578260051b90366024838501011161004e5760443563ffffffff60e01b811680910361004e575f5460043583526080602084018190528301869052946001600160fb1b031061004e57818360a0927ff9a580b32950f598a0b7fe0edf634b8af409702fb0fedad9ec367ce0e87fcbfd9560248998018585013733604084015260608301528101030190a25f198114610121576001015f55005b634e487b7160e01b5f52601160045260245ffdfea26469706673582212208aa01c2674e5ad8ec31c936630877142c57a272807f7422428457add5160b6f964736f6c63430008180033";
+
+type MockDecryptionOracleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockDecryptionOracleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockDecryptionOracle__factory extends ContractFactory {
+  constructor(...args: MockDecryptionOracleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockDecryptionOracle & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): MockDecryptionOracle__factory {
+    return super.connect(runner) as MockDecryptionOracle__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockDecryptionOracleInterface {
+    return new Interface(_abi) as MockDecryptionOracleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockDecryptionOracle {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as MockDecryptionOracle;
+  }
+}
@@ -0,0 +1,885 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockFHEVMExecutor,
+  MockFHEVMExecutorInterface,
+} from "../../../contracts/mocks/MockFHEVMExecutor";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "HandleNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "fheType",
+        type: "uint8",
+      },
+    ],
+    name: "UnsupportedType",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "ct",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum FheType",
+        name: "toType",
+        type: "uint8",
+      },
+    ],
+    name: "cast",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheAdd",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheBitAnd",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheBitOr",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheBitXor",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheDiv",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheEq",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheGe",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheGt",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "control",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "ifTrue",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "ifFalse",
+        type: "bytes32",
+      },
+    ],
+    name: "fheIfThenElse",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheLe",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheLt",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheMax",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheMin",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheMul",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheNe",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "ct",
+        type: "bytes32",
+      },
+    ],
+    name: "fheNeg",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "ct",
+        type: "bytes32",
+      },
+    ],
+    name: "fheNot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum FheType",
+        name: "randType",
+        type: "uint8",
+      },
+    ],
+    name: "fheRand",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "upperBound",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FheType",
+        name: "randType",
+        type: "uint8",
+      },
+    ],
+    name: "fheRandBounded",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheRem",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheRotl",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheRotr",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheShl",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheShr",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "lhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "rhs",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes1",
+        name: "scalarByte",
+        type: "bytes1",
+      },
+    ],
+    name: "fheSub",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "plaintexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "pt",
+        type: "uint256",
+      },
+      {
+        internalType: "enum FheType",
+        name: "toType",
+        type: "uint8",
+      },
+    ],
+    name: "trivialEncrypt",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "inputHandle",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "callerAddress",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "enum FheType",
+        name: "inputType",
+        type: "uint8",
+      },
+    ],
+    name: "verifyCiphertext",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608080604052346100165761111a908161001b8239f35b5f80fdfe60406080815260049081361015610014575f80fd5b5f3560e01c806304559f7114610c6a578063117b2f3814610c0e5780631391547f14610bb7578063182b6d9814610b5b578063196d0b9b146109545780631c89ee441461092657806336318d64146108c457806348eef47e146108a257806357f0a568146108465780635a53accb146107ce57806363a2db29146107725780636754b360146106f2578063721076811461069a5780637513a404146106435780637702dcff146105ec57806385362ee7146105945780638b49ceb41461053857806391f98ffe146105195780639cd07acb146104ff578063c021329e14610472578063ccc480a114610405578063cf4d18aa1461039d578063d580c06314610333578063d75d6e8a14610301578063d8092cbc146102aa578063d99882d514610246578063f51ccfb01461020a578063f77f3f1d146101845763f7c21ff01461015b575f80fd5b3461018057602036600319011261018057602091355f525f8252805f20549051908152f35b5f80fd5b50346101805760209061019636610ccc565b91906101bd6101a483611033565b926101b76101b185610d7e565b94611042565b50610dbc565b926001600160f81b031916600160f81b036101fa5716905b036101ef576101e860ff60015b16610e7a565b9051908152f35b6101e860ff5f6101e2565b6102049150610dbc565b906101d5565b5034610180576020366003190112610180576101e86020923561023561022f82611033565b91610dbc565b1961023f82610d7e565b1690610f35565b5034610180576020906101e861025b36610ccc565b909161026681611033565b9261027d61027385610d7e565b926101b786611042565b926001600160f81b031916600160f81b0361029a57161690610f35565b6102a49150610dbc565b9061023f565b5034610180576020906102bc36610ccc565b91906102ca6101a483611033565b926001600160f81b031916600160f81b036102f15716905b146101ef576101e86001610e7a565b6102fb9150610dbc565b906102e2565b5090346101805760203660031901126101805735906054821015610180576101e860209261032d610fff565b90610f35565b50346101805760203660031901126101805781359161035a61035484611033565b93610dbc565b9061036484610d7e565b91820391821161038a576001820180921161038a5750826101e89161023f602095610d7e565b601190634e487b7160e01b5f525260245ffd5b5034610180576020906101e86103b236610ccc565b90916103bd81611033565b926103ca61027385610d7e565b926001600160f81b031916600160f81b036103f657165b806103ed575090610f35565b61032d91610d60565b6104009150610dbc565b6103e1565b5034610180576020906101e861045c61041d36610ccc565b9161042a81949294611033565b9361043485610d7e565b9061044161035487611042565b946001600160f81b031916600160f81b036104635716610d60565b1b90610f35565b61046d9150610dbc565b610d60565b5034610180576020906101e861048736610ccc565b6104e7610495849394611033565b9361049f85610d7e565b906104b26104ac87611042565b95610dbc565b936001600160f81b031916600160f81b036104ef5716925b6104e081846104d98288610d60565b1c95610d60565b8103610d60565b1b1790610f35565b6104f99150610dbc565b926104ca565b5034610180576020906101e861051436610d41565b610f35565b5034610180576020906101e861053161041d36610ccc565b1c90610f35565b5034610180576020906101e861054d36610ccc565b909161055881611033565b9261056561027385610d7e565b926001600160f81b031916600160f81b036105845716905b1890610f35565b61058e9150610dbc565b9061057d565b5034610180576020906105a636610ccc565b91906105b46101a483611033565b926001600160f81b031916600160f81b036105dc5716905b11156101ef576101e86001610e7a565b6105e69150610dbc565b906105cc565b5034610180576060366003190112610180576101e860209260243561061081610dbc565b9061062f610628610622604435610dbc565b92611033565b9335610dbc565b1561063b575090610f35565b905090610f35565b50346101805760209061065536610ccc565b91906106636101a483611033565b926001600160f81b031916600160f81b0361068a5716905b116101ef576101e86001610e7a565b6106949150610dbc565b9061067b565b5034610180576020906106ac36610ccc565b91906106ba6101a483611033565b926001600160f81b031916600160f81b036106e25716905b10156101ef576101e86001610e7a565b6106ec9150610dbc565b906106d2565b5034610180576020906101e861070736610ccc565b61075a610715849394611033565b9361071f85610d7e565b9061072c6104ac87611042565b936001600160f81b031916600160f81b036107625716925b6104e081846107538288610d60565b1b95610d60565b1c1790610f35565b61076c9150610dbc565b92610744565b5034610180576020906101e861078736610ccc565b909161079281611033565b9261079f61027385610d7e565b926001600160f81b031916600160f81b036107be5716905b1790610f35565b6107c89150610dbc565b906107b7565b5034610180576020906101e86108086107e636610ccc565b9092916107f281611033565b936107fc85610d7e565b9384926101b787611042565b926001600160f81b031916600160f81b036108365716905b8161082d57505090610f35565b04919050610f35565b6108409150610dbc565b90610820565b5034610180576020906101e861085b36610ccc565b909161086681611033565b9261087361027385610d7e565b926001600160f81b031916600160f81b036108925716905b0290610f35565b61089c9150610dbc565b9061088b565b5034610180576020906101e861032d6108ba36610d41565b919061046d610fff565b5034610180576020906101e86108d936610ccc565b90916108e481611033565b926108f161027385610d7e565b926001600160f81b031916600160f81b0361091757165b8082111561063b575090610f35565b6109219150610dbc565b610908565b50346101805780600319360112610180576024359160548310156101805760209261032d6101e89235610dbc565b5034610180576080366003190112610180576024356001600160a01b0381169280359291849003610180576044359367ffffffffffffffff80861161018057366023870112156101805785830135908111610b48578351602096601f1992906109c4601f830185168a0184610d1f565b818352366024838301011161018057815f9260248b9301838601378301015260643591605483101561018057928791938651948592635511731360e01b84528988850152336024850152604484015260a060648401528051908160a4850152845f5b838110610b305750505060c491601f825f858795860101528760848501520116810103018173bc91f3dad1a5f19f8390c400196e58073b6a0bc45afa918215610b26575f92610af5575b50610a7a90610d7e565b16835f525f8552825f205573687820221192c5b662b25367f70076a37bc79b6c803b15610180578251630f8e573b60e21b81529182018481523360208201525f91839182908490829060400103925af18015610aeb57610adc575b5051908152f35b610ae590610cf7565b5f610ad5565b82513d5f823e3d90fd5b9091508581813d8311610b1f575b610b0d8183610d1f565b81010312610180575190610a7a610a70565b503d610b03565b84513d5f823e3d90fd5b82810182015189820160c40152889550869101610a26565b604183634e487b7160e01b5f525260245ffd5b5034610180576020906101e8610b7036610ccc565b9091610b7b81611033565b92610b8861027385610d7e565b926001600160f81b031916600160f81b03610ba75716905b0390610f35565b610bb19150610dbc565b90610ba0565b503461018057602090610bc936610ccc565b9190610bd76101a483611033565b926001600160f81b031916600160f81b03610bfe5716905b106101ef576101e86001610e7a565b610c089150610dbc565b90610bef565b5034610180576020906101e8610c2336610ccc565b9091610c2e81611033565b92610c3b61027385610d7e565b926001600160f81b031916600160f81b03610c5a5716905b0190610f35565b610c649150610dbc565b90610c53565b5034610180576020906101e8610c7f36610ccc565b9091610c8a81611033565b92610c9761027385610d7e565b926001600160f81b031916600160f81b03610cbd57165b8082101561063b575090610f35565b610cc79150610dbc565b610cae565b60609060031901126101805760043590602435906044356001600160f81b0319811681036101805790565b67ffffffffffffffff8111610d0b57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610d0b57604052565b6040906003190112610180576004359060243560548110156101805790565b8115610d6a570690565b634e487b7160e01b5f52601260045260245ffd5b610d8790611042565b6101008103610d9657505f1990565b6001901b5f198101908111610da85790565b634e487b7160e01b5f52601160045260245ffd5b6040516382027b6d60e01b81526004810182905233602482015260208160448173687820221192c5b662b25367f70076a37bc79b6c5afa908115610e6f575f91610e34575b5015610e15575f525f60205260405f205490565b6040516278d95160e71b81526004810191909152336024820152604490fd5b90506020813d602011610e67575b81610e4f60209383610d1f565b8101031261018057518015158103610180575f610e01565b3d9150610e42565b6040513d5f823e3d90fd5b906001545f198114610da85760019081018082556040805160208101928352469181019190915230606082015290610ebf82608081015b03601f198101845283610d1f565b61ffff19915190201692835f525f6020521660405f205573687820221192c5b662b25367f70076a37bc79b6c803b1561018057604051630f8e573b60e21b815260048101849052336024820152905f908290818381604481015b03925af18015610e6f57610f2a5750565b610f3390610cf7565b565b91906001545f198114610da8576001908101908190556040805160208101928352469181019190915230606082015290610f728260808101610eb1565b9051902061ffff19166054841015610feb57610f979061ff008560081b161793610d7e565b16825f525f60205260405f205573687820221192c5b662b25367f70076a37bc79b6c803b1561018057604051630f8e573b60e21b815260048101849052336024820152905f90829081838160448101610f19565b634e487b7160e01b5f52602160045260245ffd5b600154604080514460208201908152918101929092523360608084019190915282529061102d608082610d1f565b51902090565b601e1a6054811015610feb5790565b6054811015610feb5780156110de57600181146110d857600281146110d257600381146110cc57600481146110c657600581146110c057600681146110ba57600781146110b457600881146110ad57604051631136f9f360e11b815260ff9091166004820152602490fd5b5061010090565b5060a090565b50608090565b50604090565b50602090565b50601090565b50600890565b50600490565b5060019056fea2646970667358221220b3bd153244ef5ff62570f95491b504f7ff40311394b45e614e6a1b9d0e13d14a64736f6c63430008180033";
+
+type MockFHEVMExecutorConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockFHEVMExecutorConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockFHEVMExecutor__factory extends ContractFactory {
+  constructor(...args: MockFHEVMExecutorConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockFHEVMExecutor & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockFHEVMExecutor__factory {
+    return super.connect(runner) as MockFHEVMExecutor__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockFHEVMExecutorInterface {
+    return new Interface(_abi) as MockFHEVMExecutorInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockFHEVMExecutor {
+    return new Contract(address, _abi, runner) as unknown as MockFHEVMExecutor;
+  }
+}
@@ -0,0 +1,190 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockInputVerifier,
+  MockInputVerifierInterface,
+} from "../../../contracts/mocks/MockInputVerifier";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "contractAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "userAddress",
+        type: "address",
+      },
+    ],
+    name: "InvalidInputContext",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+    ],
+    name: "InvalidInputHandle",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "handle",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint8",
+        name: "expected",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "actual",
+        type: "uint8",
+      },
+    ],
+    name: "InvalidInputType",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "cleanTransientStorage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "proofHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint8",
+        name: "index",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "fheType",
+        type: "uint8",
+      },
+    ],
+    name: "inputHandleAt",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "inputHandle",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "contractAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "userAddress",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "enum FheType",
+        name: "inputType",
+        type: "uint8",
+      },
+    ],
+    name: "verifyInput",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234610016576104e0908161001b8239f35b5f80fdfe60806040526004361015610011575f80fd5b5f3560e01c8063164c73c61461038a57806335334c23146103785763551173131461003a575f80fd5b3461033f5760a036600319011261033f576024356001600160a01b038116810361033f576044356001600160a01b038116810361033f576064359167ffffffffffffffff831161033f573660238401121561033f57826004013567ffffffffffffffff811161036457604051936100bb601f8301601f1916602001866103cd565b818552366024838301011161033f57815f9260246020930183880137850101526054608435101561033f57825183019160a08484031261033f5761010160208501610456565b9161010e60408601610456565b9160608601519367ffffffffffffffff851161033f5760208601603f86890101121561033f5760208588010151946101458661046a565b9561015360405197886103cd565b80875260208701916020890160408360051b838d0101011161033f57916040838b0101925b60408360051b828d0101018410610343575050505060808701519567ffffffffffffffff871161033f5760208101603f888a0101121561033f5760208789010151906101c38261046a565b976101d1604051998a6103cd565b8289526020808a01920160408460051b838d0101011161033f57906040828b0101915b60408460051b828d010101831061032a575050506001600160a01b039182169482169390911684148015929150610316575b506102f857505060043560151a928251808510908115916102ec575b506102d35780602061026792519101208460ff61025f8286610482565b5116916103ef565b600435036102d35760ff61027b8483610482565b51169060ff608435168092036102a05760206102978585610482565b51604051908152f35b9060ff6102af85606494610482565b511660405191631bf16bf760e21b8352600435600484015260248301526044820152fd5b602460405163feef271360e01b81526004356004820152fd5b9050825114155f610242565b6044925060405191637861961f60e11b835260048301526024820152fd5b6001600160a01b031682141590505f610226565b602080604093855181520193019291506101f4565b5f80fd5b83519160ff8316830361033f57602081604094829352019401939150610178565b634e487b7160e01b5f52604160045260245ffd5b3461033f575f36600319011261033f57005b3461033f57606036600319011261033f5760243560ff8116810361033f576044359060ff8216820361033f576020916103c5916004356103ef565b604051908152f35b90601f8019910116810190811067ffffffffffffffff82111761036457604052565b919091604051906020820190815260ff60f81b8460f81b16604083015260218252606082019180831067ffffffffffffffff8411176103645761ff00926040525190209160081b169160ff60501b9060501b16906aff0000000000000000ffff1916171790565b51906001600160a01b038216820361033f57565b67ffffffffffffffff81116103645760051b60200190565b80518210156104965760209160051b010190565b634e487b7160e01b5f52603260045260245ffdfea2646970667358221220dd471b5e7d5e068699a791341df68e9cd80b65a2128968fb2c1e807ec7340c5e64736f6c63430008180033";
+
+type MockInputVerifierConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockInputVerifierConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockInputVerifier__factory extends ContractFactory {
+  constructor(...args: MockInputVerifierConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockInputVerifier & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockInputVerifier__factory {
+    return super.connect(runner) as MockInputVerifier__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockInputVerifierInterface {
+    return new Interface(_abi) as MockInputVerifierInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockInputVerifier {
+    return new Contract(address, _abi, runner) as unknown as MockInputVerifier;
+  }
+}
@@ -0,0 +1,96 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockKMSVerifier,
+  MockKMSVerifierInterface,
+} from "../../../contracts/mocks/MockKMSVerifier";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptedResult",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes[]",
+        name: "signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "verifyDecryptionEIP712KMSSignatures",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001657610372908161001b8239f35b5f80fdfe60806040526004361015610011575f80fd5b5f3560e01c63b009ec4c14610024575f80fd5b346101445760603660031901126101445760043567ffffffffffffffff80821161014457366023830112156101445760249060048301356100648161018d565b906100726040519283610157565b808252602094848684019260051b820101913683116101445785879201905b83821061014857505050508235828111610144576100b39036906004016101a5565b906044359383851161014457366023860112156101445784600401356100d88161018d565b946100e66040519687610157565b818652828887019260051b8801019636881161014457838101925b88841061011e57896101148989896101fb565b6040519015158152f35b8335838111610144578a9161013983928836918701016101a5565b815201930192610101565b5f80fd5b81358152908201908201610091565b90601f8019910116810190811067ffffffffffffffff82111761017957604052565b634e487b7160e01b5f52604160045260245ffd5b67ffffffffffffffff81116101795760051b60200190565b81601f820112156101445780359067ffffffffffffffff821161017957604051926101da601f8401601f191660200185610157565b8284526020838301011161014457815f926020809301838601378301015290565b9091511561033657815181516001600160fb1b039391929160059180831b908681160361030e5760209485820180921161030e570361032d575f5b8351811015610322576001810180821161030e57868116810361030e57831b82015184518210156102fa578582851b8601015190604091825190630f7c21ff60e41b82526004820152878160248173848b0066793bcc60346da1f49049357399b8d5955afa9283156102f157505f926102c2575b50036102b857600101610236565b5050505050505f90565b9091508681813d83116102ea575b6102da8183610157565b810103126101445751905f6102aa565b503d6102d0565b513d5f823e3d90fd5b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b505050505050600190565b50505050505f90565b50505f9056fea26469706673582212208179a0d6354909511bf4fc212a76cdc2a7c58f62172cb25de18551bfaf73cf8164736f6c63430008180033";
+
+type MockKMSVerifierConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockKMSVerifierConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockKMSVerifier__factory extends ContractFactory {
+  constructor(...args: MockKMSVerifierConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockKMSVerifier & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockKMSVerifier__factory {
+    return super.connect(runner) as MockKMSVerifier__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockKMSVerifierInterface {
+    return new Interface(_abi) as MockKMSVerifierInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockKMSVerifier {
+    return new Contract(address, _abi, runner) as unknown as MockKMSVerifier;
+  }
+}
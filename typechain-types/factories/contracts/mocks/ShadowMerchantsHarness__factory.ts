@@ -0,0 +1,1928 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ShadowMerchantsHarness,
+  ShadowMerchantsHarnessInterface,
+} from "../../../contracts/mocks/ShadowMerchantsHarness";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "AccessControlBadConfirmation",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "neededRole",
+        type: "bytes32",
+      },
+    ],
+    name: "AccessControlUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ActionTooFrequent",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "GameFull",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "GameNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "GameNotEnded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "GameNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InsufficientResources",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidConfig",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidGameSettings",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInput",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PlayerAlreadyJoined",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PlayerInAnotherGame",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PlayerNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownDecryptionRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BidGoldForfeited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BidGoldLocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BidGoldReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint64",
+            name: "initialGold",
+            type: "uint64",
+          },
+          {
+            internalType: "uint8",
+            name: "energyRegenAmount",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "maxPlayers",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "maxRounds",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "roundDuration",
+            type: "uint256",
+          },
+        ],
+        indexed: false,
+        internalType: "struct ShadowMerchants.GameConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "ConfigUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "EnergyRegenerated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "maxPlayers",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+    ],
+    name: "GameCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+    ],
+    name: "GameEnded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint8",
+        name: "goodType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "InventoryCredited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+    ],
+    name: "PlayerJoined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "round",
+        type: "uint256",
+      },
+    ],
+    name: "PlayerLeft",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ResourcesUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
+        type: "bytes32",
+      },
+    ],
+    name: "RoleAdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newRound",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "RoundProgressed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "WinnerDecryptionRequested",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "AUCTION_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ENERGY_REGEN_INTERVAL",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "GAME_MANAGER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "INITIAL_ENERGY",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "INITIAL_REPUTATION",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_ENERGY",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_INITIAL_GOLD",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PLAYERS_LIMIT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_ROUNDS_LIMIT",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_ROUND_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_ROUND_DURATION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MISSION_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SCORE_ITEM_VALUE",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SCORE_REPUTATION_WEIGHT",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "activePlayers",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "bidEscrows",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "amountPlain",
+        type: "uint64",
+      },
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "active",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+    ],
+    name: "canPlayerAct",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "config",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "initialGold",
+        type: "uint64",
+      },
+      {
+        internalType: "uint8",
+        name: "energyRegenAmount",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxPlayers",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "maxPlayers",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+    ],
+    name: "createGame",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "currentGame",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "endGame",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "forfeitBidGold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "gameCounter",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "games",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "currentRound",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "gameStartTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastRoundTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "maxPlayers",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "playerCount",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "gameActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "gameEnded",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getActiveGames",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "getActivePlayers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "getGameInfo",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "currentRound",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "gameStartTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastRoundTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "playerCount",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "gameActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "gameEnded",
+        type: "bool",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "maxPlayers",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "maxRounds",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "roundDuration",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+    ],
+    name: "getInventory",
+    outputs: [
+      {
+        internalType: "euint8[10]",
+        name: "",
+        type: "bytes32[10]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+    ],
+    name: "getPlaintextResources",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "usesPlaintext",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "gold",
+        type: "uint64",
+      },
+      {
+        internalType: "uint16",
+        name: "reputation",
+        type: "uint16",
+      },
+      {
+        internalType: "uint8",
+        name: "energy",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8[10]",
+        name: "inventory",
+        type: "uint8[10]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+    ],
+    name: "getPlayerInfo",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "hasJoined",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "joinedRound",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "publicReputationTier",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "lastActionTime",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleAdmin",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "auctionContract",
+        type: "address",
+      },
+    ],
+    name: "grantAuctionRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "missionContract",
+        type: "address",
+      },
+    ],
+    name: "grantMissionRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "slot",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "amount",
+        type: "uint8",
+      },
+    ],
+    name: "harnessSetEncryptedInventory",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "gold",
+        type: "uint64",
+      },
+      {
+        internalType: "uint16",
+        name: "reputation",
+        type: "uint16",
+      },
+      {
+        internalType: "uint8[10]",
+        name: "inventory",
+        type: "uint8[10]",
+      },
+    ],
+    name: "harnessSetPlaintextResources",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedGold",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "goldProof",
+        type: "bytes",
+      },
+      {
+        internalType: "externalEuint16",
+        name: "encryptedReputation",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "reputationProof",
+        type: "bytes",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedEnergy",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "energyProof",
+        type: "bytes",
+      },
+    ],
+    name: "joinGame",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "leaveGame",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "amountPlain",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "amountIsPlaintext",
+        type: "bool",
+      },
+    ],
+    name: "lockBidGold",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "locked",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+      {
+        internalType: "bytes[]",
+        name: "signatures",
+        type: "bytes[]",
+      },
+    ],
+    name: "onWinnerDecrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "players",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "gold",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint16",
+        name: "reputation",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "energy",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "usesPlaintext",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "goldPlain",
+        type: "uint64",
+      },
+      {
+        internalType: "uint16",
+        name: "reputationPlain",
+        type: "uint16",
+      },
+      {
+        internalType: "uint8",
+        name: "energyPlain",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "hasJoined",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "joinedRound",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastActionTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lastEnergyRegen",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "publicReputationTier",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "gameId",
+        type: "uint256",
+      },
+    ],
+    name: "progressRound",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "regenerateEnergy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseBidGold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "release",
+        type: "bytes32",
+      },
+    ],
+    name: "releaseBidGoldIf",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "callerConfirmation",
+        type: "address",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "goodType",
+        type: "uint8",
+      },
+      {
+        internalType: "euint64",
+        name: "price",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "pricePlain",
+        type: "uint64",
+      },
+      {
+        internalType: "bool",
+        name: "priceIsPlaintext",
+        type: "bool",
+      },
+    ],
+    name: "settleAuctionWin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "playerAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "auctionId",
+        type: "uint256",
+      },
+      {
+        internalType: "euint64",
+        name: "locked",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "accepted",
+        type: "bytes32",
+      },
+    ],
+    name: "settleBidGoldIf",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint8",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "spendEnergy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "spendGold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint64",
+            name: "initialGold",
+            type: "uint64",
+          },
+          {
+            internalType: "uint8",
+            name: "energyRegenAmount",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "maxPlayers",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "maxRounds",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "roundDuration",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ShadowMerchants.GameConfig",
+        name: "newConfig",
+        type: "tuple",
+      },
+    ],
+    name: "updateConfig",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winnerDecryptionGame",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winnerDecryptionPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winnerDecryptionRequestId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080346200020f5760808101906001600160401b039081831181841017620001fb576040928352606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595806020830152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac91828782015273bc91f3dad1a5f19f8390c400196e58073b6a0bc4938491015260018060a01b0319937fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60090858254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60190848254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea60290838254161790557fed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea603908282541617905573a02cda4ca3a71d7c46997716f4283aa851c288127f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0091825416179055620001863362000213565b50620001923362000283565b50815160a0810191821181831017620001fb579082526103e88152600a602082015260148183018190526060820152610384608091909101819052600180546001600160581b0319166a14140a00000000000003e817905560025551614dc99081620003248239f35b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b6001600160a01b03165f8181525f805160206200510d833981519152602052604090205460ff166200027e575f8181525f805160206200510d83398151915260205260408120805460ff191660011790553391905f80516020620050ed8339815191528180a4600190565b505f90565b6001600160a01b03165f8181527ff11d5cd6172e4d486247e8873a157a5cbd86d37171bf6cd250fc0a75f26713f960205260409020547fef17b1f3c5a412f9c8e887e3abd186802afec7dc657fd3b7002bf87b128dd0b1919060ff166200031d57815f525f60205260405f20815f5260205260405f20600160ff1982541617905533915f80516020620050ed8339815191525f80a4600190565b50505f9056fe6080806040526004361015610012575f80fd5b5f3560e01c90816301ffc9a714612d37575080630aaa454814612d1a5780630d41d0b814612ce55780630db7221614612cca5780630f394cad14612bd45780631176f03e14612ca0578063117a5b9014612bef5780631a6687ac14612bd45780631b76929c14612ae75780631fdebc441461189f578063248a9ca314612abb5780632a46018c14612a925780632e0be39a14612a755780632f2ff15d14612a39578063342ed9561461298757806336568abe146129405780633a16d647146126465780633ccd10e914612519578063430730a3146124df57806346401184146124b057806347e1d5501461238157806357da8ed8146120745780635d371926146120245780636570450614611fec57806379502c5514611f9c5780637b0572581461189f5780637bc7055414611eda5780638336abb714611ddf5780638781681b14611db25780638d94fefb14611d2e57806391d1485414611ce65780639350ca8114611cac5780639578bd6f14611c8f5780639670343914611c5e5780639dd88d3414611c31578063a211f28f1461189f578063a217fddf14611c17578063ab5669ad14611bfc578063aca93f7d14611bd3578063b1501f9c14611a01578063beb1979c14611986578063c0f80921146118a4578063c3b67b151461189f578063cdc2f3fe146117cb578063d0399bb814611773578063d547741f14611737578063d610de77146116f1578063daa378b414611053578063dbab4ef914610fdf578063e02c0a8414610faa578063e19180aa146108bf578063e5beb1be146105fa578063edb3bb94146105de578063f34cd5451461051a578063f85a4b91146104f0578063f8f90fe014610307578063fc739690146102d85763ff6fcdbd1461029a575f80fd5b346102d4575f3660031901126102d45760206040517fef17b1f3c5a412f9c8e887e3abd186802afec7dc657fd3b7002bf87b128dd0b18152f35b5f80fd5b346102d45760403660031901126102d4576103056102f4612da5565b6102fc6139a7565b60243590613887565b005b346102d45760a03660031901126102d457610320613a20565b6001600160401b03620f424081610335613871565b161180156104de575b80156104ca575b80156104b8575b80156104a4575b8015610492575b801561047e575b8015610472575b8015610464575b610452578061037c613871565b166001549068ff00000000000000006103936133a3565b60401b1669ff0000000000000000006103aa6133b3565b60481b169160ff60501b6103bc6133c3565b60501b16936affffffffffffffffffffff1916171717176001556084359081600255604051906004359081168091036102d457815260ff6103fb612f1d565b16602082015260ff61040b612f2d565b1660408201526064359060ff82168092036102d4577f0bd1a72534837e19339762e932b02af87f1e1c0ce8d67e27ae76c0d731632fbb9260a09260608301526080820152a1005b6040516306b7c75960e31b8152600490fd5b50620151806084351161036f565b50603c60843510610368565b50606460ff61048b6133c3565b1611610361565b5060ff61049d6133c3565b161561035a565b50603260ff6104b16133b3565b1611610353565b5060ff6104c36133b3565b161561034c565b50606460ff6104d76133a3565b1611610345565b5060ff6104e96133a3565b161561033e565b346102d45760203660031901126102d4576004355f52600a602052602060405f2054604051908152f35b346102d45760403660031901126102d457610533612dbb565b61014060405161054281612e1c565b3690376004355f52602090600560205260405f209060018060a01b03165f5260205260405f20600d8101549161057c600e60ff9301613143565b60ff60405194818116151586526001600160401b038160081c16602087015261ffff8160481c16604087015260581c16606085015260808401905f915b600a83106105c7576101c086f35b8380600192878551168152019201920191906105b9565b346102d4575f3660031901126102d457602060405161012c8152f35b346102d45760603660031901126102d45760043560ff8116908181036102d45760243591610626612f2d565b9280926040519160a08301906001600160401b0394848310868411176108ab57608092604052600154958616855260ff8660401c16602086015260ff808760481c169687604088015260501c16948560608201526002549384910152156108a3575b1561089b575b5060ff851615610891575b60ff16918211908115610884575b50801561087a575b801561086e575b61085c5760ff6020936106ca600354612f4a565b93846003556040516106db81612ded565b60018152428782015242604082015281606082015284608082015283831660a08201525f60c0820152600160e08201525f6101008201525f61012082015233610140820152855f526004875260405f20815181558782015160018201556040820151600282015560608201516003820155610140600560048301928760808601511684549061ff0060a088015160081b169161ffff1916171784556107998860c087015116859062ff000082549160101b169062ff00001916179055565b60e085015184546101008701516101208801516301000000600160c81b031990921692151560181b63ff00000016929092179115158d1b64ff00000000169190911760289190911b65010000000000600160c81b0316179093556001600160a01b039201920151166bffffffffffffffffffffffff60a01b82541617905560405193845285840152166040820152426060820152817f910c6b9488fe3da5bed4c3deff6c0d9073f2177a4e85c838c7b080266c864ab560803393a3604051908152f35b604051631849f84d60e21b8152600490fd5b506201518082116106b6565b50603c82106106af565b905060ff841611846106a7565b9093508390610699565b93508561068e565b849250610688565b634e487b7160e01b5f52604160045260245ffd5b346102d45760e03660031901126102d4576044356001600160401b0381116102d4576108ef903690600401612ef0565b6084356001600160401b0381116102d45761090e903690600401612ef0565b60c4929192356001600160401b0381116102d457610930903690600401612ef0565b600492919235158015610f9d575b610f8b576004355f52600460205260405f2095600487015460ff8160181c1615610f565760ff8082169160101c161015610f79576004355f52600560205260405f20335f5260205260ff600f60405f20015460081c16610f67576003875411610f5657335f52600860205260405f20548015159081610f31575b81610f13575b50610f015784159485610ef8575b85610eef575b8515610d58575050505050610a4791505f9060ff5f61ffff5f5b6001600160401b03604051610a0081612e1c565b61014036823760405196610a1388612e1c565b6101403689378015610d51578260015416915b8115610d4a576064945b8215610d43576064975b8d549b6040519d8e612dd1565b8d5260208d015260408c015260608b0152151560808a01521660a08801521660c08601521660e08401526101008301526001610120830152600161014083015261016082015242610180820152426101a082015260026101c08201526004355f52600560205260405f20335f5260205260405f2081518155602082015160018201556040820151600282015560608201515f5b600a8110610d2c575050610b72600d8201610b0760808501511515829060ff801983541691151516179055565b60a0840151815468ffffffffffffffff00191660089190911b68ffffffffffffffff001617815560c084015181546affff000000000000000000191660489190911b61ffff60481b1617815560e0840151815460ff60581b191660589190911b60ff60581b16179055565b6101008201515f905f5b600a8110610cfe5750506013826101c092600e60ff950155600f8101610bb56101208701511515829060ff801983541691151516179055565b610140860151151561ff0082549160081b169061ff001916179055610160850151601082015561018085015160118201556101a08501516012820155019201511660ff198254161790556004355f52600660205260405f208054600160401b8110156108ab57610c2e816001610c4c9301845583612edb565b81546001600160a01b0360039290921b91821b19163390911b179055565b545f198101908111610cea576004355f52600760205260405f20335f5260205260405f205560ff600482015460101c1660ff8114610cea576001610ca79101600483019062ff000082549160101b169062ff00001916179055565b335f52600860205260043560405f20555460405190815233907f03dfbe1fcb4e2d61f3b4a0c93d8f814c92250618b3387f396cc9fc9fafe2c203602060043592a3005b634e487b7160e01b5f52601160045260245ffd5b90916020610d236001928460ff875116919060ff809160031b9316831b921b19161790565b93019101610b7c565b600190602083519301926003828601015501610ada565b5f97610a3a565b5f94610a30565b5f91610a26565b95610d77610d6f610d7f935f969897993691612e70565b60243561481a565b953691612e70565b5f80516020614d748339815191525460405163196d0b9b60e01b8152606435600482015233602482015260806044820152936001600160a01b03926020928692908516918391908290610dd6906084830190613d13565b6003606483015203925af1928315610eb0575f93610ebb575b505f80516020614d54833981519152541691823b156102d457604051630f8e573b60e21b815260048101829052336024820152925f908490604490829084905af1908115610eb057610e92610e62610e5a610a479960ff9761ffff96610ea1575b5084963691612e70565b60a435614902565b91610e6d30896147b0565b610e7730826147b0565b610e8130846147b0565b610e8b33896147b0565b33906147b0565b610e9c33826147b0565b6109ec565b610eaa90612e09565b8c610e50565b6040513d5f823e3d90fd5b9092506020813d602011610ee7575b81610ed760209383612e38565b810103126102d457519187610def565b3d9150610eca565b821595506109d2565b831595506109cc565b604051631ccfc4cd60e21b8152600490fd5b90505f52600460205260ff600460405f20015460201c1615886109be565b8091505f52600560205260405f20335f5260205260ff600f60405f20015416906109b8565b60405162a3097160e01b8152600490fd5b6040516314c4fea760e31b8152600490fd5b60405163b3ed896d60e01b8152600490fd5b6040516309b3c62760e21b8152600490fd5b506003546004351161093e565b346102d45760803660031901126102d457610305610fc6612da5565b610fce6139a7565b6064359060443590602435906137f2565b346102d45760403660031901126102d457610ff8612dbb565b6004355f52600960205260405f209060018060a01b03165f52602052608060405f208054906001600160401b036001820154169060ff6003600283015492015416916040519384526020840152604083015215156060820152f35b346102d45760c03660031901126102d45761106c612da5565b611074612f2d565b6001600160401b0360843516608435036102d45760a435151560a435036102d45761109d6139a7565b6024355f52600960205260405f2060018060a01b0383165f5260205260405f20604051908160808101106001600160401b036080840111176108ab576080820160409081528154835260018201546001600160401b031660208401526002820154908301526003015460ff1615801560608301526116c1576040818101515f908152600560209081528282206001600160a01b03871683529052205b606082015115806116b2575b6116a05760ff8316158015611693575b61133a5760ff8381165f190111610cea576024355f52600960205260405f2060018060a01b0385165f526020526111a060405f2060035f918281558260018201558260028201550155565b600d81019160ff8354165f1461134c5760a4351561133a57606081015115611300576001600160401b03608435166001600160401b03602083015116106112ee5761124d9261121861120561123b936001600160401b036020608435920151166131bd565b6001600160401b03835460081c166137be565b68ffffffffffffffff0082549160081b169068ffffffffffffffff001916179055565b60ff8381165f19011690600e016137d9565b8154600160ff828460031b1c16019160ff8311610cea5760ff60039190911b81811b199092169216901b1790555b60ff6040519142835216907feb0530385e34165a2d107c4352b7632c835459a7920553449f3dde4e3a64447e602060018060a01b03851692a36040514281526001600160a01b03909116907fefb247adb67a1f4a637d338494f973d6878e3b545bcbfb20f6483097d91ca7fc90602090a2005b604051633249a22160e21b8152600490fd5b506001600160401b03825460081c166001600160401b036084351681106112ee5761124d9261121861133592608435906131bd565b61123b565b60405163b4fa3fb360e01b8152600490fd5b90915060a4351561168a5761136b6001600160401b0360843516614448565b905b60608101511561165e575f611383838351613ec6565b82518015611650575b5f80516020614d7483398151915280546040516385362ee760e01b8152600481019390935260248301859052600160f81b604484015291939091602091859160649183916001600160a01b03165af1928315610eb0575f9361161c575b5082908215611609575b60209293156115f5575b5460405163d99882d560e01b8152600481019490945260248401919091525f60448401819052839160649183916001600160a01b03165af1908115610eb0575f916115c3575b505f926114648261146a939461145c8854948251613ef8565b9051916146b6565b90613f21565b83555b600383019061148460ff8419818816011683613515565b90549060031b1c90602060018060a01b035f80516020614d748339815191525416604460405180978193639cd07acb60e01b835260016004840152600260248401525af18015610eb05787945f91611582575b5061157d9561150161157195946114fb6115409589956114f56145bc565b916146b6565b90613f7a565b61152c61151660ff8b81165f19011687613515565b819391549060031b91821b915f19901b19161790565b905561153a815430906147b0565b546147b0565b61156261155560ff8781165f19011683613515565b3091549060031b1c6147b0565b60ff8581165f19011690613515565b90549060031b1c6147b0565b61127b565b9594505091906020853d6020116115bb575b816115a160209383612e38565b810103126102d4579351929386939192909161157d6114d7565b3d9150611594565b90506020813d6020116115ed575b816115de60209383612e38565b810103126102d457515f611443565b3d91506115d1565b90506064611601614570565b9190506113fd565b60209250611615614570565b92506113f3565b9092506020813d602011611648575b8161163860209383612e38565b810103126102d4575191886113e9565b3d915061162b565b506116596144ca565b61138c565b508061168361167a6116725f948654613ec6565b928554613ef8565b845490836146b6565b835561146d565b6064359061136d565b50600a60ff841611611155565b6040516396ba997560e01b8152600490fd5b5060ff600f8201541615611145565b6001600160a01b0383165f8181526008602090815260408083205483526005825280832093835292905220611139565b346102d4575f3660031901126102d457335f52600860205260405f20545f52600560205260405f20335f5260205260ff600f60405f20015416156116a0576103056135f8565b346102d45760403660031901126102d457610305600435611756612dbb565b90805f525f60205261176e600160405f200154613a7b565b613c6e565b346102d45760203660031901126102d45760043561178f613a20565b801580156117c0575b610f8b57805f52600460205260ff600460405f20015460181c1615610f565761030590613913565b506003548111611798565b346102d45760403660031901126102d4576024356001600160401b0381116102d4576117fb903690600401612ef0565b335f5260206008815260405f20545f526005815260405f20335f52815260ff600f60405f20015416156116a057335f526008815260405f20545f526004815260ff600460405f20015460181c1615610f5657335f526008815260405f20545f526005815260405f2090335f5252601160405f200154600a8101809111610cea57421061188d5761030591600435613524565b6040516321b026c560e21b8152600490fd5b612d8a565b346102d45760403660031901126102d4576118bd612dbb565b6004355f52600560205260405f209060018060a01b03165f526020526101a060405f208054906001810154906002810154600d82015460ff600f8401548160108601549360118701549582601360128a015499015416986040519a8b5260208b015260408a0152818116151560608a01526001600160401b038160081c1660808a015261ffff8160481c1660a08a015260581c1660c0880152818116151560e088015260081c161515610100860152610120850152610140840152610160830152610180820152f35b346102d45760603660031901126102d45761199f612da5565b6119fd6115166119ad612f1d565b6119c060ff6119ba612f2d565b1661451d565b936119cb30866147b0565b6001600160a01b03165f8181526008602090815260408083205483526005825280832093835292905220600301613515565b9055005b346102d4575f3660031901126102d457335f5260206008815260405f20545f526005815260405f20335f52815260ff600f60405f20015416156116a057335f526008815260405f2054805f526005825260405f20335f528252600f60405f200160ff198154169055805f526006825260405f206007835260405f20335f52835260405f2054908054905f1992838301928311610cea57611aa4611ae09383612edb565b90546001600160a01b0394919085611abc8587612edb565b92909360031b1c169060018060a01b038084549260031b9316831b921b1916179055565b845f526007865260405f2083611af68385612edb565b90549060031b1c165f52865260405f205580548015611bbf57830191611b1c8383612edb565b909182549160031b1b1916905555815f526007835260405f20335f5283525f6040812055815f5260048352600460405f200160ff815460101c16918215610cea57611b79920162ff000082549160101b169062ff00001916179055565b335f52600882525f6040812055805f52600482527f5ecc3f158b8882fa32fb8339b56f501d55fe2cd744a3f9bb628c03d67966062660405f2054926040519384523393a3005b634e487b7160e01b5f52603160045260245ffd5b346102d45760203660031901126102d457610305611bef612da5565b611bf7613951565b613b4d565b346102d4575f3660031901126102d4576020604051603c8152f35b346102d4575f3660031901126102d45760206040515f8152f35b346102d45760203660031901126102d4576020611c54611c4f612da5565b613473565b6040519015158152f35b346102d45760603660031901126102d457610305611c7a612da5565b611c826139a7565b60443590602435906133d3565b346102d4575f3660031901126102d4576020604051620f42408152f35b346102d4575f3660031901126102d45760206040517fda146bdcee179bf91932b72d5f48336fa2738b1ecb32dd1e4f46611406df38908152f35b346102d45760403660031901126102d457611cff612dbb565b6004355f525f60205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b346102d45760403660031901126102d457611d47612dbb565b60405190611d5482612e1c565b61014080923690376004355f52602090600560205260405f209060018060a01b03165f52602052611d8a600360405f2001613111565b604051915f835b600a8210611d9d578585f35b82806001928651815201940191019092611d91565b346102d45760403660031901126102d457610305611dce612da5565b611dd66139a7565b60243590613dc3565b346102d4576101a03660031901126102d457611df9612da5565b6024356001600160401b03811681036102d4576044359161ffff831683036102d457366101a4116102d4576001600160a01b03165f8181526008602081815260408084205484526005825280842094845293815292909120600d810180546affffffffffffffffffff00191668ffffffffffffffff009590931b9490941691909117604885901b61ffff60481b16179092556064915f915f905b600a8210611ea457600e8301849055005b9092843560ff811681036102d457611ecf8391866001949060ff809160031b9316831b921b19161790565b950194930190611e93565b346102d45760403660031901126102d4576024356001600160401b0381116102d457611f0a903690600401612ef0565b335f5260206008815260405f20545f526005815260405f20335f52815260ff600f60405f20015416156116a057335f526008815260405f20545f526004815260ff600460405f20015460181c1615610f5657335f526008815260405f20545f526005815260405f2090335f5252601160405f200154600a8101809111610cea57421061188d57610305916004356131d6565b346102d4575f3660031901126102d45760a060015460025460ff604051926001600160401b0381168452818160401c166020850152818160481c16604085015260501c1660608301526080820152f35b346102d45760203660031901126102d4576001600160a01b0361200d612da5565b165f526008602052602060405f2054604051908152f35b346102d45760403660031901126102d4576024356004355f52600660205260405f2080548210156102d45760209161205b91612edb565b905460405160039290921b1c6001600160a01b03168152f35b346102d45760a03660031901126102d45761208d612da5565b6001600160401b0360643516606435036102d45760843515908115608435036102d4576120b86139a7565b6001600160a01b0381165f81815260086020908152604080832054835260058252808320938352929052908120600f81015491929160ff16156116a0576024355f52600960205260405f2060018060a01b0383165f5260205260405f209360ff600d830154168015612378575b1561233c5761213660243584613dc3565b6001600160a01b0383165f908152600860205260409020546002860155600d82015460ff16156122335761133a576001600160401b03600d82015460081c16936001600160401b036064351685106112ee576121c5600392600d61219f602098606435906131bd565b91019068ffffffffffffffff0082549160081b169068ffffffffffffffff001916179055565b60018101805467ffffffffffffffff19166064356001600160401b03161790555b01805460ff19166001179055604051428152602435916001600160a01b0316907f5c14b2b421fc53f4e722a3a62f66a56eb8f629b681f71a7a557bc141201dd727908590a3604051908152f35b5091506084351561232d576122948161226d6122596001600160401b0360643516614448565b612264818754613ec6565b906114f56144ca565b93612279858254613ef8565b8155612286858754613f21565b865561153a815430906147b0565b61229f3084546147b0565b6122aa8184546147b0565b6122b430836147b0565b6122be81836147b0565b5f80516020614d54833981519152546001600160a01b031692833b156102d457604051630f8e573b60e21b815260048101849052336024820152935f908590604490829084905af1908115610eb05760209460039261231e575b506121e6565b61232790612e09565b85612318565b6122948161226d604435612259565b60ff60038601541680612361575b1561213657604051631ccfc4cd60e21b8152600490fd5b506002850154600860205260405f2054141561234a565b50608435612125565b346102d45760203660031901126102d457600435801580156124a5575b610f8b575f52600460205261016060405f206101406040516123bf81612ded565b825492838252600181015480602084015260ff60028301548060408601526003840154948560608201526004850154918383166080830152838360081c1660a0830152838360101c1660c0830152838360181c16151560e083015261010094848460201c1615158684015260018060a01b039283600561012099828860281c168b850152015416998a910152604051998a5260208a01526040890152828260101c166060890152828260181c1615156080890152828260201c16151560a08901528160281c1660c088015281811660e088015260081c1690850152830152610140820152f35b50600354811161239e565b346102d45760203660031901126102d4576004355f52600b602052602060ff60405f2054166040519015158152f35b346102d4575f3660031901126102d45760206040517fc5e2d1653feba496cf5ce3a744b90ea18acf0df3d036aba9b2f85992a14679068152f35b346102d45760403660031901126102d457612532612dbb565b6004355f52600560205260405f209060018060a01b03165f5260205260a060405f206040519061256182612dd1565b80548252600181015460208301526002810154604083015261258560038201613111565b606083015260ff600d820154818116151560808501526001600160401b038160081c168585015261ffff8160481c1660c085015260581c1660e08301526125ce600e8201613143565b6101008301526101c0600f8201549260ff8085161515948561012084015260081c161515806101408301526010840154918261016082015260ff60136011870154968761018085015260128101546101a085015201541693849101526040519485526020850152604084015260608301526080820152f35b346102d4576003196060368201126102d45760043590612664612dbb565b906044926044356001600160401b03928382116102d457366023830112156102d45781600401359160249061269884612e59565b916126a66040519384612e38565b848352602098898401906024829760051b850101933685116102d45760248101925b85841061290a57505050505050835f52600c875260405f205494855f52600b885260ff60405f2054161580156128f8575b6128e657604080516001600160a01b0389168a820152606081830181905291815295908601918211868310176108ab5781604052805f527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0291828a5260405f2054156128d75750908894929593915f52845260405f209460405193848688549182815201975f52865f20905f5b8181106128c0575050506127d4906127a3866127c4990387612e38565b604051632c027b1360e21b8152606060048201529788966064880190613ce0565b9084878303016024880152613d13565b918483030160448501525180825284820191858260051b82010193925f915b838310612892575050505050819003815f731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac5af1908115610eb0575f9161285c575b501561284a57600b61030593825f525260405f2060ff198154169055613d51565b60405163cf6c44e960e01b8152600490fd5b90508381813d831161288b575b6128738183612e38565b810103126102d4575180151581036102d45784612829565b503d612869565b9295509295806128af60019396601f198682030187528951613d13565b9701930193018995938795926127f3565b82548a5297909801978b9760019283019201612786565b63d66ca67560e01b8152600490fd5b604051633fa3d59f60e11b8152600490fd5b50600a885260405f20548514156126f9565b83358b81116102d4578201366043820112156102d4578d9161293583923690878a8201359101612e70565b8152019301926126c8565b346102d45760403660031901126102d457612959612dbb565b336001600160a01b038216036129755761030590600435613c6e565b60405163334bd91960e11b8152600490fd5b346102d4576020806003193601126102d4576004355f526006815260405f20604051908183825491828152019081925f52845f20905f5b86828210612a1c5786866129d482880383612e38565b60405192839281840190828552518091526040840192915f5b8281106129fc57505050500390f35b83516001600160a01b0316855286955093810193928101926001016129ed565b83546001600160a01b0316855290930192600192830192016129be565b346102d45760403660031901126102d457610305600435612a58612dbb565b90805f525f602052612a70600160405f200154613a7b565b613bf8565b346102d4575f3660031901126102d4576020600354604051908152f35b346102d45760203660031901126102d457610305612aae612da5565b612ab6613951565b613a9c565b346102d45760203660031901126102d4576004355f525f6020526020600160405f200154604051908152f35b346102d4575f3660031901126102d457600354612b03816130cb565b905f9060015b81811115612b8a575050612b1c816130cb565b915f5b828110612b6b5783604051809160208083016020845282518091526020604085019301915f5b828110612b5457505050500390f35b835185528695509381019392810192600101612b45565b80612b78600192846130fd565b51612b8382876130fd565b5201612b1f565b805f52600460205260ff600460405f20015460181c16612bb3575b612bae90612f4a565b612b09565b91612bcc8184612bc6612bae94886130fd565b52612f4a565b929050612ba5565b346102d4575f3660031901126102d457602060405160328152f35b346102d45760203660031901126102d4576004355f52600460205261016060405f208054906005600182015491600281015460038201549060048301549260018060a01b039485910154169460405196875260208701526040860152606085015260ff8116608085015260ff8160081c1660a085015260ff8160101c1660c085015260ff8160181c16151560e085015260ff8160201c16151561010085015260281c16610120830152610140820152f35b346102d45760203660031901126102d4576004355f52600c602052602060405f2054604051908152f35b346102d4575f3660031901126102d4576020604051600a8152f35b346102d45760203660031901126102d45760043580158015612d0f575b610f8b5761030590612f58565b506003548111612d02565b346102d4575f3660031901126102d4576020604051620151808152f35b346102d45760203660031901126102d4576004359063ffffffff60e01b82168092036102d457602091637965db0b60e01b8114908115612d79575b5015158152f35b6301ffc9a760e01b14905083612d72565b346102d4575f3660031901126102d457602060405160648152f35b600435906001600160a01b03821682036102d457565b602435906001600160a01b03821682036102d457565b6101e081019081106001600160401b038211176108ab57604052565b61016081019081106001600160401b038211176108ab57604052565b6001600160401b0381116108ab57604052565b61014081019081106001600160401b038211176108ab57604052565b90601f801991011681019081106001600160401b038211176108ab57604052565b6001600160401b0381116108ab5760051b60200190565b9291926001600160401b0382116108ab5760405191612e99601f8201601f191660200184612e38565b8294818452818301116102d4578281602093845f960137010152565b805415612ec7575f5260205f20905f90565b634e487b7160e01b5f52603260045260245ffd5b8054821015612ec7575f5260205f2001905f90565b9181601f840112156102d4578235916001600160401b0383116102d457602083818601950101116102d457565b6024359060ff821682036102d457565b6044359060ff821682036102d457565b91908201809211610cea57565b5f198114610cea5760010190565b805f52602060046020526040805f209260048401549260ff9360ff8160181c16156130bb5760028601805491612f9560039360038a015490612f3d565b42106130aa5760ff88549160081c16111561309857612fb48754612f4a565b8755429055825f526006602052835f20965f5b88548110156130605780612fdd6001928b612edb565b838060a01b03915490861b1c16865f5260058652875f20905f528552865f2088600f8201541661300f575b5001612fc7565b88600d8201805482811661302d575b5050506012429101555f613008565b6130589261303e9160581c16613f50565b815460ff60581b191660589190911b60ff60581b16179055565b885f8061301e565b5096505050927fcf7c34879b635eb3aa5f5f79674cd09fbe52b3c7025ff72c051e36482c70fdd29250548151908152426020820152a2565b5050509150506130a89150613913565b565b85516321b026c560e21b8152600490fd5b835162a3097160e01b8152600490fd5b906130d582612e59565b6130e26040519182612e38565b82815280926130f3601f1991612e59565b0190602036910137565b8051821015612ec75760209160051b010190565b60405191905f835b600a821061312d575050506130a882612e1c565b6001602081928554815201930191019091613119565b90604051915460ff908181168452818160081c166020850152818160101c166040850152818160181c166060850152818160201c166080850152818160281c1660a0850152818160301c1660c0850152818160381c1660e0850152818160401c1661010085015260481c166101208301526130a882612e1c565b6001600160401b039182169082160391908211610cea57565b919091335f526008602052604092835f20545f526005602052835f20335f52602052835f2092600d8401805460ff8116613301575050613290939261322361328893613229933691612e70565b90614902565b9161323430846147b0565b613277600282019361326f85548281156132ec575b61325a90841592836132dc57614662565b928754909181156132cc575b6132bc57614708565b8554916146b6565b9081845560114291015530906147b0565b3390546147b0565b514281527fefb247adb67a1f4a637d338494f973d6878e3b545bcbfb20f6483097d91ca7fc60203392a2565b90506132c66145bc565b90614708565b90506132d66145bc565b90613266565b90506132e66145bc565b90614662565b905061325a6132f96145bc565b919050613249565b9250929015801590613399575b6133885760ff8091169160581c16818110613377570360ff8111610cea57815460ff60581b191660589190911b60ff60581b161790555b601142910155514281527fefb247adb67a1f4a637d338494f973d6878e3b545bcbfb20f6483097d91ca7fc60203392a2565b8451633249a22160e21b8152600490fd5b845163b4fa3fb360e01b8152600490fd5b5060ff811161330e565b60243560ff811681036102d45790565b60443560ff811681036102d45790565b60643560ff811681036102d45790565b905f52600960205260405f2060018060a01b03821690815f5260205260405f209060ff6003830154161561346d5760028201545f52600560205260405f20905f5260205260405f2060ff600d8201541661133a5782613462916134546134406130a89786546114f56144ca565b61344b818454613f21565b83558554613ef8565b845561153a815430906147b0565b61153a3082546147b0565b50505050565b6001600160a01b03165f8181526008602090815260408083205483526005825280832093835292905220600f81015460ff161561351057600860205260405f20545f52600460205260ff600460405f20015460181c1615613510576011810154600a8101809111610cea57421061351057600d015460ff81169081613501575b506134fd57600190565b5f90565b60ff915060581c16155f6134f3565b505f90565b600a821015612ec75701905f90565b919091335f526008602052604092835f20545f526005602052835f20335f52602052835f2092600d8401805460ff81166135b257505061357a6132909493613574613288946135a2943691612e70565b9061481a565b61358430826147b0565b61359a613592828654613ec6565b918554613ef8565b8454916146b6565b80835542601184015530906147b0565b92509290158015906135e8575b613388576001600160401b038091169160081c16818110613377576133459291611218916131bd565b506001600160401b0381116135bf565b335f526020600881526040805f20545f5260058252805f20335f528252805f209060128201805461012c8101809111610cea5742106137ad57600d8301805460ff811661376a5750505f80516020614d74833981519152548251639cd07acb60e01b81526064600482015260026024820152908590829060449082905f906001600160a01b03165af1908115613760575f9161372f575b5092613288613707926136f97f3d843963154473d660c05ed5bb01735f826c39a862969e5214854810fa6b2a1c966136dc60026136d260ff6001548b1c1661451d565b9601958654613f7a565b906136f481838415613721575b8315613711576149b7565b6146b6565b9081845542905530906147b0565b51914283523392a2565b905061371b6145bc565b906149b7565b5061372a6145bc565b6136e9565b9390508484813d8311613759575b6137478183612e38565b810103126102d457925161328861368f565b503d61373d565b83513d5f823e3d90fd5b7f3d843963154473d660c05ed5bb01735f826c39a862969e5214854810fa6b2a1c94509061303e60ff6137a09360581c16613f50565b42905551914283523392a2565b81516321b026c560e21b8152600490fd5b9190916001600160401b0380809416911601918211610cea57565b919091600a831015612ec757601f908360051c01921690565b91905f52600960205260405f209060018060a01b03831691825f5260205260405f209160ff6003840154161561386a5760028301545f52600560205260405f20905f5260205260405f209360ff600d8601541661133a576130a894613454613440848794613864613462978954613ef8565b906146b6565b5050505050565b6004356001600160401b03811681036102d45790565b815f52600960205260405f209060018060a01b031690815f5260205260ff600360405f200154161561390f57815f52600960205260405f20815f526020526138e360405f2060035f918281558260018201558260028201550155565b7fbfd745f5f700f2c1e4e48566be2ff7fd2bc7d45e4b0399dde08e5ed422af8bf06020604051428152a3565b5050565b805f526004602052600460405f20019081549160ff8360181c161561394c576401000000006130a89364ffff0000001916179055613fa3565b505050565b335f9081527fad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5602052604090205460ff161561398957565b60405163e2517d3f60e01b81523360048201525f6024820152604490fd5b335f9081527ff2d19feb5547524783b7bad00410790cff4bde378a563f400aa879f0e01b51f360205260409020547fc5e2d1653feba496cf5ce3a744b90ea18acf0df3d036aba9b2f85992a14679069060ff1615613a025750565b6044906040519063e2517d3f60e01b82523360048301526024820152fd5b335f9081527ff11d5cd6172e4d486247e8873a157a5cbd86d37171bf6cd250fc0a75f26713f960205260409020547fef17b1f3c5a412f9c8e887e3abd186802afec7dc657fd3b7002bf87b128dd0b19060ff1615613a025750565b805f525f60205260405f20335f5260205260ff60405f20541615613a025750565b6001600160a01b03165f8181527ff2d19feb5547524783b7bad00410790cff4bde378a563f400aa879f0e01b51f360205260409020547fc5e2d1653feba496cf5ce3a744b90ea18acf0df3d036aba9b2f85992a1467906919060ff16613b4757815f525f60205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4600190565b50505f90565b6001600160a01b03165f8181527fea37d550ab04417997b54050d52d06af9b279582f0a9cb4831541e394d556d9060205260409020547fda146bdcee179bf91932b72d5f48336fa2738b1ecb32dd1e4f46611406df3890919060ff16613b4757815f525f60205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4600190565b90815f525f60205260405f209060018060a01b031690815f5260205260ff60405f205416155f14613b4757815f525f60205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4600190565b90815f525f60205260405f209060018060a01b031690815f5260205260ff60405f2054165f14613b4757815f525f60205260405f20815f5260205260405f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4600190565b9081518082526020808093019301915f5b828110613cff575050505090565b835185529381019392810192600101613cf1565b91908251928382525f5b848110613d3d575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201613d1d565b5f81815260046020819052604090912001805465010000000000600160c81b031916602884901b65010000000000600160c81b03161790556040514281526001600160a01b03909216917ff1898de79c348962fab7695532341027e5bceb0ea2a8785790fa7d7efeeee12990602090a3565b5f8281526009602090815260408083206001600160a01b03851680855290835292819020600381015493949360ff1615613ebe577fe393090be3b2bc0a4139c4c1bd1123f2750cfbfe209522ca56a5a41ee5c5140b9360028201545f5260058452825f20865f528452825f2090600d82019160ff8354165f14613e985750506112186001613e65936001600160401b0391829101541690835460081c166137be565b845f5260098252805f20845f528252613e91815f2060035f918281558260018201558260028201550155565b51428152a3565b90915061153a613eaf613eb9948354905490613f21565b80835530906147b0565b613e65565b505050505050565b90613edd918015613eea575b8115613ee057614662565b90565b90506132e66144ca565b50613ef36144ca565b613ed2565b90613edd918015613f13575b816147085790506132c66144ca565b50613f1c6144ca565b613f04565b90613edd918015613f42575b8161475c579050613f3c6144ca565b9061475c565b50613f4b6144ca565b613f2d565b613f659060ff8060015460401c169116612f3d565b6064811115613f745750606490565b60ff1690565b90613edd918015613f95575b8161475c579050613f3c6145bc565b50613f9e6145bc565b613f86565b5f90805f52602090600682526040805f20928354156143fc57613fc583614a0b565b61433e57825f526005808252825f20613fdd86612eb5565b909160018060a01b0380935460039360031b1c165f528452614000855f20614b06565b9661401b8361400e83612eb5565b90549060031b1c1661460f565b9960019a5b82548c10156140a6576140866001918661403a8f87612edb565b905490881b1c169b8b5f52888a528a5f208d5f528a526138646140806140618d5f20614b06565b9261407981858615614098575b831561408e576149b7565b93846146b6565b9d61460f565b9b019a614020565b905061371b6144ca565b506140a16144ca565b61406e565b94509950505095919394508251838101906001600160401b0391818110838211176108ab578552600181528581019286368537815115612ec75783527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d0192835498805f80516020614d548339815191525416803b156102d4575f88518092637d6e912360e11b82528b6004830152818381614144602482018b613ce0565b03925af1801561433457614321575b507f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d005416803b1561431d578587518092633263b83b60e01b82528c6004830152606060248301528183816141aa606482018a613ce0565b633a16d64760e01b604483015203925af18015614313579086916142fb575b508990527f5ea69329017273582817d320489fbd94f775580e90c092699ca6f3d12fdf7d02808852868620546142ea57898652875285852091519283116142d657600160401b83116142d65781548383558084106142b1575b509087939695949291908352858320835b83811061429c575050505082908561426c7f34c5b700d20129e31e19f551c5a659d65a91e0c6fd2c15fbaf41ef3fa86427669754612f4a565b9055828152600a85528782822055600b8552818120600160ff19825416179055878152600c8552205551428152a3565b82518183015589955091870191600101614233565b8286528388872091820191015b8181106142cb5750614222565b5f81556001016142be565b634e487b7160e01b85526041600452602485fd5b8651633f06d22b60e01b8152600490fd5b61430490612e09565b61430f57845f6141c9565b8480fd5b87513d88823e3d90fd5b8580fd5b61432c919650612e09565b5f945f614153565b88513d5f823e3d90fd5b9294935061434b85612eb5565b939060018060a01b0380915460039660031b1c1694845f5260059760058452845f20875f52845261437d855f20614a7d565b906001956001958254965b8781106143a3575050505050505050506130a8929350613d51565b895f528c8252825f20876143b78387612edb565b905490891b1c165f5282526143cd835f20614a7d565b8581116143dd575b508801614388565b909a50935087866143ee8c86612edb565b905490881b1c169a906143d5565b905f94507ff1898de79c348962fab7695532341027e5bceb0ea2a8785790fa7d7efeeee1299293506004825260048186200165010000000000600160c81b0319815416905551428152a3565b5f80516020614d7483398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610eb0575f9161449b575090565b90506020813d6020116144c2575b816144b660209383612e38565b810103126102d4575190565b3d91506144a9565b5f80516020614d7483398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610eb0575f9161449b575090565b5f80516020614d7483398151915254604051639cd07acb60e01b8152600481019290925260026024830152602090829060449082905f906001600160a01b03165af1908115610eb0575f9161449b575090565b5f602060018060a01b035f80516020614d748339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610eb0575f9161449b575090565b5f80516020614d7483398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115610eb0575f9161449b575090565b5f80516020614d7483398151915254604051639cd07acb60e01b8152600481019290925260076024830152602090829060449082905f906001600160a01b03165af1908115610eb0575f9161449b575090565b90602090606460018060a01b035f80516020614d748339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610eb0575f9161449b575090565b9060646020925f60018060a01b035f80516020614d7483398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610eb0575f9161449b575090565b90602090606460018060a01b035f80516020614d748339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610eb0575f9161449b575090565b90602090606460018060a01b035f80516020614d748339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610eb0575f9161449b575090565b5f80516020614d54833981519152546001600160a01b031691823b156102d457604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af18015610eb0576148115750565b6130a890612e09565b5f80516020614d748339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290614872906084830190613d13565b6005606483015203925af1908115610eb0575f916148d0575b5080925f80516020614d548339815191525416803b156102d457604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101614800565b90506020813d6020116148fa575b816148eb60209383612e38565b810103126102d457515f61488b565b3d91506148de565b5f80516020614d748339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f90829061495a906084830190613d13565b6002606483015203925af1908115610eb0575f916148d0575080925f80516020614d548339815191525416803b156102d457604051630f8e573b60e21b815260048101929092523360248301525f90829081838160448101614800565b90602090606460018060a01b035f80516020614d748339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af1908115610eb0575f9161449b575090565b805f526020600660205260409160405f20925f938054945b858110614a3557505050505050600190565b835f5260058552825f20614a498284612edb565b60018060a01b0391549060031b1c165f52855260ff600d845f2001541615614a7357600101614a23565b5050505050505f90565b5f905f5b600a8110614adb5750600d015461ffff8160481c16600a810290808204600a1490151715610cea576001600160401b03614abe9260081c16612f3d565b90603281029080820460321490151715610cea57613edd91612f3d565b91614aff60019160ff614af186600e87016137d9565b90549060031b1c1690612f3d565b9201614a81565b9060ff600d83015416614ce5575f8254614b236001850154614d00565b8015614cd3575b5f80516020614d7483398151915254604051630afe14ad60e31b81526004810192909252600a6024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af1908115610eb0575f91614c9d575b614b8f9250613f21565b915f925b600a841015614c9857614ba98460038401613515565b90549060031b1c15614c8f57614bd1614bc58560038501613515565b90549060031b1c614d00565b8015614c7b575b5f80516020614d7483398151915254604051630afe14ad60e31b8152600481019290925260326024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610eb0575f91614c48575b50614c3f90600192613f21565b935b0192614b93565b90506020813d602011614c73575b81614c6360209383612e38565b810103126102d457516001614c32565b3d9150614c56565b505f6020614c876144ca565b915050614bd8565b92600190614c41565b925050565b90506020823d602011614ccb575b81614cb860209383612e38565b810103126102d457614b8f915190614b85565b3d9150614cab565b506020614cde6144ca565b9050614b2a565b906001600160401b03614cfa613edd92614a7d565b16614448565b5f80516020614d74833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610eb0575f9161449b57509056feed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea600ed8d60e34876f751cc8b014c560745351147d9de11b9347c854e881b128ea601a26469706673582212202b5c09e7d89014011b8c229ce8c81019d847cef8af38e2a341ab1236071cfcca64736f6c634300081800332f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0dad3228b676f7d3cd4284a5443f17f1962b36e491b30a40b2405849e597ba5fb5";
+
+type ShadowMerchantsHarnessConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ShadowMerchantsHarnessConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ShadowMerchantsHarness__factory extends ContractFactory {
+  constructor(...args: ShadowMerchantsHarnessConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ShadowMerchantsHarness & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ShadowMerchantsHarness__factory {
+    return super.connect(runner) as ShadowMerchantsHarness__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ShadowMerchantsHarnessInterface {
+    return new Interface(_abi) as ShadowMerchantsHarnessInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ShadowMerchantsHarness {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ShadowMerchantsHarness;
+  }
+}
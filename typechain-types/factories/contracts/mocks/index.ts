@@ -0,0 +1,9 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { MockACL__factory } from "./MockACL__factory";
+export { MockDecryptionOracle__factory } from "./MockDecryptionOracle__factory";
+export { MockFHEVMExecutor__factory } from "./MockFHEVMExecutor__factory";
+export { MockInputVerifier__factory } from "./MockInputVerifier__factory";
+export { MockKMSVerifier__factory } from "./MockKMSVerifier__factory";
+export { ShadowMerchantsHarness__factory } from "./ShadowMerchantsHarness__factory";
@@ -53,18 +53,54 @@ declare module "hardhat/types/runtime" {
       name: "IERC165",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IERC165__factory>;
+    getContractFactory(
+      name: "FHEVMConfig",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.FHEVMConfig__factory>;
     getContractFactory(
       name: "InputVerificationMock",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.InputVerificationMock__factory>;
+    getContractFactory(
+      name: "IProofVerificationCallback",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IProofVerificationCallback__factory>;
     getContractFactory(
       name: "IInputVerification",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerification__factory>;
+    getContractFactory(
+      name: "IShadowMerchants",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IShadowMerchants__factory>;
     getContractFactory(
       name: "MarketAuction",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.MarketAuction__factory>;
+    getContractFactory(
+      name: "MockACL",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockACL__factory>;
+    getContractFactory(
+      name: "MockDecryptionOracle",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockDecryptionOracle__factory>;
+    getContractFactory(
+      name: "MockFHEVMExecutor",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockFHEVMExecutor__factory>;
+    getContractFactory(
+      name: "MockInputVerifier",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockInputVerifier__factory>;
+    getContractFactory(
+      name: "MockKMSVerifier",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockKMSVerifier__factory>;
+    getContractFactory(
+      name: "ShadowMerchantsHarness",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ShadowMerchantsHarness__factory>;
     getContractFactory(
       name: "ShadowMerchants",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -120,21 +156,66 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.IERC165>;
+    getContractAt(
+      name: "FHEVMConfig",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.FHEVMConfig>;
     getContractAt(
       name: "InputVerificationMock",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.InputVerificationMock>;
+    getContractAt(
+      name: "IProofVerificationCallback",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IProofVerificationCallback>;
     getContractAt(
       name: "IInputVerification",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerification>;
+    getContractAt(
+      name: "IShadowMerchants",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IShadowMerchants>;
     getContractAt(
       name: "MarketAuction",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.MarketAuction>;
+    getContractAt(
+      name: "MockACL",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockACL>;
+    getContractAt(
+      name: "MockDecryptionOracle",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockDecryptionOracle>;
+    getContractAt(
+      name: "MockFHEVMExecutor",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockFHEVMExecutor>;
+    getContractAt(
+      name: "MockInputVerifier",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockInputVerifier>;
+    getContractAt(
+      name: "MockKMSVerifier",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockKMSVerifier>;
+    getContractAt(
+      name: "ShadowMerchantsHarness",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ShadowMerchantsHarness>;
     getContractAt(
       name: "ShadowMerchants",
       address: string | ethers.Addressable,
@@ -181,18 +262,54 @@ declare module "hardhat/types/runtime" {
       name: "IERC165",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IERC165>;
+    deployContract(
+      name: "FHEVMConfig",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.FHEVMConfig>;
     deployContract(
       name: "InputVerificationMock",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.InputVerificationMock>;
+    deployContract(
+      name: "IProofVerificationCallback",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IProofVerificationCallback>;
     deployContract(
       name: "IInputVerification",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerification>;
+    deployContract(
+      name: "IShadowMerchants",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IShadowMerchants>;
     deployContract(
       name: "MarketAuction",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.MarketAuction>;
+    deployContract(
+      name: "MockACL",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockACL>;
+    deployContract(
+      name: "MockDecryptionOracle",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockDecryptionOracle>;
+    deployContract(
+      name: "MockFHEVMExecutor",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockFHEVMExecutor>;
+    deployContract(
+      name: "MockInputVerifier",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockInputVerifier>;
+    deployContract(
+      name: "MockKMSVerifier",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockKMSVerifier>;
+    deployContract(
+      name: "ShadowMerchantsHarness",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ShadowMerchantsHarness>;
     deployContract(
       name: "ShadowMerchants",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -248,21 +365,66 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IERC165>;
+    deployContract(
+      name: "FHEVMConfig",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.FHEVMConfig>;
     deployContract(
       name: "InputVerificationMock",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.InputVerificationMock>;
+    deployContract(
+      name: "IProofVerificationCallback",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IProofVerificationCallback>;
     deployContract(
       name: "IInputVerification",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerification>;
+    deployContract(
+      name: "IShadowMerchants",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IShadowMerchants>;
     deployContract(
       name: "MarketAuction",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.MarketAuction>;
+    deployContract(
+      name: "MockACL",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockACL>;
+    deployContract(
+      name: "MockDecryptionOracle",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockDecryptionOracle>;
+    deployContract(
+      name: "MockFHEVMExecutor",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockFHEVMExecutor>;
+    deployContract(
+      name: "MockInputVerifier",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockInputVerifier>;
+    deployContract(
+      name: "MockKMSVerifier",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockKMSVerifier>;
+    deployContract(
+      name: "ShadowMerchantsHarness",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ShadowMerchantsHarness>;
     deployContract(
       name: "ShadowMerchants",
       args: any[],
@@ -28,11 +28,29 @@ export type { ERC165 } from "./@openzeppelin/contracts/utils/introspection/ERC16
 export { ERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/ERC165__factory";
 export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
 export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
-export type { InputVerificationMock } from "./contracts/InputVerificationMock";
-export { InputVerificationMock__factory } from "./factories/contracts/InputVerificationMock__factory";
+export type { FHEVMConfig } from "./contracts/FHEVMConfig";
+export { FHEVMConfig__factory } from "./factories/contracts/FHEVMConfig__factory";
+export type { InputVerificationMock } from "./contracts/InputVerificationMock.sol/InputVerificationMock";
+export { InputVerificationMock__factory } from "./factories/contracts/InputVerificationMock.sol/InputVerificationMock__factory";
+export type { IProofVerificationCallback } from "./contracts/InputVerificationMock.sol/IProofVerificationCallback";
+export { IProofVerificationCallback__factory } from "./factories/contracts/InputVerificationMock.sol/IProofVerificationCallback__factory";
 export type { IInputVerification } from "./contracts/MarketAuction.sol/IInputVerification";
 export { IInputVerification__factory } from "./factories/contracts/MarketAuction.sol/IInputVerification__factory";
+export type { IShadowMerchants } from "./contracts/MarketAuction.sol/IShadowMerchants";
+export { IShadowMerchants__factory } from "./factories/contracts/MarketAuction.sol/IShadowMerchants__factory";
 export type { MarketAuction } from "./contracts/MarketAuction.sol/MarketAuction";
 export { MarketAuction__factory } from "./factories/contracts/MarketAuction.sol/MarketAuction__factory";
+export type { MockACL } from "./contracts/mocks/MockACL";
+export { MockACL__factory } from "./factories/contracts/mocks/MockACL__factory";
+export type { MockDecryptionOracle } from "./contracts/mocks/MockDecryptionOracle";
+export { MockDecryptionOracle__factory } from "./factories/contracts/mocks/MockDecryptionOracle__factory";
+export type { MockFHEVMExecutor } from "./contracts/mocks/MockFHEVMExecutor";
+export { MockFHEVMExecutor__factory } from "./factories/contracts/mocks/MockFHEVMExecutor__factory";
+export type { MockInputVerifier } from "./contracts/mocks/MockInputVerifier";
+export { MockInputVerifier__factory } from "./factories/contracts/mocks/MockInputVerifier__factory";
+export type { MockKMSVerifier } from "./contracts/mocks/MockKMSVerifier";
+export { MockKMSVerifier__factory } from "./factories/contracts/mocks/MockKMSVerifier__factory";
+export type { ShadowMerchantsHarness } from "./contracts/mocks/ShadowMerchantsHarness";
+export { ShadowMerchantsHarness__factory } from "./factories/contracts/mocks/ShadowMerchantsHarness__factory";
 export type { ShadowMerchants } from "./contracts/ShadowMerchants";
 export { ShadowMerchants__factory } from "./factories/contracts/ShadowMerchants__factory";